@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { CostCategory } from "@/models/CostCategory";
+import { DEFAULT_COST_CATEGORIES } from "@/utils/costCalculations";
+import {
+  createUserCostCategory,
+  findCostCategoriesForUser,
+} from "@/utils/costCategoryQueries";
+
+describe("Cost categories", () => {
+  let mongoServer: MongoMemoryServer;
+  const userId = "user-1";
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await CostCategory.deleteMany({});
+  });
+
+  it("should seed the system categories when listing them", async () => {
+    const categories = await findCostCategoriesForUser(userId);
+
+    expect(categories.map(({ code }) => code).sort()).toEqual(
+      DEFAULT_COST_CATEGORIES.map(({ code }) => code).sort(),
+    );
+    expect(categories.every(({ isSystem }) => isSystem)).toBe(true);
+  });
+
+  it("should seed only the missing system categories", async () => {
+    await CostCategory.create({
+      code: "SOFTWARE",
+      name: "Programmi",
+      userId: null,
+      isSystem: true,
+    });
+
+    await findCostCategoriesForUser(userId);
+    const categories = await findCostCategoriesForUser(userId);
+
+    expect(categories).toHaveLength(DEFAULT_COST_CATEGORIES.length);
+    expect(categories.find(({ code }) => code === "SOFTWARE")?.name).toBe(
+      "Programmi",
+    );
+  });
+
+  it("should list the user's own categories after the system ones", async () => {
+    await createUserCostCategory(userId, "Abbonamenti");
+
+    const categories = await findCostCategoriesForUser(userId);
+
+    expect(categories).toHaveLength(DEFAULT_COST_CATEGORIES.length + 1);
+    expect(categories[categories.length - 1].name).toBe("Abbonamenti");
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { InpsParameters } from "@/models/InpsParameters";
+import { setupInpsParameters } from "@/lib/init/setupInpsParameters";
+import { getDefaultInpsParameters } from "@/utils/inpsCalculations";
+import {
+  createInpsParameters,
+  findInpsParametersInForce,
+} from "@/utils/inpsParametersQueries";
+
+describe("INPS parameters setup", () => {
+  let mongoServer: MongoMemoryServer;
+  const currentYear = new Date().getFullYear();
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await InpsParameters.deleteMany({});
+  });
+
+  it("should seed the default parameters of every year up to the current one", async () => {
+    await setupInpsParameters();
+
+    const years: number[] = await InpsParameters.distinct("year");
+    expect(years.sort()).toEqual(
+      Array.from({ length: currentYear - 2022 + 1 }, (_, i) => 2022 + i),
+    );
+    expect((await findInpsParametersInForce(currentYear))?.maxIncome).toBe(
+      getDefaultInpsParameters(currentYear).maxIncome,
+    );
+  });
+
+  it("should keep the parameters already stored for a year", async () => {
+    await createInpsParameters({
+      ...getDefaultInpsParameters(2023),
+      maxIncome: 100000,
+    });
+
+    await setupInpsParameters();
+
+    expect((await findInpsParametersInForce(2023))?.maxIncome).toBe(100000);
+    expect(await InpsParameters.countDocuments({ year: 2023 })).toBe(1);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { Invoice } from "@/models/Invoice";
+import { Client } from "@/models/Client";
+import { setupInvoiceBollo } from "@/lib/init/setupInvoiceBollo";
+import { setupInvoiceLineItems } from "@/lib/init/setupInvoiceLineItems";
+import { setupInvoiceClientLinks } from "@/lib/init/setupInvoiceClientLinks";
+import { setupInvoiceStatus } from "@/lib/init/setupInvoiceStatus";
+
+describe("Invoice migrations", () => {
+  let mongoServer: MongoMemoryServer;
+  const userId = "user-1";
+
+  // Invoices as saved before the fields being migrated existed,
+  // written directly so the model middleware does not fill them in
+  const insertLegacyInvoice = async (fields: Record<string, unknown> = {}) =>
+    (
+      await Invoice.collection.insertOne({
+        userId,
+        number: "1",
+        issueDate: new Date(2024, 0, 15),
+        title: "Consulenza",
+        clientName: "Rossi Srl",
+        amount: 1000,
+        fiscalYear: 2024,
+        ...fields,
+      })
+    ).insertedId;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Invoice.deleteMany({});
+    await Client.deleteMany({});
+  });
+
+  describe("setupInvoiceBollo", () => {
+    it("should record the stamp duty, not re-charged, on invoices without VAT", async () => {
+      const id = await insertLegacyInvoice();
+
+      await setupInvoiceBollo();
+
+      expect((await Invoice.findById(id).lean())?.bollo).toEqual({
+        amount: 2,
+        chargedToClient: false,
+      });
+    });
+
+    it("should leave invoices with VAT or under the threshold alone", async () => {
+      const withVat = await insertLegacyInvoice({
+        number: "2",
+        vat: { vatType: "standard", vatRate: 22 },
+      });
+      const small = await insertLegacyInvoice({ number: "3", amount: 50 });
+
+      await setupInvoiceBollo();
+
+      expect((await Invoice.findById(withVat).lean())?.bollo).toBeUndefined();
+      expect((await Invoice.findById(small).lean())?.bollo).toBeUndefined();
+    });
+  });
+
+  describe("setupInvoiceLineItems", () => {
+    it("should give single-amount invoices one line with their title, amount and VAT", async () => {
+      const vat = { vatType: "standard", vatRate: 22 };
+      const id = await insertLegacyInvoice({ vat });
+
+      await setupInvoiceLineItems();
+
+      expect((await Invoice.findById(id).lean())?.items).toEqual([
+        expect.objectContaining({
+          description: "Consulenza",
+          quantity: 1,
+          unitPrice: 1000,
+          amount: 1000,
+          vat,
+        }),
+      ]);
+    });
+
+    it("should leave invoices with lines alone", async () => {
+      const items = [
+        { description: "Analisi", quantity: 2, unitPrice: 300, amount: 600 },
+        { description: "Sviluppo", quantity: 1, unitPrice: 400, amount: 400 },
+      ];
+      const id = await insertLegacyInvoice({ items });
+
+      await setupInvoiceLineItems();
+
+      expect((await Invoice.findById(id).lean())?.items).toEqual([
+        expect.objectContaining(items[0]),
+        expect.objectContaining(items[1]),
+      ]);
+    });
+  });
+
+  describe("setupInvoiceClientLinks", () => {
+    it("should link invoices to the registry client with the same name", async () => {
+      const client = await Client.create({ userId, name: "Rossi  SRL" });
+      const id = await insertLegacyInvoice({ clientName: " rossi srl" });
+
+      await setupInvoiceClientLinks();
+
+      expect((await Invoice.findById(id).lean())?.clientId).toBe(
+        client._id.toString(),
+      );
+    });
+
+    it("should leave invoices of other users and other clients unlinked", async () => {
+      await Client.create({ userId, name: "Rossi Srl" });
+      await Client.create({ userId: "user-2", name: "Bianchi Spa" });
+      const other = await insertLegacyInvoice({ clientName: "Bianchi Spa" });
+
+      await setupInvoiceClientLinks();
+
+      expect((await Invoice.findById(other).lean())?.clientId).toBeUndefined();
+    });
+  });
+
+  describe("setupInvoiceStatus", () => {
+    it("should mark collected invoices paid and the others issued", async () => {
+      const paymentDate = new Date(2024, 1, 15);
+      const paid = await insertLegacyInvoice({ paymentDate });
+      const issued = await insertLegacyInvoice({ number: "2" });
+
+      await setupInvoiceStatus();
+
+      const paidInvoice = await Invoice.findById(paid).lean();
+      expect(paidInvoice?.status).toBe("paid");
+      expect(paidInvoice?.statusHistory).toEqual([
+        expect.objectContaining({
+          status: "issued",
+          changedAt: new Date(2024, 0, 15),
+        }),
+        expect.objectContaining({ status: "paid", changedAt: paymentDate }),
+      ]);
+
+      const issuedInvoice = await Invoice.findById(issued).lean();
+      expect(issuedInvoice?.status).toBe("issued");
+      expect(issuedInvoice?.statusHistory).toEqual([
+        expect.objectContaining({ status: "issued" }),
+      ]);
+    });
+
+    it("should let drafts without a number share the number index", async () => {
+      await Invoice.collection.dropIndexes();
+      await Invoice.collection.createIndex(
+        { userId: 1, fiscalYear: 1, number: 1 },
+        { unique: true },
+      );
+
+      await setupInvoiceStatus();
+      await Invoice.collection.insertMany([
+        { userId, fiscalYear: 2024, status: "draft" },
+        { userId, fiscalYear: 2024, status: "draft" },
+      ]);
+
+      expect(await Invoice.countDocuments({ status: "draft" })).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { Invoice } from "@/models/Invoice";
+import { InvoiceSequence } from "@/models/InvoiceSequence";
+import { setupInvoiceNumbering } from "@/lib/init/setupInvoiceNumbering";
+import { dropLegacyInvoiceNumberIndex } from "@/utils/invoiceQueries";
+import {
+  saveWithNextNumber,
+  updateNumberPattern,
+} from "@/utils/invoiceSequenceQueries";
+
+describe("Invoice numbering migration", () => {
+  let mongoServer: MongoMemoryServer;
+  const userId = "user-1";
+
+  const invoiceOfYear = (year: number) =>
+    new Invoice({
+      userId,
+      issueDate: new Date(year, 0, 15),
+      title: "Consulenza",
+      clientName: "Rossi Srl",
+      amount: 1000,
+      fiscalYear: year,
+    });
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Invoice.deleteMany({});
+    await InvoiceSequence.deleteMany({});
+    await Invoice.createIndexes();
+    // Index of databases created before numbers restarted every year
+    await Invoice.collection.createIndex(
+      { userId: 1, number: 1 },
+      { unique: true },
+    );
+  });
+
+  it("should drop the index keeping numbers unique across years", async () => {
+    await setupInvoiceNumbering();
+
+    expect(await Invoice.collection.indexExists("userId_1_number_1")).toBe(
+      false,
+    );
+    expect(
+      await Invoice.collection.indexExists("userId_1_fiscalYear_1_number_1"),
+    ).toBe(true);
+  });
+
+  it("should restart yearly numbers once the legacy index is dropped", async () => {
+    await updateNumberPattern(userId, "{seq}");
+    await saveWithNextNumber(invoiceOfYear(2024));
+
+    await expect(saveWithNextNumber(invoiceOfYear(2025))).rejects.toThrow(
+      /E11000/,
+    );
+
+    await setupInvoiceNumbering();
+    const invoice = await saveWithNextNumber(invoiceOfYear(2025));
+
+    expect(invoice.number).toBe("1");
+    expect(await Invoice.countDocuments({ userId, number: "1" })).toBe(2);
+  });
+
+  it("should still refuse the same number twice in a year", async () => {
+    await setupInvoiceNumbering();
+    await invoiceOfYear(2025).set({ number: "7" }).save();
+
+    await expect(
+      invoiceOfYear(2025).set({ number: "7" }).save(),
+    ).rejects.toThrow(/E11000/);
+  });
+
+  it("should do nothing when run again", async () => {
+    await setupInvoiceNumbering();
+
+    expect(await dropLegacyInvoiceNumberIndex()).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { Invoice } from "@/models/Invoice";
+import { deleteInvoice, updateInvoice } from "@/utils/invoiceQueries";
+
+describe("Invoice updates", () => {
+  let mongoServer: MongoMemoryServer;
+  const userId = "user-1";
+
+  const createInvoice = async (status: "draft" | "issued" | "paid") =>
+    (
+      await Invoice.create({
+        userId,
+        number: status === "draft" ? undefined : "2025/001",
+        issueDate: new Date(2025, 0, 15),
+        title: "Consulenza",
+        clientName: "Rossi Srl",
+        amount: 1000,
+        fiscalYear: 2025,
+        status,
+        ...(status === "paid" && {
+          paymentDate: new Date(2025, 1, 15),
+          payments: [{ date: new Date(2025, 1, 15), amount: 1000 }],
+        }),
+      })
+    )._id.toString();
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Invoice.deleteMany({});
+  });
+
+  describe("updateInvoice", () => {
+    it("should record the balance due after the update when paying", async () => {
+      const id = await createInvoice("issued");
+
+      const result = await updateInvoice(
+        id,
+        userId,
+        { amount: 1200, items: [] },
+        new Date(2025, 2, 1),
+      );
+
+      expect(result?.invoice?.status).toBe("paid");
+      expect(result?.invoice?.amount).toBe(1200);
+      expect(result?.invoice?.payments?.map(({ amount }) => amount)).toEqual([
+        1200,
+      ]);
+    });
+
+    it("should refuse new amounts on paid invoices", async () => {
+      const id = await createInvoice("paid");
+
+      const result = await updateInvoice(id, userId, {
+        amount: 1200,
+        items: [],
+      });
+
+      expect(result?.error).toBe(
+        "Only draft and issued invoices can have their amounts changed",
+      );
+      expect((await Invoice.findById(id))?.amount).toBe(1000);
+    });
+
+    it("should let paid invoices change what does not affect amounts", async () => {
+      const id = await createInvoice("paid");
+
+      const result = await updateInvoice(id, userId, {
+        title: "Consulenza febbraio",
+        amount: 1000,
+      });
+
+      expect(result?.invoice?.title).toBe("Consulenza febbraio");
+      expect(result?.invoice?.status).toBe("paid");
+    });
+
+    it("should move the invoice back when its payment is removed", async () => {
+      const id = await createInvoice("paid");
+
+      const result = await updateInvoice(id, userId, {}, null);
+
+      expect(result?.invoice?.status).toBe("issued");
+      expect(result?.invoice?.payments).toBeUndefined();
+    });
+  });
+
+  describe("deleteInvoice", () => {
+    it("should delete drafts", async () => {
+      const id = await createInvoice("draft");
+
+      expect(await deleteInvoice(id, userId)).toBe(true);
+      expect(await Invoice.findById(id)).toBeNull();
+    });
+
+    it("should keep issued invoices", async () => {
+      const id = await createInvoice("issued");
+
+      expect(await deleteInvoice(id, userId)).toBe(false);
+      expect(await Invoice.findById(id)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { Types } from "mongoose";
+import { NextRequest } from "next/server";
+import { connectDB, disconnectDB } from "@/lib/database/mongodb";
+import { generateToken } from "@/lib/auth/jwt";
+import { Invoice } from "@/models/Invoice";
+import { Report } from "@/models/Report";
+import { POST } from "@/app/api/reports/route";
+import { GET as DOWNLOAD } from "@/app/api/reports/[id]/route";
+
+describe("/api/reports", () => {
+  let mongoServer: MongoMemoryServer;
+  const userId = new Types.ObjectId().toString();
+  const authorization = `Bearer ${generateToken(userId, "test@example.com")}`;
+
+  const generateReport = async () => {
+    const request = new NextRequest("http://localhost:3000/api/reports", {
+      method: "POST",
+      headers: { authorization, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        type: "financial",
+        format: "csv",
+        period: "custom",
+        startDate: "2024-01-01T00:00:00.000Z",
+        endDate: "2024-03-31T23:59:59.999Z",
+      }),
+    });
+    const response = await POST(request);
+    return (await response.json()).data.id as string;
+  };
+
+  const downloadReport = async (id: string) => {
+    const request = new NextRequest(`http://localhost:3000/api/reports/${id}`, {
+      headers: { authorization },
+    });
+    const response = await DOWNLOAD(request, {
+      params: Promise.resolve({ id }),
+    });
+    return Buffer.from(await response.arrayBuffer()).toString("utf-8");
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    process.env.MONGODB_URI = mongoServer.getUri();
+    await connectDB();
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Invoice.deleteMany({});
+    await Report.deleteMany({});
+    await Invoice.create({
+      userId,
+      number: "2024/001",
+      issueDate: new Date("2024-01-15T00:00:00.000Z"),
+      title: "Consulenza",
+      clientName: "Rossi Srl",
+      amount: 1000,
+      fiscalYear: 2024,
+      status: "issued",
+    });
+  });
+
+  it("should download the report as it was generated", async () => {
+    const id = await generateReport();
+    const generated = await downloadReport(id);
+
+    await Invoice.updateMany({ userId }, { $set: { amount: 2500 } });
+    await Invoice.create({
+      userId,
+      number: "2024/002",
+      issueDate: new Date("2024-02-15T00:00:00.000Z"),
+      title: "Sviluppo",
+      clientName: "Bianchi Spa",
+      amount: 500,
+      fiscalYear: 2024,
+      status: "issued",
+    });
+
+    const downloaded = await downloadReport(id);
+
+    expect(downloaded).toBe(generated);
+    expect(downloaded).toContain("Ricavi;1000");
+    expect(downloaded).not.toContain("Bianchi Spa");
+  });
+
+  it("should store the size of the generated file", async () => {
+    const id = await generateReport();
+    const report = await Report.findById(id).lean();
+
+    expect(report?.size).toBe(Buffer.byteLength(await downloadReport(id)));
+  });
+});
@@ -198,6 +198,30 @@ describe("/api/settings", () => {
       });
     });
 
+    it("should update settings saved with the legacy 25% substitute rate", async () => {
+      // Saved before the rate was dropped, so it skips validation
+      await UserSettings.collection.insertOne({
+        userId: testUser._id.toString(),
+        taxRegime: "forfettario",
+        substituteRate: 25,
+        profitabilityRate: 67,
+        pensionSystem: "INPS",
+      });
+
+      const request = createPutRequest(testUser._id.toString(), {
+        profitabilityRate: 78,
+      });
+      const response = await PUT(request);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData.success).toBe(true);
+      expect(responseData.data).toMatchObject({
+        substituteRate: 15,
+        profitabilityRate: 78,
+      });
+    });
+
     it("should return 400 for invalid tax regime", async () => {
       const invalidData = {
         taxRegime: "invalid_regime",
@@ -0,0 +1,164 @@
+import {
+  calculateClientRevenue,
+  findInvoiceClient,
+  getClientInvoiceDefaults,
+  isValidPartitaIva,
+  isValidTaxCode,
+  isValidVatNumber,
+  matchInvoicesToClients,
+} from "@/utils/clientCalculations";
+
+describe("Client Calculations Utils", () => {
+  describe("isValidPartitaIva", () => {
+    it("should accept a partita IVA with a valid check digit", () => {
+      expect(isValidPartitaIva("01234567897")).toBe(true);
+      expect(isValidPartitaIva("00743110157")).toBe(true);
+    });
+
+    it("should reject a wrong check digit or length", () => {
+      expect(isValidPartitaIva("01234567890")).toBe(false);
+      expect(isValidPartitaIva("0123456789")).toBe(false);
+    });
+  });
+
+  describe("isValidVatNumber", () => {
+    it("should accept Italian numbers with or without the IT prefix", () => {
+      expect(isValidVatNumber("IT01234567897")).toBe(true);
+      expect(isValidVatNumber("it 01234567897")).toBe(true);
+      expect(isValidVatNumber("IT01234567890")).toBe(false);
+    });
+
+    it("should accept foreign numbers prefixed by their country", () => {
+      expect(isValidVatNumber("DE123456789")).toBe(true);
+      expect(isValidVatNumber("123")).toBe(false);
+    });
+  });
+
+  describe("isValidTaxCode", () => {
+    it("should validate the check letter of individuals", () => {
+      expect(isValidTaxCode("RSSMRA85T10A562S")).toBe(true);
+      expect(isValidTaxCode("rssmra85t10a562s")).toBe(true);
+      expect(isValidTaxCode("RSSMRA85T10A562T")).toBe(false);
+    });
+
+    it("should accept the numeric code of companies", () => {
+      expect(isValidTaxCode("01234567897")).toBe(true);
+    });
+  });
+
+  const clients = [
+    { _id: "c1", name: "Acme Srl" },
+    { _id: "c2", name: "Beta SpA" },
+  ];
+
+  describe("findInvoiceClient", () => {
+    it("should prefer the linked client ID", () => {
+      expect(
+        findInvoiceClient({ clientName: "Acme Srl", clientId: "c2" }, clients)
+      ).toBe(clients[1]);
+    });
+
+    it("should match unlinked invoices by normalised name", () => {
+      expect(findInvoiceClient({ clientName: "  ACME   srl " }, clients)).toBe(
+        clients[0]
+      );
+      expect(findInvoiceClient({ clientName: "Gamma" }, clients)).toBe(
+        undefined
+      );
+    });
+  });
+
+  const invoice = {
+    amount: 1000,
+    issueDate: new Date(2024, 0, 10),
+    fiscalYear: 2024,
+  };
+
+  describe("matchInvoicesToClients", () => {
+    it("should link only unlinked invoices with a matching name", () => {
+      const matches = matchInvoicesToClients(
+        [
+          { ...invoice, _id: "i1", clientName: "acme srl" },
+          { ...invoice, _id: "i2", clientName: "Acme Srl", clientId: "c1" },
+          { ...invoice, _id: "i3", clientName: "Gamma" },
+        ],
+        clients
+      );
+
+      expect(matches).toEqual([{ invoiceId: "i1", clientId: "c1" }]);
+    });
+  });
+
+  describe("calculateClientRevenue", () => {
+    it("should total revenue and outstanding amounts by client", () => {
+      const revenue = calculateClientRevenue(
+        [
+          {
+            ...invoice,
+            clientName: "Acme Srl",
+            paymentDate: new Date(2024, 1, 1),
+          },
+          {
+            ...invoice,
+            amount: 2000,
+            clientName: "acme srl",
+            vat: { vatType: "standard", vatRate: 22 },
+          },
+          { ...invoice, clientName: "Gamma" },
+        ],
+        clients
+      );
+
+      expect(revenue).toEqual([
+        {
+          clientId: "c1",
+          clientName: "Acme Srl",
+          invoiceCount: 2,
+          revenue: 3000,
+          outstanding: 2440,
+          share: 75,
+        },
+        {
+          clientId: null,
+          clientName: "Gamma",
+          invoiceCount: 1,
+          revenue: 1000,
+          outstanding: 1000,
+          share: 25,
+        },
+      ]);
+    });
+
+    it("should subtract credit notes from revenue and outstanding amounts", () => {
+      const [entry] = calculateClientRevenue(
+        [
+          { ...invoice, id: "i1", clientName: "Acme Srl" },
+          {
+            ...invoice,
+            id: "i2",
+            amount: 400,
+            clientName: "Acme Srl",
+            documentType: "credit_note",
+            originalInvoiceId: "i1",
+          },
+        ],
+        clients
+      );
+
+      expect(entry).toMatchObject({
+        invoiceCount: 1,
+        revenue: 600,
+        outstanding: 600,
+        share: 100,
+      });
+    });
+  });
+
+  describe("getClientInvoiceDefaults", () => {
+    it("should only prefill the defaults that are set", () => {
+      expect(
+        getClientInvoiceDefaults({ name: "Acme Srl", defaultPaymentTerms: "net60" })
+      ).toEqual({ clientName: "Acme Srl", paymentTerms: "net60" });
+    });
+  });
+});
@@ -8,6 +8,8 @@ import {
   filterCostsByDateRange,
   getCostStatistics,
   cleanCostForJSON,
+  calculateDeductibleAmount,
+  calculateTotalDeductibleAmount,
 } from "@/utils/costCalculations";
 import { ICost } from "@/types";
 
@@ -209,4 +211,44 @@ describe("Cost Calculations Utils", () => {
       expect(cleaned.date).toBe(mockCost1.date);
     });
   });
+  describe("calculateDeductibleAmount", () => {
+    it("should deduct the full amount by default", () => {
+      expect(calculateDeductibleAmount({ amount: 150.5 })).toBe(150.5);
+    });
+
+    it("should apply the deduction percentage", () => {
+      expect(
+        calculateDeductibleAmount({ amount: 300, deductionPercentage: 50 })
+      ).toBe(150);
+      expect(
+        calculateDeductibleAmount({ amount: 99.99, deductionPercentage: 20 })
+      ).toBe(20);
+    });
+
+    it("should return 0 for non-deductible costs", () => {
+      expect(
+        calculateDeductibleAmount({
+          amount: 300,
+          deductible: false,
+          deductionPercentage: 50,
+        })
+      ).toBe(0);
+    });
+  });
+
+  describe("calculateTotalDeductibleAmount", () => {
+    it("should sum the deductible share of each cost", () => {
+      const total = calculateTotalDeductibleAmount([
+        { amount: 100 },
+        { amount: 200, deductionPercentage: 50 },
+        { amount: 500, deductible: false },
+      ]);
+
+      expect(total).toBe(200);
+    });
+
+    it("should return 0 for empty array", () => {
+      expect(calculateTotalDeductibleAmount([])).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import {
+  calculateCostsByCategory,
+  UNCATEGORIZED_COST_LABEL,
+} from "@/utils/costSummaryCalculations";
+import { Cost } from "@/services/costService";
+
+describe("Cost Summary Calculations Utils", () => {
+  const buildCost = (
+    id: string,
+    amount: number,
+    categoryId: string | null
+  ): Cost => ({
+    id,
+    description: `Cost ${id}`,
+    date: "2024-03-15T00:00:00.000Z",
+    amount,
+    deductible: true,
+    deductionPercentage: 100,
+    categoryId,
+    createdAt: "2024-03-15T00:00:00.000Z",
+    updatedAt: "2024-03-15T00:00:00.000Z",
+  });
+
+  const categories = [
+    { id: "software", name: "Software" },
+    { id: "hardware", name: "Hardware" },
+  ];
+
+  describe("calculateCostsByCategory", () => {
+    it("should group costs by category, largest amount first", () => {
+      const summary = calculateCostsByCategory(
+        [
+          buildCost("1", 100, "software"),
+          buildCost("2", 500, "hardware"),
+          buildCost("3", 200, "software"),
+        ],
+        categories
+      );
+
+      expect(summary).toHaveLength(2);
+      expect(summary[0]).toEqual({
+        categoryId: "hardware",
+        name: "Hardware",
+        amount: 500,
+        count: 1,
+        percentage: 62.5,
+      });
+      expect(summary[1]).toEqual({
+        categoryId: "software",
+        name: "Software",
+        amount: 300,
+        count: 2,
+        percentage: 37.5,
+      });
+    });
+
+    it("should group uncategorized and unknown categories together", () => {
+      const summary = calculateCostsByCategory(
+        [buildCost("1", 100, null), buildCost("2", 50, "deleted")],
+        categories
+      );
+
+      expect(summary).toEqual([
+        {
+          categoryId: null,
+          name: UNCATEGORIZED_COST_LABEL,
+          amount: 150,
+          count: 2,
+          percentage: 100,
+        },
+      ]);
+    });
+
+    it("should return empty array when there are no costs", () => {
+      expect(calculateCostsByCategory([], categories)).toEqual([]);
+    });
+  });
+});
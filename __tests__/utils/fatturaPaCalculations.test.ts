@@ -0,0 +1,618 @@
+/**
+ * @jest-environment node
+ */
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  buildFatturaPaDocument,
+  getFatturaPaFileName,
+  getTipoCassa,
+  parseVatNumber,
+  toFatturaPaText,
+  validateFatturaPaExport,
+} from "@/utils/fatturaPaCalculations";
+import { isBolloRequired } from "@/utils/invoiceCalculations";
+import { renderFatturaPaXml } from "@/lib/fatturapa/xmlRenderer";
+
+const SCHEMA_PATH = path.join(
+  __dirname,
+  "../fixtures/FatturaPA_versione_1.2.2.xsd"
+);
+
+/**
+ * Validate an XML document against the FatturaPA schema with xmllint
+ * A missing xmllint fails the test rather than skipping the validation
+ */
+const validateAgainstSchema = (xml: Buffer): { valid: boolean; output: string } => {
+  const dir = mkdtempSync(path.join(tmpdir(), "fatturapa-"));
+  const file = path.join(dir, "invoice.xml");
+  try {
+    writeFileSync(file, xml);
+    const result = spawnSync("xmllint", ["--noout", "--schema", SCHEMA_PATH, file], {
+      encoding: "utf-8",
+    });
+    if (result.error) {
+      throw new Error(`xmllint is required to validate FatturaPA XML: ${result.error.message}`);
+    }
+    return { valid: result.status === 0, output: result.stderr };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+const issuer = {
+  firstName: "Mario",
+  lastName: "Rossi",
+  vatNumber: "01234567897",
+  taxCode: "RSSMRA85T10A562S",
+  address: {
+    street: "Via Roma 1",
+    postalCode: "20121",
+    city: "Milano",
+    province: "MI",
+    country: "IT",
+  },
+  iban: "IT60X0542811101000000123456",
+};
+
+const client = {
+  name: "Acme S.r.l.",
+  vatNumber: "00743110157",
+  address: {
+    street: "Corso Italia 10",
+    postalCode: "00184",
+    city: "Roma",
+    province: "RM",
+    country: "IT",
+  },
+  sdiCode: "ABC1234",
+};
+
+const invoice = {
+  _id: "64b7f0c2a1b2c3d4e5f60718",
+  number: "2024/001",
+  issueDate: new Date(2024, 2, 15),
+  title: "Consulenza “sviluppo” software – marzo",
+  amount: 1000,
+  fiscalYear: 2024,
+  paymentTerms: "net30" as const,
+};
+
+const inpsInvoice = {
+  ...invoice,
+  vat: { vatType: "standard" as const, vatRate: 22 },
+  pensionCharge: { type: "rivalsa_inps" as const, rate: 4, amount: 40 },
+  withholding: { rate: 20, amount: 208 },
+};
+
+const fundInvoice = {
+  ...invoice,
+  pensionCharge: {
+    type: "cassa_integrativa" as const,
+    rate: 4,
+    amount: 40,
+    fundCode: "INARCASSA",
+  },
+};
+
+const multiLineInvoice = {
+  ...invoice,
+  amount: 600,
+  vat: { vatType: "standard" as const, vatRate: 22 },
+  bollo: { amount: 2, chargedToClient: true },
+  items: [
+    {
+      description: "Sviluppo",
+      quantity: 10,
+      unitOfMeasure: "ore",
+      unitPrice: 50,
+      amount: 500,
+      vat: { vatType: "standard" as const, vatRate: 22 },
+    },
+    {
+      description: "Spese di trasferta",
+      quantity: 1,
+      unitPrice: 100,
+      amount: 100,
+      vatNature: "N1" as const,
+    },
+  ],
+};
+
+const creditNote = {
+  ...invoice,
+  _id: "64b7f0c2a1b2c3d4e5f60719",
+  number: "2024/NC1",
+  issueDate: new Date(2024, 3, 2),
+  title: "Storno parziale consulenza",
+  amount: 300,
+  documentType: "credit_note" as const,
+};
+
+describe("FatturaPA Calculations Utils", () => {
+  describe("helpers", () => {
+    it("should split VAT numbers into country and code", () => {
+      expect(parseVatNumber("01234567897")).toEqual({
+        idPaese: "IT",
+        idCodice: "01234567897",
+      });
+      expect(parseVatNumber("de 123456789")).toEqual({
+        idPaese: "DE",
+        idCodice: "123456789",
+      });
+    });
+
+    it("should restrict text to Latin-1 characters", () => {
+      expect(toFatturaPaText("Consulenza “sviluppo” – 100€ ✓", 80)).toBe(
+        'Consulenza "sviluppo" - 100EUR'
+      );
+      expect(toFatturaPaText("  Città   di\nMilano ", 9)).toBe("Città di");
+    });
+
+    it("should require the bollo above €77.47 without VAT", () => {
+      expect(isBolloRequired({ amount: 77.47 })).toBe(false);
+      expect(isBolloRequired({ amount: 77.48 })).toBe(true);
+      expect(
+        isBolloRequired({
+          amount: 1000,
+          vat: { vatType: "standard", vatRate: 22 },
+        })
+      ).toBe(false);
+    });
+
+    it("should map pension contributions to their fund type", () => {
+      expect(getTipoCassa({ type: "rivalsa_inps" })).toBe("TC22");
+      expect(
+        getTipoCassa({ type: "cassa_integrativa", fundCode: "inarcassa" })
+      ).toBe("TC04");
+      expect(
+        getTipoCassa({ type: "cassa_integrativa", fundCode: "UNKNOWN" })
+      ).toBeUndefined();
+    });
+
+    it("should name files with the VAT number and a 5-character progressive", () => {
+      expect(getFatturaPaFileName("01234567897", invoice._id)).toBe(
+        "IT01234567897_60718.xml"
+      );
+    });
+  });
+
+  describe("validateFatturaPaExport", () => {
+    it("should accept a complete forfettario invoice", () => {
+      expect(
+        validateFatturaPaExport({ invoice, client, taxRegime: "forfettario" })
+      ).toEqual([]);
+    });
+
+    it("should report VAT inconsistent with the regime", () => {
+      expect(
+        validateFatturaPaExport({ invoice, client, taxRegime: "ordinario" })
+      ).toEqual(["Invoices in the ordinario regime require a VAT rate"]);
+      expect(
+        validateFatturaPaExport({
+          invoice: { ...invoice, vat: { vatType: "standard", vatRate: 22 } },
+          client,
+          taxRegime: "forfettario",
+        })
+      ).toEqual(["Invoices in the forfettario regime cannot charge VAT"]);
+    });
+
+    it("should require a nature for lines without VAT in the ordinario regime", () => {
+      expect(
+        validateFatturaPaExport({
+          invoice: multiLineInvoice,
+          client,
+          taxRegime: "ordinario",
+        })
+      ).toEqual([]);
+      expect(
+        validateFatturaPaExport({
+          invoice: {
+            ...multiLineInvoice,
+            items: multiLineInvoice.items.map(({ vatNature: _, ...item }) => item),
+          },
+          client,
+          taxRegime: "ordinario",
+        })
+      ).toEqual(["Invoices in the ordinario regime require a VAT rate"]);
+    });
+
+    it("should report incomplete client addresses and long numbers", () => {
+      expect(
+        validateFatturaPaExport({
+          invoice: { ...invoice, number: "FT-2024-0000000000011" },
+          client: { ...client, address: { country: "IT", city: "Roma" } },
+          taxRegime: "forfettario",
+        })
+      ).toEqual([
+        "Invoice number cannot exceed 20 characters",
+        "Client address must include street, postal code and city",
+      ]);
+    });
+
+    it("should reject withholding tax in the forfettario regime", () => {
+      expect(
+        validateFatturaPaExport({
+          invoice: { ...invoice, withholding: { rate: 20, amount: 200 } },
+          client,
+          taxRegime: "forfettario",
+        })
+      ).toEqual([
+        "Invoices in the forfettario regime are not subject to withholding tax",
+      ]);
+    });
+
+    it("should require a known fund for the contributo integrativo", () => {
+      expect(
+        validateFatturaPaExport({
+          invoice: {
+            ...fundInvoice,
+            pensionCharge: { ...fundInvoice.pensionCharge, fundCode: "UNKNOWN" },
+          },
+          client,
+          taxRegime: "forfettario",
+        })
+      ).toEqual(["Professional fund UNKNOWN has no FatturaPA fund type"]);
+      expect(
+        validateFatturaPaExport({
+          invoice: {
+            ...fundInvoice,
+            pensionCharge: { type: "cassa_integrativa", rate: 4, amount: 40 },
+          },
+          client,
+          taxRegime: "forfettario",
+        })
+      ).toEqual(["Contributo integrativo requires the professional fund of the user"]);
+    });
+
+    it("should require the original invoice of credit notes", () => {
+      expect(
+        validateFatturaPaExport({ invoice: creditNote, client, taxRegime: "forfettario" })
+      ).toEqual(["Credit notes must reference the original invoice"]);
+      expect(
+        validateFatturaPaExport({
+          invoice: creditNote,
+          client,
+          taxRegime: "forfettario",
+          originalInvoice: invoice,
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe("buildFatturaPaDocument", () => {
+    it("should use RF19 and the N2.2 nature for forfettari", () => {
+      const document = buildFatturaPaDocument({
+        invoice,
+        issuer,
+        client,
+        taxRegime: "forfettario",
+      });
+
+      expect(document.cedentePrestatore.regimeFiscale).toBe("RF19");
+      expect(document.dettaglioLinee[0]).toMatchObject({
+        aliquotaIva: 0,
+        natura: "N2.2",
+      });
+      expect(document.datiRiepilogo[0]).toMatchObject({
+        natura: "N2.2",
+        imponibileImporto: 1000,
+        imposta: 0,
+      });
+      expect(document.datiGeneraliDocumento.datiBollo).toEqual({
+        importoBollo: 2,
+      });
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1000);
+      expect(document.datiTrasmissione).toMatchObject({
+        progressivoInvio: "D4E5F60718",
+        formatoTrasmissione: "FPR12",
+        codiceDestinatario: "ABC1234",
+      });
+    });
+
+    it("should add a line outside the VAT base for the re-charged bollo", () => {
+      const document = buildFatturaPaDocument({
+        invoice: { ...invoice, bollo: { amount: 2, chargedToClient: true } },
+        issuer,
+        client,
+        taxRegime: "forfettario",
+      });
+
+      expect(document.dettaglioLinee[1]).toEqual({
+        numeroLinea: 2,
+        descrizione: "Rimborso imposta di bollo",
+        prezzoUnitario: 2,
+        prezzoTotale: 2,
+        aliquotaIva: 0,
+        natura: "N1",
+      });
+      expect(document.datiRiepilogo[1]).toMatchObject({
+        natura: "N1",
+        imponibileImporto: 2,
+        imposta: 0,
+      });
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1002);
+      expect(document.datiPagamento?.dettaglioPagamento.importoPagamento).toBe(1002);
+    });
+
+    it("should charge VAT without nature or bollo in the ordinario regime", () => {
+      const document = buildFatturaPaDocument({
+        invoice: { ...invoice, vat: { vatType: "standard", vatRate: 22 } },
+        issuer,
+        client,
+        taxRegime: "ordinario",
+      });
+
+      expect(document.cedentePrestatore.regimeFiscale).toBe("RF01");
+      expect(document.datiRiepilogo[0]).toEqual({
+        aliquotaIva: 22,
+        imponibileImporto: 1000,
+        imposta: 220,
+        esigibilitaIva: "I",
+      });
+      expect(document.datiGeneraliDocumento.datiBollo).toBeUndefined();
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1220);
+    });
+
+    it("should declare the withholding tax and collect the total net of it", () => {
+      const document = buildFatturaPaDocument({
+        invoice: {
+          ...invoice,
+          vat: { vatType: "standard", vatRate: 22 },
+          withholding: { rate: 20, amount: 200 },
+        },
+        issuer,
+        client,
+        taxRegime: "ordinario",
+      });
+
+      expect(document.datiGeneraliDocumento.datiRitenuta).toEqual({
+        tipoRitenuta: "RT01",
+        importoRitenuta: 200,
+        aliquotaRitenuta: 20,
+        causalePagamento: "A",
+      });
+      expect(document.dettaglioLinee[0].ritenuta).toBe("SI");
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1220);
+      expect(document.datiPagamento?.dettaglioPagamento.importoPagamento).toBe(1020);
+    });
+
+    it("should declare the rivalsa INPS subject to VAT and withholding", () => {
+      const document = buildFatturaPaDocument({
+        invoice: inpsInvoice,
+        issuer,
+        client,
+        taxRegime: "ordinario",
+      });
+
+      expect(document.datiGeneraliDocumento.datiCassaPrevidenziale).toEqual({
+        tipoCassa: "TC22",
+        alCassa: 4,
+        importoContributoCassa: 40,
+        imponibileCassa: 1000,
+        aliquotaIva: 22,
+        ritenuta: "SI",
+      });
+      expect(document.datiRiepilogo[0]).toMatchObject({
+        imponibileImporto: 1040,
+        imposta: 228.8,
+      });
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1268.8);
+      expect(document.datiPagamento?.dettaglioPagamento.importoPagamento).toBe(1060.8);
+    });
+
+    it("should declare the contributo integrativo of the professional fund", () => {
+      const document = buildFatturaPaDocument({
+        invoice: fundInvoice,
+        issuer,
+        client,
+        taxRegime: "forfettario",
+      });
+
+      expect(document.datiGeneraliDocumento.datiCassaPrevidenziale).toEqual({
+        tipoCassa: "TC04",
+        alCassa: 4,
+        importoContributoCassa: 40,
+        imponibileCassa: 1000,
+        aliquotaIva: 0,
+        natura: "N2.2",
+      });
+      expect(document.datiRiepilogo[0].imponibileImporto).toBe(1040);
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(1040);
+    });
+
+    it("should address clients without SDI code by PEC and foreign clients with XXXXXXX", () => {
+      const byPec = buildFatturaPaDocument({
+        invoice,
+        issuer,
+        client: { ...client, sdiCode: undefined, pec: "acme@pec.it" },
+        taxRegime: "forfettario",
+      });
+      expect(byPec.datiTrasmissione).toMatchObject({
+        codiceDestinatario: "0000000",
+        pecDestinatario: "acme@pec.it",
+      });
+
+      const foreign = buildFatturaPaDocument({
+        invoice,
+        issuer,
+        client: {
+          name: "Beispiel GmbH",
+          vatNumber: "DE123456789",
+          address: { street: "Hauptstraße 5", postalCode: "10115", city: "Berlin", country: "DE" },
+        },
+        taxRegime: "forfettario",
+      });
+      expect(foreign.datiTrasmissione.codiceDestinatario).toBe("XXXXXXX");
+      expect(foreign.cessionarioCommittente.idFiscaleIva).toEqual({
+        idPaese: "DE",
+        idCodice: "123456789",
+      });
+      expect(foreign.cessionarioCommittente.sede.provincia).toBeUndefined();
+    });
+  });
+
+  describe("invoice lines", () => {
+    it("should export each line and summarize VAT per rate and nature", () => {
+      const document = buildFatturaPaDocument({
+        invoice: multiLineInvoice,
+        issuer,
+        client,
+        taxRegime: "ordinario",
+      });
+
+      expect(document.dettaglioLinee.slice(0, 2)).toEqual([
+        expect.objectContaining({
+          numeroLinea: 1,
+          descrizione: "Sviluppo",
+          quantita: 10,
+          unitaMisura: "ore",
+          prezzoUnitario: 50,
+          prezzoTotale: 500,
+          aliquotaIva: 22,
+        }),
+        expect.objectContaining({
+          numeroLinea: 2,
+          quantita: 1,
+          prezzoTotale: 100,
+          aliquotaIva: 0,
+          natura: "N1",
+        }),
+      ]);
+      expect(document.datiRiepilogo).toEqual([
+        expect.objectContaining({
+          aliquotaIva: 22,
+          imponibileImporto: 500,
+          imposta: 110,
+          esigibilitaIva: "I",
+        }),
+        expect.objectContaining({
+          aliquotaIva: 0,
+          natura: "N1",
+          imponibileImporto: 102,
+          imposta: 0,
+        }),
+      ]);
+      expect(document.datiGeneraliDocumento.importoTotaleDocumento).toBe(712);
+    });
+  });
+
+  describe("credit notes", () => {
+    it("should issue a TD04 linked to the original invoice without payment terms", () => {
+      const document = buildFatturaPaDocument({
+        invoice: creditNote,
+        issuer,
+        client,
+        taxRegime: "forfettario",
+        originalInvoice: invoice,
+      });
+
+      expect(document.datiGeneraliDocumento).toMatchObject({
+        tipoDocumento: "TD04",
+        numero: "2024/NC1",
+        importoTotaleDocumento: 300,
+      });
+      expect(document.datiFattureCollegate).toEqual({
+        idDocumento: "2024/001",
+        data: new Date(2024, 2, 15),
+      });
+      expect(document.dettaglioLinee[0].prezzoTotale).toBe(300);
+      expect(document.datiPagamento).toBeUndefined();
+    });
+  });
+
+  describe("renderFatturaPaXml", () => {
+    it("should render unqualified elements under the FatturaPA namespace", () => {
+      const xml = renderFatturaPaXml(
+        buildFatturaPaDocument({ invoice, issuer, client, taxRegime: "forfettario" })
+      ).toString("utf-8");
+
+      expect(xml).toContain(
+        '<p:FatturaElettronica versione="FPR12" xmlns:p="http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2">'
+      );
+      expect(xml).toContain("<RegimeFiscale>RF19</RegimeFiscale>");
+      expect(xml).toContain("<BolloVirtuale>SI</BolloVirtuale>");
+      expect(xml).toContain("<ImportoBollo>2.00</ImportoBollo>");
+      expect(xml).toContain("<Data>2024-03-15</Data>");
+      expect(xml).toContain("<DataScadenzaPagamento>2024-04-14</DataScadenzaPagamento>");
+      expect(xml).toContain("<Descrizione>Consulenza &quot;sviluppo&quot; software - marzo</Descrizione>");
+    });
+
+    it("should produce schema-valid XML for each regime", () => {
+      const documents = [
+        buildFatturaPaDocument({ invoice, issuer, client, taxRegime: "forfettario" }),
+        buildFatturaPaDocument({
+          invoice: { ...invoice, bollo: { amount: 2, chargedToClient: true } },
+          issuer,
+          client,
+          taxRegime: "forfettario",
+        }),
+        buildFatturaPaDocument({
+          invoice: { ...invoice, amount: 50 },
+          issuer: { ...issuer, firstName: undefined, lastName: undefined, companyName: "Rossi & Bianchi S.n.c.", iban: undefined },
+          client: { ...client, vatNumber: undefined, taxCode: "RSSMRA85T10A562S", sdiCode: undefined, pec: "mario@pec.it" },
+          taxRegime: "forfettario",
+        }),
+        buildFatturaPaDocument({
+          invoice: { ...invoice, vat: { vatType: "standard", vatRate: 22 } },
+          issuer,
+          client: { ...client, sdiCode: "UFXYZ1" },
+          taxRegime: "ordinario",
+        }),
+        buildFatturaPaDocument({
+          invoice: {
+            ...invoice,
+            vat: { vatType: "standard", vatRate: 22 },
+            withholding: { rate: 20, amount: 200 },
+          },
+          issuer,
+          client,
+          taxRegime: "ordinario",
+        }),
+        buildFatturaPaDocument({
+          invoice: inpsInvoice,
+          issuer,
+          client,
+          taxRegime: "ordinario",
+        }),
+        buildFatturaPaDocument({
+          invoice: fundInvoice,
+          issuer,
+          client,
+          taxRegime: "forfettario",
+        }),
+        buildFatturaPaDocument({
+          invoice: multiLineInvoice,
+          issuer,
+          client,
+          taxRegime: "ordinario",
+        }),
+        buildFatturaPaDocument({
+          invoice,
+          issuer,
+          client: {
+            name: "Client Ltd",
+            taxCode: "RSSMRA85T10A562S",
+            address: { street: "1 High Street", postalCode: "SW1A 1AA", city: "London", country: "GB" },
+          },
+          taxRegime: "forfettario",
+        }),
+        buildFatturaPaDocument({
+          invoice: creditNote,
+          issuer,
+          client,
+          taxRegime: "forfettario",
+          originalInvoice: invoice,
+        }),
+      ];
+
+      documents.forEach((document) => {
+        const result = validateAgainstSchema(renderFatturaPaXml(document));
+        expect(result.output).toContain("validates");
+        expect(result.valid).toBe(true);
+      });
+    });
+  });
+});
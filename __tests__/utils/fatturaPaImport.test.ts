@@ -0,0 +1,307 @@
+/**
+ * @jest-environment node
+ */
+import { strToU8, zipSync } from "fflate";
+import {
+  FatturaPaImportedDocument,
+  buildFatturaPaDocument,
+  getImportDirection,
+  getImportedDocumentKey,
+  toImportedCost,
+  toImportedInvoice,
+  validateImportedDocument,
+} from "@/utils/fatturaPaCalculations";
+import { renderFatturaPaXml } from "@/lib/fatturapa/xmlRenderer";
+import { XmlParseError, decodeXml, parseXml } from "@/lib/fatturapa/xmlParser";
+import {
+  FatturaPaFormatError,
+  expandFatturaPaUploads,
+  readFatturaPaXml,
+} from "@/lib/fatturapa/xmlReader";
+
+const issuer = {
+  firstName: "Mario",
+  lastName: "Rossi",
+  vatNumber: "01234567897",
+  taxCode: "RSSMRA85T10A562S",
+  address: { street: "Via Roma 1", postalCode: "20121", city: "Milano", country: "IT" },
+};
+
+const client = {
+  name: "Acme S.r.l.",
+  vatNumber: "00743110157",
+  address: { street: "Corso Italia 10", postalCode: "00184", city: "Roma", country: "IT" },
+  sdiCode: "ABC1234",
+};
+
+const invoice = {
+  _id: "64b7f0c2a1b2c3d4e5f60718",
+  number: "2024/001",
+  issueDate: new Date(2024, 2, 15),
+  title: "Consulenza software",
+  amount: 1000,
+  fiscalYear: 2024,
+  vat: { vatType: "standard" as const, vatRate: 22 },
+};
+
+const exportedXml = renderFatturaPaXml(
+  buildFatturaPaDocument({ invoice, issuer, client, taxRegime: "ordinario" })
+);
+
+const receivedDocument: FatturaPaImportedDocument = {
+  tipoDocumento: "TD01",
+  number: "A-77",
+  date: new Date(2024, 4, 2),
+  issuer: { vatNumber: "00743110157", name: "Hosting S.p.A. <EU>" },
+  recipient: { vatNumber: "01234567897", name: "Mario Rossi" },
+  description: "Server dedicato ✓ maggio",
+  taxableAmount: 100,
+  vatAmount: 22,
+  totalAmount: 122,
+  excludedAmount: 0,
+  vatRates: [22],
+};
+
+describe("FatturaPA Import", () => {
+  describe("parseXml", () => {
+    it("should read elements, attributes, entities and CDATA without prefixes", () => {
+      const root = parseXml(
+        '<?xml version="1.0"?><!-- note --><p:A xmlns:p="urn:x" v="1 &amp; 2"><B>x &lt; y</B><C><![CDATA[<raw>]]></C><D/></p:A>'
+      );
+
+      expect(root.name).toBe("A");
+      expect(root.attributes.v).toBe("1 & 2");
+      expect(root.children.map((child) => child.name)).toEqual(["B", "C", "D"]);
+      expect(root.children[0].text).toBe("x < y");
+      expect(root.children[1].text).toBe("<raw>");
+    });
+
+    it("should reject malformed documents", () => {
+      expect(() => parseXml("<A><B></A>")).toThrow(XmlParseError);
+      expect(() => parseXml("<A>")).toThrow("Unclosed element <A>");
+      expect(() => parseXml("<A>&</A>")).toThrow("Unescaped ampersand");
+      expect(() => parseXml("<A/><B/>")).toThrow("Multiple root elements");
+    });
+
+    it("should decode with the declared encoding", () => {
+      const latin1 = Uint8Array.from([
+        ...Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><A>Citt'),
+        0xe0,
+        ...Buffer.from("</A>"),
+      ]);
+      expect(parseXml(decodeXml(latin1)).text).toBe("Città");
+    });
+  });
+
+  describe("readFatturaPaXml", () => {
+    it("should read back an exported invoice", () => {
+      const [document] = readFatturaPaXml(exportedXml);
+
+      expect(document).toEqual({
+        tipoDocumento: "TD01",
+        number: "2024/001",
+        date: new Date(2024, 2, 15),
+        issuer: {
+          vatNumber: "01234567897",
+          taxCode: "RSSMRA85T10A562S",
+          name: "Mario Rossi",
+        },
+        recipient: { vatNumber: "00743110157", name: "Acme S.r.l." },
+        description: "Consulenza software",
+        taxableAmount: 1000,
+        vatAmount: 220,
+        totalAmount: 1220,
+        excludedAmount: 0,
+        vatRates: [22],
+        dueDate: new Date(2024, 3, 14),
+      });
+    });
+
+    it("should keep the re-charged bollo out of the taxable amount", () => {
+      const xml = renderFatturaPaXml(
+        buildFatturaPaDocument({
+          invoice: { ...invoice, vat: undefined, bollo: { amount: 2, chargedToClient: true } },
+          issuer,
+          client,
+          taxRegime: "forfettario",
+        })
+      );
+      const [document] = readFatturaPaXml(xml);
+
+      expect(document).toMatchObject({
+        taxableAmount: 1000,
+        excludedAmount: 2,
+        totalAmount: 1002,
+        vatRates: [0],
+        bolloAmount: 2,
+      });
+      expect(toImportedInvoice(document)).toMatchObject({
+        amount: 1000,
+        bollo: { amount: 2, chargedToClient: true },
+      });
+    });
+
+    it("should read back the withholding tax rate", () => {
+      const xml = renderFatturaPaXml(
+        buildFatturaPaDocument({
+          invoice: { ...invoice, withholding: { rate: 20, amount: 200 } },
+          issuer,
+          client,
+          taxRegime: "ordinario",
+        })
+      );
+      const [document] = readFatturaPaXml(xml);
+
+      expect(document.withholdingRate).toBe(20);
+      expect(toImportedInvoice(document)).toMatchObject({
+        amount: 1000,
+        withholding: { rate: 20, amount: 200 },
+      });
+    });
+
+    it("should read back the pension contribution out of the fee", () => {
+      const xml = renderFatturaPaXml(
+        buildFatturaPaDocument({
+          invoice: {
+            ...invoice,
+            pensionCharge: { type: "rivalsa_inps", rate: 4, amount: 40 },
+            withholding: { rate: 20, amount: 208 },
+          },
+          issuer,
+          client,
+          taxRegime: "ordinario",
+        })
+      );
+      const [document] = readFatturaPaXml(xml);
+
+      expect(document).toMatchObject({
+        taxableAmount: 1040,
+        pensionFund: { tipoCassa: "TC22", rate: 4, amount: 40 },
+      });
+      expect(toImportedInvoice(document)).toMatchObject({
+        amount: 1000,
+        pensionCharge: { type: "rivalsa_inps", rate: 4, amount: 40 },
+        withholding: { rate: 20, amount: 208 },
+      });
+    });
+
+    it("should reject files that are not FatturaPA invoices", () => {
+      expect(() => readFatturaPaXml(strToU8("<Other/>"))).toThrow(
+        "Unexpected root element <Other>"
+      );
+      const withoutBody = exportedXml
+        .toString("utf-8")
+        .replace(/<FatturaElettronicaBody>[\s\S]*<\/FatturaElettronicaBody>/, "");
+      expect(() => readFatturaPaXml(strToU8(withoutBody))).toThrow(
+        FatturaPaFormatError
+      );
+    });
+  });
+
+  describe("expandFatturaPaUploads", () => {
+    it("should unpack zip archives and report unsupported files", () => {
+      const archive = zipSync({
+        "fatture/IT01234567897_00001.xml": strToU8("<A/>"),
+        "__MACOSX/fatture/._IT01234567897_00001.xml": strToU8(""),
+        "IT01234567897_00002.xml.p7m": strToU8(""),
+      });
+
+      const files = expandFatturaPaUploads([
+        { fileName: "march.zip", bytes: archive },
+        { fileName: "notes.pdf", bytes: strToU8("") },
+        { fileName: "broken.zip", bytes: strToU8("not a zip") },
+      ]);
+
+      expect(files.map(({ fileName, error }) => ({ fileName, error }))).toEqual([
+        { fileName: "march.zip/IT01234567897_00001.xml", error: undefined },
+        {
+          fileName: "march.zip/IT01234567897_00002.xml.p7m",
+          error: "Signed .p7m files are not supported, upload the XML file",
+        },
+        { fileName: "notes.pdf", error: "Only XML files and zip archives can be imported" },
+        { fileName: "broken.zip", error: "Zip archive cannot be read" },
+      ]);
+    });
+
+    it("should reject zip archives with too many entries or too much data", () => {
+      const manyEntries = zipSync(
+        Object.fromEntries(
+          Array.from({ length: 1001 }, (_, index) => [`${index}.xml`, strToU8("<A/>")])
+        )
+      );
+      const largeEntry = zipSync({
+        "IT01234567897_00001.xml": new Uint8Array(51 * 1024 * 1024),
+      });
+
+      const files = expandFatturaPaUploads([
+        { fileName: "many.zip", bytes: manyEntries },
+        { fileName: "large.zip", bytes: largeEntry },
+      ]);
+
+      expect(files).toEqual([
+        { fileName: "many.zip", error: "Zip archive is too large to be imported" },
+        { fileName: "large.zip", error: "Zip archive is too large to be imported" },
+      ]);
+    });
+  });
+
+  describe("mapping", () => {
+    it("should tell issued from received documents by VAT number", () => {
+      const [document] = readFatturaPaXml(exportedXml);
+
+      expect(getImportDirection(document, "IT01234567897")).toBe("active");
+      expect(getImportDirection(document, "00743110157")).toBe("passive");
+      expect(getImportDirection(document, "12345678903")).toBeNull();
+    });
+
+    it("should key documents by issuer, number and day", () => {
+      expect(getImportedDocumentKey(receivedDocument)).toBe(
+        "00743110157|A-77|2024|5|2"
+      );
+    });
+
+    it("should create issued invoices with net amount, VAT type and due date", () => {
+      const [document] = readFatturaPaXml(exportedXml);
+
+      expect(toImportedInvoice(document)).toEqual({
+        number: "2024/001",
+        issueDate: new Date(2024, 2, 15),
+        title: "Consulenza software",
+        clientName: "Acme S.r.l.",
+        amount: 1000,
+        fiscalYear: 2024,
+        vat: { vatType: "standard", vatRate: 22 },
+        paymentTerms: "custom",
+        dueDate: new Date(2024, 3, 14),
+      });
+    });
+
+    it("should record received invoices gross for forfettari and net in the ordinario regime", () => {
+      expect(toImportedCost(receivedDocument, "forfettario")).toEqual({
+        description: "Hosting S.p.A. EU - Server dedicato maggio",
+        date: new Date(2024, 4, 2),
+        amount: 122,
+        supplierName: "Hosting S.p.A. <EU>",
+        supplierVatNumber: "00743110157",
+        documentNumber: "A-77",
+      });
+      expect(toImportedCost(receivedDocument, "ordinario").amount).toBe(100);
+    });
+
+    it("should report documents that cannot be imported", () => {
+      expect(
+        validateImportedDocument(
+          { ...receivedDocument, number: "A 77", vatRates: [22, 10] },
+          "active"
+        )
+      ).toEqual([
+        "Invoices with more than one VAT rate cannot be imported",
+        "Invoice number can only contain letters, numbers, hyphens, and slashes",
+      ]);
+      expect(
+        validateImportedDocument({ ...receivedDocument, tipoDocumento: "TD04" }, "passive")
+      ).toEqual(["Document type TD04 cannot be imported"]);
+      expect(validateImportedDocument(receivedDocument, "passive")).toEqual([]);
+    });
+  });
+});
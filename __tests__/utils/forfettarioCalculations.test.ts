@@ -0,0 +1,158 @@
+import {
+  calculateYearElapsedFraction,
+  DEFAULT_REVENUE_ALERT_THRESHOLDS,
+  evaluateRevenueCeiling,
+  normalizeAlertThresholds,
+  projectYearEndAmount,
+  simulateRegimeExit,
+} from "@/utils/forfettarioCalculations";
+
+describe("Forfettario Calculations Utils", () => {
+  // July 2nd 2024: half of a leap year has elapsed
+  const midYear = new Date(2024, 6, 2, 0, 0, 0);
+
+  describe("calculateYearElapsedFraction", () => {
+    it("should treat past years as complete and future years as not started", () => {
+      expect(calculateYearElapsedFraction(2023, midYear)).toBe(1);
+      expect(calculateYearElapsedFraction(2025, midYear)).toBe(0);
+    });
+
+    it("should return the share of the current year elapsed", () => {
+      expect(calculateYearElapsedFraction(2024, midYear)).toBeCloseTo(0.5, 2);
+    });
+  });
+
+  describe("projectYearEndAmount", () => {
+    it("should project the current year linearly", () => {
+      expect(projectYearEndAmount(40000, 2024, midYear)).toBeCloseTo(80000, -2);
+    });
+
+    it("should keep past year amounts unchanged", () => {
+      expect(projectYearEndAmount(40000, 2023, midYear)).toBe(40000);
+    });
+
+    it("should not extrapolate from the first days of January", () => {
+      const january = new Date(2024, 0, 3);
+      expect(projectYearEndAmount(5000, 2024, january)).toBe(60000);
+    });
+  });
+
+  describe("normalizeAlertThresholds", () => {
+    it("should sort thresholds and drop duplicates and invalid values", () => {
+      expect(normalizeAlertThresholds([90, 50, 90, 0, 120])).toEqual([50, 90]);
+    });
+
+    it("should fall back to the default thresholds", () => {
+      expect(normalizeAlertThresholds()).toEqual(
+        DEFAULT_REVENUE_ALERT_THRESHOLDS
+      );
+      expect(normalizeAlertThresholds([150])).toEqual(
+        DEFAULT_REVENUE_ALERT_THRESHOLDS
+      );
+    });
+  });
+
+  describe("evaluateRevenueCeiling", () => {
+    it("should be ok below every threshold", () => {
+      const projection = evaluateRevenueCeiling(2024, 20000, [70, 90], midYear);
+
+      expect(projection.status).toBe("ok");
+      expect(projection.reachedThresholds).toEqual([]);
+    });
+
+    it("should warn when the projection passes a threshold", () => {
+      const projection = evaluateRevenueCeiling(2024, 32000, [70, 90], midYear);
+
+      expect(projection.status).toBe("warning");
+      expect(projection.reachedThresholds).toEqual([70]);
+    });
+
+    it("should flag a projected exit above the ceiling", () => {
+      const projection = evaluateRevenueCeiling(2024, 50000, undefined, midYear);
+
+      expect(projection.status).toBe("projected_exit");
+      expect(projection.reachedThresholds).toEqual([70, 90]);
+    });
+
+    it("should flag the exit from next year above 85,000", () => {
+      const projection = evaluateRevenueCeiling(2023, 90000, undefined, midYear);
+
+      expect(projection.status).toBe("exit_next_year");
+      expect(projection.projectedRevenue).toBe(90000);
+    });
+
+    it("should flag the immediate exit above 100,000", () => {
+      const projection = evaluateRevenueCeiling(2024, 100001, undefined, midYear);
+
+      expect(projection.status).toBe("immediate_exit");
+    });
+
+    it("should not exit at exactly 85,000", () => {
+      const projection = evaluateRevenueCeiling(2023, 85000, undefined, midYear);
+
+      expect(projection.status).toBe("warning");
+    });
+  });
+
+  describe("simulateRegimeExit", () => {
+    const input = {
+      year: 2025,
+      revenue: 90000,
+      costs: [
+        { amount: 5000, deductible: true, deductionPercentage: 100 },
+        { amount: 2000, deductible: true, deductionPercentage: 50 },
+        { amount: 1000, deductible: false, deductionPercentage: 100 },
+      ],
+      profitabilityRate: 78,
+      substituteRate: 15,
+      contributionRate: 26.07,
+      regionalSurchargeRate: 0,
+      municipalSurchargeRate: 0,
+    };
+
+    it("should compute the forfettario substitute tax", () => {
+      const { forfettario } = simulateRegimeExit(input);
+
+      // 90000 * 78% - 7000 deductible costs
+      expect(forfettario.taxableIncome).toBe(63200);
+      expect(forfettario.contributions).toBeCloseTo(16476.24, 2);
+      expect(forfettario.incomeTax).toBeCloseTo(
+        ((63200 - 16476.24) * 15) / 100,
+        2
+      );
+    });
+
+    it("should compute IRPEF on revenue minus partially deductible costs", () => {
+      const { ordinario } = simulateRegimeExit(input);
+
+      expect(ordinario.deductibleCosts).toBe(6000);
+      expect(ordinario.taxableIncome).toBe(84000);
+      expect(ordinario.irpefBreakdown.taxableIncome).toBeCloseTo(
+        84000 - ordinario.contributions,
+        2
+      );
+      expect(ordinario.incomeTax).toBe(ordinario.irpefBreakdown.totalIrpef);
+    });
+
+    it("should report the extra cost of leaving the regime", () => {
+      const simulation = simulateRegimeExit(input);
+
+      expect(simulation.additionalTaxes).toBeCloseTo(
+        simulation.ordinario.totalTaxes - simulation.forfettario.totalTaxes,
+        2
+      );
+      expect(simulation.additionalTaxes).toBeGreaterThan(0);
+    });
+
+    it("should use the provided IRPEF brackets", () => {
+      const { ordinario } = simulateRegimeExit(input, [
+        { rate: 10, lowerBound: 0 },
+      ]);
+
+      expect(ordinario.irpefBreakdown.grossTax).toBeCloseTo(
+        ordinario.irpefBreakdown.taxableIncome * 0.1,
+        2
+      );
+    });
+  });
+});
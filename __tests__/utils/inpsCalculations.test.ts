@@ -0,0 +1,71 @@
+import {
+  DEFAULT_INPS_RATES,
+  INPS_RATE_TYPES,
+  calculateInpsMinContributions,
+  getDefaultInpsParameters,
+  validateInpsParameters,
+} from "@/utils/inpsCalculations";
+
+describe("INPS Calculations Utils", () => {
+  describe("getDefaultInpsParameters", () => {
+    it("should cover every INPS rate type", () => {
+      const parameters = getDefaultInpsParameters(2025);
+      expect(parameters.rates.map((r) => r.type).sort()).toEqual(
+        [...INPS_RATE_TYPES].sort()
+      );
+    });
+
+    it("should use the income limits of the requested year", () => {
+      const parameters = getDefaultInpsParameters(2024);
+      expect(parameters.maxIncome).toBe(119650);
+      expect(parameters.minIncome).toBe(18415);
+    });
+
+    it("should fall back to the closest earlier limits", () => {
+      const parameters = getDefaultInpsParameters(2030);
+      expect(parameters.year).toBe(2030);
+      expect(parameters.maxIncome).toBe(getDefaultInpsParameters(2025).maxIncome);
+    });
+  });
+
+  describe("calculateInpsMinContributions", () => {
+    it("should apply each rate to the minimale", () => {
+      const minContributions = calculateInpsMinContributions(
+        DEFAULT_INPS_RATES,
+        18555
+      );
+
+      expect(minContributions.PROFESSIONAL).toBe(4837.29);
+      expect(minContributions.PENSIONER).toBe(4453.2);
+    });
+  });
+
+  describe("validateInpsParameters", () => {
+    it("should accept the default parameters", () => {
+      expect(validateInpsParameters(getDefaultInpsParameters(2025)).isValid).toBe(
+        true
+      );
+    });
+
+    it("should require one rate per type", () => {
+      const result = validateInpsParameters({
+        rates: [DEFAULT_INPS_RATES[0], DEFAULT_INPS_RATES[0]],
+        maxIncome: 120607,
+        minIncome: 18555,
+      });
+
+      expect(result.errors).toContain("Duplicate rate for PROFESSIONAL");
+      expect(result.errors).toContain("Missing rate for PENSIONER");
+    });
+
+    it("should require the minimale to be lower than the massimale", () => {
+      const result = validateInpsParameters({
+        rates: DEFAULT_INPS_RATES,
+        maxIncome: 10000,
+        minIncome: 18555,
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+});
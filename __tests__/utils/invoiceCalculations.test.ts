@@ -7,6 +7,34 @@ import {
   filterInvoicesByYear,
   filterUnpaidInvoices,
   sortInvoicesByDate,
+  calculateDueDate,
+  calculateAgingReport,
+  getClientPaymentTerms,
+  getInvoiceBollo,
+  getRecordedBollo,
+  getInvoiceWithholding,
+  calculateNetToReceive,
+  calculateCreditableAmount,
+  groupCreditNotesWithOriginals,
+  getInvoicePensionCharge,
+  getPensionChargeForSettings,
+  calculateCompensation,
+  getSignedAmount,
+  calculateLineAmount,
+  getInvoiceItems,
+  calculateItemsAmount,
+  getItemsVat,
+  canTransitionInvoice,
+  getInvoiceStatus,
+  getStatusBeforePayment,
+  getInitialStatusHistory,
+  filterRevenueInvoices,
+  getInvoicePayments,
+  calculatePaidAmount,
+  calculateOutstandingBalance,
+  getStatusFromPayments,
+  allocateToPayments,
+  calculateMonthlyStats,
 } from "@/utils/invoiceCalculations";
 import { IInvoice } from "@/types";
 
@@ -84,6 +112,229 @@ describe("Invoice Calculations Utils", () => {
       const totalAmount = calculateTotalAmount(mockInvoiceWithoutVat);
       expect(totalAmount).toBe(1000);
     });
+
+    it("should add the stamp duty only when re-charged to the client", () => {
+      expect(
+        calculateTotalAmount({
+          ...mockInvoiceWithoutVat,
+          bollo: { amount: 2, chargedToClient: true },
+        })
+      ).toBe(1002);
+      expect(
+        calculateTotalAmount({
+          ...mockInvoiceWithoutVat,
+          bollo: { amount: 2, chargedToClient: false },
+        })
+      ).toBe(1000);
+    });
+  });
+
+  describe("getInvoiceBollo", () => {
+    it("should derive the stamp duty from amount and VAT absence", () => {
+      expect(getInvoiceBollo({ amount: 1000 })).toEqual({
+        amount: 2,
+        chargedToClient: true,
+      });
+      expect(getInvoiceBollo({ amount: 1000 }, false)).toEqual({
+        amount: 2,
+        chargedToClient: false,
+      });
+      expect(getInvoiceBollo({ amount: 77.47 })).toBeUndefined();
+      expect(
+        getInvoiceBollo({ amount: 1000, vat: { vatType: "standard", vatRate: 22 } })
+      ).toBeUndefined();
+    });
+  });
+
+  describe("getRecordedBollo", () => {
+    it("should return the stamp duty recorded on the invoice", () => {
+      const bollo = { amount: 2, chargedToClient: true };
+      expect(getRecordedBollo({ amount: 1000, bollo })).toEqual(bollo);
+      expect(getRecordedBollo({ amount: 1000, bollo: null })).toBeUndefined();
+    });
+
+    it("should derive it, not re-charged, for invoices saved before it was tracked", () => {
+      expect(getRecordedBollo({ amount: 1000 })).toEqual({
+        amount: 2,
+        chargedToClient: false,
+      });
+      expect(getRecordedBollo({ amount: 50 })).toBeUndefined();
+    });
+  });
+
+  describe("withholding tax", () => {
+    it("should derive the withholding tax from amount and rate", () => {
+      expect(getInvoiceWithholding({ amount: 1234.56 }, 20)).toEqual({
+        rate: 20,
+        amount: 246.91,
+      });
+      expect(getInvoiceWithholding({ amount: 1000 }, null)).toBeUndefined();
+    });
+
+    it("should deduct the withholding tax from the amount to receive", () => {
+      expect(
+        calculateNetToReceive({
+          ...mockInvoice,
+          withholding: { rate: 20, amount: 200 },
+        })
+      ).toBe(1020);
+      expect(calculateNetToReceive(mockInvoice)).toBe(1220);
+    });
+  });
+
+  describe("pension contributions", () => {
+    const rivalsa = { type: "rivalsa_inps" as const, rate: 4, amount: 40 };
+    const integrativo = {
+      type: "cassa_integrativa" as const,
+      rate: 4,
+      amount: 40,
+      fundCode: "INARCASSA",
+    };
+
+    it("should follow the pension system of the user", () => {
+      expect(getPensionChargeForSettings({ pensionSystem: "INPS" }, 4)).toEqual({
+        type: "rivalsa_inps",
+        rate: 4,
+      });
+      expect(
+        getPensionChargeForSettings(
+          { pensionSystem: "PROFESSIONAL_FUND", professionalFundId: "INARCASSA" },
+          4
+        )
+      ).toEqual({ type: "cassa_integrativa", rate: 4, fundCode: "INARCASSA" });
+    });
+
+    it("should derive the contribution from the fee", () => {
+      expect(
+        getInvoicePensionCharge({ amount: 1234.56 }, { type: "rivalsa_inps", rate: 4 })
+      ).toEqual({ type: "rivalsa_inps", rate: 4, amount: 49.38 });
+      expect(getInvoicePensionCharge({ amount: 1000 }, null)).toBeUndefined();
+    });
+
+    it("should charge VAT on the fee with the contribution", () => {
+      expect(calculateVatAmount({ ...mockInvoice, pensionCharge: rivalsa })).toBe(228.8);
+      expect(calculateTotalAmount({ ...mockInvoice, pensionCharge: integrativo })).toBe(1268.8);
+    });
+
+    it("should count only the rivalsa INPS in the compensation", () => {
+      expect(calculateCompensation({ amount: 1000, pensionCharge: rivalsa })).toBe(1040);
+      expect(calculateCompensation({ amount: 1000, pensionCharge: integrativo })).toBe(1000);
+      expect(getInvoiceWithholding({ amount: 1000, pensionCharge: rivalsa }, 20)).toEqual({
+        rate: 20,
+        amount: 208,
+      });
+      expect(getInvoiceWithholding({ amount: 1000, pensionCharge: integrativo }, 20)).toEqual({
+        rate: 20,
+        amount: 200,
+      });
+      expect(
+        getSignedAmount({ amount: 500, documentType: "credit_note", pensionCharge: { ...rivalsa, amount: 20 } })
+      ).toBe(-520);
+    });
+
+    it("should include the contribution in the stamp duty threshold", () => {
+      expect(getInvoiceBollo({ amount: 75 })).toBeUndefined();
+      expect(getInvoiceBollo({ amount: 75, pensionCharge: { ...integrativo, amount: 3 } })).toEqual({
+        amount: 2,
+        chargedToClient: true,
+      });
+    });
+  });
+
+  describe("invoice lines", () => {
+    const multiLineInvoice: Pick<IInvoice, "title" | "amount" | "items" | "vat"> = {
+      ...mockInvoice,
+      amount: 600,
+      items: [
+        {
+          description: "Sviluppo",
+          quantity: 10,
+          unitOfMeasure: "ore",
+          unitPrice: 50,
+          amount: 500,
+          vat: { vatType: "standard", vatRate: 22 },
+        },
+        {
+          description: "Formazione",
+          quantity: 1,
+          unitPrice: 100,
+          amount: 100,
+          vatNature: "N4",
+        },
+      ],
+    };
+
+    it("should derive line amounts from quantity and unit price", () => {
+      expect(calculateLineAmount({ quantity: 3, unitPrice: 33.33 })).toBe(99.99);
+      expect(calculateLineAmount({ quantity: 1.5, unitPrice: 12.5 })).toBe(18.75);
+    });
+
+    it("should read invoices without lines as one line", () => {
+      expect(getInvoiceItems(mockInvoice)).toEqual([
+        {
+          description: "Test Invoice",
+          quantity: 1,
+          unitPrice: 1000,
+          amount: 1000,
+          vat: { vatType: "standard", vatRate: 22 },
+        },
+      ]);
+    });
+
+    it("should recompute line amounts and total them", () => {
+      const items = getInvoiceItems({
+        ...multiLineInvoice,
+        items: multiLineInvoice.items?.map((item) => ({ ...item, amount: 0 })),
+      });
+
+      expect(items.map((item) => item.amount)).toEqual([500, 100]);
+      expect(calculateItemsAmount(items)).toBe(600);
+    });
+
+    it("should take the VAT of the line with the highest rate", () => {
+      expect(
+        getItemsVat([
+          { vat: { vatType: "reduced10", vatRate: 10 } },
+          {},
+          { vat: { vatType: "standard", vatRate: 22 } },
+        ])
+      ).toEqual({ vatType: "standard", vatRate: 22 });
+      expect(getItemsVat([{}, {}])).toBeUndefined();
+    });
+
+    it("should charge VAT on each line at its own rate", () => {
+      expect(
+        calculateVatAmount({
+          ...multiLineInvoice,
+          items: [
+            ...(multiLineInvoice.items ?? []),
+            {
+              description: "Libri",
+              quantity: 2,
+              unitPrice: 50,
+              amount: 100,
+              vat: { vatType: "reduced4", vatRate: 4 },
+            },
+          ],
+        })
+      ).toBe(114);
+      expect(calculateTotalAmount(multiLineInvoice)).toBe(710);
+    });
+
+    it("should apply the stamp duty to the lines without VAT", () => {
+      expect(getInvoiceBollo(multiLineInvoice)).toEqual({
+        amount: 2,
+        chargedToClient: true,
+      });
+      expect(
+        getInvoiceBollo({
+          ...multiLineInvoice,
+          items: multiLineInvoice.items?.map((item, index) =>
+            index === 1 ? { ...item, unitPrice: 50, amount: 50 } : item
+          ),
+        })
+      ).toBeUndefined();
+    });
   });
 
   describe("isInvoicePaid", () => {
@@ -121,6 +372,210 @@ describe("Invoice Calculations Utils", () => {
       const totalRevenue = calculateTotalRevenue([]);
       expect(totalRevenue).toBe(0);
     });
+
+    it("should subtract credit notes", () => {
+      const totalRevenue = calculateTotalRevenue([
+        mockInvoice,
+        {
+          ...mockInvoice,
+          _id: "127",
+          amount: 400,
+          documentType: "credit_note",
+          originalInvoiceId: "123",
+        },
+      ]);
+      expect(totalRevenue).toBe(600);
+    });
+
+    it("should leave out drafts and cancelled invoices", () => {
+      const totalRevenue = calculateTotalRevenue([
+        mockInvoice,
+        { ...mockInvoice, _id: "128", status: "draft" },
+        { ...mockInvoice, _id: "129", status: "cancelled" },
+      ]);
+      expect(totalRevenue).toBe(1000);
+    });
+  });
+
+  describe("invoice lifecycle", () => {
+    it("should derive the status of invoices recorded before the lifecycle", () => {
+      expect(getInvoiceStatus(mockInvoice)).toBe("issued");
+      expect(getInvoiceStatus(mockPaidInvoice)).toBe("paid");
+      expect(getInvoiceStatus({ status: "sent" })).toBe("sent");
+    });
+
+    it("should allow only the transitions of the lifecycle", () => {
+      expect(canTransitionInvoice("draft", "issued")).toBe(true);
+      expect(canTransitionInvoice("issued", "sent")).toBe(true);
+      expect(canTransitionInvoice("sent", "paid")).toBe(true);
+      expect(canTransitionInvoice("sent", "partially_paid")).toBe(true);
+      expect(canTransitionInvoice("paid", "sent")).toBe(true);
+      expect(canTransitionInvoice("draft", "paid")).toBe(false);
+      expect(canTransitionInvoice("paid", "cancelled")).toBe(false);
+      expect(canTransitionInvoice("cancelled", "issued")).toBe(false);
+      expect(canTransitionInvoice("issued", "issued")).toBe(false);
+    });
+
+    it("should go back to the last status before the payment", () => {
+      const changedAt = new Date(2024, 0, 1);
+
+      expect(
+        getStatusBeforePayment([
+          { status: "draft", changedAt },
+          { status: "issued", changedAt },
+          { status: "sent", changedAt },
+          { status: "paid", changedAt },
+        ])
+      ).toBe("sent");
+      expect(getStatusBeforePayment()).toBe("issued");
+    });
+
+    it("should start the history of paid invoices from their issue", () => {
+      const changedAt = new Date(2024, 0, 1);
+
+      expect(
+        getInitialStatusHistory("paid", changedAt).map(({ status }) => status)
+      ).toEqual(["issued", "paid"]);
+      expect(getInitialStatusHistory("draft", changedAt)).toEqual([
+        { status: "draft", changedAt },
+      ]);
+    });
+
+    it("should leave drafts and cancelled invoices out of the monthly stats", () => {
+      const issueDate = new Date(2024, 2, 10);
+      const stats = calculateMonthlyStats(
+        [
+          { amount: 1000, issueDate, fiscalYear: 2024 },
+          { amount: 500, issueDate, fiscalYear: 2024, status: "draft" },
+          { amount: 700, issueDate, fiscalYear: 2024, status: "cancelled" },
+          {
+            amount: 200,
+            issueDate,
+            fiscalYear: 2024,
+            documentType: "credit_note",
+            originalInvoiceId: "a1",
+          },
+        ],
+        3,
+        2024
+      );
+
+      expect(stats.count).toBe(2);
+      expect(stats.revenue).toBe(800);
+    });
+
+    it("should keep only the invoices counted as revenue", () => {
+      expect(
+        filterRevenueInvoices([
+          { status: "draft" as const },
+          { status: "issued" as const },
+          { status: "cancelled" as const },
+          {},
+        ])
+      ).toEqual([{ status: "issued" }, {}]);
+    });
+  });
+
+  describe("payments", () => {
+    const invoice = {
+      amount: 1000,
+      vat: { vatType: "standard" as const, vatRate: 22 },
+      payments: [
+        { date: "2024-03-10", amount: 500 },
+        { date: new Date("2024-02-10"), amount: 220 },
+      ],
+    };
+
+    it("should list payments oldest first", () => {
+      expect(getInvoicePayments(invoice).map(({ amount }) => amount)).toEqual([
+        220, 500,
+      ]);
+    });
+
+    it("should read invoices paid before payments were recorded as paid in full", () => {
+      expect(
+        getInvoicePayments({ amount: 1000, paymentDate: new Date("2024-01-20") })
+      ).toEqual([{ date: new Date("2024-01-20"), amount: 1000 }]);
+      expect(getInvoicePayments({ amount: 1000 })).toEqual([]);
+    });
+
+    it("should derive the outstanding balance from the payments and credit notes", () => {
+      expect(calculatePaidAmount(invoice)).toBe(720);
+      expect(calculateOutstandingBalance(invoice)).toBe(500);
+      expect(calculateOutstandingBalance(invoice, 122)).toBe(378);
+      expect(calculateOutstandingBalance(invoice, 1000)).toBe(0);
+    });
+
+    it("should move the status with the payments", () => {
+      const changedAt = new Date(2024, 0, 1);
+      const history = [
+        { status: "issued" as const, changedAt },
+        { status: "sent" as const, changedAt },
+      ];
+
+      expect(getStatusFromPayments(720, 500, history)).toBe("partially_paid");
+      expect(getStatusFromPayments(1220, 0, history)).toBe("paid");
+      expect(getStatusFromPayments(0, 1220, history)).toBe("sent");
+    });
+
+    it("should split an amount across payments without losing cents", () => {
+      const shares = allocateToPayments(
+        100,
+        [{ amount: 40.67 }, { amount: 40.67 }, { amount: 40.66 }],
+        122
+      );
+
+      expect(shares).toEqual([33.34, 33.33, 33.33]);
+      expect(shares.reduce((total, share) => total + share, 0)).toBeCloseTo(100);
+    });
+  });
+
+  describe("credit notes", () => {
+    const original = {
+      id: "a1",
+      amount: 1000,
+      issueDate: new Date(2024, 0, 10),
+      fiscalYear: 2024,
+    };
+    const creditNote = (id: string, amount: number, originalInvoiceId = "a1") => ({
+      id,
+      amount,
+      issueDate: new Date(2024, 1, 1),
+      fiscalYear: 2024,
+      documentType: "credit_note" as const,
+      originalInvoiceId,
+    });
+
+    it("should leave open the amount not yet reversed", () => {
+      expect(
+        calculateCreditableAmount(original, [
+          creditNote("c1", 300),
+          creditNote("c2", 250.5),
+        ])
+      ).toBe(449.5);
+      expect(calculateCreditableAmount(original, [creditNote("c1", 1000)])).toBe(0);
+    });
+
+    it("should list credit notes under their original invoice", () => {
+      const other = { ...original, id: "a2" };
+      const groups = groupCreditNotesWithOriginals([
+        creditNote("c1", 100),
+        other,
+        original,
+        creditNote("c2", 100, "elsewhere"),
+      ]);
+
+      expect(
+        groups.map(({ invoice, creditNotes }) => [
+          invoice.id,
+          creditNotes.map((note) => note.id),
+        ])
+      ).toEqual([
+        ["a2", []],
+        ["a1", ["c1"]],
+        ["c2", []],
+      ]);
+    });
   });
 
   describe("filterInvoicesByYear", () => {
@@ -196,4 +651,197 @@ describe("Invoice Calculations Utils", () => {
       expect(invoices).toHaveLength(originalLength);
     });
   });
+
+  describe("calculateDueDate", () => {
+    const issueDate = new Date(2024, 0, 15);
+
+    it("should add the days of the fixed terms", () => {
+      expect(calculateDueDate(issueDate, "immediate")).toEqual(issueDate);
+      expect(calculateDueDate(issueDate, "net60")).toEqual(
+        new Date(2024, 2, 15)
+      );
+    });
+
+    it("should default to 30 days", () => {
+      expect(calculateDueDate(issueDate)).toEqual(new Date(2024, 1, 14));
+    });
+
+    it("should fall due at the end of the issue month", () => {
+      expect(calculateDueDate(new Date(2024, 1, 10), "end_of_month")).toEqual(
+        new Date(2024, 1, 29)
+      );
+    });
+
+    it("should use the custom due date", () => {
+      const customDate = new Date(2024, 3, 1);
+      expect(calculateDueDate(issueDate, "custom", customDate)).toEqual(
+        customDate
+      );
+    });
+  });
+
+  describe("getPaymentStatus with payment terms", () => {
+    const now = new Date(2024, 2, 1);
+    const invoice = {
+      amount: 1000,
+      issueDate: new Date(2024, 0, 15),
+      fiscalYear: 2024,
+    };
+
+    it("should follow the invoice payment terms", () => {
+      expect(getPaymentStatus({ ...invoice, paymentTerms: "net30" }, now)).toBe(
+        "overdue"
+      );
+      expect(getPaymentStatus({ ...invoice, paymentTerms: "net60" }, now)).toBe(
+        "pending"
+      );
+    });
+
+    it("should prefer the stored due date", () => {
+      expect(
+        getPaymentStatus(
+          { ...invoice, paymentTerms: "custom", dueDate: new Date(2024, 2, 1) },
+          now
+        )
+      ).toBe("pending");
+    });
+
+    it("should follow the lifecycle status before the due date", () => {
+      const overdue = { ...invoice, paymentTerms: "net30" as const };
+      expect(getPaymentStatus({ ...overdue, status: "draft" }, now)).toBe("draft");
+      expect(getPaymentStatus({ ...overdue, status: "cancelled" }, now)).toBe(
+        "cancelled"
+      );
+      expect(getPaymentStatus({ ...overdue, status: "paid" }, now)).toBe("paid");
+      expect(getPaymentStatus({ ...overdue, status: "sent" }, now)).toBe(
+        "overdue"
+      );
+    });
+
+    it("should show partially paid invoices until they are overdue", () => {
+      const partial = {
+        ...invoice,
+        status: "partially_paid" as const,
+        payments: [{ date: new Date(2024, 1, 1), amount: 400 }],
+      };
+      expect(getPaymentStatus({ ...partial, paymentTerms: "net60" }, now)).toBe(
+        "partially_paid"
+      );
+      expect(getPaymentStatus({ ...partial, paymentTerms: "net30" }, now)).toBe(
+        "overdue"
+      );
+    });
+  });
+
+  describe("calculateAgingReport", () => {
+    const now = new Date(2024, 5, 30);
+    const dueDaysAgo = (days: number) => ({
+      amount: 100,
+      issueDate: new Date(2024, 0, 1),
+      dueDate: new Date(2024, 5, 30 - days),
+      fiscalYear: 2024,
+    });
+
+    it("should group unpaid invoices by days past due", () => {
+      const report = calculateAgingReport(
+        [
+          dueDaysAgo(-10),
+          dueDaysAgo(0),
+          dueDaysAgo(45),
+          dueDaysAgo(90),
+          dueDaysAgo(120),
+          { ...dueDaysAgo(120), paymentDate: new Date(2024, 5, 1) },
+          { ...dueDaysAgo(120), status: "draft" as const },
+          { ...dueDaysAgo(120), status: "cancelled" as const },
+        ],
+        now
+      );
+
+      expect(report.notDue).toEqual({ count: 1, amount: 100 });
+      expect(report.buckets.map((bucket) => bucket.count)).toEqual([1, 1, 1, 1]);
+      expect(report.totalOverdue).toBe(300);
+      expect(report.totalOutstanding).toBe(500);
+    });
+
+    it("should include VAT in the outstanding amounts", () => {
+      const report = calculateAgingReport(
+        [{ ...dueDaysAgo(5), vat: { vatType: "standard", vatRate: 22 } }],
+        now
+      );
+
+      expect(report.buckets[0].amount).toBe(122);
+    });
+
+    it("should leave out the payments already received", () => {
+      const report = calculateAgingReport(
+        [
+          {
+            ...dueDaysAgo(5),
+            vat: { vatType: "standard", vatRate: 22 },
+            status: "partially_paid" as const,
+            payments: [{ date: new Date(2024, 5, 1), amount: 50 }],
+          },
+        ],
+        now
+      );
+
+      expect(report.buckets[0]).toMatchObject({ count: 1, amount: 72 });
+    });
+
+    it("should net credit notes from the invoice they reverse", () => {
+      const report = calculateAgingReport(
+        [
+          { ...dueDaysAgo(5), id: "a1" },
+          { ...dueDaysAgo(5), id: "a2" },
+          {
+            ...dueDaysAgo(5),
+            id: "c1",
+            amount: 40,
+            documentType: "credit_note",
+            originalInvoiceId: "a1",
+          },
+          {
+            ...dueDaysAgo(5),
+            id: "c2",
+            documentType: "credit_note",
+            originalInvoiceId: "a2",
+          },
+        ],
+        now
+      );
+
+      expect(report.buckets[0]).toMatchObject({ count: 1, amount: 60 });
+      expect(report.totalOutstanding).toBe(60);
+    });
+  });
+
+  describe("getClientPaymentTerms", () => {
+    it("should take the terms of the latest invoice of each client", () => {
+      const terms = getClientPaymentTerms([
+        {
+          clientName: "Acme  Srl",
+          amount: 100,
+          issueDate: new Date(2024, 0, 1),
+          fiscalYear: 2024,
+          paymentTerms: "net30",
+        },
+        {
+          clientName: "acme srl",
+          amount: 100,
+          issueDate: new Date(2024, 2, 1),
+          fiscalYear: 2024,
+          paymentTerms: "net60",
+        },
+        {
+          clientName: "Beta",
+          amount: 100,
+          issueDate: new Date(2024, 3, 1),
+          fiscalYear: 2024,
+          paymentTerms: "custom",
+        },
+      ]);
+
+      expect(terms).toEqual({ "acme srl": "net60" });
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import {
+  DEFAULT_INVOICE_NUMBER_PATTERN,
+  findNumberingGaps,
+  formatInvoiceNumber,
+  getHighestSequence,
+  parseInvoiceSequence,
+  validateNumberPattern,
+} from "@/utils/invoiceNumberingCalculations";
+
+describe("Invoice Numbering Calculations Utils", () => {
+  describe("validateNumberPattern", () => {
+    it("should accept patterns with one progressive number", () => {
+      expect(validateNumberPattern(DEFAULT_INVOICE_NUMBER_PATTERN)).toEqual([]);
+      expect(validateNumberPattern("FT-{seq}")).toEqual([]);
+      expect(validateNumberPattern("{YY}-{seq:4}/A")).toEqual([]);
+    });
+
+    it("should reject patterns without exactly one progressive number", () => {
+      expect(validateNumberPattern("")).toEqual(["Numbering pattern is required"]);
+      expect(validateNumberPattern("{YYYY}")).toEqual([
+        "Numbering pattern must contain {seq} exactly once",
+      ]);
+      expect(validateNumberPattern("{seq}-{seq}")).toEqual([
+        "Numbering pattern must contain {seq} exactly once",
+      ]);
+    });
+
+    it("should reject unknown placeholders and invalid characters", () => {
+      expect(validateNumberPattern("{MM}/{seq}")).toEqual([
+        "Unknown placeholder, use {YYYY}, {YY}, {seq} or {seq:N}",
+      ]);
+      expect(validateNumberPattern("FT {seq}")).toEqual([
+        "Numbering pattern can only contain letters, numbers, hyphens, and slashes",
+      ]);
+    });
+  });
+
+  describe("formatInvoiceNumber", () => {
+    it("should fill in the year and pad the progressive number", () => {
+      expect(formatInvoiceNumber("{YYYY}/{seq:3}", 2024, 7)).toBe("2024/007");
+      expect(formatInvoiceNumber("{YY}-{seq:2}", 2024, 123)).toBe("24-123");
+      expect(formatInvoiceNumber("FT-{seq}", 2025, 1)).toBe("FT-1");
+    });
+  });
+
+  describe("parseInvoiceSequence", () => {
+    it("should read the progressive number of numbers of the year", () => {
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2024/012")).toBe(12);
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2024/1000")).toBe(1000);
+      expect(parseInvoiceSequence("FT-{seq}", 2024, "FT-3")).toBe(3);
+    });
+
+    it("should ignore numbers of other years or not following the pattern", () => {
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2023/012")).toBeNull();
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2024/12")).toBeNull();
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2024/0012")).toBeNull();
+      expect(parseInvoiceSequence("{YYYY}/{seq:3}", 2024, "2024/000")).toBeNull();
+      expect(parseInvoiceSequence("FT-{seq}", 2024, "A-3")).toBeNull();
+    });
+  });
+
+  describe("getHighestSequence", () => {
+    it("should return the highest progressive number, 0 when none", () => {
+      expect(
+        getHighestSequence("{YYYY}/{seq:3}", 2024, ["2024/002", "2024/010", "X-99"])
+      ).toBe(10);
+      expect(getHighestSequence("{YYYY}/{seq:3}", 2024, [])).toBe(0);
+    });
+  });
+
+  describe("findNumberingGaps", () => {
+    it("should group missing numbers in consecutive runs", () => {
+      expect(
+        findNumberingGaps("{YYYY}/{seq:3}", 2024, [
+          "2024/001",
+          "2024/005",
+          "2024/003",
+          "2024/006",
+          "2024/009",
+        ])
+      ).toEqual([
+        { first: "2024/002", last: "2024/002", count: 1 },
+        { first: "2024/004", last: "2024/004", count: 1 },
+        { first: "2024/007", last: "2024/008", count: 2 },
+      ]);
+    });
+
+    it("should report a missing start of the sequence", () => {
+      expect(findNumberingGaps("FT-{seq}", 2024, ["FT-3"])).toEqual([
+        { first: "FT-1", last: "FT-2", count: 2 },
+      ]);
+    });
+
+    it("should report generated numbers never used by an invoice", () => {
+      expect(findNumberingGaps("FT-{seq}", 2024, ["FT-1", "FT-2"], 4)).toEqual([
+        { first: "FT-3", last: "FT-4", count: 2 },
+      ]);
+      expect(findNumberingGaps("FT-{seq}", 2024, ["FT-1", "FT-2"], 2)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  calculateIrpef,
+  calculateSelfEmploymentDeduction,
+  calculateRegionalSurcharge,
+  calculateMunicipalSurcharge,
+  getDefaultIrpefBrackets,
+  getDefaultIrpefTableYear,
+  validateIrpefBrackets,
+} from "@/utils/irpefCalculations";
+
+describe("IRPEF Calculations Utils", () => {
+  describe("getDefaultIrpefBrackets", () => {
+    it("should return the three-bracket table from 2024", () => {
+      const brackets = getDefaultIrpefBrackets(2025);
+      expect(brackets.map((b) => b.rate)).toEqual([23, 35, 43]);
+    });
+
+    it("should return the four-bracket table for 2022 and 2023", () => {
+      const brackets = getDefaultIrpefBrackets(2023);
+      expect(brackets.map((b) => b.rate)).toEqual([23, 25, 35, 43]);
+    });
+
+    it("should fall back to the oldest table for earlier years", () => {
+      const brackets = getDefaultIrpefBrackets(2015);
+      expect(brackets).toEqual(getDefaultIrpefBrackets(2022));
+    });
+  });
+
+  describe("getDefaultIrpefTableYear", () => {
+    it("should return the year of the table in force", () => {
+      expect(getDefaultIrpefTableYear(2023)).toBe(2022);
+      expect(getDefaultIrpefTableYear(2026)).toBe(2024);
+    });
+
+    it("should fall back to the oldest table for earlier years", () => {
+      expect(getDefaultIrpefTableYear(2015)).toBe(2022);
+    });
+  });
+
+  describe("calculateSelfEmploymentDeduction", () => {
+    it("should return the full deduction for low incomes", () => {
+      expect(calculateSelfEmploymentDeduction(5000)).toBe(1265);
+    });
+
+    it("should decrease linearly between 5,500 and 28,000", () => {
+      // 500 + 765 * (28000 - 16750) / 22500
+      expect(calculateSelfEmploymentDeduction(16750)).toBe(882.5);
+    });
+
+    it("should add 50 euros between 25,000 and 35,000", () => {
+      // 500 * (50000 - 30000) / 22000 + 50
+      expect(calculateSelfEmploymentDeduction(30000)).toBe(504.55);
+    });
+
+    it("should return 0 above 50,000", () => {
+      expect(calculateSelfEmploymentDeduction(60000)).toBe(0);
+    });
+
+    it("should return 0 for zero income", () => {
+      expect(calculateSelfEmploymentDeduction(0)).toBe(0);
+    });
+  });
+
+  describe("surcharges", () => {
+    it("should calculate the regional surcharge with the given rate", () => {
+      expect(calculateRegionalSurcharge(40000, 1.73)).toBe(692);
+    });
+
+    it("should exempt municipal surcharge below the threshold", () => {
+      expect(calculateMunicipalSurcharge(10000, 0.8, 12000)).toBe(0);
+      expect(calculateMunicipalSurcharge(20000, 0.8, 12000)).toBe(160);
+    });
+  });
+
+  describe("calculateIrpef", () => {
+    it("should break down the gross tax by bracket", () => {
+      const result = calculateIrpef({ year: 2024, taxableIncome: 60000 });
+
+      expect(result.brackets).toEqual([
+        { rate: 23, lowerBound: 0, upperBound: 28000, taxableAmount: 28000, tax: 6440 },
+        { rate: 35, lowerBound: 28000, upperBound: 50000, taxableAmount: 22000, tax: 7700 },
+        { rate: 43, lowerBound: 50000, upperBound: undefined, taxableAmount: 10000, tax: 4300 },
+      ]);
+      expect(result.grossTax).toBe(18440);
+      expect(result.selfEmploymentDeduction).toBe(0);
+      expect(result.netTax).toBe(18440);
+    });
+
+    it("should apply deductions and surcharges", () => {
+      const result = calculateIrpef({
+        year: 2024,
+        taxableIncome: 20000,
+        regionalSurchargeRate: 1.23,
+        municipalSurchargeRate: 0.8,
+      });
+
+      expect(result.grossTax).toBe(4600);
+      expect(result.selfEmploymentDeduction).toBe(772);
+      expect(result.netTax).toBe(3828);
+      expect(result.regionalSurcharge).toBe(246);
+      expect(result.municipalSurcharge).toBe(160);
+      expect(result.totalIrpef).toBe(4234);
+    });
+
+    it("should not charge surcharges when no net IRPEF is due", () => {
+      const result = calculateIrpef({ year: 2024, taxableIncome: 5000 });
+
+      expect(result.netTax).toBe(0);
+      expect(result.regionalSurcharge).toBe(0);
+      expect(result.municipalSurcharge).toBe(0);
+      expect(result.totalIrpef).toBe(0);
+    });
+
+    it("should credit the withholding tax against the net tax", () => {
+      const request = {
+        year: 2024,
+        taxableIncome: 20000,
+        regionalSurchargeRate: 1.23,
+        municipalSurchargeRate: 0.8,
+      };
+
+      const partial = calculateIrpef({ ...request, withheldTaxes: 1000 });
+      expect(partial.totalIrpef).toBe(4234);
+      expect(partial.withholdingCredit).toBe(1000);
+      expect(partial.withholdingSurplus).toBe(0);
+      expect(partial.irpefDue).toBe(3234);
+
+      const excess = calculateIrpef({ ...request, withheldTaxes: 5000 });
+      expect(excess.withholdingCredit).toBe(3828);
+      expect(excess.withholdingSurplus).toBe(1172);
+      expect(excess.irpefDue).toBe(406);
+    });
+
+    it("should use the provided rate table", () => {
+      const result = calculateIrpef({ year: 2024, taxableIncome: 10000 }, [
+        { rate: 10, lowerBound: 0 },
+      ]);
+
+      expect(result.grossTax).toBe(1000);
+    });
+  });
+
+  describe("validateIrpefBrackets", () => {
+    it("should accept the default tables", () => {
+      expect(validateIrpefBrackets(getDefaultIrpefBrackets(2022)).isValid).toBe(true);
+      expect(validateIrpefBrackets(getDefaultIrpefBrackets(2024)).isValid).toBe(true);
+    });
+
+    it("should reject an empty table", () => {
+      expect(validateIrpefBrackets([]).isValid).toBe(false);
+    });
+
+    it("should reject gaps and overlaps", () => {
+      const gap = validateIrpefBrackets([
+        { rate: 23, lowerBound: 0, upperBound: 28000 },
+        { rate: 35, lowerBound: 30000 },
+      ]);
+      const overlap = validateIrpefBrackets([
+        { rate: 23, lowerBound: 0, upperBound: 28000 },
+        { rate: 35, lowerBound: 25000 },
+      ]);
+
+      expect(gap.errors).toContain("Gap between brackets 1 and 2");
+      expect(overlap.errors).toContain("Brackets 1 and 2 overlap");
+    });
+
+    it("should only allow the last bracket to be unbounded", () => {
+      const result = validateIrpefBrackets([
+        { rate: 23, lowerBound: 0 },
+        { rate: 35, lowerBound: 28000 },
+      ]);
+
+      expect(result.errors).toContain(
+        "Bracket 1: only the last bracket can be unbounded"
+      );
+    });
+  });
+});
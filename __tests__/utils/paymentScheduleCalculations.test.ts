@@ -0,0 +1,261 @@
+import {
+  buildPaymentSchedule,
+  calculateBolloQuarters,
+  calculateContributionAcconti,
+  calculateTaxAcconti,
+  getTaxFirstAccontoShare,
+  getUpcomingPayments,
+  sumPaidAcconti,
+  toBusinessDay,
+} from "@/utils/paymentScheduleCalculations";
+
+describe("Payment Schedule Calculations Utils", () => {
+  describe("calculateTaxAcconti", () => {
+    it("should split the acconto 40% in June and 60% in November", () => {
+      expect(calculateTaxAcconti(5000)).toEqual({ first: 2000, second: 3000 });
+    });
+
+    it("should not require acconti up to 51.65", () => {
+      expect(calculateTaxAcconti(51.65)).toEqual({ first: 0, second: 0 });
+    });
+
+    it("should pay small acconti in a single November instalment", () => {
+      expect(calculateTaxAcconti(200)).toEqual({ first: 0, second: 200 });
+    });
+
+    it("should split the acconto in two equal instalments for forfettari and ISA subjects", () => {
+      expect(getTaxFirstAccontoShare("forfettario")).toBe(50);
+      expect(getTaxFirstAccontoShare("ordinario", true)).toBe(50);
+      expect(getTaxFirstAccontoShare("ordinario")).toBe(40);
+      expect(calculateTaxAcconti(5000, getTaxFirstAccontoShare("forfettario"))).toEqual({
+        first: 2500,
+        second: 2500,
+      });
+    });
+  });
+
+  describe("calculateContributionAcconti", () => {
+    it("should advance 80% of the contributions in two instalments", () => {
+      expect(calculateContributionAcconti(10000)).toEqual({
+        first: 4000,
+        second: 4000,
+      });
+    });
+  });
+
+  describe("toBusinessDay", () => {
+    it("should move weekend due dates to Monday", () => {
+      // 30 November 2025 is a Sunday
+      const sunday = new Date(Date.UTC(2025, 10, 30));
+      expect(toBusinessDay(sunday).toISOString()).toBe(
+        "2025-12-01T00:00:00.000Z"
+      );
+    });
+
+    it("should keep weekday due dates", () => {
+      const monday = new Date(Date.UTC(2025, 5, 30));
+      expect(toBusinessDay(monday)).toEqual(monday);
+    });
+  });
+
+  describe("sumPaidAcconti", () => {
+    it("should only sum the acconti of the requested category", () => {
+      const records = [
+        { paymentId: "tax-acconto-1", amount: 400, paidAt: "2024-07-01" },
+        { paymentId: "tax-acconto-2", amount: 600, paidAt: "2024-12-02" },
+        { paymentId: "tax-saldo", amount: 900, paidAt: "2024-07-01" },
+        { paymentId: "contributions-acconto-1", amount: 300, paidAt: "2024-07-01" },
+      ];
+
+      expect(sumPaidAcconti(records, "tax")).toBe(1000);
+      expect(sumPaidAcconti(records, "contributions")).toBe(300);
+    });
+  });
+
+  describe("buildPaymentSchedule", () => {
+    const input = {
+      fiscalYear: 2024,
+      incomeTax: 3000,
+      contributions: 5000,
+      paidTaxAcconti: 1000,
+      paidContributionAcconti: 2000,
+    };
+
+    it("should credit the acconti already paid in the saldo", () => {
+      const { payments } = buildPaymentSchedule(input);
+      const saldo = payments.find((p) => p.id === "tax-saldo");
+
+      expect(saldo?.amount).toBe(2000);
+      expect(saldo?.dueDate).toBe("2025-06-30T00:00:00.000Z");
+      expect(payments.find((p) => p.id === "contributions-saldo")?.amount).toBe(3000);
+    });
+
+    it("should base the next year's acconti on the fiscal year", () => {
+      const { payments } = buildPaymentSchedule(input);
+
+      expect(payments.find((p) => p.id === "tax-acconto-1")?.amount).toBe(1200);
+      expect(payments.find((p) => p.id === "tax-acconto-2")).toMatchObject({
+        amount: 1800,
+        referenceYear: 2025,
+        dueDate: "2025-12-01T00:00:00.000Z",
+      });
+      expect(payments.find((p) => p.id === "contributions-acconto-2")?.amount).toBe(2000);
+    });
+
+    it("should split the forfettario tax acconti in two equal instalments", () => {
+      const { payments } = buildPaymentSchedule({ ...input, taxRegime: "forfettario" });
+
+      expect(payments.find((p) => p.id === "tax-acconto-1")?.amount).toBe(1500);
+      expect(payments.find((p) => p.id === "tax-acconto-2")?.amount).toBe(1500);
+    });
+
+    it("should use the IRPEF acconto base when provided", () => {
+      const { payments } = buildPaymentSchedule({
+        ...input,
+        incomeTaxAccontoBase: 2500,
+      });
+
+      expect(payments.find((p) => p.id === "tax-acconto-1")?.amount).toBe(1000);
+      expect(payments.find((p) => p.id === "tax-saldo")?.amount).toBe(2000);
+    });
+
+    it("should split fixed contributions in four instalments", () => {
+      const { payments } = buildPaymentSchedule({
+        fiscalYear: 2024,
+        incomeTax: 0,
+        contributions: 0,
+        fixedAnnualContributions: 1000.01,
+      });
+
+      expect(payments.map((p) => p.id)).toEqual([
+        "contributions-rata-1",
+        "contributions-rata-2",
+        "contributions-rata-3",
+        "contributions-rata-4",
+      ]);
+      expect(payments[3].amount).toBe(250.01);
+      expect(payments[3].dueDate).toBe("2026-02-16T00:00:00.000Z");
+    });
+
+    it("should flag recorded payments and keep the paid amount", () => {
+      const schedule = buildPaymentSchedule(input, [
+        { paymentId: "tax-saldo", amount: 1950, paidAt: "2025-06-25T00:00:00.000Z" },
+      ]);
+      const saldo = schedule.payments.find((p) => p.id === "tax-saldo");
+
+      expect(saldo).toMatchObject({ paid: true, amount: 1950 });
+      expect(schedule.paidAmount).toBe(1950);
+      expect(schedule.outstandingAmount).toBe(
+        schedule.totalAmount - schedule.paidAmount
+      );
+    });
+
+    it("should add a stamp duty payment for each quarter", () => {
+      const { payments } = buildPaymentSchedule({
+        fiscalYear: 2024,
+        incomeTax: 0,
+        contributions: 0,
+        bolloQuarters: calculateBolloQuarters(
+          [
+            { issueDate: new Date(2024, 1, 1), bollo: { amount: 2, chargedToClient: false } },
+            { issueDate: new Date(2024, 9, 1), bollo: { amount: 2, chargedToClient: true } },
+          ],
+          2024
+        ),
+      });
+
+      expect(payments).toEqual([
+        expect.objectContaining({
+          id: "bollo-trimestre-1",
+          category: "bollo",
+          kind: "quarter",
+          description: "Imposta di bollo 1° trimestre 2024",
+          amount: 2,
+        }),
+        expect.objectContaining({
+          id: "bollo-trimestre-4",
+          dueDate: "2025-02-28T00:00:00.000Z",
+          amount: 2,
+        }),
+      ]);
+    });
+
+    it("should leave out payments with nothing due", () => {
+      const { payments } = buildPaymentSchedule({
+        fiscalYear: 2024,
+        incomeTax: 0,
+        contributions: 0,
+      });
+
+      expect(payments).toEqual([]);
+    });
+  });
+
+  describe("calculateBolloQuarters", () => {
+    const bollo = { amount: 2, chargedToClient: true };
+
+    it("should sum the stamp duty of the fiscal year's invoices by quarter", () => {
+      const quarters = calculateBolloQuarters(
+        [
+          { issueDate: new Date(2024, 0, 10), bollo },
+          { issueDate: new Date(2024, 2, 31), bollo },
+          { issueDate: new Date(2024, 4, 5), bollo },
+          { issueDate: new Date(2024, 11, 20), bollo },
+          { issueDate: new Date(2024, 6, 1), bollo: null },
+          { issueDate: new Date(2023, 11, 20), bollo },
+        ],
+        2024
+      );
+
+      expect(quarters.map((q) => [q.invoiceCount, q.amount])).toEqual([
+        [2, 4],
+        [1, 2],
+        [0, 0],
+        [1, 2],
+      ]);
+      // Q4 is due by the end of February of the next year
+      expect(quarters[3]).toMatchObject({
+        dueDate: "2025-02-28T00:00:00.000Z",
+        deferred: false,
+      });
+    });
+
+    it("should defer the first two quarters to the third while under the threshold", () => {
+      const quarters = calculateBolloQuarters(
+        [{ issueDate: new Date(2024, 1, 1), bollo }],
+        2024
+      );
+
+      expect(quarters.slice(0, 3).map((q) => [q.dueDate, q.deferred])).toEqual([
+        ["2024-12-02T00:00:00.000Z", true],
+        ["2024-12-02T00:00:00.000Z", true],
+        ["2024-12-02T00:00:00.000Z", false],
+      ]);
+    });
+  });
+
+  describe("getUpcomingPayments", () => {
+    it("should return unpaid payments due from a date, earliest first", () => {
+      const previous = buildPaymentSchedule({
+        fiscalYear: 2024,
+        incomeTax: 3000,
+        contributions: 0,
+      });
+      const current = buildPaymentSchedule(
+        { fiscalYear: 2025, incomeTax: 3000, contributions: 0 },
+        [{ paymentId: "tax-saldo", amount: 3000, paidAt: "2026-06-30" }]
+      );
+
+      const upcoming = getUpcomingPayments(
+        [current, previous],
+        new Date(Date.UTC(2025, 10, 1))
+      );
+
+      expect(upcoming.map((p) => `${p.fiscalYear}:${p.id}`)).toEqual([
+        "2024:tax-acconto-2",
+        "2025:tax-acconto-1",
+        "2025:tax-acconto-2",
+      ]);
+    });
+  });
+});
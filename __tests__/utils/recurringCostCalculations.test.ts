@@ -0,0 +1,125 @@
+import {
+  getDueOccurrences,
+  getOccurrenceDate,
+  getUpcomingOccurrences,
+  isOccurrenceDate,
+  isPendingOccurrence,
+  toDateKey,
+} from "@/utils/recurringCostCalculations";
+
+describe("Recurring Cost Calculations Utils", () => {
+  const monthlyRent = {
+    frequency: "monthly" as const,
+    startDate: new Date("2025-01-31"),
+  };
+
+  describe("getOccurrenceDate", () => {
+    it("should move occurrences to the last day of shorter months", () => {
+      expect(toDateKey(getOccurrenceDate(monthlyRent.startDate, "monthly", 1))).toBe(
+        "2025-02-28"
+      );
+      expect(toDateKey(getOccurrenceDate(monthlyRent.startDate, "monthly", 2))).toBe(
+        "2025-03-31"
+      );
+      expect(toDateKey(getOccurrenceDate("2024-02-29", "yearly", 1))).toBe(
+        "2025-02-28"
+      );
+    });
+
+    it("should repeat quarterly occurrences every three months across years", () => {
+      expect(toDateKey(getOccurrenceDate("2024-11-15", "quarterly", 1))).toBe(
+        "2025-02-15"
+      );
+      expect(toDateKey(getOccurrenceDate("2024-11-15", "quarterly", 4))).toBe(
+        "2025-11-15"
+      );
+    });
+  });
+
+  describe("isOccurrenceDate", () => {
+    it("should accept only the days of the schedule", () => {
+      expect(isOccurrenceDate(monthlyRent, "2025-02-28")).toBe(true);
+      expect(isOccurrenceDate(monthlyRent, "2025-02-27")).toBe(false);
+      expect(isOccurrenceDate(monthlyRent, "2024-12-31")).toBe(false);
+    });
+
+    it("should exclude occurrences after the end date", () => {
+      const series = { ...monthlyRent, endDate: new Date("2025-03-15") };
+
+      expect(isOccurrenceDate(series, "2025-02-28")).toBe(true);
+      expect(isOccurrenceDate(series, "2025-03-31")).toBe(false);
+    });
+  });
+
+  describe("getDueOccurrences", () => {
+    it("should list the occurrences due and not generated yet", () => {
+      const due = getDueOccurrences(
+        { ...monthlyRent, generatedUntil: new Date("2025-01-31") },
+        new Date("2025-04-10T09:00:00Z")
+      );
+
+      expect(due.map(({ date }) => toDateKey(date))).toEqual([
+        "2025-02-28",
+        "2025-03-31",
+      ]);
+    });
+
+    it("should include an occurrence on the day it falls", () => {
+      expect(
+        getDueOccurrences(monthlyRent, new Date("2025-01-31T00:00:00Z"))
+      ).toHaveLength(1);
+      expect(
+        getDueOccurrences(monthlyRent, new Date("2025-01-30T23:59:59Z"))
+      ).toHaveLength(0);
+    });
+
+    it("should flag skipped occurrences", () => {
+      const due = getDueOccurrences(
+        { ...monthlyRent, skippedDates: [new Date("2025-02-28")] },
+        new Date("2025-03-31")
+      );
+
+      expect(due.map(({ skipped }) => skipped)).toEqual([false, true, false]);
+    });
+  });
+
+  describe("getUpcomingOccurrences", () => {
+    it("should preview the next occurrences after today", () => {
+      const upcoming = getUpcomingOccurrences(
+        { frequency: "quarterly", startDate: "2025-01-10" },
+        new Date("2025-05-01"),
+        3
+      );
+
+      expect(upcoming.map(({ date }) => toDateKey(date))).toEqual([
+        "2025-07-10",
+        "2025-10-10",
+        "2026-01-10",
+      ]);
+    });
+
+    it("should stop at the end date and skip generated occurrences", () => {
+      const upcoming = getUpcomingOccurrences(
+        {
+          frequency: "yearly",
+          startDate: "2025-06-01",
+          endDate: "2027-12-31",
+          generatedUntil: "2026-06-01",
+        },
+        new Date("2025-07-01")
+      );
+
+      expect(upcoming.map(({ date }) => toDateKey(date))).toEqual(["2027-06-01"]);
+    });
+  });
+
+  describe("isPendingOccurrence", () => {
+    it("should allow only occurrences not generated yet", () => {
+      const series = { ...monthlyRent, generatedUntil: "2025-02-28" };
+
+      expect(isPendingOccurrence(series, "2025-02-28")).toBe(false);
+      expect(isPendingOccurrence(series, "2025-03-31")).toBe(true);
+      expect(isPendingOccurrence(series, "2025-03-30")).toBe(false);
+    });
+  });
+});
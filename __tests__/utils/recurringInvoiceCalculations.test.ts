@@ -0,0 +1,109 @@
+import {
+  getDraftDates,
+  getRecurringInvoiceAmount,
+  getRecurringRevenueProjection,
+  isDraftDate,
+  isOpenOccurrence,
+} from "@/utils/recurringInvoiceCalculations";
+import { toDateKey } from "@/utils/recurringCostCalculations";
+
+describe("Recurring Invoice Calculations Utils", () => {
+  const retainer = {
+    frequency: "monthly" as const,
+    startDate: new Date("2025-01-15"),
+    items: [{ amount: 1000 }, { amount: 250.5 }],
+    paymentTerms: "net30" as const,
+  };
+
+  describe("getRecurringInvoiceAmount", () => {
+    it("should total the lines of the template", () => {
+      expect(getRecurringInvoiceAmount(retainer)).toBe(1250.5);
+    });
+  });
+
+  describe("getDraftDates", () => {
+    it("should list the due occurrences not issued yet", () => {
+      const drafts = getDraftDates(
+        retainer,
+        [new Date("2025-01-15T10:30:00Z"), "2025-03-15"],
+        new Date("2025-04-20")
+      );
+
+      expect(drafts.map(toDateKey)).toEqual(["2025-02-15", "2025-04-15"]);
+    });
+
+    it("should leave out skipped occurrences", () => {
+      const drafts = getDraftDates(
+        { ...retainer, skippedDates: ["2025-02-15"] },
+        ["2025-01-15"],
+        new Date("2025-02-28")
+      );
+
+      expect(drafts).toEqual([]);
+    });
+  });
+
+  describe("isDraftDate", () => {
+    it("should accept only open occurrences not skipped", () => {
+      const template = { ...retainer, skippedDates: ["2025-03-15"] };
+      const issued = ["2025-01-15"];
+
+      expect(isDraftDate(template, issued, "2025-02-15")).toBe(true);
+      expect(isDraftDate(template, issued, "2025-01-15")).toBe(false);
+      expect(isDraftDate(template, issued, "2025-03-15")).toBe(false);
+      expect(isDraftDate(template, issued, "2025-02-16")).toBe(false);
+    });
+
+    it("should let skipped occurrences be restored while not issued", () => {
+      const template = { ...retainer, skippedDates: ["2025-03-15"] };
+
+      expect(isOpenOccurrence(template, [], "2025-03-15")).toBe(true);
+      expect(isOpenOccurrence(template, ["2025-03-15"], "2025-03-15")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("getRecurringRevenueProjection", () => {
+    it("should project the upcoming occurrences with their due dates", () => {
+      const projection = getRecurringRevenueProjection(
+        [
+          {
+            ...retainer,
+            endDate: "2025-07-31",
+            skippedDates: ["2025-06-15"],
+          },
+        ],
+        new Date("2025-04-20")
+      );
+
+      expect(projection.map(({ issueDate }) => toDateKey(issueDate))).toEqual([
+        "2025-05-15",
+        "2025-07-15",
+      ]);
+      expect(projection[0].amount).toBe(1250.5);
+      expect(toDateKey(projection[0].dueDate)).toBe("2025-06-14");
+    });
+
+    it("should stop at the end of the projected months and sort by date", () => {
+      const projection = getRecurringRevenueProjection(
+        [
+          { ...retainer, frequency: "quarterly" },
+          {
+            frequency: "yearly",
+            startDate: "2024-06-01",
+            items: [{ amount: 500 }],
+            paymentTerms: "immediate",
+          },
+        ],
+        new Date("2025-04-20"),
+        3
+      );
+
+      expect(projection.map(({ issueDate }) => toDateKey(issueDate))).toEqual([
+        "2025-06-01",
+        "2025-07-15",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  buildReportDocument,
+  resolveReportPeriod,
+  resolveReportSections,
+  ReportCost,
+  ReportInvoice,
+} from "@/utils/reportCalculations";
+
+describe("Report Calculations Utils", () => {
+  const buildInvoice = (
+    number: string,
+    issueDate: string,
+    amount: number,
+    paymentDate?: string
+  ): ReportInvoice => ({
+    number,
+    issueDate: new Date(issueDate),
+    clientName: "Cliente Uno",
+    title: `Consulenza ${number}`,
+    amount,
+    paymentDate: paymentDate ? new Date(paymentDate) : undefined,
+    vat: { vatType: "standard", vatRate: 22 },
+    fiscalYear: new Date(issueDate).getFullYear(),
+  });
+
+  const buildCost = (date: string, amount: number): ReportCost => ({
+    description: "Software",
+    date: new Date(date),
+    amount,
+    deductible: true,
+    deductionPercentage: 100,
+  });
+
+  const range = {
+    startDate: new Date(2024, 0, 1),
+    endDate: new Date(2024, 2, 31, 23, 59, 59, 999),
+  };
+
+  const data = {
+    invoices: [
+      buildInvoice("1", "2024-01-15", 1000, "2024-02-10"),
+      buildInvoice("2", "2024-03-10", 2000),
+      buildInvoice("3", "2023-11-10", 500),
+    ],
+    costs: [buildCost("2024-02-05", 300), buildCost("2023-12-20", 100)],
+  };
+
+  const allOptions = {
+    includeCharts: true,
+    includeRawData: true,
+    includeAnalytics: true,
+    includeInsights: true,
+  };
+
+  describe("resolveReportPeriod", () => {
+    const now = new Date(2024, 5, 15, 10, 0, 0);
+
+    it("should go back one month for the month period", () => {
+      const { startDate, endDate } = resolveReportPeriod(
+        "month",
+        undefined,
+        undefined,
+        now
+      );
+
+      expect(startDate).toEqual(new Date(2024, 4, 15, 0, 0, 0, 0));
+      expect(endDate).toEqual(now);
+    });
+
+    it("should go back twelve months for the year period", () => {
+      const { startDate } = resolveReportPeriod(
+        "year",
+        undefined,
+        undefined,
+        now
+      );
+
+      expect(startDate).toEqual(new Date(2023, 5, 15, 0, 0, 0, 0));
+    });
+
+    it("should cover whole days for a custom period", () => {
+      const { startDate, endDate } = resolveReportPeriod(
+        "custom",
+        new Date(2024, 0, 1, 12),
+        new Date(2024, 0, 31, 12)
+      );
+
+      expect(startDate).toEqual(new Date(2024, 0, 1, 0, 0, 0, 0));
+      expect(endDate).toEqual(new Date(2024, 0, 31, 23, 59, 59, 999));
+    });
+
+    it("should reject a custom period without dates or with inverted dates", () => {
+      expect(() => resolveReportPeriod("custom")).toThrow();
+      expect(() =>
+        resolveReportPeriod(
+          "custom",
+          new Date(2024, 1, 1),
+          new Date(2024, 0, 1)
+        )
+      ).toThrow();
+    });
+  });
+
+  describe("resolveReportSections", () => {
+    it("should use the report type as the only section", () => {
+      expect(resolveReportSections("tax")).toEqual(["tax"]);
+    });
+
+    it("should use the requested sections for custom reports", () => {
+      expect(resolveReportSections("custom", ["kpi", "financial"])).toEqual([
+        "financial",
+        "kpi",
+      ]);
+    });
+
+    it("should fall back to all sections when none is valid", () => {
+      expect(resolveReportSections("custom", ["unknown"])).toEqual([
+        "financial",
+        "tax",
+        "cashflow",
+        "kpi",
+      ]);
+    });
+  });
+
+  describe("buildReportDocument", () => {
+    it("should only count invoices and costs of the range", () => {
+      const document = buildReportDocument(
+        { type: "financial", ...allOptions },
+        data,
+        range
+      );
+
+      const [section] = document.sections;
+      expect(section.key).toBe("financial");
+      expect(section.metrics.find((m) => m.label === "Ricavi")?.value).toBe(
+        3000
+      );
+      expect(section.metrics.find((m) => m.label === "Costi")?.value).toBe(300);
+      expect(section.tables[0].rows).toHaveLength(2);
+      expect(section.charts[0].labels).toHaveLength(3);
+    });
+
+    it("should net credit notes and leave drafts out of revenue and VAT", () => {
+      const document = buildReportDocument(
+        {
+          type: "custom",
+          customSections: ["financial", "tax", "kpi"],
+          ...allOptions,
+        },
+        {
+          invoices: [
+            ...data.invoices,
+            {
+              ...buildInvoice("NC1", "2024-03-20", 400),
+              documentType: "credit_note",
+            },
+            { ...buildInvoice("4", "2024-03-25", 700), status: "draft" },
+          ],
+          costs: data.costs,
+        },
+        range
+      );
+
+      const [financial, tax, kpi] = document.sections;
+      expect(financial.metrics.find((m) => m.label === "Ricavi")?.value).toBe(
+        2600
+      );
+      expect(
+        tax.metrics.find((m) => m.label === "IVA a debito")?.value
+      ).toBe(572);
+      expect(
+        kpi.metrics.find((m) => m.label === "Fatture emesse")?.value
+      ).toBe(2);
+    });
+
+    it("should drop charts, tables, analytics and insights when disabled", () => {
+      const document = buildReportDocument(
+        {
+          type: "custom",
+          includeCharts: false,
+          includeRawData: false,
+          includeAnalytics: false,
+          includeInsights: false,
+        },
+        data,
+        range
+      );
+
+      expect(document.sections).toHaveLength(4);
+      document.sections.forEach((section) => {
+        expect(section.metrics.length).toBeGreaterThan(0);
+        expect(section.charts).toEqual([]);
+        expect(section.tables).toEqual([]);
+      });
+      expect(document.analytics).toEqual([]);
+      expect(document.insights).toEqual([]);
+    });
+
+    it("should include analytics and insights when enabled", () => {
+      const document = buildReportDocument(
+        { type: "kpi", ...allOptions },
+        data,
+        range
+      );
+
+      expect(document.analytics.length).toBeGreaterThan(0);
+      expect(document.insights.length).toBeGreaterThan(0);
+    });
+  });
+});
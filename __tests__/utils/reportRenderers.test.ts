@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { renderReport } from "@/lib/reports";
+import {
+  ReportCost,
+  ReportInvoice,
+  buildReportDocument,
+} from "@/utils/reportCalculations";
+
+describe("Report Renderers", () => {
+  const invoices: ReportInvoice[] = [
+    {
+      number: "1",
+      issueDate: new Date(2024, 0, 15),
+      clientName: "Rossi; Bianchi",
+      title: 'Consulenza "gennaio"',
+      amount: 1000,
+      paymentDate: new Date(2024, 1, 10),
+      vat: { vatType: "standard", vatRate: 22 },
+      fiscalYear: 2024,
+    },
+  ];
+
+  const costs: ReportCost[] = [
+    {
+      description: "Software",
+      date: new Date(2024, 1, 5),
+      amount: 300,
+      deductible: true,
+      deductionPercentage: 100,
+    },
+  ];
+
+  const document = buildReportDocument(
+    {
+      type: "financial",
+      includeCharts: true,
+      includeRawData: true,
+      includeAnalytics: true,
+      includeInsights: true,
+    },
+    { invoices, costs },
+    {
+      startDate: new Date(2024, 0, 1),
+      endDate: new Date(2024, 2, 31, 23, 59, 59, 999),
+    },
+    new Date(2024, 3, 1)
+  );
+
+  describe("csv", () => {
+    const { content, mimeType, extension } = renderReport(document, "csv");
+    const lines = content.toString("utf-8").replace(/^\uFEFF/, "").split("\r\n");
+
+    it("should describe the file as UTF-8 CSV", () => {
+      expect(mimeType).toBe("text/csv; charset=utf-8");
+      expect(extension).toBe("csv");
+      expect(content.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+    });
+
+    it("should write the header, metrics and raw data separated by semicolons", () => {
+      expect(lines.slice(0, 3)).toEqual([
+        "# Report Finanziario",
+        "Periodo;01/01/2024 - 31/03/2024",
+        "Generato il;01/04/2024",
+      ]);
+      expect(lines).toContain("# Andamento Finanziario");
+      expect(lines).toContain("Ricavi;1000");
+      expect(lines).toContain("Costi;300");
+      expect(lines).toContain("Numero;Data;Cliente;Descrizione;Imponibile;IVA;Totale");
+    });
+
+    it("should quote cells holding separators or quotes", () => {
+      expect(lines).toContain(
+        '1;15/01/2024;"Rossi; Bianchi";"Consulenza ""gennaio""";1000;220;1220'
+      );
+    });
+  });
+
+  describe("pdf", () => {
+    const { content, mimeType, extension } = renderReport(document, "pdf");
+    const text = content.toString("latin1");
+
+    it("should produce a PDF file", () => {
+      expect(mimeType).toBe("application/pdf");
+      expect(extension).toBe("pdf");
+      expect(text.startsWith("%PDF-")).toBe(true);
+      expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    });
+
+    it("should write the title, period, sections and raw data", () => {
+      expect(text).toContain("(Report Finanziario) Tj");
+      expect(text).toContain("(Periodo: 01/01/2024 - 31/03/2024) Tj");
+      expect(text).toContain("(Andamento Finanziario) Tj");
+      expect(text).toContain("(Ricavi:) Tj");
+      expect(text).toContain("(Fatture) Tj");
+      expect(text).toContain("(Software) Tj");
+      expect(text).toContain("(Analytics) Tj");
+    });
+  });
+});
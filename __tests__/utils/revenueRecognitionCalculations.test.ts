@@ -0,0 +1,270 @@
+import {
+  calculateRecognizedRevenue,
+  calculateRecognizedRevenueInMonth,
+  filterInvoicesRecognizedInMonth,
+  filterInvoicesRecognizedInYear,
+  getRecognitionDate,
+  getRevenueRecognition,
+  splitInvoicesByReceipt,
+  InvoiceForRecognition,
+} from "@/utils/revenueRecognitionCalculations";
+
+describe("Revenue Recognition Calculations Utils", () => {
+  // Issued in December, paid in January
+  const decemberInvoice = {
+    id: "inv-1",
+    amount: 1000,
+    issueDate: new Date(2024, 11, 15),
+    paymentDate: new Date(2025, 0, 10),
+  };
+  const paidInvoice = {
+    id: "inv-2",
+    amount: 500,
+    issueDate: new Date(2025, 1, 3),
+    paymentDate: new Date(2025, 1, 20),
+  };
+  const unpaidInvoice = {
+    id: "inv-3",
+    amount: 300,
+    issueDate: new Date(2025, 2, 1),
+  };
+
+  describe("getRevenueRecognition", () => {
+    it("should use the cash basis for forfettari only", () => {
+      expect(getRevenueRecognition("forfettario")).toBe("cash");
+      expect(getRevenueRecognition("ordinario")).toBe("accrual");
+      expect(getRevenueRecognition(undefined)).toBe("accrual");
+    });
+  });
+
+  describe("getRecognitionDate", () => {
+    it("should recognize invoices when paid on the cash basis", () => {
+      expect(getRecognitionDate(decemberInvoice, "cash")).toEqual(
+        new Date(2025, 0, 10)
+      );
+      expect(getRecognitionDate(unpaidInvoice, "cash")).toBeNull();
+    });
+
+    it("should recognize invoices when issued on the accrual basis", () => {
+      expect(getRecognitionDate(decemberInvoice, "accrual")).toEqual(
+        new Date(2024, 11, 15)
+      );
+      expect(getRecognitionDate(unpaidInvoice, "accrual")).toEqual(
+        new Date(2025, 2, 1)
+      );
+    });
+
+    it("should never recognize drafts and cancelled invoices", () => {
+      expect(
+        getRecognitionDate({ ...unpaidInvoice, status: "draft" }, "accrual")
+      ).toBeNull();
+      expect(
+        getRecognitionDate({ ...decemberInvoice, status: "cancelled" }, "cash")
+      ).toBeNull();
+    });
+
+    it("should recognize credit notes with the payment of their original invoice", () => {
+      const creditNote = {
+        id: "nc-1",
+        amount: 200,
+        issueDate: new Date(2024, 11, 20),
+        documentType: "credit_note" as const,
+        originalInvoiceId: "inv-1",
+      };
+      const invoices = [decemberInvoice, creditNote];
+
+      expect(getRecognitionDate(creditNote, "cash", invoices)).toEqual(
+        new Date(2025, 0, 10)
+      );
+      expect(
+        getRecognitionDate(
+          { ...creditNote, issueDate: new Date(2025, 1, 1) },
+          "cash",
+          invoices
+        )
+      ).toEqual(new Date(2025, 1, 1));
+      expect(
+        getRecognitionDate(
+          { ...creditNote, paymentDate: new Date(2025, 2, 5) },
+          "cash",
+          invoices
+        )
+      ).toEqual(new Date(2025, 2, 5));
+      const unpaidCreditNote = { ...creditNote, originalInvoiceId: "inv-3" };
+      expect(
+        getRecognitionDate(unpaidCreditNote, "cash", [
+          { ...unpaidInvoice, documentType: "invoice" as const },
+          unpaidCreditNote,
+        ])
+      ).toBeNull();
+    });
+
+    it("should recognize credit notes with the last receipt of a partially paid original invoice", () => {
+      const partiallyPaidInvoice = {
+        id: "inv-4",
+        amount: 1000,
+        issueDate: new Date(2024, 10, 1),
+        status: "partially_paid" as const,
+        payments: [
+          { date: new Date(2025, 0, 20), amount: 300 },
+          { date: new Date(2024, 11, 10), amount: 200 },
+        ],
+      };
+      const creditNote = {
+        id: "nc-2",
+        amount: 500,
+        issueDate: new Date(2024, 11, 1),
+        documentType: "credit_note" as const,
+        originalInvoiceId: "inv-4",
+      };
+
+      expect(
+        getRecognitionDate(creditNote, "cash", [partiallyPaidInvoice, creditNote])
+      ).toEqual(new Date(2025, 0, 20));
+      expect(
+        getRecognitionDate(creditNote, "cash", [
+          { ...partiallyPaidInvoice, payments: [] },
+          creditNote,
+        ])
+      ).toBeNull();
+    });
+  });
+
+  describe("splitInvoicesByReceipt", () => {
+    // Paid in two instalments across the turn of the year
+    const instalmentInvoice = {
+      id: "inv-4",
+      amount: 1000,
+      issueDate: new Date(2024, 10, 20),
+      vat: { vatType: "standard" as const, vatRate: 22 },
+      pensionCharge: { type: "rivalsa_inps" as const, rate: 4, amount: 40 },
+      payments: [
+        { date: new Date(2025, 0, 15), amount: 380.64 },
+        { date: new Date(2024, 11, 10), amount: 888.16 },
+      ],
+    };
+
+    it("should split invoices across their receipt dates", () => {
+      const received = splitInvoicesByReceipt<InvoiceForRecognition>([
+        instalmentInvoice,
+        paidInvoice,
+      ]);
+
+      expect(
+        received.map(({ amount, pensionCharge, paymentDate }) => ({
+          amount,
+          pension: pensionCharge?.amount,
+          paymentDate,
+        }))
+      ).toEqual([
+        { amount: 700, pension: 28, paymentDate: new Date(2024, 11, 10) },
+        { amount: 300, pension: 12, paymentDate: new Date(2025, 0, 15) },
+        { amount: 500, pension: undefined, paymentDate: new Date(2025, 1, 20) },
+      ]);
+    });
+
+    it("should recognize each receipt in its year on the cash basis", () => {
+      expect(calculateRecognizedRevenue([instalmentInvoice], 2024, "cash")).toBe(728);
+      expect(calculateRecognizedRevenue([instalmentInvoice], 2025, "cash")).toBe(312);
+      expect(calculateRecognizedRevenue([instalmentInvoice], 2024, "accrual")).toBe(1040);
+    });
+
+    it("should count the portion received of partially paid invoices", () => {
+      const partiallyPaid = {
+        ...instalmentInvoice,
+        status: "partially_paid" as const,
+        payments: [instalmentInvoice.payments[1]],
+      };
+
+      expect(calculateRecognizedRevenue([partiallyPaid], 2024, "cash")).toBe(728);
+      expect(calculateRecognizedRevenue([partiallyPaid], 2025, "cash")).toBe(0);
+    });
+  });
+
+  describe("filterInvoicesRecognizedInYear", () => {
+    const invoices = [decemberInvoice, paidInvoice, unpaidInvoice];
+
+    it("should count invoices issued in December and paid in January in the year of payment", () => {
+      expect(filterInvoicesRecognizedInYear(invoices, 2024, "cash")).toEqual([]);
+      expect(
+        filterInvoicesRecognizedInYear(invoices, 2025, "cash").map((i) => i.id)
+      ).toEqual(["inv-1", "inv-2"]);
+    });
+
+    it("should count invoices in the year of issue on the accrual basis", () => {
+      expect(
+        filterInvoicesRecognizedInYear(invoices, 2024, "accrual").map((i) => i.id)
+      ).toEqual(["inv-1"]);
+      expect(
+        filterInvoicesRecognizedInYear(invoices, 2025, "accrual").map((i) => i.id)
+      ).toEqual(["inv-2", "inv-3"]);
+    });
+  });
+
+  describe("filterInvoicesRecognizedInMonth", () => {
+    it("should include the whole month", () => {
+      const invoices = [
+        { ...paidInvoice, paymentDate: new Date(2025, 1, 28, 18, 30) },
+        { ...unpaidInvoice, issueDate: new Date(2025, 1, 1) },
+      ];
+
+      expect(filterInvoicesRecognizedInMonth(invoices, 2, 2025, "cash")).toHaveLength(1);
+      expect(filterInvoicesRecognizedInMonth(invoices, 2, 2025, "accrual")).toHaveLength(2);
+      expect(filterInvoicesRecognizedInMonth(invoices, 3, 2025, "cash")).toHaveLength(0);
+    });
+  });
+
+  describe("calculateRecognizedRevenue", () => {
+    it("should sum the revenue recognized in the year net of credit notes", () => {
+      const invoices = [
+        decemberInvoice,
+        paidInvoice,
+        unpaidInvoice,
+        {
+          id: "nc-1",
+          amount: 200,
+          issueDate: new Date(2024, 11, 20),
+          documentType: "credit_note" as const,
+          originalInvoiceId: "inv-1",
+        },
+      ];
+
+      expect(calculateRecognizedRevenue(invoices, 2024, "cash")).toBe(0);
+      expect(calculateRecognizedRevenue(invoices, 2025, "cash")).toBe(1300);
+      expect(calculateRecognizedRevenue(invoices, 2024, "accrual")).toBe(800);
+      expect(calculateRecognizedRevenue(invoices, 2025, "accrual")).toBe(800);
+    });
+
+    it("should subtract credit notes from the revenue of their month", () => {
+      const invoices = [
+        paidInvoice,
+        {
+          id: "nc-2",
+          amount: 100,
+          issueDate: new Date(2025, 1, 25),
+          documentType: "credit_note" as const,
+          originalInvoiceId: "inv-2",
+        },
+      ];
+
+      expect(calculateRecognizedRevenueInMonth(invoices, 2, 2025, "cash")).toBe(400);
+      expect(calculateRecognizedRevenueInMonth(invoices, 2, 2025, "accrual")).toBe(400);
+      expect(calculateRecognizedRevenueInMonth(invoices, 3, 2025, "cash")).toBe(0);
+    });
+
+    it("should include the rivalsa INPS in the revenue", () => {
+      expect(
+        calculateRecognizedRevenue(
+          [
+            {
+              ...paidInvoice,
+              pensionCharge: { type: "rivalsa_inps", rate: 4, amount: 20 },
+            },
+          ],
+          2025,
+          "cash"
+        )
+      ).toBe(520);
+    });
+  });
+});
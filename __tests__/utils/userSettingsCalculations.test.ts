@@ -0,0 +1,49 @@
+import {
+  getStartupRateLastYear,
+  isStartupRateEligible,
+  resolveSubstituteRate,
+} from "@/utils/userSettingsCalculations";
+
+describe("User Settings Calculations Utils", () => {
+  const startDate = new Date(2021, 8, 15);
+
+  describe("getStartupRateLastYear", () => {
+    it("should cover the start year and the four following years", () => {
+      expect(getStartupRateLastYear(startDate)).toBe(2025);
+      expect(getStartupRateLastYear("2021-09-15T00:00:00.000Z")).toBe(2025);
+    });
+  });
+
+  describe("isStartupRateEligible", () => {
+    it("should apply from the start year to the fifth year", () => {
+      expect(isStartupRateEligible(startDate, 2021)).toBe(true);
+      expect(isStartupRateEligible(startDate, 2025)).toBe(true);
+    });
+
+    it("should not apply before the start or after the fifth year", () => {
+      expect(isStartupRateEligible(startDate, 2020)).toBe(false);
+      expect(isStartupRateEligible(startDate, 2026)).toBe(false);
+    });
+  });
+
+  describe("resolveSubstituteRate", () => {
+    it("should derive the rate from the activity start date", () => {
+      expect(resolveSubstituteRate({ activityStartDate: startDate }, 2024)).toBe(5);
+      expect(resolveSubstituteRate({ activityStartDate: startDate }, 2026)).toBe(15);
+    });
+
+    it("should ignore the stored rate when the start date is known", () => {
+      expect(
+        resolveSubstituteRate(
+          { substituteRate: 5, activityStartDate: startDate },
+          2026
+        )
+      ).toBe(15);
+    });
+
+    it("should fall back to the stored rate without a start date", () => {
+      expect(resolveSubstituteRate({ substituteRate: 5 }, 2030)).toBe(5);
+      expect(resolveSubstituteRate({ activityStartDate: null }, 2030)).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  calculateClientWithholdingTotals,
+  calculateWithheldTotal,
+  getWithheldInvoices,
+  reconcileWithholdingCertificates,
+} from "@/utils/withholdingCalculations";
+
+const paidInvoice = {
+  id: "inv-1",
+  amount: 1000,
+  clientName: "Acme S.r.l.",
+  clientId: "client-1",
+  paymentDate: new Date(2024, 1, 10),
+  withholding: { rate: 20, amount: 200 },
+};
+
+const invoices = [
+  paidInvoice,
+  {
+    id: "inv-2",
+    amount: 500,
+    clientName: "Beta S.p.A.",
+    paymentDate: new Date(2024, 5, 1),
+    withholding: { rate: 20, amount: 100 },
+  },
+  // Paid the following year: withheld in 2025
+  {
+    id: "inv-3",
+    amount: 800,
+    clientName: "Acme S.r.l.",
+    clientId: "client-1",
+    paymentDate: new Date(2025, 0, 15),
+    withholding: { rate: 20, amount: 160 },
+  },
+  // Not paid yet
+  {
+    id: "inv-4",
+    amount: 300,
+    clientName: "Beta S.p.A.",
+    withholding: { rate: 20, amount: 60 },
+  },
+  // No withholding tax
+  {
+    id: "inv-5",
+    amount: 400,
+    clientName: "Gamma",
+    paymentDate: new Date(2024, 2, 1),
+  },
+  {
+    id: "nc-1",
+    amount: 250,
+    clientName: "Acme S.r.l.",
+    clientId: "client-1",
+    withholding: { rate: 20, amount: 50 },
+    documentType: "credit_note" as const,
+    originalInvoiceId: "inv-1",
+  },
+];
+
+describe("Withholding Calculations Utils", () => {
+  describe("getWithheldInvoices", () => {
+    it("should keep invoices paid in the year and their credit notes", () => {
+      expect(getWithheldInvoices(invoices, 2024).map((invoice) => invoice.id)).toEqual([
+        "inv-1",
+        "inv-2",
+        "nc-1",
+      ]);
+      expect(getWithheldInvoices(invoices, 2025).map((invoice) => invoice.id)).toEqual([
+        "inv-3",
+      ]);
+    });
+  });
+
+  describe("calculateWithheldTotal", () => {
+    it("should sum the withholding of the year net of credit notes", () => {
+      expect(calculateWithheldTotal(invoices, 2024)).toBe(250);
+      expect(calculateWithheldTotal(invoices, 2025)).toBe(160);
+      expect(calculateWithheldTotal(invoices, 2023)).toBe(0);
+    });
+  });
+
+  describe("calculateClientWithholdingTotals", () => {
+    it("should total compensation and withholding by client", () => {
+      expect(calculateClientWithholdingTotals(invoices, 2024)).toEqual([
+        {
+          clientName: "Acme S.r.l.",
+          clientId: "client-1",
+          grossAmount: 750,
+          withheldAmount: 150,
+        },
+        {
+          clientName: "Beta S.p.A.",
+          clientId: null,
+          grossAmount: 500,
+          withheldAmount: 100,
+        },
+      ]);
+    });
+  });
+
+  describe("reconcileWithholdingCertificates", () => {
+    const expected = calculateClientWithholdingTotals(invoices, 2024);
+    const certificate = {
+      id: "cu-1",
+      year: 2024,
+      clientName: "ACME srl",
+      clientId: "client-1",
+      grossAmount: 750,
+      withheldAmount: 150,
+    };
+
+    it("should match certificates by client ID or name and compare the amounts", () => {
+      const result = reconcileWithholdingCertificates(expected, [
+        certificate,
+        {
+          ...certificate,
+          id: "cu-2",
+          clientName: "beta  s.p.a.",
+          clientId: null,
+          withheldAmount: 90,
+        },
+      ]);
+
+      expect(result.map(({ clientName, status }) => ({ clientName, status }))).toEqual([
+        { clientName: "Acme S.r.l.", status: "matched" },
+        { clientName: "Beta S.p.A.", status: "mismatch" },
+      ]);
+    });
+
+    it("should report missing and unexpected certificates", () => {
+      const result = reconcileWithholdingCertificates(expected, [
+        {
+          ...certificate,
+          id: "cu-3",
+          clientName: "Delta",
+          clientId: "client-9",
+        },
+      ]);
+
+      expect(result.map(({ clientName, status }) => ({ clientName, status }))).toEqual([
+        { clientName: "Acme S.r.l.", status: "missing" },
+        { clientName: "Beta S.p.A.", status: "missing" },
+        { clientName: "Delta", status: "unexpected" },
+      ]);
+      expect(result[2].expected).toBeNull();
+    });
+  });
+});
@@ -11,6 +11,7 @@ import { SignInCredentials, ApiResponse, AuthResponse } from "@/types";
 import { compareUserPassword } from "@/utils/userCalculations";
 import { authRateLimiter, getClientIP } from "@/lib/rateLimiter";
 import { accountLockout } from "@/lib/accountLockout";
+import { generateDueRecurringCosts } from "@/utils/recurringCostQueries";
 
 /**
  * POST /api/auth/login
@@ -116,6 +117,14 @@ export async function POST(
     // Clear any existing failed attempts on successful login
     accountLockout.clearFailedAttempts(validatedData.email);
 
+    // Catch up on recurring costs due since the last scheduled run,
+    // without failing the login
+    try {
+      await generateDueRecurringCosts(new Date(), user._id.toString());
+    } catch (error) {
+      console.error("Recurring costs generation error:", error);
+    }
+
     // Generate JWT token
     const token = generateToken(user._id.toString(), user.email);
 
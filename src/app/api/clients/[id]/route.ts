@@ -0,0 +1,297 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  clientSchema,
+  clientIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  findClientByIdForUser,
+  updateClientForUser,
+  deleteClientForUser,
+} from "@/utils/clientQueries";
+import {
+  ApiResponse,
+  IClient,
+  ClientRequest,
+  ClientResponse,
+} from "@/types";
+
+/**
+ * Helper function to format client data for response
+ * Pure function - follows functional programming principles
+ */
+const formatClientResponse = (client: IClient): ClientResponse => ({
+  id: client._id?.toString() || "unknown",
+  name: client.name,
+  vatNumber: client.vatNumber,
+  taxCode: client.taxCode,
+  address: client.address,
+  pec: client.pec,
+  sdiCode: client.sdiCode,
+  defaultPaymentTerms: client.defaultPaymentTerms,
+  defaultVat: client.defaultVat,
+  createdAt: client.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: client.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/clients/[id]
+ * Get a client of the authenticated user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<ClientResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate client ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(clientIdParamSchema, resolvedParams);
+
+    const client = await findClientByIdForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cliente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: formatClientResponse(client),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get client error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID cliente non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/clients/[id]
+ * Update a client of the authenticated user
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<ClientResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate client ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(clientIdParamSchema, resolvedParams);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: ClientRequest = validateSchema(clientSchema, body);
+
+    const client = await updateClientForUser(
+      validatedParams.id,
+      userData.userId,
+      validatedData
+    );
+
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cliente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Cliente aggiornato con successo",
+        data: formatClientResponse(client),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update client error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati del cliente non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle duplicate client names
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Esiste già un cliente con questo nome",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del cliente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/clients/[id]
+ * Delete a client of the authenticated user
+ * Its invoices keep the client name and are unlinked
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate client ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(clientIdParamSchema, resolvedParams);
+
+    const client = await deleteClientForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cliente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Cliente eliminato con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete client error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID cliente non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  clientSchema,
+} from "@/lib/validations/schemas";
+import {
+  findClientsByUser,
+  createClientForUser,
+} from "@/utils/clientQueries";
+import {
+  ApiResponse,
+  IClient,
+  ClientRequest,
+  ClientResponse,
+} from "@/types";
+
+/**
+ * Helper function to format client data for response
+ * Pure function - follows functional programming principles
+ */
+const formatClientResponse = (client: IClient): ClientResponse => ({
+  id: client._id?.toString() || "unknown",
+  name: client.name,
+  vatNumber: client.vatNumber,
+  taxCode: client.taxCode,
+  address: client.address,
+  pec: client.pec,
+  sdiCode: client.sdiCode,
+  defaultPaymentTerms: client.defaultPaymentTerms,
+  defaultVat: client.defaultVat,
+  createdAt: client.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: client.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/clients
+ * Get the client registry of the authenticated user
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ClientResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const clients = await findClientsByUser(userData.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: clients.map(formatClientResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get clients error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/clients
+ * Create a client for the authenticated user
+ * Existing invoices issued to the same name are linked to it
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ClientResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: ClientRequest = validateSchema(clientSchema, body);
+
+    const client = await createClientForUser(userData.userId, validatedData);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Cliente creato con successo",
+        data: formatClientResponse(client),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create client error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati del cliente non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle duplicate client names
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Esiste già un cliente con questo nome",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del cliente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  contributionYearParamSchema,
+} from "@/lib/validations/schemas";
+import { findPreviousYearContribution } from "@/utils/contributionQueries";
+import { ApiResponse, PreviousYearContributionResponse } from "@/types";
+
+/**
+ * GET /api/contributions/previous-year/[year]
+ * Get the contributions paid by the authenticated user in a year
+ * Returns a zero amount when nothing has been recorded for that year
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<PreviousYearContributionResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      contributionYearParamSchema,
+      resolvedParams
+    );
+    const year = parseInt(validatedParams.year);
+
+    const contribution = await findPreviousYearContribution(
+      userData.userId,
+      year
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          year,
+          amount: contribution?.amount ?? 0,
+          updatedAt: contribution?.updatedAt?.toISOString(),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get previous year contribution error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
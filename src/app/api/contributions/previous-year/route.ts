@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  previousYearContributionSchema,
+} from "@/lib/validations/schemas";
+import {
+  findPreviousYearContributionsByUserId,
+  upsertPreviousYearContribution,
+} from "@/utils/contributionQueries";
+import {
+  ApiResponse,
+  IPreviousYearContribution,
+  PreviousYearContributionRequest,
+  PreviousYearContributionResponse,
+} from "@/types";
+
+/**
+ * Helper function to format contribution ledger data for response
+ * Pure function - follows functional programming principles
+ */
+const formatContributionResponse = (
+  contribution: IPreviousYearContribution
+): PreviousYearContributionResponse => ({
+  year: contribution.year,
+  amount: contribution.amount,
+  updatedAt: contribution.updatedAt?.toISOString(),
+});
+
+/**
+ * GET /api/contributions/previous-year
+ * Get the contribution ledger of the authenticated user
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PreviousYearContributionResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const contributions = await findPreviousYearContributionsByUserId(
+      userData.userId
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: contributions.map(formatContributionResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get previous year contributions error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contributions/previous-year
+ * Record the contributions paid by the authenticated user in a year
+ * Replaces any amount already recorded for that year
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PreviousYearContributionResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: PreviousYearContributionRequest = validateSchema(
+      previousYearContributionSchema,
+      body
+    );
+
+    const contribution = await upsertPreviousYearContribution(
+      userData.userId,
+      validatedData.year,
+      validatedData.amount
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Contributi registrati con successo",
+        data: formatContributionResponse(contribution),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Save previous year contribution error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati dei contributi non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione dei contributi",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  costCategorySchema,
+  costCategoryIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  updateUserCostCategory,
+  deleteUserCostCategory,
+} from "@/utils/costCategoryQueries";
+import {
+  ApiResponse,
+  ICostCategory,
+  CostCategoryRequest,
+  CostCategoryResponse,
+} from "@/types";
+
+/**
+ * Helper function to format cost category data for response
+ * Pure function - follows functional programming principles
+ */
+const formatCostCategoryResponse = (
+  category: ICostCategory
+): CostCategoryResponse => ({
+  id: category._id?.toString() || "unknown",
+  name: category.name,
+  code: category.code,
+  isSystem: category.isSystem,
+});
+
+/**
+ * PUT /api/cost-categories/[id]
+ * Rename a custom category of the authenticated user
+ * System categories cannot be modified
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<CostCategoryResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate category ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      costCategoryIdParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: CostCategoryRequest = validateSchema(
+      costCategorySchema,
+      body
+    );
+
+    const category = await updateUserCostCategory(
+      validatedParams.id,
+      userData.userId,
+      validatedData.name
+    );
+
+    if (!category) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Categoria aggiornata con successo",
+        data: formatCostCategoryResponse(category),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update cost category error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati della categoria non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle duplicate category names
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Esiste già una categoria con questo nome",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della categoria",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cost-categories/[id]
+ * Delete a custom category of the authenticated user
+ * Costs assigned to it become uncategorized
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate category ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      costCategoryIdParamSchema,
+      resolvedParams
+    );
+
+    const category = await deleteUserCostCategory(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!category) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Categoria eliminata con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete cost category error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID categoria non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
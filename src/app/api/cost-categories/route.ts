@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  costCategorySchema,
+} from "@/lib/validations/schemas";
+import {
+  findCostCategoriesForUser,
+  createUserCostCategory,
+} from "@/utils/costCategoryQueries";
+import {
+  ApiResponse,
+  ICostCategory,
+  CostCategoryRequest,
+  CostCategoryResponse,
+} from "@/types";
+
+/**
+ * Helper function to format cost category data for response
+ * Pure function - follows functional programming principles
+ */
+const formatCostCategoryResponse = (
+  category: ICostCategory
+): CostCategoryResponse => ({
+  id: category._id?.toString() || "unknown",
+  name: category.name,
+  code: category.code,
+  isSystem: category.isSystem,
+});
+
+/**
+ * GET /api/cost-categories
+ * Get the system categories plus the authenticated user's own categories
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<CostCategoryResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const categories = await findCostCategoriesForUser(userData.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: categories.map(formatCostCategoryResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get cost categories error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cost-categories
+ * Create a custom category for the authenticated user
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<CostCategoryResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: CostCategoryRequest = validateSchema(
+      costCategorySchema,
+      body
+    );
+
+    const category = await createUserCostCategory(
+      userData.userId,
+      validatedData.name
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Categoria creata con successo",
+        data: formatCostCategoryResponse(category),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create cost category error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati della categoria non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle duplicate category names
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Esiste già una categoria con questo nome",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della categoria",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ import {
   costUpdateSchema,
   costIdParamSchema,
 } from "@/lib/validations/schemas";
+import { findCostCategoryForUser } from "@/utils/costCategoryQueries";
 import { CostUpdateRequest, CostResponse, ApiResponse, RawCost } from "@/types";
 
 /**
@@ -19,6 +20,14 @@ const formatCostResponse = (cost: RawCost): CostResponse => ({
   description: cost.description,
   date: cost.date.toISOString(),
   amount: cost.amount,
+  deductible: cost.deductible ?? true,
+  deductionPercentage: cost.deductionPercentage ?? 100,
+  categoryId: cost.categoryId ? cost.categoryId.toString() : null,
+  supplierName: cost.supplierName,
+  documentNumber: cost.documentNumber,
+  recurringCostId: cost.recurringCostId
+    ? cost.recurringCostId.toString()
+    : null,
   createdAt: cost.createdAt?.toISOString() || new Date().toISOString(),
   updatedAt: cost.updatedAt?.toISOString() || new Date().toISOString(),
 });
@@ -135,6 +144,20 @@ export async function PUT(
       body
     );
 
+    // Make sure the category is a system category or one of the user's own
+    if (
+      validatedData.categoryId &&
+      !(await findCostCategoryForUser(validatedData.categoryId, userData.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 400 }
+      );
+    }
+
     // Prepare update data - only include provided fields
     const updateData: Partial<CostUpdateRequest> = {};
     if (validatedData.description !== undefined) {
@@ -146,6 +169,15 @@ export async function PUT(
     if (validatedData.amount !== undefined) {
       updateData.amount = validatedData.amount;
     }
+    if (validatedData.deductible !== undefined) {
+      updateData.deductible = validatedData.deductible;
+    }
+    if (validatedData.deductionPercentage !== undefined) {
+      updateData.deductionPercentage = validatedData.deductionPercentage;
+    }
+    if (validatedData.categoryId !== undefined) {
+      updateData.categoryId = validatedData.categoryId;
+    }
 
     // Update cost
     const cost = await Cost.findOneAndUpdate(
@@ -0,0 +1,316 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringCostUpdateSchema,
+  recurringCostIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  deleteRecurringCostForUser,
+  findRecurringCostByIdForUser,
+  updateRecurringCostForUser,
+} from "@/utils/recurringCostQueries";
+import { findCostCategoryForUser } from "@/utils/costCategoryQueries";
+import {
+  ApiResponse,
+  IRecurringCost,
+  RecurringCostResponse,
+  RecurringCostUpdateRequest,
+} from "@/types";
+
+/**
+ * Helper function to format recurring cost data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringCostResponse = (
+  series: IRecurringCost
+): RecurringCostResponse => ({
+  id: series._id?.toString() || "unknown",
+  description: series.description,
+  amount: series.amount,
+  deductible: series.deductible ?? true,
+  deductionPercentage: series.deductionPercentage ?? 100,
+  categoryId: series.categoryId ? series.categoryId.toString() : null,
+  frequency: series.frequency,
+  startDate: series.startDate.toISOString(),
+  endDate: series.endDate ? series.endDate.toISOString() : null,
+  skippedDates: (series.skippedDates ?? []).map((date) => date.toISOString()),
+  generatedUntil: series.generatedUntil
+    ? series.generatedUntil.toISOString()
+    : null,
+  createdAt: series.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: series.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/costs/recurring/[id]
+ * Get a recurring cost series of the authenticated user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<RecurringCostResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate series ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringCostIdParamSchema,
+      resolvedParams
+    );
+
+    const series = await findRecurringCostByIdForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!series) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Costo ricorrente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: formatRecurringCostResponse(series),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get recurring cost error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID costo ricorrente non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/costs/recurring/[id]
+ * Update a recurring cost series of the authenticated user
+ * Costs already generated are left unchanged
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<RecurringCostResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate series ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringCostIdParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: RecurringCostUpdateRequest = validateSchema(
+      recurringCostUpdateSchema,
+      body
+    );
+
+    // Make sure the category is a system category or one of the user's own
+    if (
+      validatedData.categoryId &&
+      !(await findCostCategoryForUser(validatedData.categoryId, userData.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 400 }
+      );
+    }
+
+    const series = await updateRecurringCostForUser(
+      validatedParams.id,
+      userData.userId,
+      validatedData
+    );
+
+    if (!series) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Costo ricorrente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Costo ricorrente aggiornato con successo",
+        data: formatRecurringCostResponse(series),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update recurring cost error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati di aggiornamento non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del costo ricorrente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/costs/recurring/[id]
+ * Delete a recurring cost series of the authenticated user
+ * Its generated costs are kept as one-off costs
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate series ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringCostIdParamSchema,
+      resolvedParams
+    );
+
+    const series = await deleteRecurringCostForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!series) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Costo ricorrente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Costo ricorrente eliminato con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete recurring cost error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID costo ricorrente non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
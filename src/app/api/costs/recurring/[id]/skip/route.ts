@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringCostSkipSchema,
+  recurringCostIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  findRecurringCostByIdForUser,
+  setOccurrenceSkipped,
+} from "@/utils/recurringCostQueries";
+import { isPendingOccurrence } from "@/utils/recurringCostCalculations";
+import { ApiResponse, IRecurringCost, RecurringCostResponse } from "@/types";
+
+/**
+ * Helper function to format recurring cost data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringCostResponse = (
+  series: IRecurringCost
+): RecurringCostResponse => ({
+  id: series._id?.toString() || "unknown",
+  description: series.description,
+  amount: series.amount,
+  deductible: series.deductible ?? true,
+  deductionPercentage: series.deductionPercentage ?? 100,
+  categoryId: series.categoryId ? series.categoryId.toString() : null,
+  frequency: series.frequency,
+  startDate: series.startDate.toISOString(),
+  endDate: series.endDate ? series.endDate.toISOString() : null,
+  skippedDates: (series.skippedDates ?? []).map((date) => date.toISOString()),
+  generatedUntil: series.generatedUntil
+    ? series.generatedUntil.toISOString()
+    : null,
+  createdAt: series.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: series.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * POST /api/costs/recurring/[id]/skip
+ * Skip an upcoming occurrence of a series, or restore it with skipped false
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<RecurringCostResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate series ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringCostIdParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateSchema(recurringCostSkipSchema, body);
+
+    const series = await findRecurringCostByIdForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!series) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Costo ricorrente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    // Generated occurrences are costs, to be deleted from the list instead
+    if (!isPendingOccurrence(series, validatedData.date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "La data non è una scadenza futura del costo ricorrente",
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setOccurrenceSkipped(
+      validatedParams.id,
+      userData.userId,
+      new Date(validatedData.date),
+      validatedData.skipped
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Costo ricorrente non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: validatedData.skipped
+          ? "Scadenza saltata"
+          : "Scadenza ripristinata",
+        data: formatRecurringCostResponse(updated),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Skip recurring cost error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { generateDueRecurringCosts } from "@/utils/recurringCostQueries";
+import { ApiResponse } from "@/types";
+
+/**
+ * GET /api/costs/recurring/generate
+ * Generate the due occurrences of every recurring cost series
+ * Called daily by the Vercel cron job, authenticated with CRON_SECRET
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ created: number }>>> {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (
+      !cronSecret ||
+      request.headers.get("authorization") !== `Bearer ${cronSecret}`
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Non autorizzato",
+        },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const created = await generateDueRecurringCosts();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { created },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Generate recurring costs error:", error);
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
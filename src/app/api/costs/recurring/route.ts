@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringCostCreateSchema,
+} from "@/lib/validations/schemas";
+import {
+  createRecurringCostForUser,
+  findRecurringCostsByUserId,
+} from "@/utils/recurringCostQueries";
+import { findCostCategoryForUser } from "@/utils/costCategoryQueries";
+import {
+  ApiResponse,
+  IRecurringCost,
+  RecurringCostCreateRequest,
+  RecurringCostResponse,
+} from "@/types";
+
+/**
+ * Helper function to format recurring cost data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringCostResponse = (
+  series: IRecurringCost
+): RecurringCostResponse => ({
+  id: series._id?.toString() || "unknown",
+  description: series.description,
+  amount: series.amount,
+  deductible: series.deductible ?? true,
+  deductionPercentage: series.deductionPercentage ?? 100,
+  categoryId: series.categoryId ? series.categoryId.toString() : null,
+  frequency: series.frequency,
+  startDate: series.startDate.toISOString(),
+  endDate: series.endDate ? series.endDate.toISOString() : null,
+  skippedDates: (series.skippedDates ?? []).map((date) => date.toISOString()),
+  generatedUntil: series.generatedUntil
+    ? series.generatedUntil.toISOString()
+    : null,
+  createdAt: series.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: series.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/costs/recurring
+ * Get the recurring cost series of the authenticated user
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RecurringCostResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const series = await findRecurringCostsByUserId(userData.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: series.map(formatRecurringCostResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get recurring costs error:", error);
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/costs/recurring
+ * Create a recurring cost series for the authenticated user
+ * Occurrences already due are generated right away
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RecurringCostResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: RecurringCostCreateRequest = validateSchema(
+      recurringCostCreateSchema,
+      body
+    );
+
+    // Make sure the category is a system category or one of the user's own
+    if (
+      validatedData.categoryId &&
+      !(await findCostCategoryForUser(validatedData.categoryId, userData.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 400 }
+      );
+    }
+
+    const series = await createRecurringCostForUser(
+      userData.userId,
+      validatedData
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Costo ricorrente creato con successo",
+        data: formatRecurringCostResponse(series),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create recurring cost error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati del costo ricorrente non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del costo ricorrente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
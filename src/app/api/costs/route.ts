@@ -9,7 +9,9 @@ import {
   costCreateSchema,
   costQuerySchema,
 } from "@/lib/validations/schemas";
-import { findCostsByUserAndYear, findCostsByUserId } from "@/utils/costQueries";import { CostCreateRequest, CostResponse, ApiResponse, ICost } from "@/types";
+import { findCostsByUserAndYear, findCostsByUserId } from "@/utils/costQueries";
+import { findCostCategoryForUser } from "@/utils/costCategoryQueries";
+import { CostCreateRequest, CostResponse, ApiResponse, ICost } from "@/types";
 import { Document } from "mongoose";
 
 /**
@@ -21,6 +23,14 @@ const formatCostResponse = (cost: Document & ICost): CostResponse => ({
   description: cost.description,
   date: cost.date.toISOString(),
   amount: cost.amount,
+  deductible: cost.deductible ?? true,
+  deductionPercentage: cost.deductionPercentage ?? 100,
+  categoryId: cost.categoryId ? cost.categoryId.toString() : null,
+  supplierName: cost.supplierName,
+  documentNumber: cost.documentNumber,
+  recurringCostId: cost.recurringCostId
+    ? cost.recurringCostId.toString()
+    : null,
   createdAt: cost.createdAt?.toISOString() || new Date().toISOString(),
   updatedAt: cost.updatedAt?.toISOString() || new Date().toISOString(),
 });
@@ -150,12 +160,29 @@ export async function POST(
       body
     );
 
+    // Make sure the category is a system category or one of the user's own
+    if (
+      validatedData.categoryId &&
+      !(await findCostCategoryForUser(validatedData.categoryId, userData.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Categoria non trovata",
+        },
+        { status: 400 }
+      );
+    }
+
     // Create new cost
     const cost = new Cost({
       userId: userData.userId,
       description: validatedData.description,
       date: new Date(validatedData.date),
       amount: validatedData.amount,
+      deductible: validatedData.deductible,
+      deductionPercentage: validatedData.deductionPercentage,
+      categoryId: validatedData.categoryId ?? null,
     });
 
     await cost.save();
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import { expandFatturaPaUploads } from "@/lib/fatturapa/xmlReader";
+import { findFiscalProfileByUser } from "@/utils/fiscalProfileQueries";
+import { findSettingsByUserId } from "@/utils/userSettingsQueries";
+import { importFatturaPaFiles } from "@/utils/fatturaPaImportQueries";
+import { ApiResponse, FatturaPaImportReport } from "@/types";
+
+/**
+ * FatturaPA Import API Route
+ * Records uploaded FatturaPA files as invoices and costs
+ */
+
+/**
+ * Largest upload accepted for a single file or zip archive
+ */
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Largest import request and number of files it may carry
+ */
+const MAX_REQUEST_SIZE = 50 * 1024 * 1024;
+const MAX_UPLOAD_FILES = 50;
+
+/**
+ * POST /api/fatturapa/import
+ * Import XML files or zip archives sent as multipart "files" fields
+ * Issued invoices become invoices, received ones become costs
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<FatturaPaImportReport>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Refuse oversized requests before the body is read
+    const contentLength = Number(request.headers.get("content-length"));
+    if (!contentLength || contentLength > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Il caricamento non può superare 50 MB in totale",
+        },
+        { status: 413 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Richiesta di caricamento non valida" },
+        { status: 400 }
+      );
+    }
+
+    const files = formData
+      .getAll("files")
+      .filter((entry): entry is File => typeof entry !== "string");
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "Nessun file da importare" },
+        { status: 400 }
+      );
+    }
+    if (files.length > MAX_UPLOAD_FILES) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Puoi importare al massimo ${MAX_UPLOAD_FILES} file alla volta`,
+        },
+        { status: 400 }
+      );
+    }
+    if (files.some((file) => file.size > MAX_UPLOAD_SIZE)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "I file non possono superare 10 MB",
+        },
+        { status: 400 }
+      );
+    }
+
+    const [profile, settings] = await Promise.all([
+      findFiscalProfileByUser(userData.userId),
+      findSettingsByUserId(userData.userId),
+    ]);
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Completa i dati fiscali nelle impostazioni per importare le fatture",
+        },
+        { status: 400 }
+      );
+    }
+
+    const uploads = await Promise.all(
+      files.map(async (file) => ({
+        fileName: file.name,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      }))
+    );
+
+    const report = await importFatturaPaFiles(expandFatturaPaUploads(uploads), {
+      userId: userData.userId,
+      vatNumber: profile.vatNumber,
+      taxRegime: settings?.taxRegime ?? "forfettario",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Importazione completata",
+      data: report,
+    });
+  } catch (error) {
+    console.error("Import FatturaPA error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  fiscalProfileSchema,
+} from "@/lib/validations/schemas";
+import {
+  findFiscalProfileByUser,
+  saveFiscalProfileForUser,
+} from "@/utils/fiscalProfileQueries";
+import {
+  ApiResponse,
+  IFiscalProfile,
+  FiscalProfileRequest,
+  FiscalProfileResponse,
+} from "@/types";
+
+/**
+ * Helper function to format fiscal profile data for response
+ * Pure function - follows functional programming principles
+ */
+const formatFiscalProfileResponse = (
+  profile: IFiscalProfile
+): FiscalProfileResponse => ({
+  firstName: profile.firstName,
+  lastName: profile.lastName,
+  companyName: profile.companyName,
+  vatNumber: profile.vatNumber,
+  taxCode: profile.taxCode,
+  address: profile.address,
+  pec: profile.pec,
+  iban: profile.iban,
+  updatedAt: profile.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/fiscal-profile
+ * Get the fiscal profile of the authenticated user, null when not yet set
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<FiscalProfileResponse | null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const profile = await findFiscalProfileByUser(userData.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: profile ? formatFiscalProfileResponse(profile) : null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get fiscal profile error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/fiscal-profile
+ * Create or replace the fiscal profile of the authenticated user
+ */
+export async function PUT(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<FiscalProfileResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: FiscalProfileRequest = validateSchema(
+      fiscalProfileSchema,
+      body
+    );
+
+    const profile = await saveFiscalProfileForUser(
+      userData.userId,
+      validatedData
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Dati fiscali salvati con successo",
+        data: formatFiscalProfileResponse(profile),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Save fiscal profile error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati fiscali non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione dei dati fiscali",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  forfettarioMonitorYearParamSchema,
+} from "@/lib/validations/schemas";
+import { findCostsByUserAndYear } from "@/utils/costQueries";
+import { findInvoicesForRecognitionYear } from "@/utils/invoiceQueries";
+import { findIrpefRatesInForce } from "@/utils/irpefRateQueries";
+import { findSettingsByUserId } from "@/utils/userSettingsQueries";
+import {
+  getDefaultSettings,
+  resolveSubstituteRate,
+} from "@/utils/userSettingsCalculations";
+import { calculateRecognizedRevenue } from "@/utils/revenueRecognitionCalculations";
+import {
+  evaluateRevenueCeiling,
+  projectYearEndAmount,
+  simulateRegimeExit,
+} from "@/utils/forfettarioCalculations";
+import { ApiResponse, ForfettarioMonitorResult } from "@/types";
+
+/**
+ * GET /api/forfettario/monitor/[year]
+ * Project the year-end revenue of the authenticated user against the
+ * forfettario ceilings and simulate the following year under both regimes
+ * Revenue is taken from the invoices paid in the year (principio di cassa)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<ForfettarioMonitorResult>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      forfettarioMonitorYearParamSchema,
+      resolvedParams
+    );
+    const year = parseInt(validatedParams.year);
+
+    const settings =
+      (await findSettingsByUserId(userData.userId)) ||
+      getDefaultSettings(userData.userId);
+
+    if (settings.taxRegime !== "forfettario") {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Il monitoraggio dei limiti è disponibile solo per il regime forfettario",
+        },
+        { status: 400 }
+      );
+    }
+
+    const [invoices, costs, irpefRates] = await Promise.all([
+      findInvoicesForRecognitionYear(userData.userId, year, "cash"),
+      findCostsByUserAndYear(userData.userId, year),
+      findIrpefRatesInForce(year + 1),
+    ]);
+
+    // The ceiling applies to the revenue received in the year
+    const now = new Date();
+    const projection = evaluateRevenueCeiling(
+      year,
+      calculateRecognizedRevenue(invoices, year, "cash"),
+      settings.revenueAlertThresholds,
+      now
+    );
+
+    // Simulate the following year with this year's projected figures
+    const simulation = simulateRegimeExit(
+      {
+        year: year + 1,
+        revenue: projection.projectedRevenue,
+        costs: costs.map((cost) => ({
+          amount: projectYearEndAmount(cost.amount, year, now),
+          deductible: cost.deductible,
+          deductionPercentage: cost.deductionPercentage,
+        })),
+        profitabilityRate: settings.profitabilityRate || 0,
+        substituteRate: resolveSubstituteRate(settings, year + 1),
+        contributionRate: settings.manualContributionRate || 0,
+        fixedAnnualContributions: settings.manualFixedAnnualContributions,
+        regionalSurchargeRate: settings.regionalSurchargeRate,
+        municipalSurchargeRate: settings.municipalSurchargeRate,
+      },
+      irpefRates.length > 0 ? irpefRates : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { projection, simulation },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Forfettario monitor error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { requireSuperAdmin } from "@/lib/auth/authorization";
+import {
+  findInpsParametersInForce,
+  updateInpsParametersByYear,
+  deleteInpsParametersByYear,
+} from "@/utils/inpsParametersQueries";
+import {
+  validateSchema,
+  isValidationError,
+  inpsParametersUpdateSchema,
+  inpsParametersYearParamSchema,
+} from "@/lib/validations/schemas";
+import { getDefaultInpsParameters } from "@/utils/inpsCalculations";
+import { ApiResponse, IInpsParameters } from "@/types";
+import { InpsParameters } from "@/services/inpsService";
+
+/**
+ * Helper function to format INPS parameters response
+ * Pure function - follows functional programming principles
+ */
+const formatInpsParametersResponse = (
+  parameters: IInpsParameters,
+  year: number = parameters.year
+): InpsParameters => ({
+  year,
+  rates: parameters.rates.map(({ type, description, rate }) => ({
+    type,
+    description,
+    rate,
+  })),
+  maxIncome: parameters.maxIncome,
+  minIncome: parameters.minIncome,
+  minContributions: { ...parameters.minContributions },
+});
+
+/**
+ * GET /api/inps/parameters/[year]
+ * Get the INPS parameters in force for a specific year
+ * Falls back to the closest earlier configured year, then to the defaults
+ * Public endpoint - no authentication required for reading parameters
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<InpsParameters>>> {
+  try {
+    await connectDB();
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      inpsParametersYearParamSchema,
+      resolvedParams
+    );
+    const year = parseInt(validatedParams.year);
+
+    const parameters = await findInpsParametersInForce(year);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: parameters
+          ? formatInpsParametersResponse(parameters, year)
+          : getDefaultInpsParameters(year),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get INPS parameters by year error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/inps/parameters/[year]
+ * Update the INPS parameters of a specific year
+ * Requires super admin role
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<InpsParameters>>> {
+  try {
+    // Verify super admin authentication
+    const authResult = await requireSuperAdmin(request);
+    if (!authResult.success || !authResult.user) {
+      return authResult.response as NextResponse<ApiResponse<InpsParameters>>;
+    }
+
+    await connectDB();
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      inpsParametersYearParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateSchema(inpsParametersUpdateSchema, body);
+
+    const parameters = await updateInpsParametersByYear(
+      parseInt(validatedParams.year),
+      validatedData
+    );
+
+    if (!parameters) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Parametri INPS non trovati per l'anno richiesto",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Parametri INPS aggiornati con successo",
+        data: formatInpsParametersResponse(parameters),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update INPS parameters error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Parametri INPS non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione dei parametri INPS",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/inps/parameters/[year]
+ * Delete the INPS parameters of a specific year
+ * Requires super admin role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    // Verify super admin authentication
+    const authResult = await requireSuperAdmin(request);
+    if (!authResult.success || !authResult.user) {
+      return authResult.response as NextResponse<ApiResponse>;
+    }
+
+    await connectDB();
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      inpsParametersYearParamSchema,
+      resolvedParams
+    );
+
+    const deleted = await deleteInpsParametersByYear(
+      parseInt(validatedParams.year)
+    );
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Parametri INPS non trovati per l'anno richiesto",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Parametri INPS eliminati con successo",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete INPS parameters error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,32 @@
 import { NextResponse } from "next/server";
-import { DEFAULT_INPS_PARAMETERS } from "@/services/inpsService";
+import { connectDB } from "@/lib/database/mongodb";
+import { findInpsParametersInForce } from "@/utils/inpsParametersQueries";
+import { getDefaultInpsParameters } from "@/utils/inpsCalculations";
 
 /**
  * GET /api/inps/parameters/current - Get current INPS parameters
- * Returns default INPS parameters for the current year
+ * Returns the parameters in force for the current year,
+ * or the default parameters when none are stored
  */
 export async function GET() {
   try {
-    // For now, return default parameters
-    // In a real application, this would fetch current year parameters from a database
+    await connectDB();
+
     const currentYear = new Date().getFullYear();
-    const parameters = {
-      ...DEFAULT_INPS_PARAMETERS,
-      year: currentYear,
-    };
+    const stored = await findInpsParametersInForce(currentYear);
+    const parameters = stored
+      ? {
+          year: currentYear,
+          rates: stored.rates.map(({ type, description, rate }) => ({
+            type,
+            description,
+            rate,
+          })),
+          maxIncome: stored.maxIncome,
+          minIncome: stored.minIncome,
+          minContributions: { ...stored.minContributions },
+        }
+      : getDefaultInpsParameters(currentYear);
 
     return NextResponse.json({
       success: true,
@@ -29,4 +42,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { requireSuperAdmin } from "@/lib/auth/authorization";
+import {
+  findAllInpsParameters,
+  createInpsParameters,
+} from "@/utils/inpsParametersQueries";
+import {
+  validateSchema,
+  isValidationError,
+  inpsParametersCreateSchema,
+} from "@/lib/validations/schemas";
+import { ApiResponse, IInpsParameters } from "@/types";
+import { InpsParameters } from "@/services/inpsService";
+
+/**
+ * Helper function to format INPS parameters response
+ * Pure function - follows functional programming principles
+ */
+const formatInpsParametersResponse = (
+  parameters: IInpsParameters
+): InpsParameters => ({
+  year: parameters.year,
+  rates: parameters.rates.map(({ type, description, rate }) => ({
+    type,
+    description,
+    rate,
+  })),
+  maxIncome: parameters.maxIncome,
+  minIncome: parameters.minIncome,
+  minContributions: { ...parameters.minContributions },
+});
+
+/**
+ * GET /api/inps/parameters
+ * Get the INPS parameters of every configured year, newest first
+ * Public endpoint - no authentication required for reading parameters
+ */
+export async function GET(): Promise<
+  NextResponse<ApiResponse<InpsParameters[]>>
+> {
+  try {
+    await connectDB();
+
+    const parameters = await findAllInpsParameters();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: parameters.map(formatInpsParametersResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get INPS parameters error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore nel recupero dei parametri INPS",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inps/parameters
+ * Create the INPS parameters of a new year
+ * Requires super admin role
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<InpsParameters>>> {
+  try {
+    // Verify super admin authentication
+    const authResult = await requireSuperAdmin(request);
+    if (!authResult.success || !authResult.user) {
+      return authResult.response as NextResponse<ApiResponse<InpsParameters>>;
+    }
+
+    await connectDB();
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateSchema(inpsParametersCreateSchema, body);
+
+    const parameters = await createInpsParameters(validatedData);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Parametri INPS creati con successo",
+        data: formatInpsParametersResponse(parameters),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create INPS parameters error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Parametri INPS non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione dei parametri INPS",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle MongoDB duplicate key error
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "I parametri INPS per questo anno esistono già",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import { validateSchema, isValidationError } from "@/lib/validations/schemas";
+import { getInvoiceById } from "@/utils/invoiceQueries";
+import { findClientsByUser } from "@/utils/clientQueries";
+import { findFiscalProfileByUser } from "@/utils/fiscalProfileQueries";
+import { findSettingsByUserId } from "@/utils/userSettingsQueries";
+import { findInvoiceClient } from "@/utils/clientCalculations";
+import {
+  buildFatturaPaDocument,
+  validateFatturaPaExport,
+} from "@/utils/fatturaPaCalculations";
+import { renderFatturaPaXml } from "@/lib/fatturapa/xmlRenderer";
+import { z } from "zod";
+
+/**
+ * Invoice FatturaPA Export API Route
+ * Serves an invoice as a FatturaPA XML file ready for the SDI
+ */
+
+const invoiceIdSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
+});
+
+/**
+ * GET /api/invoices/[id]/fatturapa
+ * Download the FatturaPA XML of an invoice
+ * Requires the user's fiscal profile and the client in the registry
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = validateSchema(invoiceIdSchema, await context.params);
+
+    const invoice = await getInvoiceById(id, userData.userId);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, message: "Fattura non trovata" },
+        { status: 404 }
+      );
+    }
+
+    const [issuer, clients, settings, originalInvoice] = await Promise.all([
+      findFiscalProfileByUser(userData.userId),
+      findClientsByUser(userData.userId),
+      findSettingsByUserId(userData.userId),
+      // Credit notes reference the invoice they reverse
+      invoice.documentType === "credit_note" && invoice.originalInvoiceId
+        ? getInvoiceById(invoice.originalInvoiceId.toString(), userData.userId)
+        : null,
+    ]);
+
+    if (!issuer) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Completa i dati fiscali nelle impostazioni per esportare le fatture",
+        },
+        { status: 400 }
+      );
+    }
+
+    const client = findInvoiceClient(
+      { clientName: invoice.clientName, clientId: invoice.clientId?.toString() },
+      clients.map((registryClient) => ({
+        ...registryClient,
+        _id: registryClient._id?.toString(),
+      }))
+    );
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Aggiungi il cliente all'anagrafica per esportare la fattura",
+        },
+        { status: 400 }
+      );
+    }
+
+    const exportInput = {
+      invoice: { ...invoice, _id: invoice._id?.toString() },
+      issuer,
+      client,
+      taxRegime: settings?.taxRegime ?? "forfettario",
+      originalInvoice: originalInvoice ?? undefined,
+    };
+
+    const errors = validateFatturaPaExport(exportInput);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "La fattura non può essere esportata in formato FatturaPA",
+          errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const document = buildFatturaPaDocument(exportInput);
+    const content = renderFatturaPaXml(document);
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Content-Length": content.length.toString(),
+        "Content-Disposition": `attachment; filename="${document.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export FatturaPA error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID fattura non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
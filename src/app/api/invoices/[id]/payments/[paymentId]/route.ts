@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  invoicePaymentParamsSchema,
+} from "@/lib/validations/schemas";
+import { removeInvoicePayment } from "@/utils/invoiceQueries";
+import { ApiResponse, IInvoice } from "@/types";
+
+/**
+ * DELETE /api/invoices/[id]/payments/[paymentId]
+ * Remove a payment recorded on an invoice of the authenticated user
+ * The invoice goes back to partially paid, or to the status it had before
+ * being paid
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; paymentId: string }> }
+): Promise<NextResponse<ApiResponse<IInvoice>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id, paymentId } = validateSchema(
+      invoicePaymentParamsSchema,
+      await context.params
+    );
+
+    const result = await removeInvoicePayment(id, userData.userId, paymentId);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: "Pagamento non trovato" },
+        { status: 404 }
+      );
+    }
+
+    if (result.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Pagamento non eliminabile",
+          errors: [result.error],
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Pagamento eliminato con successo",
+        data: result.invoice,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Remove invoice payment error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Pagamento non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  invoicePaymentSchema,
+} from "@/lib/validations/schemas";
+import { addInvoicePayment } from "@/utils/invoiceQueries";
+import { ApiResponse, IInvoice } from "@/types";
+import { z } from "zod";
+
+/**
+ * Invoice Payments API Route
+ * Records the payments received on an invoice
+ */
+
+const invoiceIdSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
+});
+
+/**
+ * POST /api/invoices/[id]/payments
+ * Record a payment received on an invoice of the authenticated user
+ * The invoice becomes partially paid, or paid once nothing is left due
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<IInvoice>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = validateSchema(invoiceIdSchema, await context.params);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { date, method, ...payment } = validateSchema(
+      invoicePaymentSchema,
+      body
+    );
+
+    const result = await addInvoicePayment(id, userData.userId, {
+      ...payment,
+      date: new Date(date),
+      method: method ?? "bank_transfer",
+    });
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: "Fattura non trovata" },
+        { status: 404 }
+      );
+    }
+
+    if (result.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Pagamento non registrabile",
+          errors: [result.error],
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Pagamento registrato con successo",
+        data: result.invoice,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Add invoice payment error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati del pagamento non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del pagamento",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,28 @@ import {
   getInvoiceById,
   updateInvoice,
   deleteInvoice,
+  checkCreditNote,
+  findCreditNotesByInvoice,
 } from "@/utils/invoiceQueries";
+import { recordInvoiceNumber } from "@/utils/invoiceSequenceQueries";
 import { validateSchema, invoiceSchema } from "@/lib/validations/schemas";
+import { findClientByIdForUser } from "@/utils/clientQueries";
+import { findSettingsByUserId } from "@/utils/userSettingsQueries";
 import { getUserFromRequest } from "@/lib/auth/jwt";
 import { connectDB } from "@/lib/database/mongodb";
-import { IInvoice } from "@/types";
+import {
+  calculateDueDate,
+  calculateItemsAmount,
+  getInvoiceBollo,
+  getInvoiceItems,
+  getInvoicePensionCharge,
+  getInvoiceWithholding,
+  getItemsVat,
+  getInvoiceStatus,
+  getPensionChargeForSettings,
+  RIVALSA_INPS_RATE,
+} from "@/utils/invoiceCalculations";
+import { IInvoice, InvoiceLineItem } from "@/types";
 import { z } from "zod";
 
 /**
@@ -19,7 +36,20 @@ const invoiceIdSchema = z.object({
   id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
 });
 
-const updateInvoiceSchema = invoiceSchema.partial();
+// Document type, original invoice and recurring invoice are fixed
+// when the document is created, the status follows the lifecycle.
+// A null payment date removes the payment
+const updateInvoiceSchema = invoiceSchema
+  .omit({
+    documentType: true,
+    originalInvoiceId: true,
+    recurringInvoiceId: true,
+    status: true,
+  })
+  .partial()
+  .extend({
+    paymentDate: z.string().datetime().or(z.date()).or(z.null()).optional(),
+  });
 
 /**
  * GET /api/invoices/[id]
@@ -114,29 +144,272 @@ export async function PUT(
     // Validate update data
     const validatedData = validateSchema(updateInvoiceSchema, body);
 
+    // The payment date moves the invoice to or from paid
+    const { paymentDate, ...invoiceData } = validatedData;
+
     // Convert string dates to Date objects
     const processedData: Partial<
       Omit<IInvoice, "id" | "userId" | "createdAt" | "updatedAt">
     > = {
-      ...validatedData,
+      ...invoiceData,
       // Override date fields with converted values
       ...(validatedData.issueDate && {
         issueDate: new Date(validatedData.issueDate),
       }),
-      ...(validatedData.paymentDate && {
-        paymentDate: new Date(validatedData.paymentDate),
+      ...(validatedData.dueDate && {
+        dueDate: new Date(validatedData.dueDate),
       }),
     } as Partial<Omit<IInvoice, "id" | "userId" | "createdAt" | "updatedAt">>;
 
-    // Update invoice
-    const invoice = await updateInvoice(id, userData.userId, processedData);
+    // Recompute derived fields here to check the update before saving it
+    const changesDueDate = !!(
+      validatedData.issueDate ||
+      validatedData.paymentTerms ||
+      validatedData.dueDate
+    );
+    const changesAmount = !!(
+      validatedData.items ||
+      validatedData.amount !== undefined ||
+      validatedData.vat
+    );
+    const changesPensionCharge =
+      changesAmount || validatedData.pensionCharge !== undefined;
+    const changesBollo = !!(changesPensionCharge || validatedData.bollo);
+    const changesWithholding =
+      changesPensionCharge || validatedData.withholding !== undefined;
+    const needsExisting =
+      changesDueDate ||
+      changesBollo ||
+      changesAmount ||
+      changesWithholding ||
+      paymentDate !== undefined;
+    const existing = needsExisting
+      ? await getInvoiceById(id, userData.userId)
+      : null;
+    if (needsExisting && !existing) {
+      return NextResponse.json(
+        { success: false, error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
 
-    if (!invoice) {
+    // Amount and VAT follow the lines, invoices with a single line can
+    // still be updated by amount and VAT, a new amount is billed as one unit
+    if (existing && changesAmount) {
+      const existingItems = getInvoiceItems(existing);
+      if (!validatedData.items && existingItems.length > 1) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Invoices with several lines are updated through their lines",
+          },
+          { status: 400 }
+        );
+      }
+
+      const [line] = existingItems;
+      const vat = validatedData.vat ?? line.vat;
+      const singleItem: InvoiceLineItem = {
+        ...line,
+        ...(validatedData.amount !== undefined && {
+          quantity: 1,
+          unitOfMeasure: undefined,
+          unitPrice: validatedData.amount,
+        }),
+        vat,
+        vatNature: vat?.vatRate ? undefined : line.vatNature,
+      };
+      const items = getInvoiceItems({
+        amount: 0,
+        items: processedData.items ?? [singleItem],
+      });
+
+      processedData.items = items;
+      processedData.amount = calculateItemsAmount(items);
+      processedData.vat = getItemsVat(items) ?? null;
+    }
+
+    // Credit notes cannot reverse more than their original invoice
+    if (existing && processedData.amount !== undefined) {
+      let creditNoteError: string | null = null;
+
+      if (existing.documentType === "credit_note") {
+        creditNoteError = await checkCreditNote(
+          userData.userId,
+          existing.originalInvoiceId,
+          processedData.amount,
+          id
+        );
+      } else {
+        const credited = (
+          await findCreditNotesByInvoice(userData.userId, id)
+        ).reduce((total, creditNote) => total + creditNote.amount, 0);
+        if (processedData.amount < credited) {
+          creditNoteError = "Invoice amount cannot be lower than its credit notes";
+        }
+      }
+
+      if (creditNoteError) {
+        return NextResponse.json(
+          { success: false, error: creditNoteError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (existing && changesDueDate) {
+      const issueDate = processedData.issueDate ?? existing.issueDate;
+      const paymentTerms = processedData.paymentTerms ?? existing.paymentTerms;
+      const customDueDate = processedData.dueDate ?? existing.dueDate;
+
+      if (paymentTerms === "custom") {
+        if (!customDueDate || customDueDate < issueDate) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "Custom payment terms need a due date after the issue date",
+            },
+            { status: 400 }
+          );
+        }
+      }
+
+      processedData.dueDate = calculateDueDate(
+        issueDate,
+        paymentTerms,
+        customDueDate
+      );
+    }
+
+    const settings =
+      validatedData.withholding || validatedData.pensionCharge
+        ? await findSettingsByUserId(userData.userId)
+        : null;
+
+    // Only the ordinario regime is subject to withholding tax
+    if (validatedData.withholding && settings?.taxRegime !== "ordinario") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Withholding tax only applies to the ordinario regime",
+        },
+        { status: 400 }
+      );
+    }
+
+    // The kind of pension contribution follows the pension system
+    if (validatedData.pensionCharge) {
+      if (!settings) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Pension contributions require the pension system settings",
+          },
+          { status: 400 }
+        );
+      }
+      if (
+        settings.pensionSystem === "INPS" &&
+        validatedData.pensionCharge.rate > RIVALSA_INPS_RATE
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Rivalsa INPS cannot exceed ${RIVALSA_INPS_RATE}%`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (existing && changesPensionCharge) {
+      const charge =
+        validatedData.pensionCharge && settings
+          ? getPensionChargeForSettings(
+              settings,
+              validatedData.pensionCharge.rate
+            )
+          : validatedData.pensionCharge === undefined
+          ? existing.pensionCharge
+          : null;
+      processedData.pensionCharge =
+        getInvoicePensionCharge(
+          { amount: processedData.amount ?? existing.amount },
+          charge
+        ) ?? null;
+    }
+
+    const pensionCharge =
+      processedData.pensionCharge === undefined
+        ? existing?.pensionCharge
+        : processedData.pensionCharge;
+
+    if (existing && changesBollo) {
+      const bollo = getInvoiceBollo(
+        {
+          amount: processedData.amount ?? existing.amount,
+          items: processedData.items ?? existing.items,
+          vat: processedData.vat === undefined ? existing.vat : processedData.vat,
+          pensionCharge,
+        },
+        validatedData.bollo?.chargedToClient ?? existing.bollo?.chargedToClient
+      );
+      processedData.bollo = bollo ?? null;
+    }
+
+    if (existing && changesWithholding) {
+      const rate =
+        validatedData.withholding === undefined
+          ? existing.withholding?.rate
+          : validatedData.withholding?.rate;
+      processedData.withholding =
+        getInvoiceWithholding(
+          { amount: processedData.amount ?? existing.amount, pensionCharge },
+          rate
+        ) ?? null;
+    }
+
+    // Linked clients must belong to the user
+    if (
+      validatedData.clientId &&
+      !(await findClientByIdForUser(validatedData.clientId, userData.userId))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Client not found" },
+        { status: 400 }
+      );
+    }
+
+    // Update invoice, recording or removing the payment through the lifecycle
+    const result = await updateInvoice(
+      id,
+      userData.userId,
+      processedData,
+      paymentDate == null ? paymentDate : new Date(paymentDate)
+    );
+
+    if (!result) {
       return NextResponse.json(
         { success: false, error: "Invoice not found" },
         { status: 404 }
       );
     }
+    const { invoice, error } = result;
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    // Renumbered invoices move the sequence past their new number
+    if (invoice.number && (validatedData.number || validatedData.fiscalYear)) {
+      await recordInvoiceNumber(
+        userData.userId,
+        invoice.fiscalYear,
+        invoice.number
+      );
+    }
 
     return NextResponse.json({ success: true, data: invoice });
   } catch (error) {
@@ -149,6 +422,16 @@ export async function PUT(
       );
     }
 
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "An invoice with this number already exists in this year",
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof Error && error.message.includes("Unauthorized")) {
       return NextResponse.json(
         { success: false, error: "Unauthorized" },
@@ -165,7 +448,7 @@ export async function PUT(
 
 /**
  * DELETE /api/invoices/[id]
- * Delete a specific invoice
+ * Delete a specific draft invoice
  */
 export async function DELETE(
   request: NextRequest,
@@ -189,16 +472,30 @@ export async function DELETE(
     // Validate invoice ID
     const { id } = validateSchema(invoiceIdSchema, params);
 
-    // Delete invoice
-    const success = await deleteInvoice(id, userData.userId);
-
-    if (!success) {
+    const existing = await getInvoiceById(id, userData.userId);
+    if (!existing) {
       return NextResponse.json(
         { success: false, error: "Invoice not found" },
         { status: 404 }
       );
     }
 
+    // Only drafts are deleted, issued invoices are cancelled or credited
+    const success =
+      getInvoiceStatus(existing) === "draft" &&
+      (await deleteInvoice(id, userData.userId));
+
+    if (!success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Only draft invoices can be deleted, cancel the invoice or issue a credit note",
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       message: "Invoice deleted successfully",
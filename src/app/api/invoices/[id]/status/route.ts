@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  invoiceStatusSchema,
+} from "@/lib/validations/schemas";
+import { transitionInvoiceStatus } from "@/utils/invoiceQueries";
+import { ApiResponse, IInvoice } from "@/types";
+import { z } from "zod";
+
+/**
+ * Invoice Status API Route
+ * Moves an invoice through its lifecycle
+ */
+
+const invoiceIdSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
+});
+
+/**
+ * POST /api/invoices/[id]/status
+ * Move an invoice of the authenticated user to a status
+ * Issuing a draft numbers it, collecting an invoice records its payment date
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<IInvoice>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = validateSchema(invoiceIdSchema, await context.params);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { status, paymentDate } = validateSchema(invoiceStatusSchema, body);
+
+    const result = await transitionInvoiceStatus(id, userData.userId, status, {
+      ...(paymentDate && { paymentDate: new Date(paymentDate) }),
+    });
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: "Fattura non trovata" },
+        { status: 404 }
+      );
+    }
+
+    if (result.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cambio di stato della fattura non consentito",
+          errors: [result.error],
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Stato della fattura aggiornato",
+        data: result.invoice,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update invoice status error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Stato della fattura non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della fattura",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
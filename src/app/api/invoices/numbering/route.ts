@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  invoiceNumberingSchema,
+  invoiceNumberingQuerySchema,
+} from "@/lib/validations/schemas";
+import {
+  getInvoiceNumberingStatus,
+  updateNumberPattern,
+} from "@/utils/invoiceSequenceQueries";
+import { ApiResponse, InvoiceNumberingStatus } from "@/types";
+
+/**
+ * Invoice Numbering API Routes
+ * Numbering pattern, next number and gaps of the invoice sequences
+ */
+
+/**
+ * GET /api/invoices/numbering?year={year}
+ * Get the numbering status of a year, the suggested number is not reserved
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<InvoiceNumberingStatus>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const { year } = validateSchema(invoiceNumberingQuerySchema, {
+      year: url.searchParams.get("year") ?? String(new Date().getFullYear()),
+    });
+
+    const status = await getInvoiceNumberingStatus(
+      userData.userId,
+      parseInt(year)
+    );
+
+    return NextResponse.json({ success: true, data: status }, { status: 200 });
+  } catch (error) {
+    console.error("Get invoice numbering error:", error);
+
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+          errors: error.errors.issues.map((err) => err.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/invoices/numbering
+ * Change the numbering pattern, the sequences of each year continue
+ */
+export async function PUT(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<InvoiceNumberingStatus>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { pattern } = validateSchema(invoiceNumberingSchema, body);
+
+    await updateNumberPattern(userData.userId, pattern);
+    const status = await getInvoiceNumberingStatus(
+      userData.userId,
+      new Date().getFullYear()
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Numerazione fatture aggiornata",
+        data: status,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update invoice numbering error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Schema di numerazione non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
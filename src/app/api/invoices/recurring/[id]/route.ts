@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringInvoiceUpdateSchema,
+  recurringInvoiceIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  deleteRecurringInvoiceForUser,
+  findIssuedDatesByRecurringInvoice,
+  updateRecurringInvoiceForUser,
+} from "@/utils/recurringInvoiceQueries";
+import {
+  getDraftDates,
+  getRecurringInvoiceAmount,
+} from "@/utils/recurringInvoiceCalculations";
+import {
+  ApiResponse,
+  IRecurringInvoice,
+  RecurringInvoiceResponse,
+  RecurringInvoiceUpdateRequest,
+} from "@/types";
+
+/**
+ * Helper function to format recurring invoice data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringInvoiceResponse = (
+  template: IRecurringInvoice,
+  issuedDates: Date[]
+): RecurringInvoiceResponse => ({
+  id: template._id?.toString() || "unknown",
+  title: template.title,
+  clientName: template.clientName,
+  clientId: template.clientId ? template.clientId.toString() : null,
+  items: template.items,
+  amount: getRecurringInvoiceAmount(template),
+  paymentTerms: template.paymentTerms,
+  withholdingRate: template.withholdingRate ?? null,
+  pensionChargeRate: template.pensionChargeRate ?? null,
+  bolloChargedToClient: template.bolloChargedToClient ?? false,
+  frequency: template.frequency,
+  startDate: template.startDate.toISOString(),
+  endDate: template.endDate ? template.endDate.toISOString() : null,
+  skippedDates: (template.skippedDates ?? []).map((date) =>
+    date.toISOString()
+  ),
+  draftDates: getDraftDates(template, issuedDates, new Date()).map((date) =>
+    date.toISOString()
+  ),
+  createdAt: template.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: template.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * PUT /api/invoices/recurring/[id]
+ * Change the frequency or the end date of a recurring invoice
+ * Invoices already issued are left unchanged
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<RecurringInvoiceResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate recurring invoice ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringInvoiceIdParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: RecurringInvoiceUpdateRequest = validateSchema(
+      recurringInvoiceUpdateSchema,
+      body
+    );
+
+    const template = await updateRecurringInvoiceForUser(
+      validatedParams.id,
+      userData.userId,
+      validatedData
+    );
+
+    if (!template) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fattura ricorrente non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    const issuedDates = await findIssuedDatesByRecurringInvoice(
+      userData.userId,
+      [validatedParams.id]
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Fattura ricorrente aggiornata con successo",
+        data: formatRecurringInvoiceResponse(
+          template,
+          issuedDates[validatedParams.id] ?? []
+        ),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update recurring invoice error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati di aggiornamento non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della fattura ricorrente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/invoices/recurring/[id]
+ * Stop a recurring invoice of the authenticated user
+ * The invoices issued from it are kept as one-off invoices
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate recurring invoice ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringInvoiceIdParamSchema,
+      resolvedParams
+    );
+
+    const template = await deleteRecurringInvoiceForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!template) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fattura ricorrente non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Fattura ricorrente eliminata con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete recurring invoice error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID fattura ricorrente non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
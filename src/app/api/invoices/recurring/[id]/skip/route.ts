@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringInvoiceSkipSchema,
+  recurringInvoiceIdParamSchema,
+} from "@/lib/validations/schemas";
+import {
+  findIssuedDatesByRecurringInvoice,
+  findRecurringInvoiceByIdForUser,
+  setRecurringInvoiceOccurrenceSkipped,
+} from "@/utils/recurringInvoiceQueries";
+import {
+  getDraftDates,
+  getRecurringInvoiceAmount,
+  isOpenOccurrence,
+} from "@/utils/recurringInvoiceCalculations";
+import {
+  ApiResponse,
+  IRecurringInvoice,
+  RecurringInvoiceResponse,
+} from "@/types";
+
+/**
+ * Helper function to format recurring invoice data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringInvoiceResponse = (
+  template: IRecurringInvoice,
+  issuedDates: Date[]
+): RecurringInvoiceResponse => ({
+  id: template._id?.toString() || "unknown",
+  title: template.title,
+  clientName: template.clientName,
+  clientId: template.clientId ? template.clientId.toString() : null,
+  items: template.items,
+  amount: getRecurringInvoiceAmount(template),
+  paymentTerms: template.paymentTerms,
+  withholdingRate: template.withholdingRate ?? null,
+  pensionChargeRate: template.pensionChargeRate ?? null,
+  bolloChargedToClient: template.bolloChargedToClient ?? false,
+  frequency: template.frequency,
+  startDate: template.startDate.toISOString(),
+  endDate: template.endDate ? template.endDate.toISOString() : null,
+  skippedDates: (template.skippedDates ?? []).map((date) =>
+    date.toISOString()
+  ),
+  draftDates: getDraftDates(template, issuedDates, new Date()).map((date) =>
+    date.toISOString()
+  ),
+  createdAt: template.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: template.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * POST /api/invoices/recurring/[id]/skip
+ * Skip an occurrence of a recurring invoice, or restore it with skipped false
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<RecurringInvoiceResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate recurring invoice ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      recurringInvoiceIdParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateSchema(recurringInvoiceSkipSchema, body);
+
+    const template = await findRecurringInvoiceByIdForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!template) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fattura ricorrente non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    const issuedDates =
+      (
+        await findIssuedDatesByRecurringInvoice(userData.userId, [
+          validatedParams.id,
+        ])
+      )[validatedParams.id] ?? [];
+
+    // Issued occurrences are invoices, to be deleted from the list instead
+    if (!isOpenOccurrence(template, issuedDates, validatedData.date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "La data non è una scadenza da emettere della fattura ricorrente",
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setRecurringInvoiceOccurrenceSkipped(
+      validatedParams.id,
+      userData.userId,
+      new Date(validatedData.date),
+      validatedData.skipped
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fattura ricorrente non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: validatedData.skipped
+          ? "Scadenza saltata"
+          : "Scadenza ripristinata",
+        data: formatRecurringInvoiceResponse(updated, issuedDates),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Skip recurring invoice error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
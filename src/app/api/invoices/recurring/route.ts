@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  recurringInvoiceCreateSchema,
+} from "@/lib/validations/schemas";
+import { getInvoiceById } from "@/utils/invoiceQueries";
+import {
+  createRecurringInvoiceFromInvoice,
+  findIssuedDatesByRecurringInvoice,
+  findRecurringInvoicesByUserId,
+} from "@/utils/recurringInvoiceQueries";
+import {
+  getDraftDates,
+  getRecurringInvoiceAmount,
+} from "@/utils/recurringInvoiceCalculations";
+import {
+  ApiResponse,
+  IRecurringInvoice,
+  RecurringInvoiceResponse,
+} from "@/types";
+
+/**
+ * Helper function to format recurring invoice data for response
+ * Pure function - follows functional programming principles
+ */
+const formatRecurringInvoiceResponse = (
+  template: IRecurringInvoice,
+  issuedDates: Date[]
+): RecurringInvoiceResponse => ({
+  id: template._id?.toString() || "unknown",
+  title: template.title,
+  clientName: template.clientName,
+  clientId: template.clientId ? template.clientId.toString() : null,
+  items: template.items,
+  amount: getRecurringInvoiceAmount(template),
+  paymentTerms: template.paymentTerms,
+  withholdingRate: template.withholdingRate ?? null,
+  pensionChargeRate: template.pensionChargeRate ?? null,
+  bolloChargedToClient: template.bolloChargedToClient ?? false,
+  frequency: template.frequency,
+  startDate: template.startDate.toISOString(),
+  endDate: template.endDate ? template.endDate.toISOString() : null,
+  skippedDates: (template.skippedDates ?? []).map((date) =>
+    date.toISOString()
+  ),
+  draftDates: getDraftDates(template, issuedDates, new Date()).map((date) =>
+    date.toISOString()
+  ),
+  createdAt: template.createdAt?.toISOString() || new Date().toISOString(),
+  updatedAt: template.updatedAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/invoices/recurring
+ * Get the recurring invoices of the authenticated user with their drafts
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RecurringInvoiceResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const templates = await findRecurringInvoicesByUserId(userData.userId);
+    const issuedDates = await findIssuedDatesByRecurringInvoice(
+      userData.userId,
+      templates.map((template) => template._id?.toString() as string)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: templates.map((template) =>
+          formatRecurringInvoiceResponse(
+            template,
+            issuedDates[template._id?.toString() as string] ?? []
+          )
+        ),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get recurring invoices error:", error);
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invoices/recurring
+ * Repeat an invoice of the authenticated user on a schedule
+ * The invoice is the first occurrence, the next ones become drafts once due
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RecurringInvoiceResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { invoiceId, ...recurrence } = validateSchema(
+      recurringInvoiceCreateSchema,
+      body
+    );
+
+    const invoice = await getInvoiceById(invoiceId, userData.userId);
+    if (!invoice) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fattura non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    if (invoice.documentType === "credit_note") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Le note di credito non possono essere ricorrenti",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (invoice.recurringInvoiceId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "La fattura appartiene già a una fattura ricorrente",
+        },
+        { status: 409 }
+      );
+    }
+
+    // A custom due date cannot be repeated on the next invoices
+    if (invoice.paymentTerms === "custom") {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Le fatture con scadenza personalizzata non possono essere ricorrenti",
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await createRecurringInvoiceFromInvoice(
+      userData.userId,
+      invoice,
+      recurrence
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Fattura ricorrente creata con successo",
+        data: formatRecurringInvoiceResponse(template, [invoice.issueDate]),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create recurring invoice error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati della fattura ricorrente non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della fattura ricorrente",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
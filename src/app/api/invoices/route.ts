@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getInvoicesByYear, createInvoice } from "@/utils/invoiceQueries";
+import {
+  getInvoicesByYear,
+  findInvoicesForRecognitionYear,
+  createInvoice,
+  checkCreditNote,
+  getInvoiceById,
+} from "@/utils/invoiceQueries";
+import {
+  createInvoiceWithNextNumber,
+  recordInvoiceNumber,
+} from "@/utils/invoiceSequenceQueries";
 import { validateSchema, invoiceSchema } from "@/lib/validations/schemas";
+import { findClientByIdForUser } from "@/utils/clientQueries";
+import {
+  findIssuedDatesByRecurringInvoice,
+  findRecurringInvoiceByIdForUser,
+} from "@/utils/recurringInvoiceQueries";
+import { isDraftDate } from "@/utils/recurringInvoiceCalculations";
+import { findSettingsByUserId } from "@/utils/userSettingsQueries";
+import {
+  calculateItemsAmount,
+  getInvoiceItems,
+  getInvoicePensionCharge,
+  getInvoiceWithholding,
+  getItemsVat,
+  getPensionChargeForSettings,
+  RIVALSA_INPS_RATE,
+} from "@/utils/invoiceCalculations";
 import { getUserFromRequest } from "@/lib/auth/jwt";
 import { connectDB } from "@/lib/database/mongodb";
 import { IInvoice } from "@/types";
@@ -12,7 +38,7 @@ import { z } from "zod";
  * Follows the same pattern as costs API
  */
 
-// Query schema for year parameter
+// Query schema for year and revenue recognition parameters
 const invoiceQuerySchema = z.object({
   year: z
     .string()
@@ -22,6 +48,7 @@ const invoiceQuerySchema = z.object({
       return year >= 2000 && year <= new Date().getFullYear();
     }, "Year must be between 2000 and current year")
     .optional(),
+  recognition: z.enum(["cash", "accrual"]).optional(),
 });
 
 /**
@@ -46,10 +73,21 @@ export async function GET(request: NextRequest) {
     const queryParams = Object.fromEntries(url.searchParams.entries());
 
     // Validate query parameters
-    const { year } = validateSchema(invoiceQuerySchema, queryParams);
+    const { year, recognition } = validateSchema(
+      invoiceQuerySchema,
+      queryParams
+    );
 
     // Get invoices
-    if (year) {
+    if (year && recognition) {
+      // Invoices whose revenue can fall in the year
+      const invoices = await findInvoicesForRecognitionYear(
+        userData.userId,
+        parseInt(year),
+        recognition
+      );
+      return NextResponse.json({ success: true, data: invoices });
+    } else if (year) {
       const invoices = await getInvoicesByYear(userData.userId, parseInt(year));
       return NextResponse.json({ success: true, data: invoices });
     } else {
@@ -105,6 +143,23 @@ export async function POST(request: NextRequest) {
     // Validate invoice data
     const validatedData = validateSchema(invoiceSchema, body);
 
+    // Invoices without lines get one from their title and amount
+    if (!validatedData.items && validatedData.amount === undefined) {
+      return NextResponse.json(
+        { success: false, error: "Invoice amount or lines are required" },
+        { status: 400 }
+      );
+    }
+
+    // Drafts are collected only once issued
+    const isDraft = validatedData.status === "draft";
+    if (isDraft && validatedData.paymentDate) {
+      return NextResponse.json(
+        { success: false, error: "Drafts cannot have a payment date" },
+        { status: 400 }
+      );
+    }
+
     // Convert string dates to Date objects
     const processedData: Omit<
       IInvoice,
@@ -116,10 +171,179 @@ export async function POST(request: NextRequest) {
       ...(validatedData.paymentDate && {
         paymentDate: new Date(validatedData.paymentDate),
       }),
+      ...(validatedData.dueDate && {
+        dueDate: new Date(validatedData.dueDate),
+      }),
+      pensionCharge: null,
+      withholding: null,
+      // Issued invoices are paid when they carry a payment date
+      status: isDraft ? "draft" : undefined,
     } as Omit<IInvoice, "id" | "userId" | "createdAt" | "updatedAt">;
 
-    // Create invoice
-    const invoice = await createInvoice(userData.userId, processedData);
+    // Amount and VAT follow the lines
+    processedData.items = getInvoiceItems(processedData);
+    processedData.amount = calculateItemsAmount(processedData.items);
+    processedData.vat = getItemsVat(processedData.items);
+
+    const settings =
+      validatedData.withholding || validatedData.pensionCharge
+        ? await findSettingsByUserId(userData.userId)
+        : null;
+
+    // Only the ordinario regime is subject to withholding tax
+    if (validatedData.withholding && settings?.taxRegime !== "ordinario") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Withholding tax only applies to the ordinario regime",
+        },
+        { status: 400 }
+      );
+    }
+
+    // The kind of pension contribution follows the pension system
+    if (validatedData.pensionCharge) {
+      if (!settings) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Pension contributions require the pension system settings",
+          },
+          { status: 400 }
+        );
+      }
+      if (
+        settings.pensionSystem === "INPS" &&
+        validatedData.pensionCharge.rate > RIVALSA_INPS_RATE
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Rivalsa INPS cannot exceed ${RIVALSA_INPS_RATE}%`,
+          },
+          { status: 400 }
+        );
+      }
+      processedData.pensionCharge =
+        getInvoicePensionCharge(
+          processedData,
+          getPensionChargeForSettings(
+            settings,
+            validatedData.pensionCharge.rate
+          )
+        ) ?? null;
+    }
+    processedData.withholding =
+      getInvoiceWithholding(processedData, validatedData.withholding?.rate) ??
+      null;
+
+    // Linked clients must belong to the user
+    if (
+      validatedData.clientId &&
+      !(await findClientByIdForUser(validatedData.clientId, userData.userId))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Client not found" },
+        { status: 400 }
+      );
+    }
+
+    // Drafts of recurring invoices are issued once, on their own day
+    if (validatedData.recurringInvoiceId) {
+      const template = await findRecurringInvoiceByIdForUser(
+        validatedData.recurringInvoiceId,
+        userData.userId
+      );
+      if (!template) {
+        return NextResponse.json(
+          { success: false, error: "Recurring invoice not found" },
+          { status: 400 }
+        );
+      }
+
+      const issuedDates = await findIssuedDatesByRecurringInvoice(
+        userData.userId,
+        [validatedData.recurringInvoiceId]
+      );
+      if (
+        !isDraftDate(
+          template,
+          issuedDates[validatedData.recurringInvoiceId] ?? [],
+          processedData.issueDate
+        )
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Issue date is not a draft of the recurring invoice",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Credit notes reverse at most the amount still open on the original
+    if (validatedData.documentType === "credit_note") {
+      const creditNoteError = await checkCreditNote(
+        userData.userId,
+        validatedData.originalInvoiceId,
+        processedData.amount
+      );
+      if (creditNoteError) {
+        return NextResponse.json(
+          { success: false, error: creditNoteError },
+          { status: 400 }
+        );
+      }
+
+      // Credit notes charge the contributions and withhold at the rates
+      // of the invoice they reverse
+      if (
+        (validatedData.pensionCharge === undefined ||
+          validatedData.withholding === undefined) &&
+        validatedData.originalInvoiceId
+      ) {
+        const original = await getInvoiceById(
+          validatedData.originalInvoiceId,
+          userData.userId
+        );
+        if (validatedData.pensionCharge === undefined) {
+          processedData.pensionCharge =
+            getInvoicePensionCharge(processedData, original?.pensionCharge) ??
+            null;
+        }
+        processedData.withholding =
+          getInvoiceWithholding(
+            processedData,
+            validatedData.withholding === undefined
+              ? original?.withholding?.rate
+              : validatedData.withholding?.rate
+          ) ?? null;
+      }
+    }
+
+    // Drafts are numbered when issued. Without a number the invoice takes
+    // the next one of its year, numbers given by hand move the sequence
+    // past them
+    let invoice: IInvoice;
+    if (isDraft) {
+      invoice = await createInvoice(userData.userId, {
+        ...processedData,
+        number: undefined,
+      });
+    } else if (validatedData.number) {
+      invoice = await createInvoice(userData.userId, processedData);
+      await recordInvoiceNumber(
+        userData.userId,
+        invoice.fiscalYear,
+        validatedData.number
+      );
+    } else {
+      invoice = await createInvoiceWithNextNumber(
+        userData.userId,
+        processedData
+      );
+    }
 
     return NextResponse.json({ success: true, data: invoice }, { status: 201 });
   } catch (error) {
@@ -132,6 +356,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "An invoice with this number already exists in this year",
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof Error && error.message.includes("Unauthorized")) {
       return NextResponse.json(
         { success: false, error: "Unauthorized" },
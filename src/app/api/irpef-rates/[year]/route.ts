@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { requireSuperAdmin } from "@/lib/auth/authorization";
+import {
+  findIrpefRatesInForce,
+  replaceIrpefRatesForYear,
+} from "@/utils/irpefRateQueries";
+import {
+  validateSchema,
+  isValidationError,
+  irpefRateTableSchema,
+  irpefRateYearParamSchema,
+} from "@/lib/validations/schemas";
+import { ApiResponse, IIrpefRate } from "@/types";
+import { IrpefRate } from "@/services/irpefRateService";
+import {
+  getDefaultIrpefBrackets,
+  getDefaultIrpefTableYear,
+} from "@/utils/irpefCalculations";
+
+/**
+ * Helper function to format IRPEF rate response
+ * Pure function - follows functional programming principles
+ */
+const formatIrpefRateResponse = (rate: IIrpefRate): IrpefRate => ({
+  _id: rate._id.toString(),
+  rate: rate.rate,
+  lowerBound: rate.lowerBound,
+  ...(rate.upperBound !== undefined &&
+    rate.upperBound !== null && { upperBound: rate.upperBound }),
+  year: rate.year,
+  isActive: rate.isActive,
+});
+
+/**
+ * Helper function to format the default brackets in force for a year
+ * Served while no rate table is stored, as used by the IRPEF calculation
+ */
+const formatDefaultIrpefRates = (year: number): IrpefRate[] => {
+  const tableYear = getDefaultIrpefTableYear(year);
+  return getDefaultIrpefBrackets(tableYear).map((bracket) => ({
+    ...bracket,
+    year: tableYear,
+    isActive: true,
+  }));
+};
+
+/**
+ * GET /api/irpef-rates/[year]
+ * Get the IRPEF brackets in force for a specific year,
+ * or the default brackets while no rate table is stored
+ * Public endpoint - no authentication required for reading rates
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<IrpefRate[]>>> {
+  try {
+    await connectDB();
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      irpefRateYearParamSchema,
+      resolvedParams
+    );
+
+    const year = parseInt(validatedParams.year);
+    const rates = await findIrpefRatesInForce(year);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data:
+          rates.length > 0
+            ? rates.map(formatIrpefRateResponse)
+            : formatDefaultIrpefRates(year),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get IRPEF rates by year error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/irpef-rates/[year]
+ * Replace the IRPEF brackets of a specific year
+ * Requires super admin role
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<IrpefRate[]>>> {
+  try {
+    // Verify super admin authentication
+    const authResult = await requireSuperAdmin(request);
+    if (!authResult.success || !authResult.user) {
+      return authResult.response as NextResponse<ApiResponse<IrpefRate[]>>;
+    }
+
+    await connectDB();
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      irpefRateYearParamSchema,
+      resolvedParams
+    );
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { brackets } = validateSchema(irpefRateTableSchema, body);
+
+    const rates = await replaceIrpefRatesForYear(
+      parseInt(validatedParams.year),
+      brackets
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Aliquote IRPEF aggiornate con successo",
+        data: rates.map(formatIrpefRateResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Update IRPEF rates error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Aliquote IRPEF non valide",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione delle aliquote IRPEF",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
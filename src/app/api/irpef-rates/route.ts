@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { findIrpefRatesInForce } from "@/utils/irpefRateQueries";
+import { ApiResponse, IIrpefRate } from "@/types";
+import { IrpefRate } from "@/services/irpefRateService";
+import {
+  getDefaultIrpefBrackets,
+  getDefaultIrpefTableYear,
+} from "@/utils/irpefCalculations";
+
+/**
+ * Helper function to format IRPEF rate response
+ * Pure function - follows functional programming principles
+ */
+const formatIrpefRateResponse = (rate: IIrpefRate): IrpefRate => ({
+  _id: rate._id.toString(),
+  rate: rate.rate,
+  lowerBound: rate.lowerBound,
+  ...(rate.upperBound !== undefined &&
+    rate.upperBound !== null && { upperBound: rate.upperBound }),
+  year: rate.year,
+  isActive: rate.isActive,
+});
+
+/**
+ * Helper function to format the default brackets in force for a year
+ * Served while no rate table is stored, as used by the IRPEF calculation
+ */
+const formatDefaultIrpefRates = (year: number): IrpefRate[] => {
+  const tableYear = getDefaultIrpefTableYear(year);
+  return getDefaultIrpefBrackets(tableYear).map((bracket) => ({
+    ...bracket,
+    year: tableYear,
+    isActive: true,
+  }));
+};
+
+/**
+ * GET /api/irpef-rates
+ * Get the IRPEF brackets in force for the current year,
+ * or the default brackets while no rate table is stored
+ * Public endpoint - no authentication required for reading rates
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<IrpefRate[]>>> {
+  try {
+    await connectDB();
+
+    const currentYear = new Date().getFullYear();
+    const rates = await findIrpefRatesInForce(currentYear);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data:
+          rates.length > 0
+            ? rates.map(formatIrpefRateResponse)
+            : formatDefaultIrpefRates(currentYear),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get IRPEF rates error:", error);
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import { connectDB } from "@/lib/database/mongodb";
+import {
+  validateSchema,
+  isValidationError,
+  irpefCalculationSchema,
+} from "@/lib/validations/schemas";
+import { calculateIrpef } from "@/utils/irpefCalculations";
+import { findIrpefRatesInForce } from "@/utils/irpefRateQueries";
+import { ApiResponse, IrpefCalculationResult } from "@/types";
+
+/**
+ * POST /api/irpef/calculate
+ * Calculate IRPEF for the ordinario regime
+ * Returns the per-bracket breakdown, detrazioni and addizionali
+ * Uses the stored rate table in force for the year, or the default brackets
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<IrpefCalculationResult>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateSchema(irpefCalculationSchema, body);
+
+    const rates = await findIrpefRatesInForce(validatedData.year);
+    const result =
+      rates.length > 0
+        ? calculateIrpef(validatedData, rates)
+        : calculateIrpef(validatedData);
+
+    return NextResponse.json({ success: true, data: result }, { status: 200 });
+  } catch (error) {
+    console.error("IRPEF calculation error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati per il calcolo IRPEF non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -22,6 +22,7 @@ const formatProfessionalFundResponse = (
     contributionRate: param.contributionRate,
     minimumContribution: param.minimumContribution,
     fixedAnnualContributions: param.fixedAnnualContributions,
+    integrativeContributionRate: param.integrativeContributionRate,
     year: param.year,
   })),
   allowManualEdit: fund.allowManualEdit,
@@ -31,6 +31,7 @@ const formatProfessionalFundResponse = (
     contributionRate: param.contributionRate,
     minimumContribution: param.minimumContribution,
     fixedAnnualContributions: param.fixedAnnualContributions,
+    integrativeContributionRate: param.integrativeContributionRate,
     year: param.year,
   })),
   allowManualEdit: fund.allowManualEdit,
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  reportIdParamSchema,
+} from "@/lib/validations/schemas";
+import { deleteReportForUser, findReportForUser } from "@/utils/reportQueries";
+import { renderReport } from "@/lib/reports";
+import { ApiResponse } from "@/types";
+
+/**
+ * GET /api/reports/[id]
+ * Download the file of a report generated by the authenticated user,
+ * rendered from its content as generated, so later changes to invoices
+ * and costs do not alter it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate report ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(reportIdParamSchema, resolvedParams);
+
+    const report = await findReportForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!report) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Report non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    const { content, mimeType } = renderReport(report.document, report.format);
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": content.length.toString(),
+        "Content-Disposition": `attachment; filename="${report.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Download report error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID report non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reports/[id]
+ * Delete a report generated by the authenticated user
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate report ID parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(reportIdParamSchema, resolvedParams);
+
+    const report = await deleteReportForUser(
+      validatedParams.id,
+      userData.userId
+    );
+
+    if (!report) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Report non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Report eliminato con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete report error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID report non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  reportRequestSchema,
+} from "@/lib/validations/schemas";
+import {
+  buildReportForUser,
+  createReport,
+  findReportsByUserId,
+} from "@/utils/reportQueries";
+import {
+  buildReportName,
+  resolveReportPeriod,
+} from "@/utils/reportCalculations";
+import { renderReport } from "@/lib/reports";
+import { ApiResponse, IReport, ReportResponse } from "@/types";
+
+/**
+ * Helper function to format report data for response
+ * Pure function - follows functional programming principles
+ */
+const formatReportResponse = (
+  report: Omit<IReport, "document">
+): ReportResponse => ({
+  id: report._id?.toString() || "unknown",
+  name: report.name,
+  type: report.type,
+  format: report.format,
+  period: report.period,
+  startDate: report.startDate.toISOString(),
+  endDate: report.endDate.toISOString(),
+  includeCharts: report.includeCharts,
+  includeRawData: report.includeRawData,
+  includeAnalytics: report.includeAnalytics,
+  includeInsights: report.includeInsights,
+  customSections: report.customSections,
+  fileName: report.fileName,
+  size: report.size,
+  createdAt: report.createdAt?.toISOString() || new Date().toISOString(),
+});
+
+/**
+ * GET /api/reports
+ * Get the reports generated by the authenticated user
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ReportResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    const reports = await findReportsByUserId(userData.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: reports.map(formatReportResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get reports error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reports
+ * Generate a report for the authenticated user and persist it
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ReportResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const config = validateSchema(reportRequestSchema, body);
+
+    const range = resolveReportPeriod(
+      config.period,
+      config.startDate,
+      config.endDate
+    );
+
+    // Build and render the report, its content is stored instead of the file
+    const document = await buildReportForUser(userData.userId, config, range);
+    const { content, mimeType, extension } = renderReport(
+      document,
+      config.format
+    );
+
+    const report = await createReport({
+      userId: userData.userId,
+      name: buildReportName(config.type, range),
+      type: config.type,
+      format: config.format,
+      period: config.period,
+      startDate: range.startDate,
+      endDate: range.endDate,
+      includeCharts: config.includeCharts,
+      includeRawData: config.includeRawData,
+      includeAnalytics: config.includeAnalytics,
+      includeInsights: config.includeInsights,
+      customSections: config.customSections,
+      fileName: `report-${config.type}-${range.endDate
+        .toISOString()
+        .slice(0, 10)}.${extension}`,
+      mimeType,
+      size: content.length,
+      document,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Report generato con successo",
+        data: formatReportResponse(report),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Generate report error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Configurazione del report non valida",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore nella generazione del report",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  taxPaymentParamsSchema,
+} from "@/lib/validations/schemas";
+import { deleteTaxPayment } from "@/utils/taxPaymentQueries";
+import { ApiResponse } from "@/types";
+
+/**
+ * DELETE /api/tax-payments/[year]/[paymentId]
+ * Mark a scheduled payment of the authenticated user as unpaid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string; paymentId: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year and payment ID parameters
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      taxPaymentParamsSchema,
+      resolvedParams
+    );
+
+    const deleted = await deleteTaxPayment(
+      userData.userId,
+      parseInt(validatedParams.year),
+      validatedParams.paymentId
+    );
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Pagamento non trovato",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Pagamento annullato con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete tax payment error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Pagamento non valido",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  taxPaymentYearParamSchema,
+} from "@/lib/validations/schemas";
+import { findTaxPaymentsByUserAndYear } from "@/utils/taxPaymentQueries";
+import { ApiResponse, ITaxPayment, TaxPaymentResponse } from "@/types";
+
+/**
+ * Helper function to format tax payment data for response
+ * Pure function - follows functional programming principles
+ */
+const formatTaxPaymentResponse = (
+  payment: ITaxPayment
+): TaxPaymentResponse => ({
+  fiscalYear: payment.fiscalYear,
+  paymentId: payment.paymentId,
+  amount: payment.amount,
+  paidAt: new Date(payment.paidAt).toISOString(),
+});
+
+/**
+ * GET /api/tax-payments/[year]
+ * Get the payments of the authenticated user marked as paid in the schedule
+ * of a fiscal year (saldo of that year and acconti of the next one)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<TaxPaymentResponse[]>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      taxPaymentYearParamSchema,
+      resolvedParams
+    );
+    const year = parseInt(validatedParams.year);
+
+    const payments = await findTaxPaymentsByUserAndYear(userData.userId, year);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payments.map(formatTaxPaymentResponse),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get tax payments error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
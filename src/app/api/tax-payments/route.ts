@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  taxPaymentSchema,
+} from "@/lib/validations/schemas";
+import { upsertTaxPayment } from "@/utils/taxPaymentQueries";
+import {
+  ApiResponse,
+  ITaxPayment,
+  TaxPaymentRequest,
+  TaxPaymentResponse,
+} from "@/types";
+
+/**
+ * Helper function to format tax payment data for response
+ * Pure function - follows functional programming principles
+ */
+const formatTaxPaymentResponse = (
+  payment: ITaxPayment
+): TaxPaymentResponse => ({
+  fiscalYear: payment.fiscalYear,
+  paymentId: payment.paymentId,
+  amount: payment.amount,
+  paidAt: new Date(payment.paidAt).toISOString(),
+});
+
+/**
+ * POST /api/tax-payments
+ * Mark a scheduled tax or contribution payment of the authenticated user as paid
+ * The payment date defaults to today
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<TaxPaymentResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: TaxPaymentRequest = validateSchema(
+      taxPaymentSchema,
+      body
+    );
+
+    const payment = await upsertTaxPayment(
+      userData.userId,
+      validatedData.fiscalYear,
+      validatedData.paymentId,
+      validatedData.amount,
+      validatedData.paidAt ? new Date(validatedData.paidAt) : new Date()
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Pagamento registrato con successo",
+        data: formatTaxPaymentResponse(payment),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Save tax payment error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati del pagamento non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione del pagamento",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,10 @@ import { User } from "@/models/User";
 import { UserSettings } from "@/models/UserSettings";
 import { Invoice } from "@/models/Invoice";
 import { Cost } from "@/models/Cost";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 
 /**
  * User Data Export API Route
@@ -87,8 +91,8 @@ export async function GET(request: NextRequest) {
     ]);
 
     // Calculate statistics
-    const totalRevenue = invoices.reduce(
-      (sum, invoice) => sum + (invoice.amount || 0),
+    const totalRevenue = filterRevenueInvoices(invoices).reduce(
+      (sum, invoice) => sum + getSignedAmount(invoice),
       0
     );
     const totalExpenses = costs.reduce(
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  withholdingCertificateParamsSchema,
+} from "@/lib/validations/schemas";
+import { deleteWithholdingCertificate } from "@/utils/withholdingQueries";
+import { ApiResponse } from "@/types";
+
+/**
+ * DELETE /api/withholding-certificates/[year]/[id]
+ * Delete a certificate recorded by the authenticated user
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string; id: string }> }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year and certificate ID parameters
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      withholdingCertificateParamsSchema,
+      resolvedParams
+    );
+
+    const deleted = await deleteWithholdingCertificate(
+      userData.userId,
+      parseInt(validatedParams.year),
+      validatedParams.id
+    );
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Certificazione non trovata",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Certificazione eliminata con successo",
+        data: null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete withholding certificate error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Certificazione non valida",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
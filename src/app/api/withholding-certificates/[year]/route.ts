@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  withholdingYearParamSchema,
+} from "@/lib/validations/schemas";
+import { getWithholdingSummary } from "@/utils/withholdingQueries";
+import { ApiResponse, WithholdingSummary } from "@/types";
+
+/**
+ * GET /api/withholding-certificates/[year]
+ * Get the withholding tax retained by the clients of the authenticated user
+ * in a year, with the comparison of their certificates and the invoices
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+): Promise<NextResponse<ApiResponse<WithholdingSummary>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate year parameter
+    const resolvedParams = await params;
+    const validatedParams = validateSchema(
+      withholdingYearParamSchema,
+      resolvedParams
+    );
+
+    const summary = await getWithholdingSummary(
+      userData.userId,
+      parseInt(validatedParams.year)
+    );
+
+    return NextResponse.json({ success: true, data: summary }, { status: 200 });
+  } catch (error) {
+    console.error("Get withholding summary error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Anno non valido",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
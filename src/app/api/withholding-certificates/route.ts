@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/database/mongodb";
+import { getUserFromRequest } from "@/lib/auth/jwt";
+import {
+  validateSchema,
+  isValidationError,
+  withholdingCertificateSchema,
+} from "@/lib/validations/schemas";
+import {
+  formatWithholdingCertificate,
+  upsertWithholdingCertificate,
+} from "@/utils/withholdingQueries";
+import { findClientByIdForUser } from "@/utils/clientQueries";
+import {
+  ApiResponse,
+  WithholdingCertificateRequest,
+  WithholdingCertificateResponse,
+} from "@/types";
+
+/**
+ * POST /api/withholding-certificates
+ * Record the certificate (Certificazione Unica) received from a client
+ * for a year, replacing the one already recorded for that client
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<WithholdingCertificateResponse>>> {
+  try {
+    await connectDB();
+
+    // Get user from JWT token
+    const userData = await getUserFromRequest(request);
+    if (!userData) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Token di autenticazione mancante o non valido",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData: WithholdingCertificateRequest = validateSchema(
+      withholdingCertificateSchema,
+      body
+    );
+
+    // Linked clients must belong to the user
+    if (
+      validatedData.clientId &&
+      !(await findClientByIdForUser(validatedData.clientId, userData.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cliente non trovato",
+        },
+        { status: 400 }
+      );
+    }
+
+    const certificate = await upsertWithholdingCertificate(
+      userData.userId,
+      validatedData
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Certificazione registrata con successo",
+        data: formatWithholdingCertificate(certificate),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Save withholding certificate error:", error);
+
+    // Handle validation errors
+    if (isValidationError(error)) {
+      const errorMessages = error.errors.issues.map((err) => err.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Dati della certificazione non validi",
+          errors: errorMessages,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Mongoose validation errors
+    if (error instanceof Error && error.message.includes("validation failed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Errore di validazione della certificazione",
+          errors: [error.message],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle generic errors
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Errore interno del server",
+      },
+      { status: 500 }
+    );
+  }
+}
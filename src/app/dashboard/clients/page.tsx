@@ -0,0 +1,40 @@
+'use client';
+
+import React, { Suspense, lazy } from 'react';
+import { LoadingSpinner } from '@/components/ui';
+import { SectionErrorBoundary } from '@/components/error-boundaries';
+import { BusinessProtection } from '@/components/auth/BusinessProtection';
+
+// Disable prerendering for this page to avoid SSR issues with React Query
+export const dynamic = 'force-dynamic';
+
+// ✅ Code splitting: Lazy load Clients component
+const Clients = lazy(() => import('@/components/clients/Clients'));
+
+/**
+ * Clients Page with Code Splitting
+ *
+ * Client registry with per-client revenue, lazy loaded
+ * behind a Suspense boundary and an error boundary.
+ */
+export default function ClientsPage() {
+    return (
+        <BusinessProtection>
+            <SectionErrorBoundary
+                sectionName="i clienti"
+                description="Errore nel caricamento del modulo clienti."
+            >
+                <Suspense fallback={
+                    <div className="flex items-center justify-center min-h-[400px]">
+                        <div className="text-center">
+                            <LoadingSpinner size="lg" />
+                            <p className="mt-4 text-gray-600">Caricamento anagrafica clienti...</p>
+                        </div>
+                    </div>
+                }>
+                    <Clients />
+                </Suspense>
+            </SectionErrorBoundary>
+        </BusinessProtection>
+    );
+}
@@ -10,6 +10,7 @@ export const dynamic = 'force-dynamic';
 
 // ✅ Code splitting: Lazy load TaxSettings component
 const TaxSettings = lazy(() => import('@/components/tax-settings/main/TaxSettings'));
+const FiscalProfileSection = lazy(() => import('@/components/tax-settings/sections/FiscalProfileSection'));
 
 /**
  * Enhanced Settings Page with Code Splitting
@@ -46,12 +47,15 @@ export default function SettingsPage() {
                         </div>
                     </div>
                 }>
-                    <TaxSettings
-                        activeTab="settings"
-                        attemptedTab={undefined}
-                        onTabChange={handleTabChange}
-                        onCancelTabChange={handleCancelTabChange}
-                    />
+                    <div className="space-y-6">
+                        <TaxSettings
+                            activeTab="settings"
+                            attemptedTab={undefined}
+                            onTabChange={handleTabChange}
+                            onCancelTabChange={handleCancelTabChange}
+                        />
+                        <FiscalProfileSection />
+                    </div>
                 </Suspense>
             </SectionErrorBoundary>
         </BusinessProtection>
@@ -1,13 +1,14 @@
 'uuse client';
 
 import React, { useState } from 'react';
-import { useCosts, useCostForm } from '@/hooks/costs';
+import { useCosts, useCostForm, useCostCategories } from '@/hooks/costs';
 // ✅ Code splitting: Lazy load CostFormWrapper (caricato solo quando necessario)
 // const CostFormWrapper = lazy(() => import('./costs/CostFormWrapper').then(module => ({ default: module.CostFormWrapper })));
 // Temporary: Use direct import for debugging
 import { CostFormWrapper } from './costs/CostFormWrapper';
 import { CostList } from './costs/CostList';
 import { SummaryCard } from './costs/SummaryCard';
+import { CostCategoryBreakdown } from './costs/CostCategoryBreakdown';
 // import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 // ✅ Ottimizzazione: Uso sistema Icon dinamico invece di import diretti
 import { Icon } from '@/components/ui';
@@ -28,6 +29,13 @@ export const Costs: React.FC = () => {
         handleDeleteCost
     } = useCosts(selectedYear);
 
+    const {
+        categories,
+        createCategory,
+        deleteCategory,
+        isSaving: categoriesSaving
+    } = useCostCategories();
+
     const {
         showForm: showNewCostForm,
         openForm: openNewCostForm,
@@ -106,6 +114,15 @@ export const Costs: React.FC = () => {
                 />
             </div>
 
+            {/* Category Breakdown */}
+            <CostCategoryBreakdown
+                costs={costs}
+                categories={categories}
+                onCreateCategory={createCategory}
+                onDeleteCategory={deleteCategory}
+                isSaving={categoriesSaving}
+            />
+
             {/* Error Display */}
             {error && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -128,6 +145,7 @@ export const Costs: React.FC = () => {
             {/* Cost List */}
             <CostList
                 costs={costs}
+                categories={categories}
                 loading={costsLoading}
                 onUpdate={handleUpdateCost}
                 onDelete={handleDeleteCost}
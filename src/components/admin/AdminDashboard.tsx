@@ -2,11 +2,16 @@
 
 import React, { useState } from 'react';
 import { UserManagement } from './UserManagement';
+import { IrpefRateManagement } from './IrpefRateManagement';
+import { InpsParametersManagement } from './InpsParametersManagement';
+import { useAuthContext } from '@/providers/AuthProvider';
 import {
     UsersIcon,
     ChartBarIcon,
     CogIcon,
-    ShieldCheckIcon
+    ShieldCheckIcon,
+    CalculatorIcon,
+    BanknotesIcon
 } from '@heroicons/react/24/outline';
 
 /**
@@ -15,6 +20,8 @@ import {
  * Main container for all admin-related functionality.
  * Organized in clear sections following admin UX best practices:
  * - User management (primary function)
+ * - IRPEF rate tables (super admin only)
+ * - INPS Gestione Separata parameters (super admin only)
  * - System statistics
  * - Configuration settings
  * - Security monitoring
@@ -22,7 +29,9 @@ import {
  * Follows SRP by delegating specific functionality to specialized components.
  */
 export const AdminDashboard: React.FC = () => {
-    const [activeSection, setActiveSection] = useState<'users' | 'stats' | 'settings' | 'security'>('users');
+    const { user } = useAuthContext();
+    const isSuperAdmin = user?.role === 'super_admin';
+    const [activeSection, setActiveSection] = useState<'users' | 'irpef' | 'inps' | 'stats' | 'settings' | 'security'>('users');
 
     const sections = [
         {
@@ -33,6 +42,21 @@ export const AdminDashboard: React.FC = () => {
             color: 'text-blue-600',
             bgColor: 'bg-blue-50',
         },
+        ...(isSuperAdmin ? [{
+            id: 'irpef' as const,
+            title: 'Aliquote IRPEF',
+            description: 'Scaglioni IRPEF per anno fiscale',
+            icon: CalculatorIcon,
+            color: 'text-amber-600',
+            bgColor: 'bg-amber-50',
+        }, {
+            id: 'inps' as const,
+            title: 'Parametri INPS',
+            description: 'Aliquote, massimale e minimale della Gestione Separata',
+            icon: BanknotesIcon,
+            color: 'text-teal-600',
+            bgColor: 'bg-teal-50',
+        }] : []),
         {
             id: 'stats' as const,
             title: 'Statistiche',
@@ -102,6 +126,30 @@ export const AdminDashboard: React.FC = () => {
                     </div>
                 )}
 
+                {activeSection === 'irpef' && isSuperAdmin && (
+                    <div>
+                        <div className="mb-6">
+                            <h2 className="heading-md mb-2">Aliquote IRPEF</h2>
+                            <p className="text-tertiary">
+                                Gestisci gli scaglioni IRPEF usati per il calcolo delle imposte in regime ordinario.
+                            </p>
+                        </div>
+                        <IrpefRateManagement />
+                    </div>
+                )}
+
+                {activeSection === 'inps' && isSuperAdmin && (
+                    <div>
+                        <div className="mb-6">
+                            <h2 className="heading-md mb-2">Parametri INPS</h2>
+                            <p className="text-tertiary">
+                                Gestisci aliquote, massimale e minimale della Gestione Separata per ogni anno.
+                            </p>
+                        </div>
+                        <InpsParametersManagement />
+                    </div>
+                )}
+
                 {activeSection === 'stats' && (
                     <div>
                         <div className="mb-6">
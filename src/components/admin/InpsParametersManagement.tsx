@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { inpsService, InpsParameters, InpsRate } from '@/services/inpsService';
+import {
+    calculateInpsMinContributions,
+    getDefaultInpsParameters,
+    validateInpsParameters
+} from '@/utils/inpsCalculations';
+import { formatCurrency } from '@/utils/formatters';
+import {
+    BanknotesIcon,
+    PlusIcon,
+    TrashIcon,
+    ExclamationTriangleIcon,
+    CheckCircleIcon
+} from '@heroicons/react/24/outline';
+
+/**
+ * INPS Parameters Management Component
+ *
+ * Allows super admins to manage the Gestione Separata parameters of each year.
+ * Features:
+ * - Year list with creation and deletion
+ * - Rate editing for every contributor category
+ * - Massimale and minimale editing with minimum contribution preview
+ * - Live validation
+ *
+ * Security:
+ * - Only rendered for super admin users
+ * - Changes are validated again server-side
+ */
+
+interface ParametersForm {
+    rates: InpsRate[];
+    maxIncome: string;
+    minIncome: string;
+}
+
+const toForm = (parameters: Pick<InpsParameters, 'rates' | 'maxIncome' | 'minIncome'>): ParametersForm => ({
+    rates: parameters.rates.map((rate) => ({ ...rate })),
+    maxIncome: parameters.maxIncome.toString(),
+    minIncome: parameters.minIncome.toString(),
+});
+
+export const InpsParametersManagement: React.FC = () => {
+    const [parametersList, setParametersList] = useState<InpsParameters[]>([]);
+    const [selectedYear, setSelectedYear] = useState<number | null>(null);
+    const [form, setForm] = useState<ParametersForm | null>(null);
+    const [newYear, setNewYear] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    // Load parameters of all years
+    const loadParameters = useCallback(async (yearToSelect?: number) => {
+        try {
+            setLoading(true);
+            setError('');
+
+            const parameters = await inpsService.getAllParameters();
+            setParametersList(parameters);
+
+            const selected = parameters.find((p) => p.year === yearToSelect) || parameters[0];
+            setSelectedYear(selected ? selected.year : null);
+            setForm(selected ? toForm(selected) : null);
+        } catch (err: unknown) {
+            console.error('Error loading INPS parameters:', err);
+            setError('Errore nel caricamento dei parametri INPS');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadParameters();
+    }, [loadParameters]);
+
+    const parsedForm = useMemo(() => form && {
+        rates: form.rates.map((rate) => ({ ...rate, rate: Number(rate.rate) })),
+        maxIncome: Number(form.maxIncome),
+        minIncome: Number(form.minIncome),
+    }, [form]);
+
+    const validation = useMemo(
+        () => parsedForm ? validateInpsParameters(parsedForm) : { isValid: false, errors: [] },
+        [parsedForm]
+    );
+
+    const minContributions = useMemo(
+        () => parsedForm ? calculateInpsMinContributions(parsedForm.rates, parsedForm.minIncome) : {},
+        [parsedForm]
+    );
+
+    // Form handlers
+    const handleSelectYear = (year: number) => {
+        const selected = parametersList.find((p) => p.year === year);
+        if (!selected) return;
+
+        setSelectedYear(year);
+        setForm(toForm(selected));
+        setSuccessMessage('');
+        setError('');
+    };
+
+    const handleRateChange = (index: number, field: 'description' | 'rate', value: string) => {
+        setSuccessMessage('');
+        setForm((prev) => prev && {
+            ...prev,
+            rates: prev.rates.map((rate, i) => (
+                i === index
+                    ? { ...rate, [field]: field === 'rate' ? Number(value) : value }
+                    : rate
+            )),
+        });
+    };
+
+    const handleIncomeChange = (field: 'maxIncome' | 'minIncome', value: string) => {
+        setSuccessMessage('');
+        setForm((prev) => prev && { ...prev, [field]: value });
+    };
+
+    const handleSave = async () => {
+        if (!parsedForm || selectedYear === null || !validation.isValid) return;
+
+        try {
+            setSaving(true);
+            setError('');
+
+            await inpsService.updateParameters({ year: selectedYear, ...parsedForm });
+            await loadParameters(selectedYear);
+            setSuccessMessage('Parametri INPS salvati con successo');
+        } catch (err: unknown) {
+            console.error('Error saving INPS parameters:', err);
+            setError(err instanceof Error ? err.message : 'Errore nel salvataggio dei parametri INPS');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        const year = Number(newYear);
+        if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+            setError('Inserisci un anno valido');
+            return;
+        }
+
+        try {
+            setSaving(true);
+            setError('');
+
+            // New years start from the selected year values, or from the defaults
+            const base = parsedForm || getDefaultInpsParameters(year);
+            await inpsService.createParameters({
+                year,
+                rates: base.rates,
+                maxIncome: base.maxIncome,
+                minIncome: base.minIncome,
+            });
+            setNewYear('');
+            await loadParameters(year);
+            setSuccessMessage(`Parametri INPS ${year} creati con successo`);
+        } catch (err: unknown) {
+            console.error('Error creating INPS parameters:', err);
+            setError(err instanceof Error ? err.message : 'Errore nella creazione dei parametri INPS');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (selectedYear === null) return;
+        if (!window.confirm(`Eliminare i parametri INPS del ${selectedYear}?`)) return;
+
+        try {
+            setSaving(true);
+            setError('');
+
+            await inpsService.deleteParameters(selectedYear);
+            await loadParameters();
+            setSuccessMessage(`Parametri INPS ${selectedYear} eliminati`);
+        } catch (err: unknown) {
+            console.error('Error deleting INPS parameters:', err);
+            setError(err instanceof Error ? err.message : 'Errore nell\'eliminazione dei parametri INPS');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="card">
+                <div className="card-body p-8 text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    <p className="text-sm text-gray-600 mt-2">Caricamento parametri INPS...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Year Selection */}
+            <div className="card">
+                <div className="card-header">
+                    <div className="flex items-center space-x-2">
+                        <BanknotesIcon className="h-5 w-5 text-primary" />
+                        <h3 className="heading-sm">Anni Configurati</h3>
+                    </div>
+                </div>
+                <div className="card-body">
+                    <div className="flex flex-col md:flex-row md:items-center gap-4">
+                        <select
+                            value={selectedYear ?? ''}
+                            onChange={(e) => handleSelectYear(Number(e.target.value))}
+                            className="input-field md:w-48"
+                            disabled={parametersList.length === 0}
+                        >
+                            {parametersList.map((parameters) => (
+                                <option key={parameters.year} value={parameters.year}>{parameters.year}</option>
+                            ))}
+                        </select>
+
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="number"
+                                min={2000}
+                                max={2100}
+                                placeholder="Nuovo anno"
+                                value={newYear}
+                                onChange={(e) => setNewYear(e.target.value)}
+                                className="input-field md:w-36"
+                            />
+                            <button
+                                onClick={handleCreate}
+                                disabled={saving || newYear === ''}
+                                className="btn-secondary flex items-center space-x-1"
+                            >
+                                <PlusIcon className="h-4 w-4" />
+                                <span>Crea</span>
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            )}
+
+            {successMessage && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+                    <CheckCircleIcon className="h-5 w-5 text-green-600" />
+                    <p className="text-sm text-green-700">{successMessage}</p>
+                </div>
+            )}
+
+            {form && selectedYear !== null && (
+                <>
+                    {/* Income Limits */}
+                    <div className="card">
+                        <div className="card-header">
+                            <h3 className="heading-sm">Massimale e Minimale {selectedYear}</h3>
+                        </div>
+                        <div className="card-body grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Massimale (€)
+                                </label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={form.maxIncome}
+                                    onChange={(e) => handleIncomeChange('maxIncome', e.target.value)}
+                                    className="input-field"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Minimale (€)
+                                </label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={form.minIncome}
+                                    onChange={(e) => handleIncomeChange('minIncome', e.target.value)}
+                                    className="input-field"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Rates */}
+                    <div className="card">
+                        <div className="card-header">
+                            <h3 className="heading-sm">Aliquote Gestione Separata {selectedYear}</h3>
+                        </div>
+                        <div className="card-body p-0">
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Categoria
+                                            </th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Descrizione
+                                            </th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Aliquota (%)
+                                            </th>
+                                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Contributo Minimo
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {form.rates.map((rate, index) => (
+                                            <tr key={rate.type}>
+                                                <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                                                    {rate.type}
+                                                </td>
+                                                <td className="px-6 py-3">
+                                                    <input
+                                                        type="text"
+                                                        value={rate.description}
+                                                        onChange={(e) => handleRateChange(index, 'description', e.target.value)}
+                                                        className="input-field"
+                                                    />
+                                                </td>
+                                                <td className="px-6 py-3">
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        max={100}
+                                                        step={0.01}
+                                                        value={rate.rate}
+                                                        onChange={(e) => handleRateChange(index, 'rate', e.target.value)}
+                                                        className="input-field"
+                                                    />
+                                                </td>
+                                                <td className="px-6 py-3 text-right text-sm text-gray-900">
+                                                    {formatCurrency(minContributions[rate.type] || 0)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Validation Errors */}
+                    {!validation.isValid && (
+                        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                            <div className="flex items-center space-x-2 mb-2">
+                                <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600" />
+                                <p className="text-sm font-medium text-yellow-800">Parametri non validi</p>
+                            </div>
+                            <ul className="list-disc list-inside text-sm text-yellow-700">
+                                {validation.errors.map((message) => (
+                                    <li key={message}>{message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex justify-end space-x-3">
+                        <button
+                            onClick={handleDelete}
+                            disabled={saving}
+                            className="btn-secondary flex items-center space-x-1 text-red-600"
+                        >
+                            <TrashIcon className="h-4 w-4" />
+                            <span>Elimina Anno</span>
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || !validation.isValid}
+                            className="btn-primary"
+                        >
+                            {saving ? 'Salvataggio...' : 'Salva Parametri'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
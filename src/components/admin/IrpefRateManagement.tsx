@@ -0,0 +1,298 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { irpefRateService } from '@/services/irpefRateService';
+import { validateIrpefBrackets } from '@/utils/irpefCalculations';
+import {
+    CalculatorIcon,
+    PlusIcon,
+    TrashIcon,
+    ExclamationTriangleIcon,
+    CheckCircleIcon
+} from '@heroicons/react/24/outline';
+
+/**
+ * IRPEF Rate Management Component
+ *
+ * Allows super admins to edit the IRPEF bracket table of each year.
+ * Features:
+ * - Year selection
+ * - Inline bracket editing (lower bound, upper bound, rate)
+ * - Live validation: brackets must be contiguous and must not overlap
+ *
+ * Security:
+ * - Only rendered for super admin users
+ * - Changes are validated again server-side
+ */
+
+interface BracketRow {
+    lowerBound: string;
+    upperBound: string;
+    rate: string;
+}
+
+const FIRST_EDITABLE_YEAR = 2022;
+
+const emptyRow = (lowerBound = ''): BracketRow => ({
+    lowerBound,
+    upperBound: '',
+    rate: '',
+});
+
+const toBrackets = (rows: BracketRow[]) =>
+    rows.map((row) => ({
+        lowerBound: Number(row.lowerBound),
+        upperBound: row.upperBound === '' ? undefined : Number(row.upperBound),
+        rate: Number(row.rate),
+    }));
+
+export const IrpefRateManagement: React.FC = () => {
+    const currentYear = new Date().getFullYear();
+    const availableYears = useMemo(
+        () => Array.from(
+            { length: currentYear + 1 - FIRST_EDITABLE_YEAR + 1 },
+            (_, i) => currentYear + 1 - i
+        ),
+        [currentYear]
+    );
+
+    const [selectedYear, setSelectedYear] = useState(currentYear);
+    const [rows, setRows] = useState<BracketRow[]>([]);
+    const [inheritedFromYear, setInheritedFromYear] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState(false);
+
+    // Load rates for the selected year
+    const loadRates = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError('');
+            setSuccess(false);
+
+            const rates = await irpefRateService.getRatesByYear(selectedYear);
+            const sorted = [...rates].sort((a, b) => a.lowerBound - b.lowerBound);
+
+            setRows(sorted.map((rate) => ({
+                lowerBound: rate.lowerBound.toString(),
+                upperBound: rate.upperBound?.toString() ?? '',
+                rate: rate.rate.toString(),
+            })));
+            setInheritedFromYear(
+                sorted.length > 0 && sorted[0].year !== selectedYear ? sorted[0].year : null
+            );
+        } catch (err: unknown) {
+            console.error('Error loading IRPEF rates:', err);
+            setRows([emptyRow('0')]);
+            setInheritedFromYear(null);
+        } finally {
+            setLoading(false);
+        }
+    }, [selectedYear]);
+
+    useEffect(() => {
+        loadRates();
+    }, [loadRates]);
+
+    const validation = useMemo(() => validateIrpefBrackets(toBrackets(rows)), [rows]);
+
+    // Row handlers
+    const handleRowChange = (index: number, field: keyof BracketRow, value: string) => {
+        setSuccess(false);
+        setRows((prevRows) => prevRows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const handleAddRow = () => {
+        setSuccess(false);
+        setRows((prevRows) => [
+            ...prevRows,
+            emptyRow(prevRows.length > 0 ? prevRows[prevRows.length - 1].upperBound : '0'),
+        ]);
+    };
+
+    const handleRemoveRow = (index: number) => {
+        setSuccess(false);
+        setRows((prevRows) => prevRows.filter((_, i) => i !== index));
+    };
+
+    const handleSave = async () => {
+        if (!validation.isValid) return;
+
+        try {
+            setSaving(true);
+            setError('');
+
+            await irpefRateService.updateRatesByYear(selectedYear, toBrackets(rows));
+            await loadRates();
+            setSuccess(true);
+        } catch (err: unknown) {
+            console.error('Error saving IRPEF rates:', err);
+            const errorMessage = err instanceof Error
+                ? err.message
+                : 'Errore nel salvataggio delle aliquote IRPEF';
+            setError(errorMessage);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Year Selection */}
+            <div className="card">
+                <div className="card-header">
+                    <div className="flex items-center space-x-2">
+                        <CalculatorIcon className="h-5 w-5 text-primary" />
+                        <h3 className="heading-sm">Anno Fiscale</h3>
+                    </div>
+                </div>
+                <div className="card-body">
+                    <select
+                        value={selectedYear}
+                        onChange={(e) => setSelectedYear(Number(e.target.value))}
+                        className="input-field md:w-48"
+                    >
+                        {availableYears.map((year) => (
+                            <option key={year} value={year}>{year}</option>
+                        ))}
+                    </select>
+                    {inheritedFromYear && (
+                        <p className="text-sm text-gray-600 mt-2">
+                            Nessuna tabella specifica per il {selectedYear}: sono mostrati gli scaglioni in vigore dal {inheritedFromYear}.
+                            Salvando verrà creata la tabella del {selectedYear}.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {/* Brackets Table */}
+            <div className="card">
+                <div className="card-header">
+                    <h3 className="heading-sm">Scaglioni IRPEF {selectedYear}</h3>
+                </div>
+                <div className="card-body p-0">
+                    {error && (
+                        <div className="p-4 bg-red-50 border-b border-red-200">
+                            <p className="text-sm text-red-700">{error}</p>
+                        </div>
+                    )}
+
+                    {success && (
+                        <div className="p-4 bg-green-50 border-b border-green-200 flex items-center space-x-2">
+                            <CheckCircleIcon className="h-5 w-5 text-green-600" />
+                            <p className="text-sm text-green-700">Aliquote IRPEF salvate con successo</p>
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="p-8 text-center">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                            <p className="text-sm text-gray-600 mt-2">Caricamento aliquote...</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Da (€)
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            A (€)
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Aliquota (%)
+                                        </th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Azioni
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {rows.map((row, index) => (
+                                        <tr key={index}>
+                                            <td className="px-6 py-3">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={row.lowerBound}
+                                                    onChange={(e) => handleRowChange(index, 'lowerBound', e.target.value)}
+                                                    className="input-field"
+                                                />
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    placeholder="Illimitato"
+                                                    value={row.upperBound}
+                                                    onChange={(e) => handleRowChange(index, 'upperBound', e.target.value)}
+                                                    className="input-field"
+                                                />
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={100}
+                                                    step={0.01}
+                                                    value={row.rate}
+                                                    onChange={(e) => handleRowChange(index, 'rate', e.target.value)}
+                                                    className="input-field"
+                                                />
+                                            </td>
+                                            <td className="px-6 py-3 text-right">
+                                                <button
+                                                    onClick={() => handleRemoveRow(index)}
+                                                    className="p-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded"
+                                                    title="Rimuovi scaglione"
+                                                >
+                                                    <TrashIcon className="h-4 w-4" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Validation Errors */}
+            {!loading && !validation.isValid && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <div className="flex items-center space-x-2 mb-2">
+                        <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600" />
+                        <p className="text-sm font-medium text-yellow-800">Tabella non valida</p>
+                    </div>
+                    <ul className="list-disc list-inside text-sm text-yellow-700">
+                        {validation.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-3">
+                <button
+                    onClick={handleAddRow}
+                    disabled={loading || saving}
+                    className="btn-secondary flex items-center space-x-1"
+                >
+                    <PlusIcon className="h-4 w-4" />
+                    <span>Aggiungi Scaglione</span>
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={loading || saving || !validation.isValid}
+                    className="btn-primary"
+                >
+                    {saving ? 'Salvataggio...' : 'Salva Aliquote'}
+                </button>
+            </div>
+        </div>
+    );
+};
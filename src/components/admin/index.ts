@@ -7,6 +7,8 @@
 
 export { AdminDashboard } from "./AdminDashboard";
 export { UserManagement } from "./UserManagement";
+export { IrpefRateManagement } from "./IrpefRateManagement";
+export { InpsParametersManagement } from "./InpsParametersManagement";
 export { EditUserModal } from "./EditUserModal";
 export { ResetPasswordModal } from "./ResetPasswordModal";
 export { DeleteUserModal } from "./DeleteUserModal";
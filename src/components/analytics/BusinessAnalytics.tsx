@@ -14,6 +14,7 @@ import { KPIDashboard } from './KPIDashboard';
 import { AdvancedFilters } from './AdvancedFilters';
 import { useBusinessAnalytics } from '@/hooks/analytics/useBusinessAnalytics';
 import { useAdvancedFilters } from '@/hooks/analytics/useAdvancedFilters';
+import { useClients } from '@/hooks/clients';
 import { ChartAnalyticsData, KPIMetric, BusinessInsight } from '../charts/advanced/types';
 
 /**
@@ -281,6 +282,10 @@ export const BusinessAnalytics: React.FC<BusinessAnalyticsProps> = ({
         ];
     }, [revenueData, costData]);
 
+    // Client registry names, offered as client filters
+    const { clients } = useClients();
+    const clientNames = useMemo(() => clients.map(client => client.name), [clients]);
+
     // Use advanced filters hook
     const {
         criteria,
@@ -291,7 +296,7 @@ export const BusinessAnalytics: React.FC<BusinessAnalyticsProps> = ({
         statistics,
         resetFilters,
         applyFilters
-    } = useAdvancedFilters(filterableData);
+    } = useAdvancedFilters(filterableData, undefined, clientNames);
 
     if (isLoading) {
         return (
@@ -41,6 +41,7 @@ export interface CashFlowChartProps {
  * - Responsive design for mobile
  * - Italian currency formatting
  * - Month-over-month comparison
+ * - Scheduled tax payments as future outflows
  * 
  * Following SOLID principles:
  * - Single Responsibility: Only handles cash flow visualization
@@ -70,6 +71,7 @@ export const CashFlowChart: React.FC<CashFlowChartProps> = ({
 
   // Transform data using utility function (SRP: data transformation separated)
   const chartData = transformCashFlowData(data);
+  const hasScheduledPayments = chartData.some((point) => (point.scheduledPayments ?? 0) > 0);
 
   const chartContent = (
     <ResponsiveContainer width="100%" height={defaultConfig.height}>
@@ -128,6 +130,19 @@ export const CashFlowChart: React.FC<CashFlowChartProps> = ({
           name="Uscite"
         />
 
+        {/* Scheduled Tax Payments Line */}
+        {hasScheduledPayments && (
+          <Line
+            type="monotone"
+            dataKey="scheduledPayments"
+            stroke="#F59E0B"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={{ fill: '#F59E0B', strokeWidth: 2, r: 4 }}
+            name="Scadenze fiscali"
+          />
+        )}
+
         {/* Net Cash Flow Line */}
         <Line
           type="monotone"
@@ -16,6 +16,8 @@ export interface CashFlowDataPoint extends Record<string, unknown> {
   expenses: number;
   net: number;
   date: Date;
+  scheduledPayments?: number; // Unpaid tax and contribution payments due
+  projected?: boolean; // Future month with scheduled outflows only
 }
 
 export interface TrendDataPoint extends Record<string, unknown> {
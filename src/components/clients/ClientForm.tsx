@@ -0,0 +1,417 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { PaymentTerms, VatType } from '@/types';
+import { LoadingSpinner } from '@/components/ui';
+import { Client, ClientData } from '@/services/clientService';
+import { paymentTermsOptions, vatOptions } from '@/components/invoices/NewInvoiceForm';
+import { isValidTaxCode, isValidVatNumber } from '@/utils/clientCalculations';
+import { sanitizeInput } from '@/utils/security';
+
+/**
+ * Client Form Component
+ * Creates and edits the anagrafica of a client and its invoice defaults
+ */
+
+export interface ClientFormProps {
+    client?: Client | null;
+    initialName?: string;
+    onSubmit: (data: ClientData) => Promise<unknown>;
+    onCancel: () => void;
+    isLoading?: boolean;
+}
+
+interface ClientFormState {
+    name: string;
+    vatNumber: string;
+    taxCode: string;
+    street: string;
+    postalCode: string;
+    city: string;
+    province: string;
+    country: string;
+    pec: string;
+    sdiCode: string;
+    defaultPaymentTerms: PaymentTerms | '';
+    defaultVatType: VatType | '';
+    defaultVatRate: string;
+}
+
+/**
+ * Form state from an existing client, empty fields for a new one
+ */
+const toFormState = (client?: Client | null, initialName = ''): ClientFormState => ({
+    name: client?.name ?? initialName,
+    vatNumber: client?.vatNumber ?? '',
+    taxCode: client?.taxCode ?? '',
+    street: client?.address?.street ?? '',
+    postalCode: client?.address?.postalCode ?? '',
+    city: client?.address?.city ?? '',
+    province: client?.address?.province ?? '',
+    country: client?.address?.country ?? 'IT',
+    pec: client?.pec ?? '',
+    sdiCode: client?.sdiCode ?? '',
+    defaultPaymentTerms: client?.defaultPaymentTerms ?? '',
+    defaultVatType: client?.defaultVat?.vatType ?? '',
+    defaultVatRate: client?.defaultVat ? String(client.defaultVat.vatRate) : '',
+});
+
+/**
+ * Request data from the form state, leaving out empty fields
+ */
+const toClientData = (form: ClientFormState): ClientData => {
+    const optional = (value: string) => value.trim() || undefined;
+    const hasAddress = [form.street, form.postalCode, form.city, form.province].some((value) => value.trim());
+
+    return {
+        name: form.name.trim(),
+        vatNumber: optional(form.vatNumber),
+        taxCode: optional(form.taxCode),
+        address: hasAddress
+            ? {
+                street: optional(form.street),
+                postalCode: optional(form.postalCode),
+                city: optional(form.city),
+                province: optional(form.province),
+                country: form.country.trim() || 'IT',
+            }
+            : undefined,
+        pec: optional(form.pec),
+        sdiCode: optional(form.sdiCode),
+        defaultPaymentTerms: form.defaultPaymentTerms || undefined,
+        defaultVat: form.defaultVatType
+            ? { vatType: form.defaultVatType, vatRate: Number(form.defaultVatRate) || 0 }
+            : undefined,
+    };
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export const ClientForm = ({
+    client,
+    initialName,
+    onSubmit,
+    onCancel,
+    isLoading = false,
+}: ClientFormProps) => {
+    const [form, setForm] = useState<ClientFormState>(() => toFormState(client, initialName));
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const handleChange = (field: keyof ClientFormState, value: string) => {
+        setErrors((prev) => ({ ...prev, [field]: '' }));
+        setForm((prev) => ({ ...prev, [field]: sanitizeInput(value) }));
+    };
+
+    const handleVatTypeChange = (vatType: VatType | '') => {
+        const option = vatOptions.find((vatOption) => vatOption.type === vatType);
+        setForm((prev) => ({
+            ...prev,
+            defaultVatType: vatType,
+            defaultVatRate: option && vatType !== 'custom' ? String(option.rate) : prev.defaultVatRate,
+        }));
+    };
+
+    const validate = (): Record<string, string> => {
+        const validationErrors: Record<string, string> = {};
+
+        if (!form.name.trim()) {
+            validationErrors.name = 'Nome cliente è obbligatorio';
+        }
+        if (!form.vatNumber.trim() && !form.taxCode.trim()) {
+            validationErrors.vatNumber = 'Inserisci la partita IVA o il codice fiscale';
+        }
+        if (form.vatNumber.trim() && !isValidVatNumber(form.vatNumber)) {
+            validationErrors.vatNumber = 'Partita IVA non valida';
+        }
+        if (form.taxCode.trim() && !isValidTaxCode(form.taxCode)) {
+            validationErrors.taxCode = 'Codice fiscale non valido';
+        }
+        if (form.sdiCode.trim() && !/^[A-Za-z0-9]{6,7}$/.test(form.sdiCode.trim())) {
+            validationErrors.sdiCode = 'Il codice destinatario ha 6 o 7 caratteri';
+        }
+
+        return validationErrors;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitError(null);
+
+        const validationErrors = validate();
+        if (Object.keys(validationErrors).length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+
+        try {
+            await onSubmit(toClientData(form));
+        } catch (error) {
+            setSubmitError(error instanceof Error ? error.message : 'Errore nel salvataggio del cliente');
+        }
+    };
+
+    const renderError = (field: string) =>
+        errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]}</p>;
+
+    return (
+        <div className="mb-6 bg-white border border-gray-200 rounded-lg shadow-sm">
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">
+                    {client ? 'Modifica Cliente' : 'Nuovo Cliente'}
+                </h3>
+                <button
+                    onClick={onCancel}
+                    className="inline-flex items-center gap-1 text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded-md p-1 transition-colors"
+                    aria-label="Chiudi form"
+                >
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-4 space-y-6">
+                {/* Anagrafica */}
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div className="sm:col-span-3">
+                        <label htmlFor="client-name" className="block text-sm font-medium text-gray-700">
+                            Ragione Sociale / Nome *
+                        </label>
+                        <input
+                            id="client-name"
+                            type="text"
+                            value={form.name}
+                            onChange={(e) => handleChange('name', e.target.value)}
+                            className={inputClassName}
+                        />
+                        {renderError('name')}
+                    </div>
+
+                    <div>
+                        <label htmlFor="client-vat-number" className="block text-sm font-medium text-gray-700">
+                            Partita IVA
+                        </label>
+                        <input
+                            id="client-vat-number"
+                            type="text"
+                            value={form.vatNumber}
+                            onChange={(e) => handleChange('vatNumber', e.target.value)}
+                            className={inputClassName}
+                            placeholder="Es. 01234567897"
+                        />
+                        {renderError('vatNumber')}
+                    </div>
+
+                    <div>
+                        <label htmlFor="client-tax-code" className="block text-sm font-medium text-gray-700">
+                            Codice Fiscale
+                        </label>
+                        <input
+                            id="client-tax-code"
+                            type="text"
+                            value={form.taxCode}
+                            onChange={(e) => handleChange('taxCode', e.target.value)}
+                            className={inputClassName}
+                        />
+                        {renderError('taxCode')}
+                    </div>
+
+                    <div>
+                        <label htmlFor="client-sdi-code" className="block text-sm font-medium text-gray-700">
+                            Codice Destinatario SDI
+                        </label>
+                        <input
+                            id="client-sdi-code"
+                            type="text"
+                            maxLength={7}
+                            value={form.sdiCode}
+                            onChange={(e) => handleChange('sdiCode', e.target.value)}
+                            className={inputClassName}
+                            placeholder="0000000"
+                        />
+                        {renderError('sdiCode')}
+                    </div>
+
+                    <div className="sm:col-span-3">
+                        <label htmlFor="client-pec" className="block text-sm font-medium text-gray-700">
+                            PEC
+                        </label>
+                        <input
+                            id="client-pec"
+                            type="email"
+                            value={form.pec}
+                            onChange={(e) => handleChange('pec', e.target.value)}
+                            className={inputClassName}
+                        />
+                    </div>
+                </div>
+
+                {/* Address */}
+                <div className="space-y-4">
+                    <h4 className="text-md font-medium text-gray-900">Indirizzo</h4>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+                        <div className="sm:col-span-6">
+                            <label htmlFor="client-street" className="block text-sm font-medium text-gray-700">
+                                Via e numero civico
+                            </label>
+                            <input
+                                id="client-street"
+                                type="text"
+                                value={form.street}
+                                onChange={(e) => handleChange('street', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label htmlFor="client-postal-code" className="block text-sm font-medium text-gray-700">
+                                CAP
+                            </label>
+                            <input
+                                id="client-postal-code"
+                                type="text"
+                                maxLength={10}
+                                value={form.postalCode}
+                                onChange={(e) => handleChange('postalCode', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label htmlFor="client-city" className="block text-sm font-medium text-gray-700">
+                                Comune
+                            </label>
+                            <input
+                                id="client-city"
+                                type="text"
+                                value={form.city}
+                                onChange={(e) => handleChange('city', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="client-province" className="block text-sm font-medium text-gray-700">
+                                Provincia
+                            </label>
+                            <input
+                                id="client-province"
+                                type="text"
+                                maxLength={2}
+                                value={form.province}
+                                onChange={(e) => handleChange('province', e.target.value.toUpperCase())}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="client-country" className="block text-sm font-medium text-gray-700">
+                                Nazione
+                            </label>
+                            <input
+                                id="client-country"
+                                type="text"
+                                maxLength={2}
+                                value={form.country}
+                                onChange={(e) => handleChange('country', e.target.value.toUpperCase())}
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                {/* Invoice defaults */}
+                <div className="space-y-4">
+                    <h4 className="text-md font-medium text-gray-900">Valori predefiniti in fattura</h4>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                        <div>
+                            <label htmlFor="client-payment-terms" className="block text-sm font-medium text-gray-700">
+                                Termini di Pagamento
+                            </label>
+                            <select
+                                id="client-payment-terms"
+                                value={form.defaultPaymentTerms}
+                                onChange={(e) => handleChange('defaultPaymentTerms', e.target.value)}
+                                className={inputClassName}
+                            >
+                                <option value="">Nessuno</option>
+                                {paymentTermsOptions
+                                    .filter((option) => option.value !== 'custom')
+                                    .map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="client-vat-type" className="block text-sm font-medium text-gray-700">
+                                IVA
+                            </label>
+                            <select
+                                id="client-vat-type"
+                                value={form.defaultVatType}
+                                onChange={(e) => handleVatTypeChange(e.target.value as VatType | '')}
+                                className={inputClassName}
+                            >
+                                <option value="">Nessuna</option>
+                                {vatOptions.map((option) => (
+                                    <option key={option.type} value={option.type}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        {form.defaultVatType === 'custom' && (
+                            <div>
+                                <label htmlFor="client-vat-rate" className="block text-sm font-medium text-gray-700">
+                                    Aliquota Personalizzata (%)
+                                </label>
+                                <input
+                                    id="client-vat-rate"
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.1"
+                                    value={form.defaultVatRate}
+                                    onChange={(e) => handleChange('defaultVatRate', e.target.value)}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+                {/* Actions */}
+                <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-4 border-t border-gray-200">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isLoading}
+                        className="inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Annulla
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isLoading}
+                        className="inline-flex justify-center items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isLoading ? (
+                            <>
+                                <LoadingSpinner size="sm" />
+                                Salvataggio...
+                            </>
+                        ) : (
+                            <>
+                                <Save className="h-4 w-4" />
+                                Salva Cliente
+                            </>
+                        )}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default ClientForm;
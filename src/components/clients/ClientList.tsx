@@ -0,0 +1,165 @@
+'use client';
+
+import { Pencil, Trash2, UserPlus, Users } from 'lucide-react';
+import { ClientRevenue } from '@/types';
+import { Client } from '@/services/clientService';
+import { paymentTermsOptions } from '@/components/invoices/NewInvoiceForm';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Client List Component
+ * Lists the client registry with the revenue of the selected year,
+ * followed by invoiced names not yet in the registry
+ */
+
+export interface ClientListProps {
+    clients: Client[];
+    revenue: ClientRevenue[];
+    selectedYear: number;
+    onEdit: (client: Client) => void;
+    onDelete: (client: Client) => void;
+    onRegister: (clientName: string) => void;
+}
+
+export const ClientList = ({
+    clients,
+    revenue,
+    selectedYear,
+    onEdit,
+    onDelete,
+    onRegister,
+}: ClientListProps) => {
+    const unregistered = revenue.filter((entry) => entry.clientId === null);
+
+    const getClientRevenue = (client: Client) =>
+        revenue.find((entry) => entry.clientId === client.id);
+
+    const getPaymentTermsLabel = (client: Client) =>
+        paymentTermsOptions.find((option) => option.value === client.defaultPaymentTerms)?.label ?? '-';
+
+    if (clients.length === 0 && unregistered.length === 0) {
+        return (
+            <div className="mt-8 text-center py-12">
+                <Users className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-semibold text-gray-900">Nessun cliente</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                    Aggiungi i tuoi clienti per compilare le fatture più velocemente.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-6 overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Cliente</th>
+                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">P.IVA / C.F.</th>
+                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden lg:table-cell">SDI / PEC</th>
+                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden md:table-cell">Pagamento</th>
+                        <th scope="col" className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">Fatturato {selectedYear}</th>
+                        <th scope="col" className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900 hidden md:table-cell">Da incassare</th>
+                        <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                            <span className="sr-only">Azioni</span>
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                    {clients.map((client) => {
+                        const clientRevenue = getClientRevenue(client);
+
+                        return (
+                            <tr key={client.id} className="hover:bg-gray-50 transition-colors">
+                                <td className="py-4 pl-4 pr-3 text-sm sm:pl-6">
+                                    <div className="font-medium text-gray-900">{client.name}</div>
+                                    {client.address?.city && (
+                                        <div className="text-gray-500">
+                                            {client.address.city}{client.address.province && ` (${client.address.province})`}
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                    <div>{client.vatNumber ?? '-'}</div>
+                                    {client.taxCode && client.taxCode !== client.vatNumber && (
+                                        <div className="text-xs">{client.taxCode}</div>
+                                    )}
+                                </td>
+                                <td className="px-3 py-4 text-sm text-gray-500 hidden lg:table-cell">
+                                    <div>{client.sdiCode ?? '-'}</div>
+                                    {client.pec && <div className="text-xs">{client.pec}</div>}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 hidden md:table-cell">
+                                    {getPaymentTermsLabel(client)}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-right font-medium text-gray-900">
+                                    {formatCurrency(clientRevenue?.revenue ?? 0)}
+                                    {clientRevenue && (
+                                        <div className="text-xs font-normal text-gray-500">
+                                            {clientRevenue.share}% · {clientRevenue.invoiceCount} fatture
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-right text-gray-500 hidden md:table-cell">
+                                    {formatCurrency(clientRevenue?.outstanding ?? 0)}
+                                </td>
+                                <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                                    <div className="flex justify-end gap-2">
+                                        <button
+                                            onClick={() => onEdit(client)}
+                                            className="text-indigo-600 hover:text-indigo-900 rounded-md p-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                            aria-label={`Modifica cliente ${client.name}`}
+                                        >
+                                            <Pencil className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onDelete(client)}
+                                            className="text-red-600 hover:text-red-900 rounded-md p-1 focus:outline-none focus:ring-2 focus:ring-red-500"
+                                            aria-label={`Elimina cliente ${client.name}`}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        );
+                    })}
+
+                    {/* Invoiced names not in the registry */}
+                    {unregistered.map((entry) => (
+                        <tr key={`unregistered-${entry.clientName}`} className="bg-yellow-50">
+                            <td className="py-4 pl-4 pr-3 text-sm sm:pl-6">
+                                <div className="font-medium text-gray-900">{entry.clientName}</div>
+                                <div className="text-xs text-yellow-700">Non in anagrafica</div>
+                            </td>
+                            <td className="px-3 py-4 text-sm text-gray-400">-</td>
+                            <td className="px-3 py-4 text-sm text-gray-400 hidden lg:table-cell">-</td>
+                            <td className="px-3 py-4 text-sm text-gray-400 hidden md:table-cell">-</td>
+                            <td className="whitespace-nowrap px-3 py-4 text-sm text-right font-medium text-gray-900">
+                                {formatCurrency(entry.revenue)}
+                                <div className="text-xs font-normal text-gray-500">
+                                    {entry.share}% · {entry.invoiceCount} fatture
+                                </div>
+                            </td>
+                            <td className="whitespace-nowrap px-3 py-4 text-sm text-right text-gray-500 hidden md:table-cell">
+                                {formatCurrency(entry.outstanding)}
+                            </td>
+                            <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                                <button
+                                    onClick={() => onRegister(entry.clientName)}
+                                    className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-900 rounded-md p-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    aria-label={`Aggiungi ${entry.clientName} all'anagrafica`}
+                                >
+                                    <UserPlus className="h-4 w-4" />
+                                    <span className="hidden sm:inline">Aggiungi</span>
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default ClientList;
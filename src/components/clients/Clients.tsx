@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { PlusIcon } from 'lucide-react';
+import { useAuth } from '@/hooks/auth/useAuth';
+import { useClients } from '@/hooks/clients';
+import { useInvoices } from '@/hooks/invoices';
+import { ConfirmDialog, LoadingSpinner, ErrorDisplay } from '@/components/ui';
+import { Client, ClientData } from '@/services/clientService';
+import { calculateClientRevenue } from '@/utils/clientCalculations';
+import { generateAvailableYearsFromYear } from '@/utils/costSummaryCalculations';
+import { ClientForm } from './ClientForm';
+import { ClientList } from './ClientList';
+
+/**
+ * Main Clients Component
+ * Manages the client registry and shows the revenue of each client by year
+ */
+export const Clients = () => {
+    const { user } = useAuth();
+    const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+    const [showForm, setShowForm] = useState(false);
+    const [editingClient, setEditingClient] = useState<Client | null>(null);
+    const [initialName, setInitialName] = useState<string | undefined>();
+    const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
+
+    const availableYears = generateAvailableYearsFromYear(2020);
+
+    const {
+        clients,
+        loading: clientsLoading,
+        error: clientsError,
+        createClient,
+        updateClient,
+        deleteClient,
+        isSaving
+    } = useClients();
+
+    const {
+        invoices,
+        isLoading: invoicesLoading,
+        error: invoicesError
+    } = useInvoices({
+        selectedYear,
+        userId: user?.id
+    });
+
+    const revenue = calculateClientRevenue(invoices, clients);
+
+    const openForm = (client: Client | null = null, name?: string) => {
+        setEditingClient(client);
+        setInitialName(name);
+        setShowForm(true);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingClient(null);
+        setInitialName(undefined);
+    };
+
+    const handleSubmit = async (data: ClientData) => {
+        if (editingClient) {
+            await updateClient({ id: editingClient.id, data });
+        } else {
+            await createClient(data);
+        }
+        closeForm();
+    };
+
+    const handleDeleteConfirm = async () => {
+        if (clientToDelete) {
+            await deleteClient(clientToDelete.id);
+            setClientToDelete(null);
+        }
+    };
+
+    if (!user || clientsLoading || invoicesLoading) {
+        return <LoadingSpinner />;
+    }
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-6">
+                {/* Header */}
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-900">Clienti</h2>
+                        <p className="mt-1 text-sm text-gray-600">
+                            Anagrafica clienti e fatturato per cliente
+                        </p>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        <select
+                            value={selectedYear}
+                            onChange={(e) => setSelectedYear(Number(e.target.value))}
+                            className="rounded-md border-gray-300 py-2 pl-3 pr-10 text-base text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                            aria-label="Anno fatturato"
+                        >
+                            {availableYears.map((year) => (
+                                <option key={year} value={year}>{year}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => openForm()}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+                        >
+                            <PlusIcon className="h-4 w-4" />
+                            Nuovo Cliente
+                        </button>
+                    </div>
+                </div>
+
+                <ErrorDisplay message={clientsError || invoicesError} className="mb-6" />
+
+                {showForm && (
+                    <ClientForm
+                        key={editingClient?.id ?? initialName ?? 'new'}
+                        client={editingClient}
+                        initialName={initialName}
+                        onSubmit={handleSubmit}
+                        onCancel={closeForm}
+                        isLoading={isSaving}
+                    />
+                )}
+
+                <ClientList
+                    clients={clients}
+                    revenue={revenue}
+                    selectedYear={selectedYear}
+                    onEdit={(client) => openForm(client)}
+                    onDelete={setClientToDelete}
+                    onRegister={(name) => openForm(null, name)}
+                />
+            </div>
+
+            <ConfirmDialog
+                isOpen={!!clientToDelete}
+                title="Elimina cliente"
+                message="Le fatture del cliente restano invariate ma non saranno più collegate all'anagrafica. Continuare?"
+                confirmLabel="Elimina"
+                cancelLabel="Annulla"
+                type="danger"
+                onConfirm={handleDeleteConfirm}
+                onCancel={() => setClientToDelete(null)}
+                loading={isSaving}
+            />
+        </div>
+    );
+};
+
+export default Clients;
@@ -0,0 +1,8 @@
+/**
+ * Client Components Exports
+ * Centralized export point for client registry components
+ */
+
+export { ClientForm } from "./ClientForm";
+export { ClientList } from "./ClientList";
+export { default as Clients } from "./Clients";
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState } from 'react';
+import { TagIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Cost } from '@/services/costService';
+import { CostCategory } from '@/services/costCategoryService';
+import { formatCurrency } from '@/utils/formatters';
+import { calculateCostsByCategory } from '@/utils/costSummaryCalculations';
+
+interface CostCategoryBreakdownProps {
+    costs: Cost[];
+    categories: CostCategory[];
+    onCreateCategory: (name: string) => Promise<unknown>;
+    onDeleteCategory: (id: string) => Promise<unknown>;
+    isSaving?: boolean;
+}
+
+/**
+ * CostCategoryBreakdown Component
+ *
+ * Shows the costs of the selected year grouped by category
+ * and lets the user add or remove custom categories
+ */
+export const CostCategoryBreakdown: React.FC<CostCategoryBreakdownProps> = ({
+    costs,
+    categories,
+    onCreateCategory,
+    onDeleteCategory,
+    isSaving = false
+}) => {
+    const [newCategoryName, setNewCategoryName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const breakdown = calculateCostsByCategory(costs, categories);
+    const customCategories = categories.filter(category => !category.isSystem);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newCategoryName.trim();
+        if (name.length < 2) {
+            setError('Il nome deve contenere almeno 2 caratteri');
+            return;
+        }
+
+        try {
+            await onCreateCategory(name);
+            setNewCategoryName('');
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Errore nella creazione della categoria');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await onDeleteCategory(id);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Errore nella cancellazione della categoria');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+            <div className="flex items-center gap-2">
+                <TagIcon className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Costi per Categoria</h2>
+            </div>
+
+            {/* Breakdown */}
+            {breakdown.length === 0 ? (
+                <p className="text-sm text-gray-500">Nessun costo registrato</p>
+            ) : (
+                <div className="space-y-3">
+                    {breakdown.map(category => (
+                        <div key={category.categoryId ?? 'uncategorized'}>
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-gray-700">
+                                    {category.name}
+                                    <span className="text-gray-400 ml-1">({category.count})</span>
+                                </span>
+                                <span className="font-medium text-gray-900">
+                                    {formatCurrency(category.amount)}
+                                    <span className="text-gray-500 font-normal ml-2">
+                                        {category.percentage.toFixed(1)}%
+                                    </span>
+                                </span>
+                            </div>
+                            <div className="mt-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-blue-500 rounded-full"
+                                    style={{ width: `${category.percentage}%` }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Custom Categories */}
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+                <h3 className="text-sm font-medium text-gray-700">Categorie personalizzate</h3>
+
+                {customCategories.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {customCategories.map(category => (
+                            <span
+                                key={category.id}
+                                className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700"
+                            >
+                                {category.name}
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(category.id)}
+                                    disabled={isSaving}
+                                    className="ml-1 text-blue-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+                                    title="Elimina categoria"
+                                >
+                                    <TrashIcon className="h-3.5 w-3.5" />
+                                    <span className="sr-only">Elimina</span>
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <form onSubmit={handleCreate} className="flex gap-2">
+                    <input
+                        type="text"
+                        value={newCategoryName}
+                        onChange={(e) => setNewCategoryName(e.target.value)}
+                        maxLength={50}
+                        placeholder="Nuova categoria"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-50"
+                    >
+                        <PlusIcon className="h-4 w-4" />
+                        Aggiungi
+                    </button>
+                </form>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+        </div>
+    );
+};
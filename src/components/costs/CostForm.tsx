@@ -2,25 +2,44 @@
 
 import React from 'react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { it } from 'date-fns/locale';
 import { FormErrorMessage } from './FormErrorMessage';
-import { ICost } from '@/types';
+import { ICost, RecurrenceFrequency } from '@/types';
+import { CostCategory } from '@/services/costCategoryService';
+import { CostRecurrenceData, RecurringCost } from '@/services/recurringCostService';
+import { getUpcomingOccurrences, toDateKey } from '@/utils/recurringCostCalculations';
+import { formatCurrency } from '@/utils/formatters';
 
 // Extend ICost to include deductible property for the form
 type CostFormData = ICost & {
   deductible?: boolean;
+  deductionPercentage?: number;
 };
 
 interface CostFormProps {
   isOpen: boolean;
   onClose: () => void;
   cost: Partial<CostFormData>;
+  categories?: CostCategory[];
   onChange: (cost: Partial<CostFormData>) => void;
   onSubmit: (e: React.FormEvent) => void;
   errors: Record<string, string>;
   touched: Record<string, boolean>;
   isSubmitting: boolean;
+  // Recurrence section, shown when onRecurrenceChange is given
+  recurrence?: CostRecurrenceData | null;
+  onRecurrenceChange?: (recurrence: CostRecurrenceData | null) => void;
+  series?: RecurringCost | null;
+  onSkipOccurrence?: (date: string, skipped: boolean) => void;
 }
 
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'Mensile',
+  quarterly: 'Trimestrale',
+  yearly: 'Annuale',
+};
+
 /**
  * CostForm Component (Updated with Design System)
  * 
@@ -31,17 +50,37 @@ export const CostForm: React.FC<CostFormProps> = ({
   isOpen,
   onClose,
   cost,
+  categories = [],
   onChange,
   onSubmit,
   errors,
   touched,
-  isSubmitting
+  isSubmitting,
+  recurrence = null,
+  onRecurrenceChange,
+  series = null,
+  onSkipOccurrence
 }) => {
 
   if (!isOpen) return null;
 
   const fieldErrors = errors || {};
 
+  // Upcoming occurrences of the series being edited, or of the new one
+  const upcoming = recurrence && (series || cost.date)
+    ? getUpcomingOccurrences(
+      {
+        ...series,
+        startDate: series?.startDate ?? (cost.date as Date),
+        frequency: recurrence.frequency,
+        endDate: recurrence.endDate,
+      },
+      new Date()
+    )
+    : [];
+  // Skipped dates belong to the saved schedule
+  const canSkip = !!series && !!onSkipOccurrence && recurrence?.frequency === series.frequency;
+
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -133,6 +172,26 @@ export const CostForm: React.FC<CostFormProps> = ({
             )}
           </div>
 
+          {/* Category Field */}
+          <div>
+            <label htmlFor="categoryId" className="block text-sm font-medium text-secondary mb-1">
+              Categoria
+            </label>
+            <select
+              id="categoryId"
+              value={cost.categoryId || ''}
+              onChange={(e) => onChange({ ...cost, categoryId: e.target.value || null })}
+              className="input-base px-3 py-2"
+            >
+              <option value="">Senza categoria</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Deductible Checkbox */}
           <div className="flex items-center">
             <input
@@ -147,6 +206,148 @@ export const CostForm: React.FC<CostFormProps> = ({
             </label>
           </div>
 
+          {/* Deduction Percentage Field */}
+          {(cost.deductible ?? true) && (
+            <div>
+              <label htmlFor="deductionPercentage" className="block text-sm font-medium text-secondary mb-1">
+                Percentuale di deducibilità (%)
+              </label>
+              <input
+                type="number"
+                id="deductionPercentage"
+                step="1"
+                min="0"
+                max="100"
+                value={cost.deductionPercentage ?? 100}
+                onChange={(e) => onChange({ ...cost, deductionPercentage: Number(e.target.value) })}
+                className={`input-base px-3 py-2 ${fieldErrors.deductionPercentage
+                  ? 'border-error focus:border-error focus:ring-error'
+                  : ''
+                  }`}
+              />
+              <p className="mt-1 text-xs text-tertiary">
+                Ad esempio 50% per i telefoni, 20% per le auto
+              </p>
+              {fieldErrors.deductionPercentage && (
+                <FormErrorMessage message={fieldErrors.deductionPercentage} />
+              )}
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {onRecurrenceChange && (
+            <div className="space-y-3 pt-4 border-t border-surface-border">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="recurring"
+                  checked={!!recurrence}
+                  onChange={(e) => onRecurrenceChange(e.target.checked
+                    ? { frequency: series?.frequency ?? 'monthly', endDate: series?.endDate ?? null }
+                    : null)}
+                  className="h-4 w-4 text-brand-primary border-surface-border rounded focus:ring-brand-primary focus:ring-2"
+                />
+                <label htmlFor="recurring" className="ml-2 text-sm text-secondary">
+                  Costo ricorrente
+                </label>
+              </div>
+
+              {series && !recurrence && (
+                <p className="text-xs text-tertiary">
+                  La serie verrà eliminata, i costi già registrati restano
+                </p>
+              )}
+
+              {recurrence && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor="frequency" className="block text-sm font-medium text-secondary mb-1">
+                        Frequenza
+                      </label>
+                      <select
+                        id="frequency"
+                        value={recurrence.frequency}
+                        onChange={(e) => onRecurrenceChange({ ...recurrence, frequency: e.target.value as RecurrenceFrequency })}
+                        className="input-base px-3 py-2"
+                      >
+                        {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="endDate" className="block text-sm font-medium text-secondary mb-1">
+                        Fino al
+                      </label>
+                      <input
+                        type="date"
+                        id="endDate"
+                        value={recurrence.endDate ? toDateKey(recurrence.endDate) : ''}
+                        onChange={(e) => onRecurrenceChange({
+                          ...recurrence,
+                          endDate: e.target.value ? new Date(e.target.value).toISOString() : null
+                        })}
+                        className={`input-base px-3 py-2 ${fieldErrors.endDate
+                          ? 'border-error focus:border-error focus:ring-error'
+                          : ''
+                          }`}
+                      />
+                      {fieldErrors.endDate && (
+                        <FormErrorMessage message={fieldErrors.endDate} />
+                      )}
+                    </div>
+                  </div>
+
+                  {series ? (
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="applyToSeries"
+                        checked={recurrence.applyToSeries ?? false}
+                        onChange={(e) => onRecurrenceChange({ ...recurrence, applyToSeries: e.target.checked })}
+                        className="h-4 w-4 text-brand-primary border-surface-border rounded focus:ring-brand-primary focus:ring-2"
+                      />
+                      <label htmlFor="applyToSeries" className="ml-2 text-sm text-secondary">
+                        Applica le modifiche anche alle prossime scadenze
+                      </label>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-tertiary">
+                      Le scadenze già passate vengono registrate al salvataggio
+                    </p>
+                  )}
+
+                  {upcoming.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-secondary mb-1">Prossime scadenze</p>
+                      <ul className="divide-y divide-surface-border text-sm">
+                        {upcoming.map(({ date, skipped }) => (
+                          <li key={date.toISOString()} className="flex items-center justify-between py-1">
+                            <span className={skipped ? 'line-through text-quaternary' : 'text-secondary'}>
+                              {format(date, 'dd MMM yyyy', { locale: it })}
+                              {' · '}
+                              {formatCurrency(recurrence.applyToSeries || !series ? cost.amount || 0 : series.amount)}
+                            </span>
+                            {canSkip && (
+                              <button
+                                type="button"
+                                onClick={() => onSkipOccurrence?.(date.toISOString(), !skipped)}
+                                className="text-xs font-medium text-brand-primary hover:underline"
+                              >
+                                {skipped ? 'Ripristina' : 'Salta'}
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-4">
             <button
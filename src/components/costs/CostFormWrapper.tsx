@@ -1,19 +1,25 @@
 import React, { useState } from 'react';
 import { CostForm } from './CostForm';
 import { CreateCostData } from '@/services/costService';
+import { CostRecurrenceData } from '@/services/recurringCostService';
+import { useCostCategories } from '@/hooks/costs/useCostCategories';
+import { useRecurringCost } from '@/hooks/costs/useRecurringCost';
 import { ICost } from '@/types';
 
 // Extend ICost to include deductible property for the form
 type CostFormData = ICost & {
     deductible?: boolean;
+    deductionPercentage?: number;
 };
 
 interface CostFormWrapperProps {
-    onSubmit: (costData: CreateCostData) => Promise<void>;
+    // recurrence is undefined while the series of the cost is loading
+    onSubmit: (costData: CreateCostData, recurrence?: CostRecurrenceData | null) => Promise<void>;
     onCancel: () => void;
     loading?: boolean;
     error?: string | null;
     cost?: CreateCostData;
+    recurringCostId?: string | null;
 }
 
 /**
@@ -25,13 +31,19 @@ export const CostFormWrapper: React.FC<CostFormWrapperProps> = ({
     onCancel,
     loading = false,
     error = null,
-    cost
+    cost,
+    recurringCostId = null
 }) => {
+    const { categories } = useCostCategories();
+    const { series, loading: seriesLoading, skipOccurrence } = useRecurringCost(recurringCostId);
+
     const [formData, setFormData] = useState<Partial<CostFormData>>({
         description: cost?.description || '',
         date: cost?.date ? new Date(cost.date) : new Date(),
         amount: cost?.amount || 0,
-        deductible: cost?.deductible ?? true
+        deductible: cost?.deductible ?? true,
+        deductionPercentage: cost?.deductionPercentage ?? 100,
+        categoryId: cost?.categoryId ?? null
     });
 
     const [touched, setTouched] = useState({
@@ -42,6 +54,15 @@ export const CostFormWrapper: React.FC<CostFormWrapperProps> = ({
 
     const [errors, setErrors] = useState<Record<string, string>>({});
 
+    // Starts from the series of the cost until the user changes it
+    const [editedRecurrence, setEditedRecurrence] = useState<CostRecurrenceData | null>();
+    const recurrence = editedRecurrence !== undefined
+        ? editedRecurrence
+        : series
+            ? { frequency: series.frequency, endDate: series.endDate, applyToSeries: false }
+            : null;
+    const isSeriesReady = !recurringCostId || (!seriesLoading && !!series);
+
     const validateForm = (): boolean => {
         const newErrors: Record<string, string> = {};
 
@@ -57,6 +78,15 @@ export const CostFormWrapper: React.FC<CostFormWrapperProps> = ({
             newErrors.amount = 'L\'importo deve essere maggiore di 0';
         }
 
+        const percentage = formData.deductionPercentage ?? 100;
+        if (percentage < 0 || percentage > 100) {
+            newErrors.deductionPercentage = 'La percentuale deve essere compresa tra 0 e 100';
+        }
+
+        if (recurrence?.endDate && formData.date && new Date(recurrence.endDate) < new Date(formData.date)) {
+            newErrors.endDate = 'La data di fine non può precedere la data del costo';
+        }
+
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
@@ -80,11 +110,13 @@ export const CostFormWrapper: React.FC<CostFormWrapperProps> = ({
             description: formData.description || '',
             date: formData.date ? (formData.date instanceof Date ? formData.date.toISOString() : formData.date) : new Date().toISOString(),
             amount: formData.amount || 0,
-            deductible: formData.deductible ?? true
+            deductible: formData.deductible ?? true,
+            deductionPercentage: formData.deductionPercentage ?? 100,
+            categoryId: formData.categoryId ?? null
         };
 
         try {
-            await onSubmit(costData);
+            await onSubmit(costData, isSeriesReady ? recurrence : undefined);
         } catch (err) {
             console.error('Error submitting cost:', err);
         }
@@ -96,11 +128,22 @@ export const CostFormWrapper: React.FC<CostFormWrapperProps> = ({
             isOpen={true}
             onClose={onCancel}
             cost={formData}
+            categories={categories}
             onChange={setFormData}
             onSubmit={handleSubmit}
             errors={error ? { submit: error } : errors}
             touched={touched}
             isSubmitting={loading}
+            recurrence={recurrence}
+            onRecurrenceChange={isSeriesReady ? setEditedRecurrence : undefined}
+            series={series}
+            onSkipOccurrence={async (date, skipped) => {
+                try {
+                    await skipOccurrence(date, skipped);
+                } catch (err) {
+                    console.error('Error skipping occurrence:', err);
+                }
+            }}
         />
     );
 }; 
\ No newline at end of file
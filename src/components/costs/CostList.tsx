@@ -2,16 +2,24 @@
 
 import React, { useState } from 'react';
 import { Cost } from '@/services/costService';
+import { CostRecurrenceData } from '@/services/recurringCostService';
+import { CostCategory } from '@/services/costCategoryService';
+import { UNCATEGORIZED_COST_LABEL } from '@/utils/costSummaryCalculations';
 import { format } from 'date-fns';
 import { it } from 'date-fns/locale';
-import { PencilIcon, TrashIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import { PencilIcon, TrashIcon, EyeIcon, EyeSlashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import { formatCurrency } from '@/utils/formatters';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { CostFormWrapper } from './CostFormWrapper';
 
 interface CostListProps {
   costs: Cost[];
-  onUpdate: (_id: string, cost: Omit<Cost, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  categories?: CostCategory[];
+  onUpdate: (
+    _id: string,
+    cost: Omit<Cost, 'id' | 'createdAt' | 'updatedAt'>,
+    recurrence?: CostRecurrenceData | null
+  ) => void;
   onDelete: (id: string) => void;
   loading?: boolean;
   error?: string | null;
@@ -19,6 +27,7 @@ interface CostListProps {
 
 export const CostList: React.FC<CostListProps> = ({
   costs,
+  categories = [],
   onUpdate,
   onDelete,
   loading = false,
@@ -32,9 +41,12 @@ export const CostList: React.FC<CostListProps> = ({
     setEditingCost(cost);
   };
 
-  const handleUpdate = (updatedCost: Omit<Cost, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleUpdate = (
+    updatedCost: Omit<Cost, 'id' | 'createdAt' | 'updatedAt'>,
+    recurrence?: CostRecurrenceData | null
+  ) => {
     if (editingCost) {
-      onUpdate(editingCost.id, updatedCost);
+      onUpdate(editingCost.id, updatedCost, recurrence);
       setEditingCost(null);
     }
   };
@@ -50,6 +62,9 @@ export const CostList: React.FC<CostListProps> = ({
     }
   };
 
+  const getCategoryName = (categoryId: string | null): string =>
+    categories.find((category) => category.id === categoryId)?.name || UNCATEGORIZED_COST_LABEL;
+
   const toggleRowExpansion = (costId: string) => {
     setExpandedRow(expandedRow === costId ? null : costId);
   };
@@ -77,17 +92,22 @@ export const CostList: React.FC<CostListProps> = ({
               description: editingCost.description,
               date: editingCost.date,
               amount: editingCost.amount,
-              deductible: true // Default value for existing costs
+              deductible: editingCost.deductible,
+              deductionPercentage: editingCost.deductionPercentage,
+              categoryId: editingCost.categoryId
             }}
-            onSubmit={async (costData) => {
+            recurringCostId={editingCost.recurringCostId}
+            onSubmit={async (costData, recurrence) => {
               // Convert to the expected format for handleUpdate
               const updateData = {
                 description: costData.description,
                 date: costData.date,
                 amount: costData.amount,
-                deductible: costData.deductible
+                deductible: costData.deductible,
+                deductionPercentage: costData.deductionPercentage ?? 100,
+                categoryId: costData.categoryId ?? null
               };
-              await handleUpdate(updateData);
+              await handleUpdate(updateData, recurrence);
             }}
             onCancel={() => setEditingCost(null)}
             loading={loading}
@@ -108,6 +128,9 @@ export const CostList: React.FC<CostListProps> = ({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Descrizione
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Categoria
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Importo
                 </th>
@@ -129,10 +152,18 @@ export const CostList: React.FC<CostListProps> = ({
                     {format(new Date(cost.date), 'dd MMM yyyy', { locale: it })}
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
-                    <div className="truncate" title={cost.description}>
-                      {cost.description}
+                    <div className="flex items-center gap-1">
+                      <span className="truncate" title={cost.description}>
+                        {cost.description}
+                      </span>
+                      {cost.recurringCostId && (
+                        <ArrowPathIcon className="h-4 w-4 flex-shrink-0 text-blue-500" title="Costo ricorrente" />
+                      )}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {getCategoryName(cost.categoryId)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 font-medium">
                     {formatCurrency(cost.amount)}
                   </td>
@@ -141,7 +172,9 @@ export const CostList: React.FC<CostListProps> = ({
                       ? 'bg-green-100 text-green-800'
                       : 'bg-gray-100 text-gray-800'
                       }`}>
-                      {cost.deductible ? 'Sì' : 'No'}
+                      {cost.deductible
+                        ? (cost.deductionPercentage ?? 100) < 100 ? `${cost.deductionPercentage}%` : 'Sì'
+                        : 'No'}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -184,8 +217,11 @@ export const CostList: React.FC<CostListProps> = ({
               <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-2">
-                    <p className="text-sm font-medium text-gray-900 truncate">
+                    <p className="flex items-center gap-1 text-sm font-medium text-gray-900 truncate">
                       {cost.description}
+                      {cost.recurringCostId && (
+                        <ArrowPathIcon className="h-4 w-4 flex-shrink-0 text-blue-500" title="Costo ricorrente" />
+                      )}
                     </p>
                     <button
                       onClick={() => toggleRowExpansion(cost.id)}
@@ -208,7 +244,9 @@ export const CostList: React.FC<CostListProps> = ({
                       ? 'bg-green-100 text-green-800'
                       : 'bg-gray-100 text-gray-800'
                       }`}>
-                      {cost.deductible ? 'Deducibile' : 'Non deducibile'}
+                      {cost.deductible
+                        ? (cost.deductionPercentage ?? 100) < 100 ? `Deducibile ${cost.deductionPercentage}%` : 'Deducibile'
+                        : 'Non deducibile'}
                     </span>
                   </div>
 
@@ -217,6 +255,9 @@ export const CostList: React.FC<CostListProps> = ({
                       <div className="text-sm text-gray-600">
                         <span className="font-medium">Data:</span> {format(new Date(cost.date), 'dd MMM yyyy', { locale: it })}
                       </div>
+                      <div className="text-sm text-gray-600">
+                        <span className="font-medium">Categoria:</span> {getCategoryName(cost.categoryId)}
+                      </div>
                       <div className="text-sm text-gray-600">
                         <span className="font-medium">Descrizione completa:</span> {cost.description}
                       </div>
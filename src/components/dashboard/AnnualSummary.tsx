@@ -1,8 +1,10 @@
 import React from 'react';
 import { ChartBarIcon, ArrowUpIcon, ArrowDownIcon, CalendarIcon } from '@heroicons/react/24/outline';
+import { RevenueRecognition } from '@/types';
 
 interface AnnualSummaryProps {
   annualSummary: {
+    recognition: RevenueRecognition;
     totalRevenue: number;
     totalCosts: number;
     grossCashFlow: number;
@@ -24,7 +26,8 @@ interface AnnualSummaryProps {
  * Follows SRP by handling only annual summary display.
  * 
  * Features:
- * - Year-to-date revenue and costs
+ * - Year-to-date revenue and costs, revenue counted when received
+ *   for forfettari and when invoiced otherwise
  * - Highlighted cash flow (before and after taxes)
  * - Visual progress indicator for year completion
  * - Color-coded positive/negative cash flow
@@ -79,7 +82,9 @@ export const AnnualSummary: React.FC<AnnualSummaryProps> = ({ annualSummary }) =
           <div className="bg-blue-50 rounded-lg p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-blue-700">Ricavi Totali</p>
+                <p className="text-sm font-medium text-blue-700">
+                  {annualSummary.recognition === 'cash' ? 'Ricavi Incassati' : 'Ricavi Totali'}
+                </p>
                 <p className="text-2xl font-bold text-blue-900">{annualSummary.formattedRevenue}</p>
               </div>
               <ArrowUpIcon className="h-8 w-8 text-blue-600" />
@@ -143,6 +148,7 @@ export const AnnualSummary: React.FC<AnnualSummaryProps> = ({ annualSummary }) =
         <div className="mt-4 text-center">
           <p className="text-sm text-tertiary">
             Dati aggiornati in tempo reale • Basati su fatture e costi effettivamente registrati
+            {annualSummary.recognition === 'cash' && ' • Ricavi per data di incasso (principio di cassa)'}
           </p>
         </div>
       </div>
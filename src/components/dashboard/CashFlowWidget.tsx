@@ -4,6 +4,7 @@ import React from 'react';
 import { TrendingUp, TrendingDown, AlertCircle, RefreshCw } from 'lucide-react';
 import { CashFlowChart } from '@/components/charts';
 import { useCashFlowData } from '@/hooks/useChartData';
+import { useUpcomingTaxPayments } from '@/hooks/tax-settings/useUpcomingTaxPayments';
 import { WidgetContainer } from '@/components/widgets/base/WidgetContainer';
 import { WidgetConfig, WidgetData } from '@/components/widgets/base/types';
 
@@ -31,6 +32,7 @@ export interface CashFlowWidgetProps {
  * - Trend indicators
  * - Quick insights
  * - Refresh capability
+ * - Upcoming tax and contribution payments as future outflows
  */
 /**
  * Cash Flow Data Type
@@ -41,6 +43,7 @@ interface CashFlowDataPoint {
   income: number;
   expenses: number;
   net: number;
+  projected?: boolean;
 }
 
 /**
@@ -237,10 +240,14 @@ export const CashFlowWidget: React.FC<CashFlowWidgetProps> = ({
   months = 6, // Shorter period for widget
   showHeader = true
 }) => {
-  const { data, isLoading, error, refreshData } = useCashFlowData(months);
+  const { payments: upcomingPayments } = useUpcomingTaxPayments();
+  const { data, isLoading, error, refreshData } = useCashFlowData(months, upcomingPayments);
+
+  // Metrics and insights only consider months already elapsed
+  const actualData = data.filter(point => !point.projected);
 
   // Calculate metrics using specialized hook
-  const metrics = useCashFlowMetrics(data);
+  const metrics = useCashFlowMetrics(actualData);
   const trendInfo = useTrendInfo(metrics.netTrend);
 
   // Handle refresh action
@@ -292,7 +299,7 @@ export const CashFlowWidget: React.FC<CashFlowWidgetProps> = ({
           {/* Insights */}
           {!isLoading && data.length > 0 && (
             <CashFlowInsights
-              data={data}
+              data={actualData}
               currentNet={metrics.currentNet}
               netTrend={metrics.netTrend}
               months={months}
@@ -351,7 +358,7 @@ export const CashFlowWidget: React.FC<CashFlowWidgetProps> = ({
         {/* Insights */}
         {!isLoading && data.length > 0 && (
           <CashFlowInsights
-            data={data}
+            data={actualData}
             currentNet={metrics.currentNet}
             netTrend={metrics.netTrend}
             months={months}
@@ -16,6 +16,7 @@ export const Dashboard: React.FC = () => {
         annualSummary,
         activities,
         quickActions,
+        revenueCeiling,
         isLoading,
         error
     } = useDashboard();
@@ -26,6 +27,7 @@ export const Dashboard: React.FC = () => {
             annualSummary={annualSummary}
             activities={activities}
             quickActions={quickActions}
+            revenueCeiling={revenueCeiling}
             isLoading={isLoading}
             error={error}
         />
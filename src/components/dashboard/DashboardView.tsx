@@ -4,6 +4,9 @@ import { RecentActivities } from './RecentActivities';
 import { QuickActions } from './QuickActions';
 import { CashFlowWidget } from './CashFlowWidget';
 import { AnnualSummary } from './AnnualSummary';
+import { RevenueCeilingAlert } from '@/components/tax-settings/tax-calculations/RevenueCeilingAlert';
+import { RevenueCeilingProjection } from '@/types/tax';
+import { RevenueRecognition } from '@/types';
 import {
     DocumentTextIcon,
     CurrencyEuroIcon,
@@ -32,6 +35,7 @@ interface QuickAction {
 }
 
 interface AnnualSummary {
+    recognition: RevenueRecognition;
     totalRevenue: number;
     totalCosts: number;
     grossCashFlow: number;
@@ -50,6 +54,7 @@ interface DashboardViewProps {
     annualSummary: AnnualSummary;
     activities: Activity[];
     quickActions: QuickAction[];
+    revenueCeiling?: RevenueCeilingProjection | null;
     isLoading: boolean;
     error: string | null;
 }
@@ -212,6 +217,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
     annualSummary,
     activities,
     quickActions,
+    revenueCeiling,
     isLoading,
     error
 }) => {
@@ -229,6 +235,12 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
     return (
         <div className="container-app py-8 space-y-8">
             <DashboardHeader />
+
+            {/* Forfettario revenue ceiling warning */}
+            {revenueCeiling && (
+                <RevenueCeilingAlert projection={revenueCeiling} className="animate-fade-in" />
+            )}
+
             <StatsGrid stats={stats} />
 
             {/* Annual Summary with Cash Flow Analysis */}
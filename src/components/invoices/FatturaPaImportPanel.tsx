@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { FatturaPaImportReport, FatturaPaImportStatus } from '@/types';
+
+/**
+ * FatturaPA Import Panel Component
+ * Uploads XML files or zip archives and shows the outcome of each document
+ */
+
+export interface FatturaPaImportPanelProps {
+    onImport: (files: File[]) => Promise<unknown>;
+    onClose: () => void;
+    report: FatturaPaImportReport | null;
+    isImporting: boolean;
+    error: string | null;
+}
+
+const STATUS_LABELS: Record<FatturaPaImportStatus, { label: string; className: string }> = {
+    invoice: { label: 'Fattura creata', className: 'bg-green-100 text-green-800' },
+    cost: { label: 'Costo creato', className: 'bg-blue-100 text-blue-800' },
+    duplicate: { label: 'Già presente', className: 'bg-gray-100 text-gray-700' },
+    error: { label: 'Errore', className: 'bg-red-100 text-red-800' },
+};
+
+export const FatturaPaImportPanel = ({
+    onImport,
+    onClose,
+    report,
+    isImporting,
+    error,
+}: FatturaPaImportPanelProps) => {
+    const [files, setFiles] = useState<File[]>([]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (files.length === 0) return;
+
+        try {
+            await onImport(files);
+            setFiles([]);
+        } catch {
+            // Error is shown from the hook state
+        }
+    };
+
+    return (
+        <section className="mb-6 rounded-lg border border-gray-200 p-4" aria-labelledby="fatturapa-import-title">
+            <div className="flex items-center justify-between">
+                <h3 id="fatturapa-import-title" className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <FileUp className="h-4 w-4" />
+                    Importa fatture elettroniche
+                </h3>
+                <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Chiudi importazione"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+                File XML FatturaPA o archivi zip: le fatture emesse diventano fatture, quelle ricevute diventano costi.
+            </p>
+
+            <form onSubmit={handleSubmit} className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <input
+                    type="file"
+                    accept=".xml,.zip"
+                    multiple
+                    onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                    className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium hover:file:bg-gray-200"
+                    aria-label="File da importare"
+                />
+                <button
+                    type="submit"
+                    disabled={files.length === 0 || isImporting}
+                    className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isImporting && <LoadingSpinner size="sm" />}
+                    Importa
+                </button>
+            </form>
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            {report && (
+                <div className="mt-4">
+                    <p className="text-sm text-gray-700">
+                        {report.invoicesCreated} fatture e {report.costsCreated} costi importati,{' '}
+                        {report.duplicates} già presenti, {report.errors} con errori
+                    </p>
+                    <ul className="mt-2 divide-y divide-gray-100 text-sm">
+                        {report.results.map((result, index) => (
+                            <li key={`${result.fileName}-${index}`} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 py-2">
+                                <span className={`inline-flex w-fit rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_LABELS[result.status].className}`}>
+                                    {STATUS_LABELS[result.status].label}
+                                </span>
+                                <span className="font-medium text-gray-900 break-all">{result.fileName}</span>
+                                {result.number && (
+                                    <span className="text-gray-600">
+                                        n. {result.number}{result.counterpart && ` - ${result.counterpart}`}
+                                    </span>
+                                )}
+                                {result.message && <span className="text-red-600">{result.message}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,66 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+import { InvoiceAgingReport as InvoiceAgingReportData } from '@/types';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Invoice Aging Report Component
+ * Shows unpaid invoices grouped by days past their due date
+ */
+
+export interface InvoiceAgingReportProps {
+    report: InvoiceAgingReportData;
+    className?: string;
+}
+
+export const InvoiceAgingReport = ({ report, className = '' }: InvoiceAgingReportProps) => {
+    if (report.totalOutstanding === 0) {
+        return null;
+    }
+
+    return (
+        <section
+            className={`mt-6 rounded-lg border border-gray-200 p-4 ${className}`}
+            aria-labelledby="invoice-aging-title"
+        >
+            <div className="flex items-center justify-between">
+                <h3 id="invoice-aging-title" className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <Clock className="h-4 w-4" />
+                    Anzianità crediti
+                </h3>
+                <span className="text-sm text-gray-500">
+                    Da incassare: <span className="font-medium text-gray-900">{formatCurrency(report.totalOutstanding)}</span>
+                </span>
+            </div>
+
+            <dl className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-5">
+                <div className="rounded-md bg-gray-50 p-3">
+                    <dt className="text-xs text-gray-500">Non scadute</dt>
+                    <dd className="mt-1 text-sm font-semibold text-gray-900">{formatCurrency(report.notDue.amount)}</dd>
+                    <dd className="text-xs text-gray-500">{report.notDue.count} fatture</dd>
+                </div>
+                {report.buckets.map((bucket) => (
+                    <div
+                        key={bucket.label}
+                        className={`rounded-md p-3 ${bucket.count > 0 && bucket.minDays > 30 ? 'bg-red-50' : 'bg-gray-50'}`}
+                    >
+                        <dt className="text-xs text-gray-500">{bucket.label} giorni</dt>
+                        <dd className={`mt-1 text-sm font-semibold ${bucket.count > 0 && bucket.minDays > 30 ? 'text-red-700' : 'text-gray-900'}`}>
+                            {formatCurrency(bucket.amount)}
+                        </dd>
+                        <dd className="text-xs text-gray-500">{bucket.count} fatture</dd>
+                    </div>
+                ))}
+            </dl>
+
+            {report.totalOverdue > 0 && (
+                <p className="mt-3 text-xs text-red-600">
+                    Scaduto: {formatCurrency(report.totalOverdue)} (importi IVA inclusa)
+                </p>
+            )}
+        </section>
+    );
+};
+
+export default InvoiceAgingReport;
@@ -1,4 +1,4 @@
-import { PlusIcon } from 'lucide-react';
+import { PlusIcon, UploadIcon } from 'lucide-react';
 
 /**
  * Invoice Header Component (Server Component)
@@ -12,6 +12,7 @@ export interface InvoiceHeaderProps {
     availableYears: number[];
     onYearChange: (year: number) => void;
     onNewInvoiceClick: () => void;
+    onImportClick?: () => void;
     totalInvoices?: number;
 }
 
@@ -20,6 +21,7 @@ export const InvoiceHeader = ({
     availableYears,
     onYearChange,
     onNewInvoiceClick,
+    onImportClick,
     totalInvoices = 0,
 }: InvoiceHeaderProps) => {
     return (
@@ -48,6 +50,18 @@ export const InvoiceHeader = ({
                     ))}
                 </select>
 
+                {/* FatturaPA Import Button */}
+                {onImportClick && (
+                    <button
+                        onClick={onImportClick}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        aria-label="Importa fatture elettroniche XML"
+                    >
+                        <UploadIcon className="h-4 w-4 mr-2" />
+                        Importa XML
+                    </button>
+                )}
+
                 {/* New Invoice Button */}
                 <button
                     onClick={onNewInvoiceClick}
@@ -1,29 +1,66 @@
 'use client';
 
 import { useState } from 'react';
-import { Trash2, Calendar, Euro, User, FileText, Hash } from 'lucide-react';
+import { Trash2, Calendar, Euro, User, FileText, Hash, Clock, FileCode, FileMinus, CornerDownRight, FileCheck, Send, Ban } from 'lucide-react';
 import { PlainInvoice } from '@/hooks/invoices/useInvoices';
 import { LoadingSpinner } from '@/components/ui';
+import { InvoiceStatus } from '@/types';
+import { InvoicePaymentData } from '@/services/invoiceService';
+import {
+    calculateAgingReport,
+    calculateCreditableAmount,
+    calculateNetToReceive,
+    calculateOutstandingBalance,
+    calculatePaidAmount,
+    calculateTotalAmount,
+    canTransitionInvoice,
+    getDaysPastDue,
+    getInvoiceDueDate,
+    getInvoiceStatus,
+    getPaymentStatus,
+    groupCreditNotesWithOriginals,
+    isCreditNote,
+    isRevenueInvoice
+} from '@/utils/invoiceCalculations';
+import { InvoiceAgingReport } from './InvoiceAgingReport';
+import { InvoicePayments } from './InvoicePayments';
+import { pensionChargeLabels } from './NewInvoiceForm';
 
 /**
  * Invoice List Component
  * Displays invoices in a responsive table with inline editing capabilities
+ * Credit notes are listed right below the invoice they reverse,
+ * drafts are issued, sent and cancelled from their row, and payments
+ * received in instalments are recorded under the payment date
  */
 
 export interface InvoiceListProps {
     invoices: PlainInvoice[];
     onUpdatePaymentDate: (invoiceId: string, date: Date) => Promise<void>;
+    onStatusChange?: (invoiceId: string, status: InvoiceStatus) => Promise<void>;
+    onAddPayment?: (invoiceId: string, payment: InvoicePaymentData) => Promise<void>;
+    onRemovePayment?: (invoiceId: string, paymentId: string) => Promise<void>;
     onDeleteClick: (invoiceId: string) => void;
+    onExportClick?: (invoiceId: string) => void;
+    onCreditNoteClick?: (invoiceId: string) => void;
+    exportingInvoiceId?: string | null;
     isLoading?: boolean;
 }
 
 export const InvoiceList = ({
     invoices,
     onUpdatePaymentDate,
+    onStatusChange,
+    onAddPayment,
+    onRemovePayment,
     onDeleteClick,
+    onExportClick,
+    onCreditNoteClick,
+    exportingInvoiceId = null,
     isLoading = false,
 }: InvoiceListProps) => {
     const [updatingPayment, setUpdatingPayment] = useState<string | null>(null);
+    const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
 
     /**
      * Format currency with Italian locale
@@ -62,6 +99,257 @@ export const InvoiceList = ({
         }
     };
 
+    /**
+     * Handle a lifecycle transition with loading state
+     */
+    const handleStatusChange = async (invoiceId: string, status: InvoiceStatus) => {
+        if (!onStatusChange) return;
+
+        setUpdatingStatus(invoiceId);
+        try {
+            await onStatusChange(invoiceId, status);
+        } catch (error) {
+            console.error('Failed to update invoice status:', error);
+        } finally {
+            setUpdatingStatus(null);
+        }
+    };
+
+    /**
+     * Payment status badge based on the invoice due date
+     * Drafts and cancelled invoices are not collected
+     */
+    const renderPaymentStatus = (invoice: PlainInvoice) => {
+        const invoiceStatus = getInvoiceStatus(invoice);
+
+        if (invoiceStatus === 'draft') {
+            return <span className="inline-flex rounded-full bg-gray-100 px-2 text-xs font-medium text-gray-700">Bozza</span>;
+        }
+
+        if (invoiceStatus === 'cancelled') {
+            return <span className="inline-flex rounded-full bg-gray-100 px-2 text-xs font-medium text-gray-500 line-through">Annullata</span>;
+        }
+
+        if (isCreditNote(invoice)) {
+            return <span className="inline-flex rounded-full bg-purple-100 px-2 text-xs font-medium text-purple-800">Nota di credito</span>;
+        }
+
+        const status = getPaymentStatus(invoice);
+
+        if (status === 'paid') {
+            return <span className="inline-flex rounded-full bg-green-100 px-2 text-xs font-medium text-green-800">Pagata</span>;
+        }
+
+        if (invoiceStatus === 'partially_paid') {
+            return (
+                <span className={`inline-flex rounded-full px-2 text-xs font-medium ${status === 'overdue' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}`}>
+                    Pagata in parte
+                </span>
+            );
+        }
+
+        if (status === 'overdue') {
+            return (
+                <span className="inline-flex rounded-full bg-red-100 px-2 text-xs font-medium text-red-800">
+                    Scaduta da {getDaysPastDue(invoice)} gg
+                </span>
+            );
+        }
+
+        return (
+            <span className="inline-flex rounded-full bg-yellow-100 px-2 text-xs font-medium text-yellow-800">
+                {invoiceStatus === 'sent' ? 'Inviata' : 'In attesa'}
+            </span>
+        );
+    };
+
+    /**
+     * Lifecycle actions of an invoice: issue a draft, mark it sent, cancel it
+     */
+    const renderStatusActions = (invoice: PlainInvoice) => {
+        if (!onStatusChange || !invoice.id) return null;
+
+        const invoiceId = invoice.id;
+        const invoiceStatus = getInvoiceStatus(invoice);
+        const actions: { status: InvoiceStatus; label: string; icon: typeof Send; className: string }[] = [
+            { status: 'issued', label: 'Emetti', icon: FileCheck, className: 'text-green-600 hover:text-green-900 focus:ring-green-500' },
+            { status: 'sent', label: 'Segna come inviata', icon: Send, className: 'text-blue-600 hover:text-blue-900 focus:ring-blue-500' },
+            { status: 'cancelled', label: 'Annulla', icon: Ban, className: 'text-gray-600 hover:text-gray-900 focus:ring-gray-500' },
+        ];
+
+        return actions
+            // Issuing only applies to drafts, collected invoices go back to issued by removing the payment
+            .filter(({ status }) => (status !== 'issued' || invoiceStatus === 'draft') && canTransitionInvoice(invoiceStatus, status))
+            .filter(({ status }) => status !== 'sent' || (!invoice.paymentDate && !invoice.payments?.length))
+            .map(({ status, label, icon: Icon, className }) => (
+                <button
+                    key={status}
+                    onClick={() => handleStatusChange(invoiceId, status)}
+                    disabled={updatingStatus === invoiceId}
+                    className={`inline-flex items-center gap-1 focus:outline-none focus:ring-2 focus:ring-offset-2 rounded-md p-1 transition-colors disabled:opacity-50 ${className}`}
+                    aria-label={`${label} ${invoice.number ? `fattura ${invoice.number}` : 'bozza'}`}
+                    title={label}
+                >
+                    {updatingStatus === invoiceId ? <LoadingSpinner size="sm" /> : <Icon className="h-4 w-4" />}
+                </button>
+            ));
+    };
+
+    /**
+     * Amount reversed by the credit notes of an invoice
+     */
+    const getCreditedAmount = (creditNotes: PlainInvoice[]): number =>
+        creditNotes.filter(isRevenueInvoice).reduce((total, creditNote) => total + calculateTotalAmount(creditNote), 0);
+
+    /**
+     * Table row of an invoice, or of a credit note listed under its original
+     */
+    const renderInvoiceRow = (invoice: PlainInvoice, creditNotes: PlainInvoice[], original?: PlainInvoice) => (
+        <tr key={invoice.id || invoice.number} className={`hover:bg-gray-50 transition-colors ${original ? 'bg-gray-50' : ''} ${getInvoiceStatus(invoice) === 'cancelled' ? 'opacity-60' : ''}`}>
+            {/* Invoice Number, credit notes point to their original */}
+            <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
+                {original ? (
+                    <div className="flex items-center gap-1 pl-4">
+                        <CornerDownRight className="h-4 w-4 text-gray-400" />
+                        <div>
+                            <div>{invoice.number}</div>
+                            <div className="text-xs font-normal text-gray-500">Storno fattura n. {original.number}</div>
+                        </div>
+                    </div>
+                ) : (
+                    invoice.number ?? <span className="font-normal italic text-gray-400">Bozza</span>
+                )}
+            </td>
+
+            {/* Issue Date */}
+            <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                {formatDate(invoice.issueDate)}
+            </td>
+
+            {/* Due Date and payment status */}
+            <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                {!isCreditNote(invoice) && <div>{formatDate(getInvoiceDueDate(invoice))}</div>}
+                {renderPaymentStatus(invoice)}
+            </td>
+
+            {/* Client Name */}
+            <td className="px-3 py-4 text-sm text-gray-500">
+                <div className="max-w-xs truncate" title={invoice.clientName}>
+                    {invoice.clientName}
+                </div>
+            </td>
+
+            {/* Title (hidden on mobile) */}
+            <td className="px-3 py-4 text-sm text-gray-500 hidden md:table-cell">
+                <div className="max-w-xs truncate" title={invoice.title}>
+                    {invoice.title}
+                </div>
+            </td>
+
+            {/* Amount */}
+            <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-gray-900">
+                {formatCurrency(isCreditNote(invoice) ? -invoice.amount : invoice.amount)}
+                {invoice.pensionCharge && (
+                    <div className="text-xs font-normal text-gray-500">
+                        + {pensionChargeLabels[invoice.pensionCharge.type]} {formatCurrency(invoice.pensionCharge.amount)}
+                    </div>
+                )}
+                {invoice.withholding && (
+                    <div
+                        className="text-xs font-normal text-gray-500"
+                        title={`Ritenuta d'acconto ${invoice.withholding.rate}%: ${formatCurrency(invoice.withholding.amount)}`}
+                    >
+                        Netto {formatCurrency((isCreditNote(invoice) ? -1 : 1) * calculateNetToReceive(invoice))}
+                    </div>
+                )}
+            </td>
+
+            {/* VAT (hidden on smaller screens) */}
+            <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 hidden lg:table-cell">
+                {invoice.vat ? `${invoice.vat.vatRate}%` : (
+                    <span className="text-gray-400">-</span>
+                )}
+            </td>
+
+            {/* Payment Date (credit notes, drafts and cancelled invoices are not collected) */}
+            <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                {isCreditNote(invoice) || !isRevenueInvoice(invoice) ? (
+                    <span className="text-gray-400">-</span>
+                ) : (
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="date"
+                            value={invoice.paymentDate ? new Date(invoice.paymentDate).toISOString().split('T')[0] : ''}
+                            onChange={(e) => {
+                                if (invoice.id && e.target.value) {
+                                    handlePaymentDateChange(invoice.id, e.target.value);
+                                }
+                            }}
+                            disabled={updatingPayment === invoice.id}
+                            className="block w-full min-w-0 rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-label={`Data pagamento per fattura ${invoice.number}`}
+                        />
+                        {updatingPayment === invoice.id && (
+                            <LoadingSpinner size="sm" />
+                        )}
+                    </div>
+                )}
+                {onAddPayment && onRemovePayment && !isCreditNote(invoice) && isRevenueInvoice(invoice) && (
+                    <InvoicePayments
+                        invoice={invoice}
+                        paidAmount={calculatePaidAmount(invoice)}
+                        outstanding={calculateOutstandingBalance(invoice, getCreditedAmount(creditNotes))}
+                        onAddPayment={onAddPayment}
+                        onRemovePayment={onRemovePayment}
+                    />
+                )}
+            </td>
+
+            {/* Actions */}
+            <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                <div className="flex justify-end gap-2">
+                    {renderStatusActions(invoice)}
+                    {onCreditNoteClick && !isCreditNote(invoice) && isRevenueInvoice(invoice) && calculateCreditableAmount(invoice, creditNotes) > 0 && (
+                        <button
+                            onClick={() => invoice.id && onCreditNoteClick(invoice.id)}
+                            className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-900 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 rounded-md p-1 transition-colors"
+                            aria-label={`Emetti nota di credito per fattura ${invoice.number}`}
+                            title="Emetti nota di credito"
+                        >
+                            <FileMinus className="h-4 w-4" />
+                        </button>
+                    )}
+                    {onExportClick && isRevenueInvoice(invoice) && (
+                        <button
+                            onClick={() => invoice.id && onExportClick(invoice.id)}
+                            disabled={exportingInvoiceId === invoice.id}
+                            className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded-md p-1 transition-colors disabled:opacity-50"
+                            aria-label={`Esporta fattura ${invoice.number} in formato FatturaPA`}
+                            title="Esporta XML FatturaPA"
+                        >
+                            {exportingInvoiceId === invoice.id ? (
+                                <LoadingSpinner size="sm" />
+                            ) : (
+                                <FileCode className="h-4 w-4" />
+                            )}
+                        </button>
+                    )}
+                    {/* Only drafts are deleted, issued invoices are cancelled or credited */}
+                    {getInvoiceStatus(invoice) === 'draft' && (
+                        <button
+                            onClick={() => invoice.id && onDeleteClick(invoice.id)}
+                            className="inline-flex items-center gap-1 text-red-600 hover:text-red-900 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 rounded-md p-1 transition-colors"
+                            aria-label={`Elimina fattura ${invoice.number}`}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Elimina fattura {invoice.number}</span>
+                        </button>
+                    )}
+                </div>
+            </td>
+        </tr>
+    );
+
     if (isLoading) {
         return (
             <div className="mt-8">
@@ -83,130 +371,71 @@ export const InvoiceList = ({
     }
 
     return (
-        <div className="mt-8 flow-root">
-            <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
-                <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
-                    <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                        <table className="min-w-full divide-y divide-gray-300">
-                            <thead className="bg-gray-50">
-                                <tr>
-                                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
-                                        <div className="flex items-center gap-2">
-                                            <Hash className="h-4 w-4" />
-                                            Numero
-                                        </div>
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        <div className="flex items-center gap-2">
-                                            <Calendar className="h-4 w-4" />
-                                            Data
-                                        </div>
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        <div className="flex items-center gap-2">
-                                            <User className="h-4 w-4" />
-                                            Cliente
-                                        </div>
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden md:table-cell">
-                                        Titolo
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        <div className="flex items-center gap-2">
-                                            <Euro className="h-4 w-4" />
-                                            Importo
-                                        </div>
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden lg:table-cell">
-                                        IVA
-                                    </th>
-                                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Pagamento
-                                    </th>
-                                    <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
-                                        <span className="sr-only">Azioni</span>
-                                    </th>
-                                </tr>
-                            </thead>
-                            <tbody className="divide-y divide-gray-200 bg-white">
-                                {invoices.map((invoice, index) => (
-                                    <tr key={invoice.id || `invoice-${index}`} className="hover:bg-gray-50 transition-colors">
-                                        {/* Invoice Number */}
-                                        <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
-                                            {invoice.number}
-                                        </td>
-
-                                        {/* Issue Date */}
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
-                                            {formatDate(invoice.issueDate)}
-                                        </td>
-
-                                        {/* Client Name */}
-                                        <td className="px-3 py-4 text-sm text-gray-500">
-                                            <div className="max-w-xs truncate" title={invoice.clientName}>
-                                                {invoice.clientName}
+        <>
+            <InvoiceAgingReport report={calculateAgingReport(invoices)} />
+            <div className="mt-8 flow-root">
+                <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+                    <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
+                        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                            <table className="min-w-full divide-y divide-gray-300">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+                                            <div className="flex items-center gap-2">
+                                                <Hash className="h-4 w-4" />
+                                                Numero
                                             </div>
-                                        </td>
-
-                                        {/* Title (hidden on mobile) */}
-                                        <td className="px-3 py-4 text-sm text-gray-500 hidden md:table-cell">
-                                            <div className="max-w-xs truncate" title={invoice.title}>
-                                                {invoice.title}
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                            <div className="flex items-center gap-2">
+                                                <Calendar className="h-4 w-4" />
+                                                Data
+                                            </div>
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                            <div className="flex items-center gap-2">
+                                                <Clock className="h-4 w-4" />
+                                                Scadenza
+                                            </div>
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                            <div className="flex items-center gap-2">
+                                                <User className="h-4 w-4" />
+                                                Cliente
                                             </div>
-                                        </td>
-
-                                        {/* Amount */}
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-gray-900">
-                                            {formatCurrency(invoice.amount)}
-                                        </td>
-
-                                        {/* VAT (hidden on smaller screens) */}
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 hidden lg:table-cell">
-                                            {invoice.vat ? `${invoice.vat.vatRate}%` : (
-                                                <span className="text-gray-400">-</span>
-                                            )}
-                                        </td>
-
-                                        {/* Payment Date */}
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden md:table-cell">
+                                            Titolo
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
                                             <div className="flex items-center gap-2">
-                                                <input
-                                                    type="date"
-                                                    value={invoice.paymentDate ? new Date(invoice.paymentDate).toISOString().split('T')[0] : ''}
-                                                    onChange={(e) => {
-                                                        if (invoice.id && e.target.value) {
-                                                            handlePaymentDateChange(invoice.id, e.target.value);
-                                                        }
-                                                    }}
-                                                    disabled={updatingPayment === invoice.id}
-                                                    className="block w-full min-w-0 rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                                                    aria-label={`Data pagamento per fattura ${invoice.number}`}
-                                                />
-                                                {updatingPayment === invoice.id && (
-                                                    <LoadingSpinner size="sm" />
-                                                )}
+                                                <Euro className="h-4 w-4" />
+                                                Importo
                                             </div>
-                                        </td>
-
-                                        {/* Actions */}
-                                        <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
-                                            <button
-                                                onClick={() => invoice.id && onDeleteClick(invoice.id)}
-                                                className="inline-flex items-center gap-1 text-red-600 hover:text-red-900 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 rounded-md p-1 transition-colors"
-                                                aria-label={`Elimina fattura ${invoice.number}`}
-                                            >
-                                                <Trash2 className="h-4 w-4" />
-                                                <span className="sr-only">Elimina fattura {invoice.number}</span>
-                                            </button>
-                                        </td>
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden lg:table-cell">
+                                            IVA
+                                        </th>
+                                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                            Pagamento
+                                        </th>
+                                        <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                                            <span className="sr-only">Azioni</span>
+                                        </th>
                                     </tr>
-                                ))}
-                            </tbody>
-                        </table>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 bg-white">
+                                    {groupCreditNotesWithOriginals(invoices).flatMap(({ invoice, creditNotes }) => [
+                                        renderInvoiceRow(invoice, creditNotes),
+                                        ...creditNotes.map((creditNote) => renderInvoiceRow(creditNote, [], invoice))
+                                    ])}
+                                </tbody>
+                            </table>
+                        </div>
                     </div>
                 </div>
             </div>
-        </div>
+        </>
     );
 };
 
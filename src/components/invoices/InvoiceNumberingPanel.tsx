@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, Hash } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { InvoiceNumberingStatus } from '@/types';
+import { validateNumberPattern } from '@/utils/invoiceNumberingCalculations';
+
+/**
+ * Invoice Numbering Panel Component
+ * Shows the numbering pattern and next number of the year, reports gaps
+ * in the numbering and lets the user change the pattern
+ */
+
+export interface InvoiceNumberingPanelProps {
+    numbering: InvoiceNumberingStatus | null;
+    onPatternChange: (pattern: string) => Promise<unknown>;
+    isSaving: boolean;
+}
+
+export const InvoiceNumberingPanel = ({
+    numbering,
+    onPatternChange,
+    isSaving,
+}: InvoiceNumberingPanelProps) => {
+    const [pattern, setPattern] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!numbering) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (pattern === null) return;
+
+        const [validationError] = validateNumberPattern(pattern.trim());
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        try {
+            await onPatternChange(pattern.trim());
+            setPattern(null);
+            setError(null);
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Errore nel salvataggio della numerazione');
+        }
+    };
+
+    return (
+        <section className="mb-6 rounded-lg border border-gray-200 p-4" aria-labelledby="invoice-numbering-title">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <h3 id="invoice-numbering-title" className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <Hash className="h-4 w-4" />
+                    Numerazione {numbering.year}
+                </h3>
+                {pattern === null && (
+                    <div className="flex items-center gap-3 text-sm text-gray-600">
+                        <span>
+                            Schema <code className="font-mono">{numbering.pattern}</code>, prossimo numero{' '}
+                            <span className="font-medium text-gray-900">{numbering.nextNumber}</span>
+                        </span>
+                        <button
+                            onClick={() => setPattern(numbering.pattern)}
+                            className="text-indigo-600 hover:text-indigo-800 font-medium"
+                        >
+                            Modifica
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {pattern !== null && (
+                <form onSubmit={handleSubmit} className="mt-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                    <input
+                        type="text"
+                        value={pattern}
+                        onChange={(e) => {
+                            setPattern(e.target.value);
+                            setError(null);
+                        }}
+                        className="block w-full sm:w-64 rounded-md border-gray-300 shadow-sm font-mono text-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500"
+                        aria-label="Schema di numerazione"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSaving && <LoadingSpinner size="sm" />}
+                            Salva
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setPattern(null);
+                                setError(null);
+                            }}
+                            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                            Annulla
+                        </button>
+                    </div>
+                </form>
+            )}
+            {pattern !== null && (
+                <p className="mt-2 text-xs text-gray-500">
+                    Usa {'{YYYY}'} o {'{YY}'} per l&apos;anno e {'{seq}'} o {'{seq:3}'} per il progressivo, che riparte ogni anno
+                </p>
+            )}
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+            {numbering.gaps.length > 0 && (
+                <div className="mt-3 flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800" role="alert">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <div>
+                        <p className="font-medium">La numerazione del {numbering.year} non è consecutiva</p>
+                        <ul className="mt-1 space-y-0.5">
+                            {numbering.gaps.map((gap) => (
+                                <li key={gap.first}>
+                                    {gap.count === 1
+                                        ? `Manca il numero ${gap.first}`
+                                        : `Mancano i numeri da ${gap.first} a ${gap.last} (${gap.count})`}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
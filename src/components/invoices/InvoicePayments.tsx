@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { PlainInvoice } from '@/hooks/invoices/useInvoices';
+import { InvoicePaymentData } from '@/services/invoiceService';
+import { PaymentMethod } from '@/types';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Invoice Payments Component
+ * Payment history of an invoice with the balance still due,
+ * and the form recording a payment received
+ */
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+    bank_transfer: 'Bonifico',
+    cash: 'Contanti',
+    card: 'Carta',
+    check: 'Assegno',
+    other: 'Altro',
+};
+
+export interface InvoicePaymentsProps {
+    invoice: PlainInvoice;
+    paidAmount: number;
+    outstanding: number;
+    onAddPayment: (invoiceId: string, payment: InvoicePaymentData) => Promise<void>;
+    onRemovePayment: (invoiceId: string, paymentId: string) => Promise<void>;
+}
+
+export const InvoicePayments = ({
+    invoice,
+    paidAmount,
+    outstanding,
+    onAddPayment,
+    onRemovePayment,
+}: InvoicePaymentsProps) => {
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+    const [amount, setAmount] = useState('');
+    const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+    const [note, setNote] = useState('');
+
+    const formatDate = (value: Date): string =>
+        value.toLocaleDateString('it-IT', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+    const openForm = () => {
+        setAmount(outstanding.toFixed(2));
+        setIsFormOpen(true);
+    };
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsSaving(true);
+        try {
+            await action();
+            setIsFormOpen(false);
+            setNote('');
+        } catch (error) {
+            console.error('Failed to update invoice payments:', error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const paymentAmount = parseFloat(amount);
+        if (!date || !(paymentAmount > 0)) return;
+
+        runAction(() =>
+            onAddPayment(invoice.id, {
+                date: new Date(date).toISOString(),
+                amount: Math.round(paymentAmount * 100) / 100,
+                method,
+                ...(note.trim() && { note: note.trim() }),
+            })
+        );
+    };
+
+    const payments = invoice.payments ?? [];
+
+    return (
+        <div className="mt-2 space-y-1 text-xs">
+            {paidAmount > 0 && (
+                <div className="text-gray-500">
+                    Incassato {formatCurrency(paidAmount)}
+                    {outstanding > 0 && (
+                        <> · Da incassare <span className="font-medium text-gray-900">{formatCurrency(outstanding)}</span></>
+                    )}
+                </div>
+            )}
+
+            {payments.length > 0 && (
+                <ul className="space-y-0.5">
+                    {payments.map((payment) => (
+                        <li key={payment.id} className="flex items-center gap-1 text-gray-600" title={payment.note}>
+                            <span>
+                                {formatDate(payment.date)} · {formatCurrency(payment.amount)} · {paymentMethodLabels[payment.method]}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => runAction(() => onRemovePayment(invoice.id, payment.id))}
+                                disabled={isSaving}
+                                className="rounded p-0.5 text-gray-400 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+                                aria-label={`Elimina pagamento del ${formatDate(payment.date)}`}
+                            >
+                                <X className="h-3 w-3" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {outstanding > 0 && !isFormOpen && (
+                <button
+                    type="button"
+                    onClick={openForm}
+                    className="inline-flex items-center gap-1 font-medium text-indigo-600 hover:text-indigo-900"
+                >
+                    <Plus className="h-3 w-3" />
+                    Registra pagamento
+                </button>
+            )}
+
+            {isFormOpen && (
+                <form onSubmit={handleSubmit} className="space-y-1 rounded-md bg-gray-50 p-2">
+                    <div className="flex gap-1">
+                        <input
+                            type="date"
+                            value={date}
+                            onChange={(e) => setDate(e.target.value)}
+                            required
+                            className="block w-full min-w-0 rounded-md border-gray-300 text-xs text-gray-900 focus:border-indigo-500 focus:ring-indigo-500"
+                            aria-label="Data del pagamento"
+                        />
+                        <input
+                            type="number"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            min="0.01"
+                            max={outstanding}
+                            step="0.01"
+                            required
+                            className="block w-24 rounded-md border-gray-300 text-xs text-gray-900 focus:border-indigo-500 focus:ring-indigo-500"
+                            aria-label="Importo del pagamento"
+                        />
+                    </div>
+                    <select
+                        value={method}
+                        onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                        className="block w-full rounded-md border-gray-300 text-xs text-gray-900 focus:border-indigo-500 focus:ring-indigo-500"
+                        aria-label="Metodo di pagamento"
+                    >
+                        {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        maxLength={500}
+                        placeholder="Nota (opzionale)"
+                        className="block w-full rounded-md border-gray-300 text-xs text-gray-900 focus:border-indigo-500 focus:ring-indigo-500"
+                        aria-label="Nota del pagamento"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="inline-flex items-center gap-1 rounded-md bg-indigo-600 px-2 py-1 font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSaving && <LoadingSpinner size="sm" />}
+                            Registra
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setIsFormOpen(false)}
+                            disabled={isSaving}
+                            className="rounded-md border border-gray-300 bg-white px-2 py-1 font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            Annulla
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
@@ -1,10 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { useAuth } from '@/hooks/auth/useAuth';
-import { useInvoices, useNewInvoice, useInvoiceActions } from '@/hooks/invoices';
+import { useInvoices, useNewInvoice, useInvoiceActions, useFatturaPaExport, useFatturaPaImport, useInvoiceNumbering, useInvoiceSettings, useRecurringInvoices } from '@/hooks/invoices';
+import { useForfettarioMonitor } from '@/hooks/tax-settings/useForfettarioMonitor';
+import { useClients } from '@/hooks/clients';
 import { ConfirmDialog, LoadingSpinner, ErrorDisplay } from '@/components/ui';
-import { InvoiceHeader, InvoiceList, NewInvoiceForm, TaxRegimeInfo } from '@/components/invoices';
+import { FatturaPaImportPanel, InvoiceHeader, InvoiceList, InvoiceNumberingPanel, NewInvoiceForm, RecurringInvoicesPanel, TaxRegimeInfo } from '@/components/invoices';
 import { generateAvailableYearsFromYear } from '@/utils/costSummaryCalculations';
+import { calculateCreditableAmount, getClientPaymentTerms, isCreditNote } from '@/utils/invoiceCalculations';
 
 /**
  * Main Invoices Component
@@ -15,9 +19,13 @@ export interface InvoicesProps {
   taxRegime?: string;
 }
 
-export const Invoices = ({ taxRegime }: InvoicesProps) => {
+export const Invoices = ({ taxRegime: taxRegimeProp }: InvoicesProps) => {
   const { user } = useAuth();
 
+  // Regime and pension contribution of new invoices, from the user settings
+  const settings = useInvoiceSettings();
+  const taxRegime = taxRegimeProp ?? settings.taxRegime;
+
   // Generate available years starting from 2020
   const availableYears = generateAvailableYearsFromYear(2020);
 
@@ -47,6 +55,9 @@ export const Invoices = ({ taxRegime }: InvoicesProps) => {
     isLoading: invoicesLoading,
     error: invoicesError,
     handleUpdatePaymentDate,
+    handleUpdateStatus,
+    handleAddPayment,
+    handleRemovePayment,
     handleDeleteInvoice,
     refreshInvoices
   } = useInvoices({
@@ -55,26 +66,77 @@ export const Invoices = ({ taxRegime }: InvoicesProps) => {
     userId: user?.id
   });
 
+  // Client registry for the invoice client picker
+  const { clients } = useClients();
+
+  // FatturaPA XML download of single invoices
+  const { exportFatturaPa, exportingInvoiceId, error: exportError } = useFatturaPaExport();
+
+  // FatturaPA XML import of issued and received invoices
+  const [showImportPanel, setShowImportPanel] = useState(false);
+  const { importFiles, report: importReport, isImporting, error: importError, resetImport } = useFatturaPaImport();
+
+  // Numbering sequence of the selected year: next number and gaps
+  const { numbering, updatePattern, isSaving: isSavingPattern } = useInvoiceNumbering(selectedYear);
+
+  // Recurring invoices of retainer clients and their drafts to confirm
+  const {
+    recurringInvoices,
+    projectedRevenue,
+    confirmDraft,
+    skipDraft,
+    deleteRecurringInvoice,
+    isSaving: isSavingRecurring
+  } = useRecurringInvoices();
+
+  // Revenue ceiling projection for the selected year (forfettario only)
+  const { monitor } = useForfettarioMonitor(selectedYear, taxRegime === 'forfettario');
+
+  // Original invoice of the credit note being created
+  const [creditNoteOf, setCreditNoteOf] = useState<{ number: string; creditableAmount: number } | null>(null);
+
   const {
     newInvoice,
     setNewInvoice,
+    recurrence,
+    setRecurrence,
     handleCreateInvoice,
+    handleItemsChange,
     handleVatChange,
+    startCreditNote,
     resetForm,
     isLoading: createLoading,
     error: createError
   } = useNewInvoice({
     selectedYear,
     taxRegime,
+    pensionCharge: settings.pensionCharge,
     userId: user?.id || '',
     onSuccess: async () => {
       setShowNewInvoiceForm(false);
+      setCreditNoteOf(null);
       // Small delay to ensure the invoice is saved and query invalidation completed
       await new Promise(resolve => setTimeout(resolve, 100));
       await refreshInvoices();
     }
   });
 
+  /**
+   * Open the form prefilled with a credit note reversing what is still open
+   */
+  const handleCreditNoteClick = (invoiceId: string) => {
+    const original = invoices.find((invoice) => invoice.id === invoiceId);
+    if (!original) return;
+
+    const creditableAmount = calculateCreditableAmount(
+      original,
+      invoices.filter((invoice) => isCreditNote(invoice) && invoice.originalInvoiceId === invoiceId)
+    );
+    startCreditNote(original, creditableAmount);
+    setCreditNoteOf({ number: original.number ?? '', creditableAmount });
+    setShowNewInvoiceForm(true);
+  };
+
   // Show loading spinner while fetching user data
   if (!user) {
     return <LoadingSpinner />;
@@ -89,33 +151,82 @@ export const Invoices = ({ taxRegime }: InvoicesProps) => {
           availableYears={availableYears}
           onYearChange={handleYearChange}
           onNewInvoiceClick={handleNewInvoiceToggle}
+          onImportClick={() => setShowImportPanel((show) => !show)}
           totalInvoices={invoices.length}
         />
 
         {/* Error Messages */}
         <ErrorDisplay
-          message={invoicesError || createError}
+          message={invoicesError || createError || exportError}
           className="mb-6"
         />
 
+        {/* FatturaPA Import */}
+        {showImportPanel && (
+          <FatturaPaImportPanel
+            onImport={importFiles}
+            onClose={() => {
+              setShowImportPanel(false);
+              resetImport();
+            }}
+            report={importReport}
+            isImporting={isImporting}
+            error={importError}
+          />
+        )}
+
         {/* New Invoice Form */}
         {showNewInvoiceForm && (
           <NewInvoiceForm
             newInvoice={newInvoice}
             setNewInvoice={setNewInvoice}
             handleCreateInvoice={handleCreateInvoice}
+            handleItemsChange={handleItemsChange}
             handleVatChange={handleVatChange}
             showTaxRegime={taxRegime === 'ordinario'}
-            onCancel={() => resetForm()}
+            pensionCharge={settings.pensionCharge}
+            onCancel={() => {
+              resetForm();
+              setCreditNoteOf(null);
+            }}
             isLoading={createLoading}
+            clientPaymentTerms={getClientPaymentTerms(invoices)}
+            clients={clients}
+            creditNoteOf={creditNoteOf ?? undefined}
+            suggestedNumber={numbering?.nextNumber}
+            recurrence={recurrence}
+            onRecurrenceChange={setRecurrence}
           />
         )}
 
+        {/* Invoice Numbering */}
+        <InvoiceNumberingPanel
+          numbering={numbering}
+          onPatternChange={updatePattern}
+          isSaving={isSavingPattern}
+        />
+
+        {/* Recurring Invoices */}
+        <RecurringInvoicesPanel
+          recurringInvoices={recurringInvoices}
+          projectedRevenue={projectedRevenue}
+          onConfirmDraft={confirmDraft}
+          onSkipDraft={skipDraft}
+          onDelete={deleteRecurringInvoice}
+          isSaving={isSavingRecurring}
+        />
+
         {/* Invoice List */}
         <InvoiceList
           invoices={invoices}
           onUpdatePaymentDate={handleUpdatePaymentDate}
+          onStatusChange={handleUpdateStatus}
+          onAddPayment={handleAddPayment}
+          onRemovePayment={handleRemovePayment}
           onDeleteClick={handleDeleteClick}
+          onExportClick={exportFatturaPa}
+          onCreditNoteClick={handleCreditNoteClick}
+          exportingInvoiceId={exportingInvoiceId}
           isLoading={invoicesLoading}
         />
 
@@ -124,6 +235,7 @@ export const Invoices = ({ taxRegime }: InvoicesProps) => {
           taxRegime={taxRegime || ''}
           invoiceCount={invoices.length}
           isLoading={invoicesLoading}
+          revenueCeiling={monitor?.projection}
         />
       </div>
 
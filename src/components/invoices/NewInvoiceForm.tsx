@@ -1,12 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-import { X, Save, Calculator } from 'lucide-react';
-import { IInvoice } from '@/types';
+import { X, Save, Calculator, Plus, Trash2 } from 'lucide-react';
+import { IInvoice, InvoiceLineItem, PaymentTerms, PensionChargeInfo, PensionChargeType, RecurrenceFrequency, VatNature } from '@/types';
 import { LoadingSpinner } from '@/components/ui';
 import { sanitizeInput } from '@/utils/security';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { useMessages } from '@/hooks/useMessages';
+import {
+    BOLLO_AMOUNT,
+    calculateCompensation,
+    calculatePensionChargeAmount,
+    calculateWithholdingAmount,
+    DEFAULT_WITHHOLDING_RATE,
+    isBolloRequired,
+    MAX_INVOICE_ITEMS,
+    normalizeClientName,
+    RIVALSA_INPS_RATE,
+} from '@/utils/invoiceCalculations';
+import { findInvoiceClient, getClientInvoiceDefaults } from '@/utils/clientCalculations';
+import { Client } from '@/services/clientService';
+import { InvoiceRecurrenceData } from '@/services/recurringInvoiceService';
+import { toDateKey } from '@/utils/recurringCostCalculations';
 
 /**
  * New Invoice Form Component
@@ -28,26 +43,94 @@ export const vatOptions: VatOption[] = [
     { type: 'custom', label: 'Personalizzata', rate: 0 },
 ];
 
+export interface VatNatureOption {
+    value: VatNature;
+    label: string;
+}
+
+/**
+ * Natures of lines without VAT in the ordinario regime
+ */
+export const vatNatureOptions: VatNatureOption[] = [
+    { value: 'N1', label: 'Esclusa art. 15 (N1)' },
+    { value: 'N2.1', label: 'Non soggetta art. 7 (N2.1)' },
+    { value: 'N4', label: 'Esente art. 10 (N4)' },
+];
+
+export interface PaymentTermsOption {
+    value: PaymentTerms;
+    label: string;
+}
+
+export const paymentTermsOptions: PaymentTermsOption[] = [
+    { value: 'immediate', label: 'Pagamento immediato' },
+    { value: 'net30', label: '30 giorni' },
+    { value: 'net60', label: '60 giorni' },
+    { value: 'net90', label: '90 giorni' },
+    { value: 'end_of_month', label: 'Fine mese' },
+    { value: 'custom', label: 'Data personalizzata' },
+];
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+    monthly: 'Mensile',
+    quarterly: 'Trimestrale',
+    yearly: 'Annuale',
+};
+
+export const pensionChargeLabels: Record<PensionChargeType, string> = {
+    rivalsa_inps: 'Rivalsa INPS',
+    cassa_integrativa: 'Contributo integrativo',
+};
+
 export interface NewInvoiceFormProps {
     newInvoice: Partial<IInvoice>;
     setNewInvoice: (invoice: Partial<IInvoice>) => void;
     handleCreateInvoice: (e: React.FormEvent) => void;
-    handleVatChange: (type: VatOption['type']) => void;
+    /** Updates the lines, amount and VAT follow them */
+    handleItemsChange: (items: InvoiceLineItem[]) => void;
+    handleVatChange: (index: number, type: VatOption['type'] | VatNature) => void;
     showTaxRegime: boolean;
     onCancel: () => void;
     isLoading?: boolean;
+    /** Payment terms of known clients, keyed by normalised client name */
+    clientPaymentTerms?: Record<string, PaymentTerms>;
+    /** Client registry, used by the client picker */
+    clients?: Client[];
+    /** Original invoice when creating a credit note, with the amount still open */
+    creditNoteOf?: { number: string; creditableAmount: number };
+    /** Next number of the numbering sequence, taken when the number is left empty */
+    suggestedNumber?: string;
+    /** Pension contribution of the user's pension system, offered on the invoice */
+    pensionCharge?: Omit<PensionChargeInfo, 'amount'> | null;
+    /** Recurrence of the invoice, repeated as drafts from its issue date */
+    recurrence?: InvoiceRecurrenceData | null;
+    onRecurrenceChange?: (recurrence: InvoiceRecurrenceData | null) => void;
 }
 
 export const NewInvoiceForm = ({
     newInvoice,
     setNewInvoice,
     handleCreateInvoice,
+    handleItemsChange,
     handleVatChange,
     showTaxRegime,
     onCancel,
     isLoading = false,
+    clientPaymentTerms = {},
+    clients = [],
+    creditNoteOf,
+    suggestedNumber,
+    pensionCharge,
+    recurrence = null,
+    onRecurrenceChange,
 }: NewInvoiceFormProps) => {
+    const isCreditNote = newInvoice.documentType === 'credit_note';
+    // Drafts are numbered and counted as revenue only once issued
+    const isDraft = newInvoice.status === 'draft';
+    const items = newInvoice.items ?? [];
     const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+    // Terms chosen by hand are no longer filled in from the client
+    const [paymentTermsTouched, setPaymentTermsTouched] = useState(false);
 
     // Centralized error handling and messages
     const { handleValidationErrors, handleError } = useErrorHandler();
@@ -65,22 +148,52 @@ export const NewInvoiceForm = ({
         // Client-side validation
         const errors: Record<string, string> = {};
 
-        if (!newInvoice.number?.trim()) {
-            errors.number = 'Numero fattura è obbligatorio';
+        // An empty number takes the next one of the sequence
+        if (newInvoice.number?.trim() && !/^[A-Za-z0-9\-\/]+$/.test(newInvoice.number.trim())) {
+            errors.number = 'Il numero può contenere solo lettere, numeri, trattini e barre';
         }
 
         if (!newInvoice.clientName?.trim()) {
             errors.clientName = 'Cliente è obbligatorio';
         }
 
+        if (items.some(item => !item.description.trim() || !(item.quantity > 0))) {
+            errors.items = 'Ogni riga deve avere descrizione e quantità';
+        }
+
         if (!newInvoice.amount || newInvoice.amount <= 0) {
             errors.amount = 'Importo deve essere maggiore di zero';
+        } else if (creditNoteOf && newInvoice.amount > creditNoteOf.creditableAmount) {
+            errors.amount = `Importo massimo stornabile: €${creditNoteOf.creditableAmount.toFixed(2)}`;
         }
 
         if (!newInvoice.issueDate) {
             errors.issueDate = 'Data è obbligatoria';
         }
 
+        if (newInvoice.paymentTerms === 'custom' && !newInvoice.dueDate) {
+            errors.dueDate = 'Data scadenza è obbligatoria';
+        }
+
+        if (newInvoice.pensionCharge) {
+            const { type, rate } = newInvoice.pensionCharge;
+            if (!(rate > 0 && rate <= 100)) {
+                errors.pensionCharge = 'Aliquota contributo deve essere tra 0 e 100';
+            } else if (type === 'rivalsa_inps' && rate > RIVALSA_INPS_RATE) {
+                errors.pensionCharge = `Rivalsa INPS non può superare il ${RIVALSA_INPS_RATE}%`;
+            }
+        }
+
+        // Recurring invoices repeat their terms, a custom due date cannot be repeated
+        if (recurrence) {
+            if (newInvoice.paymentTerms === 'custom') {
+                errors.recurrence = 'Le fatture ricorrenti non possono avere una scadenza personalizzata';
+            } else if (recurrence.endDate && newInvoice.issueDate
+                && toDateKey(recurrence.endDate) < toDateKey(newInvoice.issueDate)) {
+                errors.recurrence = 'La data di fine non può precedere la data emissione';
+            }
+        }
+
         // Handle validation errors with centralized system
         if (Object.keys(errors).length > 0) {
             setValidationErrors(errors);
@@ -93,7 +206,9 @@ export const NewInvoiceForm = ({
             await handleCreateInvoice(e);
 
             // Show success message using centralized system
-            showCreateSuccess(`Fattura ${newInvoice.number}`);
+            showCreateSuccess(isDraft
+                ? 'Bozza'
+                : `${isCreditNote ? 'Nota di credito' : 'Fattura'} ${newInvoice.number?.trim() || suggestedNumber || ''}`.trim());
 
         } catch (error) {
             // Handle error with centralized system
@@ -102,20 +217,56 @@ export const NewInvoiceForm = ({
     };
 
     /**
-     * Calculate VAT amount and total
+     * Calculate pension contribution, VAT amount, total and the net the client
+     * pays after withholding. VAT applies to the fee with the contribution,
+     * withholding to the compensation
      */
     const calculateVAT = () => {
-        if (!newInvoice.amount) return { vatAmount: 0, total: 0 };
+        if (!newInvoice.amount) return { pensionAmount: 0, vatAmount: 0, total: 0, withholdingAmount: 0 };
 
         const baseAmount = Number(newInvoice.amount) || 0;
-        const vatRate = newInvoice.vat?.vatRate || 0;
-        const vatAmount = (baseAmount * vatRate) / 100;
-        const total = baseAmount + vatAmount;
+        const pensionAmount = newInvoice.pensionCharge
+            ? calculatePensionChargeAmount(baseAmount, newInvoice.pensionCharge.rate)
+            : 0;
+        // Lines at their own rates, the contribution at the rate of the invoice
+        const vatAmount = items.reduce(
+            (vat, item) => vat + (item.amount * (item.vat?.vatRate ?? 0)) / 100,
+            (pensionAmount * (newInvoice.vat?.vatRate ?? 0)) / 100
+        );
+        const total = baseAmount + pensionAmount + vatAmount;
+        const compensation = calculateCompensation({
+            amount: baseAmount,
+            pensionCharge: newInvoice.pensionCharge && { ...newInvoice.pensionCharge, amount: pensionAmount },
+        });
+        const withholdingAmount = newInvoice.withholding
+            ? calculateWithholdingAmount(compensation, newInvoice.withholding.rate)
+            : 0;
 
-        return { vatAmount, total };
+        return { pensionAmount, vatAmount, total, withholdingAmount };
     };
 
-    const { vatAmount, total } = calculateVAT();
+    const { pensionAmount, vatAmount, total, withholdingAmount } = calculateVAT();
+
+    /**
+     * Offered contribution: the invoice's own, else the one of the pension system
+     */
+    const offeredPensionCharge = newInvoice.pensionCharge ?? pensionCharge;
+
+    /**
+     * Handle pension contribution changes, keeping the kind and fund of the offer
+     */
+    const handlePensionChargeChange = (rate: number | null) => {
+        if (validationErrors.pensionCharge) {
+            setValidationErrors(prev => ({ ...prev, pensionCharge: '' }));
+        }
+
+        setNewInvoice({
+            ...newInvoice,
+            pensionCharge: offeredPensionCharge && rate !== null
+                ? { ...offeredPensionCharge, rate, amount: 0 }
+                : null
+        });
+    };
 
     /**
      * Handle form field changes with validation
@@ -138,11 +289,109 @@ export const NewInvoiceForm = ({
         });
     };
 
+    /**
+     * Handle changes to the fields of a line
+     */
+    const handleItemChange = (index: number, changes: Partial<InvoiceLineItem>) => {
+        if (validationErrors.items || validationErrors.amount) {
+            setValidationErrors(prev => ({ ...prev, items: '', amount: '' }));
+        }
+
+        handleItemsChange(items.map((item, itemIndex) =>
+            itemIndex === index ? { ...item, ...changes } : item
+        ));
+    };
+
+    /**
+     * Add a line at the VAT of the last one
+     */
+    const handleAddItem = () => {
+        const lastItem = items[items.length - 1];
+        handleItemsChange([
+            ...items,
+            {
+                description: '',
+                quantity: 1,
+                unitPrice: 0,
+                amount: 0,
+                ...(lastItem?.vat && { vat: lastItem.vat }),
+                ...(lastItem?.vatNature && { vatNature: lastItem.vatNature }),
+            },
+        ]);
+    };
+
+    /**
+     * Apply a registry client to the invoice, or only its name when unknown
+     * Defaults fill the payment terms unless chosen by hand, and the VAT
+     * of the lines only where the invoice carries it
+     */
+    const applyClient = (clientName: string, client?: Client) => {
+        if (validationErrors.clientName) {
+            setValidationErrors(prev => ({ ...prev, clientName: '' }));
+        }
+
+        const defaults = client ? getClientInvoiceDefaults(client) : { clientName };
+        const paymentTerms = defaults.paymentTerms ?? clientPaymentTerms[normalizeClientName(clientName)];
+        const vat = showTaxRegime ? defaults.vat : undefined;
+
+        setNewInvoice({
+            ...newInvoice,
+            clientName,
+            clientId: client?.id ?? null,
+            ...(!paymentTermsTouched && paymentTerms && { paymentTerms }),
+            ...(vat && {
+                items: items.map(item => ({ ...item, vat, vatNature: undefined })),
+                vat
+            })
+        });
+    };
+
+    /**
+     * Handle client name changes, linking names that match a registry client
+     */
+    const handleClientNameChange = (value: string) => {
+        const clientName = sanitizeInput(value);
+        applyClient(clientName, findInvoiceClient({ clientName }, clients));
+    };
+
+    /**
+     * Handle client picker changes
+     */
+    const handleClientSelect = (clientId: string) => {
+        const client = clients.find((registryClient) => registryClient.id === clientId);
+        if (client) {
+            applyClient(client.name, client);
+        } else {
+            setNewInvoice({ ...newInvoice, clientId: null });
+        }
+    };
+
+    /**
+     * Handle payment terms changes, custom terms keep their own due date
+     */
+    const handlePaymentTermsChange = (paymentTerms: PaymentTerms) => {
+        setPaymentTermsTouched(true);
+        setNewInvoice({
+            ...newInvoice,
+            paymentTerms,
+            dueDate: paymentTerms === 'custom' ? newInvoice.dueDate : undefined
+        });
+    };
+
     return (
         <div className="mb-6 bg-white border border-gray-200 rounded-lg shadow-sm">
             {/* Header */}
             <div className="flex items-center justify-between p-4 border-b border-gray-200">
-                <h3 className="text-lg font-medium text-gray-900">Nuova Fattura</h3>
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">
+                        {isCreditNote ? 'Nuova Nota di Credito' : 'Nuova Fattura'}
+                    </h3>
+                    {isCreditNote && creditNoteOf && (
+                        <p className="mt-1 text-sm text-gray-500">
+                            Storno della fattura n. {creditNoteOf.number}, importo ancora stornabile €{creditNoteOf.creditableAmount.toFixed(2)}
+                        </p>
+                    )}
+                </div>
                 <button
                     onClick={onCancel}
                     className="inline-flex items-center gap-1 text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded-md p-1 transition-colors"
@@ -159,22 +408,32 @@ export const NewInvoiceForm = ({
                     {/* Invoice Number */}
                     <div>
                         <label htmlFor="invoice-number" className="block text-sm font-medium text-gray-700">
-                            Numero Fattura *
+                            Numero Fattura
                         </label>
                         <input
                             id="invoice-number"
                             type="text"
-                            required
                             value={newInvoice.number || ''}
                             onChange={(e) => handleFieldChange('number', e.target.value)}
-                            className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors ${validationErrors.number
+                            disabled={isDraft}
+                            className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors disabled:bg-gray-100 ${validationErrors.number
                                 ? 'border-red-300 focus:border-red-500'
                                 : 'border-gray-300 focus:border-indigo-500'
                                 }`}
-                            placeholder="Es. 2024-001"
+                            placeholder={isDraft ? 'Assegnato all\'emissione' : suggestedNumber || 'Es. 2024-001'}
                         />
-                        {validationErrors.number && (
+                        {validationErrors.number ? (
                             <p className="mt-1 text-sm text-red-600">{validationErrors.number}</p>
+                        ) : isDraft ? (
+                            <p className="mt-1 text-xs text-gray-500">
+                                La bozza riceve il prossimo numero quando viene emessa
+                            </p>
+                        ) : (
+                            <p className="mt-1 text-xs text-gray-500">
+                                {suggestedNumber
+                                    ? `Lascia vuoto per usare il prossimo numero: ${suggestedNumber}`
+                                    : 'Lascia vuoto per usare il prossimo numero della sequenza'}
+                            </p>
                         )}
                     </div>
 
@@ -221,6 +480,28 @@ export const NewInvoiceForm = ({
                         )}
                     </div>
 
+                    {/* Client Picker */}
+                    {clients.length > 0 && (
+                        <div>
+                            <label htmlFor="client-picker" className="block text-sm font-medium text-gray-700">
+                                Cliente in Anagrafica
+                            </label>
+                            <select
+                                id="client-picker"
+                                value={newInvoice.clientId ?? ''}
+                                onChange={(e) => handleClientSelect(e.target.value)}
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                            >
+                                <option value="">Nessuno (inserimento libero)</option>
+                                {clients.map(client => (
+                                    <option key={client.id} value={client.id}>
+                                        {client.name}{client.vatNumber ? ` - ${client.vatNumber}` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {/* Client Name */}
                     <div>
                         <label htmlFor="client-name" className="block text-sm font-medium text-gray-700">
@@ -231,7 +512,7 @@ export const NewInvoiceForm = ({
                             type="text"
                             required
                             value={newInvoice.clientName || ''}
-                            onChange={(e) => handleFieldChange('clientName', e.target.value)}
+                            onChange={(e) => handleClientNameChange(e.target.value)}
                             className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors ${validationErrors.clientName
                                 ? 'border-red-300 focus:border-red-500'
                                 : 'border-gray-300 focus:border-indigo-500'
@@ -243,30 +524,6 @@ export const NewInvoiceForm = ({
                         )}
                     </div>
 
-                    {/* Amount */}
-                    <div>
-                        <label htmlFor="invoice-amount" className="block text-sm font-medium text-gray-700">
-                            Importo (€) *
-                        </label>
-                        <input
-                            id="invoice-amount"
-                            type="number"
-                            required
-                            step="0.01"
-                            min="0.01"
-                            value={newInvoice.amount || ''}
-                            onChange={(e) => handleFieldChange('amount', Number(e.target.value))}
-                            className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors ${validationErrors.amount
-                                ? 'border-red-300 focus:border-red-500'
-                                : 'border-gray-300 focus:border-indigo-500'
-                                }`}
-                            placeholder="0.00"
-                        />
-                        {validationErrors.amount && (
-                            <p className="mt-1 text-sm text-red-600">{validationErrors.amount}</p>
-                        )}
-                    </div>
-
                     {/* Payment Date */}
                     <div>
                         <label htmlFor="payment-date" className="block text-sm font-medium text-gray-700">
@@ -284,66 +541,305 @@ export const NewInvoiceForm = ({
                                     setNewInvoice({ ...newInvoice, paymentDate: undefined });
                                 }
                             }}
-                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                            disabled={isDraft}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
                         />
                         <p className="mt-1 text-xs text-gray-500">
-                            Opzionale - puoi impostarla anche dopo
+                            {isDraft ? 'Le bozze si incassano dopo l\'emissione' : 'Opzionale - puoi impostarla anche dopo'}
                         </p>
                     </div>
+
+                    {/* Payment Terms */}
+                    <div>
+                        <label htmlFor="payment-terms" className="block text-sm font-medium text-gray-700">
+                            Termini di Pagamento
+                        </label>
+                        <select
+                            id="payment-terms"
+                            value={newInvoice.paymentTerms ?? 'net30'}
+                            onChange={(e) => handlePaymentTermsChange(e.target.value as PaymentTerms)}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                            {paymentTermsOptions.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="mt-1 text-xs text-gray-500">
+                            Determina la scadenza della fattura
+                        </p>
+                    </div>
+
+                    {/* Custom Due Date */}
+                    {newInvoice.paymentTerms === 'custom' && (
+                        <div>
+                            <label htmlFor="due-date" className="block text-sm font-medium text-gray-700">
+                                Data Scadenza *
+                            </label>
+                            <input
+                                id="due-date"
+                                type="date"
+                                required
+                                min={newInvoice.issueDate ? new Date(newInvoice.issueDate).toISOString().split('T')[0] : undefined}
+                                value={newInvoice.dueDate ? new Date(newInvoice.dueDate).toISOString().split('T')[0] : ''}
+                                onChange={(e) => {
+                                    const value = e.target.value;
+                                    if (value) {
+                                        handleFieldChange('dueDate', new Date(value));
+                                    } else {
+                                        setNewInvoice({ ...newInvoice, dueDate: undefined });
+                                    }
+                                }}
+                                className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors ${validationErrors.dueDate
+                                    ? 'border-red-300 focus:border-red-500'
+                                    : 'border-gray-300 focus:border-indigo-500'
+                                    }`}
+                            />
+                            {validationErrors.dueDate && (
+                                <p className="mt-1 text-sm text-red-600">{validationErrors.dueDate}</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {/* Invoice lines */}
+                <div className="space-y-3">
+                    <h4 className="text-md font-medium text-gray-900">Righe *</h4>
+                    {items.map((item, index) => (
+                        <div key={index} className="grid grid-cols-1 gap-3 sm:grid-cols-12 sm:items-start border-b border-gray-100 pb-3">
+                            <div className={showTaxRegime ? 'sm:col-span-4' : 'sm:col-span-6'}>
+                                <label htmlFor={`item-description-${index}`} className="block text-xs font-medium text-gray-700">
+                                    Descrizione
+                                </label>
+                                <input
+                                    id={`item-description-${index}`}
+                                    type="text"
+                                    value={item.description}
+                                    onChange={(e) => handleItemChange(index, { description: e.target.value })}
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    placeholder={newInvoice.title || 'Descrizione della riga'}
+                                />
+                                <p className="mt-1 text-xs text-gray-500">Totale riga: €{item.amount.toFixed(2)}</p>
+                            </div>
+                            <div className="sm:col-span-2">
+                                <label htmlFor={`item-quantity-${index}`} className="block text-xs font-medium text-gray-700">
+                                    Quantità
+                                </label>
+                                <input
+                                    id={`item-quantity-${index}`}
+                                    type="number"
+                                    min="0.01"
+                                    step="0.01"
+                                    value={item.quantity || ''}
+                                    onChange={(e) => handleItemChange(index, { quantity: Number(e.target.value) })}
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                />
+                            </div>
+                            <div className="sm:col-span-1">
+                                <label htmlFor={`item-unit-${index}`} className="block text-xs font-medium text-gray-700">
+                                    U.M.
+                                </label>
+                                <input
+                                    id={`item-unit-${index}`}
+                                    type="text"
+                                    maxLength={10}
+                                    value={item.unitOfMeasure ?? ''}
+                                    onChange={(e) => handleItemChange(index, { unitOfMeasure: e.target.value || undefined })}
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    placeholder="ore"
+                                />
+                            </div>
+                            <div className="sm:col-span-2">
+                                <label htmlFor={`item-price-${index}`} className="block text-xs font-medium text-gray-700">
+                                    Prezzo (€)
+                                </label>
+                                <input
+                                    id={`item-price-${index}`}
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={item.unitPrice || ''}
+                                    onChange={(e) => handleItemChange(index, { unitPrice: Number(e.target.value) })}
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    placeholder="0.00"
+                                />
+                            </div>
+                            {showTaxRegime && (
+                                <div className="sm:col-span-2">
+                                    <label htmlFor={`item-vat-${index}`} className="block text-xs font-medium text-gray-700">
+                                        IVA
+                                    </label>
+                                    <select
+                                        id={`item-vat-${index}`}
+                                        value={item.vat?.vatType ?? item.vatNature ?? ''}
+                                        onChange={(e) => handleVatChange(index, e.target.value as VatOption['type'] | VatNature)}
+                                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    >
+                                        <option value="" disabled>Seleziona</option>
+                                        {vatOptions.map(option => (
+                                            <option key={option.type} value={option.type}>
+                                                {option.label}
+                                            </option>
+                                        ))}
+                                        <optgroup label="Senza IVA">
+                                            {vatNatureOptions.map(option => (
+                                                <option key={option.value} value={option.value}>
+                                                    {option.label}
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    </select>
+                                    {item.vat?.vatType === 'custom' && (
+                                        <input
+                                            id={`item-vat-rate-${index}`}
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            step="0.1"
+                                            aria-label="Aliquota personalizzata (%)"
+                                            value={item.vat.vatRate}
+                                            onChange={(e) => handleItemChange(index, {
+                                                vat: { vatType: 'custom', vatRate: Number(e.target.value) }
+                                            })}
+                                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                            placeholder="0.0"
+                                        />
+                                    )}
+                                </div>
+                            )}
+                            <div className="sm:col-span-1 sm:pt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => handleItemsChange(items.filter((_, itemIndex) => itemIndex !== index))}
+                                    disabled={items.length === 1}
+                                    className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                                    aria-label={`Rimuovi riga ${index + 1}`}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                        <button
+                            type="button"
+                            onClick={handleAddItem}
+                            disabled={items.length >= MAX_INVOICE_ITEMS}
+                            className="inline-flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                            <Plus className="h-4 w-4" />
+                            Aggiungi riga
+                        </button>
+                        <span className="text-sm text-gray-700">
+                            Imponibile: <span className="font-medium">€{(newInvoice.amount ?? 0).toFixed(2)}</span>
+                        </span>
+                    </div>
+                    {(validationErrors.items || validationErrors.amount) && (
+                        <p className="text-sm text-red-600">{validationErrors.items || validationErrors.amount}</p>
+                    )}
                 </div>
 
+                {/* Pension contribution charged to the client */}
+                {offeredPensionCharge && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="flex items-start gap-2">
+                            <input
+                                id="pension-charge-applied"
+                                type="checkbox"
+                                checked={!!newInvoice.pensionCharge}
+                                onChange={(e) =>
+                                    handlePensionChargeChange(e.target.checked ? offeredPensionCharge.rate : null)
+                                }
+                                className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <label htmlFor="pension-charge-applied" className="text-sm text-gray-700">
+                                Addebita {pensionChargeLabels[offeredPensionCharge.type].toLowerCase()}
+                                <span className="block text-xs text-gray-500">
+                                    {offeredPensionCharge.type === 'rivalsa_inps'
+                                        ? 'Facoltativa, fa parte del compenso ed è soggetta a IVA e ritenuta'
+                                        : 'Dovuto alla cassa professionale, soggetto a IVA ma non a ritenuta'}
+                                </span>
+                            </label>
+                        </div>
+                        {newInvoice.pensionCharge && (
+                            <div>
+                                <label htmlFor="pension-charge-rate" className="block text-sm font-medium text-gray-700">
+                                    Aliquota {pensionChargeLabels[newInvoice.pensionCharge.type]} (%)
+                                </label>
+                                <input
+                                    id="pension-charge-rate"
+                                    type="number"
+                                    min="0.01"
+                                    max={newInvoice.pensionCharge.type === 'rivalsa_inps' ? RIVALSA_INPS_RATE : 100}
+                                    step="0.01"
+                                    value={newInvoice.pensionCharge.rate}
+                                    onChange={(e) => handlePensionChargeChange(Number(e.target.value))}
+                                    className={`mt-1 block w-full rounded-md shadow-sm text-gray-900 focus:ring-indigo-500 sm:text-sm transition-colors ${validationErrors.pensionCharge
+                                        ? 'border-red-300 focus:border-red-500'
+                                        : 'border-gray-300 focus:border-indigo-500'
+                                        }`}
+                                />
+                                {validationErrors.pensionCharge ? (
+                                    <p className="mt-1 text-sm text-red-600">{validationErrors.pensionCharge}</p>
+                                ) : (
+                                    <p className="mt-1 text-xs text-gray-500">
+                                        Importo: €{pensionAmount.toFixed(2)}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* VAT Section (only for ordinary regime) */}
                 {showTaxRegime && (
                     <div className="space-y-4">
                         <h4 className="text-md font-medium text-gray-900">Informazioni IVA</h4>
 
-                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                            {/* VAT Type */}
-                            <div>
-                                <label htmlFor="vat-type" className="block text-sm font-medium text-gray-700">
-                                    Tipo IVA
+                        {/* Withholding tax retained by the client */}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div className="flex items-start gap-2">
+                                <input
+                                    id="withholding-applied"
+                                    type="checkbox"
+                                    checked={!!newInvoice.withholding}
+                                    onChange={(e) =>
+                                        setNewInvoice({
+                                            ...newInvoice,
+                                            withholding: e.target.checked
+                                                ? { rate: DEFAULT_WITHHOLDING_RATE, amount: 0 }
+                                                : null
+                                        })
+                                    }
+                                    className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                <label htmlFor="withholding-applied" className="text-sm text-gray-700">
+                                    Applica ritenuta d&apos;acconto
+                                    <span className="block text-xs text-gray-500">
+                                        Il cliente trattiene la ritenuta e la versa per tuo conto
+                                    </span>
                                 </label>
-                                <select
-                                    id="vat-type"
-                                    value={newInvoice.vat?.vatType ?? 'standard'}
-                                    onChange={(e) => {
-                                        const selectedType = e.target.value as VatOption['type'];
-                                        handleVatChange(selectedType);
-                                    }}
-                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                                >
-                                    {vatOptions.map(option => (
-                                        <option key={option.type} value={option.type}>
-                                            {option.label}
-                                        </option>
-                                    ))}
-                                </select>
                             </div>
-
-                            {/* Custom VAT Rate */}
-                            {newInvoice.vat?.vatType === 'custom' && (
+                            {newInvoice.withholding && (
                                 <div>
-                                    <label htmlFor="custom-vat-rate" className="block text-sm font-medium text-gray-700">
-                                        Aliquota Personalizzata (%)
+                                    <label htmlFor="withholding-rate" className="block text-sm font-medium text-gray-700">
+                                        Aliquota Ritenuta (%)
                                     </label>
                                     <input
-                                        id="custom-vat-rate"
+                                        id="withholding-rate"
                                         type="number"
-                                        min="0"
+                                        min="0.01"
                                         max="100"
-                                        step="0.1"
-                                        value={newInvoice.vat?.vatRate ?? ''}
+                                        step="0.01"
+                                        value={newInvoice.withholding.rate}
                                         onChange={(e) =>
                                             setNewInvoice({
                                                 ...newInvoice,
-                                                vat: {
-                                                    ...(newInvoice.vat || { vatType: 'standard' }),
-                                                    vatRate: Number(e.target.value)
-                                                }
+                                                withholding: { rate: Number(e.target.value), amount: 0 }
                                             })
                                         }
                                         className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                                        placeholder="0.0"
                                     />
                                 </div>
                             )}
@@ -361,17 +857,156 @@ export const NewInvoiceForm = ({
                                         <span className="text-gray-600">Imponibile:</span>
                                         <span className="font-medium">€{newInvoice.amount.toFixed(2)}</span>
                                     </div>
+                                    {newInvoice.pensionCharge && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">
+                                                {pensionChargeLabels[newInvoice.pensionCharge.type]} ({newInvoice.pensionCharge.rate}%):
+                                            </span>
+                                            <span className="font-medium">€{pensionAmount.toFixed(2)}</span>
+                                        </div>
+                                    )}
                                     <div className="flex justify-between">
-                                        <span className="text-gray-600">IVA ({newInvoice.vat?.vatRate || 0}%):</span>
+                                        <span className="text-gray-600">IVA:</span>
                                         <span className="font-medium">€{vatAmount.toFixed(2)}</span>
                                     </div>
                                     <div className="flex justify-between border-t border-gray-300 pt-1 mt-2">
                                         <span className="font-medium text-gray-900">Totale:</span>
                                         <span className="font-bold text-gray-900">€{total.toFixed(2)}</span>
                                     </div>
+                                    {newInvoice.withholding && (
+                                        <>
+                                            <div className="flex justify-between">
+                                                <span className="text-gray-600">Ritenuta d&apos;acconto ({newInvoice.withholding.rate}%):</span>
+                                                <span className="font-medium">-€{withholdingAmount.toFixed(2)}</span>
+                                            </div>
+                                            <div className="flex justify-between">
+                                                <span className="font-medium text-gray-900">Netto a pagare:</span>
+                                                <span className="font-bold text-gray-900">€{(total - withholdingAmount).toFixed(2)}</span>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Stamp duty (invoices without VAT over the threshold) */}
+                {isBolloRequired({
+                    amount: Number(newInvoice.amount) || 0,
+                    items,
+                    vat: newInvoice.vat,
+                    pensionCharge: newInvoice.pensionCharge && { ...newInvoice.pensionCharge, amount: pensionAmount },
+                }) && (
+                    <div className="flex items-start gap-2">
+                        <input
+                            id="bollo-charged"
+                            type="checkbox"
+                            checked={newInvoice.bollo?.chargedToClient ?? true}
+                            onChange={(e) =>
+                                setNewInvoice({
+                                    ...newInvoice,
+                                    bollo: { amount: BOLLO_AMOUNT, chargedToClient: e.target.checked }
+                                })
+                            }
+                            className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="bollo-charged" className="text-sm text-gray-700">
+                            Addebita al cliente la marca da bollo di €{BOLLO_AMOUNT.toFixed(2)}
+                            <span className="block text-xs text-gray-500">
+                                Fattura senza IVA oltre €77,47: il bollo è dovuto e viene versato trimestralmente
+                            </span>
+                        </label>
+                    </div>
+                )}
+
+                {/* Draft, issued later from the invoice list */}
+                {!isCreditNote && (
+                    <div className="flex items-start gap-2">
+                        <input
+                            id="invoice-draft"
+                            type="checkbox"
+                            checked={isDraft}
+                            onChange={(e) => {
+                                setNewInvoice(e.target.checked
+                                    ? { ...newInvoice, status: 'draft', number: undefined, paymentDate: undefined }
+                                    : { ...newInvoice, status: undefined });
+                                if (e.target.checked) {
+                                    onRecurrenceChange?.(null);
+                                }
+                            }}
+                            className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="invoice-draft" className="text-sm text-gray-700">
+                            Salva come bozza
+                            <span className="block text-xs text-gray-500">
+                                Non conta nei ricavi e nelle imposte finché non la emetti dall&apos;elenco fatture
+                            </span>
+                        </label>
+                    </div>
+                )}
+
+                {/* Recurrence (retainer clients invoiced on a schedule) */}
+                {!isCreditNote && !isDraft && onRecurrenceChange && (
+                    <div className="space-y-3">
+                        <div className="flex items-start gap-2">
+                            <input
+                                id="invoice-recurring"
+                                type="checkbox"
+                                checked={!!recurrence}
+                                onChange={(e) => {
+                                    setValidationErrors(prev => ({ ...prev, recurrence: '' }));
+                                    onRecurrenceChange(e.target.checked ? { frequency: 'monthly', endDate: null } : null);
+                                }}
+                                className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <label htmlFor="invoice-recurring" className="text-sm text-gray-700">
+                                Fattura ricorrente
+                                <span className="block text-xs text-gray-500">
+                                    Alle prossime scadenze trovi una bozza da confermare, numerata e datata automaticamente
+                                </span>
+                            </label>
+                        </div>
+                        {recurrence && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="invoice-frequency" className="block text-sm font-medium text-gray-700">
+                                        Frequenza
+                                    </label>
+                                    <select
+                                        id="invoice-frequency"
+                                        value={recurrence.frequency}
+                                        onChange={(e) => onRecurrenceChange({ ...recurrence, frequency: e.target.value as RecurrenceFrequency })}
+                                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    >
+                                        {Object.entries(recurrenceFrequencyLabels).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="invoice-recurrence-end" className="block text-sm font-medium text-gray-700">
+                                        Fino al
+                                    </label>
+                                    <input
+                                        id="invoice-recurrence-end"
+                                        type="date"
+                                        value={recurrence.endDate ? toDateKey(recurrence.endDate) : ''}
+                                        onChange={(e) => {
+                                            setValidationErrors(prev => ({ ...prev, recurrence: '' }));
+                                            onRecurrenceChange({
+                                                ...recurrence,
+                                                endDate: e.target.value ? new Date(e.target.value).toISOString() : null
+                                            });
+                                        }}
+                                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                    />
                                 </div>
                             </div>
                         )}
+                        {validationErrors.recurrence && (
+                            <p className="text-sm text-red-600">{validationErrors.recurrence}</p>
+                        )}
                     </div>
                 )}
 
@@ -398,7 +1033,7 @@ export const NewInvoiceForm = ({
                         ) : (
                             <>
                                 <Save className="h-4 w-4" />
-                                Salva Fattura
+                                {isDraft ? 'Salva Bozza' : 'Salva Fattura'}
                             </>
                         )}
                     </button>
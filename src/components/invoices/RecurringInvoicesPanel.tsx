@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, Repeat } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { RecurringInvoice } from '@/services/recurringInvoiceService';
+import { ProjectedRevenue, RECURRING_REVENUE_PROJECTION_MONTHS } from '@/utils/recurringInvoiceCalculations';
+import { recurrenceFrequencyLabels } from './NewInvoiceForm';
+
+/**
+ * Recurring Invoices Panel Component
+ * Lists the recurring invoices of retainer clients with their drafts,
+ * which the user confirms as numbered invoices or skips
+ */
+
+export interface RecurringInvoicesPanelProps {
+    recurringInvoices: RecurringInvoice[];
+    projectedRevenue: ProjectedRevenue[];
+    onConfirmDraft: (template: RecurringInvoice, date: string) => Promise<unknown>;
+    onSkipDraft: (id: string, date: string) => Promise<unknown>;
+    onDelete: (id: string) => Promise<unknown>;
+    isSaving: boolean;
+}
+
+export const RecurringInvoicesPanel = ({
+    recurringInvoices,
+    projectedRevenue,
+    onConfirmDraft,
+    onSkipDraft,
+    onDelete,
+    isSaving,
+}: RecurringInvoicesPanelProps) => {
+    const [error, setError] = useState<string | null>(null);
+
+    if (recurringInvoices.length === 0) return null;
+
+    const formatCurrency = (amount: number): string =>
+        new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(amount);
+
+    const formatDate = (date: string): string =>
+        new Date(date).toLocaleDateString('it-IT', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        try {
+            setError(null);
+            await action();
+        } catch (actionError) {
+            setError(actionError instanceof Error ? actionError.message : 'Errore nella gestione della fattura ricorrente');
+        }
+    };
+
+    const projectedTotal = projectedRevenue.reduce((sum, revenue) => sum + revenue.amount, 0);
+
+    return (
+        <section className="mb-6 rounded-lg border border-gray-200 p-4" aria-labelledby="recurring-invoices-title">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <h3 id="recurring-invoices-title" className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <Repeat className="h-4 w-4" />
+                    Fatture ricorrenti
+                </h3>
+                {projectedTotal > 0 && (
+                    <span className="text-sm text-gray-600">
+                        Ricavi previsti nei prossimi {RECURRING_REVENUE_PROJECTION_MONTHS} mesi:{' '}
+                        <span className="font-medium text-gray-900">{formatCurrency(projectedTotal)}</span>
+                    </span>
+                )}
+            </div>
+
+            <ul className="mt-3 divide-y divide-gray-100">
+                {recurringInvoices.map((template) => (
+                    <li key={template.id} className="py-3">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                            <div className="text-sm">
+                                <p className="font-medium text-gray-900">{template.title}</p>
+                                <p className="text-gray-600">
+                                    {template.clientName} · {recurrenceFrequencyLabels[template.frequency]} ·{' '}
+                                    {formatCurrency(template.amount)}
+                                    {template.endDate && ` · fino al ${formatDate(template.endDate)}`}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => runAction(() => onDelete(template.id))}
+                                disabled={isSaving}
+                                className="self-start sm:self-auto text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                                Interrompi
+                            </button>
+                        </div>
+
+                        {template.draftDates.length > 0 && (
+                            <ul className="mt-2 space-y-2">
+                                {template.draftDates.map((date) => (
+                                    <li
+                                        key={date}
+                                        className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-md bg-amber-50 p-2 text-sm text-amber-800"
+                                    >
+                                        <span className="flex items-center gap-2">
+                                            <FileText className="h-4 w-4 flex-shrink-0" />
+                                            Bozza del {formatDate(date)} da confermare
+                                        </span>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => runAction(() => onConfirmDraft(template, date))}
+                                                disabled={isSaving}
+                                                className="inline-flex items-center gap-2 px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                {isSaving && <LoadingSpinner size="sm" />}
+                                                Conferma
+                                            </button>
+                                            <button
+                                                onClick={() => runAction(() => onSkipDraft(template.id, date))}
+                                                disabled={isSaving}
+                                                className="px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                Salta
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </section>
+    );
+};
@@ -1,9 +1,12 @@
 import React from 'react';
+import { RevenueCeilingProjection } from '@/types/tax';
+import { RevenueCeilingAlert } from '@/components/tax-settings/tax-calculations/RevenueCeilingAlert';
 
 interface TaxRegimeInfoProps {
     taxRegime: string;
     invoiceCount: number;
     isLoading: boolean;
+    revenueCeiling?: RevenueCeilingProjection | null;
 }
 
 /**
@@ -15,13 +18,20 @@ interface TaxRegimeInfoProps {
 export const TaxRegimeInfo: React.FC<TaxRegimeInfoProps> = ({
     taxRegime,
     invoiceCount,
-    isLoading
+    isLoading,
+    revenueCeiling
 }) => {
-    // Only show for forfettario regime with no invoices
-    if (taxRegime !== 'forfettario' || invoiceCount > 0 || isLoading) {
+    if (taxRegime !== 'forfettario' || isLoading) {
         return null;
     }
 
+    // Warn when the year's revenue approaches the forfettario ceilings
+    if (invoiceCount > 0) {
+        return revenueCeiling ? (
+            <RevenueCeilingAlert projection={revenueCeiling} className="mt-8" />
+        ) : null;
+    }
+
     return (
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-md p-4">
             <div className="flex">
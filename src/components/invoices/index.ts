@@ -5,6 +5,11 @@
 
 export { InvoiceHeader } from "./InvoiceHeader";
 export { InvoiceList } from "./InvoiceList";
+export { InvoiceAgingReport } from "./InvoiceAgingReport";
+export { InvoicePayments } from "./InvoicePayments";
 export { NewInvoiceForm } from "./NewInvoiceForm";
+export { FatturaPaImportPanel } from "./FatturaPaImportPanel";
+export { InvoiceNumberingPanel } from "./InvoiceNumberingPanel";
+export { RecurringInvoicesPanel } from "./RecurringInvoicesPanel";
 export { TaxRegimeInfo } from "./TaxRegimeInfo";
 export { default as Invoices } from "./Invoices";
@@ -15,6 +15,11 @@ export const NAVIGATION_ITEMS: NavItem[] = [
     label: "Fatture",
     exactMatch: false,
   },
+  {
+    href: "/dashboard/clients",
+    label: "Clienti",
+    exactMatch: false,
+  },
   {
     href: "/dashboard/costs",
     label: "Costi",
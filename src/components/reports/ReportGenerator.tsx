@@ -14,14 +14,13 @@ import {
     AlertCircle
 } from 'lucide-react';
 import { useReportGenerator } from '@/hooks/reports/useReportGenerator';
+import { ReportType, ReportFormat, ReportPeriod } from '@/types';
 
 /**
  * Report Type Definition
  * SRP: Defines only report types and configurations
  */
-export type ReportType = 'financial' | 'tax' | 'cashflow' | 'kpi' | 'custom';
-export type ReportFormat = 'pdf' | 'excel' | 'csv';
-export type ReportPeriod = 'month' | 'quarter' | 'year' | 'custom';
+export type { ReportType, ReportFormat, ReportPeriod };
 
 /**
  * Report Configuration Interface
@@ -372,7 +371,8 @@ export const ReportGenerator: React.FC<ReportGeneratorProps> = ({
         progress,
         currentStep,
         error,
-        generatedReports
+        generatedReports,
+        downloadReport
     } = useReportGenerator(userId);
 
     // Handle configuration changes
@@ -495,14 +495,13 @@ export const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                                         {report.createdAt.toLocaleDateString('it-IT')} • {report.format.toUpperCase()}
                                     </div>
                                 </div>
-                                <a
-                                    href={report.url}
-                                    download
+                                <button
+                                    onClick={() => downloadReport(report)}
                                     className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
                                 >
                                     <Download className="h-3 w-3" />
                                     <span>Download</span>
-                                </a>
+                                </button>
                             </div>
                         ))}
                     </div>
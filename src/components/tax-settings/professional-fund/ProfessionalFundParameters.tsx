@@ -76,6 +76,14 @@ export const ProfessionalFundParameters: React.FC<ProfessionalFundParametersProp
                         </div>
                     </div>
                 )}
+
+                {/* Contributo integrativo charged on invoices (conditional) */}
+                {parameters.integrativeContributionRate !== undefined && (
+                    <div className="space-y-1">
+                        <span className="font-medium text-blue-800">Contributo integrativo in fattura:</span>
+                        <div className="text-blue-900">{parameters.integrativeContributionRate}%</div>
+                    </div>
+                )}
             </div>
 
             {/* Manual edit notification */}
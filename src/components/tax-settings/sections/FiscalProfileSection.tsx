@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { useFiscalProfile } from '@/hooks/tax-settings';
+import { FiscalProfile, FiscalProfileData } from '@/services/fiscalProfileService';
+import { isValidPartitaIva, isValidTaxCode } from '@/utils/clientCalculations';
+import { sanitizeInput } from '@/utils/security';
+
+interface FiscalProfileFormState {
+  firstName: string;
+  lastName: string;
+  companyName: string;
+  vatNumber: string;
+  taxCode: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  province: string;
+  pec: string;
+  iban: string;
+}
+
+/**
+ * Form state from the saved profile, empty fields when not yet set
+ */
+const toFormState = (profile: FiscalProfile | null): FiscalProfileFormState => ({
+  firstName: profile?.firstName ?? '',
+  lastName: profile?.lastName ?? '',
+  companyName: profile?.companyName ?? '',
+  vatNumber: profile?.vatNumber ?? '',
+  taxCode: profile?.taxCode ?? '',
+  street: profile?.address.street ?? '',
+  postalCode: profile?.address.postalCode ?? '',
+  city: profile?.address.city ?? '',
+  province: profile?.address.province ?? '',
+  pec: profile?.pec ?? '',
+  iban: profile?.iban ?? '',
+});
+
+/**
+ * Request data from the form state, leaving out empty fields
+ */
+const toFiscalProfileData = (form: FiscalProfileFormState): FiscalProfileData => {
+  const optional = (value: string) => value.trim() || undefined;
+
+  return {
+    firstName: optional(form.firstName),
+    lastName: optional(form.lastName),
+    companyName: optional(form.companyName),
+    vatNumber: form.vatNumber.trim(),
+    taxCode: form.taxCode.trim().toUpperCase(),
+    address: {
+      street: form.street.trim(),
+      postalCode: form.postalCode.trim(),
+      city: form.city.trim(),
+      province: optional(form.province),
+      country: 'IT',
+    },
+    pec: optional(form.pec),
+    iban: optional(form.iban),
+  };
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-gray-900 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+const FIELDS: {
+  field: keyof FiscalProfileFormState;
+  label: string;
+  className: string;
+  maxLength?: number;
+}[] = [
+  { field: 'firstName', label: 'Nome', className: 'sm:col-span-3' },
+  { field: 'lastName', label: 'Cognome', className: 'sm:col-span-3' },
+  { field: 'companyName', label: 'Ragione Sociale (solo per società)', className: 'sm:col-span-6' },
+  { field: 'vatNumber', label: 'Partita IVA *', className: 'sm:col-span-3', maxLength: 11 },
+  { field: 'taxCode', label: 'Codice Fiscale *', className: 'sm:col-span-3', maxLength: 16 },
+  { field: 'street', label: 'Via e numero civico *', className: 'sm:col-span-6', maxLength: 60 },
+  { field: 'postalCode', label: 'CAP *', className: 'sm:col-span-2', maxLength: 5 },
+  { field: 'city', label: 'Comune *', className: 'sm:col-span-3', maxLength: 60 },
+  { field: 'province', label: 'Provincia', className: 'sm:col-span-1', maxLength: 2 },
+  { field: 'pec', label: 'PEC', className: 'sm:col-span-3' },
+  { field: 'iban', label: 'IBAN per i pagamenti', className: 'sm:col-span-3', maxLength: 34 },
+];
+
+/**
+ * Fiscal Profile Section
+ * Anagrafica of the user as invoice issuer, required by the FatturaPA export
+ */
+export const FiscalProfileSection: React.FC = () => {
+  const { profile, isLoading, error, saveProfile, isSaving } = useFiscalProfile();
+  const [form, setForm] = useState<FiscalProfileFormState>(() => toFormState(profile));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Load the saved profile once fetched
+  useEffect(() => {
+    setForm(toFormState(profile));
+  }, [profile]);
+
+  const handleChange = (field: keyof FiscalProfileFormState, value: string) => {
+    setErrors((prev) => ({ ...prev, [field]: '' }));
+    setSaved(false);
+    setForm((prev) => ({
+      ...prev,
+      [field]: field === 'province' || field === 'taxCode' ? sanitizeInput(value).toUpperCase() : sanitizeInput(value),
+    }));
+  };
+
+  const validate = (): Record<string, string> => {
+    const validationErrors: Record<string, string> = {};
+
+    if (!form.companyName.trim() && !(form.firstName.trim() && form.lastName.trim())) {
+      validationErrors.firstName = 'Inserisci nome e cognome o la ragione sociale';
+    }
+    if (!isValidPartitaIva(form.vatNumber.trim())) {
+      validationErrors.vatNumber = 'Partita IVA non valida';
+    }
+    if (!isValidTaxCode(form.taxCode.trim())) {
+      validationErrors.taxCode = 'Codice fiscale non valido';
+    }
+    if (!form.street.trim()) {
+      validationErrors.street = 'Indirizzo obbligatorio';
+    }
+    if (!/^\d{5}$/.test(form.postalCode.trim())) {
+      validationErrors.postalCode = 'Il CAP ha 5 cifre';
+    }
+    if (!form.city.trim()) {
+      validationErrors.city = 'Comune obbligatorio';
+    }
+    if (form.province.trim() && !/^[A-Z]{2}$/.test(form.province.trim())) {
+      validationErrors.province = 'Sigla di 2 lettere';
+    }
+
+    return validationErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    const validationErrors = validate();
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    try {
+      await saveProfile(toFiscalProfileData(form));
+      setSaved(true);
+    } catch (saveError) {
+      setSubmitError(saveError instanceof Error ? saveError.message : 'Errore nel salvataggio dei dati fiscali');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Dati Fiscali per la Fatturazione Elettronica
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          I tuoi dati come cedente/prestatore, usati per esportare le fatture in formato FatturaPA
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="px-4 py-5 sm:p-6 space-y-6">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+            {FIELDS.map(({ field, label, className, maxLength }) => (
+              <div key={field} className={className}>
+                <label htmlFor={`fiscal-profile-${field}`} className="block text-sm font-medium text-gray-700">
+                  {label}
+                </label>
+                <input
+                  id={`fiscal-profile-${field}`}
+                  type={field === 'pec' ? 'email' : 'text'}
+                  maxLength={maxLength}
+                  value={form[field]}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className={inputClassName}
+                />
+                {errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]}</p>}
+              </div>
+            ))}
+          </div>
+
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+          {saved && <p className="text-sm text-green-600">Dati fiscali salvati</p>}
+
+          <div className="flex justify-end pt-4 border-t border-gray-200">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="inline-flex justify-center items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+              Salva dati fiscali
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default FiscalProfileSection;
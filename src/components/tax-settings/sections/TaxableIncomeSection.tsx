@@ -1,19 +1,48 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { taxRegimeInfo, profitabilityInfo } from '@/components/tooltips/TooltipsText';
 import { UserSettings } from '@/services/settingsService';
+import { DEFAULT_REVENUE_ALERT_THRESHOLDS } from '@/utils/forfettarioCalculations';
+import {
+  getStartupRateLastYear,
+  resolveSubstituteRate,
+  STANDARD_SUBSTITUTE_RATE,
+  STARTUP_SUBSTITUTE_RATE,
+} from '@/utils/userSettingsCalculations';
 
 interface TaxableIncomeSectionProps {
   settings: UserSettings;
-  handleChange: (field: keyof UserSettings, value: string | number | boolean) => void;
+  handleChange: (field: keyof UserSettings, value: string | number | boolean | number[] | null) => void;
   setShowRateTable: (show: boolean) => void;
 }
 
+/**
+ * Parse a comma separated list of percentages
+ */
+const parseThresholds = (value: string): number[] =>
+  value
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((threshold) => Number.isFinite(threshold) && threshold >= 1 && threshold <= 100);
+
 export const TaxableIncomeSection: React.FC<TaxableIncomeSectionProps> = ({
   settings,
   handleChange,
   setShowRateTable,
 }) => {
+  const thresholdsText = (settings.revenueAlertThresholds ?? DEFAULT_REVENUE_ALERT_THRESHOLDS).join(', ');
+  const [thresholdsDraft, setThresholdsDraft] = useState(thresholdsText);
+
+  const currentYear = new Date().getFullYear();
+  const startupLastYear = settings.activityStartDate
+    ? getStartupRateLastYear(settings.activityStartDate)
+    : null;
+
+  // Keep the draft in sync when settings are loaded or reset
+  useEffect(() => {
+    setThresholdsDraft(thresholdsText);
+  }, [thresholdsText]);
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
       <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
@@ -45,20 +74,57 @@ export const TaxableIncomeSection: React.FC<TaxableIncomeSectionProps> = ({
 
         {settings.taxRegime === 'forfettario' && (
           <>
+            <div>
+              <label htmlFor="activityStartDate" className="block text-sm font-medium text-gray-700">
+                Data Inizio Attività
+              </label>
+              <input
+                id="activityStartDate"
+                type="date"
+                value={settings.activityStartDate ? settings.activityStartDate.slice(0, 10) : ''}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) =>
+                  handleChange(
+                    'activityStartDate',
+                    e.target.value ? new Date(e.target.value).toISOString() : null
+                  )
+                }
+                className="mt-2 block w-full pl-3 pr-3 py-2 text-base text-gray-900 border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              />
+            </div>
+
             <div>
               <div className="flex items-center">
                 <label className="block text-sm font-medium text-gray-700">
                   Imposta Sostitutiva
                 </label>
               </div>
-                              <select
-                value={settings.substituteRate}
-                onChange={(e) => handleChange('substituteRate', Number(e.target.value))}
-                className="mt-2 block w-full pl-3 pr-10 py-2 text-base text-gray-900 border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-              >
-                <option value={5}>5% (primi 5 anni)</option>
-                <option value={25}>25% (dal sesto anno)</option>
-              </select>
+              {startupLastYear !== null ? (
+                <div className="mt-2 rounded-md bg-gray-50 border border-gray-200 px-3 py-2">
+                  <p className="text-sm font-semibold text-gray-900">
+                    {resolveSubstituteRate(settings, currentYear)}% per il {currentYear}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {currentYear <= startupLastYear
+                      ? `Aliquota agevolata del ${STARTUP_SUBSTITUTE_RATE}% per l'anno di inizio attività e i quattro successivi, fino al ${startupLastYear}. Dal ${startupLastYear + 1} si applica automaticamente il ${STANDARD_SUBSTITUTE_RATE}%.`
+                      : `Il periodo agevolato al ${STARTUP_SUBSTITUTE_RATE}% si è concluso nel ${startupLastYear}: si applica l'aliquota ordinaria del ${STANDARD_SUBSTITUTE_RATE}%.`}
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <select
+                    value={settings.substituteRate}
+                    onChange={(e) => handleChange('substituteRate', Number(e.target.value))}
+                    className="mt-2 block w-full pl-3 pr-10 py-2 text-base text-gray-900 border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value={STARTUP_SUBSTITUTE_RATE}>{STARTUP_SUBSTITUTE_RATE}% (primi 5 anni)</option>
+                    <option value={STANDARD_SUBSTITUTE_RATE}>{STANDARD_SUBSTITUTE_RATE}% (dal sesto anno)</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Indica la data di inizio attività per applicare l&apos;aliquota corretta in automatico
+                  </p>
+                </>
+              )}
             </div>
 
             <div>
@@ -89,8 +155,97 @@ export const TaxableIncomeSection: React.FC<TaxableIncomeSectionProps> = ({
                 </button>
               </div>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Soglie di Avviso Ricavi
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                Percentuali del limite di 85.000 € a cui ricevere un avviso, separate da virgola
+              </p>
+              <div className="mt-2 relative rounded-md shadow-sm">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={thresholdsDraft}
+                  placeholder={DEFAULT_REVENUE_ALERT_THRESHOLDS.join(', ')}
+                  onChange={(e) => setThresholdsDraft(e.target.value)}
+                  onBlur={() => {
+                    const thresholds = parseThresholds(thresholdsDraft);
+                    handleChange('revenueAlertThresholds', thresholds.length > 0 ? thresholds : DEFAULT_REVENUE_ALERT_THRESHOLDS);
+                    setThresholdsDraft(thresholdsText);
+                  }}
+                  className="block w-full pl-3 pr-12 py-2 text-base text-gray-900 border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                  <span className="text-gray-500 sm:text-sm">%</span>
+                </div>
+              </div>
+            </div>
           </>
         )}
+
+        {settings.taxRegime === 'ordinario' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Addizionale Regionale IRPEF
+              </label>
+              <div className="mt-2 relative rounded-md shadow-sm">
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.01}
+                  value={settings.regionalSurchargeRate ?? ''}
+                  placeholder="1.23"
+                  onChange={(e) => handleChange('regionalSurchargeRate', Number(e.target.value))}
+                  className="block w-full pl-3 pr-12 py-2 text-base text-gray-900 border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                  <span className="text-gray-500 sm:text-sm">%</span>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Addizionale Comunale IRPEF
+              </label>
+              <div className="mt-2 relative rounded-md shadow-sm">
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.01}
+                  value={settings.municipalSurchargeRate ?? ''}
+                  placeholder="0.8"
+                  onChange={(e) => handleChange('municipalSurchargeRate', Number(e.target.value))}
+                  className="block w-full pl-3 pr-12 py-2 text-base text-gray-900 border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                  <span className="text-gray-500 sm:text-sm">%</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-2 sm:col-span-2">
+              <input
+                id="isa-subject"
+                type="checkbox"
+                checked={!!settings.isaSubject}
+                onChange={(e) => handleChange('isaSubject', e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="isa-subject" className="text-sm text-gray-700">
+                Soggetto agli ISA
+                <span className="block text-xs text-gray-500">
+                  Gli acconti d&apos;imposta si versano in due rate uguali del 50%
+                </span>
+              </label>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
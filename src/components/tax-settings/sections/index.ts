@@ -2,5 +2,6 @@
  * Tax Settings Section Components
  */
 
+export { FiscalProfileSection } from "./FiscalProfileSection";
 export { PensionContributionsSection } from "./PensionContributionsSection";
 export { TaxableIncomeSection } from "./TaxableIncomeSection";
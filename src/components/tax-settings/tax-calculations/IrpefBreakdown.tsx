@@ -0,0 +1,103 @@
+import React from 'react';
+import { IrpefCalculationResult } from '@/types/tax';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+
+/**
+ * Props for IrpefBreakdown component
+ */
+interface IrpefBreakdownProps {
+    breakdown: IrpefCalculationResult;
+    className?: string;
+}
+
+/**
+ * IRPEF Breakdown Component
+ *
+ * Follows Single Responsibility Principle - only handles IRPEF breakdown display.
+ * Shows the tax due for each bracket, the detrazioni per lavoro autonomo
+ * the regional and municipal addizionali and the withholding tax
+ * retained by clients, credited against the IRPEF due.
+ *
+ * @param breakdown - IRPEF calculation result for the ordinario regime
+ * @param className - Additional CSS classes
+ */
+export const IrpefBreakdown: React.FC<IrpefBreakdownProps> = ({
+    breakdown,
+    className = ""
+}) => {
+    const formatBracketRange = (lowerBound: number, upperBound?: number) =>
+        upperBound !== undefined
+            ? `${formatCurrency(lowerBound)} - ${formatCurrency(upperBound)}`
+            : `oltre ${formatCurrency(lowerBound)}`;
+
+    return (
+        <div className={className}>
+            <h4 className="text-sm font-semibold text-blue-900 mb-2">
+                Dettaglio IRPEF (imponibile {formatCurrency(breakdown.taxableIncome)})
+            </h4>
+
+            <table className="w-full text-sm" aria-label="Dettaglio IRPEF per scaglioni">
+                <thead>
+                    <tr className="text-left text-blue-700">
+                        <th className="py-1 font-medium">Scaglione</th>
+                        <th className="py-1 font-medium">Aliquota</th>
+                        <th className="py-1 font-medium text-right">Imponibile</th>
+                        <th className="py-1 font-medium text-right">Imposta</th>
+                    </tr>
+                </thead>
+                <tbody className="text-blue-900">
+                    {breakdown.brackets.map((bracket) => (
+                        <tr key={bracket.lowerBound}>
+                            <td className="py-1">
+                                {formatBracketRange(bracket.lowerBound, bracket.upperBound)}
+                            </td>
+                            <td className="py-1">{formatPercentage(bracket.rate, 0)}</td>
+                            <td className="py-1 text-right">{formatCurrency(bracket.taxableAmount)}</td>
+                            <td className="py-1 text-right">{formatCurrency(bracket.tax)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot className="text-blue-900">
+                    <tr className="border-t border-blue-200">
+                        <td className="py-1" colSpan={3}>IRPEF lorda</td>
+                        <td className="py-1 text-right">{formatCurrency(breakdown.grossTax)}</td>
+                    </tr>
+                    <tr>
+                        <td className="py-1" colSpan={3}>Detrazioni lavoro autonomo</td>
+                        <td className="py-1 text-right">-{formatCurrency(breakdown.selfEmploymentDeduction)}</td>
+                    </tr>
+                    <tr>
+                        <td className="py-1" colSpan={3}>Addizionale regionale</td>
+                        <td className="py-1 text-right">{formatCurrency(breakdown.regionalSurcharge)}</td>
+                    </tr>
+                    <tr>
+                        <td className="py-1" colSpan={3}>Addizionale comunale</td>
+                        <td className="py-1 text-right">{formatCurrency(breakdown.municipalSurcharge)}</td>
+                    </tr>
+                    <tr className="border-t border-blue-200 font-bold">
+                        <td className="py-1" colSpan={3}>Totale IRPEF</td>
+                        <td className="py-1 text-right">{formatCurrency(breakdown.totalIrpef)}</td>
+                    </tr>
+                    {breakdown.withheldTaxes > 0 && (
+                        <>
+                            <tr>
+                                <td className="py-1" colSpan={3}>Ritenute d&apos;acconto subite</td>
+                                <td className="py-1 text-right">-{formatCurrency(breakdown.withholdingCredit)}</td>
+                            </tr>
+                            <tr className="border-t border-blue-200 font-bold">
+                                <td className="py-1" colSpan={3}>IRPEF da versare</td>
+                                <td className="py-1 text-right">{formatCurrency(breakdown.irpefDue)}</td>
+                            </tr>
+                            {breakdown.withholdingSurplus > 0 && (
+                                <tr className="text-green-700">
+                                    <td className="py-1" colSpan={3}>IRPEF a credito (ritenute eccedenti)</td>
+                                    <td className="py-1 text-right">{formatCurrency(breakdown.withholdingSurplus)}</td>
+                                </tr>
+                            )}
+                        </>
+                    )}
+                </tfoot>
+            </table>
+        </div>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { PaymentSchedule, ScheduledTaxPayment } from '@/types/tax';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Props for PaymentScheduleTable component
+ */
+interface PaymentScheduleTableProps {
+    schedule: PaymentSchedule;
+    onMarkPaid: (payment: ScheduledTaxPayment) => Promise<unknown>;
+    onMarkUnpaid: (payment: ScheduledTaxPayment) => Promise<unknown>;
+    isUpdating?: boolean;
+    className?: string;
+}
+
+/**
+ * Format an ISO due date for display
+ */
+const formatDueDate = (date: string): string =>
+    new Date(date).toLocaleDateString('it-IT', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        timeZone: 'UTC'
+    });
+
+/**
+ * Payment Schedule Table Component
+ *
+ * Follows Single Responsibility Principle - only handles the payment schedule display.
+ * Lists the June saldo and first acconto, the November second acconto and the
+ * fixed contribution instalments and the quarterly stamp duty, each of which
+ * can be marked as paid.
+ *
+ * @param schedule - Payments settling the fiscal year and advancing the next one
+ * @param onMarkPaid - Records a payment as paid
+ * @param onMarkUnpaid - Removes the paid record of a payment
+ * @param isUpdating - Whether a payment is being updated
+ * @param className - Additional CSS classes
+ */
+export const PaymentScheduleTable: React.FC<PaymentScheduleTableProps> = ({
+    schedule,
+    onMarkPaid,
+    onMarkUnpaid,
+    isUpdating = false,
+    className = ''
+}) => {
+    const [error, setError] = useState<string | null>(null);
+    const { fiscalYear, payments, creditedAcconti } = schedule;
+    const creditedTotal = creditedAcconti.tax + creditedAcconti.contributions;
+    const hasBollo = payments.some((payment) => payment.category === 'bollo');
+
+    const handleToggle = async (payment: ScheduledTaxPayment) => {
+        try {
+            setError(null);
+            await (payment.paid ? onMarkUnpaid(payment) : onMarkPaid(payment));
+        } catch {
+            setError('Errore nell\'aggiornamento del pagamento');
+        }
+    };
+
+    return (
+        <section
+            className={`bg-white rounded-lg border border-gray-200 p-6 space-y-4 ${className}`}
+            aria-labelledby="payment-schedule-title"
+        >
+            <div>
+                <h3 id="payment-schedule-title" className="text-lg font-medium text-gray-900">
+                    Scadenze Pagamenti {fiscalYear + 1}
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                    Saldo {fiscalYear} e acconti {fiscalYear + 1} con il metodo storico, calcolati sulle imposte e sui contributi del {fiscalYear}.
+                    {hasBollo && ` Imposta di bollo ${fiscalYear} per trimestre sulle fatture emesse.`}
+                    {creditedTotal > 0 && ` Acconti ${fiscalYear} già versati: ${formatCurrency(creditedTotal)}.`}
+                </p>
+            </div>
+
+            {payments.length === 0 ? (
+                <p className="text-sm text-gray-500">Nessun pagamento dovuto.</p>
+            ) : (
+                <table className="w-full text-sm" aria-label={`Scadenze pagamenti ${fiscalYear + 1}`}>
+                    <thead>
+                        <tr className="text-left text-gray-600">
+                            <th className="py-1 font-medium">Scadenza</th>
+                            <th className="py-1 font-medium">Pagamento</th>
+                            <th className="py-1 font-medium text-right">Importo</th>
+                            <th className="py-1 font-medium text-center">Pagato</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900">
+                        {payments.map((payment) => (
+                            <tr key={payment.id} className={payment.paid ? 'text-gray-400' : ''}>
+                                <td className="py-1">{formatDueDate(payment.dueDate)}</td>
+                                <td className="py-1">{payment.description}</td>
+                                <td className="py-1 text-right">{formatCurrency(payment.amount)}</td>
+                                <td className="py-1 text-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={payment.paid}
+                                        disabled={isUpdating}
+                                        onChange={() => handleToggle(payment)}
+                                        aria-label={`Segna ${payment.description} come ${payment.paid ? 'non pagato' : 'pagato'}`}
+                                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="border-t border-gray-200 font-semibold">
+                            <td className="py-1" colSpan={2}>Da pagare</td>
+                            <td className="py-1 text-right">{formatCurrency(schedule.outstandingAmount)}</td>
+                            <td />
+                        </tr>
+                    </tfoot>
+                </table>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <p className="text-xs text-gray-500">
+                Gli acconti segnati come pagati vengono scalati dal saldo dell&apos;anno successivo.
+                Le scadenze che cadono nel fine settimana slittano al lunedì.
+            </p>
+        </section>
+    );
+};
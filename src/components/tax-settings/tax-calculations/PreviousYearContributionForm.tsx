@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Props for PreviousYearContributionForm component
+ */
+interface PreviousYearContributionFormProps {
+    selectedYear: number;
+    amount: number;
+    onSave: (amount: number) => Promise<void>;
+    isSaving?: boolean;
+    className?: string;
+}
+
+/**
+ * Previous Year Contribution Form Component
+ *
+ * Follows Single Responsibility Principle - only handles the contribution ledger entry.
+ * Records the pension contributions paid during the selected year, which the
+ * forfettario regime deducts from the income subject to the substitute tax.
+ *
+ * @param selectedYear - Currently selected year
+ * @param amount - Contributions currently recorded for the year
+ * @param onSave - Persists the new amount
+ * @param isSaving - Whether the amount is being saved
+ * @param className - Additional CSS classes
+ */
+export const PreviousYearContributionForm: React.FC<PreviousYearContributionFormProps> = ({
+    selectedYear,
+    amount,
+    onSave,
+    isSaving = false,
+    className = ''
+}) => {
+    const [value, setValue] = useState(amount.toString());
+    const [error, setError] = useState<string | null>(null);
+
+    // Keep the input in sync with the recorded amount
+    useEffect(() => {
+        setValue(amount.toString());
+    }, [amount, selectedYear]);
+
+    const parsedValue = Number(value);
+    const isValid = value !== '' && Number.isFinite(parsedValue) && parsedValue >= 0;
+    const isChanged = isValid && parsedValue !== amount;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isChanged) return;
+
+        try {
+            setError(null);
+            await onSave(parsedValue);
+        } catch {
+            setError('Errore nel salvataggio dei contributi');
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className={`bg-white border border-gray-200 rounded-lg p-6 ${className}`}
+        >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Contributi Versati nel {selectedYear}
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+                Contributi previdenziali pagati nell&apos;anno (saldo dell&apos;anno precedente e acconti),
+                deducibili dal reddito imponibile. Attualmente registrati: {formatCurrency(amount)}
+            </p>
+
+            <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-3">
+                <div className="flex-1 relative rounded-md shadow-sm">
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        aria-label={`Contributi versati nel ${selectedYear}`}
+                        className="block w-full pl-3 pr-12 py-2 text-base text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                        <span className="text-gray-500 sm:text-sm">€</span>
+                    </div>
+                </div>
+                <button
+                    type="submit"
+                    disabled={!isChanged || isSaving}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                    {isSaving ? 'Salvataggio...' : 'Salva'}
+                </button>
+            </div>
+
+            {error && (
+                <p className="mt-2 text-sm text-red-600">{error}</p>
+            )}
+        </form>
+    );
+};
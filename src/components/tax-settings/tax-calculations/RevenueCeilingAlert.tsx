@@ -0,0 +1,67 @@
+import React from 'react';
+import { RevenueCeilingProjection, RevenueCeilingStatus } from '@/types/tax';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+
+/**
+ * Props for RevenueCeilingAlert component
+ */
+interface RevenueCeilingAlertProps {
+    projection: RevenueCeilingProjection;
+    className?: string;
+}
+
+const ALERT_STYLES: Record<Exclude<RevenueCeilingStatus, 'ok'>, string> = {
+    warning: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+    projected_exit: 'bg-orange-50 border-orange-200 text-orange-800',
+    exit_next_year: 'bg-red-50 border-red-200 text-red-800',
+    immediate_exit: 'bg-red-50 border-red-300 text-red-900',
+};
+
+/**
+ * Build the alert message for a revenue ceiling projection
+ */
+export const getRevenueCeilingMessage = (projection: RevenueCeilingProjection): string => {
+    const { year, revenueToDate, projectedRevenue, projectedCeilingUsage, reachedThresholds } = projection;
+    const ceiling = formatCurrency(projection.ceiling);
+
+    switch (projection.status) {
+        case 'immediate_exit':
+            return `I ricavi ${year} (${formatCurrency(revenueToDate)}) superano ${formatCurrency(projection.immediateExitThreshold)}: il regime forfettario cessa già quest'anno e l'IVA si applica dalla fattura che ha superato il limite.`;
+        case 'exit_next_year':
+            return `I ricavi ${year} (${formatCurrency(revenueToDate)}) superano il limite di ${ceiling}: dal ${year + 1} si applica il regime ordinario.`;
+        case 'projected_exit':
+            return `Al ritmo attuale i ricavi ${year} arriverebbero a ${formatCurrency(projectedRevenue)}, oltre il limite di ${ceiling}: dal ${year + 1} passeresti al regime ordinario.`;
+        case 'warning':
+            return `Proiezione ricavi ${year}: ${formatCurrency(projectedRevenue)} (${formatPercentage(projectedCeilingUsage)} del limite di ${ceiling}). Soglia di avviso del ${Math.max(...reachedThresholds)}% raggiunta.`;
+        default:
+            return '';
+    }
+};
+
+/**
+ * Revenue Ceiling Alert Component
+ *
+ * Follows Single Responsibility Principle - only handles the ceiling alert.
+ * Renders nothing while the projection stays below every alert threshold.
+ *
+ * @param projection - Year-end revenue projection against the forfettario ceilings
+ * @param className - Additional CSS classes
+ */
+export const RevenueCeilingAlert: React.FC<RevenueCeilingAlertProps> = ({
+    projection,
+    className = ''
+}) => {
+    if (projection.status === 'ok') {
+        return null;
+    }
+
+    return (
+        <div
+            role="alert"
+            className={`border rounded-md p-4 text-sm ${ALERT_STYLES[projection.status]} ${className}`}
+        >
+            <h3 className="font-medium">Limite Ricavi Regime Forfettario</h3>
+            <p className="mt-1">{getRevenueCeilingMessage(projection)}</p>
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { ForfettarioMonitorResult, RegimeTaxEstimate } from '@/types/tax';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { RevenueCeilingAlert } from './RevenueCeilingAlert';
+
+/**
+ * Props for RevenueCeilingMonitor component
+ */
+interface RevenueCeilingMonitorProps {
+    monitor: ForfettarioMonitorResult;
+    className?: string;
+}
+
+/**
+ * Position of an amount on the bar, which ends at the immediate exit threshold
+ */
+const toBarPercentage = (amount: number, scale: number): number =>
+    Math.min(100, Math.max(0, (amount / scale) * 100));
+
+const SIMULATION_ROWS: { label: string; key: keyof RegimeTaxEstimate }[] = [
+    { label: 'Ricavi', key: 'revenue' },
+    { label: 'Costi deducibili', key: 'deductibleCosts' },
+    { label: 'Reddito imponibile', key: 'taxableIncome' },
+    { label: 'Contributi', key: 'contributions' },
+    { label: 'Imposte sul reddito', key: 'incomeTax' },
+    { label: 'Totale imposte e contributi', key: 'totalTaxes' },
+    { label: 'Reddito netto', key: 'netIncome' },
+];
+
+/**
+ * Revenue Ceiling Monitor Component
+ *
+ * Follows Single Responsibility Principle - only handles the ceiling monitor display.
+ * Shows revenue to date and year-end projection against the €85k ceiling,
+ * the configured alert thresholds and the following year simulated under
+ * both regimes.
+ *
+ * @param monitor - Ceiling projection and regime exit simulation
+ * @param className - Additional CSS classes
+ */
+export const RevenueCeilingMonitor: React.FC<RevenueCeilingMonitorProps> = ({
+    monitor,
+    className = ''
+}) => {
+    const { projection, simulation } = monitor;
+    const scale = projection.immediateExitThreshold;
+    const ceilingPosition = toBarPercentage(projection.ceiling, scale);
+
+    return (
+        <section
+            className={`bg-white rounded-lg border border-gray-200 p-6 space-y-4 ${className}`}
+            aria-labelledby="revenue-ceiling-title"
+        >
+            <div>
+                <h3 id="revenue-ceiling-title" className="text-lg font-medium text-gray-900">
+                    Limite Ricavi Forfettario {projection.year}
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                    Ricavi fatturati {formatCurrency(projection.revenueToDate)} ({formatPercentage(projection.ceilingUsage)} del limite),
+                    proiezione a fine anno {formatCurrency(projection.projectedRevenue)}
+                </p>
+            </div>
+
+            {/* Revenue bar: actual, projection, ceiling and alert thresholds */}
+            <div className="relative h-4 bg-gray-100 rounded-full" aria-hidden="true">
+                <div
+                    className="absolute inset-y-0 left-0 bg-blue-200 rounded-full"
+                    style={{ width: `${toBarPercentage(projection.projectedRevenue, scale)}%` }}
+                />
+                <div
+                    className="absolute inset-y-0 left-0 bg-blue-600 rounded-full"
+                    style={{ width: `${toBarPercentage(projection.revenueToDate, scale)}%` }}
+                />
+                {projection.thresholds.map((threshold) => (
+                    <div
+                        key={threshold}
+                        className="absolute inset-y-0 w-px bg-yellow-500"
+                        style={{ left: `${(ceilingPosition * threshold) / 100}%` }}
+                        title={`Soglia di avviso ${threshold}%`}
+                    />
+                ))}
+                <div
+                    className="absolute -inset-y-1 w-0.5 bg-red-600"
+                    style={{ left: `${ceilingPosition}%` }}
+                    title={`Limite ${formatCurrency(projection.ceiling)}`}
+                />
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+                <span>{formatCurrency(0)}</span>
+                <span>Limite {formatCurrency(projection.ceiling)}</span>
+                <span>{formatCurrency(scale)}</span>
+            </div>
+
+            <RevenueCeilingAlert projection={projection} />
+
+            {/* Regime exit simulation */}
+            <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                    Simulazione {simulation.year}: forfettario e ordinario
+                </h4>
+                <table className="w-full text-sm" aria-label="Simulazione uscita dal regime forfettario">
+                    <thead>
+                        <tr className="text-left text-gray-600">
+                            <th className="py-1 font-medium"></th>
+                            <th className="py-1 font-medium text-right">Forfettario</th>
+                            <th className="py-1 font-medium text-right">Ordinario</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900">
+                        {SIMULATION_ROWS.map(({ label, key }) => (
+                            <tr key={key} className={key === 'totalTaxes' ? 'border-t border-gray-200 font-semibold' : ''}>
+                                <td className="py-1">{label}</td>
+                                <td className="py-1 text-right">{formatCurrency(simulation.forfettario[key])}</td>
+                                <td className="py-1 text-right">{formatCurrency(simulation.ordinario[key])}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className={`mt-3 text-sm font-medium ${simulation.additionalTaxes > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                    {simulation.additionalTaxes > 0
+                        ? `Il passaggio al regime ordinario costerebbe ${formatCurrency(simulation.additionalTaxes)} in più di imposte e contributi.`
+                        : `Il regime ordinario non comporterebbe imposte e contributi aggiuntivi (${formatCurrency(Math.abs(simulation.additionalTaxes))} in meno).`}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                    Stima sui ricavi e costi proiettati a fine anno. In regime ordinario le fatture sono soggette a IVA.
+                </p>
+            </div>
+        </section>
+    );
+};
@@ -8,7 +8,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { CalculationCard } from '@/components/ui';
 import { TaxCalculationResult } from '@/types/tax';
-import { formatPercentage } from '@/utils/formatters';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
 
 /**
  * Props for TaxCalculationsGrid component
@@ -82,7 +82,7 @@ export const TaxCalculationsGrid: React.FC<TaxCalculationsGridProps> = ({
                 icon={CalculatorIcon}
                 tooltip={
                     settings?.taxRegime === 'forfettario'
-                        ? `Calcolato applicando il coefficiente di redditività (${settings.profitabilityRate}%) e sottraendo i costi`
+                        ? `Calcolato applicando il coefficiente di redditività (${settings.profitabilityRate}%) e sottraendo i costi e i contributi versati nell'anno (${formatCurrency(calculationResult.deductedContributions || 0)})`
                         : 'Calcolato sottraendo i costi deducibili dal fatturato'
                 }
                 variant="warning"
@@ -97,8 +97,10 @@ export const TaxCalculationsGrid: React.FC<TaxCalculationsGridProps> = ({
                 icon={CurrencyEuroIcon}
                 tooltip={
                     settings?.taxRegime === 'forfettario'
-                        ? `Imposta sostitutiva al ${settings.substituteRate}%`
-                        : 'Imposta sul reddito delle persone fisiche'
+                        ? `Imposta sostitutiva al ${calculationResult.substituteRate ?? settings.substituteRate}%`
+                        : calculationResult.irpefBreakdown
+                            ? `IRPEF lorda ${formatCurrency(calculationResult.irpefBreakdown.grossTax)}, detrazioni lavoro autonomo ${formatCurrency(calculationResult.irpefBreakdown.selfEmploymentDeduction)}, addizionali regionale e comunale ${formatCurrency(calculationResult.irpefBreakdown.regionalSurcharge + calculationResult.irpefBreakdown.municipalSurcharge)}`
+                            : 'Imposta sul reddito delle persone fisiche'
                 }
                 variant="danger"
                 isLoading={isLoading}
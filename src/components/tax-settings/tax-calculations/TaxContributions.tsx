@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { useTaxCalculations, useYearSelection } from '@/hooks/tax-settings';
+import { usePaymentSchedule, useTaxCalculations, useYearSelection } from '@/hooks/tax-settings';
 import { ErrorDisplay } from '@/components/ui';
 
 // Import from same directory (relative paths)
@@ -9,6 +9,10 @@ import { TaxCalculationsHeader } from './TaxCalculationsHeader';
 import { TaxCalculationsGrid } from './TaxCalculationsGrid';
 import { TaxSummarySection } from './TaxSummarySection';
 import { TaxEmptyState } from './TaxEmptyState';
+import { PreviousYearContributionForm } from './PreviousYearContributionForm';
+import { RevenueCeilingMonitor } from './RevenueCeilingMonitor';
+import { PaymentScheduleTable } from './PaymentScheduleTable';
+import { WithholdingCertificatesSection } from './WithholdingCertificatesSection';
 
 /**
  * Props for TaxContributions component
@@ -30,6 +34,10 @@ interface TaxContributionsProps {
  * - Year selection with validation
  * - Real-time tax calculations
  * - Visual breakdown of costs and taxes
+ * - Deduction of contributions paid in the year (forfettario)
+ * - Revenue ceiling monitor and regime exit simulation (forfettario)
+ * - Withholding tax and client certificate reconciliation (ordinario)
+ * - Saldo and acconti payment schedule
  * - Accessible data presentation
  * - Mobile-responsive design
  * - Loading states and error feedback
@@ -58,9 +66,25 @@ const TaxContributions: React.FC<TaxContributionsProps> = React.memo(({
         isLoading,
         hasError,
         errorMessage,
+        forfettarioMonitor,
+        previousYearContributions,
+        savePreviousYearContribution,
+        isSavingPreviousYearContribution,
+        withholdingSummary,
+        saveWithholdingCertificate,
+        deleteWithholdingCertificate,
+        isSavingWithholdingCertificate,
         handleRefreshCalculations
     } = useTaxCalculations(selectedYear);
 
+    // Saldo and acconti due the following year
+    const {
+        schedule: paymentSchedule,
+        markPaid,
+        markUnpaid,
+        isUpdating: isUpdatingPayment
+    } = usePaymentSchedule(selectedYear);
+
     /**
      * Generate unique IDs for accessibility
      */
@@ -101,6 +125,41 @@ const TaxContributions: React.FC<TaxContributionsProps> = React.memo(({
                 isLoading={isLoading}
             />
 
+            {/* Contribution Ledger (forfettario only) */}
+            {settings?.taxRegime === 'forfettario' && !isLoading && (
+                <PreviousYearContributionForm
+                    selectedYear={selectedYear}
+                    amount={previousYearContributions}
+                    onSave={savePreviousYearContribution}
+                    isSaving={isSavingPreviousYearContribution}
+                />
+            )}
+
+            {/* Revenue Ceiling Monitor (forfettario only) */}
+            {settings?.taxRegime === 'forfettario' && forfettarioMonitor && (
+                <RevenueCeilingMonitor monitor={forfettarioMonitor} />
+            )}
+
+            {/* Withholding Tax Certificates (ordinario only) */}
+            {settings?.taxRegime === 'ordinario' && withholdingSummary && !isLoading && (
+                <WithholdingCertificatesSection
+                    summary={withholdingSummary}
+                    onSave={saveWithholdingCertificate}
+                    onDelete={deleteWithholdingCertificate}
+                    isSaving={isSavingWithholdingCertificate}
+                />
+            )}
+
+            {/* Payment Schedule */}
+            {paymentSchedule && !isLoading && (
+                <PaymentScheduleTable
+                    schedule={paymentSchedule}
+                    onMarkPaid={markPaid}
+                    onMarkUnpaid={markUnpaid}
+                    isUpdating={isUpdatingPayment}
+                />
+            )}
+
             {/* Summary Section */}
             <TaxSummarySection
                 calculationResult={calculationResult}
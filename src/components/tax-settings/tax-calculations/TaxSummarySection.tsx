@@ -1,6 +1,7 @@
 import React from 'react';
 import { TaxCalculationResult } from '@/types/tax';
 import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { IrpefBreakdown } from './IrpefBreakdown';
 
 /**
  * Props for TaxSummarySection component
@@ -23,6 +24,7 @@ interface TaxSummarySectionProps {
  * - Net income calculation (income - taxes)
  * - Tax pressure percentage
  * - Tax regime display
+ * - IRPEF bracket breakdown for the ordinario regime
  * - Responsive grid layout
  * - Conditional rendering based on data availability
  * - Consistent formatting for all values
@@ -78,6 +80,14 @@ export const TaxSummarySection: React.FC<TaxSummarySectionProps> = ({
                     </div>
                 </div>
             </div>
+
+            {/* IRPEF Breakdown (ordinario only) */}
+            {calculationResult.irpefBreakdown && (
+                <IrpefBreakdown
+                    breakdown={calculationResult.irpefBreakdown}
+                    className="mt-6 pt-4 border-t border-blue-200"
+                />
+            )}
         </div>
     );
 }; 
\ No newline at end of file
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import {
+    WithholdingCertificateRequest,
+    WithholdingClientReconciliation,
+    WithholdingReconciliationStatus,
+    WithholdingSummary,
+} from '@/types';
+import { formatCurrency } from '@/utils/formatters';
+
+/**
+ * Props for WithholdingCertificatesSection component
+ */
+interface WithholdingCertificatesSectionProps {
+    summary: WithholdingSummary;
+    onSave: (certificate: WithholdingCertificateRequest) => Promise<unknown>;
+    onDelete: (id: string) => Promise<unknown>;
+    isSaving?: boolean;
+    className?: string;
+}
+
+/**
+ * Certificate being edited: a client of the reconciliation or a new one
+ */
+interface CertificateDraft {
+    clientName: string;
+    clientId: string | null;
+    grossAmount: string;
+    withheldAmount: string;
+    isNew: boolean;
+}
+
+const STATUS_LABELS: Record<WithholdingReconciliationStatus, { label: string; className: string }> = {
+    matched: { label: 'Corrispondente', className: 'bg-green-100 text-green-800' },
+    mismatch: { label: 'Importi diversi', className: 'bg-amber-100 text-amber-800' },
+    missing: { label: 'CU mancante', className: 'bg-gray-100 text-gray-700' },
+    unexpected: { label: 'Nessuna fattura', className: 'bg-red-100 text-red-800' },
+};
+
+const toDraft = (row: WithholdingClientReconciliation): CertificateDraft => {
+    const source = row.certificate ?? row.expected;
+    return {
+        clientName: row.clientName,
+        clientId: row.clientId,
+        grossAmount: String(source?.grossAmount ?? 0),
+        withheldAmount: String(source?.withheldAmount ?? 0),
+        isNew: false,
+    };
+};
+
+/**
+ * Withholding Certificates Section Component
+ *
+ * Follows Single Responsibility Principle - only handles the certificate reconciliation.
+ * Shows the withholding tax retained by clients on the invoices paid in the year,
+ * credited against IRPEF, and compares each client's Certificazione Unica with
+ * the invoices, so missing or wrong certificates can be requested again.
+ *
+ * @param summary - Withholding total and reconciliation of the year
+ * @param onSave - Records the certificate of a client
+ * @param onDelete - Deletes a recorded certificate
+ * @param isSaving - Whether a certificate is being saved
+ * @param className - Additional CSS classes
+ */
+export const WithholdingCertificatesSection: React.FC<WithholdingCertificatesSectionProps> = ({
+    summary,
+    onSave,
+    onDelete,
+    isSaving = false,
+    className = ''
+}) => {
+    const [draft, setDraft] = useState<CertificateDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (summary.withheldTotal === 0 && summary.clients.length === 0 && !draft) {
+        return null;
+    }
+
+    const grossAmount = Number(draft?.grossAmount);
+    const withheldAmount = Number(draft?.withheldAmount);
+    const isValid =
+        !!draft &&
+        draft.clientName.trim() !== '' &&
+        draft.grossAmount !== '' &&
+        draft.withheldAmount !== '' &&
+        grossAmount >= 0 &&
+        withheldAmount >= 0 &&
+        withheldAmount <= grossAmount;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || !isValid) return;
+
+        try {
+            setError(null);
+            await onSave({
+                year: summary.year,
+                clientName: draft.clientName.trim(),
+                clientId: draft.clientId,
+                grossAmount,
+                withheldAmount,
+            });
+            setDraft(null);
+        } catch {
+            setError('Errore nel salvataggio della certificazione');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            setError(null);
+            await onDelete(id);
+        } catch {
+            setError('Errore nell\'eliminazione della certificazione');
+        }
+    };
+
+    const renderDraftForm = () => draft && (
+        <form onSubmit={handleSubmit} className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <label className="text-sm text-gray-700">
+                Cliente
+                <input
+                    type="text"
+                    value={draft.clientName}
+                    disabled={!draft.isNew}
+                    onChange={(e) => setDraft({ ...draft, clientName: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-gray-900 disabled:bg-gray-100"
+                />
+            </label>
+            <label className="text-sm text-gray-700">
+                Compensi certificati
+                <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={draft.grossAmount}
+                    onChange={(e) => setDraft({ ...draft, grossAmount: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-gray-900"
+                />
+            </label>
+            <label className="text-sm text-gray-700">
+                Ritenute certificate
+                <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={draft.withheldAmount}
+                    onChange={(e) => setDraft({ ...draft, withheldAmount: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-gray-900"
+                />
+            </label>
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={!isValid || isSaving}
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {isSaving ? 'Salvataggio...' : 'Salva'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                    Annulla
+                </button>
+            </div>
+        </form>
+    );
+
+    return (
+        <section className={`bg-white border border-gray-200 rounded-lg p-6 ${className}`}>
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                        Ritenute d&apos;Acconto {summary.year}
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                        Ritenute trattenute dai clienti sulle fatture incassate nell&apos;anno,
+                        scomputate dall&apos;IRPEF: {formatCurrency(summary.withheldTotal)}
+                    </p>
+                </div>
+                {!draft && (
+                    <button
+                        onClick={() => setDraft({
+                            clientName: '',
+                            clientId: null,
+                            grossAmount: '',
+                            withheldAmount: '',
+                            isNew: true,
+                        })}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                        Aggiungi certificazione
+                    </button>
+                )}
+            </div>
+
+            {summary.clients.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm" aria-label="Riconciliazione certificazioni uniche">
+                        <thead>
+                            <tr className="text-left text-gray-600">
+                                <th className="py-2 font-medium">Cliente</th>
+                                <th className="py-2 font-medium text-right">Compensi fatture</th>
+                                <th className="py-2 font-medium text-right">Ritenute fatture</th>
+                                <th className="py-2 font-medium text-right">Compensi CU</th>
+                                <th className="py-2 font-medium text-right">Ritenute CU</th>
+                                <th className="py-2 font-medium">Stato</th>
+                                <th className="py-2" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 text-gray-900">
+                            {summary.clients.map((row) => (
+                                <tr key={row.certificate?.id ?? row.clientName}>
+                                    <td className="py-2">{row.clientName}</td>
+                                    <td className="py-2 text-right">
+                                        {row.expected ? formatCurrency(row.expected.grossAmount) : '-'}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        {row.expected ? formatCurrency(row.expected.withheldAmount) : '-'}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        {row.certificate ? formatCurrency(row.certificate.grossAmount) : '-'}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        {row.certificate ? formatCurrency(row.certificate.withheldAmount) : '-'}
+                                    </td>
+                                    <td className="py-2">
+                                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_LABELS[row.status].className}`}>
+                                            {STATUS_LABELS[row.status].label}
+                                        </span>
+                                    </td>
+                                    <td className="py-2 text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => setDraft(toDraft(row))}
+                                            className="text-blue-600 hover:text-blue-800 font-medium"
+                                        >
+                                            {row.certificate ? 'Modifica' : 'Registra CU'}
+                                        </button>
+                                        {row.certificate && (
+                                            <button
+                                                onClick={() => row.certificate && handleDelete(row.certificate.id)}
+                                                disabled={isSaving}
+                                                className="ml-3 text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                                            >
+                                                Elimina
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {renderDraftForm()}
+
+            {error && (
+                <p className="mt-2 text-sm text-red-600">{error}</p>
+            )}
+        </section>
+    );
+};
@@ -7,3 +7,9 @@ export { TaxCalculationsGrid } from "./TaxCalculationsGrid";
 export { default as TaxContributions } from "./TaxContributions";
 export { TaxEmptyState } from "./TaxEmptyState";
 export { TaxSummarySection } from "./TaxSummarySection";
+export { IrpefBreakdown } from "./IrpefBreakdown";
+export { PreviousYearContributionForm } from "./PreviousYearContributionForm";
+export { RevenueCeilingAlert } from "./RevenueCeilingAlert";
+export { RevenueCeilingMonitor } from "./RevenueCeilingMonitor";
+export { PaymentScheduleTable } from "./PaymentScheduleTable";
+export { WithholdingCertificatesSection } from "./WithholdingCertificatesSection";
@@ -70,10 +70,23 @@ const CostCategories: React.FC<{ categories: CostData['categories'] }> = ({ cate
                         </div>
                         <div className="text-xs text-gray-500">
                             {category.percentage.toFixed(1)}%
+                            {category.trend !== 0 && (
+                                <span className={category.trend > 0 ? 'text-red-600 ml-1' : 'text-green-600 ml-1'}>
+                                    ({category.trend > 0 ? '+' : ''}{category.trend.toFixed(0)}%)
+                                </span>
+                            )}
                         </div>
                     </div>
                 </div>
             ))}
+            {categories.length > 3 && (
+                <div className="text-xs text-gray-500 text-right">
+                    +{categories.length - 3} altre categorie
+                </div>
+            )}
+            {categories.length === 0 && (
+                <div className="text-sm text-gray-500">Nessun costo questo mese</div>
+            )}
         </div>
     );
 };
@@ -82,7 +95,7 @@ const CostCategories: React.FC<{ categories: CostData['categories'] }> = ({ cate
  * Cost Metrics Display Component
  * SRP: Handles only cost metrics rendering
  */
-const CostMetrics: React.FC<{ data: CostData }> = ({ data }) => {
+const CostMetrics: React.FC<{ data: CostData; showCategories: boolean }> = ({ data, showCategories }) => {
     const monthlyTrendIcon = data.monthlyTrend >= 0 ? TrendingUp : TrendingDown;
     const monthlyTrendColor = data.monthlyTrend >= 0 ? 'text-red-600' : 'text-green-600'; // Inverted for costs
     const monthlyTrendBg = data.monthlyTrend >= 0 ? 'bg-red-50' : 'bg-green-50';
@@ -135,16 +148,18 @@ const CostMetrics: React.FC<{ data: CostData }> = ({ data }) => {
             </div>
 
             {/* Top Categories */}
-            <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
-                    <ShoppingCart className="h-4 w-4 mr-1" />
-                    Top Categorie
-                </h4>
-                <CostCategories categories={data.categories} />
-            </div>
+            {showCategories && (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                        <ShoppingCart className="h-4 w-4 mr-1" />
+                        Top Categorie
+                    </h4>
+                    <CostCategories categories={data.categories} />
+                </div>
+            )}
 
             {/* Highest Category Alert */}
-            {data.highestCategory.amount > data.averageMonthly * 0.3 && (
+            {showCategories && data.highestCategory.amount > data.averageMonthly * 0.3 && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
                     <div className="flex items-center space-x-2">
                         <AlertTriangle className="h-4 w-4 text-yellow-600" />
@@ -183,7 +198,7 @@ export const CostWidget: React.FC<CostWidgetProps> = ({
     onConfigChange,
     onRemove,
     onRefresh,
-    showCategories: _showCategories = true,
+    showCategories = true,
     showDeductible: _showDeductible = true,
     monthsToAnalyze = 12,
     className = ''
@@ -226,7 +241,7 @@ export const CostWidget: React.FC<CostWidgetProps> = ({
         >
             {/* Widget Content */}
             {costData && !isLoading && !error ? (
-                <CostMetrics data={costData} />
+                <CostMetrics data={costData} showCategories={showCategories} />
             ) : (
                 /* Loading/Error handled by WidgetContainer */
                 <div className="flex items-center justify-center h-full text-gray-500">
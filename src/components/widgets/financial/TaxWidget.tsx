@@ -34,7 +34,7 @@ export interface TaxData extends Record<string, unknown> {
         description: string;
         amount: number;
         dueDate: Date;
-        type: 'irpef' | 'inps' | 'fund' | 'iva';
+        type: 'irpef' | 'inps' | 'fund' | 'iva' | 'bollo';
         isPaid: boolean;
     }[];
     taxRegime: 'forfettario' | 'ordinario';
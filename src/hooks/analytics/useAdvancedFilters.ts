@@ -175,13 +175,19 @@ class DataFilterService {
   }
 }
 
+/**
+ * Stable default for the registry clients, avoids recomputing the options
+ */
+const NO_REGISTRY_CLIENTS: string[] = [];
+
 /**
  * Advanced Filters Hook
  * SRP: Handles only advanced filtering state and operations
  */
 export const useAdvancedFilters = (
   data: FilterableData[],
-  initialCriteria?: Partial<FilterCriteria>
+  initialCriteria?: Partial<FilterCriteria>,
+  registryClients: string[] = NO_REGISTRY_CLIENTS
 ) => {
   // Initialize filter criteria
   const [criteria, setCriteria] = useState<FilterCriteria>({
@@ -194,11 +200,14 @@ export const useAdvancedFilters = (
     ...initialCriteria,
   });
 
-  // Extract available options from data
+  // Extract available options from data and the client registry
   const availableOptions = useMemo(() => {
     const clients = [
-      ...new Set(data.map((item) => item.clientName).filter(Boolean)),
-    ] as string[];
+      ...new Set([
+        ...registryClients,
+        ...(data.map((item) => item.clientName).filter(Boolean) as string[]),
+      ]),
+    ];
     const categories = [
       ...new Set(data.map((item) => item.category).filter(Boolean)),
     ] as string[];
@@ -207,7 +216,7 @@ export const useAdvancedFilters = (
       clients: clients.sort(),
       categories: categories.sort(),
     };
-  }, [data]);
+  }, [data, registryClients]);
 
   // Apply filters to data
   const filteredData = useMemo(() => {
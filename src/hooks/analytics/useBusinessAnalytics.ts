@@ -10,7 +10,10 @@
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { invoiceService } from "@/services/invoiceService";
+import { filterRevenueInvoices } from "@/utils/invoiceCalculations";
 import { costService } from "@/services/costService";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { getRevenueRecognition } from "@/utils/revenueRecognitionCalculations";
 import {
   KPICalculatorService,
   BusinessInsightsService,
@@ -39,6 +42,12 @@ export const useBusinessAnalytics = (
     profitData: ChartAnalyticsData;
   } | null>(null);
 
+  // Invoices count as revenue when paid for forfettari, when issued otherwise
+  const {
+    state: { settings },
+  } = useTaxSettings();
+  const recognition = getRevenueRecognition(settings?.taxRegime);
+
   // Fetch invoices
   const {
     data: invoices,
@@ -47,7 +56,9 @@ export const useBusinessAnalytics = (
     refetch: refetchInvoices,
   } = useQuery({
     queryKey: ["invoices", "analytics", period],
-    queryFn: () => invoiceService.getAllInvoices(),
+    // Drafts and cancelled invoices are not revenue
+    queryFn: async () =>
+      filterRevenueInvoices(await invoiceService.getAllInvoices()),
     staleTime: 5 * 60 * 1000,
   });
 
@@ -66,7 +77,7 @@ export const useBusinessAnalytics = (
   // Process data when available
   useEffect(() => {
     if (invoices && costs) {
-      const analyticsData = { invoices, costs, period };
+      const analyticsData = { invoices, costs, period, recognition };
 
       // Calculate KPIs using service
       const calculatedKPIs =
@@ -98,7 +109,7 @@ export const useBusinessAnalytics = (
         profitData,
       });
     }
-  }, [invoices, costs, period]);
+  }, [invoices, costs, period, recognition]);
 
   // Refresh function
   const refresh = useCallback(() => {
@@ -0,0 +1,6 @@
+/**
+ * Client Hooks Exports
+ * Centralized export point for client registry hooks
+ */
+
+export { useClients } from "./useClients";
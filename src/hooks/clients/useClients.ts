@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { clientService, ClientData } from "@/services/clientService";
+
+/**
+ * Custom hook for the client registry
+ * Loads the user's clients and manages their anagrafica
+ */
+export const useClients = () => {
+  const queryClient = useQueryClient();
+
+  const {
+    data: clients = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ["clients"],
+    queryFn: () => clientService.getClients(),
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+
+  // Saving a client may link invoices issued to its name
+  const invalidateClients = () => {
+    queryClient.invalidateQueries({ queryKey: ["clients"] });
+    queryClient.invalidateQueries({ queryKey: ["invoices"], exact: false });
+  };
+
+  const createClientMutation = useMutation({
+    mutationFn: (data: ClientData) => clientService.createClient(data),
+    onSuccess: invalidateClients,
+  });
+
+  const updateClientMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ClientData }) =>
+      clientService.updateClient(id, data),
+    onSuccess: invalidateClients,
+  });
+
+  const deleteClientMutation = useMutation({
+    mutationFn: (id: string) => clientService.deleteClient(id),
+    onSuccess: invalidateClients,
+  });
+
+  return {
+    clients,
+    loading,
+    error: error ? "Errore nel caricamento dei clienti" : null,
+    createClient: createClientMutation.mutateAsync,
+    updateClient: updateClientMutation.mutateAsync,
+    deleteClient: deleteClientMutation.mutateAsync,
+    isSaving:
+      createClientMutation.isPending ||
+      updateClientMutation.isPending ||
+      deleteClientMutation.isPending,
+  };
+};
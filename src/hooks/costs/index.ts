@@ -2,3 +2,5 @@ export { useCosts } from "./useCosts";
 export { useNewCost } from "./useNewCost";
 export { useCostForm } from "./useCostForm";
 export { useCostFormState } from "./useCostFormState";
+export { useCostCategories } from "./useCostCategories";
+export { useRecurringCost } from "./useRecurringCost";
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { costCategoryService } from "@/services/costCategoryService";
+
+/**
+ * Custom hook for the cost category taxonomy
+ * Loads system and custom categories and manages custom ones
+ */
+export const useCostCategories = () => {
+  const queryClient = useQueryClient();
+
+  const {
+    data: categories = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ["costCategories"],
+    queryFn: () => costCategoryService.getCategories(),
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+
+  const invalidateCategories = () =>
+    queryClient.invalidateQueries({ queryKey: ["costCategories"] });
+
+  const createCategoryMutation = useMutation({
+    mutationFn: (name: string) => costCategoryService.createCategory(name),
+    onSuccess: invalidateCategories,
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) =>
+      costCategoryService.updateCategory(id, name),
+    onSuccess: invalidateCategories,
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: (id: string) => costCategoryService.deleteCategory(id),
+    onSuccess: () => {
+      invalidateCategories();
+      // Costs of the deleted category become uncategorized
+      queryClient.invalidateQueries({ queryKey: ["costs"], exact: false });
+    },
+  });
+
+  return {
+    categories,
+    loading,
+    error: error ? "Errore nel caricamento delle categorie" : null,
+    createCategory: createCategoryMutation.mutateAsync,
+    updateCategory: updateCategoryMutation.mutateAsync,
+    deleteCategory: deleteCategoryMutation.mutateAsync,
+    isSaving:
+      createCategoryMutation.isPending ||
+      updateCategoryMutation.isPending ||
+      deleteCategoryMutation.isPending,
+  };
+};
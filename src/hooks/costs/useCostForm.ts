@@ -1,5 +1,9 @@
 import { useState } from "react";
 import { costService, CreateCostData } from "@/services/costService";
+import {
+  CostRecurrenceData,
+  recurringCostService,
+} from "@/services/recurringCostService";
 
 interface UseCostFormOptions {
   onSuccess?: () => void;
@@ -12,7 +16,10 @@ interface UseCostFormReturn {
   error: string | null;
   openForm: () => void;
   closeForm: () => void;
-  submitForm: (costData: CreateCostData) => Promise<void>;
+  submitForm: (
+    costData: CreateCostData,
+    recurrence?: CostRecurrenceData | null
+  ) => Promise<void>;
 }
 
 /**
@@ -37,12 +44,25 @@ export const useCostForm = (
     setError(null);
   };
 
-  const submitForm = async (costData: CreateCostData): Promise<void> => {
+  const submitForm = async (
+    costData: CreateCostData,
+    recurrence?: CostRecurrenceData | null
+  ): Promise<void> => {
     try {
       setLoading(true);
       setError(null);
 
-      await costService.createCost(costData);
+      // Recurring costs are generated by their series from the cost date
+      if (recurrence) {
+        await recurringCostService.createRecurringCost({
+          ...costData,
+          frequency: recurrence.frequency,
+          startDate: costData.date,
+          endDate: recurrence.endDate,
+        });
+      } else {
+        await costService.createCost(costData);
+      }
 
       setShowForm(false);
       options.onSuccess?.();
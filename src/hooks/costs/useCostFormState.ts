@@ -35,7 +35,9 @@ export const useCostFormState = ({
         description: initialCost?.description || '',
         date: initialCost?.date ? initialCost.date.split('T')[0] : new Date().toISOString().split('T')[0],
         amount: initialCost?.amount || 0,
-        deductible: initialCost?.deductible ?? true
+        deductible: initialCost?.deductible ?? true,
+        deductionPercentage: initialCost?.deductionPercentage ?? 100,
+        categoryId: initialCost?.categoryId ?? null
     });
 
     const [formData, setFormData] = useState<CreateCostData>(getInitialFormData);
@@ -57,7 +59,9 @@ export const useCostFormState = ({
                 description: initialCost.description,
                 date: initialCost.date.split('T')[0],
                 amount: initialCost.amount,
-                deductible: initialCost.deductible
+                deductible: initialCost.deductible,
+                deductionPercentage: initialCost.deductionPercentage ?? 100,
+                categoryId: initialCost.categoryId ?? null
             };
             setFormData(newFormData);
             clearErrors();
@@ -1,6 +1,11 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Cost, costService } from "@/services/costService";
+import {
+  CostRecurrenceData,
+  recurringCostService,
+} from "@/services/recurringCostService";
+import { calculateTotalDeductibleAmount } from "@/utils/costCalculations";
 
 export const useCosts = (selectedYear: number) => {
   const [error, setError] = useState<string | null>(null);
@@ -18,18 +23,28 @@ export const useCosts = (selectedYear: number) => {
   });
 
   const updateCostMutation = useMutation({
-    mutationFn: ({
+    mutationFn: async ({
       id,
       data,
+      recurrence,
     }: {
       id: string;
       data: Omit<Cost, "id" | "createdAt" | "updatedAt">;
-    }) => costService.updateCost(id, data),
+      recurrence?: CostRecurrenceData | null;
+    }) => {
+      const cost = await costService.updateCost(id, data);
+      // Left undefined when the recurrence was not edited
+      if (recurrence !== undefined) {
+        await recurringCostService.saveCostRecurrence(cost, recurrence);
+      }
+      return cost;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ 
         queryKey: ["costs"],
         exact: false
       });
+      queryClient.invalidateQueries({ queryKey: ["recurringCosts"] });
       setError(null);
     },
     onError: (err: unknown) => {
@@ -55,9 +70,10 @@ export const useCosts = (selectedYear: number) => {
 
   const handleUpdateCost = async (
     id: string,
-    data: Omit<Cost, "id" | "createdAt" | "updatedAt">
+    data: Omit<Cost, "id" | "createdAt" | "updatedAt">,
+    recurrence?: CostRecurrenceData | null
   ) => {
-    updateCostMutation.mutate({ id, data });
+    updateCostMutation.mutate({ id, data, recurrence });
   };
 
   const handleDeleteCost = async (id: string) => {
@@ -87,16 +103,12 @@ export const useCosts = (selectedYear: number) => {
   }, [queryError]);
 
   // Calculate totals
+  // Partially deductible costs split between the two totals
   const deductibleCosts = costs.filter((cost) => cost.deductible);
   const nonDeductibleCosts = costs.filter((cost) => !cost.deductible);
-  const totalDeductibleCosts = deductibleCosts.reduce(
-    (sum, cost) => sum + cost.amount,
-    0
-  );
-  const totalNonDeductibleCosts = nonDeductibleCosts.reduce(
-    (sum, cost) => sum + cost.amount,
-    0
-  );
+  const totalDeductibleCosts = calculateTotalDeductibleAmount(costs);
+  const totalNonDeductibleCosts =
+    costs.reduce((sum, cost) => sum + cost.amount, 0) - totalDeductibleCosts;
 
   return {
     costs,
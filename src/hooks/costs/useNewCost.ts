@@ -17,6 +17,7 @@ export const useNewCost = ({ selectedYear: _selectedYear, onSuccess }: UseNewCos
     date: new Date().toISOString().split("T")[0],
     amount: 0,
     deductible: true,
+    deductionPercentage: 100,
   });
 
   const createCostMutation = useMutation({
@@ -71,6 +72,8 @@ export const useNewCost = ({ selectedYear: _selectedYear, onSuccess }: UseNewCos
       date: new Date(newCost.date).toISOString(),
       amount: Number(newCost.amount || 0),
       deductible: newCost.deductible ?? true,
+      deductionPercentage: newCost.deductionPercentage ?? 100,
+      categoryId: newCost.categoryId ?? null,
     };
 
     createCostMutation.mutate(costData);
@@ -82,6 +85,7 @@ export const useNewCost = ({ selectedYear: _selectedYear, onSuccess }: UseNewCos
       date: new Date().toISOString().split("T")[0],
       amount: 0,
       deductible: true,
+      deductionPercentage: 100,
     });
     setError(null);
   };
@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { recurringCostService } from "@/services/recurringCostService";
+
+/**
+ * Custom hook for the recurring cost series of a cost
+ * Loads the series and skips or restores its upcoming occurrences
+ */
+export const useRecurringCost = (recurringCostId?: string | null) => {
+  const queryClient = useQueryClient();
+  const queryKey = ["recurringCosts", recurringCostId];
+
+  const {
+    data: series = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: () =>
+      recurringCostService.getRecurringCostById(recurringCostId as string),
+    enabled: !!recurringCostId,
+  });
+
+  const skipOccurrenceMutation = useMutation({
+    mutationFn: ({ date, skipped }: { date: string; skipped: boolean }) =>
+      recurringCostService.skipOccurrence(
+        recurringCostId as string,
+        date,
+        skipped
+      ),
+    onSuccess: (updated) => queryClient.setQueryData(queryKey, updated),
+  });
+
+  return {
+    series,
+    loading: !!recurringCostId && loading,
+    error: error ? "Errore nel caricamento del costo ricorrente" : null,
+    skipOccurrence: (date: string, skipped: boolean) =>
+      skipOccurrenceMutation.mutateAsync({ date, skipped }),
+    isSkipping: skipOccurrenceMutation.isPending,
+  };
+};
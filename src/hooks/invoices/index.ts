@@ -16,3 +16,8 @@ export {
   vatOptions,
 } from "./useNewInvoice";
 export { useInvoiceActions } from "./useInvoiceActions";
+export { useFatturaPaExport } from "./useFatturaPaExport";
+export { useFatturaPaImport } from "./useFatturaPaImport";
+export { useInvoiceNumbering } from "./useInvoiceNumbering";
+export { useInvoiceSettings } from "./useInvoiceSettings";
+export { useRecurringInvoices } from "./useRecurringInvoices";
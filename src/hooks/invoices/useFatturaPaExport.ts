@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { invoiceService } from "@/services/invoiceService";
+import { useFiscalProfile } from "@/hooks/tax-settings/useFiscalProfile";
+import { getFatturaPaFileName } from "@/utils/fatturaPaCalculations";
+
+/**
+ * Save a downloaded file through a temporary link
+ */
+const saveBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Custom hook for the FatturaPA export of invoices
+ * Downloads the XML file named as expected by the SDI
+ */
+export const useFatturaPaExport = () => {
+  const { profile } = useFiscalProfile();
+  const [exportingInvoiceId, setExportingInvoiceId] = useState<string | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const exportFatturaPa = async (invoiceId: string): Promise<void> => {
+    setExportingInvoiceId(invoiceId);
+    setError(null);
+
+    try {
+      const blob = await invoiceService.downloadFatturaPa(invoiceId);
+      saveBlob(
+        blob,
+        profile
+          ? getFatturaPaFileName(profile.vatNumber, invoiceId)
+          : `${invoiceId}.xml`
+      );
+    } catch (exportError) {
+      setError(
+        exportError instanceof Error
+          ? exportError.message
+          : "Errore nell'esportazione della fattura elettronica"
+      );
+    } finally {
+      setExportingInvoiceId(null);
+    }
+  };
+
+  return {
+    exportFatturaPa,
+    exportingInvoiceId,
+    error,
+  };
+};
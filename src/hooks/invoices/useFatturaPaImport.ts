@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invoiceService } from "@/services/invoiceService";
+
+/**
+ * Custom hook for the FatturaPA import of invoices and costs
+ * Refreshes invoices, costs and the dashboards fed by them once done
+ */
+export const useFatturaPaImport = () => {
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: (files: File[]) => invoiceService.importFatturaPa(files),
+    onSuccess: (report) => {
+      if (report.invoicesCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ["invoices"], exact: false });
+        queryClient.invalidateQueries({ queryKey: ["clients"] });
+        queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
+      }
+      if (report.costsCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ["costs"], exact: false });
+      }
+    },
+  });
+
+  return {
+    importFiles: importMutation.mutateAsync,
+    report: importMutation.data ?? null,
+    isImporting: importMutation.isPending,
+    error: importMutation.error
+      ? importMutation.error.message ||
+        "Errore nell'importazione delle fatture elettroniche"
+      : null,
+    resetImport: importMutation.reset,
+  };
+};
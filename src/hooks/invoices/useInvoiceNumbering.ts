@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { invoiceService } from "@/services/invoiceService";
+
+/**
+ * Custom hook for the invoice numbering sequence of a year
+ * Suggests the next number and reports the gaps in the numbering.
+ * The query lives under the invoice keys, so it refreshes whenever
+ * invoices are created, renumbered or deleted
+ */
+export const useInvoiceNumbering = (year: number) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["invoices", "numbering", year],
+    queryFn: () => invoiceService.getNumberingStatus(year),
+    staleTime: 1000 * 60, // 1 minute
+  });
+
+  const patternMutation = useMutation({
+    mutationFn: (pattern: string) => invoiceService.updateNumberPattern(pattern),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices", "numbering"] });
+    },
+  });
+
+  return {
+    numbering: data ?? null,
+    isLoading,
+    error: error ? "Errore nel caricamento della numerazione" : null,
+    updatePattern: patternMutation.mutateAsync,
+    isSaving: patternMutation.isPending,
+  };
+};
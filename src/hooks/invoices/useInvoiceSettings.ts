@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { settingsService } from "@/services/settingsService";
+import { professionalFundService } from "@/services/professionalFundService";
+import { useProfessionalFund } from "@/hooks/useProfessionalFunds";
+import {
+  DEFAULT_INTEGRATIVE_CONTRIBUTION_RATE,
+  getPensionChargeForSettings,
+  RIVALSA_INPS_RATE,
+} from "@/utils/invoiceCalculations";
+
+/**
+ * Custom hook for the settings that shape new invoices
+ * Gives the tax regime and the pension contribution charged to clients:
+ * the rivalsa INPS for Gestione Separata members, the contributo
+ * integrativo of their fund for professional fund members
+ */
+export const useInvoiceSettings = () => {
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["settings"],
+    queryFn: () => settingsService.getUserSettings(),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const fundCode =
+    settings?.pensionSystem === "PROFESSIONAL_FUND"
+      ? settings.professionalFundId ?? ""
+      : "";
+  const { data: fund } = useProfessionalFund(fundCode);
+
+  const pensionCharge = useMemo(() => {
+    if (!settings) return null;
+
+    const rate =
+      settings.pensionSystem === "INPS"
+        ? RIVALSA_INPS_RATE
+        : (fund &&
+            professionalFundService.getCurrentParameters(fund)
+              ?.integrativeContributionRate) ??
+          DEFAULT_INTEGRATIVE_CONTRIBUTION_RATE;
+    return getPensionChargeForSettings(settings, rate);
+  }, [settings, fund]);
+
+  return {
+    taxRegime: settings?.taxRegime,
+    pensionCharge,
+    isLoading,
+  };
+};
@@ -5,21 +5,56 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { VatInfo } from "@/types";
-import { invoiceService, Invoice } from "@/services/invoiceService";
+import {
+  BolloInfo,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoiceStatusChange,
+  PaymentMethod,
+  PaymentTerms,
+  PensionChargeInfo,
+  RevenueRecognition,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
+import {
+  invoiceService,
+  Invoice,
+  InvoicePaymentData,
+} from "@/services/invoiceService";
 
 // Plain invoice type for frontend use (without Mongoose properties)
 export type PlainInvoice = {
   id: string;
   userId: string;
-  number: string;
+  // Drafts are numbered when issued
+  number?: string;
   issueDate: Date;
   title: string;
   clientName: string;
   amount: number;
+  items?: InvoiceLineItem[];
   paymentDate?: Date;
+  paymentTerms?: PaymentTerms;
+  dueDate?: Date;
+  clientId?: string | null;
   fiscalYear: number;
-  vat?: VatInfo;
+  vat?: VatInfo | null;
+  bollo?: BolloInfo | null;
+  withholding?: WithholdingInfo | null;
+  pensionCharge?: PensionChargeInfo | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  status?: InvoiceStatus;
+  statusHistory?: InvoiceStatusChange[];
+  payments?: {
+    id: string;
+    date: Date;
+    amount: number;
+    method: PaymentMethod;
+    note?: string;
+  }[];
   createdAt: Date;
   updatedAt: Date;
 };
@@ -33,14 +68,30 @@ const convertInvoiceFormat = (invoice: Invoice): PlainInvoice => ({
   title: invoice.title,
   clientName: invoice.clientName,
   amount: invoice.amount,
+  items: invoice.items,
   paymentDate: invoice.paymentDate ? new Date(invoice.paymentDate) : undefined,
+  paymentTerms: invoice.paymentTerms,
+  dueDate: invoice.dueDate ? new Date(invoice.dueDate) : undefined,
+  clientId: invoice.clientId ?? null,
   fiscalYear: invoice.fiscalYear,
-  vat: invoice.vat
-    ? {
-        vatType: invoice.vat.type,
-        vatRate: invoice.vat.rate,
-      }
-    : undefined,
+  vat: invoice.vat ?? null,
+  bollo: invoice.bollo ?? null,
+  withholding: invoice.withholding ?? null,
+  pensionCharge: invoice.pensionCharge ?? null,
+  documentType: invoice.documentType ?? "invoice",
+  originalInvoiceId: invoice.originalInvoiceId ?? null,
+  status: invoice.status,
+  statusHistory: invoice.statusHistory?.map((change) => ({
+    status: change.status,
+    changedAt: new Date(change.changedAt),
+  })),
+  payments: invoice.payments?.map((payment) => ({
+    id: payment._id,
+    date: new Date(payment.date),
+    amount: payment.amount,
+    method: payment.method,
+    note: payment.note,
+  })),
   createdAt: new Date(invoice.createdAt),
   updatedAt: new Date(invoice.updatedAt),
 });
@@ -49,6 +100,8 @@ export interface UseInvoicesProps {
   selectedYear: number;
   taxRegime?: string;
   userId?: string;
+  /** Fetch the invoices whose revenue can fall in the year instead of its invoices */
+  recognition?: RevenueRecognition;
 }
 
 export interface UseInvoicesReturn {
@@ -56,6 +109,9 @@ export interface UseInvoicesReturn {
   isLoading: boolean;
   error: string | null;
   handleUpdatePaymentDate: (invoiceId: string, date: Date) => Promise<void>;
+  handleUpdateStatus: (invoiceId: string, status: InvoiceStatus) => Promise<void>;
+  handleAddPayment: (invoiceId: string, payment: InvoicePaymentData) => Promise<void>;
+  handleRemovePayment: (invoiceId: string, paymentId: string) => Promise<void>;
   handleDeleteInvoice: (invoiceId: string) => Promise<void>;
   refreshInvoices: () => Promise<void>;
 }
@@ -64,12 +120,13 @@ export const useInvoices = ({
   selectedYear,
   taxRegime,
   userId,
+  recognition,
 }: UseInvoicesProps): UseInvoicesReturn => {
   const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
 
   // Query key for React Query
-  const queryKey = ["invoices", selectedYear, taxRegime, userId];
+  const queryKey = ["invoices", selectedYear, taxRegime, userId, recognition];
 
   // Fetch invoices query
   const {
@@ -80,7 +137,10 @@ export const useInvoices = ({
   } = useQuery({
     queryKey,
     queryFn: async () => {
-      const invoiceData = await invoiceService.getInvoicesByYear(selectedYear);
+      const invoiceData = await invoiceService.getInvoicesByYear(
+        selectedYear,
+        recognition
+      );
       return invoiceData.map(convertInvoiceFormat);
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
@@ -114,11 +174,80 @@ export const useInvoices = ({
     },
   });
 
+  // Invoice lifecycle mutation, issuing or cancelling moves the revenue
+  const updateStatusMutation = useMutation({
+    mutationFn: ({
+      invoiceId,
+      status,
+    }: {
+      invoiceId: string;
+      status: InvoiceStatus;
+    }) => invoiceService.updateInvoiceStatus(invoiceId, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
+      setError(null);
+    },
+    onError: (err: unknown) => {
+      const errorMessage =
+        err instanceof Error
+          ? err.message
+          : "Errore nell&apos;aggiornamento dello stato della fattura";
+      setError(errorMessage);
+    },
+  });
+
+  // Payment mutations, payments move the status and the cash revenue
+  const addPaymentMutation = useMutation({
+    mutationFn: ({
+      invoiceId,
+      payment,
+    }: {
+      invoiceId: string;
+      payment: InvoicePaymentData;
+    }) => invoiceService.addPayment(invoiceId, payment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
+      setError(null);
+    },
+    onError: (err: unknown) => {
+      const errorMessage =
+        err instanceof Error
+          ? err.message
+          : "Errore nella registrazione del pagamento";
+      setError(errorMessage);
+    },
+  });
+
+  const removePaymentMutation = useMutation({
+    mutationFn: ({
+      invoiceId,
+      paymentId,
+    }: {
+      invoiceId: string;
+      paymentId: string;
+    }) => invoiceService.removePayment(invoiceId, paymentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
+      setError(null);
+    },
+    onError: (err: unknown) => {
+      const errorMessage =
+        err instanceof Error
+          ? err.message
+          : "Errore nell&apos;eliminazione del pagamento";
+      setError(errorMessage);
+    },
+  });
+
   // Delete invoice mutation
   const deleteMutation = useMutation({
     mutationFn: (invoiceId: string) => invoiceService.deleteInvoice(invoiceId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
       setError(null);
     },
     onError: (err: unknown) => {
@@ -143,6 +272,42 @@ export const useInvoices = ({
     [updatePaymentMutation]
   );
 
+  const handleUpdateStatus = useCallback(
+    async (invoiceId: string, status: InvoiceStatus) => {
+      try {
+        await updateStatusMutation.mutateAsync({ invoiceId, status });
+      } catch (error) {
+        // Error is handled in onError callback
+        throw error;
+      }
+    },
+    [updateStatusMutation]
+  );
+
+  const handleAddPayment = useCallback(
+    async (invoiceId: string, payment: InvoicePaymentData) => {
+      try {
+        await addPaymentMutation.mutateAsync({ invoiceId, payment });
+      } catch (error) {
+        // Error is handled in onError callback
+        throw error;
+      }
+    },
+    [addPaymentMutation]
+  );
+
+  const handleRemovePayment = useCallback(
+    async (invoiceId: string, paymentId: string) => {
+      try {
+        await removePaymentMutation.mutateAsync({ invoiceId, paymentId });
+      } catch (error) {
+        // Error is handled in onError callback
+        throw error;
+      }
+    },
+    [removePaymentMutation]
+  );
+
   const handleDeleteInvoice = useCallback(
     async (invoiceId: string) => {
       try {
@@ -179,6 +344,9 @@ export const useInvoices = ({
     isLoading,
     error,
     handleUpdatePaymentDate,
+    handleUpdateStatus,
+    handleAddPayment,
+    handleRemovePayment,
     handleDeleteInvoice,
     refreshInvoices,
   };
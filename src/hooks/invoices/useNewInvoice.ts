@@ -3,15 +3,62 @@
  * Handles form state, validation, and submission with React Query
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { IInvoice } from "@/types";
+import {
+  IInvoice,
+  InvoiceLineItem,
+  PensionChargeInfo,
+  VatInfo,
+  VatNature,
+} from "@/types";
 import { VatOption, vatOptions } from "@/components/invoices/NewInvoiceForm";
 import { invoiceService, CreateInvoiceData } from "@/services/invoiceService";
+import {
+  recurringInvoiceService,
+  InvoiceRecurrenceData,
+} from "@/services/recurringInvoiceService";
+import { PlainInvoice } from "./useInvoices";
+import {
+  calculateItemsAmount,
+  DEFAULT_PAYMENT_TERMS,
+  getInvoiceItems,
+  getItemsVat,
+  RIVALSA_INPS_RATE,
+} from "@/utils/invoiceCalculations";
+
+/**
+ * Empty invoice line, one unit at the given VAT
+ */
+const createLineItem = (vat?: VatInfo | null): InvoiceLineItem => ({
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  amount: 0,
+  ...(vat && { vat }),
+});
+
+/**
+ * Form state with new lines, amount and VAT follow them as on the server
+ */
+const withItems = (
+  invoice: Partial<IInvoice>,
+  items: InvoiceLineItem[]
+): Partial<IInvoice> => {
+  const derivedItems = getInvoiceItems({ amount: 0, items });
+  return {
+    ...invoice,
+    items: derivedItems,
+    amount: calculateItemsAmount(derivedItems),
+    vat: getItemsVat(derivedItems),
+  };
+};
 
 export interface UseNewInvoiceProps {
   selectedYear: number;
   taxRegime?: string;
+  /** Pension contribution the user charges, following their pension system */
+  pensionCharge?: Omit<PensionChargeInfo, "amount"> | null;
   userId: string;
   onSuccess?: () => void;
 }
@@ -21,8 +68,12 @@ export interface UseNewInvoiceReturn {
   setShowNewInvoiceForm: (show: boolean) => void;
   newInvoice: Partial<IInvoice>;
   setNewInvoice: (invoice: Partial<IInvoice>) => void;
+  recurrence: InvoiceRecurrenceData | null;
+  setRecurrence: (recurrence: InvoiceRecurrenceData | null) => void;
   handleCreateInvoice: (e: React.FormEvent) => Promise<void>;
-  handleVatChange: (type: VatOption["type"]) => void;
+  handleItemsChange: (items: InvoiceLineItem[]) => void;
+  handleVatChange: (index: number, type: VatOption["type"] | VatNature) => void;
+  startCreditNote: (original: PlainInvoice, creditableAmount: number) => void;
   resetForm: () => void;
   isLoading: boolean;
   error: string | null;
@@ -31,60 +82,112 @@ export interface UseNewInvoiceReturn {
 export const useNewInvoice = ({
   selectedYear,
   taxRegime,
+  pensionCharge,
   userId,
   onSuccess,
 }: UseNewInvoiceProps): UseNewInvoiceReturn => {
   const queryClient = useQueryClient();
   const [showNewInvoiceForm, setShowNewInvoiceForm] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<InvoiceRecurrenceData | null>(
+    null
+  );
 
   // Initial form state
   const getInitialFormState = useCallback(
     (): Partial<IInvoice> => ({
       fiscalYear: selectedYear,
       issueDate: new Date(),
-      vat:
-        taxRegime === "ordinario"
-          ? { vatType: "standard", vatRate: 22 }
-          : undefined,
+      paymentTerms: DEFAULT_PAYMENT_TERMS,
+      ...withItems({}, [
+        createLineItem(
+          taxRegime === "ordinario"
+            ? { vatType: "standard", vatRate: 22 }
+            : undefined
+        ),
+      ]),
+      // The contributo integrativo is due on every invoice, the rivalsa is optional
+      pensionCharge:
+        pensionCharge?.type === "cassa_integrativa"
+          ? { ...pensionCharge, amount: 0 }
+          : null,
     }),
-    [selectedYear, taxRegime]
+    [selectedYear, taxRegime, pensionCharge]
   );
 
   const [newInvoice, setNewInvoice] = useState<Partial<IInvoice>>(
     getInitialFormState()
   );
 
+  // Regime and pension system come from the settings, which may load later
+  useEffect(() => {
+    setNewInvoice(getInitialFormState());
+  }, [getInitialFormState]);
+
   // Create invoice mutation
   const createMutation = useMutation({
     mutationFn: async (invoice: Partial<IInvoice>) => {
+      // Drafts are numbered when issued and collected only afterwards
+      const isDraft = invoice.status === "draft";
+
       // Transform IInvoice to CreateInvoiceData format
       const createData: CreateInvoiceData = {
-        number: invoice.number || "",
+        // Without a number the server takes the next one of the sequence
+        number: isDraft ? undefined : invoice.number?.trim() || undefined,
         issueDate: invoice.issueDate
           ? invoice.issueDate.toISOString()
           : new Date().toISOString(),
         title: invoice.title || "",
         clientName: invoice.clientName || "",
-        amount: invoice.amount || 0,
-        paymentDate: invoice.paymentDate
-          ? invoice.paymentDate.toISOString()
-          : undefined,
+        // The server derives line amounts, the invoice amount and its VAT
+        items: (invoice.items ?? []).map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitOfMeasure: item.unitOfMeasure || undefined,
+          unitPrice: item.unitPrice,
+          vat: item.vat,
+          vatNature: item.vatNature,
+        })),
+        paymentDate:
+          invoice.paymentDate && !isDraft
+            ? invoice.paymentDate.toISOString()
+            : undefined,
+        paymentTerms: invoice.paymentTerms,
+        clientId: invoice.clientId || undefined,
+        // Only custom terms send a due date, the server derives the others
+        dueDate:
+          invoice.paymentTerms === "custom" && invoice.dueDate
+            ? invoice.dueDate.toISOString()
+            : undefined,
         fiscalYear: invoice.fiscalYear || new Date().getFullYear(),
-        vat: invoice.vat
-          ? {
-              type: invoice.vat.vatType as
-                | "standard"
-                | "reduced10"
-                | "reduced5"
-                | "reduced4"
-                | "custom",
-              rate: invoice.vat.vatRate,
-            }
+        // The server derives the stamp duty, only who pays it is chosen here
+        bollo: invoice.bollo
+          ? { chargedToClient: invoice.bollo.chargedToClient }
           : undefined,
+        // The server derives the withholding amount from the rate
+        withholding: invoice.withholding
+          ? { rate: invoice.withholding.rate }
+          : null,
+        // The server derives the kind of contribution from the pension system
+        pensionCharge: invoice.pensionCharge
+          ? { rate: invoice.pensionCharge.rate }
+          : null,
+        documentType: invoice.documentType,
+        originalInvoiceId: invoice.originalInvoiceId || undefined,
+        ...(isDraft && { status: "draft" as const }),
       };
 
-      return await invoiceService.createInvoice(createData);
+      const created = await invoiceService.createInvoice(createData);
+
+      // The invoice is the first occurrence of its recurring invoice
+      if (recurrence && !isDraft && invoice.documentType !== "credit_note") {
+        await recurringInvoiceService.createRecurringInvoice(
+          created.id,
+          recurrence
+        );
+      }
+
+      return created;
     },
     onSuccess: () => {
       setError(null);
@@ -93,6 +196,8 @@ export const useNewInvoice = ({
         queryKey: ["invoices"],
         exact: false // This will match all queries that start with "invoices"
       });
+      // New revenue moves the forfettario ceiling projection
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
       resetForm();
       onSuccess?.();
     },
@@ -108,33 +213,76 @@ export const useNewInvoice = ({
   // Reset form to initial state
   const resetForm = useCallback(() => {
     setNewInvoice(getInitialFormState());
+    setRecurrence(null);
     setShowNewInvoiceForm(false);
     setError(null);
   }, [getInitialFormState]);
 
-  // Handle VAT type change
-  const handleVatChange = useCallback((type: VatOption["type"]) => {
-    const selectedOption = vatOptions.find((option) => option.type === type);
-
-    if (selectedOption) {
-      setNewInvoice((prev) => ({
-        ...prev,
-        vat: {
-          vatType: selectedOption.type,
-          vatRate: selectedOption.rate,
-        },
-      }));
-    }
+  // Handle line changes
+  const handleItemsChange = useCallback((items: InvoiceLineItem[]) => {
+    setNewInvoice((prev) => withItems(prev, items));
   }, []);
 
+  // Handle VAT type change of a line, lines without VAT state their nature
+  const handleVatChange = useCallback(
+    (index: number, type: VatOption["type"] | VatNature) => {
+      const selectedOption = vatOptions.find((option) => option.type === type);
+
+      setNewInvoice((prev) =>
+        withItems(
+          prev,
+          (prev.items ?? []).map((item, itemIndex) =>
+            itemIndex === index
+              ? {
+                  ...item,
+                  vat: selectedOption && {
+                    vatType: selectedOption.type,
+                    vatRate: selectedOption.rate,
+                  },
+                  vatNature: selectedOption ? undefined : (type as VatNature),
+                }
+              : item
+          )
+        )
+      );
+    },
+    []
+  );
+
+  // Prefill a credit note reversing what is still open on an invoice
+  const startCreditNote = useCallback(
+    (original: PlainInvoice, creditableAmount: number) => {
+      setError(null);
+      // Full reversals repeat the lines, partial ones credit a single line
+      const items =
+        creditableAmount === original.amount && original.items?.length
+          ? original.items
+          : [
+              {
+                ...createLineItem(original.vat),
+                description: `Storno fattura n. ${original.number}`,
+                unitPrice: creditableAmount,
+              },
+            ];
+      setNewInvoice({
+        ...withItems(getInitialFormState(), items),
+        documentType: "credit_note",
+        originalInvoiceId: original.id,
+        title: `Storno fattura n. ${original.number}`,
+        clientName: original.clientName,
+        clientId: original.clientId,
+        withholding: original.withholding,
+        pensionCharge: original.pensionCharge,
+        paymentTerms: "immediate",
+      });
+    },
+    [getInitialFormState]
+  );
+
   // Validate invoice data
   const validateInvoice = (invoice: Partial<IInvoice>): string[] => {
     const errors: string[] = [];
 
-    if (!invoice.number?.trim()) {
-      errors.push("Numero fattura è obbligatorio");
-    }
-
     if (!invoice.title?.trim()) {
       errors.push("Titolo è obbligatorio");
     }
@@ -143,6 +291,14 @@ export const useNewInvoice = ({
       errors.push("Nome cliente è obbligatorio");
     }
 
+    if (
+      invoice.items?.some(
+        (item) => !item.description.trim() || !(item.quantity > 0)
+      )
+    ) {
+      errors.push("Ogni riga deve avere descrizione e quantità");
+    }
+
     if (!invoice.amount || invoice.amount <= 0) {
       errors.push("Importo deve essere maggiore di 0");
     }
@@ -151,6 +307,32 @@ export const useNewInvoice = ({
       errors.push("Data emissione è obbligatoria");
     }
 
+    if (
+      invoice.withholding &&
+      !(invoice.withholding.rate > 0 && invoice.withholding.rate <= 100)
+    ) {
+      errors.push("Aliquota ritenuta deve essere tra 0 e 100");
+    }
+
+    if (invoice.pensionCharge) {
+      if (!(invoice.pensionCharge.rate > 0 && invoice.pensionCharge.rate <= 100)) {
+        errors.push("Aliquota contributo deve essere tra 0 e 100");
+      } else if (
+        invoice.pensionCharge.type === "rivalsa_inps" &&
+        invoice.pensionCharge.rate > RIVALSA_INPS_RATE
+      ) {
+        errors.push(`Rivalsa INPS non può superare il ${RIVALSA_INPS_RATE}%`);
+      }
+    }
+
+    if (invoice.paymentTerms === "custom") {
+      if (!invoice.dueDate) {
+        errors.push("Data scadenza è obbligatoria");
+      } else if (invoice.issueDate && invoice.dueDate < invoice.issueDate) {
+        errors.push("Data scadenza non può precedere la data emissione");
+      }
+    }
+
     return errors;
   };
 
@@ -195,8 +377,12 @@ export const useNewInvoice = ({
     setShowNewInvoiceForm,
     newInvoice,
     setNewInvoice,
+    recurrence,
+    setRecurrence,
     handleCreateInvoice,
+    handleItemsChange,
     handleVatChange,
+    startCreditNote,
     resetForm,
     isLoading: createMutation.isPending,
     error,
@@ -0,0 +1,78 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  recurringInvoiceService,
+  RecurringInvoice,
+} from "@/services/recurringInvoiceService";
+import { getRecurringRevenueProjection } from "@/utils/recurringInvoiceCalculations";
+
+/**
+ * Custom hook for the recurring invoices of the user
+ * Lists their drafts, confirms or skips them, and projects the revenue
+ * of their upcoming occurrences. The query lives under the invoice keys,
+ * so drafts refresh whenever invoices are created or deleted
+ */
+export const useRecurringInvoices = () => {
+  const queryClient = useQueryClient();
+
+  const {
+    data: recurringInvoices = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["invoices", "recurring"],
+    queryFn: () => recurringInvoiceService.getRecurringInvoices(),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: ({
+      template,
+      date,
+    }: {
+      template: RecurringInvoice;
+      date: string;
+    }) => recurringInvoiceService.confirmDraft(template, date),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      // New revenue moves the forfettario ceiling projection
+      queryClient.invalidateQueries({ queryKey: ["forfettarioMonitor"] });
+    },
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: ({ id, date }: { id: string; date: string }) =>
+      recurringInvoiceService.skipOccurrence(id, date, true),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices", "recurring"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      recurringInvoiceService.deleteRecurringInvoice(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    },
+  });
+
+  const projectedRevenue = useMemo(
+    () => getRecurringRevenueProjection(recurringInvoices, new Date()),
+    [recurringInvoices]
+  );
+
+  return {
+    recurringInvoices,
+    projectedRevenue,
+    isLoading,
+    error: error ? "Errore nel caricamento delle fatture ricorrenti" : null,
+    confirmDraft: (template: RecurringInvoice, date: string) =>
+      confirmMutation.mutateAsync({ template, date }),
+    skipDraft: (id: string, date: string) =>
+      skipMutation.mutateAsync({ id, date }),
+    deleteRecurringInvoice: deleteMutation.mutateAsync,
+    isSaving:
+      confirmMutation.isPending ||
+      skipMutation.isPending ||
+      deleteMutation.isPending,
+  };
+};
@@ -2,13 +2,16 @@
  * Report Generator Hook
  *
  * SRP: Handles ONLY report generation logic and state management
- * Advanced report generation with progress tracking
+ * Generates reports on the server and keeps the list of stored reports
  */
 
 "use client";
 
 import { useState, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { ReportConfig } from "@/components/reports/ReportGenerator";
+import { reportService } from "@/services/reportService";
+import { ReportResponse } from "@/types";
 
 /**
  * Generated Report Interface
@@ -18,53 +21,55 @@ export interface GeneratedReport {
   id: string;
   name: string;
   format: string;
+  fileName: string;
+  size: number;
   url: string;
   createdAt: Date;
   config: ReportConfig;
 }
 
 /**
- * Report Generation Steps
- * SRP: Defines only generation process steps
+ * Reports query key
  */
-const GENERATION_STEPS = [
-  { step: "data-collection", label: "Raccolta dati...", progress: 10 },
-  { step: "data-processing", label: "Elaborazione dati...", progress: 30 },
-  { step: "chart-generation", label: "Generazione grafici...", progress: 50 },
-  {
-    step: "analytics-calculation",
-    label: "Calcolo analytics...",
-    progress: 70,
+const REPORTS_QUERY_KEY = ["reports"];
+
+/**
+ * Map a stored report to the generated report shape used by the UI
+ */
+const toGeneratedReport = (report: ReportResponse): GeneratedReport => ({
+  id: report.id,
+  name: report.name,
+  format: report.format,
+  fileName: report.fileName,
+  size: report.size,
+  url: `/api/reports/${report.id}`,
+  createdAt: new Date(report.createdAt),
+  config: {
+    type: report.type,
+    format: report.format,
+    period: report.period,
+    startDate: new Date(report.startDate),
+    endDate: new Date(report.endDate),
+    includeCharts: report.includeCharts,
+    includeRawData: report.includeRawData,
+    includeAnalytics: report.includeAnalytics,
+    includeInsights: report.includeInsights,
+    customSections: report.customSections,
   },
-  { step: "report-compilation", label: "Compilazione report...", progress: 90 },
-  { step: "finalization", label: "Finalizzazione...", progress: 100 },
-];
+});
 
 /**
- * Mock Report Generator Service
- * SRP: Handles only report generation simulation
- * TODO: Replace with actual report generation service
+ * Save a downloaded file through a temporary link
  */
-const mockReportGeneration = async (
-  config: ReportConfig,
-  onProgress: (progress: number, step: string) => void
-): Promise<string> => {
-  for (const { step, label, progress } of GENERATION_STEPS) {
-    onProgress(progress, label);
-
-    // Simulate processing time based on complexity
-    let delay = 500;
-    if (step === "chart-generation" && config.includeCharts) delay = 1500;
-    if (step === "analytics-calculation" && config.includeAnalytics)
-      delay = 1000;
-    if (step === "report-compilation") delay = 2000;
-
-    await new Promise((resolve) => setTimeout(resolve, delay));
-  }
-
-  // Generate mock download URL
-  const timestamp = Date.now();
-  return `/api/reports/download/${timestamp}-${config.type}-report.${config.format}`;
+const saveBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
 
 /**
@@ -72,13 +77,20 @@ const mockReportGeneration = async (
  * SRP: Handles only report generation state and orchestration
  */
 export const useReportGenerator = (_userId: string) => {
+  const queryClient = useQueryClient();
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const [generatedReports, setGeneratedReports] = useState<GeneratedReport[]>(
-    []
-  );
+
+  // Stored reports survive page reloads
+  const { data: reports } = useQuery({
+    queryKey: REPORTS_QUERY_KEY,
+    queryFn: () => reportService.getReports(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const generatedReports = (reports || []).map(toGeneratedReport);
 
   // Progress handler
   const handleProgress = useCallback((newProgress: number, step: string) => {
@@ -86,33 +98,47 @@ export const useReportGenerator = (_userId: string) => {
     setCurrentStep(step);
   }, []);
 
+  // Download a stored report
+  const downloadReport = useCallback(
+    async (report: Pick<GeneratedReport, "id" | "fileName">) => {
+      try {
+        setError(null);
+        const blob = await reportService.downloadReport(report.id);
+        saveBlob(blob, report.fileName);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Errore durante il download"
+        );
+      }
+    },
+    []
+  );
+
   // Generate report function
   const generateReport = useCallback(
     async (config: ReportConfig): Promise<string> => {
       try {
         setIsGenerating(true);
-        setProgress(0);
         setError(null);
 
-        // Generate report
-        const reportUrl = await mockReportGeneration(config, handleProgress);
-
-        // Create report record
-        const newReport: GeneratedReport = {
-          id: `report-${Date.now()}`,
-          name: `${config.type}-report-${new Date().toLocaleDateString(
-            "it-IT"
-          )}`,
-          format: config.format,
-          url: reportUrl,
-          createdAt: new Date(),
-          config,
-        };
-
-        // Add to generated reports
-        setGeneratedReports((prev) => [newReport, ...prev]);
-
-        return reportUrl;
+        handleProgress(20, "Generazione report sul server...");
+        const report = await reportService.generateReport({
+          ...config,
+          startDate: config.startDate?.toISOString(),
+          endDate: config.endDate?.toISOString(),
+        });
+
+        handleProgress(70, "Download del file...");
+        const blob = await reportService.downloadReport(report.id);
+        saveBlob(blob, report.fileName);
+
+        handleProgress(100, "Completato");
+        queryClient.setQueryData<ReportResponse[]>(REPORTS_QUERY_KEY, (prev) => [
+          report,
+          ...(prev || []).filter((existing) => existing.id !== report.id),
+        ]);
+
+        return toGeneratedReport(report).url;
       } catch (err) {
         const errorMessage =
           err instanceof Error
@@ -126,7 +152,7 @@ export const useReportGenerator = (_userId: string) => {
         setCurrentStep("");
       }
     },
-    [handleProgress]
+    [handleProgress, queryClient]
   );
 
   // Clear error
@@ -135,14 +161,27 @@ export const useReportGenerator = (_userId: string) => {
   }, []);
 
   // Remove report
-  const removeReport = useCallback((reportId: string) => {
-    setGeneratedReports((prev) =>
-      prev.filter((report) => report.id !== reportId)
-    );
-  }, []);
+  const removeReport = useCallback(
+    async (reportId: string) => {
+      try {
+        await reportService.deleteReport(reportId);
+        queryClient.setQueryData<ReportResponse[]>(REPORTS_QUERY_KEY, (prev) =>
+          (prev || []).filter((report) => report.id !== reportId)
+        );
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Errore durante l'eliminazione del report"
+        );
+      }
+    },
+    [queryClient]
+  );
 
   return {
     generateReport,
+    downloadReport,
     isGenerating,
     progress,
     currentStep,
@@ -3,9 +3,14 @@
  * Exports for custom hooks related to tax settings functionality
  */
 
+export { useFiscalProfile } from "./useFiscalProfile";
+export { useForfettarioMonitor } from "./useForfettarioMonitor";
 export { useFormSubmission } from "./useFormSubmission";
 export { useNavigationGuard } from "./useNavigationGuard";
+export { usePaymentSchedule } from "./usePaymentSchedule";
 export { useInpsParameters } from "./useInpsParameters";
 export { useProfessionalFundSelection } from "./useProfessionalFundSelection";
 export { useTaxCalculations } from "./useTaxCalculations";
+export { useUpcomingTaxPayments } from "./useUpcomingTaxPayments";
+export { useWithholdingCertificates } from "./useWithholdingCertificates";
 export { useYearSelection } from "./useYearSelection";
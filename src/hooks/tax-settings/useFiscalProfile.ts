@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fiscalProfileService,
+  FiscalProfileData,
+} from "@/services/fiscalProfileService";
+
+/**
+ * Hook for the fiscal profile of the user as invoice issuer
+ *
+ * Follows Single Responsibility Principle - only handles the issuer anagrafica
+ * required by the FatturaPA export.
+ *
+ * @returns Object with the profile, its save function and loading/error states
+ */
+export const useFiscalProfile = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["fiscalProfile"],
+    queryFn: () => fiscalProfileService.getFiscalProfile(),
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (profile: FiscalProfileData) =>
+      fiscalProfileService.saveFiscalProfile(profile),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(["fiscalProfile"], profile);
+    },
+  });
+
+  return {
+    profile: data ?? null,
+    isLoading,
+    error: error ? "Errore nel caricamento dei dati fiscali" : null,
+    saveProfile: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+};
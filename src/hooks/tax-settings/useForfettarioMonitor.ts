@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { taxCalculationService } from "@/services/taxCalculationService";
+
+/**
+ * Hook for the forfettario revenue ceiling monitor
+ *
+ * Follows Single Responsibility Principle - only handles ceiling monitoring.
+ * Projects the year-end revenue against the €85k and €100k ceilings and
+ * simulates the following year under the ordinario regime.
+ *
+ * @param year - Fiscal year to monitor
+ * @param enabled - Whether the user is in the forfettario regime
+ * @returns Object with the monitor result and loading/error states
+ */
+export const useForfettarioMonitor = (year: number, enabled: boolean) => {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["forfettarioMonitor", year],
+    queryFn: () => taxCalculationService.getForfettarioMonitor(year),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    monitor: data || null,
+    isLoading: enabled && isLoading,
+    error: error ? "Errore nel monitoraggio dei limiti forfettario" : null,
+    refresh: refetch,
+  };
+};
@@ -9,6 +9,8 @@ import { InpsParameters, inpsService } from "@/services/inpsService";
  * Uses SWR for optimized data fetching with caching and revalidation.
  * Provides loading states, error handling, and parameter data management.
  *
+ * Loads the parameters of the current year, the one tax settings apply to.
+ *
  * @param onDefaultSelection - Callback when default rate should be applied
  * @returns Object with parameters state and loading/error states
  */
@@ -19,6 +21,8 @@ export const useInpsParameters = (
     minContribution: number
   ) => void
 ) => {
+  const year = new Date().getFullYear();
+
   // Use SWR for data fetching with automatic caching and revalidation
   const {
     data: parameters,
@@ -26,8 +30,8 @@ export const useInpsParameters = (
     isLoading: loading,
     mutate: retry,
   } = useSWR<InpsParameters>(
-    'inps-parameters',
-    () => inpsService.getCurrentParameters(),
+    ['inps-parameters', year],
+    () => inpsService.getParametersByYear(year),
     {
       revalidateOnFocus: false,
       dedupingInterval: 300000, // 5 minutes cache
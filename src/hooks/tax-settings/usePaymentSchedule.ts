@@ -0,0 +1,129 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { taxCalculationService } from "@/services/taxCalculationService";
+import { useTaxCalculations } from "./useTaxCalculations";
+import {
+  buildPaymentSchedule,
+  calculateBolloQuarters,
+  sumPaidAcconti,
+} from "@/utils/paymentScheduleCalculations";
+import { getRecordedBollo } from "@/utils/invoiceCalculations";
+import { PaymentSchedule, ScheduledTaxPayment } from "@/types/tax";
+
+/**
+ * Hook for the tax and contribution payment schedule of a fiscal year
+ *
+ * Follows Single Responsibility Principle - only handles the payment schedule.
+ * Builds the saldo of the fiscal year and the acconti of the next one from the
+ * tax calculation result (historic method), crediting the acconti marked as
+ * paid in the previous year's schedule, plus the quarterly stamp duty on the
+ * invoices of the year.
+ *
+ * @param fiscalYear - Fiscal year settled by the schedule
+ * @returns Object with the schedule, loading state and paid/unpaid handlers
+ */
+export const usePaymentSchedule = (fiscalYear: number) => {
+  const queryClient = useQueryClient();
+  const {
+    calculationResult,
+    invoices,
+    settings,
+    isLoading: calculationLoading,
+  } = useTaxCalculations(fiscalYear);
+
+  const { data: records = [], isLoading: recordsLoading } = useQuery({
+    queryKey: ["taxPayments", fiscalYear],
+    queryFn: () => taxCalculationService.getTaxPayments(fiscalYear),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Acconti paid last year advance the fiscal year and reduce its saldo
+  const { data: previousRecords = [], isLoading: previousRecordsLoading } =
+    useQuery({
+      queryKey: ["taxPayments", fiscalYear - 1],
+      queryFn: () => taxCalculationService.getTaxPayments(fiscalYear - 1),
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    });
+
+  const isLoading =
+    calculationLoading || recordsLoading || previousRecordsLoading;
+
+  const schedule = useMemo((): PaymentSchedule | null => {
+    if (!settings || isLoading) return null;
+
+    const fixedAnnualContributions =
+      settings.manualFixedAnnualContributions || 0;
+    const { irpefBreakdown } = calculationResult;
+
+    return buildPaymentSchedule(
+      {
+        fiscalYear,
+        // Withholding tax retained by clients is already paid
+        incomeTax: irpefBreakdown?.irpefDue ?? calculationResult.irpefAmount,
+        incomeTaxAccontoBase: irpefBreakdown
+          ? irpefBreakdown.netTax - irpefBreakdown.withholdingCredit
+          : undefined,
+        taxRegime: settings.taxRegime,
+        isaSubject: settings.isaSubject,
+        contributions: Math.max(
+          0,
+          calculationResult.contributionsAmount - fixedAnnualContributions
+        ),
+        fixedAnnualContributions,
+        paidTaxAcconti: sumPaidAcconti(previousRecords, "tax"),
+        paidContributionAcconti: sumPaidAcconti(
+          previousRecords,
+          "contributions"
+        ),
+        // Invoices saved before the duty was tracked still owe it
+        bolloQuarters: calculateBolloQuarters(
+          invoices.map((invoice) => ({
+            issueDate: invoice.issueDate,
+            bollo: getRecordedBollo(invoice),
+          })),
+          fiscalYear
+        ),
+      },
+      records
+    );
+  }, [
+    fiscalYear,
+    settings,
+    isLoading,
+    calculationResult,
+    invoices,
+    records,
+    previousRecords,
+  ]);
+
+  const invalidatePayments = () =>
+    queryClient.invalidateQueries({ queryKey: ["taxPayments"] });
+
+  const markPaidMutation = useMutation({
+    mutationFn: (payment: ScheduledTaxPayment) =>
+      taxCalculationService.markTaxPaymentPaid({
+        fiscalYear: payment.fiscalYear,
+        paymentId: payment.id,
+        amount: payment.amount,
+      }),
+    onSuccess: invalidatePayments,
+  });
+
+  const markUnpaidMutation = useMutation({
+    mutationFn: (payment: ScheduledTaxPayment) =>
+      taxCalculationService.markTaxPaymentUnpaid(
+        payment.fiscalYear,
+        payment.id
+      ),
+    onSuccess: invalidatePayments,
+  });
+
+  return {
+    schedule,
+    settings,
+    isLoading,
+    markPaid: markPaidMutation.mutateAsync,
+    markUnpaid: markUnpaidMutation.mutateAsync,
+    isUpdating: markPaidMutation.isPending || markUnpaidMutation.isPending,
+  };
+};
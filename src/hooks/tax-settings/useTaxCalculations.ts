@@ -1,10 +1,30 @@
 import { useState, useMemo, useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useTaxSettings } from "@/hooks/useTaxSettings";
 import { useInvoices } from "@/hooks/invoices/useInvoices";
 import { useCosts } from "@/hooks/costs/useCosts";
 import { taxCalculationService } from "@/services/taxCalculationService";
+import { irpefRateService } from "@/services/irpefRateService";
+import { useForfettarioMonitor } from "./useForfettarioMonitor";
+import { useWithholdingCertificates } from "./useWithholdingCertificates";
+import { calculateTotalDeductibleAmount } from "@/utils/costCalculations";
+import {
+  calculateRecognizedRevenue,
+  getRevenueRecognition,
+} from "@/utils/revenueRecognitionCalculations";
+import { resolveSubstituteRate } from "@/utils/userSettingsCalculations";
 import { TaxCalculationResult, TaxCalculationConfig } from "@/types/tax";
 
+const EMPTY_CALCULATION_RESULT: TaxCalculationResult = {
+  totalIncome: 0,
+  totalCosts: 0,
+  taxableIncome: 0,
+  irpefAmount: 0,
+  contributionsAmount: 0,
+  totalTaxes: 0,
+  effectiveRate: 0,
+};
+
 /**
  * Hook for managing tax calculations with all business logic
  *
@@ -17,11 +37,13 @@ import { TaxCalculationResult, TaxCalculationConfig } from "@/types/tax";
 export const useTaxCalculations = (selectedYear: number) => {
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationError, setCalculationError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
 
   // Data fetching hooks
   const {
     state: { settings, loading: settingsLoading },
   } = useTaxSettings();
+  const recognition = getRevenueRecognition(settings?.taxRegime);
   const {
     invoices,
     isLoading: invoicesLoading,
@@ -29,6 +51,7 @@ export const useTaxCalculations = (selectedYear: number) => {
   } = useInvoices({
     selectedYear,
     taxRegime: settings?.taxRegime,
+    recognition,
   });
   const {
     costs,
@@ -36,91 +59,125 @@ export const useTaxCalculations = (selectedYear: number) => {
     error: costsError,
   } = useCosts(selectedYear);
 
+  const isForfettario = settings?.taxRegime === "forfettario";
+
   /**
-   * Calculate tax obligations based on current data
+   * Contributions paid during the selected year (forfettario only)
+   * Deducted from the taxable income as recorded in the contribution ledger
+   */
+  const {
+    data: previousYearContributions = 0,
+    isLoading: previousYearContributionsLoading,
+    error: previousYearContributionsError,
+  } = useQuery({
+    queryKey: ["previousYearContribution", selectedYear],
+    queryFn: () =>
+      taxCalculationService.getPreviousYearContribution(selectedYear),
+    enabled: isForfettario,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  /**
+   * Revenue ceiling monitor (forfettario only)
+   * Year-end projection and simulation of the exit to the ordinario regime
+   */
+  const { monitor: forfettarioMonitor, isLoading: forfettarioMonitorLoading } =
+    useForfettarioMonitor(selectedYear, isForfettario);
+
+  const savePreviousYearContributionMutation = useMutation({
+    mutationFn: (amount: number) =>
+      taxCalculationService.savePreviousYearContribution(selectedYear, amount),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["previousYearContribution", selectedYear],
+      });
+    },
+  });
+
+  /**
+   * Calculate income, costs, taxable income and contributions
    * Memoized to prevent unnecessary recalculations
-   * Contains all the complex business logic for tax calculations
+   * IRPEF for the ordinario regime is computed server-side from this base
    */
-  const calculationResult = useMemo((): TaxCalculationResult => {
+  const baseCalculation = useMemo(() => {
     // Return empty result if data is still loading
-    if (!settings || settingsLoading || invoicesLoading || costsLoading) {
-      return {
-        totalIncome: 0,
-        totalCosts: 0,
-        taxableIncome: 0,
-        irpefAmount: 0,
-        contributionsAmount: 0,
-        totalTaxes: 0,
-        effectiveRate: 0,
-      };
+    if (
+      !settings ||
+      settingsLoading ||
+      invoicesLoading ||
+      costsLoading ||
+      (isForfettario && previousYearContributionsLoading)
+    ) {
+      return null;
+    }
+
+    // Without the contributions paid the taxable income is unknown
+    if (isForfettario && previousYearContributionsError) {
+      return null;
     }
 
     try {
-      // Calculate total income from invoices for selected year
-      const totalIncome = invoices
-        .filter(
-          (inv) =>
-            inv.issueDate &&
-            new Date(inv.issueDate).getFullYear() === selectedYear
-        )
-        .reduce((sum, inv) => sum + inv.amount, 0);
+      // Calculate total income recognized in the selected year, net of credit notes
+      // Forfettario: invoices paid in the year, ordinario: invoices issued in it
+      const totalIncome = calculateRecognizedRevenue(
+        invoices,
+        selectedYear,
+        recognition
+      );
 
       // Calculate total deductible costs
-      const totalCosts = costs
-        .filter((cost) => cost.deductible)
-        .reduce((sum, cost) => sum + cost.amount, 0);
+      // Ordinario: partially deductible costs count for their percentage
+      const totalCosts =
+        settings.taxRegime === "ordinario"
+          ? calculateTotalDeductibleAmount(costs)
+          : costs
+              .filter((cost) => cost.deductible)
+              .reduce((sum, cost) => sum + cost.amount, 0);
 
-      // Calculate taxable income based on tax regime
-      let taxableIncome = 0;
+      // Calculate income before contribution deductions based on tax regime
+      let grossTaxableIncome = 0;
       if (settings.taxRegime === "forfettario") {
         // Forfettario: apply profitability coefficient and subtract costs
         const profitabilityIncome =
           (totalIncome * (settings.profitabilityRate || 0)) / 100;
-        taxableIncome = Math.max(0, profitabilityIncome - totalCosts);
+        grossTaxableIncome = Math.max(0, profitabilityIncome - totalCosts);
       } else {
         // Ordinario: income minus deductible costs
-        taxableIncome = Math.max(0, totalIncome - totalCosts);
+        grossTaxableIncome = Math.max(0, totalIncome - totalCosts);
       }
 
-      // Calculate IRPEF/substitute tax
-      const irpefAmount =
-        settings.taxRegime === "forfettario"
-          ? (taxableIncome * (settings.substituteRate || 0)) / 100
-          : 0; // For ordinario, IRPEF calculation is more complex and not implemented here
-
       // Calculate pension contributions
       const contributionsAmount = taxCalculationService.calculateContributions(
-        taxableIncome,
+        grossTaxableIncome,
         settings.manualContributionRate || 0,
         settings.manualFixedAnnualContributions || 0
       );
 
-      // Calculate totals and effective rate
-      const totalTaxes = irpefAmount + contributionsAmount;
-      const effectiveRate =
-        totalIncome > 0 ? (totalTaxes / totalIncome) * 100 : 0;
+      // Forfettario: contributions paid during the year are deducted
+      // from the income subject to the substitute tax
+      const deductedContributions = isForfettario
+        ? Math.min(grossTaxableIncome, previousYearContributions)
+        : 0;
+      const taxableIncome = grossTaxableIncome - deductedContributions;
+
+      // Ordinario: mandatory contributions are deducted from the IRPEF base
+      const irpefTaxableIncome = Math.max(
+        0,
+        taxableIncome - contributionsAmount
+      );
 
       return {
         totalIncome,
         totalCosts,
         taxableIncome,
-        irpefAmount,
         contributionsAmount,
-        totalTaxes,
-        effectiveRate,
+        deductedContributions,
+        irpefTaxableIncome,
       };
     } catch (error) {
       console.error("Error calculating tax contributions:", error);
       setCalculationError("Errore nel calcolo delle imposte");
-      return {
-        totalIncome: 0,
-        totalCosts: 0,
-        taxableIncome: 0,
-        irpefAmount: 0,
-        contributionsAmount: 0,
-        totalTaxes: 0,
-        effectiveRate: 0,
-      };
+      return null;
     }
   }, [
     settings,
@@ -130,8 +187,106 @@ export const useTaxCalculations = (selectedYear: number) => {
     costs,
     costsLoading,
     selectedYear,
+    recognition,
+    isForfettario,
+    previousYearContributions,
+    previousYearContributionsLoading,
+    previousYearContributionsError,
   ]);
 
+  const isOrdinario = settings?.taxRegime === "ordinario";
+
+  /**
+   * Withholding tax retained by clients during the selected year (ordinario only)
+   * Credited against IRPEF, with the reconciliation of the client certificates
+   */
+  const {
+    summary: withholdingSummary,
+    isLoading: withholdingLoading,
+    saveCertificate: saveWithholdingCertificate,
+    deleteCertificate: deleteWithholdingCertificate,
+    isSaving: isSavingWithholdingCertificate,
+  } = useWithholdingCertificates(selectedYear, isOrdinario);
+  const withheldTaxes = withholdingSummary?.withheldTotal ?? 0;
+
+  /**
+   * IRPEF breakdown for the ordinario regime
+   * Brackets, detrazioni per lavoro autonomo, addizionali and the
+   * withholding tax credited against it
+   */
+  const {
+    data: irpefBreakdown,
+    isLoading: irpefLoading,
+    error: irpefError,
+  } = useQuery({
+    queryKey: [
+      "irpef",
+      selectedYear,
+      baseCalculation?.irpefTaxableIncome,
+      settings?.regionalSurchargeRate,
+      settings?.municipalSurchargeRate,
+      withheldTaxes,
+    ],
+    queryFn: () =>
+      irpefRateService.calculateIrpef({
+        year: selectedYear,
+        taxableIncome: baseCalculation?.irpefTaxableIncome || 0,
+        withheldTaxes,
+        regionalSurchargeRate: settings?.regionalSurchargeRate,
+        municipalSurchargeRate: settings?.municipalSurchargeRate,
+      }),
+    enabled: isOrdinario && baseCalculation !== null && !withholdingLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  /**
+   * Calculate tax obligations based on current data
+   * Combines the base calculation with the regime-specific income tax
+   */
+  const calculationResult = useMemo((): TaxCalculationResult => {
+    if (!baseCalculation || !settings) {
+      return EMPTY_CALCULATION_RESULT;
+    }
+
+    const {
+      totalIncome,
+      totalCosts,
+      taxableIncome,
+      contributionsAmount,
+      deductedContributions,
+    } = baseCalculation;
+
+    // Forfettario: 5% during the startup window, 15% afterwards
+    const substituteRate = resolveSubstituteRate(settings, selectedYear);
+
+    // Calculate IRPEF/substitute tax
+    const irpefAmount =
+      settings.taxRegime === "forfettario"
+        ? (taxableIncome * substituteRate) / 100
+        : irpefBreakdown?.totalIrpef || 0;
+
+    // Calculate totals and effective rate
+    const totalTaxes = irpefAmount + contributionsAmount;
+    const effectiveRate =
+      totalIncome > 0 ? (totalTaxes / totalIncome) * 100 : 0;
+
+    return {
+      totalIncome,
+      totalCosts,
+      taxableIncome,
+      irpefAmount,
+      contributionsAmount,
+      totalTaxes,
+      effectiveRate,
+      ...(settings.taxRegime === "forfettario"
+        ? { deductedContributions, substituteRate }
+        : {}),
+      ...(settings.taxRegime === "ordinario" && irpefBreakdown
+        ? { irpefBreakdown }
+        : {}),
+    };
+  }, [baseCalculation, settings, irpefBreakdown, selectedYear]);
+
   /**
    * Refresh calculations manually
    * Provides user feedback during refresh process
@@ -160,25 +315,56 @@ export const useTaxCalculations = (selectedYear: number) => {
       selectedYear,
       taxRegime: settings?.taxRegime,
       profitabilityRate: settings?.profitabilityRate,
-      substituteRate: settings?.substituteRate,
+      substituteRate: settings
+        ? resolveSubstituteRate(settings, selectedYear)
+        : undefined,
       manualContributionRate: settings?.manualContributionRate,
       manualFixedAnnualContributions: settings?.manualFixedAnnualContributions,
+      regionalSurchargeRate: settings?.regionalSurchargeRate,
+      municipalSurchargeRate: settings?.municipalSurchargeRate,
     }),
     [selectedYear, settings]
   );
 
   // Aggregate loading state
   const isLoading =
-    settingsLoading || invoicesLoading || costsLoading || isCalculating;
+    settingsLoading ||
+    invoicesLoading ||
+    costsLoading ||
+    (isForfettario && previousYearContributionsLoading) ||
+    withholdingLoading ||
+    (isOrdinario && irpefLoading) ||
+    isCalculating;
 
   // Aggregate error state
-  const hasError = Boolean(invoicesError || costsError || calculationError);
-  const errorMessage = calculationError || invoicesError || costsError;
+  const irpefErrorMessage = irpefError
+    ? "Errore nel calcolo dell'IRPEF"
+    : null;
+  const contributionsErrorMessage =
+    isForfettario && previousYearContributionsError
+      ? "Errore nel caricamento dei contributi versati"
+      : null;
+  const hasError = Boolean(
+    invoicesError ||
+      costsError ||
+      calculationError ||
+      irpefErrorMessage ||
+      contributionsErrorMessage
+  );
+  const errorMessage =
+    calculationError ||
+    invoicesError ||
+    costsError ||
+    irpefErrorMessage ||
+    contributionsErrorMessage;
 
   return {
     // Calculation results
     calculationResult,
 
+    // Source data
+    invoices,
+
     // Configuration
     settings,
     config: getCalculationConfig(),
@@ -195,6 +381,21 @@ export const useTaxCalculations = (selectedYear: number) => {
     errorMessage,
     calculationError,
 
+    // Revenue ceiling monitor
+    forfettarioMonitor,
+    forfettarioMonitorLoading,
+
+    // Contribution ledger
+    previousYearContributions,
+    savePreviousYearContribution: savePreviousYearContributionMutation.mutateAsync,
+    isSavingPreviousYearContribution: savePreviousYearContributionMutation.isPending,
+
+    // Withholding tax and client certificates
+    withholdingSummary,
+    saveWithholdingCertificate,
+    deleteWithholdingCertificate,
+    isSavingWithholdingCertificate,
+
     // Actions
     handleRefreshCalculations,
     clearError: () => setCalculationError(null),
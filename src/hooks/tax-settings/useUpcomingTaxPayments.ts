@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import { usePaymentSchedule } from "./usePaymentSchedule";
+import { getUpcomingPayments } from "@/utils/paymentScheduleCalculations";
+import { PaymentSchedule } from "@/types/tax";
+
+/**
+ * Hook for the tax and contribution payments still to pay
+ *
+ * Follows Single Responsibility Principle - only handles upcoming payments.
+ * Combines the schedule of last year (payments due this year) with the one
+ * of the current year, estimated on the data recorded so far.
+ *
+ * @returns Object with the unpaid payments due from the current month
+ */
+export const useUpcomingTaxPayments = () => {
+  const currentYear = new Date().getFullYear();
+  const previous = usePaymentSchedule(currentYear - 1);
+  const current = usePaymentSchedule(currentYear);
+
+  const payments = useMemo(() => {
+    const schedules = [previous.schedule, current.schedule].filter(
+      (schedule): schedule is PaymentSchedule => schedule !== null
+    );
+    const now = new Date();
+    return getUpcomingPayments(
+      schedules,
+      new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1))
+    );
+  }, [previous.schedule, current.schedule]);
+
+  return {
+    payments,
+    pensionSystem: current.settings?.pensionSystem,
+    isLoading: previous.isLoading || current.isLoading,
+  };
+};
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { taxCalculationService } from "@/services/taxCalculationService";
+import { WithholdingCertificateRequest } from "@/types";
+
+/**
+ * Hook for the withholding tax (ritenuta d'acconto) of a year
+ *
+ * Follows Single Responsibility Principle - only handles withholding tax.
+ * Loads the total retained by clients on the invoices paid in the year and
+ * reconciles the certificates (Certificazione Unica) recorded for each client.
+ * The query lives under the invoices key, so it refreshes with them.
+ *
+ * @param year - Year in which the invoices were paid
+ * @param enabled - Whether the user is in the ordinario regime
+ * @returns Object with the summary, loading/error states and certificate handlers
+ */
+export const useWithholdingCertificates = (year: number, enabled: boolean) => {
+  const queryClient = useQueryClient();
+  const queryKey = ["invoices", "withholding", year];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => taxCalculationService.getWithholdingSummary(year),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const invalidateSummary = () => queryClient.invalidateQueries({ queryKey });
+
+  const saveMutation = useMutation({
+    mutationFn: (certificate: WithholdingCertificateRequest) =>
+      taxCalculationService.saveWithholdingCertificate(certificate),
+    onSuccess: invalidateSummary,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      taxCalculationService.deleteWithholdingCertificate(year, id),
+    onSuccess: invalidateSummary,
+  });
+
+  return {
+    summary: data || null,
+    isLoading: enabled && isLoading,
+    error: error ? "Errore nel caricamento delle ritenute d'acconto" : null,
+    saveCertificate: saveMutation.mutateAsync,
+    deleteCertificate: deleteMutation.mutateAsync,
+    isSaving: saveMutation.isPending || deleteMutation.isPending,
+  };
+};
@@ -9,23 +9,53 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { invoiceService } from "@/services/invoiceService";
+import { Invoice, invoiceService } from "@/services/invoiceService";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 import { costService } from "@/services/costService";
 import { CashFlowDataPoint } from "@/components/charts/types";
 
+/**
+ * Scheduled outflow shown on the cash flow chart
+ */
+interface ScheduledOutflow {
+  dueDate: string;
+  amount: number;
+}
+
+const NO_SCHEDULED_OUTFLOWS: ScheduledOutflow[] = [];
+
+/**
+ * Maximum number of future months shown for scheduled outflows
+ */
+const MAX_UPCOMING_MONTHS = 6;
+
 /**
  * Cash Flow Data Processing
  * SRP: Handles only cash flow calculation logic
  */
 const processCashFlowData = (
-  invoices: { issueDate: string; amount: number }[],
+  invoices: Invoice[],
   costs: { date: string; amount: number }[],
-  months: number
+  months: number,
+  scheduledOutflows: ScheduledOutflow[] = NO_SCHEDULED_OUTFLOWS
 ): CashFlowDataPoint[] => {
   const now = new Date();
   const data: CashFlowDataPoint[] = [];
 
-  for (let i = months - 1; i >= 0; i--) {
+  // Extend the chart up to the month of the last scheduled outflow
+  const upcomingMonths = scheduledOutflows.reduce((max, outflow) => {
+    const dueDate = new Date(outflow.dueDate);
+    const monthsAhead =
+      (dueDate.getFullYear() - now.getFullYear()) * 12 +
+      dueDate.getMonth() -
+      now.getMonth();
+    return Math.min(MAX_UPCOMING_MONTHS, Math.max(max, monthsAhead));
+  }, 0);
+
+  for (let i = months - 1; i >= -upcomingMonths; i--) {
     const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
     const monthStart = new Date(
       monthDate.getFullYear(),
@@ -52,11 +82,20 @@ const processCashFlowData = (
 
     // Calculate totals
     const income = monthInvoices.reduce(
-      (sum, invoice) => sum + invoice.amount,
+      (sum, invoice) => sum + getSignedAmount(invoice),
       0
     );
     const expenses = monthCosts.reduce((sum, cost) => sum + cost.amount, 0);
-    const net = income - expenses;
+
+    // Scheduled outflows due this month, future months have nothing else
+    const scheduledPayments = scheduledOutflows
+      .filter((outflow) => {
+        const date = new Date(outflow.dueDate);
+        return date >= monthStart && date <= monthEnd;
+      })
+      .reduce((sum, outflow) => sum + outflow.amount, 0);
+    const projected = i < 0;
+    const net = projected ? -scheduledPayments : income - expenses;
 
     data.push({
       month: monthDate.toLocaleDateString("it-IT", {
@@ -68,6 +107,8 @@ const processCashFlowData = (
       expenses,
       net,
       date: monthDate,
+      scheduledPayments,
+      projected,
     });
   }
 
@@ -77,8 +118,12 @@ const processCashFlowData = (
 /**
  * Cash Flow Data Hook
  * SRP: Handles only cash flow data fetching and state management
+ * Scheduled outflows are shown on the current and upcoming months
  */
-export const useCashFlowData = (months: number = 6) => {
+export const useCashFlowData = (
+  months: number = 6,
+  scheduledOutflows: ScheduledOutflow[] = NO_SCHEDULED_OUTFLOWS
+) => {
   const [data, setData] = useState<CashFlowDataPoint[]>([]);
 
   // Fetch invoices
@@ -89,7 +134,9 @@ export const useCashFlowData = (months: number = 6) => {
     refetch: refetchInvoices,
   } = useQuery({
     queryKey: ["invoices", "cashflow"],
-    queryFn: () => invoiceService.getAllInvoices(),
+    // Drafts and cancelled invoices are not revenue
+    queryFn: async () =>
+      filterRevenueInvoices(await invoiceService.getAllInvoices()),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
@@ -108,10 +155,15 @@ export const useCashFlowData = (months: number = 6) => {
   // Process data when both datasets are available
   useEffect(() => {
     if (invoices && costs) {
-      const processed = processCashFlowData(invoices, costs, months);
+      const processed = processCashFlowData(
+        invoices,
+        costs,
+        months,
+        scheduledOutflows
+      );
       setData(processed);
     }
-  }, [invoices, costs, months]);
+  }, [invoices, costs, months, scheduledOutflows]);
 
   // Refresh function
   const refreshData = useCallback(() => {
@@ -3,9 +3,19 @@ import { useRouter } from "next/navigation";
 import { useInvoices } from "./invoices";
 import { useCosts } from "./costs";
 import { useTaxSettings } from "./useTaxSettings";
-import { getCurrentMonthStats } from "@/utils/invoiceCalculations";
+import { useForfettarioMonitor } from "./tax-settings/useForfettarioMonitor";
+import {
+  filterRevenueInvoices,
+  getCurrentMonthStats,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 import { getCurrentMonthCostStats } from "@/utils/costCalculations";
 import { calculateEstimatedMonthlyTaxes } from "@/utils";
+import {
+  calculateRecognizedRevenue,
+  getRevenueRecognition,
+} from "@/utils/revenueRecognitionCalculations";
+import { RevenueCeilingProjection, RevenueRecognition } from "@/types";
 
 interface DashboardStats {
   invoicesThisMonth: number;
@@ -15,6 +25,7 @@ interface DashboardStats {
 }
 
 interface AnnualSummary {
+  recognition: RevenueRecognition;
   totalRevenue: number;
   totalCosts: number;
   grossCashFlow: number;
@@ -46,6 +57,7 @@ interface UseDashboardReturn {
   annualSummary: AnnualSummary;
   activities: Activity[];
   quickActions: QuickAction[];
+  revenueCeiling: RevenueCeilingProjection | null;
   isLoading: boolean;
   error: string | null;
 }
@@ -60,22 +72,31 @@ export const useDashboard = (): UseDashboardReturn => {
   const router = useRouter();
   const currentYear = new Date().getFullYear();
 
+  // Load user tax settings for accurate calculations
+  const {
+    state: { settings: taxSettings, loading: settingsLoading },
+  } = useTaxSettings();
+
+  // Forfettario revenue is the one received in the year (principio di cassa)
+  const recognition = getRevenueRecognition(taxSettings?.taxRegime);
+
   // Load real data from API
   const {
     invoices = [],
     isLoading: invoicesLoading,
     error: invoicesError,
-  } = useInvoices({ selectedYear: currentYear });
+  } = useInvoices({ selectedYear: currentYear, recognition });
   const {
     costs = [],
     loading: costsLoading,
     error: costsError,
   } = useCosts(currentYear);
 
-  // Load user tax settings for accurate calculations
-  const {
-    state: { settings: taxSettings, loading: settingsLoading },
-  } = useTaxSettings();
+  // Forfettario revenue ceiling projection for the current year
+  const { monitor } = useForfettarioMonitor(
+    currentYear,
+    taxSettings?.taxRegime === "forfettario"
+  );
 
   // Convert cost dates from strings to Date objects for calculations
   const costsWithDates = useMemo(() => {
@@ -98,17 +119,15 @@ export const useDashboard = (): UseDashboardReturn => {
 
     // Calculate year-to-date statistics for current year
     const currentYear = new Date().getFullYear();
-    const yearToDateInvoices = invoices.filter((inv) => {
-      const invoiceDate = new Date(inv.issueDate);
-      return invoiceDate.getFullYear() === currentYear;
-    });
     const yearToDateCosts = costsWithDates.filter((cost) => {
       return cost.date.getFullYear() === currentYear;
     });
 
-    const yearToDateRevenue = yearToDateInvoices.reduce(
-      (sum, inv) => sum + inv.amount,
-      0
+    // Revenue recognized in the year, net of credit notes
+    const yearToDateRevenue = calculateRecognizedRevenue(
+      invoices,
+      currentYear,
+      recognition
     );
     const yearToDateCostsTotal = yearToDateCosts.reduce(
       (sum, cost) => sum + cost.amount,
@@ -139,12 +158,14 @@ export const useDashboard = (): UseDashboardReturn => {
     costsLoading,
     settingsLoading,
     taxSettings,
+    recognition,
   ]);
 
   // Calculate annual summary with cash flow analysis
   const annualSummary: AnnualSummary = useMemo(() => {
     if (invoicesLoading || costsLoading || settingsLoading) {
       return {
+        recognition,
         totalRevenue: 0,
         totalCosts: 0,
         grossCashFlow: 0,
@@ -161,17 +182,15 @@ export const useDashboard = (): UseDashboardReturn => {
 
     // Calculate year-to-date statistics for current year
     const currentYear = new Date().getFullYear();
-    const yearToDateInvoices = invoices.filter((inv) => {
-      const invoiceDate = new Date(inv.issueDate);
-      return invoiceDate.getFullYear() === currentYear;
-    });
     const yearToDateCosts = costsWithDates.filter((cost) => {
       return cost.date.getFullYear() === currentYear;
     });
 
-    const totalRevenue = yearToDateInvoices.reduce(
-      (sum, inv) => sum + inv.amount,
-      0
+    // Revenue recognized in the year, net of credit notes
+    const totalRevenue = calculateRecognizedRevenue(
+      invoices,
+      currentYear,
+      recognition
     );
     const totalCosts = yearToDateCosts.reduce(
       (sum, cost) => sum + cost.amount,
@@ -200,6 +219,7 @@ export const useDashboard = (): UseDashboardReturn => {
       })}`;
 
     return {
+      recognition,
       totalRevenue,
       totalCosts,
       grossCashFlow,
@@ -219,6 +239,7 @@ export const useDashboard = (): UseDashboardReturn => {
     invoicesLoading,
     costsLoading,
     settingsLoading,
+    recognition,
   ]);
 
   // Create recent activities from real data
@@ -227,8 +248,8 @@ export const useDashboard = (): UseDashboardReturn => {
 
     const recentActivities: Activity[] = [];
 
-    // Add recent invoices (limit to 2)
-    const recentInvoices = invoices
+    // Add recent invoices (limit to 2), drafts and cancelled invoices are not income
+    const recentInvoices = filterRevenueInvoices(invoices)
       .sort(
         (a, b) =>
           new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime()
@@ -236,10 +257,13 @@ export const useDashboard = (): UseDashboardReturn => {
       .slice(0, 2);
 
     recentInvoices.forEach((invoice) => {
+      const amount = getSignedAmount(invoice);
       recentActivities.push({
         description: `Fattura #${invoice.number || "N/A"}`,
-        amount: `+€${invoice.amount.toLocaleString("it-IT")}`,
-        type: "income",
+        amount: `${amount < 0 ? "-" : "+"}€${Math.abs(amount).toLocaleString(
+          "it-IT"
+        )}`,
+        type: amount < 0 ? "expense" : "income",
       });
     });
 
@@ -293,6 +317,7 @@ export const useDashboard = (): UseDashboardReturn => {
     annualSummary,
     activities,
     quickActions,
+    revenueCeiling: monitor?.projection || null,
     isLoading,
     error,
   };
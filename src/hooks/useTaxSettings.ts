@@ -7,6 +7,7 @@ import {
 } from "@/services/professionalFundService";
 import { ProfitabilityRate } from "@/components/tax-settings/shared/ProfitabilityRateTable";
 import { useAuthContext } from "@/providers/AuthProvider";
+import { resolveSubstituteRate } from "@/utils/userSettingsCalculations";
 
 export function useTaxSettings() {
   const { isAuthenticated } = useAuthContext();
@@ -21,6 +22,7 @@ export function useTaxSettings() {
     manualContributionRate: undefined,
     manualMinimumContribution: undefined,
     manualFixedAnnualContributions: undefined,
+    activityStartDate: null,
   });
   const [originalSettings, setOriginalSettings] = useState<UserSettings | null>(
     null
@@ -94,7 +96,7 @@ export function useTaxSettings() {
   const handleChange = useCallback(
     async (
       field: keyof UserSettings,
-      value: string | number | boolean | undefined
+      value: string | number | boolean | number[] | null | undefined
     ): Promise<void> => {
       setSettings((prev) => ({
         ...prev,
@@ -105,6 +107,15 @@ export function useTaxSettings() {
               profitabilityRate: undefined,
             }
           : {}),
+        // The start date drives the substitute rate of the current year
+        ...(field === "activityStartDate" && typeof value === "string"
+          ? {
+              substituteRate: resolveSubstituteRate(
+                { activityStartDate: value },
+                new Date().getFullYear()
+              ),
+            }
+          : {}),
       }));
     },
     [] // Empty dependencies to ensure stable reference
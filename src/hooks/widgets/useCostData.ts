@@ -9,73 +9,21 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { costService } from "@/services/costService";
+import { Cost, costService } from "@/services/costService";
+import {
+  CostCategory,
+  costCategoryService,
+} from "@/services/costCategoryService";
 import { CostData } from "@/components/widgets/financial/CostWidget";
-
-/**
- * Cost Categories Mapping
- * SRP: Handles only cost categorization logic
- */
-const categorizeCosts = (
-  costs: { description: string; amount: number }[]
-): { [key: string]: number } => {
-  const categories: { [key: string]: number } = {};
-
-  costs.forEach((cost) => {
-    // Simple categorization based on description keywords
-    const description = cost.description.toLowerCase();
-    let category = "Altri";
-
-    if (
-      description.includes("ufficio") ||
-      description.includes("affitto") ||
-      description.includes("utenze")
-    ) {
-      category = "Ufficio";
-    } else if (
-      description.includes("auto") ||
-      description.includes("carburante") ||
-      description.includes("trasport")
-    ) {
-      category = "Trasporti";
-    } else if (
-      description.includes("telefon") ||
-      description.includes("internet") ||
-      description.includes("software")
-    ) {
-      category = "Tecnologia";
-    } else if (
-      description.includes("formazione") ||
-      description.includes("corso") ||
-      description.includes("libro")
-    ) {
-      category = "Formazione";
-    } else if (
-      description.includes("marketing") ||
-      description.includes("pubblicità") ||
-      description.includes("sito")
-    ) {
-      category = "Marketing";
-    } else if (
-      description.includes("consulenz") ||
-      description.includes("professional") ||
-      description.includes("commercialista")
-    ) {
-      category = "Consulenze";
-    }
-
-    categories[category] = (categories[category] || 0) + cost.amount;
-  });
-
-  return categories;
-};
+import { calculateCostsByCategory } from "@/utils/costSummaryCalculations";
 
 /**
  * Cost Data Processing
  * SRP: Handles only cost calculation logic
  */
 const processCostData = (
-  costs: { date: string; amount: number; description: string }[],
+  costs: Cost[],
+  costCategories: CostCategory[],
   monthsToAnalyze: number
 ): CostData => {
   const now = new Date();
@@ -151,21 +99,29 @@ const processCostData = (
         monthlyAmounts.length
       : 0;
 
-  // Categorize costs
-  const categoryTotals = categorizeCosts(currentMonthCosts);
-  const totalCategorized = Object.values(categoryTotals).reduce(
-    (sum, amount) => sum + amount,
-    0
+  // Break down current month costs by category
+  const previousCategoryAmounts = new Map(
+    calculateCostsByCategory(previousMonthCosts, costCategories).map(
+      (category) => [category.categoryId, category.amount]
+    )
   );
 
-  const categories = Object.entries(categoryTotals)
-    .map(([name, amount]) => ({
-      name,
-      amount,
-      percentage: totalCategorized > 0 ? (amount / totalCategorized) * 100 : 0,
-      trend: 0, // TODO: Calculate category-specific trends
-    }))
-    .sort((a, b) => b.amount - a.amount);
+  const categories = calculateCostsByCategory(
+    currentMonthCosts,
+    costCategories
+  ).map((category) => {
+    const previousAmount =
+      previousCategoryAmounts.get(category.categoryId) || 0;
+    return {
+      name: category.name,
+      amount: category.amount,
+      percentage: category.percentage,
+      trend:
+        previousAmount > 0
+          ? ((category.amount - previousAmount) / previousAmount) * 100
+          : 0,
+    };
+  });
 
   // Calculate deductible amounts (simplified - assuming 100% deductible for business costs)
   const deductibleAmount = currentMonthAmount; // In real scenario, this would be calculated based on cost type
@@ -219,15 +175,26 @@ export const useCostData = (monthsToAnalyze: number = 12) => {
     refetchOnWindowFocus: true,
   });
 
+  // Fetch cost categories for the breakdown
+  const { data: costCategories, isLoading: categoriesLoading } = useQuery({
+    queryKey: ["costCategories"],
+    queryFn: () => costCategoryService.getCategories(),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
   // Process cost data when costs change
   useEffect(() => {
-    if (costs) {
-      const processed = processCostData(costs, monthsToAnalyze);
+    if (costs && !categoriesLoading) {
+      const processed = processCostData(
+        costs,
+        costCategories || [],
+        monthsToAnalyze
+      );
       setCostData(processed);
       // Update lastUpdated when data is actually processed
       setLastUpdated(new Date(dataUpdatedAt));
     }
-  }, [costs, monthsToAnalyze, dataUpdatedAt]);
+  }, [costs, costCategories, categoriesLoading, monthsToAnalyze, dataUpdatedAt]);
 
   // Refresh function
   const refresh = useCallback(() => {
@@ -236,7 +203,7 @@ export const useCostData = (monthsToAnalyze: number = 12) => {
 
   return {
     costData,
-    isLoading,
+    isLoading: isLoading || categoriesLoading,
     error: error?.message || null,
     lastUpdated,
     refresh,
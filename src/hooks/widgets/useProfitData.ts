@@ -9,7 +9,11 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { invoiceService } from "@/services/invoiceService";
+import { invoiceService, Invoice } from "@/services/invoiceService";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 import { costService } from "@/services/costService";
 import { ProfitData } from "@/components/widgets/financial/ProfitWidget";
 
@@ -98,12 +102,14 @@ const generateRecommendations = (data: ProfitData): string[] => {
 /**
  * Profit Data Processing
  * SRP: Handles only profit calculation logic
+ * Drafts and cancelled invoices are not revenue, credit notes reduce it
  */
 const processProfitData = (
-  invoices: { issueDate: string; amount: number }[],
+  allInvoices: Invoice[],
   costs: { date: string; amount: number }[],
   monthsToAnalyze: number
 ): ProfitData => {
+  const invoices = filterRevenueInvoices(allInvoices);
   const now = new Date();
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth();
@@ -147,7 +153,7 @@ const processProfitData = (
 
   // Calculate current month metrics
   const currentMonthRevenue = currentMonthInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const currentMonthCostAmount = currentMonthCosts.reduce(
@@ -162,7 +168,7 @@ const processProfitData = (
 
   // Calculate previous month metrics
   const previousMonthRevenue = previousMonthInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const previousMonthCostAmount = previousMonthCosts.reduce(
@@ -176,7 +182,7 @@ const processProfitData = (
       : 0;
 
   // Calculate year to date metrics
-  const yearRevenue = yearInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+  const yearRevenue = yearInvoices.reduce((sum, inv) => sum + getSignedAmount(inv), 0);
   const yearCostAmount = yearCosts.reduce((sum, cost) => sum + cost.amount, 0);
   const yearProfit = yearRevenue - yearCostAmount;
   const yearMargin = yearRevenue > 0 ? (yearProfit / yearRevenue) * 100 : 0;
@@ -230,7 +236,7 @@ const processProfitData = (
     });
 
     const monthRevenue = monthInvoices.reduce(
-      (sum, inv) => sum + inv.amount,
+      (sum, inv) => sum + getSignedAmount(inv),
       0
     );
     const monthCostAmount = monthCosts.reduce(
@@ -9,17 +9,23 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { invoiceService } from "@/services/invoiceService";
+import { invoiceService, Invoice } from "@/services/invoiceService";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 import { RevenueData } from "@/components/widgets/financial/RevenueWidget";
 
 /**
  * Revenue Data Processing
  * SRP: Handles only revenue calculation logic
+ * Drafts and cancelled invoices are not revenue, credit notes reduce it
  */
 const processRevenueData = (
-  invoices: { issueDate: string; amount: number }[],
+  allInvoices: Invoice[],
   monthsToAnalyze: number
 ): RevenueData => {
+  const invoices = filterRevenueInvoices(allInvoices);
   const now = new Date();
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth();
@@ -60,15 +66,15 @@ const processRevenueData = (
 
   // Calculate amounts
   const currentMonthRevenue = currentMonthInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const previousMonthRevenue = previousMonthInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const yearToDateRevenue = yearToDateInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
 
@@ -84,7 +90,8 @@ const processRevenueData = (
   relevantInvoices.forEach((invoice) => {
     const date = new Date(invoice.issueDate);
     const monthKey = `${date.getFullYear()}-${date.getMonth()}`;
-    monthlyData[monthKey] = (monthlyData[monthKey] || 0) + invoice.amount;
+    monthlyData[monthKey] =
+      (monthlyData[monthKey] || 0) + getSignedAmount(invoice);
   });
 
   const monthlyAmounts = Object.values(monthlyData);
@@ -122,7 +129,7 @@ const processRevenueData = (
     return issueDate.getFullYear() === currentYear - 1;
   });
   const previousYearTotal = previousYearInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const yearlyTrend =
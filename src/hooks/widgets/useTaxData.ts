@@ -14,20 +14,29 @@ import { invoiceService } from "@/services/invoiceService";
 import { costService } from "@/services/costService";
 import { TaxData } from "@/components/widgets/financial/TaxWidget";
 import { useAuthContext } from "@/providers/AuthProvider";
+import { useUpcomingTaxPayments } from "@/hooks/tax-settings/useUpcomingTaxPayments";
+import { ScheduledTaxPayment } from "@/types/tax";
+import { InvoiceDocumentType } from "@/types";
+import { getSignedAmount, filterRevenueInvoices } from "@/utils/invoiceCalculations";
 
 /**
  * Tax Calculation Logic
  * SRP: Handles only tax computation algorithms
  */
 const calculateTaxes = (
-  invoices: { issueDate: string; amount: number }[],
+  invoices: {
+    issueDate: string;
+    amount: number;
+    documentType?: InvoiceDocumentType;
+  }[],
   costs: { date: string; amount: number }[],
   settings: {
     taxRegime?: string;
     profitabilityRate?: number;
     substituteRate?: number;
     pensionSystem?: string;
-  } | null
+  } | null,
+  upcomingPayments: ScheduledTaxPayment[]
 ): TaxData => {
   const now = new Date();
   const currentYear = now.getFullYear();
@@ -47,8 +56,9 @@ const calculateTaxes = (
     return date >= quarterStart && date <= quarterEnd;
   });
 
+  // Credit notes reduce the revenue
   const quarterlyRevenue = quarterlyInvoices.reduce(
-    (sum, inv) => sum + inv.amount,
+    (sum, inv) => sum + getSignedAmount(inv),
     0
   );
   const quarterlyCostsAmount = quarterlyCosts.reduce(
@@ -112,8 +122,8 @@ const calculateTaxes = (
     total: currentQuarterData.total * currentQuarter,
   };
 
-  // Generate next payments (mock data - in real app would come from settings/calendar)
-  const nextPayments = generateNextPayments(currentQuarterData, settings);
+  // Saldo, acconti, contribution instalments and stamp duty from the schedule
+  const nextPayments = toNextPayments(upcomingPayments, settings);
 
   // Estimate year end
   const monthsElapsed = now.getMonth() + 1;
@@ -190,44 +200,30 @@ const calculateIRPEF = (netIncome: number): number => {
 };
 
 /**
- * Generate Next Payments
- * SRP: Handles only payment schedule generation
+ * Map Scheduled Payments
+ * SRP: Handles only the conversion of the payment schedule for the widget
  */
-const generateNextPayments = (
-  quarterData: TaxData["currentQuarter"],
-  _settings: { taxRegime?: string } | null
-) => {
-  const now = new Date();
-  const payments = [];
-
-  // Add quarterly payments based on current date
-  const nextQuarterPayment = new Date(now);
-  nextQuarterPayment.setMonth(
-    nextQuarterPayment.getMonth() + 3 - (now.getMonth() % 3)
-  );
-  nextQuarterPayment.setDate(16); // Usually 16th of the month
-
-  if (quarterData.irpef > 0) {
-    payments.push({
-      description: "IRPEF Trimestrale",
-      amount: quarterData.irpef,
-      dueDate: new Date(nextQuarterPayment),
-      type: "irpef" as const,
-      isPaid: false,
-    });
-  }
-
-  if (quarterData.inps > 0) {
-    payments.push({
-      description: "Contributi INPS",
-      amount: quarterData.inps,
-      dueDate: new Date(nextQuarterPayment),
-      type: "inps" as const,
-      isPaid: false,
-    });
-  }
-
-  return payments;
+const toNextPayments = (
+  payments: ScheduledTaxPayment[],
+  settings: { pensionSystem?: string } | null
+): TaxData["nextPayments"] => {
+  const contributionType =
+    settings?.pensionSystem === "PROFESSIONAL_FUND"
+      ? ("fund" as const)
+      : ("inps" as const);
+
+  return payments.map((payment) => ({
+    description: payment.description,
+    amount: payment.amount,
+    dueDate: new Date(payment.dueDate),
+    type:
+      payment.category === "tax"
+        ? ("irpef" as const)
+        : payment.category === "bollo"
+        ? ("bollo" as const)
+        : contributionType,
+    isPaid: payment.paid,
+  }));
 };
 
 /**
@@ -251,6 +247,7 @@ export const useTaxData = () => {
   const { isAuthenticated } = useAuthContext();
   const [taxData, setTaxData] = useState<TaxData | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { payments: upcomingPayments } = useUpcomingTaxPayments();
 
   // Fetch all required data
   const {
@@ -274,7 +271,9 @@ export const useTaxData = () => {
     dataUpdatedAt: invoicesUpdatedAt,
   } = useQuery({
     queryKey: ["invoices", "tax-calculation"],
-    queryFn: () => invoiceService.getAllInvoices(),
+    // Drafts and cancelled invoices are not revenue
+    queryFn: async () =>
+      filterRevenueInvoices(await invoiceService.getAllInvoices()),
     staleTime: 5 * 60 * 1000, // 5 minutes
     enabled: isAuthenticated, // Only fetch if authenticated
   });
@@ -295,13 +294,26 @@ export const useTaxData = () => {
   // Process tax data when all data is available
   useEffect(() => {
     if (settings && invoices && costs) {
-      const processed = calculateTaxes(invoices, costs, settings);
+      const processed = calculateTaxes(
+        invoices,
+        costs,
+        settings,
+        upcomingPayments
+      );
       setTaxData(processed);
       // Update lastUpdated with the most recent data timestamp
       const latestUpdate = Math.max(settingsUpdatedAt, invoicesUpdatedAt, costsUpdatedAt);
       setLastUpdated(new Date(latestUpdate));
     }
-  }, [settings, invoices, costs, settingsUpdatedAt, invoicesUpdatedAt, costsUpdatedAt]);
+  }, [
+    settings,
+    invoices,
+    costs,
+    upcomingPayments,
+    settingsUpdatedAt,
+    invoicesUpdatedAt,
+    costsUpdatedAt,
+  ]);
 
   // Refresh function
   const refresh = useCallback(() => {
@@ -0,0 +1,19 @@
+/**
+ * Instrumentation hook
+ *
+ * Called by Next.js once when a server instance starts. Runs the server
+ * initialization (super admin, seeding and database migrations) on the
+ * Node.js runtime only, where the database can be reached, and not while
+ * the application is being built.
+ */
+export async function register(): Promise<void> {
+  if (
+    process.env.NEXT_RUNTIME !== "nodejs" ||
+    process.env.NEXT_PHASE === "phase-production-build"
+  ) {
+    return;
+  }
+
+  const { initializeServer } = await import("@/lib/init/initializeServer");
+  await initializeServer();
+}
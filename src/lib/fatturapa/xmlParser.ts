@@ -0,0 +1,199 @@
+/**
+ * Minimal XML Parser
+ *
+ * Parses the element tree of FatturaPA files: elements, attributes, text,
+ * CDATA sections and character references. Comments, processing
+ * instructions and DOCTYPE declarations are skipped, and namespace
+ * prefixes are dropped from element names.
+ */
+
+export interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Error raised for content that is not well-formed XML
+ */
+export class XmlParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (position ${position})`);
+    this.name = "XmlParseError";
+  }
+}
+
+/**
+ * Local name of an element or attribute, without namespace prefix
+ */
+const localName = (name: string): string => name.slice(name.indexOf(":") + 1);
+
+/**
+ * Replace entity and character references with their characters
+ */
+const decodeEntities = (value: string, position: number): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);|&/g, (_, entity) => {
+    if (!entity) throw new XmlParseError("Unescaped ampersand", position);
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    if (!(entity in NAMED_ENTITIES)) {
+      throw new XmlParseError(`Unknown entity &${entity};`, position);
+    }
+    return NAMED_ENTITIES[entity];
+  });
+
+/**
+ * Decode the bytes of an XML file using the encoding in its declaration
+ * UTF-8 is assumed when the declaration does not name one
+ */
+export const decodeXml = (bytes: Uint8Array): string => {
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 200));
+  const encoding =
+    /^(?:\uFEFF|\u00EF\u00BB\u00BF)?<\?xml[^>]*encoding=["']([A-Za-z0-9._-]+)["']/.exec(head)?.[1] ??
+    "utf-8";
+
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    throw new XmlParseError(`Content is not valid ${encoding} text`, 0);
+  }
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export const parseXml = (xml: string): XmlNode => {
+  const stack: XmlNode[] = [];
+  let root: XmlNode | null = null;
+  let position = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end === -1) throw new XmlParseError(`Unterminated ${what}`, position);
+    const content = xml.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += text;
+    } else if (text.trim()) {
+      throw new XmlParseError("Text outside the root element", position);
+    }
+  };
+
+  while (position < xml.length) {
+    const next = xml.indexOf("<", position);
+    if (next === -1) {
+      appendText(decodeEntities(xml.slice(position), position));
+      break;
+    }
+    if (next > position) {
+      appendText(decodeEntities(xml.slice(position, next), position));
+    }
+    position = next;
+
+    if (xml.startsWith("<!--", position)) {
+      position += 4;
+      skipPast("-->", "comment");
+    } else if (xml.startsWith("<![CDATA[", position)) {
+      position += 9;
+      appendText(skipPast("]]>", "CDATA section"));
+    } else if (xml.startsWith("<?", position)) {
+      position += 2;
+      skipPast("?>", "processing instruction");
+    } else if (xml.startsWith("<!", position)) {
+      position += 2;
+      skipPast(">", "declaration");
+    } else if (xml.startsWith("</", position)) {
+      position += 2;
+      const name = skipPast(">", "closing tag").trim();
+      const current = stack.pop();
+      if (!current || current.name !== localName(name)) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`, position);
+      }
+    } else {
+      const tagStart = position;
+      position += 1;
+      const tag = skipPast(">", "tag");
+      const selfClosing = tag.endsWith("/");
+      const match = /^([A-Za-z_][\w.:-]*)([\s\S]*?)\/?$/.exec(tag);
+      if (!match) throw new XmlParseError("Invalid tag", tagStart);
+
+      const node: XmlNode = {
+        name: localName(match[1]),
+        attributes: {},
+        children: [],
+        text: "",
+      };
+      const attributePattern = /([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      const rest = match[2].replace(attributePattern, (_, name, __, double, single) => {
+        node.attributes[localName(name)] = decodeEntities(double ?? single, tagStart);
+        return "";
+      });
+      if (rest.trim()) throw new XmlParseError("Invalid attributes", tagStart);
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(node);
+      } else if (root) {
+        throw new XmlParseError("Multiple root elements", tagStart);
+      } else {
+        root = node;
+      }
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, position);
+  }
+  if (!root) throw new XmlParseError("No root element", position);
+  return root;
+};
+
+/**
+ * First child element with the given name
+ */
+export const findChild = (
+  node: XmlNode | undefined,
+  name: string
+): XmlNode | undefined => node?.children.find((child) => child.name === name);
+
+/**
+ * All child elements with the given name
+ */
+export const findChildren = (
+  node: XmlNode | undefined,
+  name: string
+): XmlNode[] => node?.children.filter((child) => child.name === name) ?? [];
+
+/**
+ * Trimmed text of the element at a path of child names
+ */
+export const childText = (
+  node: XmlNode | undefined,
+  ...path: string[]
+): string | undefined => {
+  const target = path.reduce<XmlNode | undefined>(
+    (current, name) => findChild(current, name),
+    node
+  );
+  const text = target?.text.trim();
+  return text ? text : undefined;
+};
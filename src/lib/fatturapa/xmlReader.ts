@@ -0,0 +1,274 @@
+import { unzipSync } from "fflate";
+import {
+  FatturaPaImportedDocument,
+  FatturaPaImportedParty,
+  formatVatNumber,
+} from "@/utils/fatturaPaCalculations";
+import {
+  XmlNode,
+  childText,
+  decodeXml,
+  findChild,
+  findChildren,
+  parseXml,
+} from "./xmlParser";
+
+/**
+ * FatturaPA XML Reader
+ *
+ * Reads uploaded FatturaPA files, plain or collected in zip archives,
+ * into the documents recorded by the import. Each FatturaElettronicaBody
+ * of a file is a separate document.
+ */
+
+/**
+ * Limits on the content of a zip archive, checked on the sizes declared
+ * by its entries before anything is unpacked
+ */
+const MAX_ARCHIVE_ENTRIES = 1000;
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+
+export interface FatturaPaUploadedFile {
+  fileName: string;
+  bytes?: Uint8Array;
+  error?: string;
+}
+
+/**
+ * Error raised for well-formed XML that is not a readable FatturaPA file
+ */
+export class FatturaPaFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FatturaPaFormatError";
+  }
+}
+
+/**
+ * Text of a required element, failing with its path when missing
+ */
+const requiredText = (node: XmlNode | undefined, ...path: string[]): string => {
+  const text = childText(node, ...path);
+  if (text === undefined) {
+    throw new FatturaPaFormatError(`Missing element ${path.join("/")}`);
+  }
+  return text;
+};
+
+/**
+ * Amounts use a dot as decimal separator
+ */
+const parseAmount = (value: string, element: string): number => {
+  const amount = Number(value);
+  if (!/^-?\d+(\.\d+)?$/.test(value) || !Number.isFinite(amount)) {
+    throw new FatturaPaFormatError(`Invalid amount in ${element}: ${value}`);
+  }
+  return amount;
+};
+
+/**
+ * Dates are ISO 8601 calendar dates, read as local days
+ */
+const parseDate = (value: string, element: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : null;
+  if (!match || !date || date.getDate() !== Number(match[3])) {
+    throw new FatturaPaFormatError(`Invalid date in ${element}: ${value}`);
+  }
+  return date;
+};
+
+/**
+ * Identifiers and name of the issuer or the recipient
+ */
+const readParty = (party: XmlNode | undefined, element: string): FatturaPaImportedParty => {
+  const anagrafici = findChild(party, "DatiAnagrafici");
+  if (!anagrafici) {
+    throw new FatturaPaFormatError(`Missing element ${element}/DatiAnagrafici`);
+  }
+
+  const idPaese = childText(anagrafici, "IdFiscaleIVA", "IdPaese");
+  const idCodice = childText(anagrafici, "IdFiscaleIVA", "IdCodice");
+  const denominazione = childText(anagrafici, "Anagrafica", "Denominazione");
+  const fullName = [
+    childText(anagrafici, "Anagrafica", "Nome"),
+    childText(anagrafici, "Anagrafica", "Cognome"),
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const name = denominazione ?? fullName;
+  if (!name) {
+    throw new FatturaPaFormatError(`Missing element ${element}/DatiAnagrafici/Anagrafica`);
+  }
+
+  return {
+    ...(idPaese && idCodice && { vatNumber: formatVatNumber({ idPaese, idCodice }) }),
+    ...(childText(anagrafici, "CodiceFiscale") && {
+      taxCode: childText(anagrafici, "CodiceFiscale"),
+    }),
+    name,
+  };
+};
+
+/**
+ * Document data of a FatturaElettronicaBody
+ */
+const readBody = (
+  body: XmlNode,
+  issuer: FatturaPaImportedParty,
+  recipient: FatturaPaImportedParty
+): FatturaPaImportedDocument => {
+  const generali = findChild(findChild(body, "DatiGenerali"), "DatiGeneraliDocumento");
+  if (!generali) {
+    throw new FatturaPaFormatError("Missing element DatiGenerali/DatiGeneraliDocumento");
+  }
+  const beniServizi = findChild(body, "DatiBeniServizi");
+  const riepiloghi = findChildren(beniServizi, "DatiRiepilogo");
+  if (riepiloghi.length === 0) {
+    throw new FatturaPaFormatError("Missing element DatiBeniServizi/DatiRiepilogo");
+  }
+
+  // Amounts outside the VAT base (N1), such as the re-charged stamp duty
+  const excluded = riepiloghi.filter(
+    (riepilogo) => childText(riepilogo, "Natura") === "N1"
+  );
+  const taxed = riepiloghi.filter((riepilogo) => !excluded.includes(riepilogo));
+  const sumOf = (nodes: XmlNode[], element: string) =>
+    nodes.reduce(
+      (sum, riepilogo) => sum + parseAmount(requiredText(riepilogo, element), element),
+      0
+    );
+
+  const taxableAmount = sumOf(taxed, "ImponibileImporto");
+  const excludedAmount = sumOf(excluded, "ImponibileImporto");
+  const vatAmount = sumOf(riepiloghi, "Imposta");
+  const vatRates = [
+    ...new Set(
+      taxed.map((riepilogo) =>
+        parseAmount(requiredText(riepilogo, "AliquotaIVA"), "AliquotaIVA")
+      )
+    ),
+  ];
+  const bollo = childText(generali, "DatiBollo", "ImportoBollo");
+  const withholdingRate = childText(generali, "DatiRitenuta", "AliquotaRitenuta");
+  const cassa = findChild(generali, "DatiCassaPrevidenziale");
+  const total = childText(generali, "ImportoTotaleDocumento");
+  const dueDate = findChildren(body, "DatiPagamento")
+    .flatMap((pagamento) => findChildren(pagamento, "DettaglioPagamento"))
+    .map((dettaglio) => childText(dettaglio, "DataScadenzaPagamento"))
+    .find((value): value is string => value !== undefined);
+  const description = findChildren(beniServizi, "DettaglioLinee")
+    .map((linea) => childText(linea, "Descrizione"))
+    .filter(Boolean)
+    .join("; ");
+
+  return {
+    tipoDocumento: requiredText(generali, "TipoDocumento"),
+    number: requiredText(generali, "Numero"),
+    date: parseDate(requiredText(generali, "Data"), "Data"),
+    issuer,
+    recipient,
+    description: description || `Fattura ${requiredText(generali, "Numero")}`,
+    taxableAmount: Math.round(taxableAmount * 100) / 100,
+    vatAmount: Math.round(vatAmount * 100) / 100,
+    totalAmount:
+      total !== undefined
+        ? parseAmount(total, "ImportoTotaleDocumento")
+        : Math.round((taxableAmount + excludedAmount + vatAmount) * 100) / 100,
+    excludedAmount: Math.round(excludedAmount * 100) / 100,
+    vatRates,
+    ...(bollo && { bolloAmount: parseAmount(bollo, "ImportoBollo") }),
+    ...(withholdingRate && {
+      withholdingRate: parseAmount(withholdingRate, "AliquotaRitenuta"),
+    }),
+    ...(cassa && {
+      pensionFund: {
+        tipoCassa: requiredText(cassa, "TipoCassa"),
+        rate: parseAmount(requiredText(cassa, "AlCassa"), "AlCassa"),
+        amount: parseAmount(
+          requiredText(cassa, "ImportoContributoCassa"),
+          "ImportoContributoCassa"
+        ),
+      },
+    }),
+    ...(dueDate && { dueDate: parseDate(dueDate, "DataScadenzaPagamento") }),
+  };
+};
+
+/**
+ * Read the documents of a FatturaPA file
+ * Throws XmlParseError for malformed XML and FatturaPaFormatError for
+ * files that are not FatturaPA invoices
+ */
+export const readFatturaPaXml = (bytes: Uint8Array): FatturaPaImportedDocument[] => {
+  const root = parseXml(decodeXml(bytes));
+  if (root.name !== "FatturaElettronica") {
+    throw new FatturaPaFormatError(`Unexpected root element <${root.name}>`);
+  }
+
+  const header = findChild(root, "FatturaElettronicaHeader");
+  const issuer = readParty(findChild(header, "CedentePrestatore"), "CedentePrestatore");
+  const recipient = readParty(
+    findChild(header, "CessionarioCommittente"),
+    "CessionarioCommittente"
+  );
+
+  const bodies = findChildren(root, "FatturaElettronicaBody");
+  if (bodies.length === 0) {
+    throw new FatturaPaFormatError("Missing element FatturaElettronicaBody");
+  }
+  return bodies.map((body) => readBody(body, issuer, recipient));
+};
+
+/**
+ * Accept XML files, report signed .p7m files and other formats
+ */
+const toUploadedFile = (fileName: string, bytes: Uint8Array): FatturaPaUploadedFile => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "xml") return { fileName, bytes };
+  if (extension === "p7m") {
+    return { fileName, error: "Signed .p7m files are not supported, upload the XML file" };
+  }
+  return { fileName, error: "Only XML files and zip archives can be imported" };
+};
+
+/**
+ * Expand uploads into single XML files
+ * Zip archives are unpacked one level deep, skipping folders and macOS metadata,
+ * and rejected when they hold too many entries or too much uncompressed data
+ */
+export const expandFatturaPaUploads = (
+  uploads: { fileName: string; bytes: Uint8Array }[]
+): FatturaPaUploadedFile[] =>
+  uploads.flatMap(({ fileName, bytes }): FatturaPaUploadedFile[] => {
+    if (!fileName.toLowerCase().endsWith(".zip")) {
+      return [toUploadedFile(fileName, bytes)];
+    }
+
+    try {
+      let entryCount = 0;
+      let totalSize = 0;
+      const entries = unzipSync(bytes, {
+        filter: (entry) => {
+          entryCount += 1;
+          totalSize += entry.originalSize;
+          return (
+            entryCount <= MAX_ARCHIVE_ENTRIES &&
+            totalSize <= MAX_ARCHIVE_SIZE &&
+            !entry.name.endsWith("/") &&
+            !entry.name.startsWith("__MACOSX/")
+          );
+        },
+      });
+      if (entryCount > MAX_ARCHIVE_ENTRIES || totalSize > MAX_ARCHIVE_SIZE) {
+        return [{ fileName, error: "Zip archive is too large to be imported" }];
+      }
+      return Object.entries(entries).map(([name, content]) =>
+        toUploadedFile(`${fileName}/${name.split("/").pop()}`, content)
+      );
+    } catch {
+      return [{ fileName, error: "Zip archive cannot be read" }];
+    }
+  });
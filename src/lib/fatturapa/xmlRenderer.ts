@@ -0,0 +1,296 @@
+import {
+  FatturaPaDocument,
+  FatturaPaIdFiscale,
+  FatturaPaPensionFund,
+  FatturaPaSubject,
+} from "@/utils/fatturaPaCalculations";
+
+/**
+ * FatturaPA XML Renderer
+ *
+ * Serializes a FatturaPA document following the element order of the
+ * official 1.2 schema. Only the root element is namespace-qualified,
+ * as the schema declares unqualified local elements.
+ */
+
+const FATTURAPA_NAMESPACE =
+  "http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2";
+
+interface XmlElement {
+  name: string;
+  content: string | XmlElement[];
+}
+
+const element = (name: string, content: string | XmlElement[]): XmlElement => ({
+  name,
+  content,
+});
+
+/**
+ * Element for an optional value, omitted when the value is missing
+ */
+const optionalElement = (
+  name: string,
+  value: string | undefined
+): XmlElement[] => (value === undefined ? [] : [element(name, value)]);
+
+/**
+ * Escape text for XML content and attribute values
+ */
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * Amounts and rates use a dot and two decimals
+ */
+const formatAmount = (value: number): string => value.toFixed(2);
+
+/**
+ * Dates use the ISO 8601 calendar date of the local day
+ */
+const formatDate = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const toXml = (node: XmlElement, depth: number): string => {
+  const indent = "  ".repeat(depth);
+  if (typeof node.content === "string") {
+    return `${indent}<${node.name}>${escapeXml(node.content)}</${node.name}>`;
+  }
+  return [
+    `${indent}<${node.name}>`,
+    ...node.content.map((child) => toXml(child, depth + 1)),
+    `${indent}</${node.name}>`,
+  ].join("\n");
+};
+
+const idFiscaleElement = (
+  name: string,
+  id: FatturaPaIdFiscale
+): XmlElement =>
+  element(name, [
+    element("IdPaese", id.idPaese),
+    element("IdCodice", id.idCodice),
+  ]);
+
+const anagraficaElement = (
+  anagrafica: FatturaPaSubject["anagrafica"]
+): XmlElement =>
+  element(
+    "Anagrafica",
+    "denominazione" in anagrafica
+      ? [element("Denominazione", anagrafica.denominazione)]
+      : [
+          element("Nome", anagrafica.nome),
+          element("Cognome", anagrafica.cognome),
+        ]
+  );
+
+const sedeElement = (sede: FatturaPaSubject["sede"]): XmlElement =>
+  element("Sede", [
+    element("Indirizzo", sede.indirizzo),
+    element("CAP", sede.cap),
+    element("Comune", sede.comune),
+    ...optionalElement("Provincia", sede.provincia),
+    element("Nazione", sede.nazione),
+  ]);
+
+/**
+ * Identifiers and anagrafica shared by issuer and client
+ */
+const subjectIdentityElements = (subject: FatturaPaSubject): XmlElement[] => [
+  ...(subject.idFiscaleIva
+    ? [idFiscaleElement("IdFiscaleIVA", subject.idFiscaleIva)]
+    : []),
+  ...optionalElement("CodiceFiscale", subject.codiceFiscale),
+  anagraficaElement(subject.anagrafica),
+];
+
+const headerElement = (document: FatturaPaDocument): XmlElement => {
+  const { datiTrasmissione, cedentePrestatore, cessionarioCommittente } =
+    document;
+
+  return element("FatturaElettronicaHeader", [
+    element("DatiTrasmissione", [
+      idFiscaleElement("IdTrasmittente", datiTrasmissione.idTrasmittente),
+      element("ProgressivoInvio", datiTrasmissione.progressivoInvio),
+      element("FormatoTrasmissione", datiTrasmissione.formatoTrasmissione),
+      element("CodiceDestinatario", datiTrasmissione.codiceDestinatario),
+      ...optionalElement("PECDestinatario", datiTrasmissione.pecDestinatario),
+    ]),
+    element("CedentePrestatore", [
+      element("DatiAnagrafici", [
+        ...subjectIdentityElements(cedentePrestatore),
+        element("RegimeFiscale", cedentePrestatore.regimeFiscale),
+      ]),
+      sedeElement(cedentePrestatore.sede),
+    ]),
+    element("CessionarioCommittente", [
+      element("DatiAnagrafici", subjectIdentityElements(cessionarioCommittente)),
+      sedeElement(cessionarioCommittente.sede),
+    ]),
+  ]);
+};
+
+/**
+ * Pension contribution charged on the document
+ */
+const pensionFundElement = (cassa: FatturaPaPensionFund): XmlElement =>
+  element("DatiCassaPrevidenziale", [
+    element("TipoCassa", cassa.tipoCassa),
+    element("AlCassa", formatAmount(cassa.alCassa)),
+    element(
+      "ImportoContributoCassa",
+      formatAmount(cassa.importoContributoCassa)
+    ),
+    element("ImponibileCassa", formatAmount(cassa.imponibileCassa)),
+    element("AliquotaIVA", formatAmount(cassa.aliquotaIva)),
+    ...optionalElement("Ritenuta", cassa.ritenuta),
+    ...optionalElement("Natura", cassa.natura),
+  ]);
+
+const bodyElement = (document: FatturaPaDocument): XmlElement => {
+  const { datiGeneraliDocumento, datiFattureCollegate, datiPagamento } =
+    document;
+
+  return element("FatturaElettronicaBody", [
+    element("DatiGenerali", [
+      element("DatiGeneraliDocumento", [
+        element("TipoDocumento", datiGeneraliDocumento.tipoDocumento),
+        element("Divisa", datiGeneraliDocumento.divisa),
+        element("Data", formatDate(datiGeneraliDocumento.data)),
+        element("Numero", datiGeneraliDocumento.numero),
+        ...(datiGeneraliDocumento.datiRitenuta
+          ? [
+              element("DatiRitenuta", [
+                element(
+                  "TipoRitenuta",
+                  datiGeneraliDocumento.datiRitenuta.tipoRitenuta
+                ),
+                element(
+                  "ImportoRitenuta",
+                  formatAmount(
+                    datiGeneraliDocumento.datiRitenuta.importoRitenuta
+                  )
+                ),
+                element(
+                  "AliquotaRitenuta",
+                  formatAmount(
+                    datiGeneraliDocumento.datiRitenuta.aliquotaRitenuta
+                  )
+                ),
+                element(
+                  "CausalePagamento",
+                  datiGeneraliDocumento.datiRitenuta.causalePagamento
+                ),
+              ]),
+            ]
+          : []),
+        ...(datiGeneraliDocumento.datiBollo
+          ? [
+              element("DatiBollo", [
+                element("BolloVirtuale", "SI"),
+                element(
+                  "ImportoBollo",
+                  formatAmount(datiGeneraliDocumento.datiBollo.importoBollo)
+                ),
+              ]),
+            ]
+          : []),
+        ...(datiGeneraliDocumento.datiCassaPrevidenziale
+          ? [pensionFundElement(datiGeneraliDocumento.datiCassaPrevidenziale)]
+          : []),
+        element(
+          "ImportoTotaleDocumento",
+          formatAmount(datiGeneraliDocumento.importoTotaleDocumento)
+        ),
+      ]),
+      ...(datiFattureCollegate
+        ? [
+            element("DatiFattureCollegate", [
+              element("IdDocumento", datiFattureCollegate.idDocumento),
+              element("Data", formatDate(datiFattureCollegate.data)),
+            ]),
+          ]
+        : []),
+    ]),
+    element("DatiBeniServizi", [
+      ...document.dettaglioLinee.map((line) =>
+        element("DettaglioLinee", [
+          element("NumeroLinea", String(line.numeroLinea)),
+          element("Descrizione", line.descrizione),
+          ...optionalElement(
+            "Quantita",
+            line.quantita === undefined ? undefined : formatAmount(line.quantita)
+          ),
+          ...optionalElement("UnitaMisura", line.unitaMisura),
+          element("PrezzoUnitario", formatAmount(line.prezzoUnitario)),
+          element("PrezzoTotale", formatAmount(line.prezzoTotale)),
+          element("AliquotaIVA", formatAmount(line.aliquotaIva)),
+          ...optionalElement("Ritenuta", line.ritenuta),
+          ...optionalElement("Natura", line.natura),
+        ])
+      ),
+      ...document.datiRiepilogo.map((summary) =>
+        element("DatiRiepilogo", [
+          element("AliquotaIVA", formatAmount(summary.aliquotaIva)),
+          ...optionalElement("Natura", summary.natura),
+          element("ImponibileImporto", formatAmount(summary.imponibileImporto)),
+          element("Imposta", formatAmount(summary.imposta)),
+          ...optionalElement("EsigibilitaIVA", summary.esigibilitaIva),
+          ...optionalElement(
+            "RiferimentoNormativo",
+            summary.riferimentoNormativo
+          ),
+        ])
+      ),
+    ]),
+    ...(datiPagamento
+      ? [
+          element("DatiPagamento", [
+            element("CondizioniPagamento", datiPagamento.condizioniPagamento),
+            element("DettaglioPagamento", [
+              element(
+                "ModalitaPagamento",
+                datiPagamento.dettaglioPagamento.modalitaPagamento
+              ),
+              element(
+                "DataScadenzaPagamento",
+                formatDate(datiPagamento.dettaglioPagamento.dataScadenzaPagamento)
+              ),
+              element(
+                "ImportoPagamento",
+                formatAmount(datiPagamento.dettaglioPagamento.importoPagamento)
+              ),
+              ...optionalElement("IBAN", datiPagamento.dettaglioPagamento.iban),
+            ]),
+          ]),
+        ]
+      : []),
+  ]);
+};
+
+/**
+ * Render a FatturaPA document as UTF-8 XML
+ */
+export const renderFatturaPaXml = (document: FatturaPaDocument): Buffer => {
+  const versione = document.datiTrasmissione.formatoTrasmissione;
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<p:FatturaElettronica versione="${versione}" xmlns:p="${FATTURAPA_NAMESPACE}">`,
+    toXml(headerElement(document), 1),
+    toXml(bodyElement(document), 1),
+    "</p:FatturaElettronica>",
+    "",
+  ].join("\n");
+
+  return Buffer.from(xml, "utf-8");
+};
@@ -0,0 +1,64 @@
+import { setupSuperAdmin } from "@/lib/init/setupSuperAdmin";
+import { setupIrpefRates } from "@/lib/init/setupIrpefRates";
+import { setupInpsParameters } from "@/lib/init/setupInpsParameters";
+import { setupCostCategories } from "@/lib/init/setupCostCategories";
+import { setupInvoiceClientLinks } from "@/lib/init/setupInvoiceClientLinks";
+import { setupInvoiceBollo } from "@/lib/init/setupInvoiceBollo";
+import { setupInvoiceNumbering } from "@/lib/init/setupInvoiceNumbering";
+import { setupInvoiceLineItems } from "@/lib/init/setupInvoiceLineItems";
+import { setupInvoiceStatus } from "@/lib/init/setupInvoiceStatus";
+import { setupSubstituteRate } from "@/lib/init/setupSubstituteRate";
+
+/**
+ * Initialize Server
+ *
+ * Handles the initialization tasks that need to run when the server
+ * starts, before it serves requests. This includes:
+ * - Super admin user setup
+ * - Default IRPEF rate tables seeding
+ * - Default INPS parameters seeding
+ * - Default cost categories seeding
+ * - Database migrations (invoice links to the client registry, stamp duty,
+ *   invoice numbering, invoice lines, invoice status, substitute rate)
+ *
+ * Seeding and migrations always run, since the application relies on them
+ * and every step is safe to rerun. The super admin is only set up in
+ * production or when explicitly enabled.
+ * Called from the instrumentation hook of the application.
+ */
+export async function initializeServer(): Promise<void> {
+  const shouldSetupSuperAdmin =
+    process.env.NODE_ENV === "production" || process.env.ENABLE_INIT === "true";
+
+  if (shouldSetupSuperAdmin) {
+    // Initialize super admin
+    await setupSuperAdmin();
+  }
+
+  // Seed default IRPEF rate tables
+  await setupIrpefRates();
+
+  // Seed default INPS parameters
+  await setupInpsParameters();
+
+  // Seed default cost categories
+  await setupCostCategories();
+
+  // Link invoices to registry clients by name
+  await setupInvoiceClientLinks();
+
+  // Record the stamp duty on invoices issued without VAT
+  await setupInvoiceBollo();
+
+  // Let invoice numbers repeat across years
+  await setupInvoiceNumbering();
+
+  // Move single-amount invoices to one line
+  await setupInvoiceLineItems();
+
+  // Give existing invoices their lifecycle status
+  await setupInvoiceStatus();
+
+  // Move settings off the 25% substitute rate
+  await setupSubstituteRate();
+}
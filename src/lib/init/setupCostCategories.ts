@@ -0,0 +1,18 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { seedCostCategories } from "@/utils/costCategoryQueries";
+
+/**
+ * Setup Cost Categories
+ *
+ * Seeds the default fiscal cost categories (software, hardware, training,
+ * travel, utilities, professional services) shared by all users.
+ * This should be called during application startup.
+ */
+export async function setupCostCategories(): Promise<void> {
+  try {
+    await connectDB();
+    await seedCostCategories();
+  } catch (error) {
+    console.error("❌ Cost categories initialization failed:", error);
+  }
+}
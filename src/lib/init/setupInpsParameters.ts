@@ -0,0 +1,32 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { seedInpsParameters } from "@/utils/inpsParametersQueries";
+
+/**
+ * First year seeded with the default INPS parameters
+ */
+const FIRST_SEEDED_YEAR = 2022;
+
+/**
+ * Setup INPS Parameters
+ *
+ * Seeds the default Gestione Separata parameters from 2022 to the current year.
+ * This should be called during application startup.
+ *
+ * Years already present in the database are never overwritten,
+ * so changes made by super admins are preserved.
+ */
+export async function setupInpsParameters(): Promise<void> {
+  try {
+    await connectDB();
+
+    const currentYear = new Date().getFullYear();
+    const years = Array.from(
+      { length: currentYear - FIRST_SEEDED_YEAR + 1 },
+      (_, i) => FIRST_SEEDED_YEAR + i
+    );
+
+    await seedInpsParameters(years);
+  } catch (error) {
+    console.error("❌ INPS parameters initialization failed:", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { applyBolloToInvoices } from "@/utils/invoiceQueries";
+
+/**
+ * Setup Invoice Bollo
+ *
+ * Migrates invoices issued without VAT above the stamp duty threshold
+ * before the duty was tracked, so they count in the quarterly payments.
+ * Invoices already carrying the duty are left untouched, so it is safe to rerun.
+ * This should be called during application startup.
+ */
+export async function setupInvoiceBollo(): Promise<void> {
+  try {
+    await connectDB();
+    await applyBolloToInvoices();
+  } catch (error) {
+    console.error("❌ Invoice bollo migration failed:", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { linkInvoicesToClients } from "@/utils/clientQueries";
+
+/**
+ * Setup Invoice Client Links
+ *
+ * Migrates invoices recorded with a free-text client name to the client
+ * registry, linking them to the client with the same normalised name.
+ * Invoices already linked are left untouched, so it is safe to rerun.
+ * This should be called during application startup.
+ */
+export async function setupInvoiceClientLinks(): Promise<void> {
+  try {
+    await connectDB();
+    await linkInvoicesToClients();
+  } catch (error) {
+    console.error("❌ Invoice client links migration failed:", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { applyLineItemsToInvoices } from "@/utils/invoiceQueries";
+
+/**
+ * Setup Invoice Line Items
+ *
+ * Migrates invoices saved with a single title and amount to the
+ * line form, as one line carrying their title, amount and VAT.
+ * Invoices that already have lines are left untouched, so it is safe to rerun.
+ * This should be called during application startup.
+ */
+export async function setupInvoiceLineItems(): Promise<void> {
+  try {
+    await connectDB();
+    await applyLineItemsToInvoices();
+  } catch (error) {
+    console.error("❌ Invoice line items migration failed:", error);
+  }
+}
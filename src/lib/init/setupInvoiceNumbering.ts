@@ -0,0 +1,20 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { dropLegacyInvoiceNumberIndex } from "@/utils/invoiceQueries";
+
+/**
+ * Setup Invoice Numbering
+ *
+ * Drops the index that kept invoice numbers unique across all years,
+ * since numbering sequences restart every year and numbers are now
+ * unique within a fiscal year. Does nothing once the index is gone,
+ * so it is safe to rerun.
+ * This should be called during application startup.
+ */
+export async function setupInvoiceNumbering(): Promise<void> {
+  try {
+    await connectDB();
+    await dropLegacyInvoiceNumberIndex();
+  } catch (error) {
+    console.error("❌ Invoice numbering migration failed:", error);
+  }
+}
@@ -0,0 +1,25 @@
+import { connectDB } from "@/lib/database/mongodb";
+import {
+  applyStatusToInvoices,
+  replaceInvoiceNumberIndex,
+} from "@/utils/invoiceQueries";
+
+/**
+ * Setup Invoice Status
+ *
+ * Gives invoices saved before the lifecycle their status, paid when
+ * collected and issued otherwise, and lets drafts without a number share
+ * the unique index on invoice numbers. Invoices that already have a status
+ * and an index that already leaves drafts out are untouched, so it is safe
+ * to rerun.
+ * This should be called during application startup.
+ */
+export async function setupInvoiceStatus(): Promise<void> {
+  try {
+    await connectDB();
+    await replaceInvoiceNumberIndex();
+    await applyStatusToInvoices();
+  } catch (error) {
+    console.error("❌ Invoice status migration failed:", error);
+  }
+}
@@ -0,0 +1,32 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { seedIrpefRates } from "@/utils/irpefRateQueries";
+
+/**
+ * First year seeded with the default IRPEF rate tables
+ */
+const FIRST_SEEDED_YEAR = 2022;
+
+/**
+ * Setup IRPEF Rates
+ *
+ * Seeds the default IRPEF rate tables from 2022 to the current year.
+ * This should be called during application startup.
+ *
+ * Years already present in the database are never overwritten,
+ * so changes made by super admins are preserved.
+ */
+export async function setupIrpefRates(): Promise<void> {
+  try {
+    await connectDB();
+
+    const currentYear = new Date().getFullYear();
+    const years = Array.from(
+      { length: currentYear - FIRST_SEEDED_YEAR + 1 },
+      (_, i) => FIRST_SEEDED_YEAR + i
+    );
+
+    await seedIrpefRates(years);
+  } catch (error) {
+    console.error("❌ IRPEF rates initialization failed:", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { connectDB } from "@/lib/database/mongodb";
+import { migrateLegacySubstituteRate } from "@/utils/userSettingsQueries";
+
+/**
+ * Setup Substitute Rate
+ *
+ * Moves settings saved with the 25% substitute rate to the ordinary 15%
+ * rate. Settings already on a valid rate are untouched, so it is safe to
+ * rerun.
+ * This should be called during application startup.
+ */
+export async function setupSubstituteRate(): Promise<void> {
+  try {
+    await connectDB();
+    await migrateLegacySubstituteRate();
+  } catch (error) {
+    console.error("❌ Substitute rate migration failed:", error);
+  }
+}
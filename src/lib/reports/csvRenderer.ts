@@ -0,0 +1,79 @@
+import { ReportCell, ReportDocument } from "@/types";
+import {
+  formatReportDate,
+  formatReportMetric,
+} from "@/utils/reportCalculations";
+
+/**
+ * CSV Report Renderer
+ *
+ * Serializes a report document as semicolon-separated values
+ * (the separator expected by Excel with Italian locale).
+ * Each block starts with a "# title" line and is followed by a blank line.
+ */
+
+const SEPARATOR = ";";
+
+/**
+ * Escape a cell value for CSV output
+ */
+const escapeCell = (cell: ReportCell): string => {
+  const value = String(cell);
+  return /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const toLine = (cells: ReportCell[]): string =>
+  cells.map(escapeCell).join(SEPARATOR);
+
+/**
+ * Render a report document as CSV
+ * Prefixed with a UTF-8 BOM so spreadsheet tools detect the encoding
+ */
+export const renderCsvReport = (document: ReportDocument): Buffer => {
+  const lines: string[] = [
+    toLine([`# ${document.title}`]),
+    toLine(["Periodo", document.periodLabel]),
+    toLine(["Generato il", formatReportDate(document.generatedAt)]),
+    "",
+  ];
+
+  document.sections.forEach((section) => {
+    lines.push(toLine([`# ${section.title}`]));
+    section.metrics.forEach((metric) =>
+      lines.push(toLine([metric.label, metric.value]))
+    );
+    lines.push("");
+
+    section.charts.forEach((chart) => {
+      lines.push(toLine([`# ${chart.title}`]));
+      lines.push(toLine(["", ...chart.series.map((s) => s.name)]));
+      chart.labels.forEach((label, index) =>
+        lines.push(toLine([label, ...chart.series.map((s) => s.values[index])]))
+      );
+      lines.push("");
+    });
+
+    section.tables.forEach((table) => {
+      lines.push(toLine([`# ${table.title}`]));
+      lines.push(toLine(table.columns));
+      table.rows.forEach((row) => lines.push(toLine(row)));
+      lines.push("");
+    });
+  });
+
+  if (document.analytics.length > 0) {
+    lines.push(toLine(["# Analytics"]));
+    document.analytics.forEach((metric) =>
+      lines.push(toLine([metric.label, formatReportMetric(metric)]))
+    );
+    lines.push("");
+  }
+
+  if (document.insights.length > 0) {
+    lines.push(toLine(["# Insights"]));
+    document.insights.forEach((insight) => lines.push(toLine([insight])));
+    lines.push("");
+  }
+
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}`, "utf-8");
+};
@@ -0,0 +1,45 @@
+import { ReportDocument, ReportFormat } from "@/types";
+import { renderCsvReport } from "./csvRenderer";
+import { renderPdfReport } from "./pdfRenderer";
+import { renderXlsxReport } from "./xlsxRenderer";
+
+/**
+ * Report Renderers
+ * Maps each report format to its renderer, MIME type and file extension
+ */
+const REPORT_RENDERERS: Record<
+  ReportFormat,
+  {
+    render: (document: ReportDocument) => Buffer;
+    mimeType: string;
+    extension: string;
+  }
+> = {
+  pdf: {
+    render: renderPdfReport,
+    mimeType: "application/pdf",
+    extension: "pdf",
+  },
+  excel: {
+    render: renderXlsxReport,
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  csv: {
+    render: renderCsvReport,
+    mimeType: "text/csv; charset=utf-8",
+    extension: "csv",
+  },
+};
+
+/**
+ * Render a report document in the requested format
+ */
+export const renderReport = (
+  document: ReportDocument,
+  format: ReportFormat
+): { content: Buffer; mimeType: string; extension: string } => {
+  const { render, mimeType, extension } = REPORT_RENDERERS[format];
+  return { content: render(document), mimeType, extension };
+};
@@ -0,0 +1,278 @@
+import { jsPDF } from "jspdf";
+import {
+  ReportCell,
+  ReportChart,
+  ReportDocument,
+  ReportMetric,
+  ReportTable,
+} from "@/types";
+import {
+  formatReportDate,
+  formatReportMetric,
+} from "@/utils/reportCalculations";
+
+/**
+ * PDF Report Renderer
+ *
+ * Lays out a report document on A4 pages with jsPDF:
+ * metrics as label/value pairs, charts as bar charts drawn
+ * with vector shapes and raw data as paginated tables.
+ */
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 6;
+const CHART_HEIGHT = 55;
+const SERIES_COLORS: [number, number, number][] = [
+  [37, 99, 235],
+  [220, 38, 38],
+  [22, 163, 74],
+];
+
+/**
+ * Keep track of the vertical cursor and break pages when needed
+ */
+class PdfCursor {
+  y = MARGIN;
+
+  constructor(private readonly pdf: jsPDF) {}
+
+  ensureSpace(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.pdf.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  advance(height: number): void {
+    this.y += height;
+  }
+}
+
+const formatCell = (cell: ReportCell): string =>
+  typeof cell === "number"
+    ? cell.toLocaleString("it-IT", { maximumFractionDigits: 2 })
+    : cell;
+
+/**
+ * Truncate text to fit a width, adding an ellipsis when cut
+ */
+const fitText = (pdf: jsPDF, text: string, width: number): string => {
+  if (pdf.getTextWidth(text) <= width) return text;
+  let truncated = text;
+  while (truncated.length > 1 && pdf.getTextWidth(`${truncated}…`) > width) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}…`;
+};
+
+const drawHeading = (
+  pdf: jsPDF,
+  cursor: PdfCursor,
+  text: string,
+  size: number
+): void => {
+  cursor.ensureSpace(size / 2 + LINE_HEIGHT);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(size);
+  pdf.text(text, MARGIN, cursor.y + size / 3);
+  cursor.advance(size / 2 + 2);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+};
+
+const drawMetrics = (
+  pdf: jsPDF,
+  cursor: PdfCursor,
+  metrics: ReportMetric[]
+): void => {
+  const columnWidth = CONTENT_WIDTH / 2;
+  metrics.forEach((metric, index) => {
+    const column = index % 2;
+    if (column === 0) cursor.ensureSpace(LINE_HEIGHT);
+    const x = MARGIN + column * columnWidth;
+    pdf.setFont("helvetica", "normal");
+    pdf.text(`${metric.label}:`, x, cursor.y + 4);
+    pdf.setFont("helvetica", "bold");
+    pdf.text(formatReportMetric(metric), x + columnWidth - 5, cursor.y + 4, {
+      align: "right",
+    });
+    if (column === 1 || index === metrics.length - 1) {
+      cursor.advance(LINE_HEIGHT);
+    }
+  });
+  pdf.setFont("helvetica", "normal");
+  cursor.advance(2);
+};
+
+const drawChart = (pdf: jsPDF, cursor: PdfCursor, chart: ReportChart): void => {
+  cursor.ensureSpace(CHART_HEIGHT + 20);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(chart.title, MARGIN, cursor.y + 4);
+  pdf.setFont("helvetica", "normal");
+  cursor.advance(8);
+
+  const top = cursor.y;
+  const baseline = top + CHART_HEIGHT;
+  const allValues = chart.series.flatMap((s) => s.values);
+  const max = Math.max(0, ...allValues);
+  const min = Math.min(0, ...allValues);
+  const span = max - min || 1;
+  const zeroY = baseline - ((0 - min) / span) * CHART_HEIGHT;
+
+  // Axis
+  pdf.setDrawColor(156, 163, 175);
+  pdf.line(MARGIN, zeroY, MARGIN + CONTENT_WIDTH, zeroY);
+
+  const groupWidth = CONTENT_WIDTH / Math.max(1, chart.labels.length);
+  const barWidth = (groupWidth * 0.8) / Math.max(1, chart.series.length);
+
+  chart.labels.forEach((label, labelIndex) => {
+    chart.series.forEach((series, seriesIndex) => {
+      const value = series.values[labelIndex] ?? 0;
+      const height = (Math.abs(value) / span) * CHART_HEIGHT;
+      const x = MARGIN + labelIndex * groupWidth + groupWidth * 0.1 + seriesIndex * barWidth;
+      const [r, g, b] = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+      pdf.setFillColor(r, g, b);
+      if (height > 0) {
+        pdf.rect(x, value >= 0 ? zeroY - height : zeroY, barWidth, height, "F");
+      }
+    });
+
+    pdf.setFontSize(7);
+    pdf.text(
+      fitText(pdf, label, groupWidth - 1),
+      MARGIN + labelIndex * groupWidth + groupWidth / 2,
+      baseline + 4,
+      { align: "center" }
+    );
+    pdf.setFontSize(10);
+  });
+
+  // Legend
+  let legendX = MARGIN;
+  const legendY = baseline + 9;
+  chart.series.forEach((series, seriesIndex) => {
+    const [r, g, b] = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+    pdf.setFillColor(r, g, b);
+    pdf.rect(legendX, legendY - 3, 3, 3, "F");
+    pdf.setFontSize(8);
+    pdf.text(series.name, legendX + 5, legendY);
+    legendX += pdf.getTextWidth(series.name) + 12;
+    pdf.setFontSize(10);
+  });
+
+  cursor.advance(CHART_HEIGHT + 14);
+};
+
+const drawTable = (pdf: jsPDF, cursor: PdfCursor, table: ReportTable): void => {
+  cursor.ensureSpace(LINE_HEIGHT * 3);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(table.title, MARGIN, cursor.y + 4);
+  cursor.advance(LINE_HEIGHT + 1);
+
+  const columnWidth = CONTENT_WIDTH / Math.max(1, table.columns.length);
+  pdf.setFontSize(8);
+
+  const drawHeader = () => {
+    pdf.setFillColor(243, 244, 246);
+    pdf.rect(MARGIN, cursor.y, CONTENT_WIDTH, LINE_HEIGHT, "F");
+    pdf.setFont("helvetica", "bold");
+    table.columns.forEach((column, index) => {
+      pdf.text(
+        fitText(pdf, column, columnWidth - 2),
+        MARGIN + index * columnWidth + 1,
+        cursor.y + 4
+      );
+    });
+    pdf.setFont("helvetica", "normal");
+    cursor.advance(LINE_HEIGHT);
+  };
+
+  drawHeader();
+
+  if (table.rows.length === 0) {
+    pdf.text("Nessun dato nel periodo", MARGIN + 1, cursor.y + 4);
+    cursor.advance(LINE_HEIGHT);
+  }
+
+  table.rows.forEach((row) => {
+    if (cursor.y + LINE_HEIGHT > PAGE_HEIGHT - MARGIN) {
+      cursor.ensureSpace(PAGE_HEIGHT);
+      drawHeader();
+    }
+    row.forEach((cell, index) => {
+      const text = fitText(pdf, formatCell(cell), columnWidth - 2);
+      if (typeof cell === "number") {
+        pdf.text(text, MARGIN + (index + 1) * columnWidth - 1, cursor.y + 4, {
+          align: "right",
+        });
+      } else {
+        pdf.text(text, MARGIN + index * columnWidth + 1, cursor.y + 4);
+      }
+    });
+    cursor.advance(LINE_HEIGHT);
+  });
+
+  pdf.setFontSize(10);
+  cursor.advance(4);
+};
+
+const drawParagraphs = (
+  pdf: jsPDF,
+  cursor: PdfCursor,
+  paragraphs: string[]
+): void => {
+  paragraphs.forEach((paragraph) => {
+    const lines: string[] = pdf.splitTextToSize(`• ${paragraph}`, CONTENT_WIDTH);
+    lines.forEach((line) => {
+      cursor.ensureSpace(LINE_HEIGHT);
+      pdf.text(line, MARGIN, cursor.y + 4);
+      cursor.advance(LINE_HEIGHT - 1);
+    });
+    cursor.advance(1);
+  });
+};
+
+/**
+ * Render a report document as a PDF file
+ */
+export const renderPdfReport = (document: ReportDocument): Buffer => {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const cursor = new PdfCursor(pdf);
+
+  drawHeading(pdf, cursor, document.title, 18);
+  pdf.text(`Periodo: ${document.periodLabel}`, MARGIN, cursor.y + 4);
+  cursor.advance(LINE_HEIGHT);
+  pdf.setTextColor(107, 114, 128);
+  pdf.text(
+    `Generato il ${formatReportDate(document.generatedAt)}`,
+    MARGIN,
+    cursor.y + 4
+  );
+  pdf.setTextColor(0, 0, 0);
+  cursor.advance(LINE_HEIGHT * 2);
+
+  document.sections.forEach((section) => {
+    drawHeading(pdf, cursor, section.title, 14);
+    drawMetrics(pdf, cursor, section.metrics);
+    section.charts.forEach((chart) => drawChart(pdf, cursor, chart));
+    section.tables.forEach((table) => drawTable(pdf, cursor, table));
+    cursor.advance(4);
+  });
+
+  if (document.analytics.length > 0) {
+    drawHeading(pdf, cursor, "Analytics", 14);
+    drawMetrics(pdf, cursor, document.analytics);
+    cursor.advance(4);
+  }
+
+  if (document.insights.length > 0) {
+    drawHeading(pdf, cursor, "Insights", 14);
+    drawParagraphs(pdf, cursor, document.insights);
+  }
+
+  return Buffer.from(pdf.output("arraybuffer"));
+};
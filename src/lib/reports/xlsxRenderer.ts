@@ -0,0 +1,192 @@
+import { zipSync, strToU8 } from "fflate";
+import { ReportCell, ReportDocument } from "@/types";
+import {
+  formatReportDate,
+  formatReportMetric,
+} from "@/utils/reportCalculations";
+
+/**
+ * XLSX Report Renderer
+ *
+ * Writes a minimal Office Open XML workbook: a summary sheet plus one sheet
+ * per report section, with numbers stored as numeric cells so they
+ * stay editable and analyzable in Excel.
+ */
+
+interface Sheet {
+  name: string;
+  rows: ReportCell[][];
+}
+
+/**
+ * Escape text for XML content
+ */
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Convert a zero-based column index to a column letter (0 -> A, 26 -> AA)
+ */
+const columnLetter = (index: number): string => {
+  let letter = "";
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+/**
+ * Sheet names are limited to 31 characters and cannot contain []:*?/\
+ */
+const sanitizeSheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, " ").slice(0, 28).trim() || "Foglio";
+  let candidate = base;
+  let counter = 2;
+  while (used.has(candidate.toLowerCase())) {
+    candidate = `${base} ${counter++}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const renderCell = (cell: ReportCell, ref: string): string =>
+  typeof cell === "number" && Number.isFinite(cell)
+    ? `<c r="${ref}"><v>${cell}</v></c>`
+    : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+        String(cell)
+      )}</t></is></c>`;
+
+const renderSheet = (sheet: Sheet): string => {
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, colIndex) =>
+          renderCell(cell, `${columnLetter(colIndex)}${rowIndex + 1}`)
+        )
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+/**
+ * Lay out the report document as worksheets
+ */
+const buildSheets = (document: ReportDocument): Sheet[] => {
+  const summary: ReportCell[][] = [
+    [document.title],
+    ["Periodo", document.periodLabel],
+    ["Generato il", formatReportDate(document.generatedAt)],
+    [],
+  ];
+
+  document.sections.forEach((section) => {
+    summary.push([section.title]);
+    section.metrics.forEach((metric) =>
+      summary.push([metric.label, metric.value])
+    );
+    summary.push([]);
+  });
+
+  if (document.analytics.length > 0) {
+    summary.push(["Analytics"]);
+    document.analytics.forEach((metric) =>
+      summary.push([metric.label, formatReportMetric(metric)])
+    );
+    summary.push([]);
+  }
+
+  if (document.insights.length > 0) {
+    summary.push(["Insights"]);
+    document.insights.forEach((insight) => summary.push([insight]));
+  }
+
+  const sheets: Sheet[] = [{ name: "Riepilogo", rows: summary }];
+
+  document.sections.forEach((section) => {
+    const rows: ReportCell[][] = [];
+
+    section.charts.forEach((chart) => {
+      rows.push([chart.title]);
+      rows.push(["", ...chart.series.map((s) => s.name)]);
+      chart.labels.forEach((label, index) =>
+        rows.push([label, ...chart.series.map((s) => s.values[index])])
+      );
+      rows.push([]);
+    });
+
+    section.tables.forEach((table) => {
+      rows.push([table.title]);
+      rows.push(table.columns);
+      table.rows.forEach((row) => rows.push(row));
+      rows.push([]);
+    });
+
+    if (rows.length > 0) {
+      sheets.push({ name: section.title, rows });
+    }
+  });
+
+  return sheets;
+};
+
+/**
+ * Render a report document as an XLSX workbook
+ */
+export const renderXlsxReport = (document: ReportDocument): Buffer => {
+  const usedNames = new Set<string>();
+  const sheets = buildSheets(document).map((sheet) => ({
+    ...sheet,
+    name: sanitizeSheetName(sheet.name, usedNames),
+  }));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("")}</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets
+    .map(
+      (sheet, index) =>
+        `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join("")}</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join("")}</Relationships>`;
+
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8(contentTypes),
+    "_rels/.rels": strToU8(rootRels),
+    "xl/workbook.xml": strToU8(workbook),
+    "xl/_rels/workbook.xml.rels": strToU8(workbookRels),
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(renderSheet(sheet));
+  });
+
+  return Buffer.from(zipSync(files));
+};
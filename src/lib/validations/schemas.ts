@@ -1,4 +1,13 @@
 import { z } from "zod";
+import { validateIrpefBrackets } from "@/utils/irpefCalculations";
+import { validateInpsParameters } from "@/utils/inpsCalculations";
+import {
+  isValidPartitaIva,
+  isValidTaxCode,
+  isValidVatNumber,
+} from "@/utils/clientCalculations";
+import { validateNumberPattern } from "@/utils/invoiceNumberingCalculations";
+import { MAX_INVOICE_ITEMS } from "@/utils/invoiceCalculations";
 
 /**
  * Validation Schemas using Zod
@@ -51,17 +60,40 @@ export const inpsRateTypeSchema = z.enum([
   "PENSIONER",
 ]);
 
+export const activityStartDateSchema = z
+  .string()
+  .datetime("Invalid activity start date")
+  .or(z.date())
+  .refine(
+    (value) => new Date(value) <= new Date(),
+    "Activity start date cannot be in the future"
+  );
+
+export const revenueAlertThresholdsSchema = z
+  .array(
+    z
+      .number()
+      .min(1, "Alert threshold must be at least 1%")
+      .max(100, "Alert threshold cannot exceed 100%")
+  )
+  .max(5, "At most 5 alert thresholds are allowed");
+
 export const userSettingsSchema = z
   .object({
     taxRegime: taxRegimeSchema,
     substituteRate: z.number().min(0).max(100).optional(),
     profitabilityRate: z.number().min(0).max(100).optional(),
+    activityStartDate: activityStartDateSchema.nullable().optional(),
     pensionSystem: pensionSystemSchema,
     professionalFundId: z.string().optional(),
     inpsRateType: inpsRateTypeSchema.optional(),
     manualContributionRate: z.number().min(0).max(100).optional(),
     manualMinimumContribution: z.number().min(0).optional(),
     manualFixedAnnualContributions: z.number().min(0).optional(),
+    regionalSurchargeRate: z.number().min(0).max(10).optional(),
+    municipalSurchargeRate: z.number().min(0).max(10).optional(),
+    isaSubject: z.boolean().optional(),
+    revenueAlertThresholds: revenueAlertThresholdsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -131,7 +163,34 @@ export const vatSchema = z
     }
   );
 
+export const invoiceLineItemSchema = z
+  .object({
+    description: z
+      .string()
+      .min(1, "Line description is required")
+      .max(1000, "Line description cannot exceed 1000 characters"),
+    quantity: z
+      .number()
+      .min(0.01, "Line quantity must be greater than 0")
+      .max(999999999, "Line quantity is too large"),
+    unitOfMeasure: z
+      .string()
+      .max(10, "Unit of measure cannot exceed 10 characters")
+      .optional(),
+    unitPrice: z
+      .number()
+      .min(0, "Unit price cannot be negative")
+      .max(999999999.99, "Unit price is too large"),
+    vat: vatSchema.optional(),
+    vatNature: z.enum(["N1", "N2.1", "N2.2", "N4"]).optional(),
+  })
+  .refine((data) => !data.vatNature || !data.vat?.vatRate, {
+    message: "VAT nature only applies to lines without VAT",
+    path: ["vatNature"],
+  });
+
 export const invoiceSchema = z.object({
+  // Left out to take the next number of the numbering sequence
   number: z
     .string()
     .min(1, "Invoice number is required")
@@ -139,7 +198,8 @@ export const invoiceSchema = z.object({
     .regex(
       /^[A-Za-z0-9\-\/]+$/,
       "Invoice number can only contain letters, numbers, hyphens, and slashes"
-    ),
+    )
+    .optional(),
   issueDate: z.string().datetime("Invalid date format").or(z.date()),
   title: z
     .string()
@@ -149,23 +209,326 @@ export const invoiceSchema = z.object({
     .string()
     .min(1, "Client name is required")
     .max(200, "Client name cannot exceed 200 characters"),
+  // Derived from the lines when they are given
   amount: z
     .number()
     .min(0.01, "Amount must be greater than 0")
-    .max(999999999.99, "Amount is too large"),
+    .max(999999999.99, "Amount is too large")
+    .optional(),
+  items: z
+    .array(invoiceLineItemSchema)
+    .min(1, "Invoices need at least one line")
+    .max(MAX_INVOICE_ITEMS, "Invoices cannot exceed 200 lines")
+    .optional(),
   paymentDate: z.string().datetime().or(z.date()).optional(),
+  paymentTerms: z
+    .enum(["immediate", "net30", "net60", "net90", "end_of_month", "custom"])
+    .optional(),
+  dueDate: z.string().datetime("Invalid date format").or(z.date()).optional(),
+  clientId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid client ID format")
+    .nullable()
+    .optional(),
   fiscalYear: z
     .number()
     .int("Fiscal year must be an integer")
     .min(2000, "Fiscal year must be 2000 or later")
     .max(2100, "Fiscal year must be 2100 or earlier"),
   vat: vatSchema.optional(),
+  bollo: z
+    .object({
+      chargedToClient: z.boolean(),
+    })
+    .optional(),
+  // Null removes the withholding tax from an invoice
+  withholding: z
+    .object({
+      rate: z
+        .number()
+        .min(0.01, "Withholding tax rate must be greater than 0")
+        .max(100, "Withholding tax rate cannot exceed 100"),
+    })
+    .nullable()
+    .optional(),
+  // The kind of contribution follows the pension system, null removes it
+  pensionCharge: z
+    .object({
+      rate: z
+        .number()
+        .min(0.01, "Pension charge rate must be greater than 0")
+        .max(100, "Pension charge rate cannot exceed 100"),
+    })
+    .nullable()
+    .optional(),
+  documentType: z.enum(["invoice", "credit_note"]).optional(),
+  originalInvoiceId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format")
+    .nullable()
+    .optional(),
+  // Recurring invoice whose draft the invoice confirms
+  recurringInvoiceId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid recurring invoice ID format")
+    .optional(),
+  // Drafts are saved without a number and issued later
+  status: z.enum(["draft", "issued"]).optional(),
 });
 
 export const updateInvoiceSchema = invoiceSchema.partial().extend({
   paymentDate: z.string().datetime().or(z.date()).or(z.null()).optional(),
 });
 
+// Invoice lifecycle schema
+export const invoiceStatusSchema = z.object({
+  status: z.enum(["draft", "issued", "sent", "partially_paid", "paid", "cancelled"], {
+    message: "Invalid invoice status",
+  }),
+  paymentDate: z.string().datetime("Invalid date format").optional(),
+});
+
+// Invoice payment schemas
+export const invoicePaymentSchema = z.object({
+  date: z.string().datetime("Invalid date format"),
+  amount: z
+    .number()
+    .min(0.01, "Payment amount must be greater than 0")
+    .max(999999999.99, "Payment amount is too large")
+    .refine(
+      (val) => Number.isFinite(val) && /^\d+(\.\d{1,2})?$/.test(val.toString()),
+      "Payment amount must have at most 2 decimal places"
+    ),
+  method: z
+    .enum(["bank_transfer", "cash", "card", "check", "other"], {
+      message: "Invalid payment method",
+    })
+    .optional(),
+  note: z
+    .string()
+    .trim()
+    .max(500, "Payment note cannot exceed 500 characters")
+    .optional(),
+});
+
+export const invoicePaymentParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
+  paymentId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payment ID format"),
+});
+
+// IRPEF schemas
+export const irpefCalculationSchema = z.object({
+  year: z
+    .number()
+    .int("Year must be an integer")
+    .min(2000, "Year must be 2000 or later")
+    .max(2100, "Year must be 2100 or earlier"),
+  taxableIncome: z
+    .number()
+    .min(0, "Taxable income cannot be negative")
+    .max(999999999.99, "Taxable income is too large"),
+  withheldTaxes: z
+    .number()
+    .min(0, "Withheld taxes cannot be negative")
+    .max(999999999.99, "Withheld taxes are too large")
+    .optional(),
+  regionalSurchargeRate: z.number().min(0).max(10).optional(),
+  municipalSurchargeRate: z.number().min(0).max(10).optional(),
+  municipalExemptionThreshold: z.number().min(0).optional(),
+});
+
+export const irpefRateBracketSchema = z.object({
+  rate: z
+    .number()
+    .min(0, "Rate cannot be negative")
+    .max(100, "Rate cannot exceed 100"),
+  lowerBound: z.number().min(0, "Lower bound cannot be negative"),
+  upperBound: z.number().positive("Upper bound must be positive").optional(),
+});
+
+export const irpefRateTableSchema = z.object({
+  brackets: z
+    .array(irpefRateBracketSchema)
+    .min(1, "At least one bracket is required")
+    .superRefine((brackets, ctx) => {
+      validateIrpefBrackets(brackets).errors.forEach((message) =>
+        ctx.addIssue({ code: "custom", message })
+      );
+    }),
+});
+
+export const irpefRateYearParamSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+// INPS parameters schemas
+export const inpsRateSchema = z.object({
+  type: inpsRateTypeSchema,
+  description: z
+    .string()
+    .min(1, "Description is required")
+    .max(200, "Description cannot exceed 200 characters")
+    .trim(),
+  rate: z
+    .number()
+    .min(0, "Rate cannot be negative")
+    .max(100, "Rate cannot exceed 100"),
+});
+
+export const inpsParametersUpdateSchema = z
+  .object({
+    rates: z.array(inpsRateSchema),
+    maxIncome: z.number().positive("Maximum income must be positive"),
+    minIncome: z.number().min(0, "Minimum income cannot be negative"),
+  })
+  .superRefine((parameters, ctx) => {
+    validateInpsParameters(parameters).errors.forEach((message) =>
+      ctx.addIssue({ code: "custom", message })
+    );
+  });
+
+export const inpsParametersCreateSchema = z
+  .object({
+    year: z
+      .number()
+      .int("Year must be an integer")
+      .min(2000, "Year must be between 2000 and 2100")
+      .max(2100, "Year must be between 2000 and 2100"),
+    rates: z.array(inpsRateSchema),
+    maxIncome: z.number().positive("Maximum income must be positive"),
+    minIncome: z.number().min(0, "Minimum income cannot be negative"),
+  })
+  .superRefine((parameters, ctx) => {
+    validateInpsParameters(parameters).errors.forEach((message) =>
+      ctx.addIssue({ code: "custom", message })
+    );
+  });
+
+export const inpsParametersYearParamSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+// Previous year contribution schemas
+export const previousYearContributionSchema = z.object({
+  year: z
+    .number()
+    .int("Year must be an integer")
+    .min(2000, "Year must be between 2000 and 2100")
+    .max(2100, "Year must be between 2000 and 2100"),
+  amount: z
+    .number()
+    .min(0, "Amount cannot be negative")
+    .max(999999.99, "Amount cannot exceed 999,999.99"),
+});
+
+export const contributionYearParamSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+// Forfettario monitor schemas
+export const forfettarioMonitorYearParamSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+// Tax payment schemas
+const taxPaymentIdSchema = z
+  .string()
+  .regex(
+    /^((tax|contributions)-(saldo|acconto-[12]|rata-[1-4])|bollo-trimestre-[1-4])$/,
+    "Invalid payment ID"
+  );
+
+export const taxPaymentSchema = z.object({
+  fiscalYear: z
+    .number()
+    .int("Fiscal year must be an integer")
+    .min(2000, "Fiscal year must be between 2000 and 2100")
+    .max(2100, "Fiscal year must be between 2000 and 2100"),
+  paymentId: taxPaymentIdSchema,
+  amount: z
+    .number()
+    .min(0, "Amount cannot be negative")
+    .max(999999.99, "Amount cannot exceed 999,999.99"),
+  paidAt: z.string().datetime("Invalid date format").or(z.date()).optional(),
+});
+
+export const taxPaymentYearParamSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+export const taxPaymentParamsSchema = taxPaymentYearParamSchema.extend({
+  paymentId: taxPaymentIdSchema,
+});
+
+// Withholding certificate schemas
+export const withholdingCertificateSchema = z
+  .object({
+    year: z
+      .number()
+      .int("Year must be an integer")
+      .min(2000, "Year must be between 2000 and 2100")
+      .max(2100, "Year must be between 2000 and 2100"),
+    clientName: z
+      .string()
+      .trim()
+      .min(1, "Client name is required")
+      .max(200, "Client name cannot exceed 200 characters"),
+    clientId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid client ID format")
+      .nullable()
+      .optional(),
+    grossAmount: z
+      .number()
+      .min(0, "Gross amount cannot be negative")
+      .max(999999999.99, "Gross amount is too large"),
+    withheldAmount: z
+      .number()
+      .min(0, "Withheld amount cannot be negative")
+      .max(999999999.99, "Withheld amount is too large"),
+  })
+  .refine((data) => data.withheldAmount <= data.grossAmount, {
+    message: "Withheld amount cannot exceed the gross amount",
+    path: ["withheldAmount"],
+  });
+
+export const withholdingYearParamSchema = taxPaymentYearParamSchema;
+
+export const withholdingCertificateParamsSchema =
+  withholdingYearParamSchema.extend({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid certificate ID format"),
+  });
+
 // Cost schemas
 export const costSchema = z.object({
   description: z
@@ -202,6 +565,7 @@ export const professionalFundParametersSchema = z.object({
   contributionRate: z.number().min(0).max(100),
   minimumContribution: z.number().min(0),
   fixedAnnualContributions: z.number().min(0).default(0),
+  integrativeContributionRate: z.number().min(0).max(100).optional(),
   year: z.number().int().min(2000).max(2100),
 });
 
@@ -225,6 +589,7 @@ export const userSettingsValidationSchema = z
     taxRegime: z.enum(["forfettario", "ordinario"]),
     substituteRate: z.number().min(0).max(100).optional(),
     profitabilityRate: z.number().min(0).max(100).optional(),
+    activityStartDate: activityStartDateSchema.nullable().optional(),
     pensionSystem: z.enum(["INPS", "PROFESSIONAL_FUND"]),
     professionalFundId: z.string().optional(),
     inpsRateType: z
@@ -238,6 +603,10 @@ export const userSettingsValidationSchema = z
     manualContributionRate: z.number().min(0).max(100).optional(),
     manualMinimumContribution: z.number().min(0).optional(),
     manualFixedAnnualContributions: z.number().min(0).optional(),
+    regionalSurchargeRate: z.number().min(0).max(10).optional(),
+    municipalSurchargeRate: z.number().min(0).max(10).optional(),
+    isaSubject: z.boolean().optional(),
+    revenueAlertThresholds: revenueAlertThresholdsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -370,6 +739,17 @@ export const costCreateSchema = z.object({
       (val) => Number.isFinite(val) && /^\d+(\.\d{1,2})?$/.test(val.toString()),
       "Amount must have at most 2 decimal places"
     ),
+  deductible: z.boolean().default(true),
+  deductionPercentage: z
+    .number()
+    .min(0, "Deduction percentage cannot be negative")
+    .max(100, "Deduction percentage cannot exceed 100")
+    .default(100),
+  categoryId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+    .nullable()
+    .optional(),
 });
 
 export const costUpdateSchema = z.object({
@@ -403,6 +783,17 @@ export const costUpdateSchema = z.object({
       return Number.isFinite(val) && /^\d+(\.\d{1,2})?$/.test(val.toString());
     }, "Amount must have at most 2 decimal places")
     .optional(),
+  deductible: z.boolean().optional(),
+  deductionPercentage: z
+    .number()
+    .min(0, "Deduction percentage cannot be negative")
+    .max(100, "Deduction percentage cannot exceed 100")
+    .optional(),
+  categoryId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+    .nullable()
+    .optional(),
 });
 
 export const costQuerySchema = z.object({
@@ -429,6 +820,313 @@ export const costIdParamSchema = z.object({
   id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid cost ID format"),
 });
 
+/**
+ * Recurring cost validation schemas
+ * Follows validation rules consistent with RecurringCost model
+ */
+const recurringCostFieldsSchema = z.object({
+  description: z
+    .string()
+    .min(3, "Description must be at least 3 characters")
+    .max(200, "Description cannot exceed 200 characters")
+    .regex(
+      /^[a-zA-ZÀ-ÿ0-9\s.,;:()\-_'"!?€$%&+/\\]+$/,
+      "Description contains invalid characters"
+    ),
+  amount: z
+    .number()
+    .min(0.01, "Amount must be greater than 0")
+    .max(999999.99, "Amount cannot exceed 999,999.99")
+    .refine(
+      (val) => Number.isFinite(val) && /^\d+(\.\d{1,2})?$/.test(val.toString()),
+      "Amount must have at most 2 decimal places"
+    ),
+  deductible: z.boolean().optional(),
+  deductionPercentage: z
+    .number()
+    .min(0, "Deduction percentage cannot be negative")
+    .max(100, "Deduction percentage cannot exceed 100")
+    .optional(),
+  categoryId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+    .nullable()
+    .optional(),
+  frequency: z.enum(["monthly", "quarterly", "yearly"]),
+  endDate: z
+    .string()
+    .or(z.date())
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid end date")
+    .nullable()
+    .optional(),
+});
+
+export const recurringCostCreateSchema = recurringCostFieldsSchema
+  .extend({
+    startDate: z
+      .string()
+      .or(z.date())
+      .refine(
+        (val) => new Date(val) >= new Date("2000-01-01"),
+        "Start date must be after 2000-01-01"
+      ),
+    costId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid cost ID format")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.endDate || new Date(data.endDate) >= new Date(data.startDate),
+    { message: "End date cannot precede the start date", path: ["endDate"] }
+  );
+
+export const recurringCostUpdateSchema = recurringCostFieldsSchema.partial();
+
+export const recurringCostSkipSchema = z.object({
+  date: z
+    .string()
+    .or(z.date())
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid date"),
+  skipped: z.boolean().default(true),
+});
+
+export const recurringCostIdParamSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid recurring cost ID format"),
+});
+
+/**
+ * Recurring invoice validation schemas
+ * Follows validation rules consistent with RecurringInvoice model
+ */
+const recurringInvoiceFieldsSchema = z.object({
+  frequency: z.enum(["monthly", "quarterly", "yearly"]),
+  endDate: z
+    .string()
+    .or(z.date())
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid end date")
+    .nullable()
+    .optional(),
+});
+
+export const recurringInvoiceCreateSchema = recurringInvoiceFieldsSchema.extend(
+  {
+    invoiceId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid invoice ID format"),
+  }
+);
+
+export const recurringInvoiceUpdateSchema =
+  recurringInvoiceFieldsSchema.partial();
+
+export const recurringInvoiceSkipSchema = recurringCostSkipSchema;
+
+export const recurringInvoiceIdParamSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid recurring invoice ID format"),
+});
+
+/**
+ * Cost category validation schemas
+ * Follows validation rules consistent with CostCategory model
+ */
+export const costCategorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Name must be at least 2 characters")
+    .max(50, "Name cannot exceed 50 characters")
+    .regex(
+      /^[a-zA-ZÀ-ÿ0-9\s.,;:()\-_'&+/]+$/,
+      "Name contains invalid characters"
+    ),
+});
+
+export const costCategoryIdParamSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format"),
+});
+
+/**
+ * Client registry validation schemas
+ * Follows validation rules consistent with Client model
+ */
+export const clientSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Client name is required")
+      .max(200, "Client name cannot exceed 200 characters"),
+    vatNumber: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isValidVatNumber, "Invalid VAT number")
+      .optional(),
+    taxCode: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isValidTaxCode, "Invalid tax code")
+      .optional(),
+    address: z
+      .object({
+        street: z.string().trim().max(200).optional(),
+        postalCode: z.string().trim().max(10).optional(),
+        city: z.string().trim().max(100).optional(),
+        province: z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(/^[A-Z]{2}$/, "Province must be a 2-letter code")
+          .optional(),
+        country: z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(/^[A-Z]{2}$/, "Country must be a 2-letter ISO code")
+          .default("IT"),
+      })
+      .optional(),
+    pec: z.string().trim().email("Invalid PEC address").optional(),
+    sdiCode: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9]{6,7}$/, "SDI code must be 6 or 7 characters")
+      .optional(),
+    defaultPaymentTerms: z
+      .enum(["immediate", "net30", "net60", "net90", "end_of_month"])
+      .optional(),
+    defaultVat: vatSchema.optional(),
+  })
+  .refine((data) => data.vatNumber || data.taxCode, {
+    message: "VAT number or tax code is required",
+    path: ["vatNumber"],
+  });
+
+export const clientIdParamSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid client ID format"),
+});
+
+/**
+ * Fiscal profile validation schema
+ * Follows validation rules consistent with FiscalProfile model
+ */
+export const fiscalProfileSchema = z
+  .object({
+    firstName: z.string().trim().min(1).max(60).optional(),
+    lastName: z.string().trim().min(1).max(60).optional(),
+    companyName: z.string().trim().min(1).max(80).optional(),
+    vatNumber: z
+      .string()
+      .trim()
+      .refine(isValidPartitaIva, "Invalid VAT number"),
+    taxCode: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isValidTaxCode, "Invalid tax code"),
+    address: z.object({
+      street: z.string().trim().min(1, "Street is required").max(60),
+      postalCode: z
+        .string()
+        .trim()
+        .regex(/^\d{5}$/, "Postal code must be 5 digits"),
+      city: z.string().trim().min(1, "City is required").max(60),
+      province: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{2}$/, "Province must be a 2-letter code")
+        .optional(),
+      country: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{2}$/, "Country must be a 2-letter ISO code")
+        .default("IT"),
+    }),
+    pec: z.string().trim().email("Invalid PEC address").optional(),
+    iban: z
+      .string()
+      .transform((value) => value.replace(/\s+/g, "").toUpperCase())
+      .pipe(z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/, "Invalid IBAN"))
+      .optional(),
+  })
+  .refine((data) => data.companyName || (data.firstName && data.lastName), {
+    message: "Company name or first and last name are required",
+    path: ["companyName"],
+  });
+
+/**
+ * Invoice numbering validation schemas
+ * Follows validation rules consistent with InvoiceSequence model
+ */
+export const invoiceNumberingSchema = z.object({
+  pattern: z
+    .string()
+    .trim()
+    .superRefine((pattern, ctx) => {
+      validateNumberPattern(pattern).forEach((message) =>
+        ctx.addIssue({ code: "custom", message })
+      );
+    }),
+});
+
+export const invoiceNumberingQuerySchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Year must be a 4-digit number")
+    .refine((val) => {
+      const year = parseInt(val);
+      return year >= 2000 && year <= 2100;
+    }, "Year must be between 2000 and 2100"),
+});
+
+/**
+ * Report validation schemas
+ * Follows validation rules consistent with Report model
+ */
+export const reportRequestSchema = z
+  .object({
+    type: z.enum(["financial", "tax", "cashflow", "kpi", "custom"], {
+      message: "Invalid report type",
+    }),
+    format: z.enum(["pdf", "excel", "csv"], {
+      message: "Invalid report format",
+    }),
+    period: z.enum(["month", "quarter", "year", "custom"], {
+      message: "Invalid report period",
+    }),
+    startDate: z.coerce.date({ message: "Invalid start date" }).optional(),
+    endDate: z.coerce.date({ message: "Invalid end date" }).optional(),
+    includeCharts: z.boolean().default(true),
+    includeRawData: z.boolean().default(true),
+    includeAnalytics: z.boolean().default(true),
+    includeInsights: z.boolean().default(true),
+    customSections: z
+      .array(z.enum(["financial", "tax", "cashflow", "kpi"]))
+      .optional(),
+  })
+  .refine(
+    (data) => data.period !== "custom" || (data.startDate && data.endDate),
+    { message: "Custom period requires start and end dates", path: ["period"] }
+  )
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    { message: "Start date must be before end date", path: ["startDate"] }
+  );
+
+export const reportIdParamSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid report ID format"),
+});
+
 /**
  * Professional Fund validation schemas
  * Follows validation rules consistent with ProfessionalFund model
@@ -459,6 +1157,15 @@ const professionalFundParametersSchemaInternal = z.object({
       "Fixed annual contributions must have at most 2 decimal places"
     )
     .default(0),
+  integrativeContributionRate: z
+    .number()
+    .min(0, "Integrative contribution rate cannot be negative")
+    .max(100, "Integrative contribution rate cannot exceed 100%")
+    .refine(
+      (val) => Number.isFinite(val) && /^\d+(\.\d{1,2})?$/.test(val.toString()),
+      "Integrative contribution rate must have at most 2 decimal places"
+    )
+    .optional(),
   year: z
     .number()
     .int("Year must be an integer")
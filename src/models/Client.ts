@@ -0,0 +1,192 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import {
+  ClientAddress,
+  IClient,
+  PaymentTerms,
+  VatInfo,
+  VatType,
+} from "@/types";
+import { normalizeClientName } from "@/utils/invoiceCalculations";
+import {
+  isValidTaxCode,
+  isValidVatNumber,
+} from "@/utils/clientCalculations";
+
+/**
+ * Client Address Schema
+ */
+const clientAddressSchema = new Schema<ClientAddress>(
+  {
+    street: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Street cannot exceed 200 characters"],
+    },
+    postalCode: {
+      type: String,
+      trim: true,
+      maxlength: [10, "Postal code cannot exceed 10 characters"],
+    },
+    city: {
+      type: String,
+      trim: true,
+      maxlength: [100, "City cannot exceed 100 characters"],
+    },
+    province: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]{2}$/, "Province must be a 2-letter code"],
+    },
+    country: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      default: "IT",
+      match: [/^[A-Z]{2}$/, "Country must be a 2-letter ISO code"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Client Default VAT Schema
+ */
+const clientVatSchema = new Schema<VatInfo>(
+  {
+    vatType: {
+      type: String,
+      enum: {
+        values: [
+          "standard",
+          "reduced10",
+          "reduced5",
+          "reduced4",
+          "custom",
+        ] as VatType[],
+        message: "Invalid VAT type",
+      },
+      required: [true, "VAT type is required"],
+    },
+    vatRate: {
+      type: Number,
+      required: [true, "VAT rate is required"],
+      min: [0, "VAT rate cannot be negative"],
+      max: [100, "VAT rate cannot exceed 100"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Client Schema
+ * Anagrafica of the clients invoiced by a user
+ * Follows Single Responsibility Principle - handles only client data persistence
+ */
+const clientSchema = new Schema<IClient>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+    },
+    name: {
+      type: String,
+      required: [true, "Client name is required"],
+      trim: true,
+      minlength: [1, "Client name cannot be empty"],
+      maxlength: [200, "Client name cannot exceed 200 characters"],
+    },
+    normalizedName: {
+      type: String,
+      required: true,
+    },
+    vatNumber: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: function (vatNumber: string | undefined) {
+          return !vatNumber || isValidVatNumber(vatNumber);
+        },
+        message: "Invalid VAT number",
+      },
+    },
+    taxCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: function (taxCode: string | undefined) {
+          return !taxCode || isValidTaxCode(taxCode);
+        },
+        message: "Invalid tax code",
+      },
+    },
+    address: {
+      type: clientAddressSchema,
+    },
+    pec: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [254, "PEC cannot exceed 254 characters"],
+      match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, "Invalid PEC address"],
+    },
+    sdiCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      // 7 characters for private recipients, 6 for public administrations
+      match: [/^[A-Z0-9]{6,7}$/, "SDI code must be 6 or 7 characters"],
+    },
+    defaultPaymentTerms: {
+      type: String,
+      enum: {
+        values: [
+          "immediate",
+          "net30",
+          "net60",
+          "net90",
+          "end_of_month",
+        ] as PaymentTerms[],
+        message: "Invalid payment terms",
+      },
+    },
+    defaultVat: {
+      type: clientVatSchema,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for performance optimization
+ * Client names are unique per user regardless of case and spacing
+ */
+clientSchema.index({ userId: 1, normalizedName: 1 }, { unique: true });
+clientSchema.index({ userId: 1, vatNumber: 1 }, { sparse: true });
+
+/**
+ * Pre-validate middleware
+ * Keeps the normalised name in sync and requires a fiscal identifier
+ */
+clientSchema.pre("validate", function (next) {
+  if (this.name) {
+    this.normalizedName = normalizeClientName(this.name);
+  }
+  if (!this.vatNumber && !this.taxCode) {
+    this.invalidate("vatNumber", "VAT number or tax code is required");
+  }
+  next();
+});
+
+/**
+ * Export the Client model
+ * Simple data model without business logic - follows functional principles
+ */
+export const Client =
+  (models.Client as mongoose.Model<IClient>) ||
+  model<IClient>("Client", clientSchema);
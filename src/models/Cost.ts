@@ -61,6 +61,52 @@ const costSchema = new Schema<ICost>(
         message: "Amount must have at most 2 decimal places",
       },
     },
+    deductible: {
+      type: Boolean,
+      default: true,
+    },
+    deductionPercentage: {
+      type: Number,
+      default: 100,
+      min: [0, "Deduction percentage cannot be negative"],
+      max: [100, "Deduction percentage cannot exceed 100"],
+    },
+    categoryId: {
+      type: String,
+      ref: "CostCategory",
+      default: null,
+      validate: {
+        validator: function (categoryId: string | null) {
+          return (
+            categoryId === null || mongoose.Types.ObjectId.isValid(categoryId)
+          );
+        },
+        message: "Invalid category ID format",
+      },
+    },
+    // Supplier invoice details, set on costs imported from FatturaPA files
+    supplierName: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Supplier name cannot exceed 200 characters"],
+    },
+    supplierVatNumber: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [30, "Supplier VAT number cannot exceed 30 characters"],
+    },
+    documentNumber: {
+      type: String,
+      trim: true,
+      maxlength: [20, "Document number cannot exceed 20 characters"],
+    },
+    // Recurring cost series the cost was generated from
+    recurringCostId: {
+      type: String,
+      ref: "RecurringCost",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -72,6 +118,16 @@ const costSchema = new Schema<ICost>(
  */
 costSchema.index({ userId: 1, date: -1 });
 costSchema.index({ userId: 1, createdAt: -1 });
+costSchema.index({ userId: 1, categoryId: 1 });
+costSchema.index({ userId: 1, documentNumber: 1 }, { sparse: true });
+// One cost per occurrence, so generating a series twice cannot duplicate it
+costSchema.index(
+  { recurringCostId: 1, date: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringCostId: { $type: "string" } },
+  }
+);
 
 /**
  * Export the Cost model
@@ -0,0 +1,66 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ICostCategory } from "@/types";
+
+/**
+ * Cost Category Schema
+ * Fiscal categories for costs: seeded system categories shared by all users
+ * (userId null) plus custom categories defined by each user
+ * Follows Single Responsibility Principle - handles only cost category data persistence
+ */
+const costCategorySchema = new Schema<ICostCategory>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      default: null,
+      validate: {
+        validator: function (userId: string | null) {
+          return userId === null || mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      minlength: [2, "Name must be at least 2 characters long"],
+      maxlength: [50, "Name cannot exceed 50 characters"],
+      validate: {
+        validator: function (name: string) {
+          // Allow letters, numbers, spaces, common punctuation
+          return /^[a-zA-ZÀ-ÿ0-9\s.,;:()\-_'&+/]+$/.test(name);
+        },
+        message: "Name contains invalid characters",
+      },
+    },
+    code: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [30, "Code cannot exceed 30 characters"],
+    },
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for performance optimization
+ * Category names are unique per owner (system categories share the null owner)
+ */
+costCategorySchema.index({ userId: 1, name: 1 }, { unique: true });
+costCategorySchema.index({ code: 1 }, { unique: true, sparse: true });
+
+/**
+ * Export the CostCategory model
+ * Simple data model without business logic - follows functional principles
+ */
+export const CostCategory =
+  (models.CostCategory as mongoose.Model<ICostCategory>) ||
+  model<ICostCategory>("CostCategory", costCategorySchema);
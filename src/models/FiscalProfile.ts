@@ -0,0 +1,139 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ClientAddress, IFiscalProfile } from "@/types";
+import {
+  isValidPartitaIva,
+  isValidTaxCode,
+} from "@/utils/clientCalculations";
+
+/**
+ * Fiscal Profile Address Schema
+ * The registered office must be complete to issue electronic invoices
+ */
+const fiscalProfileAddressSchema = new Schema<ClientAddress>(
+  {
+    street: {
+      type: String,
+      required: [true, "Street is required"],
+      trim: true,
+      maxlength: [60, "Street cannot exceed 60 characters"],
+    },
+    postalCode: {
+      type: String,
+      required: [true, "Postal code is required"],
+      trim: true,
+      match: [/^\d{5}$/, "Postal code must be 5 digits"],
+    },
+    city: {
+      type: String,
+      required: [true, "City is required"],
+      trim: true,
+      maxlength: [60, "City cannot exceed 60 characters"],
+    },
+    province: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]{2}$/, "Province must be a 2-letter code"],
+    },
+    country: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      default: "IT",
+      match: [/^[A-Z]{2}$/, "Country must be a 2-letter ISO code"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Fiscal Profile Schema
+ * Anagrafica of the user as invoice issuer, one per user
+ * Follows Single Responsibility Principle - handles only issuer data persistence
+ */
+const fiscalProfileSchema = new Schema<IFiscalProfile>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      unique: true,
+      ref: "User",
+    },
+    firstName: {
+      type: String,
+      trim: true,
+      maxlength: [60, "First name cannot exceed 60 characters"],
+    },
+    lastName: {
+      type: String,
+      trim: true,
+      maxlength: [60, "Last name cannot exceed 60 characters"],
+    },
+    companyName: {
+      type: String,
+      trim: true,
+      maxlength: [80, "Company name cannot exceed 80 characters"],
+    },
+    vatNumber: {
+      type: String,
+      required: [true, "VAT number is required"],
+      trim: true,
+      validate: {
+        validator: isValidPartitaIva,
+        message: "Invalid VAT number",
+      },
+    },
+    taxCode: {
+      type: String,
+      required: [true, "Tax code is required"],
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: isValidTaxCode,
+        message: "Invalid tax code",
+      },
+    },
+    address: {
+      type: fiscalProfileAddressSchema,
+      required: [true, "Address is required"],
+    },
+    pec: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [254, "PEC cannot exceed 254 characters"],
+      match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, "Invalid PEC address"],
+    },
+    iban: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/, "Invalid IBAN"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Pre-validate middleware
+ * Individuals are identified by first and last name, companies by name
+ */
+fiscalProfileSchema.pre("validate", function (next) {
+  if (!this.companyName && !(this.firstName && this.lastName)) {
+    this.invalidate(
+      "companyName",
+      "Company name or first and last name are required"
+    );
+  }
+  next();
+});
+
+/**
+ * Export the FiscalProfile model
+ * Simple data model without business logic - follows functional principles
+ */
+export const FiscalProfile =
+  (models.FiscalProfile as mongoose.Model<IFiscalProfile>) ||
+  model<IFiscalProfile>("FiscalProfile", fiscalProfileSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IInpsParameters, InpsRate, InpsRateType } from "@/types";
+import { INPS_RATE_TYPES } from "@/utils/inpsCalculations";
+
+/**
+ * INPS Rate Schema
+ * Gestione Separata rate of a single contributor category
+ */
+const inpsRateSchema = new Schema<InpsRate>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: INPS_RATE_TYPES as InpsRateType[],
+        message: "Invalid INPS rate type",
+      },
+      required: [true, "Rate type is required"],
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      maxlength: [200, "Description cannot exceed 200 characters"],
+    },
+    rate: {
+      type: Number,
+      required: [true, "Rate is required"],
+      min: [0, "Rate cannot be negative"],
+      max: [100, "Rate cannot exceed 100"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * INPS Parameters Schema
+ * One document per year with the Gestione Separata rates, massimale and minimale
+ * Follows Single Responsibility Principle - handles only parameters data persistence
+ */
+const inpsParametersSchema = new Schema<IInpsParameters>(
+  {
+    year: {
+      type: Number,
+      required: [true, "Year is required"],
+      unique: true,
+      min: [2000, "Year cannot be before 2000"],
+      max: [2100, "Year cannot be after 2100"],
+      validate: {
+        validator: function (year: number) {
+          return Number.isInteger(year);
+        },
+        message: "Year must be an integer",
+      },
+    },
+    rates: {
+      type: [inpsRateSchema],
+      validate: {
+        validator: function (rates: InpsRate[]) {
+          return INPS_RATE_TYPES.every(
+            (type) => rates.filter((rate) => rate.type === type).length === 1
+          );
+        },
+        message: "Rates must include exactly one entry per INPS rate type",
+      },
+    },
+    maxIncome: {
+      type: Number,
+      required: [true, "Maximum income is required"],
+      min: [0, "Maximum income cannot be negative"],
+    },
+    minIncome: {
+      type: Number,
+      required: [true, "Minimum income is required"],
+      min: [0, "Minimum income cannot be negative"],
+      validate: {
+        validator: function (this: IInpsParameters, minIncome: number) {
+          return minIncome < this.maxIncome;
+        },
+        message: "Minimum income must be lower than maximum income",
+      },
+    },
+    minContributions: {
+      type: Map,
+      of: Number,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Export the InpsParameters model
+ * Simple data model without business logic - follows functional principles
+ */
+export const InpsParameters =
+  (models.InpsParameters as mongoose.Model<IInpsParameters>) ||
+  model<IInpsParameters>("InpsParameters", inpsParametersSchema);
@@ -1,5 +1,46 @@
 import mongoose, { Schema, model, models } from "mongoose";
-import { IInvoice, VatType, VatInfo } from "@/types";
+import {
+  BolloInfo,
+  IInvoice,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceStatus,
+  InvoiceStatusChange,
+  PaymentMethod,
+  PaymentTerms,
+  PensionChargeInfo,
+  PensionChargeType,
+  VatNature,
+  VatType,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
+import {
+  calculateDueDate,
+  calculateItemsAmount,
+  DEFAULT_PAYMENT_TERMS,
+  getInitialStatusHistory,
+  getInvoiceBollo,
+  getInvoiceItems,
+  MAX_INVOICE_ITEMS,
+  getInvoicePensionCharge,
+  getInvoiceWithholding,
+  getItemsVat,
+  getInvoiceStatus,
+} from "@/utils/invoiceCalculations";
+
+/**
+ * Invoice statuses
+ */
+const INVOICE_STATUSES: InvoiceStatus[] = [
+  "draft",
+  "issued",
+  "sent",
+  "partially_paid",
+  "paid",
+  "cancelled",
+];
 
 /**
  * VAT Info Schema
@@ -51,6 +92,213 @@ const vatSchema = new Schema<VatInfo>(
   { _id: false }
 );
 
+/**
+ * Check that a number has at most 2 decimal places
+ */
+const hasAtMostTwoDecimals = (value: number): boolean =>
+  Number.isFinite(value) && Math.abs(value * 100 - Math.round(value * 100)) < 1e-6;
+
+/**
+ * Line Item Schema
+ * Line of an invoice, the amount is derived from quantity and unit price
+ */
+const lineItemSchema = new Schema<InvoiceLineItem>(
+  {
+    description: {
+      type: String,
+      required: [true, "Line description is required"],
+      trim: true,
+      minlength: [1, "Line description cannot be empty"],
+      maxlength: [1000, "Line description cannot exceed 1000 characters"],
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Line quantity is required"],
+      min: [0.01, "Line quantity must be greater than 0"],
+      max: [999999999, "Line quantity is too large"],
+      validate: {
+        validator: hasAtMostTwoDecimals,
+        message: "Line quantity must have at most 2 decimal places",
+      },
+    },
+    unitOfMeasure: {
+      type: String,
+      trim: true,
+      maxlength: [10, "Unit of measure cannot exceed 10 characters"],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, "Unit price is required"],
+      min: [0, "Unit price cannot be negative"],
+      max: [999999999.99, "Unit price is too large"],
+      validate: {
+        validator: hasAtMostTwoDecimals,
+        message: "Unit price must have at most 2 decimal places",
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, "Line amount is required"],
+      min: [0, "Line amount cannot be negative"],
+    },
+    vat: {
+      type: vatSchema,
+    },
+    vatNature: {
+      type: String,
+      enum: {
+        values: ["N1", "N2.1", "N2.2", "N4"] as VatNature[],
+        message: "Invalid VAT nature",
+      },
+      validate: {
+        validator: function (this: InvoiceLineItem, nature: VatNature) {
+          // The nature explains why a line carries no VAT
+          return !nature || !this.vat?.vatRate;
+        },
+        message: "VAT nature only applies to lines without VAT",
+      },
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Bollo Schema
+ * Stamp duty of invoices issued without VAT, derived from amount and VAT
+ */
+const bolloSchema = new Schema<BolloInfo>(
+  {
+    amount: {
+      type: Number,
+      required: [true, "Stamp duty amount is required"],
+      min: [0, "Stamp duty amount cannot be negative"],
+    },
+    chargedToClient: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Withholding Schema
+ * Withholding tax retained by the client, the amount is derived from the rate
+ */
+const withholdingSchema = new Schema<WithholdingInfo>(
+  {
+    rate: {
+      type: Number,
+      required: [true, "Withholding tax rate is required"],
+      min: [0.01, "Withholding tax rate must be greater than 0"],
+      max: [100, "Withholding tax rate cannot exceed 100"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Withholding tax amount is required"],
+      min: [0, "Withholding tax amount cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Pension Charge Schema
+ * Rivalsa INPS or contributo integrativo charged to the client,
+ * the amount is derived from the rate
+ */
+const pensionChargeSchema = new Schema<PensionChargeInfo>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: ["rivalsa_inps", "cassa_integrativa"] as PensionChargeType[],
+        message: "Invalid pension charge type",
+      },
+      required: [true, "Pension charge type is required"],
+    },
+    rate: {
+      type: Number,
+      required: [true, "Pension charge rate is required"],
+      min: [0.01, "Pension charge rate must be greater than 0"],
+      max: [100, "Pension charge rate cannot exceed 100"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Pension charge amount is required"],
+      min: [0, "Pension charge amount cannot be negative"],
+    },
+    fundCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Status Change Schema
+ * Transition of an invoice to a status, with when it happened
+ */
+const statusChangeSchema = new Schema<InvoiceStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: {
+        values: INVOICE_STATUSES,
+        message: "Invalid invoice status",
+      },
+      required: [true, "Invoice status is required"],
+    },
+    changedAt: {
+      type: Date,
+      required: [true, "Status change date is required"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Payment Schema
+ * Amount received on an invoice, with its own id to be removed
+ */
+const paymentSchema = new Schema<InvoicePayment>({
+  date: {
+    type: Date,
+    required: [true, "Payment date is required"],
+  },
+  amount: {
+    type: Number,
+    required: [true, "Payment amount is required"],
+    min: [0.01, "Payment amount must be greater than 0"],
+    max: [999999999.99, "Payment amount is too large"],
+    validate: {
+      validator: hasAtMostTwoDecimals,
+      message: "Payment amount must have at most 2 decimal places",
+    },
+  },
+  method: {
+    type: String,
+    enum: {
+      values: [
+        "bank_transfer",
+        "cash",
+        "card",
+        "check",
+        "other",
+      ] as PaymentMethod[],
+      message: "Invalid payment method",
+    },
+    default: "bank_transfer",
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, "Payment note cannot exceed 500 characters"],
+  },
+});
+
 /**
  * Invoice Schema
  * Handles invoice data and validation
@@ -65,7 +313,13 @@ const invoiceSchema = new Schema<IInvoice>(
     },
     number: {
       type: String,
-      required: [true, "Invoice number is required"],
+      // Drafts are numbered when issued
+      required: [
+        function (this: IInvoice) {
+          return this.status !== "draft";
+        },
+        "Invoice number is required",
+      ],
       trim: true,
       maxlength: [50, "Invoice number cannot exceed 50 characters"],
       validate: {
@@ -119,6 +373,13 @@ const invoiceSchema = new Schema<IInvoice>(
         message: "Amount must have at most 2 decimal places",
       },
     },
+    items: {
+      type: [lineItemSchema],
+      validate: {
+        validator: (items: InvoiceLineItem[]) => items.length <= MAX_INVOICE_ITEMS,
+        message: "Invoices cannot exceed 200 lines",
+      },
+    },
     paymentDate: {
       type: Date,
       validate: {
@@ -129,6 +390,36 @@ const invoiceSchema = new Schema<IInvoice>(
         message: "Payment date cannot be before issue date",
       },
     },
+    clientId: {
+      type: String,
+      ref: "Client",
+      default: null,
+    },
+    paymentTerms: {
+      type: String,
+      enum: {
+        values: [
+          "immediate",
+          "net30",
+          "net60",
+          "net90",
+          "end_of_month",
+          "custom",
+        ] as PaymentTerms[],
+        message: "Invalid payment terms",
+      },
+      default: DEFAULT_PAYMENT_TERMS,
+    },
+    dueDate: {
+      type: Date,
+      validate: {
+        validator: function (this: IInvoice, date: Date | undefined) {
+          if (!date) return true;
+          return date >= this.issueDate;
+        },
+        message: "Due date cannot be before issue date",
+      },
+    },
     fiscalYear: {
       type: Number,
       required: [true, "Fiscal year is required"],
@@ -155,6 +446,59 @@ const invoiceSchema = new Schema<IInvoice>(
         message: "VAT information must be complete if provided",
       },
     },
+    bollo: {
+      type: bolloSchema,
+    },
+    withholding: {
+      type: withholdingSchema,
+    },
+    pensionCharge: {
+      type: pensionChargeSchema,
+    },
+    documentType: {
+      type: String,
+      enum: {
+        values: ["invoice", "credit_note"] as InvoiceDocumentType[],
+        message: "Invalid document type",
+      },
+      default: "invoice",
+    },
+    originalInvoiceId: {
+      type: String,
+      ref: "Invoice",
+      default: null,
+      validate: {
+        validator: function (this: IInvoice, originalInvoiceId: string | null) {
+          // Credit notes reverse an original invoice, invoices reference none
+          return this.documentType === "credit_note"
+            ? !!originalInvoiceId
+            : !originalInvoiceId;
+        },
+        message: "Credit notes must reference the original invoice",
+      },
+    },
+    // Recurring invoice the invoice was issued from
+    recurringInvoiceId: {
+      type: String,
+      ref: "RecurringInvoice",
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: INVOICE_STATUSES,
+        message: "Invalid invoice status",
+      },
+    },
+    statusHistory: {
+      type: [statusChangeSchema],
+      default: undefined,
+    },
+    // Payments received, invoices paid in full before they were recorded have none
+    payments: {
+      type: [paymentSchema],
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -162,9 +506,14 @@ const invoiceSchema = new Schema<IInvoice>(
 );
 
 /**
- * Compound index for unique invoice numbers per user
+ * Compound index for unique invoice numbers per user and year
+ * Numbering restarts every year, so patterns without the year repeat numbers.
+ * Drafts have no number yet and are left out
  */
-invoiceSchema.index({ userId: 1, number: 1 }, { unique: true });
+invoiceSchema.index(
+  { userId: 1, fiscalYear: 1, number: 1 },
+  { unique: true, partialFilterExpression: { number: { $type: "string" } } }
+);
 
 /**
  * Indexes for performance
@@ -172,6 +521,48 @@ invoiceSchema.index({ userId: 1, number: 1 }, { unique: true });
 invoiceSchema.index({ userId: 1, fiscalYear: 1 });
 invoiceSchema.index({ userId: 1, issueDate: 1 });
 invoiceSchema.index({ userId: 1, paymentDate: 1 });
+invoiceSchema.index({ userId: 1, "payments.date": 1 });
+invoiceSchema.index({ userId: 1, dueDate: 1 });
+invoiceSchema.index({ userId: 1, clientId: 1 });
+invoiceSchema.index({ userId: 1, originalInvoiceId: 1 });
+invoiceSchema.index({ userId: 1, recurringInvoiceId: 1 });
+
+/**
+ * Pre-validate middleware
+ * Derives amount and VAT from the lines, invoices without lines get one
+ * from their title and amount, the due date from the payment terms,
+ * custom terms need an explicit one, the pension contribution from amount
+ * and rate, the stamp duty from the amount charged without VAT, keeping
+ * the re-charge choice, and the withholding tax from the compensation and rate.
+ * Invoices created without a status are issued, or paid with a payment date,
+ * and start their status history
+ */
+invoiceSchema.pre("validate", function (next) {
+  this.status = getInvoiceStatus(this);
+  if (!this.statusHistory?.length) {
+    this.statusHistory = getInitialStatusHistory(this.status, new Date());
+  }
+
+  const items = getInvoiceItems(this);
+  this.items = items;
+  this.amount = calculateItemsAmount(items);
+  this.vat = getItemsVat(items);
+  this.pensionCharge = getInvoicePensionCharge(this, this.pensionCharge);
+  this.bollo = getInvoiceBollo(this, this.bollo?.chargedToClient);
+  this.withholding = getInvoiceWithholding(this, this.withholding?.rate);
+
+  if (this.paymentTerms === "custom") {
+    if (!this.dueDate) {
+      this.invalidate(
+        "dueDate",
+        "Due date is required for custom payment terms"
+      );
+    }
+  } else if (this.issueDate) {
+    this.dueDate = calculateDueDate(this.issueDate, this.paymentTerms);
+  }
+  next();
+});
 
 /**
  * Export the Invoice model
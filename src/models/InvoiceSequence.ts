@@ -0,0 +1,51 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IInvoiceSequence } from "@/types";
+import {
+  DEFAULT_INVOICE_NUMBER_PATTERN,
+  validateNumberPattern,
+} from "@/utils/invoiceNumberingCalculations";
+
+/**
+ * Invoice Sequence Schema
+ * Numbering pattern of a user and the last number generated in each year,
+ * one document per user so that counters can be incremented atomically
+ * Follows Single Responsibility Principle - handles only numbering persistence
+ */
+const invoiceSequenceSchema = new Schema<IInvoiceSequence>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      unique: true,
+      ref: "User",
+    },
+    pattern: {
+      type: String,
+      required: [true, "Numbering pattern is required"],
+      trim: true,
+      default: DEFAULT_INVOICE_NUMBER_PATTERN,
+      validate: {
+        validator: (pattern: string) =>
+          validateNumberPattern(pattern).length === 0,
+        message: "Invalid numbering pattern",
+      },
+    },
+    counters: {
+      // Keyed by year, e.g. { "2024": 12 }
+      type: Map,
+      of: Number,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Export the InvoiceSequence model
+ * Simple data model without business logic - follows functional principles
+ */
+export const InvoiceSequence =
+  (models.InvoiceSequence as mongoose.Model<IInvoiceSequence>) ||
+  model<IInvoiceSequence>("InvoiceSequence", invoiceSequenceSchema);
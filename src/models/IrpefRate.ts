@@ -0,0 +1,70 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IIrpefRate } from "@/types";
+
+/**
+ * IRPEF Rate Schema
+ * One document per bracket of the yearly IRPEF rate table
+ * Follows Single Responsibility Principle - handles only rate data persistence
+ */
+const irpefRateSchema = new Schema<IIrpefRate>(
+  {
+    rate: {
+      type: Number,
+      required: [true, "Rate is required"],
+      min: [0, "Rate cannot be negative"],
+      max: [100, "Rate cannot exceed 100"],
+    },
+    lowerBound: {
+      type: Number,
+      required: [true, "Lower bound is required"],
+      min: [0, "Lower bound cannot be negative"],
+    },
+    upperBound: {
+      type: Number,
+      validate: {
+        validator: function (this: IIrpefRate, upperBound: number | undefined) {
+          if (upperBound === undefined || upperBound === null) return true;
+          return upperBound > this.lowerBound;
+        },
+        message: "Upper bound must be greater than lower bound",
+      },
+    },
+    year: {
+      type: Number,
+      required: [true, "Year is required"],
+      min: [2000, "Year cannot be before 2000"],
+      max: [2100, "Year cannot be after 2100"],
+      validate: {
+        validator: function (year: number) {
+          return Number.isInteger(year);
+        },
+        message: "Year must be an integer",
+      },
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Compound index for unique brackets per year
+ */
+irpefRateSchema.index({ year: 1, lowerBound: 1 }, { unique: true });
+
+/**
+ * Indexes for performance
+ */
+irpefRateSchema.index({ year: 1, isActive: 1 });
+
+/**
+ * Export the IrpefRate model
+ * Simple data model without business logic - follows functional principles
+ */
+export const IrpefRate =
+  (models.IrpefRate as mongoose.Model<IIrpefRate>) ||
+  model<IIrpefRate>("IrpefRate", irpefRateSchema);
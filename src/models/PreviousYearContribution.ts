@@ -0,0 +1,61 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IPreviousYearContribution } from "@/types";
+
+/**
+ * Previous Year Contribution Schema
+ * Ledger of pension contributions paid by a user during a tax year
+ * (saldo of the previous year plus acconti), deductible from that year's income
+ * Follows Single Responsibility Principle - handles only contribution data persistence
+ */
+const previousYearContributionSchema = new Schema<IPreviousYearContribution>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    year: {
+      type: Number,
+      required: [true, "Year is required"],
+      min: [2000, "Year cannot be before 2000"],
+      max: [2100, "Year cannot be after 2100"],
+      validate: {
+        validator: function (year: number) {
+          return Number.isInteger(year);
+        },
+        message: "Year must be an integer",
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+      max: [999999.99, "Amount cannot exceed 999,999.99"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Compound index for one ledger entry per user and year
+ */
+previousYearContributionSchema.index({ userId: 1, year: 1 }, { unique: true });
+
+/**
+ * Export the PreviousYearContribution model
+ * Simple data model without business logic - follows functional principles
+ */
+export const PreviousYearContribution =
+  (models.PreviousYearContribution as mongoose.Model<IPreviousYearContribution>) ||
+  model<IPreviousYearContribution>(
+    "PreviousYearContribution",
+    previousYearContributionSchema
+  );
@@ -48,6 +48,21 @@ const professionalFundParametersSchema = new Schema(
           "Fixed annual contributions must have at most 2 decimal places",
       },
     },
+    integrativeContributionRate: {
+      type: Number,
+      min: [0, "Integrative contribution rate cannot be negative"],
+      max: [100, "Integrative contribution rate cannot exceed 100%"],
+      validate: {
+        validator: function (rate: number | undefined) {
+          // Check for max 2 decimal places
+          return (
+            rate === undefined || /^\d+(\.\d{1,2})?$/.test(rate.toString())
+          );
+        },
+        message:
+          "Integrative contribution rate must have at most 2 decimal places",
+      },
+    },
     year: {
       type: Number,
       required: [true, "Year is required"],
@@ -0,0 +1,107 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IRecurringCost } from "@/types";
+
+/**
+ * Recurring Cost Schema
+ * Template of a cost repeated monthly, quarterly or yearly, materialised
+ * as Cost documents when its occurrences are due
+ * Follows Single Responsibility Principle - handles only series persistence
+ */
+const recurringCostSchema = new Schema<IRecurringCost>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      minlength: [3, "Description must be at least 3 characters long"],
+      maxlength: [200, "Description cannot exceed 200 characters"],
+      validate: {
+        validator: function (description: string) {
+          // Same characters allowed on the generated costs
+          return /^[a-zA-ZÀ-ÿ0-9\s.,;:()\-_'"!?€$%&+/\\]+$/.test(description);
+        },
+        message: "Description contains invalid characters",
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0.01, "Amount must be greater than 0"],
+      max: [999999.99, "Amount cannot exceed 999,999.99"],
+    },
+    deductible: {
+      type: Boolean,
+      default: true,
+    },
+    deductionPercentage: {
+      type: Number,
+      default: 100,
+      min: [0, "Deduction percentage cannot be negative"],
+      max: [100, "Deduction percentage cannot exceed 100"],
+    },
+    categoryId: {
+      type: String,
+      ref: "CostCategory",
+      default: null,
+    },
+    frequency: {
+      type: String,
+      required: [true, "Frequency is required"],
+      enum: {
+        values: ["monthly", "quarterly", "yearly"],
+        message: "Invalid frequency",
+      },
+    },
+    startDate: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endDate: {
+      type: Date,
+      default: null,
+      validate: {
+        validator: function (this: IRecurringCost, endDate: Date | null) {
+          return !endDate || !this.startDate || endDate >= this.startDate;
+        },
+        message: "End date cannot precede the start date",
+      },
+    },
+    // Occurrences the user chose not to generate
+    skippedDates: {
+      type: [Date],
+      default: [],
+    },
+    // Last occurrence already generated or skipped
+    generatedUntil: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for performance optimization
+ */
+recurringCostSchema.index({ userId: 1, startDate: 1 });
+
+/**
+ * Export the RecurringCost model
+ * Simple data model without business logic - follows functional principles
+ */
+export const RecurringCost =
+  (models.RecurringCost as mongoose.Model<IRecurringCost>) ||
+  model<IRecurringCost>("RecurringCost", recurringCostSchema);
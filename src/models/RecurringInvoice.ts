@@ -0,0 +1,149 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import {
+  InvoiceLineItem,
+  IRecurringInvoice,
+  PaymentTerms,
+  VatInfo,
+} from "@/types";
+
+/**
+ * Template Line Schema
+ * Line copied from the invoice the template was created from, validated
+ * again on the invoices issued from the template
+ */
+const templateLineSchema = new Schema<InvoiceLineItem>(
+  {
+    description: { type: String, required: true },
+    quantity: { type: Number, required: true },
+    unitOfMeasure: { type: String },
+    unitPrice: { type: Number, required: true },
+    amount: { type: Number, required: true },
+    vat: {
+      type: new Schema<VatInfo>(
+        {
+          vatType: { type: String, required: true },
+          vatRate: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+    },
+    vatNature: { type: String },
+  },
+  { _id: false }
+);
+
+/**
+ * Recurring Invoice Schema
+ * Template of an invoice issued monthly, quarterly or yearly to a retainer
+ * client, whose due occurrences are drafts until the user confirms them
+ * Follows Single Responsibility Principle - handles only template persistence
+ */
+const recurringInvoiceSchema = new Schema<IRecurringInvoice>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    title: {
+      type: String,
+      required: [true, "Invoice title is required"],
+      trim: true,
+      maxlength: [500, "Invoice title cannot exceed 500 characters"],
+    },
+    clientName: {
+      type: String,
+      required: [true, "Client name is required"],
+      trim: true,
+      maxlength: [200, "Client name cannot exceed 200 characters"],
+    },
+    clientId: {
+      type: String,
+      ref: "Client",
+      default: null,
+    },
+    items: {
+      type: [templateLineSchema],
+      validate: {
+        validator: (items: InvoiceLineItem[]) => items.length > 0,
+        message: "Recurring invoices need at least one line",
+      },
+    },
+    // Custom terms have no due date to repeat
+    paymentTerms: {
+      type: String,
+      required: [true, "Payment terms are required"],
+      enum: {
+        values: [
+          "immediate",
+          "net30",
+          "net60",
+          "net90",
+          "end_of_month",
+        ] as PaymentTerms[],
+        message: "Invalid payment terms",
+      },
+    },
+    withholdingRate: {
+      type: Number,
+      default: null,
+    },
+    pensionChargeRate: {
+      type: Number,
+      default: null,
+    },
+    bolloChargedToClient: {
+      type: Boolean,
+      default: false,
+    },
+    frequency: {
+      type: String,
+      required: [true, "Frequency is required"],
+      enum: {
+        values: ["monthly", "quarterly", "yearly"],
+        message: "Invalid frequency",
+      },
+    },
+    startDate: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endDate: {
+      type: Date,
+      default: null,
+      validate: {
+        validator: function (this: IRecurringInvoice, endDate: Date | null) {
+          return !endDate || !this.startDate || endDate >= this.startDate;
+        },
+        message: "End date cannot precede the start date",
+      },
+    },
+    // Occurrences the user chose not to invoice
+    skippedDates: {
+      type: [Date],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for performance optimization
+ */
+recurringInvoiceSchema.index({ userId: 1, startDate: 1 });
+
+/**
+ * Export the RecurringInvoice model
+ * Simple data model without business logic - follows functional principles
+ */
+export const RecurringInvoice =
+  (models.RecurringInvoice as mongoose.Model<IRecurringInvoice>) ||
+  model<IRecurringInvoice>("RecurringInvoice", recurringInvoiceSchema);
@@ -0,0 +1,101 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IReport } from "@/types";
+
+/**
+ * Report Schema
+ * Configuration and content of generated reports, so the list of generated
+ * reports survives page reloads. Files are not stored: they are rendered
+ * again from the content as generated when downloaded
+ * Follows Single Responsibility Principle - handles only report data persistence
+ */
+const reportSchema = new Schema<IReport>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [200, "Name cannot exceed 200 characters"],
+    },
+    type: {
+      type: String,
+      required: [true, "Report type is required"],
+      enum: {
+        values: ["financial", "tax", "cashflow", "kpi", "custom"],
+        message: "Invalid report type",
+      },
+    },
+    format: {
+      type: String,
+      required: [true, "Report format is required"],
+      enum: {
+        values: ["pdf", "excel", "csv"],
+        message: "Invalid report format",
+      },
+    },
+    period: {
+      type: String,
+      required: [true, "Report period is required"],
+      enum: {
+        values: ["month", "quarter", "year", "custom"],
+        message: "Invalid report period",
+      },
+    },
+    startDate: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endDate: {
+      type: Date,
+      required: [true, "End date is required"],
+    },
+    includeCharts: { type: Boolean, default: true },
+    includeRawData: { type: Boolean, default: true },
+    includeAnalytics: { type: Boolean, default: true },
+    includeInsights: { type: Boolean, default: true },
+    customSections: { type: [String], default: undefined },
+    fileName: {
+      type: String,
+      required: [true, "File name is required"],
+    },
+    mimeType: {
+      type: String,
+      required: [true, "MIME type is required"],
+    },
+    size: {
+      type: Number,
+      required: [true, "Size is required"],
+      min: [0, "Size cannot be negative"],
+    },
+    document: {
+      type: Schema.Types.Mixed,
+      required: [true, "Report content is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for performance optimization
+ */
+reportSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * Export the Report model
+ * Simple data model without business logic - follows functional principles
+ */
+export const Report =
+  (models.Report as mongoose.Model<IReport>) ||
+  model<IReport>("Report", reportSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ITaxPayment } from "@/types";
+
+/**
+ * Tax Payment Schema
+ * Scheduled tax and contribution payments marked as paid by a user
+ * Payments are identified by the fiscal year of their schedule (saldo of that
+ * year and acconti of the next one) and a schedule payment ID
+ * Follows Single Responsibility Principle - handles only payment data persistence
+ */
+const taxPaymentSchema = new Schema<ITaxPayment>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    fiscalYear: {
+      type: Number,
+      required: [true, "Fiscal year is required"],
+      min: [2000, "Fiscal year cannot be before 2000"],
+      max: [2100, "Fiscal year cannot be after 2100"],
+      validate: {
+        validator: function (year: number) {
+          return Number.isInteger(year);
+        },
+        message: "Fiscal year must be an integer",
+      },
+    },
+    paymentId: {
+      type: String,
+      required: [true, "Payment ID is required"],
+      trim: true,
+      maxlength: [50, "Payment ID cannot exceed 50 characters"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+      max: [999999.99, "Amount cannot exceed 999,999.99"],
+    },
+    paidAt: {
+      type: Date,
+      required: [true, "Payment date is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Compound index for one record per user, fiscal year and payment
+ */
+taxPaymentSchema.index(
+  { userId: 1, fiscalYear: 1, paymentId: 1 },
+  { unique: true }
+);
+
+/**
+ * Export the TaxPayment model
+ * Simple data model without business logic - follows functional principles
+ */
+export const TaxPayment =
+  (models.TaxPayment as mongoose.Model<ITaxPayment>) ||
+  model<ITaxPayment>("TaxPayment", taxPaymentSchema);
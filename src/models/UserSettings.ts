@@ -1,5 +1,9 @@
 import mongoose, { Schema, model, models } from "mongoose";
 import { IUserSettings, TaxRegime, PensionSystem, InpsRateType } from "@/types";
+import {
+  FORFETTARIO_SUBSTITUTE_RATES,
+  STANDARD_SUBSTITUTE_RATE,
+} from "@/utils/userSettingsCalculations";
 
 /**
  * User Settings Schema
@@ -28,12 +32,16 @@ const userSettingsSchema = new Schema<IUserSettings>(
       validate: {
         validator: function (this: IUserSettings, v: number | undefined) {
           if (this.taxRegime === "ordinario") return true;
-          return v === undefined || [5, 25].includes(v);
+          return v === undefined || FORFETTARIO_SUBSTITUTE_RATES.includes(v);
         },
         message:
-          "Substitute rate must be either 5 or 25 for forfettario regime",
+          "Substitute rate must be either 5 or 15 for forfettario regime",
       },
     },
+    activityStartDate: {
+      type: Date,
+      default: null,
+    },
     profitabilityRate: {
       type: Number,
       min: [0, "Profitability rate cannot be negative"],
@@ -118,6 +126,29 @@ const userSettingsSchema = new Schema<IUserSettings>(
           "Manual fixed annual contributions must be greater than or equal to 0",
       },
     },
+    regionalSurchargeRate: {
+      type: Number,
+      min: [0, "Regional surcharge rate cannot be negative"],
+      max: [10, "Regional surcharge rate cannot exceed 10"],
+    },
+    municipalSurchargeRate: {
+      type: Number,
+      min: [0, "Municipal surcharge rate cannot be negative"],
+      max: [10, "Municipal surcharge rate cannot exceed 10"],
+    },
+    isaSubject: {
+      type: Boolean,
+    },
+    revenueAlertThresholds: {
+      type: [Number],
+      default: undefined,
+      validate: {
+        validator: function (v: number[] | undefined) {
+          return !v || v.every((threshold) => threshold >= 1 && threshold <= 100);
+        },
+        message: "Revenue alert thresholds must be between 1 and 100",
+      },
+    },
   },
   {
     timestamps: true,
@@ -130,6 +161,18 @@ const userSettingsSchema = new Schema<IUserSettings>(
  */
 // userSettingsSchema.index({ userId: 1 }); // Removed: duplicate of unique: true
 
+/**
+ * Pre-validate middleware
+ * Documents not yet migrated at startup may hold the 25% rate, which the
+ * regime does not have: the ordinary substitute rate is 15%
+ */
+userSettingsSchema.pre("validate", function (next) {
+  if (this.substituteRate === 25) {
+    this.substituteRate = STANDARD_SUBSTITUTE_RATE;
+  }
+  next();
+});
+
 /**
  * Pre-save validation middleware
  * Ensures data consistency across related fields
@@ -0,0 +1,82 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { IWithholdingCertificate } from "@/types";
+
+/**
+ * Withholding Certificate Schema
+ * Certificates (Certificazione Unica) received by a user from the clients
+ * that withheld tax on the invoices paid during a year
+ * Follows Single Responsibility Principle - handles only certificate data persistence
+ */
+const withholdingCertificateSchema = new Schema<IWithholdingCertificate>(
+  {
+    userId: {
+      type: String,
+      required: [true, "User ID is required"],
+      ref: "User",
+      validate: {
+        validator: function (userId: string) {
+          return mongoose.Types.ObjectId.isValid(userId);
+        },
+        message: "Invalid user ID format",
+      },
+    },
+    year: {
+      type: Number,
+      required: [true, "Year is required"],
+      min: [2000, "Year cannot be before 2000"],
+      max: [2100, "Year cannot be after 2100"],
+      validate: {
+        validator: function (year: number) {
+          return Number.isInteger(year);
+        },
+        message: "Year must be an integer",
+      },
+    },
+    clientName: {
+      type: String,
+      required: [true, "Client name is required"],
+      trim: true,
+      minlength: [1, "Client name cannot be empty"],
+      maxlength: [200, "Client name cannot exceed 200 characters"],
+    },
+    clientId: {
+      type: String,
+      ref: "Client",
+      default: null,
+    },
+    grossAmount: {
+      type: Number,
+      required: [true, "Gross amount is required"],
+      min: [0, "Gross amount cannot be negative"],
+      max: [999999999.99, "Gross amount is too large"],
+    },
+    withheldAmount: {
+      type: Number,
+      required: [true, "Withheld amount is required"],
+      min: [0, "Withheld amount cannot be negative"],
+      max: [999999999.99, "Withheld amount is too large"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Compound index for one certificate per user, year and client
+ */
+withholdingCertificateSchema.index(
+  { userId: 1, year: 1, clientName: 1 },
+  { unique: true }
+);
+
+/**
+ * Export the WithholdingCertificate model
+ * Simple data model without business logic - follows functional principles
+ */
+export const WithholdingCertificate =
+  (models.WithholdingCertificate as mongoose.Model<IWithholdingCertificate>) ||
+  model<IWithholdingCertificate>(
+    "WithholdingCertificate",
+    withholdingCertificateSchema
+  );
@@ -7,3 +7,15 @@ export { Invoice } from "./Invoice";
 export { Cost } from "./Cost";
 export { ProfessionalFund } from "./ProfessionalFund";
 export { DashboardLayout } from "./DashboardLayout";
+export { IrpefRate } from "./IrpefRate";
+export { PreviousYearContribution } from "./PreviousYearContribution";
+export { InpsParameters } from "./InpsParameters";
+export { CostCategory } from "./CostCategory";
+export { Report } from "./Report";
+export { TaxPayment } from "./TaxPayment";
+export { Client } from "./Client";
+export { FiscalProfile } from "./FiscalProfile";
+export { InvoiceSequence } from "./InvoiceSequence";
+export { WithholdingCertificate } from "./WithholdingCertificate";
+export { RecurringCost } from "./RecurringCost";
+export { RecurringInvoice } from "./RecurringInvoice";
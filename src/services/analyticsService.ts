@@ -11,6 +11,24 @@ import {
   ChartAnalyticsData,
 } from "@/components/charts/advanced/types";
 import { AnalyticsPeriod } from "@/components/analytics/BusinessAnalytics";
+import {
+  BolloInfo,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoiceStatus,
+  PensionChargeInfo,
+  RevenueRecognition,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
+import {
+  getRecognitionDate,
+  splitInvoicesByReceipt,
+} from "@/utils/revenueRecognitionCalculations";
 
 /**
  * Analytics Data Interface
@@ -18,15 +36,41 @@ import { AnalyticsPeriod } from "@/components/analytics/BusinessAnalytics";
  */
 export interface AnalyticsServiceData {
   invoices: {
+    id?: string;
     issueDate: string;
+    paymentDate?: string;
     amount: number;
     clientName: string;
     category?: string;
+    documentType?: InvoiceDocumentType;
+    originalInvoiceId?: string | null;
+    status?: InvoiceStatus;
+    // Amounts settled by each payment, for the cash basis
+    items?: InvoiceLineItem[];
+    vat?: VatInfo | null;
+    bollo?: BolloInfo | null;
+    withholding?: WithholdingInfo | null;
+    pensionCharge?: PensionChargeInfo | null;
+    payments?: { date: string; amount: number }[];
   }[];
   costs: { date: string; amount: number; description: string }[];
   period: AnalyticsPeriod;
+  /** When invoices count as revenue, when issued by default */
+  recognition?: RevenueRecognition;
 }
 
+/**
+ * Revenue of each invoice by issue date: drafts and cancelled invoices
+ * are left out, credit notes reduce the revenue
+ */
+const getRevenueEntries = (
+  invoices: AnalyticsServiceData["invoices"]
+): { issueDate: string; amount: number }[] =>
+  filterRevenueInvoices(invoices).map((inv) => ({
+    issueDate: inv.issueDate,
+    amount: getSignedAmount(inv),
+  }));
+
 /**
  * KPI Calculator Service
  * SRP: Handles only KPI calculations
@@ -37,16 +81,30 @@ export class KPICalculatorService {
    * SRP: Calculates only financial performance metrics
    */
   static calculateFinancialKPIs(data: AnalyticsServiceData): KPIMetric[] {
-    const { invoices, costs, period } = data;
+    const { invoices, costs, period, recognition = "accrual" } = data;
     const monthsToAnalyze = this.getMonthsFromPeriod(period);
 
+    // Invoices count in the period they are recognized as revenue, on
+    // each receipt under the cash basis
+    const receivedInvoices =
+      recognition === "cash" ? splitInvoicesByReceipt(invoices) : invoices;
+    const recognizedInvoices = receivedInvoices
+      .map((inv) => ({
+        inv,
+        date: getRecognitionDate(inv, recognition, invoices),
+      }))
+      .filter(
+        (entry): entry is { inv: (typeof invoices)[number]; date: Date } =>
+          entry.date !== null
+      );
+
     // Filter data for current period
     const cutoffDate = new Date();
     cutoffDate.setMonth(cutoffDate.getMonth() - monthsToAnalyze);
 
-    const currentInvoices = invoices.filter(
-      (inv) => new Date(inv.issueDate) >= cutoffDate
-    );
+    const currentInvoices = recognizedInvoices
+      .filter(({ date }) => date >= cutoffDate)
+      .map(({ inv }) => inv);
     const currentCosts = costs.filter(
       (cost) => new Date(cost.date) >= cutoffDate
     );
@@ -55,10 +113,9 @@ export class KPICalculatorService {
     const prevCutoffDate = new Date(cutoffDate);
     prevCutoffDate.setMonth(prevCutoffDate.getMonth() - monthsToAnalyze);
 
-    const prevInvoices = invoices.filter((inv) => {
-      const date = new Date(inv.issueDate);
-      return date >= prevCutoffDate && date < cutoffDate;
-    });
+    const prevInvoices = recognizedInvoices
+      .filter(({ date }) => date >= prevCutoffDate && date < cutoffDate)
+      .map(({ inv }) => inv);
     const prevCosts = costs.filter((cost) => {
       const date = new Date(cost.date);
       return date >= prevCutoffDate && date < cutoffDate;
@@ -66,7 +123,7 @@ export class KPICalculatorService {
 
     // Calculate current metrics
     const currentRevenue = currentInvoices.reduce(
-      (sum, inv) => sum + inv.amount,
+      (sum, inv) => sum + getSignedAmount(inv),
       0
     );
     const currentCostTotal = currentCosts.reduce(
@@ -78,7 +135,10 @@ export class KPICalculatorService {
       currentRevenue > 0 ? (currentProfit / currentRevenue) * 100 : 0;
 
     // Calculate previous metrics
-    const prevRevenue = prevInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+    const prevRevenue = prevInvoices.reduce(
+      (sum, inv) => sum + getSignedAmount(inv),
+      0
+    );
     const prevCostTotal = prevCosts.reduce((sum, cost) => sum + cost.amount, 0);
     const prevProfit = prevRevenue - prevCostTotal;
     const prevMargin = prevRevenue > 0 ? (prevProfit / prevRevenue) * 100 : 0;
@@ -408,11 +468,12 @@ export class BusinessInsightsService {
    * SRP: Analyzes only seasonal patterns
    */
   private static analyzeSeasonality(
-    invoices: { issueDate: string; amount: number }[]
+    invoices: AnalyticsServiceData["invoices"]
   ): BusinessInsight | null {
-    if (invoices.length < 12) return null;
+    const revenueEntries = getRevenueEntries(invoices);
+    if (revenueEntries.length < 12) return null;
 
-    const monthlyRevenue = invoices.reduce((acc, inv) => {
+    const monthlyRevenue = revenueEntries.reduce((acc, inv) => {
       const month = new Date(inv.issueDate).getMonth();
       acc[month] = (acc[month] || 0) + inv.amount;
       return acc;
@@ -520,12 +581,12 @@ export class ChartAnalyticsProcessor {
    * SRP: Processes only revenue data for visualization
    */
   static processRevenueData(
-    invoices: { issueDate: string; amount: number }[],
+    invoices: AnalyticsServiceData["invoices"],
     period: AnalyticsPeriod
   ): ChartAnalyticsData {
     const monthsToAnalyze = this.getMonthsFromPeriod(period);
     const monthlyData = this.generateMonthlyData(
-      invoices,
+      getRevenueEntries(invoices),
       monthsToAnalyze,
       "revenue"
     );
@@ -593,11 +654,12 @@ export class ChartAnalyticsProcessor {
    * SRP: Processes only profit data for visualization
    */
   static processProfitData(
-    invoices: { issueDate: string; amount: number }[],
+    invoices: AnalyticsServiceData["invoices"],
     costs: { date: string; amount: number }[],
     period: AnalyticsPeriod
   ): ChartAnalyticsData {
     const monthsToAnalyze = this.getMonthsFromPeriod(period);
+    const revenueEntries = getRevenueEntries(invoices);
 
     // Generate monthly profit data
     const monthlyData = [];
@@ -606,7 +668,7 @@ export class ChartAnalyticsProcessor {
       date.setMonth(date.getMonth() - i);
       const monthKey = date.toISOString().slice(0, 7);
 
-      const monthInvoices = invoices.filter((inv) =>
+      const monthInvoices = revenueEntries.filter((inv) =>
         inv.issueDate.startsWith(monthKey)
       );
       const monthCosts = costs.filter((cost) => cost.date.startsWith(monthKey));
@@ -281,6 +281,60 @@ class ApiClient {
   async delete<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
     return this.makeRequest<T>(endpoint, { method: "DELETE", signal });
   }
+
+  /**
+   * Download a binary resource
+   * Sends the authentication header and returns the body as a Blob
+   */
+  async download(endpoint: string, signal?: AbortSignal): Promise<Blob> {
+    const response = await fetch(this.buildUrl(endpoint), {
+      method: "GET",
+      headers: this.buildHeaders(),
+      signal,
+    });
+
+    if (response.status === 401) {
+      this.setAuthToken(null);
+      throw new ApiError("Authentication required", 401);
+    }
+
+    if (!response.ok) {
+      // Error responses still follow the ApiResponse format
+      await this.processResponse<unknown>(response);
+      throw new ApiError(
+        `HTTP error! status: ${response.status}`,
+        response.status
+      );
+    }
+
+    return response.blob();
+  }
+
+  /**
+   * Upload multipart form data
+   * Lets the browser set the multipart content type and boundary
+   */
+  async upload<T>(
+    endpoint: string,
+    formData: FormData,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { "Content-Type": _, ...headers } = this.buildHeaders();
+
+    const response = await fetch(this.buildUrl(endpoint), {
+      method: "POST",
+      headers,
+      body: formData,
+      signal,
+    });
+
+    if (response.status === 401) {
+      this.setAuthToken(null);
+      throw new ApiError("Authentication required", 401);
+    }
+
+    return this.processResponse<T>(response);
+  }
 }
 
 /**
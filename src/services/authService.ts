@@ -8,6 +8,7 @@ export interface User {
   email: string;
   name: string;
   googleId?: string;
+  role: "user" | "admin" | "super_admin";
 }
 
 /**
@@ -12,6 +12,23 @@ import type {
   YearComparisonDataPoint,
   FreelanceMetrics 
 } from '@/components/charts/types';
+import type {
+  InvoiceDocumentType,
+  InvoiceStatus,
+  PensionChargeInfo,
+  RevenueRecognition
+} from '@/types';
+import { filterRevenueInvoices, isCreditNote } from '@/utils/invoiceCalculations';
+import {
+  calculateRecognizedRevenue,
+  calculateRecognizedRevenueInMonth,
+  filterInvoicesRecognizedInMonth,
+  getRevenueRecognition
+} from '@/utils/revenueRecognitionCalculations';
+import {
+  ProjectedRevenue,
+  RECURRING_REVENUE_PROJECTION_MONTHS
+} from '@/utils/recurringInvoiceCalculations';
 
 // TODO: Import calculation utilities when needed for advanced features
 // import { getCurrentMonthStats, getMonthlyStats } from '@/utils/invoiceCalculations';
@@ -23,6 +40,11 @@ interface Invoice {
   amount: number;
   issueDate: string | Date;
   paymentDate?: string | Date;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  pensionCharge?: PensionChargeInfo | null;
+  status?: InvoiceStatus;
+  payments?: { date: string | Date; amount: number }[];
 }
 
 interface Cost {
@@ -47,27 +69,36 @@ export class ChartDataService {
   /**
    * Generate Cash Flow Chart Data
    * Critical for freelancers to visualize money in vs money out
+   * Income falls in the month its invoices are recognized as revenue.
+   * Revenue expected from recurring invoices extends the chart with
+   * projected months, on the issue date or, on a cash basis, the due date
    */
   static generateCashFlowData(
     invoices: Invoice[], 
     costs: Cost[], 
-    months: number = 12
+    months: number = 12,
+    recognition: RevenueRecognition = 'accrual',
+    projectedRevenue: ProjectedRevenue[] = []
   ): CashFlowDataPoint[] {
     const result: CashFlowDataPoint[] = [];
     const now = new Date();
+    const projectedDate = (revenue: ProjectedRevenue) =>
+      recognition === 'cash' ? revenue.dueDate : revenue.issueDate;
+    
+    // Extend the chart up to the month of the last projected revenue
+    const upcomingMonths = projectedRevenue.reduce((max, revenue) => {
+      const date = projectedDate(revenue);
+      const monthsAhead =
+        (date.getFullYear() - now.getFullYear()) * 12 + date.getMonth() - now.getMonth();
+      return Math.min(RECURRING_REVENUE_PROJECTION_MONTHS, Math.max(max, monthsAhead));
+    }, 0);
     
     for (let i = months - 1; i >= 0; i--) {
       const targetDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
       // const monthKey = targetDate.toISOString().substring(0, 7); // YYYY-MM // TODO: Use for future features
       
-      // Calculate income for this month
-      const monthlyIncome = invoices
-        .filter(invoice => {
-          const issueDate = new Date(invoice.issueDate);
-          return issueDate.getFullYear() === targetDate.getFullYear() && 
-                 issueDate.getMonth() === targetDate.getMonth();
-        })
-        .reduce((sum, invoice) => sum + invoice.amount, 0);
+      // Calculate income for this month, net of credit notes
+      const monthlyIncome = this.calculateRevenueForMonth(invoices, targetDate, recognition);
       
       // Calculate expenses for this month
       const monthlyExpenses = costs
@@ -89,6 +120,27 @@ export class ChartDataService {
       });
     }
     
+    // Future months only hold the revenue expected from recurring invoices
+    for (let i = 1; i <= upcomingMonths; i++) {
+      const targetDate = new Date(now.getFullYear(), now.getMonth() + i, 1);
+      const projectedIncome = projectedRevenue
+        .filter(revenue => {
+          const date = projectedDate(revenue);
+          return date.getFullYear() === targetDate.getFullYear() &&
+                 date.getMonth() === targetDate.getMonth();
+        })
+        .reduce((sum, revenue) => sum + revenue.amount, 0);
+      
+      result.push({
+        month: targetDate.toLocaleDateString('it-IT', { month: 'short', year: '2-digit' }),
+        income: projectedIncome,
+        expenses: 0,
+        net: projectedIncome,
+        date: targetDate,
+        projected: true
+      });
+    }
+    
     return result;
   }
 
@@ -99,7 +151,8 @@ export class ChartDataService {
   static generateMonthlyTrendData(
     invoices: Invoice[], 
     months: number = 12,
-    metric: 'revenue' | 'profit' | 'count' = 'revenue'
+    metric: 'revenue' | 'profit' | 'count' = 'revenue',
+    recognition: RevenueRecognition = 'accrual'
   ): TrendDataPoint[] {
     const result: TrendDataPoint[] = [];
     const now = new Date();
@@ -109,10 +162,10 @@ export class ChartDataService {
       const previousDate = new Date(now.getFullYear(), now.getMonth() - i - 1, 1);
       
       // Current month value
-      const currentValue = this.calculateMetricForMonth(invoices, targetDate, metric);
+      const currentValue = this.calculateMetricForMonth(invoices, targetDate, metric, recognition);
       
       // Previous month value for growth calculation
-      const previousValue = this.calculateMetricForMonth(invoices, previousDate, metric);
+      const previousValue = this.calculateMetricForMonth(invoices, previousDate, metric, recognition);
       
       // Calculate growth percentage
       const growth = previousValue > 0 ? ((currentValue - previousValue) / previousValue) * 100 : 0;
@@ -212,7 +265,8 @@ export class ChartDataService {
     currentYearInvoices: Invoice[],
     previousYearInvoices: Invoice[],
     currentYear: number,
-    previousYear: number
+    previousYear: number,
+    recognition: RevenueRecognition = 'accrual'
   ): YearComparisonDataPoint[] {
     const result: YearComparisonDataPoint[] = [];
     const months = [
@@ -222,20 +276,14 @@ export class ChartDataService {
     
     for (let month = 0; month < 12; month++) {
       // Current year revenue for this month
-      const currentYearRevenue = currentYearInvoices
-        .filter(invoice => {
-          const date = new Date(invoice.issueDate);
-          return date.getFullYear() === currentYear && date.getMonth() === month;
-        })
-        .reduce((sum, invoice) => sum + invoice.amount, 0);
+      const currentYearRevenue = calculateRecognizedRevenueInMonth(
+        currentYearInvoices, month + 1, currentYear, recognition
+      );
       
       // Previous year revenue for this month
-      const previousYearRevenue = previousYearInvoices
-        .filter(invoice => {
-          const date = new Date(invoice.issueDate);
-          return date.getFullYear() === previousYear && date.getMonth() === month;
-        })
-        .reduce((sum, invoice) => sum + invoice.amount, 0);
+      const previousYearRevenue = calculateRecognizedRevenueInMonth(
+        previousYearInvoices, month + 1, previousYear, recognition
+      );
       
       result.push({
         month: months[month],
@@ -250,14 +298,19 @@ export class ChartDataService {
 
   /**
    * Generate Freelance Metrics Summary
-   * Key metrics for dashboard
+   * Key metrics for dashboard, revenue being the one recognized in the
+   * year as for the tax regime
    */
   static generateFreelanceMetrics(
     invoices: Invoice[],
     costs: Cost[],
-    settings: TaxSettings
+    settings: TaxSettings,
+    projectedRevenue: ProjectedRevenue[] = [],
+    year: number = new Date().getFullYear()
   ): FreelanceMetrics {
-    const totalRevenue = invoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+    const recognition = getRevenueRecognition(settings.taxRegime);
+    const totalRevenue = calculateRecognizedRevenue(invoices, year, recognition);
+    const issuedInvoices = filterRevenueInvoices(invoices).filter(inv => !isCreditNote(inv));
     const totalExpenses = costs.reduce((sum, cost) => sum + cost.amount, 0);
     const netIncome = totalRevenue - totalExpenses;
     
@@ -266,14 +319,14 @@ export class ChartDataService {
     const taxesPaid = taxBreakdown.reduce((sum, tax) => sum + tax.amount, 0);
     
     // Calculate average invoice
-    const averageInvoice = invoices.length > 0 ? totalRevenue / invoices.length : 0;
+    const averageInvoice = issuedInvoices.length > 0 ? totalRevenue / issuedInvoices.length : 0;
     
     // Calculate unique clients (simplified by assuming different amounts = different clients)
-    const uniqueAmounts = new Set(invoices.map(inv => inv.amount));
+    const uniqueAmounts = new Set(issuedInvoices.map(inv => inv.amount));
     const clientsCount = uniqueAmounts.size;
     
     // Calculate average days to payment
-    const paidInvoices = invoices.filter(inv => inv.paymentDate);
+    const paidInvoices = issuedInvoices.filter(inv => inv.paymentDate);
     const daysToPayment = paidInvoices.length > 0 
       ? paidInvoices.reduce((sum, inv) => {
           const issueDate = new Date(inv.issueDate);
@@ -283,8 +336,10 @@ export class ChartDataService {
         }, 0) / paidInvoices.length
       : 0;
     
-    // Generate cash flow data
-    const cashFlow = this.generateCashFlowData(invoices, costs, 12);
+    // Generate cash flow data, with income recognized as for the tax regime
+    const cashFlow = this.generateCashFlowData(
+      invoices, costs, 12, recognition, projectedRevenue
+    );
     
     return {
       totalRevenue,
@@ -298,28 +353,51 @@ export class ChartDataService {
     };
   }
 
+  /**
+   * Helper: Invoices recognized as revenue in the month of a date
+   */
+  private static filterInvoicesForMonth(
+    invoices: Invoice[],
+    date: Date,
+    recognition: RevenueRecognition
+  ): Invoice[] {
+    return filterInvoicesRecognizedInMonth(
+      invoices, date.getMonth() + 1, date.getFullYear(), recognition
+    );
+  }
+
+  /**
+   * Helper: Revenue recognized in the month of a date, net of credit notes
+   */
+  private static calculateRevenueForMonth(
+    invoices: Invoice[],
+    date: Date,
+    recognition: RevenueRecognition
+  ): number {
+    return calculateRecognizedRevenueInMonth(
+      invoices, date.getMonth() + 1, date.getFullYear(), recognition
+    );
+  }
+
   /**
    * Helper: Calculate metric for specific month
    */
   private static calculateMetricForMonth(
     invoices: Invoice[], 
     date: Date, 
-    metric: 'revenue' | 'profit' | 'count'
+    metric: 'revenue' | 'profit' | 'count',
+    recognition: RevenueRecognition
   ): number {
-    const monthInvoices = invoices.filter(invoice => {
-      const invoiceDate = new Date(invoice.issueDate);
-      return invoiceDate.getFullYear() === date.getFullYear() && 
-             invoiceDate.getMonth() === date.getMonth();
-    });
+    const monthInvoices = this.filterInvoicesForMonth(invoices, date, recognition);
     
     switch (metric) {
       case 'revenue':
-        return monthInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+        return this.calculateRevenueForMonth(invoices, date, recognition);
       case 'count':
-        return monthInvoices.length;
+        return monthInvoices.filter(inv => !isCreditNote(inv)).length;
       case 'profit':
         // Simplified profit calculation
-        return monthInvoices.reduce((sum, inv) => sum + inv.amount, 0) * 0.7; // Assume 30% costs
+        return this.calculateRevenueForMonth(invoices, date, recognition) * 0.7; // Assume 30% costs
       default:
         return 0;
     }
@@ -0,0 +1,81 @@
+import { api } from "./api";
+import { ClientRequest, ClientResponse } from "@/types";
+
+/**
+ * Client interface for API responses
+ */
+export type Client = ClientResponse;
+
+/**
+ * Client creation and update data interface
+ */
+export type ClientData = ClientRequest;
+
+/**
+ * Client Service
+ *
+ * Manages the client registry of the authenticated user:
+ * anagrafica, fiscal identifiers and invoice defaults.
+ */
+class ClientService {
+  /**
+   * Get the clients of the user
+   * Uses GET /api/clients endpoint
+   */
+  async getClients(): Promise<Client[]> {
+    try {
+      const clients = await api.get<Client[]>("/clients");
+      return clients;
+    } catch (error) {
+      console.error("Error fetching clients:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a client
+   * Uses POST /api/clients endpoint
+   */
+  async createClient(data: ClientData): Promise<Client> {
+    try {
+      const client = await api.post<Client>("/clients", data);
+      return client;
+    } catch (error) {
+      console.error("Error creating client:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a client
+   * Uses PUT /api/clients/{id} endpoint
+   */
+  async updateClient(id: string, data: ClientData): Promise<Client> {
+    try {
+      const client = await api.put<Client>(`/clients/${id}`, data);
+      return client;
+    } catch (error) {
+      console.error("Error updating client:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a client
+   * Uses DELETE /api/clients/{id} endpoint
+   */
+  async deleteClient(id: string): Promise<void> {
+    try {
+      await api.delete(`/clients/${id}`);
+    } catch (error) {
+      console.error("Error deleting client:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Global client service instance
+ * Singleton pattern for consistent state management
+ */
+export const clientService = new ClientService();
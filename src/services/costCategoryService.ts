@@ -0,0 +1,84 @@
+import { api } from "./api";
+
+/**
+ * Cost category interface for API responses
+ */
+export interface CostCategory {
+  id: string;
+  name: string;
+  code?: string;
+  isSystem: boolean;
+}
+
+/**
+ * Cost Category Service
+ *
+ * Manages the cost category taxonomy: seeded system categories
+ * are read-only, custom categories belong to the authenticated user.
+ */
+class CostCategoryService {
+  /**
+   * Get system categories plus the user's own categories
+   * Uses GET /api/cost-categories endpoint
+   */
+  async getCategories(): Promise<CostCategory[]> {
+    try {
+      const categories = await api.get<CostCategory[]>("/cost-categories");
+      return categories;
+    } catch (error) {
+      console.error("Error fetching cost categories:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a custom category
+   * Uses POST /api/cost-categories endpoint
+   */
+  async createCategory(name: string): Promise<CostCategory> {
+    try {
+      const category = await api.post<CostCategory>("/cost-categories", {
+        name,
+      });
+      return category;
+    } catch (error) {
+      console.error("Error creating cost category:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a custom category
+   * Uses PUT /api/cost-categories/{id} endpoint
+   */
+  async updateCategory(id: string, name: string): Promise<CostCategory> {
+    try {
+      const category = await api.put<CostCategory>(`/cost-categories/${id}`, {
+        name,
+      });
+      return category;
+    } catch (error) {
+      console.error("Error updating cost category:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom category
+   * Uses DELETE /api/cost-categories/{id} endpoint
+   */
+  async deleteCategory(id: string): Promise<void> {
+    try {
+      await api.delete(`/cost-categories/${id}`);
+    } catch (error) {
+      console.error("Error deleting cost category:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Global cost category service instance
+ * Singleton pattern for consistent state management
+ */
+export const costCategoryService = new CostCategoryService();
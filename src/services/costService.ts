@@ -1,4 +1,5 @@
 import { api } from "./api";
+import { calculateDeductibleAmount } from "@/utils/costCalculations";
 
 /**
  * Cost interface for API responses
@@ -9,6 +10,11 @@ export interface Cost {
   date: string;
   amount: number;
   deductible: boolean;
+  deductionPercentage: number;
+  categoryId: string | null;
+  supplierName?: string;
+  documentNumber?: string;
+  recurringCostId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -21,6 +27,8 @@ export interface CreateCostData {
   date: string;
   amount: number;
   deductible: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
 }
 
 /**
@@ -31,6 +39,8 @@ export interface UpdateCostData {
   date?: string;
   amount?: number;
   deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
 }
 
 /**
@@ -145,14 +155,12 @@ class CostService {
 
   /**
    * Calculate deductible costs for a year
-   * Client-side calculation helper
+   * Client-side calculation helper, honours partial deduction percentages
    */
   calculateDeductibleTotal(costs: Cost[], year: number): number {
     return costs
-      .filter(
-        (cost) => cost.deductible && new Date(cost.date).getFullYear() === year
-      )
-      .reduce((total, cost) => total + cost.amount, 0);
+      .filter((cost) => new Date(cost.date).getFullYear() === year)
+      .reduce((total, cost) => total + calculateDeductibleAmount(cost), 0);
   }
 
   /**
@@ -0,0 +1,54 @@
+import { api } from "./api";
+import { FiscalProfileRequest, FiscalProfileResponse } from "@/types";
+
+/**
+ * Fiscal profile interface for API responses
+ */
+export type FiscalProfile = FiscalProfileResponse;
+
+/**
+ * Fiscal profile update data interface
+ */
+export type FiscalProfileData = FiscalProfileRequest;
+
+/**
+ * Fiscal Profile Service
+ *
+ * Manages the anagrafica of the user as invoice issuer,
+ * used to export invoices in FatturaPA format.
+ */
+class FiscalProfileService {
+  /**
+   * Get the fiscal profile of the user, null when not yet set
+   * Uses GET /api/fiscal-profile endpoint
+   */
+  async getFiscalProfile(): Promise<FiscalProfile | null> {
+    try {
+      const profile = await api.get<FiscalProfile | null>("/fiscal-profile");
+      return profile;
+    } catch (error) {
+      console.error("Error fetching fiscal profile:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the fiscal profile of the user
+   * Uses PUT /api/fiscal-profile endpoint
+   */
+  async saveFiscalProfile(data: FiscalProfileData): Promise<FiscalProfile> {
+    try {
+      const profile = await api.put<FiscalProfile>("/fiscal-profile", data);
+      return profile;
+    } catch (error) {
+      console.error("Error saving fiscal profile:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Global fiscal profile service instance
+ * Singleton pattern for consistent state management
+ */
+export const fiscalProfileService = new FiscalProfileService();
@@ -1,7 +1,12 @@
 import api from "@/services/api";
+import { InpsRateType, InpsParametersRequest } from "@/types";
+import {
+  DEFAULT_INPS_RATES,
+  getDefaultInpsParameters,
+} from "@/utils/inpsCalculations";
 
 export interface InpsRate {
-  type: string;
+  type: InpsRateType;
   description: string;
   rate: number;
 }
@@ -16,33 +21,11 @@ export interface InpsParameters {
   };
 }
 
-export const DEFAULT_INPS_RATE = {
-  type: "PROFESSIONAL",
-  description: "Professionisti senza altra copertura",
-  rate: 26.07,
-};
+export const DEFAULT_INPS_RATE: InpsRate = DEFAULT_INPS_RATES[0];
 
-export const DEFAULT_INPS_PARAMETERS: InpsParameters = {
-  year: new Date().getFullYear(),
-  rates: [
-    {
-      type: "PROFESSIONAL",
-      description: "Professionisti senza altra copertura",
-      rate: 26.07,
-    },
-    {
-      type: "PROFESSIONAL_WITH_OTHER",
-      description: "Professionisti con altra copertura",
-      rate: 24,
-    },
-  ],
-  maxIncome: 103055,
-  minIncome: 16243,
-  minContributions: {
-    PROFESSIONAL: 4231.41,
-    PROFESSIONAL_WITH_OTHER: 3898.32,
-  },
-};
+export const DEFAULT_INPS_PARAMETERS: InpsParameters = getDefaultInpsParameters(
+  new Date().getFullYear()
+);
 
 class InpsService {
   private currentParameters: InpsParameters | null = null;
@@ -69,6 +52,52 @@ class InpsService {
     return response;
   }
 
+  async getAllParameters(): Promise<InpsParameters[]> {
+    try {
+      const response = await api.get<InpsParameters[]>("/inps/parameters");
+      return response;
+    } catch (error) {
+      console.error("Error fetching INPS parameters:", error);
+      throw error;
+    }
+  }
+
+  async createParameters(data: InpsParametersRequest): Promise<InpsParameters> {
+    try {
+      const response = await api.post<InpsParameters>("/inps/parameters", data);
+      this.currentParameters = null;
+      return response;
+    } catch (error) {
+      console.error("Error creating INPS parameters:", error);
+      throw error;
+    }
+  }
+
+  async updateParameters(data: InpsParametersRequest): Promise<InpsParameters> {
+    try {
+      const { year, ...parameters } = data;
+      const response = await api.put<InpsParameters>(
+        `/inps/parameters/${year}`,
+        parameters
+      );
+      this.currentParameters = null;
+      return response;
+    } catch (error) {
+      console.error("Error updating INPS parameters:", error);
+      throw error;
+    }
+  }
+
+  async deleteParameters(year: number): Promise<void> {
+    try {
+      await api.delete(`/inps/parameters/${year}`);
+      this.currentParameters = null;
+    } catch (error) {
+      console.error("Error deleting INPS parameters:", error);
+      throw error;
+    }
+  }
+
   getDefaultRate(): InpsRate {
     return DEFAULT_INPS_RATE;
   }
@@ -1,4 +1,22 @@
 import { api } from "./api";
+import {
+  BolloInfo,
+  FatturaPaImportReport,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoiceNumberingStatus,
+  InvoiceStatus,
+  PaymentMethod,
+  PaymentTerms,
+  PensionChargeInfo,
+  RevenueRecognition,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
+import {
+  filterRevenueInvoices,
+  getSignedAmount,
+} from "@/utils/invoiceCalculations";
 
 /**
  * Invoice interface for API responses
@@ -6,36 +24,73 @@ import { api } from "./api";
 export interface Invoice {
   id: string;
   userId: string;
-  number: string;
+  // Drafts are numbered when issued
+  number?: string;
   issueDate: string;
   title: string;
   clientName: string;
   amount: number;
+  items?: InvoiceLineItem[];
   paymentDate?: string;
+  paymentTerms?: PaymentTerms;
+  dueDate?: string;
+  clientId?: string | null;
   fiscalYear: number;
-  vat?: {
-    type: "standard" | "reduced10" | "reduced5" | "reduced4" | "custom";
-    rate: number;
-  };
+  vat?: VatInfo | null;
+  bollo?: BolloInfo | null;
+  withholding?: WithholdingInfo | null;
+  pensionCharge?: PensionChargeInfo | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  recurringInvoiceId?: string | null;
+  status?: InvoiceStatus;
+  statusHistory?: { status: InvoiceStatus; changedAt: string }[];
+  payments?: {
+    _id: string;
+    date: string;
+    amount: number;
+    method: PaymentMethod;
+    note?: string;
+  }[];
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Payment received on an invoice
+ */
+export interface InvoicePaymentData {
+  date: string;
+  amount: number;
+  method?: PaymentMethod;
+  note?: string;
+}
+
 /**
  * Invoice creation data interface
  */
 export interface CreateInvoiceData {
-  number: string;
+  // Left out to take the next number of the numbering sequence
+  number?: string;
   issueDate: string;
   title: string;
   clientName: string;
-  amount: number;
+  // Amount and VAT are derived from the lines
+  items: Omit<InvoiceLineItem, "amount">[];
   paymentDate?: string;
+  paymentTerms?: PaymentTerms;
+  dueDate?: string;
+  clientId?: string | null;
   fiscalYear: number;
-  vat?: {
-    type: "standard" | "reduced10" | "reduced5" | "reduced4" | "custom";
-    rate: number;
-  };
+  bollo?: { chargedToClient: boolean };
+  withholding?: { rate: number } | null;
+  pensionCharge?: { rate: number } | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  // Recurring invoice whose draft is confirmed
+  recurringInvoiceId?: string;
+  // Drafts are saved without a number and issued later
+  status?: "draft" | "issued";
 }
 
 /**
@@ -47,12 +102,16 @@ export interface UpdateInvoiceData {
   title?: string;
   clientName?: string;
   amount?: number;
+  items?: Omit<InvoiceLineItem, "amount">[];
   paymentDate?: string;
+  paymentTerms?: PaymentTerms;
+  dueDate?: string;
+  clientId?: string | null;
   fiscalYear?: number;
-  vat?: {
-    type: "standard" | "reduced10" | "reduced5" | "reduced4" | "custom";
-    rate: number;
-  };
+  vat?: VatInfo;
+  bollo?: { chargedToClient: boolean };
+  withholding?: { rate: number } | null;
+  pensionCharge?: { rate: number } | null;
 }
 
 /**
@@ -72,10 +131,16 @@ class InvoiceService {
   /**
    * Get invoices by year
    * Uses GET /api/invoices?year={year} endpoint
+   * With a revenue recognition, gets the invoices whose revenue can fall
+   * in the year, including earlier ones paid in it for the cash basis
    */
-  async getInvoicesByYear(year: number): Promise<Invoice[]> {
+  async getInvoicesByYear(
+    year: number,
+    recognition?: RevenueRecognition
+  ): Promise<Invoice[]> {
     try {
-      const invoices = await api.get<Invoice[]>(`/invoices?year=${year}`);
+      const query = recognition ? `&recognition=${recognition}` : "";
+      const invoices = await api.get<Invoice[]>(`/invoices?year=${year}${query}`);
       return invoices;
     } catch (error) {
       console.error("Error fetching invoices:", error);
@@ -157,6 +222,67 @@ class InvoiceService {
     }
   }
 
+  /**
+   * Download the FatturaPA XML of an invoice
+   * Uses GET /api/invoices/{id}/fatturapa endpoint
+   */
+  async downloadFatturaPa(id: string): Promise<Blob> {
+    try {
+      return await api.download(`/invoices/${id}/fatturapa`);
+    } catch (error) {
+      console.error("Error exporting FatturaPA invoice:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import FatturaPA XML files or zip archives
+   * Uses POST /api/fatturapa/import endpoint, received invoices become costs
+   */
+  async importFatturaPa(files: File[]): Promise<FatturaPaImportReport> {
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      return await api.upload<FatturaPaImportReport>(
+        "/fatturapa/import",
+        formData
+      );
+    } catch (error) {
+      console.error("Error importing FatturaPA files:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the numbering status of a year: pattern, next number and gaps
+   * Uses GET /api/invoices/numbering?year={year} endpoint
+   */
+  async getNumberingStatus(year: number): Promise<InvoiceNumberingStatus> {
+    try {
+      return await api.get<InvoiceNumberingStatus>(
+        `/invoices/numbering?year=${year}`
+      );
+    } catch (error) {
+      console.error("Error fetching invoice numbering:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the invoice numbering pattern
+   * Uses PUT /api/invoices/numbering endpoint
+   */
+  async updateNumberPattern(pattern: string): Promise<InvoiceNumberingStatus> {
+    try {
+      return await api.put<InvoiceNumberingStatus>("/invoices/numbering", {
+        pattern,
+      });
+    } catch (error) {
+      console.error("Error updating invoice numbering:", error);
+      throw error;
+    }
+  }
+
   /**
    * Update payment date for an invoice
    * Convenience method for payment tracking
@@ -167,7 +293,7 @@ class InvoiceService {
   ): Promise<Invoice> {
     try {
       const invoice = await api.put<Invoice>(`/invoices/${id}`, {
-        paymentDate: paymentDate || undefined,
+        paymentDate: paymentDate || null,
       });
       return invoice;
     } catch (error) {
@@ -176,17 +302,69 @@ class InvoiceService {
     }
   }
 
+  /**
+   * Move an invoice through its lifecycle
+   * Uses POST /api/invoices/{id}/status endpoint
+   */
+  async updateInvoiceStatus(
+    id: string,
+    status: InvoiceStatus
+  ): Promise<Invoice> {
+    try {
+      const invoice = await api.post<Invoice>(`/invoices/${id}/status`, {
+        status,
+      });
+      return invoice;
+    } catch (error) {
+      console.error("Error updating invoice status:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment received on an invoice
+   * Uses POST /api/invoices/{id}/payments endpoint
+   */
+  async addPayment(id: string, payment: InvoicePaymentData): Promise<Invoice> {
+    try {
+      const invoice = await api.post<Invoice>(
+        `/invoices/${id}/payments`,
+        payment
+      );
+      return invoice;
+    } catch (error) {
+      console.error("Error adding invoice payment:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a payment recorded on an invoice
+   * Uses DELETE /api/invoices/{id}/payments/{paymentId} endpoint
+   */
+  async removePayment(id: string, paymentId: string): Promise<Invoice> {
+    try {
+      const invoice = await api.delete<Invoice>(
+        `/invoices/${id}/payments/${paymentId}`
+      );
+      return invoice;
+    } catch (error) {
+      console.error("Error removing invoice payment:", error);
+      throw error;
+    }
+  }
+
   /**
    * Calculate total revenue for a year
    * Client-side calculation helper
    */
   calculateYearRevenue(invoices: Invoice[], year: number): number {
-    return invoices
+    return filterRevenueInvoices(invoices)
       .filter((invoice) => {
         const issueYear = new Date(invoice.issueDate).getFullYear();
         return issueYear === year;
       })
-      .reduce((total, invoice) => total + invoice.amount, 0);
+      .reduce((total, invoice) => total + getSignedAmount(invoice), 0);
   }
 
   /**
@@ -194,12 +372,12 @@ class InvoiceService {
    * Client-side calculation helper
    */
   calculatePaidRevenue(invoices: Invoice[], year: number): number {
-    return invoices
+    return filterRevenueInvoices(invoices)
       .filter((invoice) => {
         const issueYear = new Date(invoice.issueDate).getFullYear();
         return issueYear === year && invoice.paymentDate;
       })
-      .reduce((total, invoice) => total + invoice.amount, 0);
+      .reduce((total, invoice) => total + getSignedAmount(invoice), 0);
   }
 
   /**
@@ -252,10 +430,10 @@ class InvoiceService {
    * Client-side calculation helper
    */
   calculateVAT(invoice: Invoice): number {
-    if (!invoice.vat) {
-      return 0;
-    }
-    return (invoice.amount * invoice.vat.rate) / 100;
+    return (invoice.items ?? []).reduce(
+      (vat, item) => vat + (item.amount * (item.vat?.vatRate ?? 0)) / 100,
+      0
+    );
   }
 
   /**
@@ -300,6 +478,12 @@ class InvoiceService {
       }
     }
 
+    if ("items" in data) {
+      if (!data.items?.length) {
+        errors.push("La fattura deve avere almeno una riga");
+      }
+    }
+
     if ("amount" in data) {
       if (data.amount === undefined || data.amount <= 0) {
         errors.push("Importo deve essere maggiore di zero");
@@ -346,7 +530,7 @@ class InvoiceService {
     }
 
     if ("vat" in data && data.vat) {
-      if (data.vat.rate < 0 || data.vat.rate > 100) {
+      if (data.vat.vatRate < 0 || data.vat.vatRate > 100) {
         errors.push("Aliquota IVA non valida (0-100%)");
       }
     }
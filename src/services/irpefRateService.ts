@@ -1,7 +1,9 @@
 import api from "./api";
+import { IrpefCalculationRequest, IrpefCalculationResult } from "@/types/tax";
 
 export interface IrpefRate {
-  _id: string;
+  // Missing for the default brackets, served while no table is stored
+  _id?: string;
   rate: number;
   lowerBound: number;
   upperBound?: number;
@@ -12,7 +14,7 @@ export interface IrpefRate {
 class IrpefRateService {
   async getCurrentRates(): Promise<IrpefRate[]> {
     try {
-      const response = await api.get<IrpefRate[]>("/api/irpef-rates");
+      const response = await api.get<IrpefRate[]>("/irpef-rates");
       return response;
     } catch (error) {
       console.error("Error fetching IRPEF rates:", error);
@@ -22,7 +24,7 @@ class IrpefRateService {
 
   async getRatesByYear(year: number): Promise<IrpefRate[]> {
     try {
-      const response = await api.get<IrpefRate[]>(`/api/irpef-rates/${year}`);
+      const response = await api.get<IrpefRate[]>(`/irpef-rates/${year}`);
       return response;
     } catch (error) {
       console.error("Error fetching IRPEF rates:", error);
@@ -30,6 +32,36 @@ class IrpefRateService {
     }
   }
 
+  async updateRatesByYear(
+    year: number,
+    brackets: Array<Pick<IrpefRate, "rate" | "lowerBound" | "upperBound">>
+  ): Promise<IrpefRate[]> {
+    try {
+      const response = await api.put<IrpefRate[]>(`/irpef-rates/${year}`, {
+        brackets,
+      });
+      return response;
+    } catch (error) {
+      console.error("Error updating IRPEF rates:", error);
+      throw error;
+    }
+  }
+
+  async calculateIrpef(
+    request: IrpefCalculationRequest
+  ): Promise<IrpefCalculationResult> {
+    try {
+      const response = await api.post<IrpefCalculationResult>(
+        "/irpef/calculate",
+        request
+      );
+      return response;
+    } catch (error) {
+      console.error("Error calculating IRPEF:", error);
+      throw error;
+    }
+  }
+
   calculateTax(
     income: number,
     rates: IrpefRate[]
@@ -37,6 +69,8 @@ class IrpefRateService {
     totalTax: number;
     brackets: Array<{
       rate: number;
+      lowerBound: number;
+      upperBound?: number;
       taxableAmount: number;
       tax: number;
     }>;
@@ -60,6 +94,8 @@ class IrpefRateService {
         totalTax += bracketTax;
         brackets.push({
           rate: rate.rate,
+          lowerBound: rate.lowerBound,
+          upperBound: rate.upperBound,
           taxableAmount: bracketSize,
           tax: bracketTax,
         });
@@ -9,6 +9,7 @@ export interface ProfessionalFundParameters {
   contributionRate: number;
   minimumContribution: number;
   fixedAnnualContributions: number;
+  integrativeContributionRate?: number;
   year: number;
 }
 
@@ -0,0 +1,200 @@
+import { api } from "./api";
+import { Cost } from "./costService";
+import { RecurrenceFrequency, RecurringCostResponse } from "@/types";
+
+/**
+ * Recurring cost interface for API responses
+ */
+export type RecurringCost = RecurringCostResponse;
+
+/**
+ * Recurring cost creation data interface
+ */
+export interface CreateRecurringCostData {
+  description: string;
+  amount: number;
+  deductible: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate?: string | null;
+  costId?: string;
+}
+
+/**
+ * Recurring cost update data interface
+ */
+export interface UpdateRecurringCostData {
+  description?: string;
+  amount?: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  frequency?: RecurrenceFrequency;
+  endDate?: string | null;
+}
+
+/**
+ * Recurrence chosen in the cost form
+ */
+export interface CostRecurrenceData {
+  frequency: RecurrenceFrequency;
+  endDate: string | null;
+  // Whether the changes to the cost apply to the next occurrences too
+  applyToSeries?: boolean;
+}
+
+/**
+ * Recurring Cost Service
+ *
+ * Manages recurring cost series: subscriptions, rent and fees repeated
+ * monthly, quarterly or yearly. The server generates their costs once due.
+ */
+class RecurringCostService {
+  /**
+   * Get the recurring cost series of the authenticated user
+   * Uses GET /api/costs/recurring endpoint
+   */
+  async getRecurringCosts(): Promise<RecurringCost[]> {
+    try {
+      const series = await api.get<RecurringCost[]>("/costs/recurring");
+      return series;
+    } catch (error) {
+      console.error("Error fetching recurring costs:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a recurring cost series by ID
+   * Uses GET /api/costs/recurring/{id} endpoint
+   */
+  async getRecurringCostById(id: string): Promise<RecurringCost> {
+    try {
+      const series = await api.get<RecurringCost>(`/costs/recurring/${id}`);
+      return series;
+    } catch (error) {
+      console.error("Error fetching recurring cost:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a recurring cost series, generating the occurrences already due
+   * Uses POST /api/costs/recurring endpoint
+   */
+  async createRecurringCost(
+    data: CreateRecurringCostData
+  ): Promise<RecurringCost> {
+    try {
+      const series = await api.post<RecurringCost>("/costs/recurring", data);
+      return series;
+    } catch (error) {
+      console.error("Error creating recurring cost:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a recurring cost series, from its next occurrence
+   * Uses PUT /api/costs/recurring/{id} endpoint
+   */
+  async updateRecurringCost(
+    id: string,
+    data: UpdateRecurringCostData
+  ): Promise<RecurringCost> {
+    try {
+      const series = await api.put<RecurringCost>(
+        `/costs/recurring/${id}`,
+        data
+      );
+      return series;
+    } catch (error) {
+      console.error("Error updating recurring cost:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Skip an upcoming occurrence of a series, or restore it
+   * Uses POST /api/costs/recurring/{id}/skip endpoint
+   */
+  async skipOccurrence(
+    id: string,
+    date: string,
+    skipped: boolean
+  ): Promise<RecurringCost> {
+    try {
+      const series = await api.post<RecurringCost>(
+        `/costs/recurring/${id}/skip`,
+        { date, skipped }
+      );
+      return series;
+    } catch (error) {
+      console.error("Error skipping recurring cost occurrence:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a recurring cost series, keeping its generated costs
+   * Uses DELETE /api/costs/recurring/{id} endpoint
+   */
+  async deleteRecurringCost(id: string): Promise<void> {
+    try {
+      await api.delete(`/costs/recurring/${id}`);
+    } catch (error) {
+      console.error("Error deleting recurring cost:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the recurrence chosen in the cost form to a saved cost
+   * A one-off cost becomes the first occurrence of a new series, the series
+   * of a recurring cost is updated, or deleted when the recurrence is removed
+   */
+  async saveCostRecurrence(
+    cost: Cost,
+    recurrence: CostRecurrenceData | null
+  ): Promise<void> {
+    if (!recurrence) {
+      if (cost.recurringCostId) {
+        await this.deleteRecurringCost(cost.recurringCostId);
+      }
+      return;
+    }
+
+    const costData = {
+      description: cost.description,
+      amount: cost.amount,
+      deductible: cost.deductible,
+      deductionPercentage: cost.deductionPercentage,
+      categoryId: cost.categoryId,
+    };
+
+    if (cost.recurringCostId) {
+      await this.updateRecurringCost(cost.recurringCostId, {
+        ...(recurrence.applyToSeries ? costData : {}),
+        frequency: recurrence.frequency,
+        endDate: recurrence.endDate,
+      });
+      return;
+    }
+
+    await this.createRecurringCost({
+      ...costData,
+      frequency: recurrence.frequency,
+      startDate: cost.date,
+      endDate: recurrence.endDate,
+      costId: cost.id,
+    });
+  }
+}
+
+/**
+ * Global recurring cost service instance
+ * Singleton pattern for consistent state management
+ */
+export const recurringCostService = new RecurringCostService();
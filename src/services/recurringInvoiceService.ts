@@ -0,0 +1,158 @@
+import { api } from "./api";
+import { invoiceService, Invoice } from "./invoiceService";
+import { RecurrenceFrequency, RecurringInvoiceResponse } from "@/types";
+
+/**
+ * Recurring invoice interface for API responses
+ */
+export type RecurringInvoice = RecurringInvoiceResponse;
+
+/**
+ * Recurrence chosen for an invoice, repeated from its issue date
+ */
+export interface InvoiceRecurrenceData {
+  frequency: RecurrenceFrequency;
+  endDate: string | null;
+}
+
+/**
+ * Recurring invoice update data interface
+ */
+export interface UpdateRecurringInvoiceData {
+  frequency?: RecurrenceFrequency;
+  endDate?: string | null;
+}
+
+/**
+ * Recurring Invoice Service
+ *
+ * Manages recurring invoices of retainer clients: templates repeated
+ * monthly, quarterly or yearly whose due occurrences are drafts until
+ * the user confirms them
+ */
+class RecurringInvoiceService {
+  /**
+   * Get the recurring invoices of the authenticated user with their drafts
+   * Uses GET /api/invoices/recurring endpoint
+   */
+  async getRecurringInvoices(): Promise<RecurringInvoice[]> {
+    try {
+      const templates = await api.get<RecurringInvoice[]>(
+        "/invoices/recurring"
+      );
+      return templates;
+    } catch (error) {
+      console.error("Error fetching recurring invoices:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Repeat an invoice on a schedule, the invoice being the first occurrence
+   * Uses POST /api/invoices/recurring endpoint
+   */
+  async createRecurringInvoice(
+    invoiceId: string,
+    recurrence: InvoiceRecurrenceData
+  ): Promise<RecurringInvoice> {
+    try {
+      const template = await api.post<RecurringInvoice>(
+        "/invoices/recurring",
+        { invoiceId, ...recurrence }
+      );
+      return template;
+    } catch (error) {
+      console.error("Error creating recurring invoice:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the frequency or the end date of a recurring invoice
+   * Uses PUT /api/invoices/recurring/{id} endpoint
+   */
+  async updateRecurringInvoice(
+    id: string,
+    data: UpdateRecurringInvoiceData
+  ): Promise<RecurringInvoice> {
+    try {
+      const template = await api.put<RecurringInvoice>(
+        `/invoices/recurring/${id}`,
+        data
+      );
+      return template;
+    } catch (error) {
+      console.error("Error updating recurring invoice:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Skip an occurrence of a recurring invoice, or restore it
+   * Uses POST /api/invoices/recurring/{id}/skip endpoint
+   */
+  async skipOccurrence(
+    id: string,
+    date: string,
+    skipped: boolean
+  ): Promise<RecurringInvoice> {
+    try {
+      const template = await api.post<RecurringInvoice>(
+        `/invoices/recurring/${id}/skip`,
+        { date, skipped }
+      );
+      return template;
+    } catch (error) {
+      console.error("Error skipping recurring invoice occurrence:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a recurring invoice, keeping the invoices issued from it
+   * Uses DELETE /api/invoices/recurring/{id} endpoint
+   */
+  async deleteRecurringInvoice(id: string): Promise<void> {
+    try {
+      await api.delete(`/invoices/recurring/${id}`);
+    } catch (error) {
+      console.error("Error deleting recurring invoice:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue the invoice of a draft: the template content dated on the
+   * occurrence, numbered with the next number of its year
+   */
+  async confirmDraft(
+    template: RecurringInvoice,
+    date: string
+  ): Promise<Invoice> {
+    const issueDate = new Date(date);
+
+    return invoiceService.createInvoice({
+      issueDate: issueDate.toISOString(),
+      title: template.title,
+      clientName: template.clientName,
+      clientId: template.clientId,
+      items: template.items,
+      paymentTerms: template.paymentTerms,
+      fiscalYear: issueDate.getUTCFullYear(),
+      bollo: { chargedToClient: template.bolloChargedToClient },
+      withholding: template.withholdingRate
+        ? { rate: template.withholdingRate }
+        : null,
+      pensionCharge: template.pensionChargeRate
+        ? { rate: template.pensionChargeRate }
+        : null,
+      recurringInvoiceId: template.id,
+    });
+  }
+}
+
+/**
+ * Global recurring invoice service instance
+ * Singleton pattern for consistent state management
+ */
+export const recurringInvoiceService = new RecurringInvoiceService();
@@ -0,0 +1,70 @@
+import { ReportRequest, ReportResponse } from "@/types";
+import { api } from "./api";
+
+/**
+ * Report Service
+ *
+ * Generates reports on the server and manages the reports
+ * stored for the authenticated user.
+ */
+class ReportService {
+  /**
+   * Get the reports generated by the user, newest first
+   * Uses GET /api/reports endpoint
+   */
+  async getReports(): Promise<ReportResponse[]> {
+    try {
+      const reports = await api.get<ReportResponse[]>("/reports");
+      return reports;
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate and store a new report
+   * Uses POST /api/reports endpoint
+   */
+  async generateReport(request: ReportRequest): Promise<ReportResponse> {
+    try {
+      const report = await api.post<ReportResponse>("/reports", request);
+      return report;
+    } catch (error) {
+      console.error("Error generating report:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the file of a stored report
+   * Uses GET /api/reports/{id} endpoint
+   */
+  async downloadReport(id: string): Promise<Blob> {
+    try {
+      return await api.download(`/reports/${id}`);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a stored report
+   * Uses DELETE /api/reports/{id} endpoint
+   */
+  async deleteReport(id: string): Promise<void> {
+    try {
+      await api.delete(`/reports/${id}`);
+    } catch (error) {
+      console.error("Error deleting report:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Global report service instance
+ * Singleton pattern for consistent state management
+ */
+export const reportService = new ReportService();
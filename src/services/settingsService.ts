@@ -9,6 +9,7 @@ export interface UserSettings {
   taxRegime: "forfettario" | "ordinario";
   substituteRate?: number;
   profitabilityRate?: number;
+  activityStartDate?: string | null;
   pensionSystem: PensionSystemType;
   professionalFundId?: string;
   inpsRateType?:
@@ -19,6 +20,10 @@ export interface UserSettings {
   manualContributionRate?: number;
   manualMinimumContribution?: number;
   manualFixedAnnualContributions?: number;
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+  isaSubject?: boolean;
+  revenueAlertThresholds?: number[];
 }
 
 /**
@@ -1,5 +1,17 @@
-import { axiosInstance } from '../config/axios';
-import { Invoice } from '../types/Invoice';
+import api from './api';
+import {
+    ForfettarioMonitorResult,
+    PreviousYearContributionResponse,
+    TaxPaymentRequest,
+    TaxPaymentResponse,
+    WithholdingCertificateRequest,
+    WithholdingCertificateResponse,
+    WithholdingSummary
+} from '@/types';
+import {
+    calculateRecognizedRevenue,
+    InvoiceForRecognition
+} from '@/utils/revenueRecognitionCalculations';
 
 export interface TaxCalculationResult {
     totalIncome: number;
@@ -12,35 +24,108 @@ export interface TaxCalculationResult {
 export const taxCalculationService = {
     async getPreviousYearContribution(year: number): Promise<number> {
         try {
-            const response = await axiosInstance.get(`/api/contributions/previous-year/${year}`);
-            return response.data.amount || 0;
+            const response = await api.get<PreviousYearContributionResponse>(`/contributions/previous-year/${year}`);
+            return response.amount || 0;
         } catch (error) {
             console.error('Error fetching previous year contribution:', error);
-            return 0;
+            throw error;
         }
     },
 
     async savePreviousYearContribution(year: number, amount: number): Promise<void> {
         try {
-            await axiosInstance.post('/api/contributions/previous-year', { year, amount });
+            await api.post<PreviousYearContributionResponse>('/contributions/previous-year', { year, amount });
         } catch (error) {
             console.error('Error saving previous year contribution:', error);
             throw error;
         }
     },
 
+    /**
+     * Year-end revenue projection against the forfettario ceilings
+     * and simulation of the following year under the ordinario regime
+     */
+    async getForfettarioMonitor(year: number): Promise<ForfettarioMonitorResult> {
+        try {
+            return await api.get<ForfettarioMonitorResult>(`/forfettario/monitor/${year}`);
+        } catch (error) {
+            console.error('Error fetching forfettario monitor:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Payments marked as paid in the schedule of a fiscal year
+     */
+    async getTaxPayments(fiscalYear: number): Promise<TaxPaymentResponse[]> {
+        try {
+            return await api.get<TaxPaymentResponse[]>(`/tax-payments/${fiscalYear}`);
+        } catch (error) {
+            console.error('Error fetching tax payments:', error);
+            throw error;
+        }
+    },
+
+    async markTaxPaymentPaid(payment: TaxPaymentRequest): Promise<TaxPaymentResponse> {
+        try {
+            return await api.post<TaxPaymentResponse>('/tax-payments', payment);
+        } catch (error) {
+            console.error('Error saving tax payment:', error);
+            throw error;
+        }
+    },
+
+    async markTaxPaymentUnpaid(fiscalYear: number, paymentId: string): Promise<void> {
+        try {
+            await api.delete<null>(`/tax-payments/${fiscalYear}/${paymentId}`);
+        } catch (error) {
+            console.error('Error deleting tax payment:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Withholding tax retained by clients in a year, with the comparison
+     * of their certificates (Certificazione Unica) and the invoices
+     */
+    async getWithholdingSummary(year: number): Promise<WithholdingSummary> {
+        try {
+            return await api.get<WithholdingSummary>(`/withholding-certificates/${year}`);
+        } catch (error) {
+            console.error('Error fetching withholding summary:', error);
+            throw error;
+        }
+    },
+
+    async saveWithholdingCertificate(certificate: WithholdingCertificateRequest): Promise<WithholdingCertificateResponse> {
+        try {
+            return await api.post<WithholdingCertificateResponse>('/withholding-certificates', certificate);
+        } catch (error) {
+            console.error('Error saving withholding certificate:', error);
+            throw error;
+        }
+    },
+
+    async deleteWithholdingCertificate(year: number, id: string): Promise<void> {
+        try {
+            await api.delete<null>(`/withholding-certificates/${year}/${id}`);
+        } catch (error) {
+            console.error('Error deleting withholding certificate:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Forfettario taxable income of a year
+     * Income is the revenue received in the year (principio di cassa)
+     */
     calculateTaxableIncome(
-        invoices: Invoice[],
+        invoices: InvoiceForRecognition[],
         profitCoefficient: number,
         previousYearContributions: number,
         selectedYear: number
     ): number {
-        const totalIncome = invoices
-            .filter(inv => {
-                const paymentDate = inv.date ? new Date(inv.date) : null;
-                return paymentDate && paymentDate.getFullYear() === selectedYear;
-            })
-            .reduce((sum, inv) => sum + inv.amount, 0);
+        const totalIncome = calculateRecognizedRevenue(invoices, selectedYear, 'cash');
 
         return (totalIncome * profitCoefficient / 100) - previousYearContributions;
     },
@@ -49,6 +49,12 @@ export interface AuthResponse {
 
 // User Settings types
 export type TaxRegime = "forfettario" | "ordinario";
+
+/**
+ * When invoices count as revenue: when paid for the cash basis
+ * (principio di cassa), when issued for the accrual basis (competenza)
+ */
+export type RevenueRecognition = "cash" | "accrual";
 export type PensionSystem = "INPS" | "PROFESSIONAL_FUND";
 export type InpsRateType =
   | "COLLABORATOR_WITH_DISCOLL"
@@ -61,12 +67,18 @@ export interface IUserSettings extends BaseDocument {
   taxRegime: TaxRegime;
   substituteRate?: number;
   profitabilityRate?: number;
+  activityStartDate?: Date | null;
   pensionSystem: PensionSystem;
   professionalFundId?: string;
   inpsRateType?: InpsRateType;
   manualContributionRate?: number;
   manualMinimumContribution?: number;
   manualFixedAnnualContributions?: number;
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+  // Subject to the ISA, whose tax acconti are two equal instalments
+  isaSubject?: boolean;
+  revenueAlertThresholds?: number[];
 }
 
 // Invoice types
@@ -82,20 +94,345 @@ export interface VatInfo {
   vatRate: number;
 }
 
+/**
+ * Nature (natura) of invoice lines charged without VAT
+ * - N1: excluded, such as expenses paid in the client's name (art. 15)
+ * - N2.1: not subject, services to clients established abroad (art. 7)
+ * - N2.2: not subject, such as the operations of forfettari
+ * - N4: exempt, such as health services (art. 10)
+ */
+export type VatNature = "N1" | "N2.1" | "N2.2" | "N4";
+
+/**
+ * Line of an invoice
+ * - amount: quantity by unit price, derived
+ * - vat: VAT of the line, none for lines charged without VAT
+ * - vatNature: why a line carries no VAT, forfettari can leave it out
+ */
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitOfMeasure?: string;
+  unitPrice: number;
+  amount: number;
+  vat?: VatInfo;
+  vatNature?: VatNature;
+}
+
+/**
+ * Invoice payment terms
+ * - immediate: due on the issue date
+ * - net30 / net60 / net90: due 30, 60 or 90 days after the issue date
+ * - end_of_month: due at the end of the issue month
+ * - custom: due on an explicit date
+ */
+export type PaymentTerms =
+  | "immediate"
+  | "net30"
+  | "net60"
+  | "net90"
+  | "end_of_month"
+  | "custom";
+
+/**
+ * Stamp duty (marca da bollo) of invoices issued without VAT
+ * - amount: duty paid to the tax office with the quarterly payments
+ * - chargedToClient: whether the duty is re-charged on the invoice total
+ */
+export interface BolloInfo {
+  amount: number;
+  chargedToClient: boolean;
+}
+
+/**
+ * Withholding tax (ritenuta d'acconto) applied by the client on an invoice
+ * - rate: percentage withheld on the taxable amount
+ * - amount: tax withheld and paid by the client on behalf of the issuer
+ */
+export interface WithholdingInfo {
+  rate: number;
+  amount: number;
+}
+
+/**
+ * Pension contribution charged to the client on an invoice
+ * - rivalsa_inps: 4% rivalsa of Gestione Separata INPS members, part of the fee
+ * - cassa_integrativa: contributo integrativo of professional fund members,
+ *   collected for the fund and not part of the fee
+ */
+export type PensionChargeType = "rivalsa_inps" | "cassa_integrativa";
+
+/**
+ * Pension contribution of an invoice
+ * - rate: percentage charged on the fee
+ * - amount: contribution added to the taxable amount
+ * - fundCode: professional fund collecting the contributo integrativo
+ */
+export interface PensionChargeInfo {
+  type: PensionChargeType;
+  rate: number;
+  amount: number;
+  fundCode?: string;
+}
+
+/**
+ * Kind of document recorded as an invoice
+ * - invoice: regular invoice (FatturaPA TD01)
+ * - credit_note: reverses all or part of an original invoice (TD04)
+ */
+export type InvoiceDocumentType = "invoice" | "credit_note";
+
+/**
+ * Lifecycle status of an invoice
+ * - draft: not issued yet, without a number and not counted as revenue
+ * - issued: numbered and dated
+ * - sent: delivered to the client
+ * - partially_paid: part of the total has been collected
+ * - paid: collected in full
+ * - cancelled: withdrawn, no longer owed nor counted as revenue
+ */
+export type InvoiceStatus =
+  | "draft"
+  | "issued"
+  | "sent"
+  | "partially_paid"
+  | "paid"
+  | "cancelled";
+
+/**
+ * Collection state of an invoice as displayed: its lifecycle status,
+ * with invoices still due being pending or overdue
+ */
+export type InvoicePaymentStatus =
+  | Extract<InvoiceStatus, "draft" | "partially_paid" | "paid" | "cancelled">
+  | "pending"
+  | "overdue";
+
+/**
+ * Transition of an invoice to a status, with when it happened
+ */
+export interface InvoiceStatusChange {
+  status: InvoiceStatus;
+  changedAt: Date;
+}
+
+/**
+ * How a client paid an invoice
+ */
+export type PaymentMethod =
+  | "bank_transfer"
+  | "cash"
+  | "card"
+  | "check"
+  | "other";
+
+/**
+ * Amount received on an invoice, invoices paid in instalments have several
+ */
+export interface InvoicePayment {
+  _id?: string;
+  date: Date;
+  amount: number;
+  method: PaymentMethod;
+  note?: string;
+}
+
 export interface IInvoice extends BaseDocument {
   userId: string;
-  number: string;
+  // Drafts are numbered when issued
+  number?: string;
   issueDate: Date;
   title: string;
   clientName: string;
+  // Total of the lines, and VAT of the line with the highest rate
   amount: number;
+  items?: InvoiceLineItem[];
+  // Date of the payment that settled the invoice
   paymentDate?: Date;
+  payments?: InvoicePayment[];
   fiscalYear: number;
-  vat?: VatInfo;
+  vat?: VatInfo | null;
+  paymentTerms?: PaymentTerms;
+  dueDate?: Date;
+  clientId?: string | null;
+  bollo?: BolloInfo | null;
+  withholding?: WithholdingInfo | null;
+  pensionCharge?: PensionChargeInfo | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  // Recurring invoice the invoice was issued from
+  recurringInvoiceId?: string | null;
+  status?: InvoiceStatus;
+  statusHistory?: InvoiceStatusChange[];
+}
+
+/**
+ * Unpaid invoices grouped by days past their due date
+ */
+export interface InvoiceAgingBucket {
+  label: string;
+  minDays: number;
+  maxDays?: number;
+  count: number;
+  amount: number;
+}
+
+export interface InvoiceAgingReport {
+  notDue: { count: number; amount: number };
+  buckets: InvoiceAgingBucket[];
+  totalOverdue: number;
+  totalOutstanding: number;
 }
 
 export * from "./Invoice";
 
+/**
+ * Client Registry Types
+ * Anagrafica of the clients invoiced by a user, identified by P.IVA
+ * or codice fiscale, with the defaults applied to their new invoices
+ */
+export interface ClientAddress {
+  street?: string;
+  postalCode?: string;
+  city?: string;
+  province?: string;
+  country: string;
+}
+
+export interface IClient {
+  _id?: string;
+  userId: string;
+  name: string;
+  normalizedName: string;
+  vatNumber?: string;
+  taxCode?: string;
+  address?: ClientAddress;
+  pec?: string;
+  sdiCode?: string;
+  defaultPaymentTerms?: PaymentTerms;
+  defaultVat?: VatInfo;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ClientRequest {
+  name: string;
+  vatNumber?: string;
+  taxCode?: string;
+  address?: ClientAddress;
+  pec?: string;
+  sdiCode?: string;
+  defaultPaymentTerms?: PaymentTerms;
+  defaultVat?: VatInfo;
+}
+
+export interface ClientResponse extends ClientRequest {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Revenue invoiced to a client in a fiscal year
+ * clientId is null for names not in the registry
+ */
+export interface ClientRevenue {
+  clientId: string | null;
+  clientName: string;
+  invoiceCount: number;
+  revenue: number;
+  outstanding: number;
+  share: number;
+}
+
+/**
+ * Fiscal Profile Types
+ * Anagrafica of the user as invoice issuer (cedente/prestatore),
+ * required to export invoices in FatturaPA format
+ */
+export interface IFiscalProfile {
+  _id?: string;
+  userId: string;
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  vatNumber: string;
+  taxCode: string;
+  address: ClientAddress;
+  pec?: string;
+  iban?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface FiscalProfileRequest {
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  vatNumber: string;
+  taxCode: string;
+  address: ClientAddress;
+  pec?: string;
+  iban?: string;
+}
+
+export interface FiscalProfileResponse extends FiscalProfileRequest {
+  updatedAt: string;
+}
+
+/**
+ * FatturaPA import report
+ * One result per document found in the uploaded files: issued invoices
+ * become invoices, received ones become costs
+ */
+export type FatturaPaImportStatus = "invoice" | "cost" | "duplicate" | "error";
+
+export interface FatturaPaImportResult {
+  fileName: string;
+  status: FatturaPaImportStatus;
+  number?: string;
+  counterpart?: string;
+  message?: string;
+}
+
+export interface FatturaPaImportReport {
+  results: FatturaPaImportResult[];
+  invoicesCreated: number;
+  costsCreated: number;
+  duplicates: number;
+  errors: number;
+}
+
+/**
+ * Invoice Numbering Types
+ * Numbering pattern of a user, e.g. "{YYYY}/{seq:3}", with the last
+ * number generated in each year: sequences restart every year
+ */
+export interface IInvoiceSequence {
+  _id?: string;
+  userId: string;
+  pattern: string;
+  counters: Record<string, number>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Run of consecutive numbers missing from the sequence of a year
+ */
+export interface InvoiceNumberingGap {
+  first: string;
+  last: string;
+  count: number;
+}
+
+export interface InvoiceNumberingStatus {
+  pattern: string;
+  year: number;
+  nextNumber: string;
+  gaps: InvoiceNumberingGap[];
+}
+
 /**
  * Cost Management Types
  */
@@ -105,6 +442,14 @@ export interface ICost {
   description: string;
   date: Date;
   amount: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  supplierName?: string;
+  supplierVatNumber?: string;
+  documentNumber?: string;
+  // Series the cost was generated from, null for one-off costs
+  recurringCostId?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -113,12 +458,18 @@ export interface CostCreateRequest {
   description: string;
   date: string | Date;
   amount: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
 }
 
 export interface CostUpdateRequest {
   description?: string;
   date?: string | Date;
   amount?: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
 }
 
 export interface CostResponse {
@@ -126,10 +477,259 @@ export interface CostResponse {
   description: string;
   date: string;
   amount: number;
+  deductible: boolean;
+  deductionPercentage: number;
+  categoryId: string | null;
+  supplierName?: string;
+  documentNumber?: string;
+  recurringCostId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Recurring Cost Types
+ * Templates of costs repeated on a schedule, such as subscriptions and rent.
+ * Occurrences are materialised as costs once due, up to generatedUntil
+ */
+export type RecurrenceFrequency = "monthly" | "quarterly" | "yearly";
+
+export interface IRecurringCost {
+  _id?: string;
+  userId: string;
+  description: string;
+  amount: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  frequency: RecurrenceFrequency;
+  startDate: Date;
+  endDate?: Date | null;
+  skippedDates: Date[];
+  generatedUntil?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RecurringCostCreateRequest {
+  description: string;
+  amount: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  frequency: RecurrenceFrequency;
+  startDate: string | Date;
+  endDate?: string | Date | null;
+  // Existing cost that becomes the first occurrence of the series
+  costId?: string;
+}
+
+export interface RecurringCostUpdateRequest {
+  description?: string;
+  amount?: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  frequency?: RecurrenceFrequency;
+  endDate?: string | Date | null;
+}
+
+export interface RecurringCostResponse {
+  id: string;
+  description: string;
+  amount: number;
+  deductible: boolean;
+  deductionPercentage: number;
+  categoryId: string | null;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate: string | null;
+  skippedDates: string[];
+  generatedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Recurring Invoice Types
+ * Templates of invoices issued on a schedule to retainer clients.
+ * Due occurrences become drafts, issued as invoices once confirmed
+ */
+export interface IRecurringInvoice {
+  _id?: string;
+  userId: string;
+  title: string;
+  clientName: string;
+  clientId?: string | null;
+  items: InvoiceLineItem[];
+  paymentTerms: PaymentTerms;
+  withholdingRate?: number | null;
+  pensionChargeRate?: number | null;
+  bolloChargedToClient: boolean;
+  frequency: RecurrenceFrequency;
+  startDate: Date;
+  endDate?: Date | null;
+  skippedDates: Date[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RecurringInvoiceCreateRequest {
+  // Invoice whose content is repeated, issued on the first occurrence
+  invoiceId: string;
+  frequency: RecurrenceFrequency;
+  endDate?: string | Date | null;
+}
+
+export interface RecurringInvoiceUpdateRequest {
+  frequency?: RecurrenceFrequency;
+  endDate?: string | Date | null;
+}
+
+export interface RecurringInvoiceResponse {
+  id: string;
+  title: string;
+  clientName: string;
+  clientId: string | null;
+  items: InvoiceLineItem[];
+  amount: number;
+  paymentTerms: PaymentTerms;
+  withholdingRate: number | null;
+  pensionChargeRate: number | null;
+  bolloChargedToClient: boolean;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate: string | null;
+  skippedDates: string[];
+  // Due occurrences not issued nor skipped yet
+  draftDates: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Cost Category Types
+ * System categories are seeded and shared (userId null),
+ * custom categories belong to a single user
+ */
+export interface ICostCategory {
+  _id?: string;
+  userId?: string | null;
+  name: string;
+  code?: string;
+  isSystem: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CostCategoryRequest {
+  name: string;
+}
+
+export interface CostCategoryResponse {
+  id: string;
+  name: string;
+  code?: string;
+  isSystem: boolean;
+}
+
+/**
+ * Report Types
+ */
+export type ReportType = "financial" | "tax" | "cashflow" | "kpi" | "custom";
+export type ReportFormat = "pdf" | "excel" | "csv";
+export type ReportPeriod = "month" | "quarter" | "year" | "custom";
+
+export interface ReportOptions {
+  includeCharts: boolean;
+  includeRawData: boolean;
+  includeAnalytics: boolean;
+  includeInsights: boolean;
+  customSections?: string[];
+}
+
+export interface ReportRequest extends ReportOptions {
+  type: ReportType;
+  format: ReportFormat;
+  period: ReportPeriod;
+  startDate?: string | Date;
+  endDate?: string | Date;
+}
+
+/**
+ * Format-independent content of a report, turned into files by the
+ * PDF, CSV and XLSX renderers
+ */
+export type ReportSectionKey = Exclude<ReportType, "custom">;
+
+export type ReportCell = string | number;
+
+export interface ReportMetric {
+  label: string;
+  value: ReportCell;
+  format: "currency" | "percent" | "number" | "text";
+}
+
+export interface ReportChart {
+  title: string;
+  labels: string[];
+  series: { name: string; values: number[] }[];
+}
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+export interface ReportSection {
+  key: ReportSectionKey;
+  title: string;
+  metrics: ReportMetric[];
+  charts: ReportChart[];
+  tables: ReportTable[];
+}
+
+export interface ReportDocument {
+  title: string;
+  periodLabel: string;
+  generatedAt: Date;
+  sections: ReportSection[];
+  analytics: ReportMetric[];
+  insights: string[];
+}
+
+export interface IReport extends ReportOptions {
+  _id?: string;
+  userId: string;
+  name: string;
+  type: ReportType;
+  format: ReportFormat;
+  period: ReportPeriod;
+  startDate: Date;
+  endDate: Date;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // Content as generated, so downloads match the report that was listed
+  document: ReportDocument;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ReportResponse extends ReportOptions {
+  id: string;
+  name: string;
+  type: ReportType;
+  format: ReportFormat;
+  period: ReportPeriod;
+  startDate: string;
+  endDate: string;
+  fileName: string;
+  size: number;
+  createdAt: string;
+}
+
 /**
  * Professional Fund Management Types
  */
@@ -142,6 +742,7 @@ export interface IProfessionalFund {
     contributionRate: number; // Percentage (e.g., 16 for 16%)
     minimumContribution: number; // In euros (e.g., 2750)
     fixedAnnualContributions: number; // Fixed annual contributions in euros
+    integrativeContributionRate?: number; // Contributo integrativo charged on invoices (e.g., 4 for 4%)
     year: number; // The year these parameters are valid for
   }[];
   allowManualEdit: boolean; // Whether to allow manual editing of contribution parameters
@@ -158,6 +759,7 @@ export interface ProfessionalFundCreateRequest {
     contributionRate: number;
     minimumContribution: number;
     fixedAnnualContributions: number;
+    integrativeContributionRate?: number;
     year: number;
   }[];
   allowManualEdit?: boolean;
@@ -172,6 +774,7 @@ export interface ProfessionalFundUpdateRequest {
     contributionRate: number;
     minimumContribution: number;
     fixedAnnualContributions: number;
+    integrativeContributionRate?: number;
     year: number;
   }[];
   allowManualEdit?: boolean;
@@ -187,6 +790,7 @@ export interface ProfessionalFundResponse {
     contributionRate: number;
     minimumContribution: number;
     fixedAnnualContributions: number;
+    integrativeContributionRate?: number;
     year: number;
   }[];
   allowManualEdit: boolean;
@@ -206,7 +810,7 @@ export interface IIrpefRate extends BaseDocument {
 
 // INPS types
 export interface InpsRate {
-  type: string;
+  type: InpsRateType;
   description: string;
   rate: number;
 }
@@ -219,6 +823,13 @@ export interface IInpsParameters extends BaseDocument {
   minContributions: Record<string, number>;
 }
 
+export interface InpsParametersRequest {
+  year: number;
+  rates: InpsRate[];
+  maxIncome: number;
+  minIncome: number;
+}
+
 // Previous Year Contribution types
 export interface IPreviousYearContribution extends BaseDocument {
   userId: string;
@@ -226,6 +837,107 @@ export interface IPreviousYearContribution extends BaseDocument {
   amount: number;
 }
 
+export interface PreviousYearContributionRequest {
+  year: number;
+  amount: number;
+}
+
+export interface PreviousYearContributionResponse {
+  year: number;
+  amount: number;
+  updatedAt?: string;
+}
+
+// Tax Payment types
+export interface ITaxPayment extends BaseDocument {
+  userId: string;
+  fiscalYear: number;
+  paymentId: string;
+  amount: number;
+  paidAt: Date;
+}
+
+export interface TaxPaymentRequest {
+  fiscalYear: number;
+  paymentId: string;
+  amount: number;
+  paidAt?: string | Date;
+}
+
+export interface TaxPaymentResponse {
+  fiscalYear: number;
+  paymentId: string;
+  amount: number;
+  paidAt: string;
+}
+
+// Withholding Certificate types
+// Certificazione Unica received from a client, stating the compensation
+// paid during a year and the withholding tax retained on it
+export interface IWithholdingCertificate extends BaseDocument {
+  userId: string;
+  year: number;
+  clientName: string;
+  clientId?: string | null;
+  grossAmount: number;
+  withheldAmount: number;
+}
+
+export interface WithholdingCertificateRequest {
+  year: number;
+  clientName: string;
+  clientId?: string | null;
+  grossAmount: number;
+  withheldAmount: number;
+}
+
+export interface WithholdingCertificateResponse {
+  id: string;
+  year: number;
+  clientName: string;
+  clientId: string | null;
+  grossAmount: number;
+  withheldAmount: number;
+}
+
+/**
+ * Compensation and withholding tax of a client in a year, from the invoices
+ * paid in that year, as the client's certificate should state them
+ */
+export interface WithholdingClientTotal {
+  clientName: string;
+  clientId: string | null;
+  grossAmount: number;
+  withheldAmount: number;
+}
+
+/**
+ * Outcome of the comparison of a client's certificate with the invoices
+ * - matched: the certificate states the amounts of the invoices
+ * - mismatch: the certificate states different amounts
+ * - missing: invoices with withholding tax but no certificate
+ * - unexpected: a certificate without invoices with withholding tax
+ */
+export type WithholdingReconciliationStatus =
+  | "matched"
+  | "mismatch"
+  | "missing"
+  | "unexpected";
+
+export interface WithholdingClientReconciliation {
+  clientName: string;
+  clientId: string | null;
+  expected: WithholdingClientTotal | null;
+  certificate: WithholdingCertificateResponse | null;
+  status: WithholdingReconciliationStatus;
+}
+
+export interface WithholdingSummary {
+  year: number;
+  withheldTotal: number;
+  clients: WithholdingClientReconciliation[];
+}
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -318,6 +1030,13 @@ export interface RawCost extends RawMongoDocument {
   description: string;
   date: Date;
   amount: number;
+  deductible?: boolean;
+  deductionPercentage?: number;
+  categoryId?: string | null;
+  supplierName?: string;
+  supplierVatNumber?: string;
+  documentNumber?: string;
+  recurringCostId?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -330,6 +1049,7 @@ export interface RawProfessionalFund extends RawMongoDocument {
     contributionRate: number;
     minimumContribution: number;
     fixedAnnualContributions: number;
+    integrativeContributionRate?: number;
     year: number;
   }>;
   allowManualEdit: boolean;
@@ -343,12 +1063,18 @@ export interface RawUserSettings extends RawMongoDocument {
   taxRegime: TaxRegime;
   substituteRate?: number;
   profitabilityRate?: number;
+  activityStartDate?: Date | null;
   pensionSystem: PensionSystem;
   professionalFundId?: string;
   inpsRateType?: InpsRateType;
   manualContributionRate?: number;
   manualMinimumContribution?: number;
   manualFixedAnnualContributions?: number;
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+  // Subject to the ISA, whose tax acconti are two equal instalments
+  isaSubject?: boolean;
+  revenueAlertThresholds?: number[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -358,6 +1084,7 @@ export interface ProfessionalFundParameter {
   contributionRate: number;
   minimumContribution: number;
   fixedAnnualContributions: number;
+  integrativeContributionRate?: number;
   year: number;
 }
 
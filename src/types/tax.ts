@@ -10,6 +10,53 @@ export interface TaxCalculationResult {
   contributionsAmount: number;
   totalTaxes: number;
   effectiveRate: number;
+  deductedContributions?: number;
+  substituteRate?: number;
+  irpefBreakdown?: IrpefCalculationResult;
+}
+
+/**
+ * Single IRPEF bracket contribution to the gross tax
+ */
+export interface IrpefBracketBreakdown {
+  rate: number;
+  lowerBound: number;
+  upperBound?: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+/**
+ * IRPEF calculation result for the ordinario regime
+ * Gross tax by bracket, detrazioni, addizionali and the withholding tax
+ * retained by clients, credited against the net tax
+ */
+export interface IrpefCalculationResult {
+  year: number;
+  taxableIncome: number;
+  brackets: IrpefBracketBreakdown[];
+  grossTax: number;
+  selfEmploymentDeduction: number;
+  netTax: number;
+  regionalSurcharge: number;
+  municipalSurcharge: number;
+  totalIrpef: number;
+  withheldTaxes: number;
+  withholdingCredit: number;
+  withholdingSurplus: number;
+  irpefDue: number;
+}
+
+/**
+ * IRPEF calculation request parameters
+ */
+export interface IrpefCalculationRequest {
+  year: number;
+  taxableIncome: number;
+  withheldTaxes?: number;
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+  municipalExemptionThreshold?: number;
 }
 
 /**
@@ -27,4 +74,127 @@ export interface TaxCalculationConfig {
   substituteRate?: number;
   manualContributionRate?: number;
   manualFixedAnnualContributions?: number;
-} 
\ No newline at end of file
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+} 
+/**
+ * Position of the year's revenue against the forfettario ceilings
+ * - ok: projection below every alert threshold
+ * - warning: projection past an alert threshold
+ * - projected_exit: projection above the €85k ceiling
+ * - exit_next_year: revenue already above €85k, ordinario from next year
+ * - immediate_exit: revenue above €100k, ordinario from the current year
+ */
+export type RevenueCeilingStatus =
+  | 'ok'
+  | 'warning'
+  | 'projected_exit'
+  | 'exit_next_year'
+  | 'immediate_exit';
+
+/**
+ * Year-end revenue projection for the forfettario ceiling
+ */
+export interface RevenueCeilingProjection {
+  year: number;
+  revenueToDate: number;
+  projectedRevenue: number;
+  ceiling: number;
+  immediateExitThreshold: number;
+  ceilingUsage: number;
+  projectedCeilingUsage: number;
+  thresholds: number[];
+  reachedThresholds: number[];
+  status: RevenueCeilingStatus;
+}
+
+/**
+ * Yearly tax and contributions under one regime
+ */
+export interface RegimeTaxEstimate {
+  revenue: number;
+  deductibleCosts: number;
+  taxableIncome: number;
+  contributions: number;
+  incomeTax: number;
+  totalTaxes: number;
+  netIncome: number;
+}
+
+/**
+ * Following year simulated under both regimes
+ */
+export interface RegimeExitSimulation {
+  year: number;
+  forfettario: RegimeTaxEstimate;
+  ordinario: RegimeTaxEstimate & { irpefBreakdown: IrpefCalculationResult };
+  additionalTaxes: number;
+}
+
+/**
+ * Forfettario ceiling monitor result
+ */
+export interface ForfettarioMonitorResult {
+  projection: RevenueCeilingProjection;
+  simulation: RegimeExitSimulation;
+}
+
+/**
+ * Obligation settled by a scheduled payment
+ */
+export type TaxPaymentCategory = 'tax' | 'contributions' | 'bollo';
+
+/**
+ * Kind of scheduled payment
+ * - saldo: balance of the fiscal year net of the acconti already paid
+ * - first_acconto / second_acconto: advances on the following year
+ * - instalment: quarterly instalment of the fixed annual contributions
+ * - quarter: stamp duty on the invoices issued in a quarter
+ */
+export type TaxPaymentKind =
+  | 'saldo'
+  | 'first_acconto'
+  | 'second_acconto'
+  | 'instalment'
+  | 'quarter';
+
+/**
+ * Single payment of the tax and contribution schedule
+ */
+export interface ScheduledTaxPayment {
+  id: string;
+  fiscalYear: number;
+  referenceYear: number;
+  category: TaxPaymentCategory;
+  kind: TaxPaymentKind;
+  description: string;
+  dueDate: string;
+  amount: number;
+  paid: boolean;
+  paidAt?: string;
+}
+
+/**
+ * Stamp duty on the electronic invoices issued in a quarter
+ * The due date is deferred when the amounts due stay below the threshold
+ */
+export interface BolloQuarterSummary {
+  quarter: number;
+  invoiceCount: number;
+  amount: number;
+  dueDate: string;
+  deferred: boolean;
+}
+
+/**
+ * Payments settling a fiscal year (saldo) and advancing the next one (acconti)
+ */
+export interface PaymentSchedule {
+  fiscalYear: number;
+  payments: ScheduledTaxPayment[];
+  // Stamp duty has no acconti
+  creditedAcconti: Record<Exclude<TaxPaymentCategory, "bollo">, number>;
+  totalAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+}
@@ -0,0 +1,232 @@
+import { ClientRevenue, IClient, IInvoice } from "@/types";
+import {
+  calculateCreditedTotals,
+  calculateTotalAmount,
+  filterRevenueInvoices,
+  getSignedAmount,
+  isCreditNote,
+  normalizeClientName,
+} from "./invoiceCalculations";
+
+// Minimal client shape used by the calculations (works with IClient and the service Client)
+type ClientForCalculation = {
+  id?: string;
+  _id?: string;
+  name: string;
+};
+
+// Minimal invoice shape used by the calculations (works with IInvoice and PlainInvoice)
+type InvoiceForClientCalculation = Pick<
+  IInvoice,
+  | "clientName"
+  | "amount"
+  | "paymentDate"
+  | "vat"
+  | "documentType"
+  | "originalInvoiceId"
+  | "status"
+> & {
+  _id?: string;
+  id?: string;
+  issueDate: Date;
+  fiscalYear: number;
+  clientId?: string | null;
+};
+
+/**
+ * Pure functions for client registry calculations
+ * Follows functional programming principles
+ */
+
+/**
+ * SDI code of clients receiving invoices by PEC or without a channel
+ */
+export const DEFAULT_SDI_CODE = "0000000";
+
+/**
+ * Odd position values of the codice fiscale check character
+ */
+const TAX_CODE_ODD_VALUES: Record<string, number> = {
+  "0": 1, "1": 0, "2": 5, "3": 7, "4": 9, "5": 13, "6": 15, "7": 17, "8": 19,
+  "9": 21, A: 1, B: 0, C: 5, D: 7, E: 9, F: 13, G: 15, H: 17, I: 19, J: 21,
+  K: 2, L: 4, M: 18, N: 20, O: 11, P: 3, Q: 6, R: 8, S: 12, T: 14, U: 16,
+  V: 10, W: 22, X: 25, Y: 24, Z: 23,
+};
+
+/**
+ * Format of the codice fiscale of individuals
+ * Digits may be replaced by letters when two codes collide (omocodia)
+ */
+const TAX_CODE_PATTERN =
+  /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/;
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Identifier of a client, whichever shape it comes in
+ */
+const getClientId = (client: ClientForCalculation): string =>
+  (client.id ?? client._id ?? "").toString();
+
+/**
+ * Validate an Italian partita IVA (11 digits with check digit)
+ */
+export const isValidPartitaIva = (value: string): boolean => {
+  if (!/^\d{11}$/.test(value)) return false;
+
+  const digits = value.split("").map(Number);
+  const sum = digits.slice(0, 10).reduce((total, digit, index) => {
+    if (index % 2 === 0) return total + digit;
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+
+  return (10 - (sum % 10)) % 10 === digits[10];
+};
+
+/**
+ * Validate a VAT number: Italian partita IVA, optionally prefixed by IT,
+ * or a foreign VAT number prefixed by its country code
+ */
+export const isValidVatNumber = (value: string): boolean => {
+  const vatNumber = value.replace(/\s+/g, "").toUpperCase();
+
+  if (/^\d{11}$/.test(vatNumber)) return isValidPartitaIva(vatNumber);
+  if (vatNumber.startsWith("IT")) return isValidPartitaIva(vatNumber.slice(2));
+  return /^[A-Z]{2}[A-Z0-9]{2,12}$/.test(vatNumber);
+};
+
+/**
+ * Validate an Italian codice fiscale
+ * Individuals have 16 characters with a check letter, companies and
+ * associations use their 11-digit numeric code
+ */
+export const isValidTaxCode = (value: string): boolean => {
+  const taxCode = value.replace(/\s+/g, "").toUpperCase();
+
+  if (/^\d{11}$/.test(taxCode)) return isValidPartitaIva(taxCode);
+  if (!TAX_CODE_PATTERN.test(taxCode)) return false;
+
+  const sum = taxCode
+    .slice(0, 15)
+    .split("")
+    .reduce((total, char, index) => {
+      // Positions are counted from 1, so even indexes are odd positions
+      if (index % 2 === 0) return total + TAX_CODE_ODD_VALUES[char];
+      return total + (/\d/.test(char) ? Number(char) : char.charCodeAt(0) - 65);
+    }, 0);
+
+  return String.fromCharCode(65 + (sum % 26)) === taxCode[15];
+};
+
+/**
+ * Find the registry client an invoice belongs to
+ * Linked invoices use their client ID, the others the normalised client name
+ */
+export const findInvoiceClient = <T extends ClientForCalculation>(
+  invoice: Pick<InvoiceForClientCalculation, "clientName" | "clientId">,
+  clients: T[]
+): T | undefined => {
+  if (invoice.clientId) {
+    const linked = clients.find(
+      (client) => getClientId(client) === invoice.clientId?.toString()
+    );
+    if (linked) return linked;
+  }
+
+  const name = normalizeClientName(invoice.clientName);
+  return clients.find((client) => normalizeClientName(client.name) === name);
+};
+
+/**
+ * Match unlinked invoices to registry clients by normalised client name
+ * Returns the client ID to set on each matched invoice
+ */
+export const matchInvoicesToClients = (
+  invoices: InvoiceForClientCalculation[],
+  clients: ClientForCalculation[]
+): { invoiceId: string; clientId: string }[] =>
+  invoices
+    .filter((invoice) => !invoice.clientId)
+    .flatMap((invoice) => {
+      const client = findInvoiceClient(invoice, clients);
+      const invoiceId = (invoice.id ?? invoice._id ?? "").toString();
+      return client && invoiceId
+        ? [{ invoiceId, clientId: getClientId(client) }]
+        : [];
+    });
+
+/**
+ * Revenue by client, highest first
+ * Invoices of clients not in the registry are grouped by normalised name
+ * Revenue is net of VAT and of credit notes, outstanding amounts include VAT.
+ * Drafts and cancelled invoices are left out
+ */
+export const calculateClientRevenue = (
+  allInvoices: InvoiceForClientCalculation[],
+  clients: ClientForCalculation[]
+): ClientRevenue[] => {
+  const invoices = filterRevenueInvoices(allInvoices);
+  const totalRevenue = invoices.reduce(
+    (total, invoice) => total + getSignedAmount(invoice),
+    0
+  );
+  const creditedTotals = calculateCreditedTotals(invoices);
+  const byClient = new Map<string, ClientRevenue>();
+
+  invoices.forEach((invoice) => {
+    const client = findInvoiceClient(invoice, clients);
+    const key = client
+      ? `client:${getClientId(client)}`
+      : `name:${normalizeClientName(invoice.clientName)}`;
+    const entry = byClient.get(key) ?? {
+      clientId: client ? getClientId(client) : null,
+      clientName: client ? client.name : invoice.clientName.trim(),
+      invoiceCount: 0,
+      revenue: 0,
+      outstanding: 0,
+      share: 0,
+    };
+
+    entry.revenue += getSignedAmount(invoice);
+    if (!isCreditNote(invoice)) {
+      entry.invoiceCount += 1;
+      if (!invoice.paymentDate) {
+        const invoiceId = (invoice.id ?? invoice._id ?? "").toString();
+        entry.outstanding += Math.max(
+          0,
+          calculateTotalAmount(invoice) - (creditedTotals[invoiceId] ?? 0)
+        );
+      }
+    }
+    byClient.set(key, entry);
+  });
+
+  return [...byClient.values()]
+    .map((entry) => ({
+      ...entry,
+      revenue: roundToCents(entry.revenue),
+      outstanding: roundToCents(entry.outstanding),
+      share:
+        totalRevenue > 0
+          ? roundToCents((entry.revenue / totalRevenue) * 100)
+          : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+/**
+ * Invoice fields prefilled from a client's defaults
+ */
+export const getClientInvoiceDefaults = (
+  client: Pick<IClient, "name" | "defaultPaymentTerms" | "defaultVat">
+): Pick<IInvoice, "clientName" | "paymentTerms" | "vat"> => ({
+  clientName: client.name,
+  ...(client.defaultPaymentTerms && {
+    paymentTerms: client.defaultPaymentTerms,
+  }),
+  ...(client.defaultVat && { vat: client.defaultVat }),
+});
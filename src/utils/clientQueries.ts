@@ -0,0 +1,154 @@
+import { Client } from "@/models/Client";
+import { Invoice } from "@/models/Invoice";
+import { ClientRequest, IClient } from "@/types";
+import { matchInvoicesToClients } from "./clientCalculations";
+
+/**
+ * Pure functions for client registry database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Client fields that can be left empty
+ */
+const OPTIONAL_CLIENT_FIELDS = [
+  "vatNumber",
+  "taxCode",
+  "address",
+  "pec",
+  "sdiCode",
+  "defaultPaymentTerms",
+  "defaultVat",
+] as const;
+
+/**
+ * Find the clients of a user, sorted by name
+ */
+export const findClientsByUser = async (userId: string): Promise<IClient[]> => {
+  const clients = await Client.find({ userId })
+    .collation({ locale: "it" })
+    .sort({ name: 1 })
+    .lean<IClient[]>();
+  return clients;
+};
+
+/**
+ * Find a client of a user by ID
+ */
+export const findClientByIdForUser = async (
+  clientId: string,
+  userId: string
+): Promise<IClient | null> => {
+  const client = await Client.findOne({
+    _id: clientId,
+    userId,
+  }).lean<IClient>();
+  return client;
+};
+
+/**
+ * Create a client for a user
+ * Existing invoices issued to the same name are linked to it
+ */
+export const createClientForUser = async (
+  userId: string,
+  data: ClientRequest
+): Promise<IClient> => {
+  const client = await Client.create({ ...data, userId });
+  await linkInvoicesToClients(userId);
+  return client.toObject() as IClient;
+};
+
+/**
+ * Update a client of a user
+ * Saved through the document so the normalised name and validators apply
+ */
+export const updateClientForUser = async (
+  clientId: string,
+  userId: string,
+  data: ClientRequest
+): Promise<IClient | null> => {
+  const client = await Client.findOne({ _id: clientId, userId });
+  if (!client) return null;
+
+  client.set(data);
+  // Optional fields left out of the request are cleared
+  OPTIONAL_CLIENT_FIELDS.filter((field) => data[field] === undefined).forEach(
+    (field) => client.set(field, undefined)
+  );
+
+  const saved = await client.save();
+  await linkInvoicesToClients(userId);
+  return saved.toObject() as IClient;
+};
+
+/**
+ * Delete a client of a user
+ * Its invoices keep the client name and are unlinked
+ */
+export const deleteClientForUser = async (
+  clientId: string,
+  userId: string
+): Promise<IClient | null> => {
+  const client = await Client.findOneAndDelete({
+    _id: clientId,
+    userId,
+  }).lean<IClient>();
+
+  if (client) {
+    await Invoice.updateMany(
+      { userId, clientId },
+      { $set: { clientId: null } }
+    );
+  }
+
+  return client;
+};
+
+/**
+ * Link the unlinked invoices of registry clients by normalised client name
+ * Runs for a single user, or for every user with clients when omitted
+ * Returns the number of invoices linked
+ */
+export const linkInvoicesToClients = async (
+  userId?: string
+): Promise<number> => {
+  const clients = await Client.find(userId ? { userId } : {}).lean<IClient[]>();
+  if (clients.length === 0) return 0;
+
+  const userIds = [...new Set(clients.map((client) => client.userId))];
+  let linked = 0;
+
+  for (const clientUserId of userIds) {
+    const invoices = await Invoice.find({
+      userId: clientUserId,
+      $or: [{ clientId: null }, { clientId: { $exists: false } }],
+    })
+      .select({ _id: 1, clientName: 1, amount: 1, issueDate: 1, fiscalYear: 1 })
+      .lean();
+
+    const matches = matchInvoicesToClients(
+      invoices.map((invoice) => ({
+        ...invoice,
+        _id: invoice._id.toString(),
+      })),
+      clients
+        .filter((client) => client.userId === clientUserId)
+        .map((client) => ({ _id: client._id?.toString(), name: client.name }))
+    );
+
+    if (matches.length > 0) {
+      await Invoice.bulkWrite(
+        matches.map(({ invoiceId, clientId }) => ({
+          updateOne: {
+            filter: { _id: invoiceId, userId: clientUserId },
+            update: { $set: { clientId } },
+          },
+        }))
+      );
+      linked += matches.length;
+    }
+  }
+
+  return linked;
+};
@@ -0,0 +1,49 @@
+import { PreviousYearContribution } from "@/models/PreviousYearContribution";
+import { IPreviousYearContribution } from "@/types";
+
+/**
+ * Pure functions for previous-year contribution database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find all contribution ledger entries for a user, newest year first
+ */
+export const findPreviousYearContributionsByUserId = async (
+  userId: string
+): Promise<IPreviousYearContribution[]> => {
+  const contributions = await PreviousYearContribution.find({ userId })
+    .sort({ year: -1 })
+    .lean();
+  return contributions;
+};
+
+/**
+ * Find the contribution ledger entry of a user for a year
+ */
+export const findPreviousYearContribution = async (
+  userId: string,
+  year: number
+): Promise<IPreviousYearContribution | null> => {
+  const contribution = await PreviousYearContribution.findOne({
+    userId,
+    year,
+  }).lean();
+  return contribution;
+};
+
+/**
+ * Create or update the contribution ledger entry of a user for a year
+ */
+export const upsertPreviousYearContribution = async (
+  userId: string,
+  year: number,
+  amount: number
+): Promise<IPreviousYearContribution> => {
+  const contribution = await PreviousYearContribution.findOneAndUpdate(
+    { userId, year },
+    { $set: { amount } },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  ).lean();
+  return contribution as IPreviousYearContribution;
+};
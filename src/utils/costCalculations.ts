@@ -6,6 +6,7 @@ type CostForCalculation = {
   date: Date;
   description?: string;
   deductible?: boolean; // Optional for compatibility with ICost
+  deductionPercentage?: number; // Defaults to 100 when missing
   userId?: string; // Optional for compatibility with both types
 };
 
@@ -14,6 +15,21 @@ type CostForCalculation = {
  * Follows functional programming principles
  */
 
+/**
+ * Fiscal cost categories seeded for every user
+ */
+export const DEFAULT_COST_CATEGORIES: ReadonlyArray<{
+  code: string;
+  name: string;
+}> = [
+  { code: "SOFTWARE", name: "Software" },
+  { code: "HARDWARE", name: "Hardware" },
+  { code: "TRAINING", name: "Formazione" },
+  { code: "TRAVEL", name: "Viaggi e trasferte" },
+  { code: "UTILITIES", name: "Utenze" },
+  { code: "PROFESSIONAL_SERVICES", name: "Servizi professionali" },
+];
+
 /**
  * Format cost amount with Euro symbol
  */
@@ -35,6 +51,28 @@ export const calculateTotalCosts = (costs: CostForCalculation[]): number => {
   return costs.reduce((total, cost) => total + cost.amount, 0);
 };
 
+/**
+ * Calculate the deductible portion of a cost
+ * Non-deductible costs contribute 0, partially deductible costs
+ * (e.g. 50% phones, 20% cars) contribute their percentage
+ */
+export const calculateDeductibleAmount = (
+  cost: Pick<CostForCalculation, "amount" | "deductible" | "deductionPercentage">
+): number => {
+  if (cost.deductible === false) return 0;
+  const percentage = cost.deductionPercentage ?? 100;
+  return Math.round(cost.amount * percentage) / 100;
+};
+
+/**
+ * Calculate the total deductible amount of a list of costs
+ */
+export const calculateTotalDeductibleAmount = (
+  costs: Pick<CostForCalculation, "amount" | "deductible" | "deductionPercentage">[]
+): number => {
+  return costs.reduce((total, cost) => total + calculateDeductibleAmount(cost), 0);
+};
+
 /**
  * Filter costs by year
  */
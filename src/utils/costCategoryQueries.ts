@@ -0,0 +1,123 @@
+import { CostCategory } from "@/models/CostCategory";
+import { Cost } from "@/models/Cost";
+import { ICostCategory } from "@/types";
+import { DEFAULT_COST_CATEGORIES } from "./costCalculations";
+
+/**
+ * Pure functions for cost category database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find the categories available to a user: system categories first,
+ * then the user's own categories, each sorted by name
+ * System categories missing from the database are seeded first
+ */
+export const findCostCategoriesForUser = async (
+  userId: string
+): Promise<ICostCategory[]> => {
+  const systemCount = await CostCategory.countDocuments({ isSystem: true });
+  if (systemCount < DEFAULT_COST_CATEGORIES.length) {
+    await seedCostCategories();
+  }
+
+  const categories = await CostCategory.find({
+    $or: [{ isSystem: true }, { userId }],
+  })
+    .sort({ isSystem: -1, name: 1 })
+    .lean();
+  return categories;
+};
+
+/**
+ * Find a category by ID if it is available to the user
+ */
+export const findCostCategoryForUser = async (
+  categoryId: string,
+  userId: string
+): Promise<ICostCategory | null> => {
+  const category = await CostCategory.findOne({
+    _id: categoryId,
+    $or: [{ isSystem: true }, { userId }],
+  }).lean();
+  return category;
+};
+
+/**
+ * Create a custom category for a user
+ */
+export const createUserCostCategory = async (
+  userId: string,
+  name: string
+): Promise<ICostCategory> => {
+  const category = await CostCategory.create({
+    userId,
+    name,
+    isSystem: false,
+  });
+  return category.toObject() as ICostCategory;
+};
+
+/**
+ * Rename a custom category owned by the user
+ * System categories are never matched
+ */
+export const updateUserCostCategory = async (
+  categoryId: string,
+  userId: string,
+  name: string
+): Promise<ICostCategory | null> => {
+  const category = await CostCategory.findOneAndUpdate(
+    { _id: categoryId, userId, isSystem: false },
+    { $set: { name } },
+    { new: true, runValidators: true }
+  ).lean();
+  return category;
+};
+
+/**
+ * Delete a custom category owned by the user
+ * Costs assigned to it become uncategorized
+ */
+export const deleteUserCostCategory = async (
+  categoryId: string,
+  userId: string
+): Promise<ICostCategory | null> => {
+  const category = await CostCategory.findOneAndDelete({
+    _id: categoryId,
+    userId,
+    isSystem: false,
+  }).lean();
+
+  if (category) {
+    await Cost.updateMany(
+      { userId, categoryId },
+      { $set: { categoryId: null } }
+    );
+  }
+
+  return category;
+};
+
+/**
+ * Seed the default system categories
+ * Categories already present (by code) are left untouched
+ */
+export const seedCostCategories = async (): Promise<void> => {
+  await CostCategory.bulkWrite(
+    DEFAULT_COST_CATEGORIES.map((category) => ({
+      updateOne: {
+        filter: { code: category.code },
+        update: {
+          $setOnInsert: {
+            code: category.code,
+            name: category.name,
+            userId: null,
+            isSystem: true,
+          },
+        },
+        upsert: true,
+      },
+    }))
+  );
+};
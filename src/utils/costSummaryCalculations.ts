@@ -1,4 +1,6 @@
 import { Cost } from "@/services/costService";
+import { CostCategory } from "@/services/costCategoryService";
+import { calculateTotalDeductibleAmount } from "./costCalculations";
 
 /**
  * Pure functions for cost summary calculations
@@ -13,21 +15,19 @@ export const calculateTotalCosts = (costs: Cost[]): number => {
 };
 
 /**
- * Calculate total amount of deductible costs
+ * Calculate total deductible amount of costs
+ * Partially deductible costs only count for their deduction percentage
  */
 export const calculateDeductibleCosts = (costs: Cost[]): number => {
-  return costs
-    .filter((cost) => cost.deductible)
-    .reduce((sum, cost) => sum + cost.amount, 0);
+  return calculateTotalDeductibleAmount(costs);
 };
 
 /**
- * Calculate total amount of non-deductible costs
+ * Calculate total non-deductible amount of costs
+ * Includes the non-deductible share of partially deductible costs
  */
 export const calculateNonDeductibleCosts = (costs: Cost[]): number => {
-  return costs
-    .filter((cost) => !cost.deductible)
-    .reduce((sum, cost) => sum + cost.amount, 0);
+  return calculateTotalCosts(costs) - calculateDeductibleCosts(costs);
 };
 
 /**
@@ -44,6 +44,62 @@ export const countNonDeductibleCosts = (costs: Cost[]): number => {
   return costs.filter((cost) => !cost.deductible).length;
 };
 
+/**
+ * Label used for costs without a category
+ */
+export const UNCATEGORIZED_COST_LABEL = "Senza categoria";
+
+/**
+ * Cost totals of a single category
+ */
+export interface CategoryCostSummary {
+  categoryId: string | null;
+  name: string;
+  amount: number;
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Group costs by category, largest amount first
+ * Costs without a category (or with an unknown one) are grouped together
+ */
+export const calculateCostsByCategory = (
+  costs: Cost[],
+  categories: Pick<CostCategory, "id" | "name">[]
+): CategoryCostSummary[] => {
+  const categoryNames = new Map(
+    categories.map((category) => [category.id, category.name])
+  );
+  const totals = new Map<string | null, { amount: number; count: number }>();
+
+  costs.forEach((cost) => {
+    const categoryId =
+      cost.categoryId && categoryNames.has(cost.categoryId)
+        ? cost.categoryId
+        : null;
+    const current = totals.get(categoryId) || { amount: 0, count: 0 };
+    totals.set(categoryId, {
+      amount: current.amount + cost.amount,
+      count: current.count + 1,
+    });
+  });
+
+  const totalAmount = calculateTotalCosts(costs);
+
+  return Array.from(totals.entries())
+    .map(([categoryId, { amount, count }]) => ({
+      categoryId,
+      name: categoryId
+        ? categoryNames.get(categoryId) || UNCATEGORIZED_COST_LABEL
+        : UNCATEGORIZED_COST_LABEL,
+      amount,
+      count,
+      percentage: totalAmount > 0 ? (amount / totalAmount) * 100 : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
 /**
  * Generate available years starting from current year (descending)
  */
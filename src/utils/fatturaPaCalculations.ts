@@ -0,0 +1,898 @@
+import {
+  ICost,
+  IClient,
+  IFiscalProfile,
+  IInvoice,
+  InvoiceLineItem,
+  PensionChargeInfo,
+  TaxRegime,
+  VatNature,
+  VatType,
+} from "@/types";
+import { DEFAULT_SDI_CODE } from "./clientCalculations";
+import {
+  calculateNetToReceive,
+  calculateTotalAmount,
+  getInvoiceDueDate,
+  getInvoiceItems,
+  getInvoicePensionCharge,
+  getInvoiceWithholding,
+  getItemsVat,
+  getRecordedBollo,
+  isCreditNote,
+} from "./invoiceCalculations";
+
+/**
+ * Pure functions for FatturaPA electronic invoice calculations
+ * Follows functional programming principles
+ *
+ * Builds a format-independent FatturaPA 1.2 document from an invoice,
+ * the issuer fiscal profile and the client anagrafica, which the XML
+ * renderer serializes following the official schema
+ */
+
+export type FatturaPaInvoice = Pick<
+  IInvoice,
+  | "number"
+  | "issueDate"
+  | "title"
+  | "amount"
+  | "items"
+  | "vat"
+  | "paymentTerms"
+  | "dueDate"
+  | "bollo"
+  | "withholding"
+  | "pensionCharge"
+  | "documentType"
+  | "status"
+> & {
+  _id?: string;
+  id?: string;
+  fiscalYear: number;
+};
+
+export type FatturaPaIssuer = Pick<
+  IFiscalProfile,
+  | "firstName"
+  | "lastName"
+  | "companyName"
+  | "vatNumber"
+  | "taxCode"
+  | "address"
+  | "iban"
+>;
+
+export type FatturaPaClient = Pick<
+  IClient,
+  "name" | "vatNumber" | "taxCode" | "address" | "pec" | "sdiCode"
+>;
+
+export interface FatturaPaExportInput {
+  invoice: FatturaPaInvoice;
+  issuer: FatturaPaIssuer;
+  client: FatturaPaClient;
+  taxRegime: TaxRegime;
+  /** Invoice reversed by a credit note */
+  originalInvoice?: Pick<IInvoice, "number" | "issueDate">;
+}
+
+export type FatturaPaTransmissionFormat = "FPR12" | "FPA12";
+export type FatturaPaDocumentType = "TD01" | "TD04";
+export type RegimeFiscale = "RF01" | "RF19";
+export type NaturaIva = VatNature;
+/** RT01: withholding on individuals, RT02: on legal persons */
+export type TipoRitenuta = "RT01" | "RT02";
+
+export interface FatturaPaIdFiscale {
+  idPaese: string;
+  idCodice: string;
+}
+
+export interface FatturaPaSubject {
+  idFiscaleIva?: FatturaPaIdFiscale;
+  codiceFiscale?: string;
+  anagrafica: { denominazione: string } | { nome: string; cognome: string };
+  sede: {
+    indirizzo: string;
+    cap: string;
+    comune: string;
+    provincia?: string;
+    nazione: string;
+  };
+}
+
+export interface FatturaPaLine {
+  numeroLinea: number;
+  descrizione: string;
+  quantita?: number;
+  unitaMisura?: string;
+  prezzoUnitario: number;
+  prezzoTotale: number;
+  aliquotaIva: number;
+  ritenuta?: "SI";
+  natura?: NaturaIva;
+}
+
+/**
+ * Pension contribution charged on the document (DatiCassaPrevidenziale)
+ */
+export interface FatturaPaPensionFund {
+  tipoCassa: string;
+  alCassa: number;
+  importoContributoCassa: number;
+  imponibileCassa: number;
+  aliquotaIva: number;
+  ritenuta?: "SI";
+  natura?: NaturaIva;
+}
+
+export interface FatturaPaSummary {
+  aliquotaIva: number;
+  natura?: NaturaIva;
+  imponibileImporto: number;
+  imposta: number;
+  esigibilitaIva?: "I";
+  riferimentoNormativo?: string;
+}
+
+export interface FatturaPaDocument {
+  fileName: string;
+  datiTrasmissione: {
+    idTrasmittente: FatturaPaIdFiscale;
+    progressivoInvio: string;
+    formatoTrasmissione: FatturaPaTransmissionFormat;
+    codiceDestinatario: string;
+    pecDestinatario?: string;
+  };
+  cedentePrestatore: FatturaPaSubject & { regimeFiscale: RegimeFiscale };
+  cessionarioCommittente: FatturaPaSubject;
+  datiGeneraliDocumento: {
+    tipoDocumento: FatturaPaDocumentType;
+    divisa: "EUR";
+    data: Date;
+    numero: string;
+    datiRitenuta?: {
+      tipoRitenuta: TipoRitenuta;
+      importoRitenuta: number;
+      aliquotaRitenuta: number;
+      causalePagamento: "A";
+    };
+    datiBollo?: { importoBollo: number };
+    datiCassaPrevidenziale?: FatturaPaPensionFund;
+    importoTotaleDocumento: number;
+  };
+  datiFattureCollegate?: { idDocumento: string; data: Date };
+  dettaglioLinee: FatturaPaLine[];
+  datiRiepilogo: FatturaPaSummary[];
+  datiPagamento?: {
+    condizioniPagamento: "TP02";
+    dettaglioPagamento: {
+      modalitaPagamento: "MP05";
+      dataScadenzaPagamento: Date;
+      importoPagamento: number;
+      iban?: string;
+    };
+  };
+}
+
+/**
+ * Longest invoice number accepted by the Numero element
+ */
+export const FATTURAPA_MAX_NUMBER_LENGTH = 20;
+
+/**
+ * Recipient code of clients established abroad
+ */
+const FOREIGN_SDI_CODE = "XXXXXXX";
+
+/**
+ * Postal code used for addresses abroad
+ */
+const FOREIGN_POSTAL_CODE = "00000";
+
+/**
+ * Fiscal identifier of clients abroad without a VAT number
+ */
+const FOREIGN_PRIVATE_ID = "99999999999";
+
+const REGIME_FISCALE: Record<TaxRegime, RegimeFiscale> = {
+  forfettario: "RF19",
+  ordinario: "RF01",
+};
+
+/**
+ * Legal reference of operations outside the VAT scope of forfettari
+ */
+const FORFETTARIO_VAT_REFERENCE =
+  "Operazione in franchigia da IVA ai sensi dell'art. 1, commi 54-89, L. 190/2014";
+
+/**
+ * Legal reference of each VAT nature, the re-charged stamp duty is excluded
+ * from the VAT base as an expense paid in the client's name
+ */
+const VAT_NATURE_REFERENCES: Record<NaturaIva, string> = {
+  N1: "Escluso art. 15 DPR 633/1972",
+  "N2.1": "Operazione non soggetta ad IVA ai sensi dell'art. 7-ter DPR 633/1972",
+  "N2.2": FORFETTARIO_VAT_REFERENCE,
+  N4: "Operazione esente da IVA ai sensi dell'art. 10 DPR 633/1972",
+};
+
+/**
+ * Nature of lines without VAT that state none, as forfettari may leave it out
+ */
+const DEFAULT_NATURA: NaturaIva = "N2.2";
+
+/**
+ * Fund type (TipoCassa) of the rivalsa INPS
+ */
+const TIPO_CASSA_INPS = "TC22";
+
+/**
+ * Fund type (TipoCassa) of the contributo integrativo, by professional fund code
+ */
+const TIPO_CASSA_BY_FUND: Record<string, string> = {
+  FORENSE: "TC01",
+  CNPDAC: "TC02",
+  CASSA_GEOMETRI: "TC03",
+  INARCASSA: "TC04",
+  NOTARIATO: "TC05",
+  CASSA_RAGIONIERI: "TC06",
+  ENASARCO: "TC07",
+  ENPACL: "TC08",
+  ENPAM: "TC09",
+  ENPAF: "TC10",
+  ENPAV: "TC11",
+  ENPAIA: "TC12",
+  FASC: "TC13",
+  INPGI: "TC14",
+  EPPI: "TC17",
+  EPAP: "TC18",
+  ENPAB: "TC19",
+  ENPAPI: "TC20",
+  ENPAP: "TC21",
+};
+
+/**
+ * Typographic characters replaced with their Latin-1 equivalent
+ */
+const TEXT_REPLACEMENTS: [RegExp, string][] = [
+  [/[‘’]/g, "'"],
+  [/[“”]/g, '"'],
+  [/[–—]/g, "-"],
+  [/…/g, "..."],
+  [/€/g, "EUR"],
+];
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Identifier of an invoice, whichever shape it comes in
+ */
+const getInvoiceId = (invoice: FatturaPaInvoice): string =>
+  (invoice.id ?? invoice._id ?? "").toString();
+
+/**
+ * Restrict a text to the Latin-1 characters accepted by FatturaPA
+ * Whitespace is collapsed and the result truncated to the maximum length
+ */
+export const toFatturaPaText = (value: string, maxLength: number): string =>
+  TEXT_REPLACEMENTS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    value
+  )
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+
+/**
+ * Split a VAT number into country code and identifier
+ * Italian partite IVA may be stored without the IT prefix
+ */
+export const parseVatNumber = (vatNumber: string): FatturaPaIdFiscale => {
+  const value = vatNumber.replace(/\s+/g, "").toUpperCase();
+  if (/^\d{11}$/.test(value)) return { idPaese: "IT", idCodice: value };
+  return { idPaese: value.slice(0, 2), idCodice: value.slice(2) };
+};
+
+/**
+ * Name of the file submitted to the SDI: IT, VAT number and a
+ * 5-character progressive taken from the invoice ID
+ */
+export const getFatturaPaFileName = (
+  vatNumber: string,
+  invoiceId: string
+): string =>
+  `IT${parseVatNumber(vatNumber).idCodice}_${invoiceId
+    .slice(-5)
+    .toUpperCase()}.xml`;
+
+/**
+ * Fund type of a pension contribution, undefined for funds without one
+ */
+export const getTipoCassa = (
+  pensionCharge: Pick<PensionChargeInfo, "type" | "fundCode">
+): string | undefined =>
+  pensionCharge.type === "rivalsa_inps"
+    ? TIPO_CASSA_INPS
+    : TIPO_CASSA_BY_FUND[pensionCharge.fundCode?.toUpperCase() ?? ""];
+
+/**
+ * Check whether a client is established abroad
+ */
+const isForeignClient = (client: FatturaPaClient): boolean =>
+  (client.address?.country ?? "IT") !== "IT" ||
+  (!!client.vatNumber && parseVatNumber(client.vatNumber).idPaese !== "IT");
+
+/**
+ * List the reasons an invoice cannot be exported, empty when it can
+ */
+export const validateFatturaPaExport = ({
+  invoice,
+  client,
+  taxRegime,
+  originalInvoice,
+}: Omit<FatturaPaExportInput, "issuer">): string[] => {
+  const errors: string[] = [];
+  const items = getInvoiceItems(invoice);
+  const vatRate = getItemsVat(items)?.vatRate ?? 0;
+
+  // Drafts have no number until issued
+  if (!invoice.number) {
+    errors.push("Drafts must be issued before they are exported");
+  } else if (invoice.number.length > FATTURAPA_MAX_NUMBER_LENGTH) {
+    errors.push(
+      `Invoice number cannot exceed ${FATTURAPA_MAX_NUMBER_LENGTH} characters`
+    );
+  }
+  if (invoice.status === "cancelled") {
+    errors.push("Cancelled invoices cannot be exported");
+  }
+  if (isCreditNote(invoice)) {
+    if (!originalInvoice) {
+      errors.push("Credit notes must reference the original invoice");
+    } else if (
+      (originalInvoice.number ?? "").length > FATTURAPA_MAX_NUMBER_LENGTH
+    ) {
+      errors.push(
+        `Original invoice number cannot exceed ${FATTURAPA_MAX_NUMBER_LENGTH} characters`
+      );
+    }
+  }
+  if (taxRegime === "forfettario" && vatRate > 0) {
+    errors.push("Invoices in the forfettario regime cannot charge VAT");
+  }
+  if (
+    taxRegime === "ordinario" &&
+    items.some((item) => !item.vat?.vatRate && !item.vatNature)
+  ) {
+    errors.push("Invoices in the ordinario regime require a VAT rate");
+  }
+  if (taxRegime === "forfettario" && invoice.withholding) {
+    errors.push(
+      "Invoices in the forfettario regime are not subject to withholding tax"
+    );
+  }
+  if (invoice.pensionCharge && !getTipoCassa(invoice.pensionCharge)) {
+    errors.push(
+      invoice.pensionCharge.fundCode
+        ? `Professional fund ${invoice.pensionCharge.fundCode} has no FatturaPA fund type`
+        : "Contributo integrativo requires the professional fund of the user"
+    );
+  }
+
+  const { street, postalCode, city } = client.address ?? {};
+  if (!street || !city || !postalCode) {
+    errors.push("Client address must include street, postal code and city");
+  } else if (!isForeignClient(client) && !/^\d{5}$/.test(postalCode)) {
+    errors.push("Client postal code must be 5 digits");
+  }
+
+  return errors;
+};
+
+/**
+ * Build the fiscal subject of the issuer or the client
+ */
+const buildSubject = (
+  subject: {
+    vatNumber?: string;
+    taxCode?: string;
+    address?: FatturaPaClient["address"];
+  },
+  anagrafica: FatturaPaSubject["anagrafica"],
+  foreign: boolean
+): FatturaPaSubject => {
+  const address = subject.address;
+  const postalCode = address?.postalCode ?? "";
+
+  return {
+    ...(subject.vatNumber
+      ? { idFiscaleIva: parseVatNumber(subject.vatNumber) }
+      : foreign && {
+          idFiscaleIva: {
+            idPaese: address?.country ?? "IT",
+            idCodice: FOREIGN_PRIVATE_ID,
+          },
+        }),
+    ...(subject.taxCode && !foreign && { codiceFiscale: subject.taxCode }),
+    anagrafica,
+    sede: {
+      indirizzo: toFatturaPaText(address?.street ?? "", 60),
+      cap:
+        foreign && !/^\d{5}$/.test(postalCode)
+          ? FOREIGN_POSTAL_CODE
+          : postalCode,
+      comune: toFatturaPaText(address?.city ?? "", 60),
+      ...(address?.province && !foreign && { provincia: address.province }),
+      nazione: address?.country ?? "IT",
+    },
+  };
+};
+
+/**
+ * Nature of an invoice line, none when it carries VAT
+ */
+const getLineNatura = (
+  item: Pick<InvoiceLineItem, "vat" | "vatNature">
+): NaturaIva | undefined =>
+  item.vat?.vatRate ? undefined : item.vatNature ?? DEFAULT_NATURA;
+
+/**
+ * Summary of the VAT of a document, one per rate and nature
+ */
+const buildSummaries = (
+  lines: Pick<FatturaPaLine, "prezzoTotale" | "aliquotaIva" | "natura">[]
+): FatturaPaSummary[] =>
+  lines
+    .reduce<Pick<FatturaPaLine, "prezzoTotale" | "aliquotaIva" | "natura">[]>(
+      (groups, line) => {
+        const group = groups.find(
+          (candidate) =>
+            candidate.aliquotaIva === line.aliquotaIva &&
+            candidate.natura === line.natura
+        );
+        return group
+          ? groups.map((candidate) =>
+              candidate === group
+                ? { ...group, prezzoTotale: group.prezzoTotale + line.prezzoTotale }
+                : candidate
+            )
+          : [...groups, line];
+      },
+      []
+    )
+    .map(({ aliquotaIva, natura, prezzoTotale }) => ({
+      aliquotaIva,
+      ...(natura && { natura }),
+      imponibileImporto: roundToCents(prezzoTotale),
+      imposta: roundToCents((prezzoTotale * aliquotaIva) / 100),
+      ...(natura
+        ? { riferimentoNormativo: VAT_NATURE_REFERENCES[natura] }
+        : { esigibilitaIva: "I" as const }),
+    }));
+
+/**
+ * Build the FatturaPA document of an invoice
+ * Forfettari issue invoices under RF19 with the N2.2 VAT nature, and
+ * declare the virtual stamp duty when the amount requires it. Credit notes
+ * are TD04 documents with positive amounts referencing the original invoice,
+ * and carry no payment terms. Withholding tax on professional fees
+ * (causale A) applies to the fee line, and the client pays the total net of it.
+ * Pension contributions are declared as DatiCassaPrevidenziale and added to
+ * the VAT base at the rate of the invoice, the rivalsa INPS is also subject
+ * to the withholding tax. VAT is summarized per rate and nature of the lines
+ */
+export const buildFatturaPaDocument = ({
+  invoice,
+  issuer,
+  client,
+  taxRegime,
+  originalInvoice,
+}: FatturaPaExportInput): FatturaPaDocument => {
+  const creditNote = isCreditNote(invoice);
+  const invoiceId = getInvoiceId(invoice);
+  const items = getInvoiceItems(invoice);
+  const vatRate = getItemsVat(items)?.vatRate ?? 0;
+  // Contributions follow the nature of the lines when the invoice has no VAT
+  const natura: NaturaIva | undefined =
+    vatRate > 0
+      ? undefined
+      : getLineNatura(items.find((item) => !item.vat?.vatRate) ?? {});
+  const foreign = isForeignClient(client);
+  const codiceDestinatario = foreign
+    ? FOREIGN_SDI_CODE
+    : client.sdiCode ?? DEFAULT_SDI_CODE;
+  const total = roundToCents(calculateTotalAmount(invoice));
+  const pensionCharge = invoice.pensionCharge;
+  const bollo = getRecordedBollo(invoice);
+  const lines: FatturaPaLine[] = [
+    ...items.map((item, index) => {
+      const lineNatura = getLineNatura(item);
+      return {
+        numeroLinea: index + 1,
+        descrizione: toFatturaPaText(item.description, 1000),
+        quantita: item.quantity,
+        ...(item.unitOfMeasure && {
+          unitaMisura: toFatturaPaText(item.unitOfMeasure, 10),
+        }),
+        prezzoUnitario: item.unitPrice,
+        prezzoTotale: item.amount,
+        aliquotaIva: item.vat?.vatRate ?? 0,
+        ...(invoice.withholding && { ritenuta: "SI" as const }),
+        ...(lineNatura && { natura: lineNatura }),
+      };
+    }),
+    ...(bollo?.chargedToClient
+      ? [
+          {
+            numeroLinea: items.length + 1,
+            descrizione: "Rimborso imposta di bollo",
+            prezzoUnitario: bollo.amount,
+            prezzoTotale: bollo.amount,
+            aliquotaIva: 0,
+            natura: "N1" as const,
+          },
+        ]
+      : []),
+  ];
+
+  return {
+    fileName: getFatturaPaFileName(issuer.vatNumber, invoiceId),
+    datiTrasmissione: {
+      idTrasmittente: { idPaese: "IT", idCodice: issuer.taxCode },
+      progressivoInvio: invoiceId.slice(-10).toUpperCase(),
+      // Public administrations have 6-character recipient codes
+      formatoTrasmissione: codiceDestinatario.length === 6 ? "FPA12" : "FPR12",
+      codiceDestinatario,
+      ...(codiceDestinatario === DEFAULT_SDI_CODE &&
+        client.pec && { pecDestinatario: client.pec }),
+    },
+    cedentePrestatore: {
+      ...buildSubject(
+        issuer,
+        issuer.companyName
+          ? { denominazione: toFatturaPaText(issuer.companyName, 80) }
+          : {
+              nome: toFatturaPaText(issuer.firstName ?? "", 60),
+              cognome: toFatturaPaText(issuer.lastName ?? "", 60),
+            },
+        false
+      ),
+      regimeFiscale: REGIME_FISCALE[taxRegime],
+    },
+    cessionarioCommittente: buildSubject(
+      client,
+      { denominazione: toFatturaPaText(client.name, 80) },
+      foreign
+    ),
+    datiGeneraliDocumento: {
+      tipoDocumento: creditNote ? "TD04" : "TD01",
+      divisa: "EUR",
+      data: new Date(invoice.issueDate),
+      numero: invoice.number ?? "",
+      ...(invoice.withholding && {
+        datiRitenuta: {
+          tipoRitenuta: issuer.companyName ? "RT02" : "RT01",
+          importoRitenuta: roundToCents(invoice.withholding.amount),
+          aliquotaRitenuta: invoice.withholding.rate,
+          causalePagamento: "A",
+        },
+      }),
+      ...(bollo && { datiBollo: { importoBollo: bollo.amount } }),
+      ...(pensionCharge && {
+        datiCassaPrevidenziale: {
+          tipoCassa: getTipoCassa(pensionCharge) ?? "",
+          alCassa: pensionCharge.rate,
+          importoContributoCassa: roundToCents(pensionCharge.amount),
+          imponibileCassa: roundToCents(invoice.amount),
+          aliquotaIva: vatRate,
+          ...(pensionCharge.type === "rivalsa_inps" &&
+            invoice.withholding && { ritenuta: "SI" as const }),
+          ...(natura && { natura }),
+        },
+      }),
+      importoTotaleDocumento: total,
+    },
+    ...(creditNote &&
+      originalInvoice && {
+        datiFattureCollegate: {
+          idDocumento: originalInvoice.number ?? "",
+          data: new Date(originalInvoice.issueDate),
+        },
+      }),
+    dettaglioLinee: lines,
+    datiRiepilogo: buildSummaries([
+      ...lines,
+      ...(pensionCharge
+        ? [
+            {
+              prezzoTotale: pensionCharge.amount,
+              aliquotaIva: vatRate,
+              ...(natura && { natura }),
+            },
+          ]
+        : []),
+    ]),
+    ...(!creditNote && {
+      datiPagamento: {
+        condizioniPagamento: "TP02",
+        dettaglioPagamento: {
+          modalitaPagamento: "MP05",
+          dataScadenzaPagamento: getInvoiceDueDate(invoice),
+          importoPagamento: calculateNetToReceive(invoice),
+          ...(issuer.iban && { iban: issuer.iban }),
+        },
+      },
+    }),
+  };
+};
+
+/**
+ * Import of received and issued FatturaPA files
+ */
+
+/**
+ * Party of an imported document as read from its DatiAnagrafici
+ */
+export interface FatturaPaImportedParty {
+  vatNumber?: string;
+  taxCode?: string;
+  name: string;
+}
+
+/**
+ * Body of an imported FatturaPA file reduced to the data the app records
+ */
+export interface FatturaPaImportedDocument {
+  tipoDocumento: string;
+  number: string;
+  date: Date;
+  issuer: FatturaPaImportedParty;
+  recipient: FatturaPaImportedParty;
+  description: string;
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  /** Amounts outside the VAT base, such as the re-charged stamp duty */
+  excludedAmount: number;
+  vatRates: number[];
+  bolloAmount?: number;
+  /** Rate of the withholding tax retained by the client */
+  withholdingRate?: number;
+  /** Pension contribution included in the taxable amount */
+  pensionFund?: { tipoCassa: string; rate: number; amount: number };
+  dueDate?: Date;
+}
+
+/**
+ * Active documents were issued by the user, passive ones received
+ */
+export type FatturaPaImportDirection = "active" | "passive";
+
+export type ImportedInvoiceData = Pick<
+  IInvoice,
+  | "number"
+  | "issueDate"
+  | "title"
+  | "clientName"
+  | "amount"
+  | "fiscalYear"
+  | "vat"
+  | "paymentTerms"
+  | "dueDate"
+  | "bollo"
+  | "withholding"
+  | "pensionCharge"
+>;
+
+export type ImportedCostData = Pick<
+  ICost,
+  | "description"
+  | "date"
+  | "amount"
+  | "supplierName"
+  | "supplierVatNumber"
+  | "documentNumber"
+>;
+
+/**
+ * Document types recorded on import: invoices, parcelle and deferred invoices
+ */
+const IMPORTABLE_DOCUMENT_TYPES = ["TD01", "TD06", "TD24", "TD25"];
+
+const VAT_TYPES_BY_RATE: Record<number, VatType> = {
+  22: "standard",
+  10: "reduced10",
+  5: "reduced5",
+  4: "reduced4",
+};
+
+/**
+ * Characters accepted in cost descriptions
+ */
+const COST_DESCRIPTION_INVALID_CHARACTERS =
+  /[^a-zA-ZÀ-ÿ0-9\s.,;:()\-_'"!?€$%&+/\\]/g;
+
+/**
+ * VAT number as stored by the app: Italian partite IVA without prefix,
+ * foreign ones with their country code
+ */
+export const formatVatNumber = ({ idPaese, idCodice }: FatturaPaIdFiscale): string =>
+  idPaese === "IT" ? idCodice : `${idPaese}${idCodice}`;
+
+/**
+ * Compare two VAT numbers regardless of prefix and spacing
+ */
+const isSameVatNumber = (first: string, second: string): boolean =>
+  formatVatNumber(parseVatNumber(first)) ===
+  formatVatNumber(parseVatNumber(second));
+
+/**
+ * Tell whether a document was issued or received by the owner of a VAT number
+ * Returns null when the user is neither the issuer nor the recipient
+ */
+export const getImportDirection = (
+  document: FatturaPaImportedDocument,
+  ownVatNumber: string
+): FatturaPaImportDirection | null => {
+  if (document.issuer.vatNumber && isSameVatNumber(document.issuer.vatNumber, ownVatNumber)) {
+    return "active";
+  }
+  if (document.recipient.vatNumber && isSameVatNumber(document.recipient.vatNumber, ownVatNumber)) {
+    return "passive";
+  }
+  return null;
+};
+
+/**
+ * Key identifying a document by issuer, number and date
+ */
+export const getImportedDocumentKey = (
+  document: FatturaPaImportedDocument
+): string =>
+  [
+    document.issuer.vatNumber ?? document.issuer.taxCode ?? document.issuer.name,
+    document.number,
+    document.date.getFullYear(),
+    document.date.getMonth() + 1,
+    document.date.getDate(),
+  ].join("|");
+
+/**
+ * VAT type matching a rate, custom for rates without a predefined type
+ */
+export const getVatTypeForRate = (rate: number): VatType =>
+  VAT_TYPES_BY_RATE[rate] ?? "custom";
+
+/**
+ * List the reasons a document cannot be imported, empty when it can
+ */
+export const validateImportedDocument = (
+  document: FatturaPaImportedDocument,
+  direction: FatturaPaImportDirection
+): string[] => {
+  const errors: string[] = [];
+
+  if (!IMPORTABLE_DOCUMENT_TYPES.includes(document.tipoDocumento)) {
+    errors.push(`Document type ${document.tipoDocumento} cannot be imported`);
+  }
+  if (document.taxableAmount <= 0) {
+    errors.push("Document amount must be greater than 0");
+  }
+  if (direction === "active") {
+    if (document.vatRates.length > 1) {
+      errors.push("Invoices with more than one VAT rate cannot be imported");
+    }
+    if (!/^[A-Za-z0-9\-\/]+$/.test(document.number)) {
+      errors.push(
+        "Invoice number can only contain letters, numbers, hyphens, and slashes"
+      );
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Pension contribution of an imported document, recorded on the fee
+ * Contributi integrativi keep the fund matching their fund type
+ */
+const toImportedPensionCharge = (
+  pensionFund: NonNullable<FatturaPaImportedDocument["pensionFund"]>,
+  amount: number
+): PensionChargeInfo | undefined =>
+  getInvoicePensionCharge(
+    { amount },
+    pensionFund.tipoCassa === TIPO_CASSA_INPS
+      ? { type: "rivalsa_inps", rate: pensionFund.rate }
+      : {
+          type: "cassa_integrativa",
+          rate: pensionFund.rate,
+          fundCode: Object.keys(TIPO_CASSA_BY_FUND).find(
+            (fundCode) =>
+              TIPO_CASSA_BY_FUND[fundCode] === pensionFund.tipoCassa
+          ),
+        }
+  );
+
+/**
+ * Invoice data of a document issued by the user
+ * The amount is the fee: pension contributions, VAT, a re-charged stamp
+ * duty and the withholding tax are recorded apart as on new invoices
+ */
+export const toImportedInvoice = (
+  document: FatturaPaImportedDocument
+): ImportedInvoiceData => {
+  const vatRate = document.vatRates[0] ?? 0;
+  const amount = roundToCents(
+    document.taxableAmount - (document.pensionFund?.amount ?? 0)
+  );
+  const pensionCharge =
+    document.pensionFund &&
+    toImportedPensionCharge(document.pensionFund, amount);
+
+  return {
+    number: document.number,
+    issueDate: document.date,
+    title: document.description.slice(0, 500),
+    clientName: document.recipient.name.slice(0, 200),
+    amount,
+    fiscalYear: document.date.getFullYear(),
+    ...(vatRate > 0 && {
+      vat: { vatType: getVatTypeForRate(vatRate), vatRate },
+    }),
+    ...(document.bolloAmount && {
+      bollo: {
+        amount: document.bolloAmount,
+        chargedToClient: document.excludedAmount >= document.bolloAmount,
+      },
+    }),
+    ...(pensionCharge && { pensionCharge }),
+    ...(document.withholdingRate && {
+      withholding: getInvoiceWithholding(
+        { amount, pensionCharge },
+        document.withholdingRate
+      ),
+    }),
+    ...(document.dueDate && {
+      paymentTerms: "custom" as const,
+      dueDate: document.dueDate,
+    }),
+  };
+};
+
+/**
+ * Cost data of a document received by the user
+ * Forfettari cannot deduct VAT, so their cost is the gross total,
+ * while in the ordinario regime the cost is the taxable amount
+ */
+export const toImportedCost = (
+  document: FatturaPaImportedDocument,
+  taxRegime: TaxRegime
+): ImportedCostData => {
+  const description = `${document.issuer.name} - ${document.description}`
+    .replace(COST_DESCRIPTION_INVALID_CHARACTERS, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 200)
+    .trim();
+
+  return {
+    description,
+    date: document.date,
+    amount: roundToCents(
+      taxRegime === "forfettario"
+        ? document.totalAmount
+        : document.taxableAmount
+    ),
+    supplierName: document.issuer.name.slice(0, 200),
+    supplierVatNumber: document.issuer.vatNumber,
+    documentNumber: document.number.slice(0, FATTURAPA_MAX_NUMBER_LENGTH),
+  };
+};
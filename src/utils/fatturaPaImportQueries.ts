@@ -0,0 +1,203 @@
+import { Cost } from "@/models/Cost";
+import { Invoice } from "@/models/Invoice";
+import {
+  FatturaPaImportReport,
+  FatturaPaImportResult,
+  IInvoice,
+  TaxRegime,
+} from "@/types";
+import {
+  FatturaPaUploadedFile,
+  readFatturaPaXml,
+} from "@/lib/fatturapa/xmlReader";
+import {
+  FatturaPaImportedDocument,
+  getImportDirection,
+  getImportedDocumentKey,
+  toImportedCost,
+  toImportedInvoice,
+  validateImportedDocument,
+} from "./fatturaPaCalculations";
+import { createInvoice } from "./invoiceQueries";
+import { recordInvoiceNumber } from "./invoiceSequenceQueries";
+import { linkInvoicesToClients } from "./clientQueries";
+
+/**
+ * Pure functions for FatturaPA import database queries
+ * Replaces static methods with functional approach
+ */
+
+export interface FatturaPaImportOptions {
+  userId: string;
+  vatNumber: string;
+  taxRegime: TaxRegime;
+}
+
+/**
+ * Start and end of the local day of a date
+ */
+const getDayRange = (date: Date): { $gte: Date; $lt: Date } => ({
+  $gte: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+  $lt: new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1),
+});
+
+/**
+ * Check if a document was already recorded as invoice or cost
+ */
+const isAlreadyImported = async (
+  document: FatturaPaImportedDocument,
+  direction: "active" | "passive",
+  userId: string
+): Promise<boolean> => {
+  if (direction === "active") {
+    return !!(await Invoice.exists({
+      userId,
+      number: document.number,
+      issueDate: getDayRange(document.date),
+    }));
+  }
+
+  return !!(await Cost.exists({
+    userId,
+    documentNumber: document.number,
+    ...(document.issuer.vatNumber
+      ? { supplierVatNumber: document.issuer.vatNumber }
+      : { supplierName: document.issuer.name }),
+    date: getDayRange(document.date),
+  }));
+};
+
+/**
+ * Message of an error raised while saving a document
+ * Errors other than validation and duplicate numbers are rethrown
+ */
+const getSaveErrorMessage = (error: unknown): string => {
+  if (error instanceof Error && error.message.includes("E11000")) {
+    return "An invoice with this number already exists";
+  }
+  if (error instanceof Error && error.name === "ValidationError") {
+    return error.message;
+  }
+  throw error;
+};
+
+/**
+ * Record a single document, returning its import result
+ */
+const importDocument = async (
+  fileName: string,
+  document: FatturaPaImportedDocument,
+  { userId, vatNumber, taxRegime }: FatturaPaImportOptions
+): Promise<FatturaPaImportResult> => {
+  const direction = getImportDirection(document, vatNumber);
+  const base = { fileName, number: document.number };
+
+  if (!direction) {
+    return {
+      ...base,
+      status: "error",
+      message: "Neither the issuer nor the recipient match your VAT number",
+    };
+  }
+
+  const counterpart =
+    direction === "active" ? document.recipient.name : document.issuer.name;
+  const errors = validateImportedDocument(document, direction);
+  if (errors.length > 0) {
+    return { ...base, counterpart, status: "error", message: errors.join("; ") };
+  }
+
+  if (await isAlreadyImported(document, direction, userId)) {
+    return { ...base, counterpart, status: "duplicate" };
+  }
+
+  try {
+    if (direction === "active") {
+      const invoice = await createInvoice(
+        userId,
+        toImportedInvoice(document) as Omit<
+          IInvoice,
+          "id" | "userId" | "createdAt" | "updatedAt"
+        >
+      );
+      // Numbering continues after the imported invoices
+      if (invoice.number) {
+        await recordInvoiceNumber(userId, invoice.fiscalYear, invoice.number);
+      }
+      return { ...base, counterpart, status: "invoice" };
+    }
+
+    await new Cost({ ...toImportedCost(document, taxRegime), userId }).save();
+    return { ...base, counterpart, status: "cost" };
+  } catch (error) {
+    return {
+      ...base,
+      counterpart,
+      status: "error",
+      message: getSaveErrorMessage(error),
+    };
+  }
+};
+
+/**
+ * Import uploaded FatturaPA files for a user
+ * Issued invoices are created as invoices and linked to registry clients,
+ * received ones are recorded as costs. Documents already recorded, or
+ * repeated within the upload, are reported as duplicates
+ */
+export const importFatturaPaFiles = async (
+  files: FatturaPaUploadedFile[],
+  options: FatturaPaImportOptions
+): Promise<FatturaPaImportReport> => {
+  const results: FatturaPaImportResult[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const file of files) {
+    if (!file.bytes) {
+      results.push({ fileName: file.fileName, status: "error", message: file.error });
+      continue;
+    }
+
+    let documents: FatturaPaImportedDocument[];
+    try {
+      documents = readFatturaPaXml(file.bytes);
+    } catch (error) {
+      results.push({
+        fileName: file.fileName,
+        status: "error",
+        message: error instanceof Error ? error.message : "File cannot be read",
+      });
+      continue;
+    }
+
+    for (const document of documents) {
+      const key = getImportedDocumentKey(document);
+      if (seenKeys.has(key)) {
+        results.push({
+          fileName: file.fileName,
+          number: document.number,
+          status: "duplicate",
+        });
+        continue;
+      }
+      seenKeys.add(key);
+      results.push(await importDocument(file.fileName, document, options));
+    }
+  }
+
+  const count = (status: FatturaPaImportResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  const invoicesCreated = count("invoice");
+
+  if (invoicesCreated > 0) {
+    await linkInvoicesToClients(options.userId);
+  }
+
+  return {
+    results,
+    invoicesCreated,
+    costsCreated: count("cost"),
+    duplicates: count("duplicate"),
+    errors: count("error"),
+  };
+};
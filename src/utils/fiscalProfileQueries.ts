@@ -0,0 +1,49 @@
+import { FiscalProfile } from "@/models/FiscalProfile";
+import { FiscalProfileRequest, IFiscalProfile } from "@/types";
+
+/**
+ * Pure functions for fiscal profile database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Fiscal profile fields that can be left empty
+ */
+const OPTIONAL_FISCAL_PROFILE_FIELDS = [
+  "firstName",
+  "lastName",
+  "companyName",
+  "pec",
+  "iban",
+] as const;
+
+/**
+ * Find the fiscal profile of a user
+ */
+export const findFiscalProfileByUser = async (
+  userId: string
+): Promise<IFiscalProfile | null> => {
+  const profile = await FiscalProfile.findOne({ userId }).lean<IFiscalProfile>();
+  return profile;
+};
+
+/**
+ * Create or replace the fiscal profile of a user
+ * Saved through the document so the validators apply
+ */
+export const saveFiscalProfileForUser = async (
+  userId: string,
+  data: FiscalProfileRequest
+): Promise<IFiscalProfile> => {
+  const profile =
+    (await FiscalProfile.findOne({ userId })) ?? new FiscalProfile({ userId });
+
+  profile.set(data);
+  // Optional fields left out of the request are cleared
+  OPTIONAL_FISCAL_PROFILE_FIELDS.filter(
+    (field) => data[field] === undefined
+  ).forEach((field) => profile.set(field, undefined));
+
+  const saved = await profile.save();
+  return saved.toObject() as IFiscalProfile;
+};
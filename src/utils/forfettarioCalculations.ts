@@ -0,0 +1,252 @@
+import {
+  ICost,
+  RegimeExitSimulation,
+  RegimeTaxEstimate,
+  RevenueCeilingProjection,
+  RevenueCeilingStatus,
+} from "@/types";
+import { calculateTotalDeductibleAmount } from "./costCalculations";
+import { IrpefBracket, calculateIrpef } from "./irpefCalculations";
+
+/**
+ * Pure functions for forfettario revenue ceiling monitoring
+ * Follows functional programming principles
+ */
+
+/**
+ * Revenue ceiling of the forfettario regime (art. 1, comma 54, L. 190/2014)
+ * Exceeding it means leaving the regime from the following year
+ */
+export const FORFETTARIO_REVENUE_CEILING = 85000;
+
+/**
+ * Revenue above which the regime is left in the same year (art. 1, comma 71)
+ */
+export const FORFETTARIO_IMMEDIATE_EXIT_THRESHOLD = 100000;
+
+/**
+ * Default alert thresholds, as a percentage of the revenue ceiling
+ */
+export const DEFAULT_REVENUE_ALERT_THRESHOLDS = [70, 90];
+
+/**
+ * Minimum share of the year used for projections
+ * Avoids extrapolating a whole year from the first few days of January
+ */
+const MIN_PROJECTION_FRACTION = 1 / 12;
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Share of the year elapsed at a given date
+ * Past years are complete, future years have not started
+ */
+export const calculateYearElapsedFraction = (
+  year: number,
+  now: Date = new Date()
+): number => {
+  if (year < now.getFullYear()) return 1;
+  if (year > now.getFullYear()) return 0;
+
+  const start = new Date(year, 0, 1).getTime();
+  const end = new Date(year + 1, 0, 1).getTime();
+  return (now.getTime() - start) / (end - start);
+};
+
+/**
+ * Project an amount accrued so far to the end of the year
+ * Linear projection on the share of the year elapsed
+ */
+export const projectYearEndAmount = (
+  amountToDate: number,
+  year: number,
+  now: Date = new Date()
+): number => {
+  const fraction = calculateYearElapsedFraction(year, now);
+  if (fraction >= 1 || fraction <= 0) return roundToCents(amountToDate);
+
+  return roundToCents(
+    amountToDate / Math.max(fraction, MIN_PROJECTION_FRACTION)
+  );
+};
+
+/**
+ * Normalize alert thresholds: unique, between 1 and 100, ascending
+ */
+export const normalizeAlertThresholds = (thresholds?: number[]): number[] => {
+  const valid = (thresholds || []).filter((t) => t > 0 && t <= 100);
+  const source = valid.length > 0 ? valid : DEFAULT_REVENUE_ALERT_THRESHOLDS;
+  return Array.from(new Set(source)).sort((a, b) => a - b);
+};
+
+/**
+ * Classify revenue against the forfettario ceilings
+ * Actual revenue decides the exit, the projection only warns
+ */
+export const getRevenueCeilingStatus = (
+  revenueToDate: number,
+  projectedRevenue: number,
+  reachedThresholds: number[]
+): RevenueCeilingStatus => {
+  if (revenueToDate > FORFETTARIO_IMMEDIATE_EXIT_THRESHOLD) {
+    return "immediate_exit";
+  }
+  if (revenueToDate > FORFETTARIO_REVENUE_CEILING) return "exit_next_year";
+  if (projectedRevenue > FORFETTARIO_REVENUE_CEILING) return "projected_exit";
+  if (reachedThresholds.length > 0) return "warning";
+  return "ok";
+};
+
+/**
+ * Project year-end revenue and compare it with the ceiling
+ */
+export const evaluateRevenueCeiling = (
+  year: number,
+  revenueToDate: number,
+  thresholds?: number[],
+  now: Date = new Date()
+): RevenueCeilingProjection => {
+  const projectedRevenue = projectYearEndAmount(revenueToDate, year, now);
+  const normalizedThresholds = normalizeAlertThresholds(thresholds);
+  const projectedCeilingUsage = roundToCents(
+    (projectedRevenue / FORFETTARIO_REVENUE_CEILING) * 100
+  );
+  const reachedThresholds = normalizedThresholds.filter(
+    (threshold) => projectedCeilingUsage >= threshold
+  );
+
+  return {
+    year,
+    revenueToDate: roundToCents(revenueToDate),
+    projectedRevenue,
+    ceiling: FORFETTARIO_REVENUE_CEILING,
+    immediateExitThreshold: FORFETTARIO_IMMEDIATE_EXIT_THRESHOLD,
+    ceilingUsage: roundToCents(
+      (revenueToDate / FORFETTARIO_REVENUE_CEILING) * 100
+    ),
+    projectedCeilingUsage,
+    thresholds: normalizedThresholds,
+    reachedThresholds,
+    status: getRevenueCeilingStatus(
+      revenueToDate,
+      projectedRevenue,
+      reachedThresholds
+    ),
+  };
+};
+
+/**
+ * Parameters of a regime exit simulation
+ */
+export interface RegimeExitSimulationInput {
+  year: number;
+  revenue: number;
+  costs: Pick<ICost, "amount" | "deductible" | "deductionPercentage">[];
+  profitabilityRate: number;
+  substituteRate: number;
+  contributionRate: number;
+  fixedAnnualContributions?: number;
+  regionalSurchargeRate?: number;
+  municipalSurchargeRate?: number;
+}
+
+/**
+ * Build a regime estimate from its taxable base and taxes
+ */
+const buildRegimeEstimate = (
+  revenue: number,
+  deductibleCosts: number,
+  taxableIncome: number,
+  contributions: number,
+  incomeTax: number
+): RegimeTaxEstimate => {
+  const totalTaxes = roundToCents(contributions + incomeTax);
+  return {
+    revenue: roundToCents(revenue),
+    deductibleCosts: roundToCents(deductibleCosts),
+    taxableIncome: roundToCents(taxableIncome),
+    contributions: roundToCents(contributions),
+    incomeTax: roundToCents(incomeTax),
+    totalTaxes,
+    netIncome: roundToCents(revenue - deductibleCosts - totalTaxes),
+  };
+};
+
+/**
+ * Simulate a year of revenue under both regimes
+ * Without brackets, IRPEF uses the default table for the year
+ *
+ * Forfettario mirrors the tax calculations page: profitability coefficient,
+ * deductible costs subtracted, contributions deducted from the substitute
+ * tax base as if paid in the same year.
+ * Ordinario: revenue minus deductible costs (partial deductions applied),
+ * contributions deducted from the IRPEF base, IRPEF with addizionali.
+ */
+export const simulateRegimeExit = (
+  input: RegimeExitSimulationInput,
+  brackets?: IrpefBracket[]
+): RegimeExitSimulation => {
+  const {
+    year,
+    revenue,
+    costs,
+    profitabilityRate,
+    substituteRate,
+    contributionRate,
+    fixedAnnualContributions = 0,
+  } = input;
+
+  const calculateContributions = (income: number): number =>
+    (income * contributionRate) / 100 + fixedAnnualContributions;
+
+  // Forfettario
+  const forfettarioCosts = costs
+    .filter((cost) => cost.deductible)
+    .reduce((sum, cost) => sum + cost.amount, 0);
+  const forfettarioIncome = Math.max(
+    0,
+    (revenue * profitabilityRate) / 100 - forfettarioCosts
+  );
+  const forfettarioContributions = calculateContributions(forfettarioIncome);
+  const substituteTax =
+    (Math.max(0, forfettarioIncome - forfettarioContributions) *
+      substituteRate) /
+    100;
+
+  // Ordinario
+  const ordinarioCosts = calculateTotalDeductibleAmount(costs);
+  const ordinarioIncome = Math.max(0, revenue - ordinarioCosts);
+  const ordinarioContributions = calculateContributions(ordinarioIncome);
+  const irpefRequest = {
+    year,
+    taxableIncome: Math.max(0, ordinarioIncome - ordinarioContributions),
+    regionalSurchargeRate: input.regionalSurchargeRate,
+    municipalSurchargeRate: input.municipalSurchargeRate,
+  };
+  const irpefBreakdown = calculateIrpef(irpefRequest, brackets);
+
+  const forfettario = buildRegimeEstimate(
+    revenue,
+    forfettarioCosts,
+    forfettarioIncome,
+    forfettarioContributions,
+    substituteTax
+  );
+  const ordinario = buildRegimeEstimate(
+    revenue,
+    ordinarioCosts,
+    ordinarioIncome,
+    ordinarioContributions,
+    irpefBreakdown.totalIrpef
+  );
+
+  return {
+    year,
+    forfettario,
+    ordinario: { ...ordinario, irpefBreakdown },
+    additionalTaxes: roundToCents(ordinario.totalTaxes - forfettario.totalTaxes),
+  };
+};
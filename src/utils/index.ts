@@ -12,6 +12,8 @@ export {
   generateSecureId,
 } from "./security";
 
+import { resolveSubstituteRate } from "./userSettingsCalculations";
+
 // Existing utility exports (if any)
 
 /**
@@ -26,6 +28,7 @@ export const calculateEstimatedMonthlyTaxes = (
     taxRegime?: string;
     profitabilityRate?: number;
     substituteRate?: number;
+    activityStartDate?: Date | string | null;
     manualContributionRate?: number;
     manualFixedAnnualContributions?: number;
   } | null
@@ -65,7 +68,9 @@ export const calculateEstimatedMonthlyTaxes = (
   // Calculate IRPEF/substitute tax
   const irpefAmount =
     settings.taxRegime === "forfettario"
-      ? (taxableIncome * (settings.substituteRate || 0)) / 100
+      ? (taxableIncome *
+          resolveSubstituteRate(settings, new Date().getFullYear())) /
+        100
       : taxableIncome * 0.23; // Simplified IRPEF rate for ordinario
 
   // Calculate pension contributions
@@ -0,0 +1,141 @@
+import { InpsRate, InpsRateType } from "@/types";
+
+/**
+ * Pure functions for INPS Gestione Separata parameters
+ * Follows functional programming principles
+ */
+
+/**
+ * All Gestione Separata contributor categories
+ */
+export const INPS_RATE_TYPES: InpsRateType[] = [
+  "PROFESSIONAL",
+  "COLLABORATOR_WITH_DISCOLL",
+  "COLLABORATOR_WITHOUT_DISCOLL",
+  "PENSIONER",
+];
+
+/**
+ * Default Gestione Separata rates, one per contributor category
+ */
+export const DEFAULT_INPS_RATES: InpsRate[] = [
+  {
+    type: "PROFESSIONAL",
+    description: "Professionisti senza altra copertura",
+    rate: 26.07,
+  },
+  {
+    type: "COLLABORATOR_WITH_DISCOLL",
+    description: "Collaboratori con DIS-COLL",
+    rate: 35.03,
+  },
+  {
+    type: "COLLABORATOR_WITHOUT_DISCOLL",
+    description: "Collaboratori senza DIS-COLL",
+    rate: 33.72,
+  },
+  {
+    type: "PENSIONER",
+    description: "Pensionati o con altra copertura previdenziale",
+    rate: 24,
+  },
+];
+
+/**
+ * Default massimale and minimale by year (INPS yearly circulars)
+ */
+export const DEFAULT_INPS_INCOME_LIMITS: Record<
+  number,
+  { maxIncome: number; minIncome: number }
+> = {
+  2022: { maxIncome: 105014, minIncome: 16243 },
+  2023: { maxIncome: 113520, minIncome: 17504 },
+  2024: { maxIncome: 119650, minIncome: 18415 },
+  2025: { maxIncome: 120607, minIncome: 18555 },
+};
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number =>
+  Math.round(value * 100) / 100;
+
+/**
+ * Calculate the minimum contribution of each category
+ * Contributions due on the minimale are required to credit a full year
+ */
+export const calculateInpsMinContributions = (
+  rates: InpsRate[],
+  minIncome: number
+): Record<string, number> =>
+  rates.reduce<Record<string, number>>((minContributions, rate) => {
+    minContributions[rate.type] = roundToCents((minIncome * rate.rate) / 100);
+    return minContributions;
+  }, {});
+
+/**
+ * Get the default INPS parameters for a given year
+ * Falls back to the closest earlier limits, or the oldest ones
+ */
+export const getDefaultInpsParameters = (year: number) => {
+  const years = Object.keys(DEFAULT_INPS_INCOME_LIMITS)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const applicableYear =
+    [...years].reverse().find((y) => y <= year) ?? years[0];
+  const { maxIncome, minIncome } = DEFAULT_INPS_INCOME_LIMITS[applicableYear];
+
+  return {
+    year,
+    rates: DEFAULT_INPS_RATES,
+    maxIncome,
+    minIncome,
+    minContributions: calculateInpsMinContributions(
+      DEFAULT_INPS_RATES,
+      minIncome
+    ),
+  };
+};
+
+/**
+ * Validate a set of INPS parameters
+ * Every contributor category must have exactly one rate,
+ * and the minimale must be lower than the massimale
+ */
+export const validateInpsParameters = (parameters: {
+  rates: InpsRate[];
+  maxIncome: number;
+  minIncome: number;
+}): {
+  isValid: boolean;
+  errors: string[];
+} => {
+  const errors: string[] = [];
+
+  INPS_RATE_TYPES.forEach((type) => {
+    const count = parameters.rates.filter((rate) => rate.type === type).length;
+    if (count === 0) {
+      errors.push(`Missing rate for ${type}`);
+    } else if (count > 1) {
+      errors.push(`Duplicate rate for ${type}`);
+    }
+  });
+
+  parameters.rates.forEach((rate) => {
+    if (!INPS_RATE_TYPES.includes(rate.type)) {
+      errors.push(`Unknown rate type ${rate.type}`);
+    }
+    if (rate.rate < 0 || rate.rate > 100) {
+      errors.push(`${rate.type}: rate must be between 0 and 100`);
+    }
+  });
+
+  if (parameters.minIncome >= parameters.maxIncome) {
+    errors.push("Minimum income must be lower than maximum income");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
@@ -0,0 +1,103 @@
+import { InpsParameters } from "@/models/InpsParameters";
+import { IInpsParameters, InpsParametersRequest } from "@/types";
+import {
+  calculateInpsMinContributions,
+  getDefaultInpsParameters,
+} from "./inpsCalculations";
+
+/**
+ * Pure functions for INPS parameters database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find all INPS parameters, newest year first
+ */
+export const findAllInpsParameters = async (): Promise<IInpsParameters[]> => {
+  const parameters = await InpsParameters.find().sort({ year: -1 }).lean();
+  return parameters;
+};
+
+/**
+ * Find the INPS parameters defined for a year
+ */
+export const findInpsParametersByYear = async (
+  year: number
+): Promise<IInpsParameters | null> => {
+  const parameters = await InpsParameters.findOne({ year }).lean();
+  return parameters;
+};
+
+/**
+ * Find the INPS parameters in force for a year
+ * Falls back to the closest earlier year with defined parameters
+ */
+export const findInpsParametersInForce = async (
+  year: number
+): Promise<IInpsParameters | null> => {
+  const parameters = await InpsParameters.findOne({ year: { $lte: year } })
+    .sort({ year: -1 })
+    .lean();
+  return parameters;
+};
+
+/**
+ * Create the INPS parameters of a year
+ * Minimum contributions are derived from the minimale
+ */
+export const createInpsParameters = async (
+  data: InpsParametersRequest
+): Promise<IInpsParameters> => {
+  const parameters = new InpsParameters({
+    ...data,
+    minContributions: calculateInpsMinContributions(data.rates, data.minIncome),
+  });
+  await parameters.save();
+  return parameters.toObject({ flattenMaps: true }) as IInpsParameters;
+};
+
+/**
+ * Update the INPS parameters of a year
+ * Returns null when the year has no parameters
+ */
+export const updateInpsParametersByYear = async (
+  year: number,
+  data: Omit<InpsParametersRequest, "year">
+): Promise<IInpsParameters | null> => {
+  const parameters = await InpsParameters.findOne({ year });
+  if (!parameters) return null;
+
+  parameters.set({
+    rates: data.rates,
+    maxIncome: data.maxIncome,
+    minIncome: data.minIncome,
+    minContributions: calculateInpsMinContributions(data.rates, data.minIncome),
+  });
+  await parameters.save();
+  return parameters.toObject({ flattenMaps: true }) as IInpsParameters;
+};
+
+/**
+ * Delete the INPS parameters of a year
+ */
+export const deleteInpsParametersByYear = async (
+  year: number
+): Promise<boolean> => {
+  const result = await InpsParameters.deleteOne({ year });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Seed default INPS parameters for the given years
+ * Years that already have parameters are left untouched
+ */
+export const seedInpsParameters = async (years: number[]): Promise<number[]> => {
+  const existingYears: number[] = await InpsParameters.distinct("year");
+  const missingYears = years.filter((year) => !existingYears.includes(year));
+
+  for (const year of missingYears) {
+    await createInpsParameters(getDefaultInpsParameters(year));
+  }
+
+  return missingYears;
+};
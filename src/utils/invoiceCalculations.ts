@@ -1,37 +1,693 @@
-import { IInvoice } from "@/types";
+import {
+  BolloInfo,
+  IInvoice,
+  InvoiceAgingReport,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoicePaymentStatus,
+  InvoiceStatus,
+  InvoiceStatusChange,
+  PaymentTerms,
+  PensionChargeInfo,
+  PensionChargeType,
+  PensionSystem,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
 
 // Generic invoice interface for calculations (works with both IInvoice and PlainInvoice)
 type InvoiceForCalculation = {
+  title?: string;
   amount: number;
+  items?: InvoiceLineItem[];
   issueDate: Date;
-  vat?: {
-    vatType: string;
-    vatRate: number;
-  };
+  vat?: VatInfo | null;
   paymentDate?: Date;
   fiscalYear: number;
+  paymentTerms?: PaymentTerms;
+  dueDate?: Date;
+  bollo?: BolloInfo | null;
+  withholding?: WithholdingInfo | null;
+  pensionCharge?: PensionChargeInfo | null;
+  id?: string;
+  _id?: string;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  status?: InvoiceStatus;
+  payments?: PaymentForCalculation[];
+};
+
+// Payment received on an invoice, dates come as strings from the API
+type PaymentForCalculation = {
+  date: Date | string;
+  amount: number;
 };
 
+// Fields making up the amounts of an invoice
+type InvoiceAmounts = Pick<
+  InvoiceForCalculation,
+  "title" | "amount" | "items" | "vat" | "pensionCharge" | "bollo" | "withholding"
+>;
+
 /**
  * Pure functions for invoice calculations
  * Follows functional programming principles
  */
 
+/**
+ * Payment terms of invoices recorded without any
+ */
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = "net30";
+
+/**
+ * Days granted by the fixed-term payment terms
+ */
+const PAYMENT_TERMS_DAYS: Partial<Record<PaymentTerms, number>> = {
+  immediate: 0,
+  net30: 30,
+  net60: 60,
+  net90: 90,
+};
+
+/**
+ * Aging report ranges, in days past the due date
+ */
+const AGING_BUCKETS: { label: string; minDays: number; maxDays?: number }[] = [
+  { label: "0–30", minDays: 0, maxDays: 30 },
+  { label: "31–60", minDays: 31, maxDays: 60 },
+  { label: "61–90", minDays: 61, maxDays: 90 },
+  { label: "90+", minDays: 91 },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight of a date, so that day differences ignore the time of day
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Calculate the due date of an invoice from its payment terms
+ * Custom terms use the explicit due date, falling back to the issue date
+ */
+export const calculateDueDate = (
+  issueDate: Date,
+  paymentTerms: PaymentTerms = DEFAULT_PAYMENT_TERMS,
+  customDueDate?: Date
+): Date => {
+  const issue = new Date(issueDate);
+
+  if (paymentTerms === "custom") {
+    return customDueDate ? new Date(customDueDate) : issue;
+  }
+
+  if (paymentTerms === "end_of_month") {
+    return new Date(issue.getFullYear(), issue.getMonth() + 1, 0);
+  }
+
+  const dueDate = new Date(issue);
+  dueDate.setDate(dueDate.getDate() + (PAYMENT_TERMS_DAYS[paymentTerms] ?? 0));
+  return dueDate;
+};
+
+/**
+ * Get the due date of an invoice
+ * Invoices recorded before payment terms existed are due after 30 days
+ */
+export const getInvoiceDueDate = (invoice: InvoiceForCalculation): Date =>
+  invoice.dueDate
+    ? new Date(invoice.dueDate)
+    : calculateDueDate(invoice.issueDate, invoice.paymentTerms);
+
+/**
+ * Days elapsed since the due date, negative while the invoice is not yet due
+ */
+export const getDaysPastDue = (
+  invoice: InvoiceForCalculation,
+  now: Date = new Date()
+): number =>
+  Math.round(
+    (startOfDay(now).getTime() -
+      startOfDay(getInvoiceDueDate(invoice)).getTime()) /
+      MS_PER_DAY
+  );
+
+/**
+ * Maximum number of lines of an invoice
+ */
+export const MAX_INVOICE_ITEMS = 200;
+
+/**
+ * Amount of an invoice line: quantity by unit price, rounded to cents
+ */
+export const calculateLineAmount = (
+  line: Pick<InvoiceLineItem, "quantity" | "unitPrice">
+): number => Math.round(line.quantity * line.unitPrice * 100) / 100;
+
+/**
+ * Lines of an invoice with their amounts
+ * Invoices saved before lines existed read as one line with
+ * their title, amount and VAT
+ */
+export const getInvoiceItems = (
+  invoice: Pick<InvoiceForCalculation, "title" | "amount" | "vat" | "items">
+): InvoiceLineItem[] =>
+  invoice.items?.length
+    ? invoice.items.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        ...(item.unitOfMeasure && { unitOfMeasure: item.unitOfMeasure }),
+        unitPrice: item.unitPrice,
+        amount: calculateLineAmount(item),
+        ...(item.vat && {
+          vat: { vatType: item.vat.vatType, vatRate: item.vat.vatRate },
+        }),
+        ...(item.vatNature && { vatNature: item.vatNature }),
+      }))
+    : [
+        {
+          description: invoice.title ?? "",
+          quantity: 1,
+          unitPrice: invoice.amount,
+          amount: invoice.amount,
+          ...(invoice.vat && {
+            vat: { vatType: invoice.vat.vatType, vatRate: invoice.vat.vatRate },
+          }),
+        },
+      ];
+
+/**
+ * Total of invoice lines, rounded to cents
+ */
+export const calculateItemsAmount = (
+  items: Pick<InvoiceLineItem, "amount">[]
+): number =>
+  Math.round(items.reduce((total, item) => total + item.amount, 0) * 100) /
+  100;
+
+/**
+ * VAT of an invoice: the one of its line with the highest rate,
+ * undefined when no line carries VAT
+ * Pension contributions are charged at this rate
+ */
+export const getItemsVat = (
+  items: Pick<InvoiceLineItem, "vat">[]
+): VatInfo | undefined =>
+  items.reduce<VatInfo | undefined>(
+    (vat, item) =>
+      (item.vat?.vatRate ?? 0) > (vat?.vatRate ?? 0) ? item.vat : vat,
+    undefined
+  );
+
+/**
+ * Rivalsa INPS charged by Gestione Separata members, the highest rate allowed
+ */
+export const RIVALSA_INPS_RATE = 4;
+
+/**
+ * Contributo integrativo of professional funds without a configured rate
+ */
+export const DEFAULT_INTEGRATIVE_CONTRIBUTION_RATE = 4;
+
+/**
+ * Kind of pension contribution charged on invoices by members of a pension system
+ */
+export const getPensionChargeType = (
+  pensionSystem: PensionSystem
+): PensionChargeType =>
+  pensionSystem === "INPS" ? "rivalsa_inps" : "cassa_integrativa";
+
+/**
+ * Pension contribution charged at a rate by a user, following their
+ * pension system: professional funds collect the contributo integrativo
+ */
+export const getPensionChargeForSettings = (
+  settings: { pensionSystem: PensionSystem; professionalFundId?: string },
+  rate: number
+): Omit<PensionChargeInfo, "amount"> => ({
+  type: getPensionChargeType(settings.pensionSystem),
+  rate,
+  ...(settings.pensionSystem === "PROFESSIONAL_FUND" &&
+    settings.professionalFundId && { fundCode: settings.professionalFundId }),
+});
+
+/**
+ * Pension contribution on a fee, rounded to cents
+ */
+export const calculatePensionChargeAmount = (
+  amount: number,
+  rate: number
+): number => Math.round(amount * rate) / 100;
+
+/**
+ * Pension contribution of an invoice, undefined when none is charged
+ * Computed on the fee, keeping the kind and the fund of the contribution
+ */
+export const getInvoicePensionCharge = (
+  invoice: Pick<InvoiceForCalculation, "amount">,
+  charge?: Omit<PensionChargeInfo, "amount"> | null
+): PensionChargeInfo | undefined =>
+  charge?.rate
+    ? {
+        type: charge.type,
+        rate: charge.rate,
+        amount: calculatePensionChargeAmount(invoice.amount, charge.rate),
+        ...(charge.fundCode && { fundCode: charge.fundCode }),
+      }
+    : undefined;
+
+/**
+ * Pension contribution charged to the client on an invoice
+ */
+export const calculatePensionCharge = (
+  invoice: Pick<InvoiceForCalculation, "pensionCharge">
+): number => invoice.pensionCharge?.amount ?? 0;
+
+/**
+ * Compensation of an invoice: the fee with the rivalsa INPS, which is
+ * part of it, while the contributo integrativo is collected for the fund
+ * Both regimes tax it and clients withhold on it
+ */
+export const calculateCompensation = (
+  invoice: Pick<InvoiceForCalculation, "amount" | "pensionCharge">
+): number =>
+  invoice.pensionCharge?.type === "rivalsa_inps"
+    ? Math.round((invoice.amount + invoice.pensionCharge.amount) * 100) / 100
+    : invoice.amount;
+
+/**
+ * Taxable amount of an invoice: the fee with any pension contribution
+ */
+export const calculateTaxableAmount = (
+  invoice: Pick<InvoiceForCalculation, "amount" | "pensionCharge">
+): number => invoice.amount + calculatePensionCharge(invoice);
+
 /**
  * Calculate VAT amount for an invoice
+ * Each line at its own rate, pension contributions at the rate of the invoice
+ */
+export const calculateVatAmount = (invoice: InvoiceAmounts): number =>
+  getInvoiceItems(invoice).reduce(
+    (vat, item) => vat + (item.amount * (item.vat?.vatRate ?? 0)) / 100,
+    (calculatePensionCharge(invoice) * (invoice.vat?.vatRate ?? 0)) / 100
+  );
+
+/**
+ * Amount of an invoice charged without VAT: its lines without VAT, with
+ * the pension contribution when the invoice carries no VAT
+ */
+const calculateAmountWithoutVat = (
+  invoice: Pick<
+    InvoiceForCalculation,
+    "title" | "amount" | "vat" | "items" | "pensionCharge"
+  >
+): number =>
+  getInvoiceItems(invoice)
+    .filter((item) => !item.vat?.vatRate)
+    .reduce((total, item) => total + item.amount, 0) +
+  (invoice.vat?.vatRate ? 0 : calculatePensionCharge(invoice));
+
+/**
+ * Amount above which invoices issued without VAT are subject to stamp duty
+ */
+export const BOLLO_THRESHOLD = 77.47;
+
+/**
+ * Stamp duty due on each invoice above the threshold
+ */
+export const BOLLO_AMOUNT = 2;
+
+/**
+ * Check if an invoice is subject to stamp duty
+ * Due when the amount charged without VAT exceeds the threshold, which covers
+ * every forfettario invoice above it as forfettari never charge VAT
+ */
+export const isBolloRequired = (
+  invoice: Pick<
+    InvoiceForCalculation,
+    "amount" | "vat" | "items" | "pensionCharge"
+  >
+): boolean => calculateAmountWithoutVat(invoice) > BOLLO_THRESHOLD;
+
+/**
+ * Stamp duty of an invoice, undefined when not due
+ * Re-charged to the client unless stated otherwise
  */
-export const calculateVatAmount = (invoice: InvoiceForCalculation): number => {
-  if (!invoice.vat) return 0;
-  return (invoice.amount * invoice.vat.vatRate) / 100;
+export const getInvoiceBollo = (
+  invoice: Pick<
+    InvoiceForCalculation,
+    "amount" | "vat" | "items" | "pensionCharge"
+  >,
+  chargedToClient: boolean = true
+): BolloInfo | undefined =>
+  isBolloRequired(invoice)
+    ? { amount: BOLLO_AMOUNT, chargedToClient }
+    : undefined;
+
+/**
+ * Stamp duty recorded on an invoice, undefined when not due
+ * Invoices saved before the duty was tracked did not re-charge it
+ */
+export const getRecordedBollo = (
+  invoice: Pick<
+    InvoiceForCalculation,
+    "amount" | "vat" | "items" | "pensionCharge" | "bollo"
+  >
+): BolloInfo | undefined =>
+  invoice.bollo === undefined
+    ? getInvoiceBollo(invoice, false)
+    : invoice.bollo ?? undefined;
+
+/**
+ * Stamp duty re-charged to the client on an invoice
+ */
+export const calculateBolloCharge = (invoice: InvoiceAmounts): number =>
+  invoice.bollo?.chargedToClient ? invoice.bollo.amount : 0;
+
+/**
+ * Calculate total amount including pension contributions, VAT and the
+ * re-charged stamp duty
+ */
+export const calculateTotalAmount = (invoice: InvoiceAmounts): number => {
+  return (
+    calculateTaxableAmount(invoice) +
+    calculateVatAmount(invoice) +
+    calculateBolloCharge(invoice)
+  );
 };
 
 /**
- * Calculate total amount including VAT
+ * Withholding tax rate applied by clients to self-employed professionals
  */
-export const calculateTotalAmount = (
-  invoice: InvoiceForCalculation
-): number => {
-  return invoice.amount + calculateVatAmount(invoice);
+export const DEFAULT_WITHHOLDING_RATE = 20;
+
+/**
+ * Withholding tax on a taxable amount, rounded to cents
+ */
+export const calculateWithholdingAmount = (
+  amount: number,
+  rate: number
+): number => Math.round(amount * rate) / 100;
+
+/**
+ * Withholding tax of an invoice, undefined when the client withholds none
+ * Computed on the compensation, VAT, stamp duty and the contributo
+ * integrativo are not subject to it
+ */
+export const getInvoiceWithholding = (
+  invoice: Pick<InvoiceForCalculation, "amount" | "pensionCharge">,
+  rate?: number | null
+): WithholdingInfo | undefined =>
+  rate
+    ? {
+        rate,
+        amount: calculateWithholdingAmount(calculateCompensation(invoice), rate),
+      }
+    : undefined;
+
+/**
+ * Withholding tax retained by the client on an invoice
+ */
+export const calculateWithholding = (invoice: InvoiceAmounts): number =>
+  invoice.withholding?.amount ?? 0;
+
+/**
+ * Amount the client actually pays: the total less the withholding tax
+ */
+export const calculateNetToReceive = (invoice: InvoiceAmounts): number =>
+  Math.round(
+    (calculateTotalAmount(invoice) - calculateWithholding(invoice)) * 100
+  ) / 100;
+
+/**
+ * Check if an invoice is a credit note
+ */
+export const isCreditNote = (
+  invoice: Pick<InvoiceForCalculation, "documentType">
+): boolean => invoice.documentType === "credit_note";
+
+/**
+ * Revenue of an invoice, its compensation, negative for credit notes
+ */
+export const getSignedAmount = (
+  invoice: Pick<
+    InvoiceForCalculation,
+    "amount" | "documentType" | "pensionCharge"
+  >
+): number =>
+  isCreditNote(invoice)
+    ? -calculateCompensation(invoice)
+    : calculateCompensation(invoice);
+
+/**
+ * Identifier of an invoice, whichever shape it comes in
+ */
+const getInvoiceId = (invoice: InvoiceForCalculation): string =>
+  (invoice.id ?? invoice._id ?? "").toString();
+
+/**
+ * ID of the original invoice of a credit note, null for invoices
+ */
+const getOriginalInvoiceId = (invoice: InvoiceForCalculation): string | null =>
+  isCreditNote(invoice) && invoice.originalInvoiceId
+    ? invoice.originalInvoiceId.toString()
+    : null;
+
+/**
+ * Totals credited to each original invoice, VAT included, by invoice ID
+ */
+export const calculateCreditedTotals = (
+  invoices: InvoiceForCalculation[]
+): Record<string, number> =>
+  invoices.reduce<Record<string, number>>((totals, invoice) => {
+    const originalId = getOriginalInvoiceId(invoice);
+    if (originalId) {
+      totals[originalId] =
+        (totals[originalId] ?? 0) + calculateTotalAmount(invoice);
+    }
+    return totals;
+  }, {});
+
+/**
+ * Net amount of an original invoice still open to credit notes
+ * Credit notes can reverse at most the whole original amount
+ */
+export const calculateCreditableAmount = (
+  original: Pick<InvoiceForCalculation, "amount">,
+  creditNotes: Pick<InvoiceForCalculation, "amount">[]
+): number =>
+  Math.max(
+    0,
+    Math.round(
+      (original.amount -
+        creditNotes.reduce((total, creditNote) => total + creditNote.amount, 0)) *
+        100
+    ) / 100
+  );
+
+/**
+ * Order invoices with their credit notes right after the original
+ * Credit notes whose original is not in the list keep their position
+ */
+export const groupCreditNotesWithOriginals = <T extends InvoiceForCalculation>(
+  invoices: T[]
+): { invoice: T; creditNotes: T[] }[] => {
+  const ids = new Set(invoices.map(getInvoiceId));
+  const getLinkedId = (invoice: T): string | null => {
+    const originalId = getOriginalInvoiceId(invoice);
+    return originalId && ids.has(originalId) ? originalId : null;
+  };
+
+  return invoices
+    .filter((invoice) => !getLinkedId(invoice))
+    .map((invoice) => ({
+      invoice,
+      creditNotes: invoices.filter(
+        (creditNote) => getLinkedId(creditNote) === getInvoiceId(invoice)
+      ),
+    }));
+};
+
+/**
+ * Statuses an invoice can move to from each status
+ * Drafts are issued or deleted, issued invoices are sent, collected or
+ * cancelled, and removing a payment moves a paid invoice back to where
+ * it was. Cancelled invoices stay cancelled
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<
+  InvoiceStatus,
+  InvoiceStatus[]
+> = {
+  draft: ["issued"],
+  issued: ["sent", "partially_paid", "paid", "cancelled"],
+  sent: ["partially_paid", "paid", "cancelled"],
+  partially_paid: ["paid", "issued", "sent"],
+  paid: ["partially_paid", "issued", "sent"],
+  cancelled: [],
+};
+
+/**
+ * Statuses of invoices that do not count as revenue nor as receivables
+ */
+export const NON_REVENUE_INVOICE_STATUSES: InvoiceStatus[] = [
+  "draft",
+  "cancelled",
+];
+
+/**
+ * Statuses of invoices whose amounts can still change
+ * Once sent, collected or cancelled they are corrected through credit notes
+ */
+export const AMOUNT_EDITABLE_INVOICE_STATUSES: InvoiceStatus[] = [
+  "draft",
+  "issued",
+];
+
+/**
+ * Status of an invoice
+ * Invoices recorded before the lifecycle are issued, or paid once collected
+ */
+export const getInvoiceStatus = (
+  invoice: Pick<InvoiceForCalculation, "status" | "paymentDate">
+): InvoiceStatus => invoice.status ?? (invoice.paymentDate ? "paid" : "issued");
+
+/**
+ * Check if an invoice can move from a status to another
+ */
+export const canTransitionInvoice = (
+  from: InvoiceStatus,
+  to: InvoiceStatus
+): boolean => INVOICE_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Status a collected invoice goes back to when its payment is removed:
+ * the last one it had before any payment
+ */
+export const getStatusBeforePayment = (
+  history: InvoiceStatusChange[] = []
+): InvoiceStatus =>
+  [...history]
+    .reverse()
+    .find(({ status }) => status === "issued" || status === "sent")?.status ??
+  "issued";
+
+/**
+ * Initial status history of an invoice, paid invoices having been issued first
+ */
+export const getInitialStatusHistory = (
+  status: InvoiceStatus,
+  changedAt: Date
+): InvoiceStatusChange[] =>
+  status === "paid" || status === "partially_paid"
+    ? [
+        { status: "issued", changedAt },
+        { status, changedAt },
+      ]
+    : [{ status, changedAt }];
+
+/**
+ * Check if an invoice counts as revenue: drafts and cancelled invoices do not
+ */
+export const isRevenueInvoice = (
+  invoice: Pick<InvoiceForCalculation, "status">
+): boolean =>
+  !invoice.status || !NON_REVENUE_INVOICE_STATUSES.includes(invoice.status);
+
+/**
+ * Keep the invoices that count as revenue
+ */
+export const filterRevenueInvoices = <
+  T extends Pick<InvoiceForCalculation, "status">
+>(
+  invoices: T[]
+): T[] => invoices.filter(isRevenueInvoice);
+
+/**
+ * Payments received on an invoice, oldest first
+ * Invoices paid before payments were recorded read as a single payment
+ * of the amount due on their payment date
+ */
+export const getInvoicePayments = (
+  invoice: InvoiceAmounts & {
+    paymentDate?: Date | string | null;
+    payments?: PaymentForCalculation[];
+  }
+): PaymentForCalculation[] => {
+  if (!invoice.payments?.length) {
+    return invoice.paymentDate
+      ? [{ date: invoice.paymentDate, amount: calculateNetToReceive(invoice) }]
+      : [];
+  }
+
+  return [...invoice.payments].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+};
+
+/**
+ * Amount received on an invoice, rounded to cents
+ */
+export const calculatePaidAmount = (
+  invoice: Parameters<typeof getInvoicePayments>[0]
+): number =>
+  Math.round(
+    getInvoicePayments(invoice).reduce(
+      (total, payment) => total + payment.amount,
+      0
+    ) * 100
+  ) / 100;
+
+/**
+ * Amount still due on an invoice: what the client pays, less the credit
+ * notes issued on it and the payments received
+ */
+export const calculateOutstandingBalance = (
+  invoice: Parameters<typeof getInvoicePayments>[0],
+  credited = 0
+): number =>
+  Math.max(
+    0,
+    Math.round(
+      (calculateNetToReceive(invoice) - credited - calculatePaidAmount(invoice)) *
+        100
+    ) / 100
+  );
+
+/**
+ * Status of an invoice following its payments: paid once nothing is due,
+ * partially paid while a balance remains, otherwise the status it had
+ * before any payment
+ */
+export const getStatusFromPayments = (
+  paidAmount: number,
+  outstanding: number,
+  history: InvoiceStatusChange[] = []
+): InvoiceStatus => {
+  if (paidAmount <= 0) return getStatusBeforePayment(history);
+  return outstanding <= 0 ? "paid" : "partially_paid";
+};
+
+/**
+ * Split an amount across payments in proportion to the share of the
+ * amount due each one settles, rounded to cents without losing any
+ */
+export const allocateToPayments = (
+  amount: number,
+  payments: Pick<PaymentForCalculation, "amount">[],
+  amountDue: number
+): number[] => {
+  let received = 0;
+  let allocated = 0;
+
+  return payments.map((payment) => {
+    received = Math.min(amountDue, received + payment.amount);
+    const upToPayment =
+      amountDue > 0 ? Math.round((amount * received * 100) / amountDue) / 100 : 0;
+    const share = Math.round((upToPayment - allocated) * 100) / 100;
+    allocated = upToPayment;
+    return share;
+  });
 };
 
 /**
@@ -43,26 +699,126 @@ export const isInvoicePaid = (invoice: IInvoice): boolean => {
 
 /**
  * Get payment status of an invoice
+ * Follows the lifecycle status first: drafts and cancelled invoices are not
+ * collected, and only invoices still due can be overdue, partially paid
+ * ones included
  */
 export const getPaymentStatus = (
-  invoice: InvoiceForCalculation
-): "paid" | "pending" | "overdue" => {
-  if (invoice.paymentDate) return "paid";
+  invoice: InvoiceForCalculation,
+  now: Date = new Date()
+): InvoicePaymentStatus => {
+  const status = getInvoiceStatus(invoice);
+  if (status === "draft" || status === "cancelled" || status === "paid") {
+    return status;
+  }
 
-  const now = new Date();
-  const dueDate = new Date(invoice.issueDate);
-  dueDate.setDate(dueDate.getDate() + 30); // Assume 30 days payment terms
+  if (getDaysPastDue(invoice, now) > 0) return "overdue";
+  return status === "partially_paid" ? "partially_paid" : "pending";
+};
 
-  return now > dueDate ? "overdue" : "pending";
+/**
+ * Group unpaid invoices by days past their due date
+ * Amounts include VAT, as that is what the client owes, less the credit
+ * notes issued on each invoice and the payments already received. Credit
+ * notes, drafts and cancelled invoices are not receivables.
+ */
+export const calculateAgingReport = (
+  invoices: InvoiceForCalculation[],
+  now: Date = new Date()
+): InvoiceAgingReport => {
+  const report: InvoiceAgingReport = {
+    notDue: { count: 0, amount: 0 },
+    buckets: AGING_BUCKETS.map((bucket) => ({ ...bucket, count: 0, amount: 0 })),
+    totalOverdue: 0,
+    totalOutstanding: 0,
+  };
+
+  const creditedTotals = calculateCreditedTotals(invoices);
+
+  invoices
+    .filter(
+      (invoice) =>
+        !invoice.paymentDate &&
+        !isCreditNote(invoice) &&
+        isRevenueInvoice(invoice)
+    )
+    .forEach((invoice) => {
+      const credited = creditedTotals[getInvoiceId(invoice)] ?? 0;
+      // Once payments come in the client owes what is left of its net
+      const amount = calculatePaidAmount(invoice)
+        ? calculateOutstandingBalance(invoice, credited)
+        : calculateTotalAmount(invoice) - credited;
+      if (amount <= 0) return;
+      const daysPastDue = getDaysPastDue(invoice, now);
+      report.totalOutstanding += amount;
+
+      if (daysPastDue < 0) {
+        report.notDue.count += 1;
+        report.notDue.amount += amount;
+        return;
+      }
+
+      const bucket = report.buckets.find(
+        ({ minDays, maxDays }) =>
+          daysPastDue >= minDays &&
+          (maxDays === undefined || daysPastDue <= maxDays)
+      );
+      if (bucket) {
+        bucket.count += 1;
+        bucket.amount += amount;
+      }
+      // Invoices due today are in the first range but not overdue yet
+      if (daysPastDue > 0) {
+        report.totalOverdue += amount;
+      }
+    });
+
+  return report;
 };
 
+/**
+ * Normalise a client name for matching
+ * Case, surrounding and repeated whitespace are ignored
+ */
+export const normalizeClientName = (name: string): string =>
+  name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Payment terms of each client, taken from their most recent invoice
+ * Custom dates are specific to one invoice and are not reused, nor are
+ * the terms of credit notes
+ */
+export const getClientPaymentTerms = (
+  invoices: (InvoiceForCalculation & { clientName: string })[]
+): Record<string, PaymentTerms> =>
+  [...invoices]
+    .filter(
+      (invoice) =>
+        invoice.paymentTerms &&
+        invoice.paymentTerms !== "custom" &&
+        !isCreditNote(invoice)
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.issueDate).getTime() - new Date(b.issueDate).getTime()
+    )
+    .reduce<Record<string, PaymentTerms>>((terms, invoice) => {
+      terms[normalizeClientName(invoice.clientName)] =
+        invoice.paymentTerms as PaymentTerms;
+      return terms;
+    }, {});
+
 /**
  * Calculate total revenue from a list of invoices
+ * Credit notes are subtracted, drafts and cancelled invoices left out
  */
 export const calculateTotalRevenue = (
   invoices: InvoiceForCalculation[]
 ): number => {
-  return invoices.reduce((total, invoice) => total + invoice.amount, 0);
+  return filterRevenueInvoices(invoices).reduce(
+    (total, invoice) => total + getSignedAmount(invoice),
+    0
+  );
 };
 
 /**
@@ -125,7 +881,9 @@ export const calculateMonthlyStats = (
   revenue: number;
   formattedRevenue: string;
 } => {
-  const monthlyInvoices = filterInvoicesByMonth(invoices, month, year);
+  const monthlyInvoices = filterRevenueInvoices(
+    filterInvoicesByMonth(invoices, month, year)
+  );
   const revenue = calculateTotalRevenue(monthlyInvoices);
 
   return {
@@ -0,0 +1,202 @@
+import { InvoiceNumberingGap } from "@/types";
+
+/**
+ * Pure functions for invoice numbering sequences
+ * Follows functional programming principles
+ *
+ * Patterns mix literal text with placeholders:
+ * - {YYYY} / {YY}: year of the sequence, four or two digits
+ * - {seq} / {seq:N}: progressive number, zero-padded to N digits
+ */
+
+/**
+ * Pattern of users who have not chosen one, e.g. 2024/001
+ */
+export const DEFAULT_INVOICE_NUMBER_PATTERN = "{YYYY}/{seq:3}";
+
+/**
+ * Longest accepted pattern, leaving room for the progressive number
+ * within the 50 characters of an invoice number
+ */
+export const MAX_NUMBER_PATTERN_LENGTH = 30;
+
+const PATTERN_PLACEHOLDER = /\{(YYYY|YY|seq(?::([1-9]))?)\}/g;
+
+type PatternPart =
+  | { kind: "literal"; value: string }
+  | { kind: "year"; digits: 2 | 4 }
+  | { kind: "sequence"; padding: number };
+
+/**
+ * Split a pattern into literal text and placeholders
+ */
+const parsePattern = (pattern: string): PatternPart[] => {
+  const parts: PatternPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(PATTERN_PLACEHOLDER)) {
+    if (match.index > lastIndex) {
+      parts.push({ kind: "literal", value: pattern.slice(lastIndex, match.index) });
+    }
+    if (match[1] === "YYYY" || match[1] === "YY") {
+      parts.push({ kind: "year", digits: match[1] === "YYYY" ? 4 : 2 });
+    } else {
+      parts.push({ kind: "sequence", padding: match[2] ? parseInt(match[2]) : 1 });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < pattern.length) {
+    parts.push({ kind: "literal", value: pattern.slice(lastIndex) });
+  }
+
+  return parts;
+};
+
+const formatYear = (year: number, digits: 2 | 4): string =>
+  digits === 4 ? String(year) : String(year).slice(-2);
+
+/**
+ * Validate a numbering pattern, returning the list of errors
+ * Numbers generated from it must be valid invoice numbers
+ */
+export const validateNumberPattern = (pattern: string): string[] => {
+  if (!pattern.trim()) {
+    return ["Numbering pattern is required"];
+  }
+
+  const errors: string[] = [];
+  const parts = parsePattern(pattern);
+  const literals = parts
+    .map((part) => (part.kind === "literal" ? part.value : ""))
+    .join("");
+
+  if (pattern.length > MAX_NUMBER_PATTERN_LENGTH) {
+    errors.push(
+      `Numbering pattern cannot exceed ${MAX_NUMBER_PATTERN_LENGTH} characters`
+    );
+  }
+  if (parts.filter((part) => part.kind === "sequence").length !== 1) {
+    errors.push("Numbering pattern must contain {seq} exactly once");
+  }
+  if (/[{}]/.test(literals)) {
+    errors.push("Unknown placeholder, use {YYYY}, {YY}, {seq} or {seq:N}");
+  } else if (literals && !/^[A-Za-z0-9\-\/]+$/.test(literals)) {
+    errors.push(
+      "Numbering pattern can only contain letters, numbers, hyphens, and slashes"
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * Format the invoice number of a position in the sequence of a year
+ */
+export const formatInvoiceNumber = (
+  pattern: string,
+  year: number,
+  sequence: number
+): string =>
+  parsePattern(pattern)
+    .map((part) => {
+      switch (part.kind) {
+        case "literal":
+          return part.value;
+        case "year":
+          return formatYear(year, part.digits);
+        case "sequence":
+          return String(sequence).padStart(part.padding, "0");
+      }
+    })
+    .join("");
+
+/**
+ * Position in the sequence of a year of an invoice number
+ * Null when the number does not follow the pattern for that year
+ */
+export const parseInvoiceSequence = (
+  pattern: string,
+  year: number,
+  number: string
+): number | null => {
+  const source = parsePattern(pattern)
+    .map((part) => {
+      switch (part.kind) {
+        case "literal":
+          return part.value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+        case "year":
+          return formatYear(year, part.digits);
+        case "sequence":
+          return "(\\d+)";
+      }
+    })
+    .join("");
+
+  const match = new RegExp(`^${source}$`).exec(number);
+  if (!match) return null;
+
+  // Padding must match too: 0001 is not the number {seq:3} gives for 1
+  const sequence = parseInt(match[1]);
+  return sequence > 0 && formatInvoiceNumber(pattern, year, sequence) === number
+    ? sequence
+    : null;
+};
+
+/**
+ * Highest position in the sequence of a year among invoice numbers
+ * Numbers not following the pattern are ignored
+ */
+export const getHighestSequence = (
+  pattern: string,
+  year: number,
+  numbers: string[]
+): number =>
+  numbers.reduce(
+    (highest, number) =>
+      Math.max(highest, parseInvoiceSequence(pattern, year, number) ?? 0),
+    0
+  );
+
+/**
+ * Missing numbers in the sequence of a year, grouped in consecutive runs
+ * Italian rules require invoices to be numbered without gaps, so every
+ * position from 1 to the highest one used, or to the last one generated
+ * when higher, should belong to an invoice
+ */
+export const findNumberingGaps = (
+  pattern: string,
+  year: number,
+  numbers: string[],
+  lastGenerated = 0
+): InvoiceNumberingGap[] => {
+  const used = [
+    ...new Set(
+      numbers
+        .map((number) => parseInvoiceSequence(pattern, year, number))
+        .filter((sequence): sequence is number => sequence !== null)
+    ),
+  ].sort((a, b) => a - b);
+
+  const gaps: InvoiceNumberingGap[] = [];
+  let previous = 0;
+
+  const addGapBefore = (sequence: number) => {
+    if (sequence > previous + 1) {
+      gaps.push({
+        first: formatInvoiceNumber(pattern, year, previous + 1),
+        last: formatInvoiceNumber(pattern, year, sequence - 1),
+        count: sequence - previous - 1,
+      });
+    }
+    previous = sequence;
+  };
+
+  used.forEach(addGapBefore);
+  // Generated numbers never used by an invoice trail the sequence
+  if (lastGenerated > previous) {
+    addGapBefore(lastGenerated + 1);
+  }
+
+  return gaps;
+};
@@ -1,5 +1,11 @@
+import { HydratedDocument } from "mongoose";
 import { Invoice } from "@/models/Invoice";
-import { IInvoice } from "@/types";
+import {
+  IInvoice,
+  InvoicePayment,
+  InvoiceStatus,
+  RevenueRecognition,
+} from "@/types";
 import {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   filterInvoicesByYear,
@@ -8,13 +14,37 @@ import {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   sortInvoicesByDate,
   calculateTotalRevenue,
+  calculateCreditableAmount,
+  isCreditNote,
+  isRevenueInvoice,
+  canTransitionInvoice,
+  getInvoiceStatus,
+  getInvoicePayments,
+  getStatusFromPayments,
+  calculatePaidAmount,
+  calculateOutstandingBalance,
+  calculateTotalAmount,
+  calculateNetToReceive,
+  getStatusBeforePayment,
+  AMOUNT_EDITABLE_INVOICE_STATUSES,
+  BOLLO_AMOUNT,
+  BOLLO_THRESHOLD,
+  NON_REVENUE_INVOICE_STATUSES,
 } from "./invoiceCalculations";
+import { saveWithNextNumber } from "./invoiceSequenceQueries";
 
 /**
  * Pure functions for invoice database queries
  * Replaces static methods with functional approach
  */
 
+/**
+ * Filter leaving out drafts and cancelled invoices, which are not revenue
+ */
+const revenueStatusFilter = {
+  status: { $nin: NON_REVENUE_INVOICE_STATUSES },
+};
+
 /**
  * Find invoices by user and fiscal year
  */
@@ -28,6 +58,67 @@ export const findInvoicesByUserAndYear = async (
   return invoices;
 };
 
+/**
+ * Find the invoices of a user whose revenue can fall in a year
+ * Under the cash basis these are the invoices of the fiscal year, the ones
+ * issued earlier and paid in the year, in full or in part, and the credit
+ * notes of the latter.
+ * Drafts and cancelled invoices are left out
+ */
+export const findInvoicesForRecognitionYear = async (
+  userId: string,
+  year: number,
+  recognition: RevenueRecognition
+): Promise<IInvoice[]> => {
+  if (recognition === "accrual") {
+    return await Invoice.find({
+      userId,
+      fiscalYear: year,
+      ...revenueStatusFilter,
+    })
+      .sort({ issueDate: 1 })
+      .lean();
+  }
+
+  const invoices: IInvoice[] = await Invoice.find({
+    userId,
+    ...revenueStatusFilter,
+    $or: [
+      { fiscalYear: year },
+      {
+        paymentDate: {
+          $gte: new Date(year, 0, 1),
+          $lt: new Date(year + 1, 0, 1),
+        },
+      },
+      {
+        "payments.date": {
+          $gte: new Date(year, 0, 1),
+          $lt: new Date(year + 1, 0, 1),
+        },
+      },
+    ],
+  })
+    .sort({ issueDate: 1 })
+    .lean();
+
+  const earlierPaidIds = invoices
+    .filter((invoice) => invoice.fiscalYear < year)
+    .map((invoice) => invoice._id);
+  const creditNotes: IInvoice[] = earlierPaidIds.length
+    ? await Invoice.find({
+        userId,
+        documentType: "credit_note",
+        originalInvoiceId: { $in: earlierPaidIds },
+        fiscalYear: { $lt: year },
+        paymentDate: { $exists: false },
+        ...revenueStatusFilter,
+      }).lean()
+    : [];
+
+  return [...invoices, ...creditNotes];
+};
+
 /**
  * Find unpaid invoices for a user
  */
@@ -37,6 +128,7 @@ export const findUnpaidInvoicesByUser = async (
   const invoices = await Invoice.find({
     userId,
     paymentDate: { $exists: false },
+    ...revenueStatusFilter,
   })
     .sort({ issueDate: 1 })
     .lean();
@@ -66,20 +158,51 @@ export const findInvoicesByUser = async (
   return invoices;
 };
 
+/**
+ * Find invoices of a user issued or paid within a date range
+ * Drafts and cancelled invoices are left out
+ */
+export const findInvoicesByUserAndDateRange = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<IInvoice[]> => {
+  const range = { $gte: startDate, $lte: endDate };
+  const invoices = await Invoice.find({
+    userId,
+    ...revenueStatusFilter,
+    $or: [
+      { issueDate: range },
+      { paymentDate: range },
+      // Unpaid invoices issued before the range are still outstanding
+      { issueDate: { $lt: startDate }, paymentDate: { $exists: false } },
+    ],
+  })
+    .sort({ issueDate: 1 })
+    .lean();
+  return invoices;
+};
+
 /**
  * Find overdue invoices for a user
+ * Invoices without a due date are due 30 days after issue
  */
 export const findOverdueInvoicesByUser = async (
   userId: string
 ): Promise<IInvoice[]> => {
   const now = new Date();
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(now.getDate() - 30);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const thirtyDaysAgo = new Date(today);
+  thirtyDaysAgo.setDate(today.getDate() - 30);
 
   const invoices = await Invoice.find({
     userId,
     paymentDate: { $exists: false },
-    issueDate: { $lt: thirtyDaysAgo },
+    ...revenueStatusFilter,
+    $or: [
+      { dueDate: { $lt: today } },
+      { dueDate: { $exists: false }, issueDate: { $lt: thirtyDaysAgo } },
+    ],
   })
     .sort({ issueDate: 1 })
     .lean();
@@ -125,31 +248,474 @@ export const createInvoice = async (
 };
 
 /**
- * Update invoice for API endpoint
+ * Delete a draft invoice for API endpoint
+ * Issued invoices are cancelled or reversed by a credit note instead
+ */
+export const deleteInvoice = async (
+  invoiceId: string,
+  userId: string
+): Promise<boolean> => {
+  const result = await Invoice.deleteOne({
+    _id: invoiceId,
+    userId,
+    status: "draft",
+  });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Outcome of a status transition: the updated invoice, or why the
+ * transition is not allowed
+ */
+export type InvoiceTransitionResult =
+  | { invoice: IInvoice; error?: undefined }
+  | { invoice?: undefined; error: string };
+
+/**
+ * Move a loaded invoice to a status, recording the change, without saving it
+ * Returns why the transition is not allowed, null once applied.
+ * Issuing a draft dates it, its number is given when it is saved
+ */
+const applyInvoiceTransition = async (
+  invoice: HydratedDocument<IInvoice>,
+  userId: string,
+  status: InvoiceStatus,
+  { changedAt = new Date(), paymentDate }: { changedAt?: Date; paymentDate?: Date }
+): Promise<string | null> => {
+  const current = getInvoiceStatus(invoice);
+  if (current === status && status === "paid" && paymentDate) {
+    invoice.paymentDate = paymentDate;
+    // The last payment is the one that settled the invoice
+    const lastPayment = invoice.payments?.[invoice.payments.length - 1];
+    if (lastPayment) {
+      lastPayment.date = paymentDate;
+    }
+    return null;
+  }
+  if (status === "partially_paid") {
+    return "Invoices are partially paid by recording their payments";
+  }
+  if (!canTransitionInvoice(current, status)) {
+    return `Invoices cannot move from ${current} to ${status}`;
+  }
+
+  invoice.status = status;
+  invoice.statusHistory = [
+    ...(invoice.statusHistory ?? []),
+    { status, changedAt },
+  ];
+
+  if (status === "paid") {
+    invoice.paymentDate = paymentDate ?? invoice.paymentDate ?? changedAt;
+    const outstanding = calculateOutstandingBalance(
+      invoice,
+      await findCreditedAmount(userId, invoice._id.toString())
+    );
+    if (outstanding > 0) {
+      invoice.payments = [
+        ...(invoice.payments ?? []),
+        { date: invoice.paymentDate, amount: outstanding, method: "other" },
+      ];
+    }
+  } else if (current === "paid" || current === "partially_paid") {
+    invoice.paymentDate = undefined;
+    invoice.payments = undefined;
+  }
+
+  if (current === "draft") {
+    invoice.issueDate = changedAt;
+    invoice.fiscalYear = changedAt.getFullYear();
+  }
+
+  return null;
+};
+
+/**
+ * Move an invoice of a user to a status, null when the invoice is not found
+ * Only the transitions of the lifecycle are allowed, each one recorded with
+ * its date. Issuing a draft dates it and gives it the next number of its
+ * year; collecting an invoice records the balance still due as a payment
+ * on the payment date, removing the payment clears its payments. A paid
+ * invoice can have its payment date changed. Invoices are partially paid
+ * by recording their payments, not through a transition
+ */
+export const transitionInvoiceStatus = async (
+  invoiceId: string,
+  userId: string,
+  status: InvoiceStatus,
+  options: { changedAt?: Date; paymentDate?: Date } = {}
+): Promise<InvoiceTransitionResult | null> => {
+  const invoice = await Invoice.findOne({ _id: invoiceId, userId });
+  if (!invoice) {
+    return null;
+  }
+
+  const current = getInvoiceStatus(invoice);
+  const error = await applyInvoiceTransition(invoice, userId, status, options);
+  if (error) {
+    return { error };
+  }
+
+  if (current === "draft") {
+    return { invoice: await saveWithNextNumber(invoice) };
+  }
+
+  return { invoice: (await invoice.save()).toObject() };
+};
+
+/**
+ * Update an invoice of a user, null when the invoice is not found
+ * Amounts only change while the invoice is a draft or issued. A payment
+ * date collects the invoice, recording the balance due after the update,
+ * and a null one removes its payments; the update and the status change
+ * are saved together
  */
 export const updateInvoice = async (
   invoiceId: string,
   userId: string,
   updateData: Partial<
     Omit<IInvoice, "id" | "userId" | "createdAt" | "updatedAt">
-  >
-): Promise<IInvoice | null> => {
-  const invoice = await Invoice.findOneAndUpdate(
-    { _id: invoiceId, userId },
-    updateData,
-    { new: true }
-  ).lean();
+  >,
+  paymentDate?: Date | null
+): Promise<InvoiceTransitionResult | null> => {
+  const invoice = await Invoice.findOne({ _id: invoiceId, userId });
+  if (!invoice) {
+    return null;
+  }
 
-  return invoice;
+  const totalBefore = calculateTotalAmount(invoice);
+  const netBefore = calculateNetToReceive(invoice);
+  invoice.set(updateData);
+
+  if (
+    (calculateTotalAmount(invoice) !== totalBefore ||
+      calculateNetToReceive(invoice) !== netBefore) &&
+    !AMOUNT_EDITABLE_INVOICE_STATUSES.includes(getInvoiceStatus(invoice))
+  ) {
+    return {
+      error: "Only draft and issued invoices can have their amounts changed",
+    };
+  }
+
+  if (
+    paymentDate ||
+    (paymentDate === null &&
+      (invoice.paymentDate || invoice.payments?.length))
+  ) {
+    const error = await applyInvoiceTransition(
+      invoice,
+      userId,
+      paymentDate ? "paid" : getStatusBeforePayment(invoice.statusHistory),
+      paymentDate ? { paymentDate } : {}
+    );
+    if (error) {
+      return { error };
+    }
+  }
+
+  return { invoice: (await invoice.save()).toObject() };
 };
 
 /**
- * Delete invoice for API endpoint
+ * Amount of an invoice reversed by its credit notes
  */
-export const deleteInvoice = async (
+const findCreditedAmount = async (
+  userId: string,
+  invoiceId: string
+): Promise<number> =>
+  (await findCreditNotesByInvoice(userId, invoiceId))
+    .filter(isRevenueInvoice)
+    .reduce((total, creditNote) => total + calculateTotalAmount(creditNote), 0);
+
+/**
+ * Move an invoice to the status following its payments and save it
+ * Paid invoices take the date of their last payment
+ */
+const saveWithPaymentStatus = async (
+  invoice: HydratedDocument<IInvoice>,
+  userId: string,
+  changedAt: Date
+): Promise<InvoiceTransitionResult> => {
+  // Payments replace the payment date of invoices paid before they were recorded
+  invoice.paymentDate = undefined;
+
+  const current = getInvoiceStatus(invoice);
+  const status = getStatusFromPayments(
+    calculatePaidAmount(invoice),
+    calculateOutstandingBalance(
+      invoice,
+      await findCreditedAmount(userId, invoice._id.toString())
+    ),
+    invoice.statusHistory
+  );
+
+  if (status !== current) {
+    if (!canTransitionInvoice(current, status)) {
+      return {
+        error: `Invoices cannot move from ${current} to ${status}`,
+      };
+    }
+    invoice.status = status;
+    invoice.statusHistory = [
+      ...(invoice.statusHistory ?? []),
+      { status, changedAt },
+    ];
+  }
+
+  if (status === "paid") {
+    const payments = getInvoicePayments(invoice);
+    invoice.paymentDate = new Date(payments[payments.length - 1].date);
+  }
+
+  return { invoice: (await invoice.save()).toObject() };
+};
+
+/**
+ * Record a payment received on an invoice of a user, null when the
+ * invoice is not found
+ * Only issued invoices collect payments, which cannot exceed the balance
+ * still due. The invoice becomes partially paid, or paid once settled
+ */
+export const addInvoicePayment = async (
   invoiceId: string,
-  userId: string
-): Promise<boolean> => {
-  const result = await Invoice.deleteOne({ _id: invoiceId, userId });
-  return result.deletedCount > 0;
+  userId: string,
+  payment: Omit<InvoicePayment, "_id">,
+  changedAt: Date = new Date()
+): Promise<InvoiceTransitionResult | null> => {
+  const invoice = await Invoice.findOne({ _id: invoiceId, userId });
+  if (!invoice) {
+    return null;
+  }
+
+  if (isCreditNote(invoice)) {
+    return { error: "Credit notes do not collect payments" };
+  }
+  if (!isRevenueInvoice(invoice)) {
+    return { error: "Only issued invoices collect payments" };
+  }
+  if (payment.date < invoice.issueDate) {
+    return { error: "Payment date cannot be before issue date" };
+  }
+
+  const outstanding = calculateOutstandingBalance(
+    invoice,
+    await findCreditedAmount(userId, invoiceId)
+  );
+  if (payment.amount > outstanding) {
+    return {
+      error: `Payments cannot exceed the ${outstanding.toFixed(
+        2
+      )} still due on invoice ${invoice.number}`,
+    };
+  }
+
+  invoice.payments = [...(invoice.payments ?? []), payment];
+  return await saveWithPaymentStatus(invoice, userId, changedAt);
+};
+
+/**
+ * Remove a payment from an invoice of a user, null when the invoice or
+ * the payment is not found
+ * The invoice goes back to partially paid, or to the status it had
+ * before its first payment
+ */
+export const removeInvoicePayment = async (
+  invoiceId: string,
+  userId: string,
+  paymentId: string,
+  changedAt: Date = new Date()
+): Promise<InvoiceTransitionResult | null> => {
+  const invoice = await Invoice.findOne({ _id: invoiceId, userId });
+  const payments = invoice?.payments ?? [];
+  if (
+    !invoice ||
+    !payments.some((payment) => payment._id?.toString() === paymentId)
+  ) {
+    return null;
+  }
+
+  invoice.payments = payments.filter(
+    (payment) => payment._id?.toString() !== paymentId
+  );
+  return await saveWithPaymentStatus(invoice, userId, changedAt);
+};
+
+/**
+ * Find the credit notes issued on an invoice
+ * A credit note being updated can be left out of the result
+ */
+export const findCreditNotesByInvoice = async (
+  userId: string,
+  invoiceId: string,
+  excludeId?: string
+): Promise<IInvoice[]> => {
+  const creditNotes = await Invoice.find({
+    userId,
+    documentType: "credit_note",
+    originalInvoiceId: invoiceId,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  })
+    .sort({ issueDate: 1 })
+    .lean();
+  return creditNotes;
+};
+
+/**
+ * Reason a credit note cannot be recorded, null when it can
+ * The original must be an invoice of the user, and its credit notes
+ * cannot reverse more than its amount
+ */
+export const checkCreditNote = async (
+  userId: string,
+  originalInvoiceId: string | null | undefined,
+  amount: number,
+  creditNoteId?: string
+): Promise<string | null> => {
+  if (!originalInvoiceId) {
+    return "Credit notes must reference the original invoice";
+  }
+
+  const original = await getInvoiceById(originalInvoiceId, userId);
+  if (!original) {
+    return "Original invoice not found";
+  }
+  if (isCreditNote(original)) {
+    return "Credit notes can only reference invoices";
+  }
+  if (!isRevenueInvoice(original)) {
+    return "Credit notes can only reference issued invoices";
+  }
+
+  const creditable = calculateCreditableAmount(
+    original,
+    await findCreditNotesByInvoice(userId, originalInvoiceId, creditNoteId)
+  );
+  if (amount > creditable) {
+    return `Credit notes cannot exceed the ${creditable.toFixed(
+      2
+    )} still open on invoice ${original.number}`;
+  }
+
+  return null;
+};
+
+/**
+ * Record the stamp duty on invoices saved before it was tracked
+ * The duty was not on their totals, so it is recorded as not re-charged
+ * Returns the number of invoices updated
+ */
+export const applyBolloToInvoices = async (): Promise<number> => {
+  const result = await Invoice.updateMany(
+    {
+      bollo: { $exists: false },
+      amount: { $gt: BOLLO_THRESHOLD },
+      $or: [{ vat: { $exists: false } }, { vat: null }, { "vat.vatRate": 0 }],
+    },
+    { $set: { bollo: { amount: BOLLO_AMOUNT, chargedToClient: false } } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Give invoices saved before lines existed a single line
+ * with their title, amount and VAT
+ * Returns the number of invoices updated
+ */
+export const applyLineItemsToInvoices = async (): Promise<number> => {
+  const result = await Invoice.updateMany(
+    { $or: [{ items: { $exists: false } }, { items: { $size: 0 } }] },
+    [
+      {
+        $set: {
+          items: [
+            {
+              description: "$title",
+              quantity: 1,
+              unitPrice: "$amount",
+              amount: "$amount",
+              vat: "$vat",
+            },
+          ],
+        },
+      },
+    ]
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Give invoices saved before the lifecycle their status and history:
+ * paid when collected, issued otherwise
+ * Returns the number of invoices updated
+ */
+export const applyStatusToInvoices = async (): Promise<number> => {
+  const issued = { status: "issued", changedAt: "$issueDate" };
+  const result = await Invoice.updateMany({ status: { $exists: false } }, [
+    {
+      $set: {
+        status: { $cond: ["$paymentDate", "paid", "issued"] },
+        statusHistory: {
+          $cond: [
+            "$paymentDate",
+            [issued, { status: "paid", changedAt: "$paymentDate" }],
+            [issued],
+          ],
+        },
+      },
+    },
+  ]);
+  return result.modifiedCount;
+};
+
+/**
+ * Replace the unique index on invoice numbers with one leaving out drafts,
+ * which have no number until issued
+ * Returns whether the index was replaced
+ */
+export const replaceInvoiceNumberIndex = async (): Promise<boolean> => {
+  const numberIndex = "userId_1_fiscalYear_1_number_1";
+
+  try {
+    const indexes = await Invoice.collection.indexes();
+    const index = indexes.find(({ name }) => name === numberIndex);
+    if (index?.partialFilterExpression) {
+      return false;
+    }
+    if (index) {
+      await Invoice.collection.dropIndex(numberIndex);
+    }
+  } catch (error) {
+    // No invoices collection yet, the index is created with it
+    if ((error as { codeName?: string }).codeName === "NamespaceNotFound") {
+      return false;
+    }
+    throw error;
+  }
+
+  await Invoice.createIndexes();
+  return true;
+};
+
+/**
+ * Drop the index that kept invoice numbers unique across all years
+ * Numbering restarts every year, so numbers are now unique per fiscal year
+ * Returns whether the index was dropped
+ */
+export const dropLegacyInvoiceNumberIndex = async (): Promise<boolean> => {
+  const legacyIndex = "userId_1_number_1";
+
+  try {
+    if (!(await Invoice.collection.indexExists(legacyIndex))) {
+      return false;
+    }
+  } catch (error) {
+    // No invoices collection yet, nothing to migrate
+    if ((error as { codeName?: string }).codeName === "NamespaceNotFound") {
+      return false;
+    }
+    throw error;
+  }
+
+  await Invoice.collection.dropIndex(legacyIndex);
+  return true;
 };
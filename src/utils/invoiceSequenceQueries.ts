@@ -0,0 +1,221 @@
+import { HydratedDocument } from "mongoose";
+import { Invoice } from "@/models/Invoice";
+import { InvoiceSequence } from "@/models/InvoiceSequence";
+import { IInvoice, IInvoiceSequence, InvoiceNumberingStatus } from "@/types";
+import {
+  DEFAULT_INVOICE_NUMBER_PATTERN,
+  findNumberingGaps,
+  formatInvoiceNumber,
+  getHighestSequence,
+  parseInvoiceSequence,
+} from "./invoiceNumberingCalculations";
+
+/**
+ * Pure functions for invoice numbering database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Path of the counter of a year in the sequence document
+ */
+const counterPath = (year: number): string => `counters.${year}`;
+
+/**
+ * Find the numbering sequence of a user
+ */
+export const findInvoiceSequence = async (
+  userId: string
+): Promise<IInvoiceSequence | null> => {
+  const sequence = await InvoiceSequence.findOne({ userId }).lean();
+  return sequence;
+};
+
+/**
+ * Find the numbers of the invoices of a user in a year
+ */
+export const findInvoiceNumbersByYear = async (
+  userId: string,
+  year: number
+): Promise<string[]> => {
+  const numbers = await Invoice.distinct("number", { userId, fiscalYear: year });
+  return numbers;
+};
+
+/**
+ * Update the numbering pattern of a user
+ * Counters are kept, so the sequence of the year continues with the new pattern
+ */
+export const updateNumberPattern = async (
+  userId: string,
+  pattern: string
+): Promise<IInvoiceSequence> => {
+  const sequence = await InvoiceSequence.findOneAndUpdate(
+    { userId },
+    { $set: { pattern } },
+    { new: true, upsert: true, runValidators: true }
+  ).lean();
+  return sequence as IInvoiceSequence;
+};
+
+/**
+ * Make sure the sequence of a year has a counter
+ * A new counter starts from the invoices already numbered with the pattern,
+ * so sequences continue after invoices numbered by hand. It is only set
+ * when missing, so concurrent calls cannot move it back
+ */
+const ensureYearCounter = async (
+  userId: string,
+  year: number
+): Promise<IInvoiceSequence> => {
+  const sequence = (await InvoiceSequence.findOneAndUpdate(
+    { userId },
+    { $setOnInsert: { pattern: DEFAULT_INVOICE_NUMBER_PATTERN } },
+    { new: true, upsert: true }
+  ).lean()) as IInvoiceSequence;
+  if (sequence.counters?.[year] !== undefined) {
+    return sequence;
+  }
+
+  const highest = getHighestSequence(
+    sequence.pattern,
+    year,
+    await findInvoiceNumbersByYear(userId, year)
+  );
+  await InvoiceSequence.updateOne(
+    { userId, [counterPath(year)]: { $exists: false } },
+    { $set: { [counterPath(year)]: highest } }
+  );
+  return sequence;
+};
+
+/**
+ * Reserve the next number of the sequence of a year
+ * The counter is incremented atomically, so concurrent invoices never get
+ * the same number. Numbers already given by hand are skipped
+ */
+const reserveInvoiceNumber = async (
+  userId: string,
+  year: number
+): Promise<{ number: string; sequence: number }> => {
+  await ensureYearCounter(userId, year);
+
+  for (;;) {
+    const updated = (await InvoiceSequence.findOneAndUpdate(
+      { userId },
+      { $inc: { [counterPath(year)]: 1 } },
+      { new: true }
+    ).lean()) as IInvoiceSequence;
+    const sequence = updated.counters[year];
+    const number = formatInvoiceNumber(updated.pattern, year, sequence);
+
+    if (!(await Invoice.exists({ userId, fiscalYear: year, number }))) {
+      return { number, sequence };
+    }
+  }
+};
+
+/**
+ * Give back a reserved number whose invoice could not be saved
+ * Only possible while no later number was reserved, otherwise the
+ * gap remains and is reported with the numbering status
+ */
+const releaseInvoiceNumber = async (
+  userId: string,
+  year: number,
+  sequence: number
+): Promise<void> => {
+  await InvoiceSequence.updateOne(
+    { userId, [counterPath(year)]: sequence },
+    { $inc: { [counterPath(year)]: -1 } }
+  );
+};
+
+/**
+ * Number an invoice with the next number of its fiscal year and save it
+ * The invoice is validated first, so invalid data does not consume a number
+ */
+export const saveWithNextNumber = async (
+  invoice: HydratedDocument<IInvoice>
+): Promise<IInvoice> => {
+  await invoice.validate({ pathsToSkip: ["number"] });
+
+  const { number, sequence } = await reserveInvoiceNumber(
+    invoice.userId,
+    invoice.fiscalYear
+  );
+  invoice.number = number;
+
+  try {
+    const savedInvoice = await invoice.save();
+    return savedInvoice.toObject();
+  } catch (error) {
+    await releaseInvoiceNumber(invoice.userId, invoice.fiscalYear, sequence);
+    throw error;
+  }
+};
+
+/**
+ * Create an invoice numbered with the next number of its fiscal year
+ */
+export const createInvoiceWithNextNumber = async (
+  userId: string,
+  invoiceData: Omit<
+    IInvoice,
+    "id" | "userId" | "number" | "createdAt" | "updatedAt"
+  >
+): Promise<IInvoice> =>
+  saveWithNextNumber(
+    new Invoice({
+      ...invoiceData,
+      userId,
+    })
+  );
+
+/**
+ * Move the counter of a year past an invoice numbered by hand
+ * so the next generated number follows it
+ */
+export const recordInvoiceNumber = async (
+  userId: string,
+  year: number,
+  number: string
+): Promise<void> => {
+  const { pattern } = await ensureYearCounter(userId, year);
+  const sequence = parseInvoiceSequence(pattern, year, number);
+
+  if (sequence) {
+    await InvoiceSequence.updateOne(
+      { userId },
+      { $max: { [counterPath(year)]: sequence } }
+    );
+  }
+};
+
+/**
+ * Numbering status of a year: pattern, next number and gaps
+ * Reading the status does not reserve the suggested number
+ */
+export const getInvoiceNumberingStatus = async (
+  userId: string,
+  year: number
+): Promise<InvoiceNumberingStatus> => {
+  const [sequence, numbers] = await Promise.all([
+    findInvoiceSequence(userId),
+    findInvoiceNumbersByYear(userId, year),
+  ]);
+  const pattern = sequence?.pattern ?? DEFAULT_INVOICE_NUMBER_PATTERN;
+  const counter =
+    sequence?.counters?.[year] ?? getHighestSequence(pattern, year, numbers);
+
+  let next = counter + 1;
+  while (numbers.includes(formatInvoiceNumber(pattern, year, next))) {
+    next++;
+  }
+
+  return {
+    pattern,
+    year,
+    nextNumber: formatInvoiceNumber(pattern, year, next),
+    gaps: findNumberingGaps(pattern, year, numbers, counter),
+  };
+};
@@ -0,0 +1,240 @@
+import { irpefRateService, IrpefRate } from "@/services/irpefRateService";
+import { IrpefCalculationRequest, IrpefCalculationResult } from "@/types/tax";
+
+/**
+ * Pure functions for IRPEF calculations (regime ordinario)
+ * Follows functional programming principles
+ */
+
+export type IrpefBracket = Pick<IrpefRate, "rate" | "lowerBound" | "upperBound">;
+
+/**
+ * Default IRPEF brackets by year of entry into force
+ * Used when no rate table is available for the requested year
+ */
+export const DEFAULT_IRPEF_BRACKETS: Record<number, IrpefBracket[]> = {
+  2022: [
+    { rate: 23, lowerBound: 0, upperBound: 15000 },
+    { rate: 25, lowerBound: 15000, upperBound: 28000 },
+    { rate: 35, lowerBound: 28000, upperBound: 50000 },
+    { rate: 43, lowerBound: 50000 },
+  ],
+  2024: [
+    { rate: 23, lowerBound: 0, upperBound: 28000 },
+    { rate: 35, lowerBound: 28000, upperBound: 50000 },
+    { rate: 43, lowerBound: 50000 },
+  ],
+};
+
+/**
+ * Default addizionale regionale rate (base rate, art. 6 D.Lgs. 68/2011)
+ */
+export const DEFAULT_REGIONAL_SURCHARGE_RATE = 1.23;
+
+/**
+ * Default addizionale comunale rate (maximum rate, D.Lgs. 360/1998)
+ */
+export const DEFAULT_MUNICIPAL_SURCHARGE_RATE = 0.8;
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number =>
+  Math.round(value * 100) / 100;
+
+/**
+ * Get the year of the default IRPEF table in force for a given year
+ * Falls back to the closest earlier table, or the oldest one
+ */
+export const getDefaultIrpefTableYear = (year: number): number => {
+  const years = Object.keys(DEFAULT_IRPEF_BRACKETS)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return [...years].reverse().find((y) => y <= year) ?? years[0];
+};
+
+/**
+ * Get the default IRPEF brackets in force for a given year
+ */
+export const getDefaultIrpefBrackets = (year: number): IrpefBracket[] =>
+  DEFAULT_IRPEF_BRACKETS[getDefaultIrpefTableYear(year)];
+
+/**
+ * Calculate the detrazione per redditi di lavoro autonomo
+ * (art. 13, comma 5 and 5-bis, TUIR)
+ */
+export const calculateSelfEmploymentDeduction = (income: number): number => {
+  if (income <= 0) return 0;
+
+  let deduction = 0;
+  if (income <= 5500) {
+    deduction = 1265;
+  } else if (income <= 28000) {
+    deduction = 500 + (765 * (28000 - income)) / 22500;
+  } else if (income <= 50000) {
+    deduction = (500 * (50000 - income)) / 22000;
+  }
+
+  // Additional 50 euros for incomes between 25,000 and 35,000
+  if (income > 25000 && income <= 35000) {
+    deduction += 50;
+  }
+
+  return roundToCents(deduction);
+};
+
+/**
+ * Calculate the addizionale regionale IRPEF
+ */
+export const calculateRegionalSurcharge = (
+  income: number,
+  rate: number = DEFAULT_REGIONAL_SURCHARGE_RATE
+): number => {
+  if (income <= 0) return 0;
+  return roundToCents((income * rate) / 100);
+};
+
+/**
+ * Calculate the addizionale comunale IRPEF
+ * Municipalities may exempt incomes up to a threshold
+ */
+export const calculateMunicipalSurcharge = (
+  income: number,
+  rate: number = DEFAULT_MUNICIPAL_SURCHARGE_RATE,
+  exemptionThreshold: number = 0
+): number => {
+  if (income <= 0 || income <= exemptionThreshold) return 0;
+  return roundToCents((income * rate) / 100);
+};
+
+/**
+ * Calculate IRPEF for the ordinario regime
+ * Gross tax by bracket, minus detrazioni per lavoro autonomo, plus addizionali.
+ * Addizionali are due only when net IRPEF is due.
+ * Withholding tax retained by clients reduces the IRPEF due.
+ */
+export const calculateIrpef = (
+  request: IrpefCalculationRequest,
+  rates: IrpefBracket[] = getDefaultIrpefBrackets(request.year)
+): IrpefCalculationResult => {
+  const taxableIncome = Math.max(0, request.taxableIncome);
+
+  const { totalTax, brackets } = irpefRateService.calculateTax(
+    taxableIncome,
+    rates.map((rate) => ({
+      _id: `${request.year}-${rate.lowerBound}`,
+      year: request.year,
+      isActive: true,
+      ...rate,
+    }))
+  );
+
+  const grossTax = roundToCents(totalTax);
+  const selfEmploymentDeduction = Math.min(
+    grossTax,
+    calculateSelfEmploymentDeduction(taxableIncome)
+  );
+  const netTax = roundToCents(grossTax - selfEmploymentDeduction);
+
+  const regionalSurcharge =
+    netTax > 0
+      ? calculateRegionalSurcharge(taxableIncome, request.regionalSurchargeRate)
+      : 0;
+  const municipalSurcharge =
+    netTax > 0
+      ? calculateMunicipalSurcharge(
+          taxableIncome,
+          request.municipalSurchargeRate,
+          request.municipalExemptionThreshold
+        )
+      : 0;
+  const totalIrpef = roundToCents(
+    netTax + regionalSurcharge + municipalSurcharge
+  );
+
+  // Withholding tax is credited against the net tax, the excess is
+  // an IRPEF credit to refund or offset
+  const withheldTaxes = roundToCents(Math.max(0, request.withheldTaxes ?? 0));
+  const withholdingCredit = Math.min(withheldTaxes, netTax);
+
+  return {
+    year: request.year,
+    taxableIncome,
+    brackets: brackets.map((bracket) => ({
+      ...bracket,
+      taxableAmount: roundToCents(bracket.taxableAmount),
+      tax: roundToCents(bracket.tax),
+    })),
+    grossTax,
+    selfEmploymentDeduction,
+    netTax,
+    regionalSurcharge,
+    municipalSurcharge,
+    totalIrpef,
+    withheldTaxes,
+    withholdingCredit,
+    withholdingSurplus: roundToCents(withheldTaxes - withholdingCredit),
+    irpefDue: roundToCents(totalIrpef - withholdingCredit),
+  };
+};
+
+/**
+ * Validate an IRPEF rate table
+ * Brackets must start at 0, be contiguous, not overlap,
+ * and only the last one may be unbounded
+ */
+export const validateIrpefBrackets = (
+  brackets: IrpefBracket[]
+): {
+  isValid: boolean;
+  errors: string[];
+} => {
+  const errors: string[] = [];
+
+  if (brackets.length === 0) {
+    errors.push("At least one bracket is required");
+    return { isValid: false, errors };
+  }
+
+  const sorted = [...brackets].sort((a, b) => a.lowerBound - b.lowerBound);
+
+  if (sorted[0].lowerBound !== 0) {
+    errors.push("The first bracket must start at 0");
+  }
+
+  sorted.forEach((bracket, index) => {
+    const isLast = index === sorted.length - 1;
+
+    if (bracket.rate < 0 || bracket.rate > 100) {
+      errors.push(`Bracket ${index + 1}: rate must be between 0 and 100`);
+    }
+
+    if (bracket.upperBound === undefined || bracket.upperBound === null) {
+      if (!isLast) {
+        errors.push(`Bracket ${index + 1}: only the last bracket can be unbounded`);
+      }
+      return;
+    }
+
+    if (bracket.upperBound <= bracket.lowerBound) {
+      errors.push(
+        `Bracket ${index + 1}: upper bound must be greater than lower bound`
+      );
+    }
+
+    if (!isLast) {
+      const next = sorted[index + 1];
+      if (next.lowerBound < bracket.upperBound) {
+        errors.push(`Brackets ${index + 1} and ${index + 2} overlap`);
+      } else if (next.lowerBound > bracket.upperBound) {
+        errors.push(`Gap between brackets ${index + 1} and ${index + 2}`);
+      }
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
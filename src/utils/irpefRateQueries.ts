@@ -0,0 +1,101 @@
+import { IrpefRate } from "@/models/IrpefRate";
+import { IIrpefRate } from "@/types";
+import { IrpefBracket, getDefaultIrpefBrackets } from "./irpefCalculations";
+
+/**
+ * Pure functions for IRPEF rate database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find active IRPEF brackets for a year
+ */
+export const findActiveIrpefRatesByYear = async (
+  year: number
+): Promise<IIrpefRate[]> => {
+  const rates = await IrpefRate.find({ year, isActive: true })
+    .sort({ lowerBound: 1 })
+    .lean();
+  return rates;
+};
+
+/**
+ * Find the IRPEF brackets in force for a year
+ * Brackets stay in force until a newer table is defined,
+ * so this falls back to the closest earlier year with active rates
+ */
+export const findIrpefRatesInForce = async (
+  year: number
+): Promise<IIrpefRate[]> => {
+  const latest = await IrpefRate.findOne({
+    year: { $lte: year },
+    isActive: true,
+  })
+    .sort({ year: -1 })
+    .lean();
+
+  if (!latest) return [];
+
+  return findActiveIrpefRatesByYear(latest.year);
+};
+
+/**
+ * Find all years with a defined IRPEF rate table
+ */
+export const findIrpefRateYears = async (): Promise<number[]> => {
+  const years: number[] = await IrpefRate.distinct("year");
+  return years.sort((a, b) => b - a);
+};
+
+/**
+ * Replace the IRPEF rate table of a year
+ * Brackets are upserted before the ones left out are deleted,
+ * so a failure halfway never leaves the year without rates
+ */
+export const replaceIrpefRatesForYear = async (
+  year: number,
+  brackets: IrpefBracket[]
+): Promise<IIrpefRate[]> => {
+  await IrpefRate.bulkWrite(
+    brackets.map((bracket) => ({
+      updateOne: {
+        filter: { year, lowerBound: bracket.lowerBound },
+        update:
+          bracket.upperBound == null
+            ? {
+                $set: { rate: bracket.rate, isActive: true },
+                $unset: { upperBound: 1 },
+              }
+            : {
+                $set: {
+                  rate: bracket.rate,
+                  upperBound: bracket.upperBound,
+                  isActive: true,
+                },
+              },
+        upsert: true,
+      },
+    }))
+  );
+  await IrpefRate.deleteMany({
+    year,
+    lowerBound: { $nin: brackets.map((bracket) => bracket.lowerBound) },
+  });
+
+  return findActiveIrpefRatesByYear(year);
+};
+
+/**
+ * Seed default IRPEF rate tables for the given years
+ * Years that already have a rate table are left untouched
+ */
+export const seedIrpefRates = async (years: number[]): Promise<number[]> => {
+  const existingYears = await findIrpefRateYears();
+  const missingYears = years.filter((year) => !existingYears.includes(year));
+
+  for (const year of missingYears) {
+    await replaceIrpefRatesForYear(year, getDefaultIrpefBrackets(year));
+  }
+
+  return missingYears;
+};
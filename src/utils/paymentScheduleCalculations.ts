@@ -0,0 +1,422 @@
+import {
+  BolloInfo,
+  BolloQuarterSummary,
+  PaymentSchedule,
+  ScheduledTaxPayment,
+  TaxPaymentCategory,
+  TaxPaymentKind,
+  TaxRegime,
+} from "@/types";
+
+/**
+ * Pure functions for the tax and contribution payment schedule
+ * Acconti follow the historic method: they are based on the fiscal year's
+ * tax and contributions, which are the previous year for the advanced year
+ * Follows functional programming principles
+ */
+
+/**
+ * Tax and contributions up to this amount owe no acconto
+ */
+export const ACCONTO_MIN_AMOUNT = 51.65;
+
+/**
+ * Tax acconto paid in a single November instalment below this amount
+ */
+export const SINGLE_TAX_ACCONTO_THRESHOLD = 257.52;
+
+/**
+ * Share of the tax advanced with the first acconto, the second covers the rest
+ */
+export const TAX_FIRST_ACCONTO_SHARE = 40;
+
+/**
+ * First acconto share for forfettari and ISA subjects, who pay two equal acconti
+ */
+export const ISA_TAX_FIRST_ACCONTO_SHARE = 50;
+
+/**
+ * Share of the contributions advanced with each of the two acconti
+ * (Gestione Separata: 80% of the previous year's contributions)
+ */
+export const CONTRIBUTION_ACCONTO_SHARE = 40;
+
+/**
+ * Due dates of the fixed contribution instalments, in the year after the
+ * fiscal year except the last one (month is zero-based)
+ */
+const FIXED_INSTALMENT_DUE_DATES = [
+  { month: 4, day: 16, yearOffset: 1 },
+  { month: 7, day: 20, yearOffset: 1 },
+  { month: 10, day: 16, yearOffset: 1 },
+  { month: 1, day: 16, yearOffset: 2 },
+];
+
+/**
+ * Quarterly stamp duty below this amount may be paid with the next quarter
+ */
+export const BOLLO_DEFERRAL_THRESHOLD = 5000;
+
+/**
+ * Due dates of the quarterly stamp duty (month is zero-based): the end of
+ * the second month after each quarter, the last one in the next year
+ */
+const BOLLO_DUE_DATES = [
+  { month: 4, day: 31, yearOffset: 0 },
+  { month: 8, day: 30, yearOffset: 0 },
+  { month: 10, day: 30, yearOffset: 0 },
+  { month: 2, day: 0, yearOffset: 1 },
+];
+
+/**
+ * Input of the payment schedule for a fiscal year
+ */
+export interface PaymentScheduleInput {
+  fiscalYear: number;
+  /**
+   * Income tax of the fiscal year (substitute tax or IRPEF with addizionali),
+   * less the withholding tax already retained by clients
+   */
+  incomeTax: number;
+  /** Share of the income tax subject to acconti, IRPEF without addizionali */
+  incomeTaxAccontoBase?: number;
+  /** Regime and ISA status set the split of the tax acconti */
+  taxRegime?: TaxRegime;
+  isaSubject?: boolean;
+  /** Contributions proportional to the income of the fiscal year */
+  contributions: number;
+  fixedAnnualContributions?: number;
+  /** Acconti already paid for the fiscal year, credited in the saldo */
+  paidTaxAcconti?: number;
+  paidContributionAcconti?: number;
+  /** Stamp duty on the invoices issued in the fiscal year */
+  bolloQuarters?: BolloQuarterSummary[];
+}
+
+/**
+ * Payment recorded as paid by the user
+ */
+export interface TaxPaymentRecord {
+  paymentId: string;
+  amount: number;
+  paidAt: Date | string;
+}
+
+/**
+ * Round a monetary value to cents
+ */
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Move a due date falling on a weekend to the following Monday
+ */
+export const toBusinessDay = (date: Date): Date => {
+  const day = date.getUTCDay();
+  const shift = day === 6 ? 2 : day === 0 ? 1 : 0;
+  return new Date(date.getTime() + shift * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Due date as an ISO string (UTC midnight)
+ */
+const dueDate = (year: number, month: number, day: number): string =>
+  toBusinessDay(new Date(Date.UTC(year, month, day))).toISOString();
+
+/**
+ * Share of the tax advanced with the first acconto
+ * Forfettari and ISA subjects split the acconto in two equal instalments
+ */
+export const getTaxFirstAccontoShare = (
+  taxRegime?: TaxRegime,
+  isaSubject?: boolean
+): number =>
+  taxRegime === "forfettario" || isaSubject
+    ? ISA_TAX_FIRST_ACCONTO_SHARE
+    : TAX_FIRST_ACCONTO_SHARE;
+
+/**
+ * Split the tax acconto into the June and November instalments
+ */
+export const calculateTaxAcconti = (
+  base: number,
+  firstShare: number = TAX_FIRST_ACCONTO_SHARE
+): { first: number; second: number } => {
+  if (base <= ACCONTO_MIN_AMOUNT) return { first: 0, second: 0 };
+  if (base < SINGLE_TAX_ACCONTO_THRESHOLD) {
+    return { first: 0, second: roundToCents(base) };
+  }
+
+  const first = roundToCents((base * firstShare) / 100);
+  return { first, second: roundToCents(base - first) };
+};
+
+/**
+ * Split the contribution acconto into the June and November instalments
+ */
+export const calculateContributionAcconti = (
+  base: number
+): { first: number; second: number } => {
+  if (base <= ACCONTO_MIN_AMOUNT) return { first: 0, second: 0 };
+
+  const instalment = roundToCents((base * CONTRIBUTION_ACCONTO_SHARE) / 100);
+  return { first: instalment, second: instalment };
+};
+
+/**
+ * Identifier of a scheduled payment, stable within a fiscal year
+ */
+export const getTaxPaymentId = (
+  category: TaxPaymentCategory,
+  kind: TaxPaymentKind,
+  instalment?: number
+): string => {
+  switch (kind) {
+    case "first_acconto":
+      return `${category}-acconto-1`;
+    case "second_acconto":
+      return `${category}-acconto-2`;
+    case "instalment":
+      return `${category}-rata-${instalment}`;
+    case "quarter":
+      return `${category}-trimestre-${instalment}`;
+    default:
+      return `${category}-saldo`;
+  }
+};
+
+/**
+ * Acconti recorded as paid in a fiscal year's schedule
+ * They advance the following year and are credited in its saldo
+ */
+export const sumPaidAcconti = (
+  records: TaxPaymentRecord[],
+  category: TaxPaymentCategory
+): number => {
+  const accontoIds = [
+    getTaxPaymentId(category, "first_acconto"),
+    getTaxPaymentId(category, "second_acconto"),
+  ];
+
+  return roundToCents(
+    records
+      .filter((record) => accontoIds.includes(record.paymentId))
+      .reduce((sum, record) => sum + record.amount, 0)
+  );
+};
+
+/**
+ * Stamp duty due for each quarter of a fiscal year
+ * - Q1 and Q2 are paid with Q3 while together under the threshold,
+ *   otherwise Q1 under the threshold is paid with Q2
+ * - Only invoices issued in the fiscal year are counted
+ */
+export const calculateBolloQuarters = (
+  invoices: { issueDate: Date | string; bollo?: BolloInfo | null }[],
+  fiscalYear: number
+): BolloQuarterSummary[] => {
+  const quarters = BOLLO_DUE_DATES.map(({ month, day, yearOffset }, index) => ({
+    quarter: index + 1,
+    invoiceCount: 0,
+    amount: 0,
+    dueDate: dueDate(fiscalYear + yearOffset, month, day),
+    deferred: false,
+  }));
+
+  invoices.forEach((invoice) => {
+    const issueDate = new Date(invoice.issueDate);
+    if (!invoice.bollo || issueDate.getFullYear() !== fiscalYear) return;
+
+    const quarter = quarters[Math.floor(issueDate.getMonth() / 3)];
+    quarter.invoiceCount += 1;
+    quarter.amount = roundToCents(quarter.amount + invoice.bollo.amount);
+  });
+
+  const [first, second, third] = quarters;
+  if (first.amount + second.amount < BOLLO_DEFERRAL_THRESHOLD) {
+    [first, second].forEach((summary) => {
+      summary.dueDate = third.dueDate;
+      summary.deferred = true;
+    });
+  } else if (first.amount < BOLLO_DEFERRAL_THRESHOLD) {
+    first.dueDate = second.dueDate;
+    first.deferred = true;
+  }
+
+  return quarters;
+};
+
+/**
+ * Build the payments settling a fiscal year and advancing the next one
+ * - 30 June: saldo of the fiscal year plus first acconto
+ * - 30 November: second acconto
+ * - Fixed contributions: four quarterly instalments
+ * - Stamp duty: quarterly, on the invoices of the fiscal year
+ * Payments recorded as paid are flagged with their payment date
+ */
+export const buildPaymentSchedule = (
+  input: PaymentScheduleInput,
+  records: TaxPaymentRecord[] = []
+): PaymentSchedule => {
+  const { fiscalYear } = input;
+  const nextYear = fiscalYear + 1;
+  const paidTaxAcconti = input.paidTaxAcconti ?? 0;
+  const paidContributionAcconti = input.paidContributionAcconti ?? 0;
+
+  const taxAcconti = calculateTaxAcconti(
+    input.incomeTaxAccontoBase ?? input.incomeTax,
+    getTaxFirstAccontoShare(input.taxRegime, input.isaSubject)
+  );
+  const contributionAcconti = calculateContributionAcconti(input.contributions);
+  const june = dueDate(nextYear, 5, 30);
+  const november = dueDate(nextYear, 10, 30);
+
+  const entries: Omit<ScheduledTaxPayment, "fiscalYear" | "paid">[] = [
+    {
+      id: getTaxPaymentId("tax", "saldo"),
+      category: "tax",
+      kind: "saldo",
+      referenceYear: fiscalYear,
+      description: `Saldo imposta ${fiscalYear}`,
+      dueDate: june,
+      amount: roundToCents(Math.max(0, input.incomeTax - paidTaxAcconti)),
+    },
+    {
+      id: getTaxPaymentId("tax", "first_acconto"),
+      category: "tax",
+      kind: "first_acconto",
+      referenceYear: nextYear,
+      description: `Primo acconto imposta ${nextYear}`,
+      dueDate: june,
+      amount: taxAcconti.first,
+    },
+    {
+      id: getTaxPaymentId("contributions", "saldo"),
+      category: "contributions",
+      kind: "saldo",
+      referenceYear: fiscalYear,
+      description: `Saldo contributi ${fiscalYear}`,
+      dueDate: june,
+      amount: roundToCents(
+        Math.max(0, input.contributions - paidContributionAcconti)
+      ),
+    },
+    {
+      id: getTaxPaymentId("contributions", "first_acconto"),
+      category: "contributions",
+      kind: "first_acconto",
+      referenceYear: nextYear,
+      description: `Primo acconto contributi ${nextYear}`,
+      dueDate: june,
+      amount: contributionAcconti.first,
+    },
+    {
+      id: getTaxPaymentId("tax", "second_acconto"),
+      category: "tax",
+      kind: "second_acconto",
+      referenceYear: nextYear,
+      description: `Secondo acconto imposta ${nextYear}`,
+      dueDate: november,
+      amount: taxAcconti.second,
+    },
+    {
+      id: getTaxPaymentId("contributions", "second_acconto"),
+      category: "contributions",
+      kind: "second_acconto",
+      referenceYear: nextYear,
+      description: `Secondo acconto contributi ${nextYear}`,
+      dueDate: november,
+      amount: contributionAcconti.second,
+    },
+  ];
+
+  // Fixed contributions of the next year, last instalment takes the remainder
+  const fixedAnnualContributions = input.fixedAnnualContributions ?? 0;
+  if (fixedAnnualContributions > 0) {
+    const instalment = roundToCents(
+      fixedAnnualContributions / FIXED_INSTALMENT_DUE_DATES.length
+    );
+
+    FIXED_INSTALMENT_DUE_DATES.forEach(({ month, day, yearOffset }, index) => {
+      const isLast = index === FIXED_INSTALMENT_DUE_DATES.length - 1;
+      entries.push({
+        id: getTaxPaymentId("contributions", "instalment", index + 1),
+        category: "contributions",
+        kind: "instalment",
+        referenceYear: nextYear,
+        description: `Contributi fissi ${nextYear} - rata ${index + 1}/${FIXED_INSTALMENT_DUE_DATES.length}`,
+        dueDate: dueDate(fiscalYear + yearOffset, month, day),
+        amount: isLast
+          ? roundToCents(fixedAnnualContributions - instalment * index)
+          : instalment,
+      });
+    });
+  }
+
+  // Stamp duty of the fiscal year's invoices, one payment per quarter
+  (input.bolloQuarters ?? []).forEach((summary) => {
+    entries.push({
+      id: getTaxPaymentId("bollo", "quarter", summary.quarter),
+      category: "bollo",
+      kind: "quarter",
+      referenceYear: fiscalYear,
+      description: `Imposta di bollo ${summary.quarter}° trimestre ${fiscalYear}`,
+      dueDate: summary.dueDate,
+      amount: summary.amount,
+    });
+  });
+
+  const payments: ScheduledTaxPayment[] = entries
+    .map((entry) => {
+      const record = records.find((r) => r.paymentId === entry.id);
+
+      // Paid payments keep the amount actually paid
+      return {
+        ...entry,
+        fiscalYear,
+        ...(record
+          ? {
+              amount: record.amount,
+              paid: true,
+              paidAt: new Date(record.paidAt).toISOString(),
+            }
+          : { paid: false }),
+      };
+    })
+    .filter((payment) => payment.amount > 0 || payment.paid)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  const totalAmount = roundToCents(
+    payments.reduce((sum, payment) => sum + payment.amount, 0)
+  );
+  const paidAmount = roundToCents(
+    payments
+      .filter((payment) => payment.paid)
+      .reduce((sum, payment) => sum + payment.amount, 0)
+  );
+
+  return {
+    fiscalYear,
+    payments,
+    creditedAcconti: {
+      tax: paidTaxAcconti,
+      contributions: paidContributionAcconti,
+    },
+    totalAmount,
+    paidAmount,
+    outstandingAmount: roundToCents(totalAmount - paidAmount),
+  };
+};
+
+/**
+ * Unpaid payments due from a date on, earliest first
+ */
+export const getUpcomingPayments = (
+  schedules: PaymentSchedule[],
+  from: Date = new Date()
+): ScheduledTaxPayment[] =>
+  schedules
+    .flatMap((schedule) => schedule.payments)
+    .filter(
+      (payment) => !payment.paid && new Date(payment.dueDate) >= from
+    )
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
@@ -169,6 +169,15 @@ export const validateFundParameters = (
         `Parameter ${index + 1}: Fixed annual contributions cannot be negative`
       );
     }
+    if (
+      param.integrativeContributionRate !== undefined &&
+      (param.integrativeContributionRate < 0 ||
+        param.integrativeContributionRate > 100)
+    ) {
+      errors.push(
+        `Parameter ${index + 1}: Integrative contribution rate must be between 0 and 100`
+      );
+    }
   });
 
   return {
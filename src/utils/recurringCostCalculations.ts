@@ -0,0 +1,143 @@
+import { RecurrenceFrequency } from "@/types";
+
+/**
+ * Pure functions for recurring cost calculations
+ * Follows functional programming principles
+ *
+ * Occurrences fall on the day of the month of the start date, moved back to
+ * the last day of shorter months, and are compared by calendar day (UTC,
+ * like the dates picked in the cost form)
+ */
+
+// Generic series shape for schedule calculations (IRecurringCost or API response)
+export type RecurrenceSchedule = {
+  frequency: RecurrenceFrequency;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  skippedDates?: (Date | string)[];
+  generatedUntil?: Date | string | null;
+};
+
+export interface RecurrenceOccurrence {
+  date: Date;
+  skipped: boolean;
+}
+
+/**
+ * Months between two occurrences of each frequency
+ */
+export const RECURRENCE_MONTHS: Record<RecurrenceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Upcoming occurrences shown in the series preview
+ */
+export const RECURRING_COST_PREVIEW_COUNT = 6;
+
+/**
+ * Calendar day of a date, e.g. "2025-01-31"
+ */
+export const toDateKey = (date: Date | string): string =>
+  new Date(date).toISOString().split("T")[0];
+
+/**
+ * Date of the nth occurrence of a series, the first one being the start date
+ */
+export const getOccurrenceDate = (
+  startDate: Date | string,
+  frequency: RecurrenceFrequency,
+  index: number
+): Date => {
+  const start = new Date(startDate);
+  const months = start.getUTCMonth() + index * RECURRENCE_MONTHS[frequency];
+  const year = start.getUTCFullYear() + Math.floor(months / 12);
+  const month = months % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+};
+
+/**
+ * Occurrences of a series after a day (excluded) up to another (included),
+ * within the end date of the series
+ */
+const listOccurrences = (
+  schedule: RecurrenceSchedule,
+  after: Date | string | null,
+  until: Date | string | null,
+  limit = Infinity
+): RecurrenceOccurrence[] => {
+  const afterKey = after ? toDateKey(after) : null;
+  const untilKey = until ? toDateKey(until) : null;
+  const endKey = schedule.endDate ? toDateKey(schedule.endDate) : null;
+  const skipped = new Set((schedule.skippedDates ?? []).map(toDateKey));
+  const occurrences: RecurrenceOccurrence[] = [];
+
+  for (let index = 0; occurrences.length < limit; index++) {
+    const date = getOccurrenceDate(schedule.startDate, schedule.frequency, index);
+    const key = toDateKey(date);
+    if ((untilKey && key > untilKey) || (endKey && key > endKey)) break;
+    if (!afterKey || key > afterKey) {
+      occurrences.push({ date, skipped: skipped.has(key) });
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Check if a day is an occurrence of a series
+ */
+export const isOccurrenceDate = (
+  schedule: RecurrenceSchedule,
+  date: Date | string
+): boolean => {
+  const key = toDateKey(date);
+  return listOccurrences(schedule, null, date).some(
+    (occurrence) => toDateKey(occurrence.date) === key
+  );
+};
+
+/**
+ * Check if a day is an occurrence of a series not generated yet,
+ * the only ones that can be skipped or restored
+ */
+export const isPendingOccurrence = (
+  schedule: RecurrenceSchedule,
+  date: Date | string
+): boolean =>
+  isOccurrenceDate(schedule, date) &&
+  (!schedule.generatedUntil ||
+    toDateKey(date) > toDateKey(schedule.generatedUntil));
+
+/**
+ * Occurrences due by a day and not generated yet, skipped ones included
+ * so that generation can move past them
+ */
+export const getDueOccurrences = (
+  schedule: RecurrenceSchedule,
+  today: Date
+): RecurrenceOccurrence[] =>
+  listOccurrences(schedule, schedule.generatedUntil ?? null, today);
+
+/**
+ * Next occurrences of a series after a day, still to be generated
+ */
+export const getUpcomingOccurrences = (
+  schedule: RecurrenceSchedule,
+  today: Date,
+  count = RECURRING_COST_PREVIEW_COUNT
+): RecurrenceOccurrence[] => {
+  const generatedUntil = schedule.generatedUntil
+    ? toDateKey(schedule.generatedUntil)
+    : null;
+  const after =
+    generatedUntil && generatedUntil > toDateKey(today)
+      ? generatedUntil
+      : today;
+
+  return listOccurrences(schedule, after, null, count);
+};
@@ -0,0 +1,211 @@
+import { Cost } from "@/models/Cost";
+import { RecurringCost } from "@/models/RecurringCost";
+import {
+  IRecurringCost,
+  RecurringCostCreateRequest,
+  RecurringCostUpdateRequest,
+} from "@/types";
+import { getDueOccurrences, toDateKey } from "./recurringCostCalculations";
+
+/**
+ * Pure functions for recurring cost database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find the recurring cost series of a user
+ */
+export const findRecurringCostsByUserId = async (
+  userId: string
+): Promise<IRecurringCost[]> => {
+  const series = await RecurringCost.find({ userId })
+    .sort({ startDate: -1 })
+    .lean<IRecurringCost[]>();
+  return series;
+};
+
+/**
+ * Find a recurring cost series of a user
+ */
+export const findRecurringCostByIdForUser = async (
+  id: string,
+  userId: string
+): Promise<IRecurringCost | null> => {
+  const series = await RecurringCost.findOne({
+    _id: id,
+    userId,
+  }).lean<IRecurringCost>();
+  return series;
+};
+
+/**
+ * Materialise the due occurrences of a series as costs
+ * Each occurrence is upserted by series and date, so concurrent runs cannot
+ * duplicate it, and generatedUntil only moves forward, so costs deleted by
+ * the user are not generated again
+ */
+export const generateRecurringCostInstances = async (
+  series: IRecurringCost,
+  today: Date = new Date()
+): Promise<number> => {
+  const due = getDueOccurrences(series, today);
+  if (due.length === 0) return 0;
+
+  const seriesId = series._id?.toString();
+  const operations = due
+    .filter((occurrence) => !occurrence.skipped)
+    .map((occurrence) => ({
+      updateOne: {
+        filter: { recurringCostId: seriesId, date: occurrence.date },
+        update: {
+          $setOnInsert: {
+            userId: series.userId,
+            description: series.description,
+            amount: series.amount,
+            deductible: series.deductible ?? true,
+            deductionPercentage: series.deductionPercentage ?? 100,
+            categoryId: series.categoryId ?? null,
+          },
+        },
+        upsert: true,
+      },
+    }));
+
+  const result =
+    operations.length > 0 ? await Cost.bulkWrite(operations) : null;
+
+  await RecurringCost.updateOne(
+    { _id: series._id },
+    { $max: { generatedUntil: due[due.length - 1].date } }
+  );
+
+  return result?.upsertedCount ?? 0;
+};
+
+/**
+ * Materialise the due occurrences of every series, or of a user's series
+ * Run on schedule and when the user logs in
+ */
+export const generateDueRecurringCosts = async (
+  today: Date = new Date(),
+  userId?: string
+): Promise<number> => {
+  const series = await RecurringCost.find({
+    ...(userId ? { userId } : {}),
+    startDate: { $lte: today },
+  }).lean<IRecurringCost[]>();
+
+  let created = 0;
+  for (const item of series) {
+    created += await generateRecurringCostInstances(item, today);
+  }
+  return created;
+};
+
+/**
+ * Create a recurring cost series for a user and generate its due occurrences
+ * An existing cost can become the first occurrence, so it is not duplicated
+ */
+export const createRecurringCostForUser = async (
+  userId: string,
+  data: RecurringCostCreateRequest
+): Promise<IRecurringCost> => {
+  const { costId, ...seriesData } = data;
+  const series = await RecurringCost.create({
+    ...seriesData,
+    userId,
+    startDate: new Date(seriesData.startDate),
+    endDate: seriesData.endDate ? new Date(seriesData.endDate) : null,
+  });
+
+  if (costId) {
+    const linked = await Cost.findOneAndUpdate(
+      { _id: costId, userId, recurringCostId: null },
+      {
+        $set: {
+          recurringCostId: series._id.toString(),
+          date: series.startDate,
+        },
+      }
+    );
+    if (linked) {
+      series.generatedUntil = series.startDate;
+      await series.save();
+    }
+  }
+
+  const created = series.toObject() as IRecurringCost;
+  await generateRecurringCostInstances(created);
+  const saved = await findRecurringCostByIdForUser(
+    series._id.toString(),
+    userId
+  );
+  return saved ?? created;
+};
+
+/**
+ * Update a recurring cost series of a user
+ * Changes apply to the occurrences generated from now on, the start date
+ * anchors the schedule and cannot change
+ */
+export const updateRecurringCostForUser = async (
+  id: string,
+  userId: string,
+  data: RecurringCostUpdateRequest
+): Promise<IRecurringCost | null> => {
+  const series = await RecurringCost.findOne({ _id: id, userId });
+  if (!series) return null;
+
+  const { endDate, ...seriesData } = data;
+  series.set(seriesData);
+  if (endDate !== undefined) {
+    series.endDate = endDate ? new Date(endDate) : null;
+  }
+  await series.save();
+
+  await generateRecurringCostInstances(series.toObject() as IRecurringCost);
+  return findRecurringCostByIdForUser(id, userId);
+};
+
+/**
+ * Skip an occurrence of a series, or restore a skipped one
+ */
+export const setOccurrenceSkipped = async (
+  id: string,
+  userId: string,
+  date: Date,
+  skipped: boolean
+): Promise<IRecurringCost | null> => {
+  const occurrence = new Date(toDateKey(date));
+  const series = await RecurringCost.findOneAndUpdate(
+    { _id: id, userId },
+    skipped
+      ? { $addToSet: { skippedDates: occurrence } }
+      : { $pull: { skippedDates: occurrence } },
+    { new: true }
+  ).lean<IRecurringCost>();
+  return series;
+};
+
+/**
+ * Delete a recurring cost series of a user
+ * Its generated costs are kept as one-off costs
+ */
+export const deleteRecurringCostForUser = async (
+  id: string,
+  userId: string
+): Promise<IRecurringCost | null> => {
+  const series = await RecurringCost.findOneAndDelete({
+    _id: id,
+    userId,
+  }).lean<IRecurringCost>();
+
+  if (series) {
+    await Cost.updateMany(
+      { userId, recurringCostId: id },
+      { $set: { recurringCostId: null } }
+    );
+  }
+
+  return series;
+};
@@ -0,0 +1,120 @@
+import { InvoiceLineItem, PaymentTerms } from "@/types";
+import { calculateDueDate, calculateItemsAmount } from "./invoiceCalculations";
+import {
+  getDueOccurrences,
+  getUpcomingOccurrences,
+  isOccurrenceDate,
+  RecurrenceSchedule,
+  toDateKey,
+} from "./recurringCostCalculations";
+
+/**
+ * Pure functions for recurring invoice calculations
+ * Follows functional programming principles
+ *
+ * Recurring invoices follow the schedule of recurring costs. Their due
+ * occurrences are drafts until an invoice is issued on their day
+ */
+
+// Generic template shape (IRecurringInvoice or API response)
+export type RecurringInvoiceTemplate = Omit<
+  RecurrenceSchedule,
+  "generatedUntil"
+> & {
+  items: Pick<InvoiceLineItem, "amount">[];
+  paymentTerms: PaymentTerms;
+};
+
+/**
+ * Revenue expected from an upcoming occurrence of a recurring invoice
+ */
+export interface ProjectedRevenue {
+  issueDate: Date;
+  dueDate: Date;
+  amount: number;
+}
+
+/**
+ * Future months covered by the recurring revenue projection
+ */
+export const RECURRING_REVENUE_PROJECTION_MONTHS = 6;
+
+/**
+ * Amount of each invoice issued from a template
+ */
+export const getRecurringInvoiceAmount = (
+  template: Pick<RecurringInvoiceTemplate, "items">
+): number => calculateItemsAmount(template.items);
+
+/**
+ * Check if a day is an occurrence of a template with no invoice issued yet,
+ * skipped or not
+ */
+export const isOpenOccurrence = (
+  template: RecurringInvoiceTemplate,
+  issuedDates: (Date | string)[],
+  date: Date | string
+): boolean => {
+  const key = toDateKey(date);
+  return (
+    isOccurrenceDate(template, date) &&
+    !issuedDates.some((issued) => toDateKey(issued) === key)
+  );
+};
+
+/**
+ * Check if a day is a draft of a template: open and not skipped
+ */
+export const isDraftDate = (
+  template: RecurringInvoiceTemplate,
+  issuedDates: (Date | string)[],
+  date: Date | string
+): boolean => {
+  const key = toDateKey(date);
+  return (
+    isOpenOccurrence(template, issuedDates, date) &&
+    !(template.skippedDates ?? []).some((skipped) => toDateKey(skipped) === key)
+  );
+};
+
+/**
+ * Drafts of a template by a day: due occurrences neither issued nor skipped
+ */
+export const getDraftDates = (
+  template: RecurringInvoiceTemplate,
+  issuedDates: (Date | string)[],
+  today: Date
+): Date[] => {
+  const issued = new Set(issuedDates.map(toDateKey));
+  return getDueOccurrences(template, today)
+    .filter(({ date, skipped }) => !skipped && !issued.has(toDateKey(date)))
+    .map(({ date }) => date);
+};
+
+/**
+ * Revenue expected from the templates in the months after today,
+ * skipped occurrences excluded
+ * Each occurrence is due after its payment terms
+ */
+export const getRecurringRevenueProjection = (
+  templates: RecurringInvoiceTemplate[],
+  today: Date,
+  months = RECURRING_REVENUE_PROJECTION_MONTHS
+): ProjectedRevenue[] => {
+  const horizon = toDateKey(
+    new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + months + 1, 0))
+  );
+
+  return templates
+    .flatMap((template) =>
+      // Monthly templates have at most one occurrence a month
+      getUpcomingOccurrences(template, today, months + 1)
+        .filter(({ date, skipped }) => !skipped && toDateKey(date) <= horizon)
+        .map(({ date }) => ({
+          issueDate: date,
+          dueDate: calculateDueDate(date, template.paymentTerms),
+          amount: getRecurringInvoiceAmount(template),
+        }))
+    )
+    .sort((a, b) => a.issueDate.getTime() - b.issueDate.getTime());
+};
@@ -0,0 +1,157 @@
+import { Invoice } from "@/models/Invoice";
+import { RecurringInvoice } from "@/models/RecurringInvoice";
+import {
+  IInvoice,
+  IRecurringInvoice,
+  RecurringInvoiceCreateRequest,
+  RecurringInvoiceUpdateRequest,
+} from "@/types";
+import { toDateKey } from "./recurringCostCalculations";
+
+/**
+ * Pure functions for recurring invoice database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find the recurring invoices of a user
+ */
+export const findRecurringInvoicesByUserId = async (
+  userId: string
+): Promise<IRecurringInvoice[]> => {
+  const templates = await RecurringInvoice.find({ userId })
+    .sort({ startDate: -1 })
+    .lean<IRecurringInvoice[]>();
+  return templates;
+};
+
+/**
+ * Find a recurring invoice of a user
+ */
+export const findRecurringInvoiceByIdForUser = async (
+  id: string,
+  userId: string
+): Promise<IRecurringInvoice | null> => {
+  const template = await RecurringInvoice.findOne({
+    _id: id,
+    userId,
+  }).lean<IRecurringInvoice>();
+  return template;
+};
+
+/**
+ * Issue dates of the invoices issued from recurring invoices, by template
+ */
+export const findIssuedDatesByRecurringInvoice = async (
+  userId: string,
+  recurringInvoiceIds: string[]
+): Promise<Record<string, Date[]>> => {
+  const invoices = await Invoice.find(
+    { userId, recurringInvoiceId: { $in: recurringInvoiceIds } },
+    { recurringInvoiceId: 1, issueDate: 1 }
+  ).lean<Pick<IInvoice, "recurringInvoiceId" | "issueDate">[]>();
+
+  return invoices.reduce<Record<string, Date[]>>((dates, invoice) => {
+    const id = invoice.recurringInvoiceId as string;
+    dates[id] = [...(dates[id] ?? []), invoice.issueDate];
+    return dates;
+  }, {});
+};
+
+/**
+ * Create a recurring invoice repeating the content of an invoice of a user
+ * The invoice becomes its first occurrence, so it is not issued again
+ */
+export const createRecurringInvoiceFromInvoice = async (
+  userId: string,
+  invoice: IInvoice,
+  data: Omit<RecurringInvoiceCreateRequest, "invoiceId">
+): Promise<IRecurringInvoice> => {
+  const template = await RecurringInvoice.create({
+    userId,
+    title: invoice.title,
+    clientName: invoice.clientName,
+    clientId: invoice.clientId ?? null,
+    items: invoice.items ?? [],
+    paymentTerms: invoice.paymentTerms,
+    withholdingRate: invoice.withholding?.rate ?? null,
+    pensionChargeRate: invoice.pensionCharge?.rate ?? null,
+    bolloChargedToClient: invoice.bollo?.chargedToClient ?? false,
+    frequency: data.frequency,
+    startDate: new Date(toDateKey(invoice.issueDate)),
+    endDate: data.endDate ? new Date(data.endDate) : null,
+  });
+
+  await Invoice.updateOne(
+    { _id: invoice._id, userId },
+    { $set: { recurringInvoiceId: template._id.toString() } }
+  );
+
+  return template.toObject() as IRecurringInvoice;
+};
+
+/**
+ * Update the recurrence of a recurring invoice of a user
+ * The start date anchors the schedule and cannot change
+ */
+export const updateRecurringInvoiceForUser = async (
+  id: string,
+  userId: string,
+  data: RecurringInvoiceUpdateRequest
+): Promise<IRecurringInvoice | null> => {
+  const template = await RecurringInvoice.findOne({ _id: id, userId });
+  if (!template) return null;
+
+  if (data.frequency) {
+    template.frequency = data.frequency;
+  }
+  if (data.endDate !== undefined) {
+    template.endDate = data.endDate ? new Date(data.endDate) : null;
+  }
+  await template.save();
+
+  return template.toObject() as IRecurringInvoice;
+};
+
+/**
+ * Skip an occurrence of a recurring invoice, or restore a skipped one
+ */
+export const setRecurringInvoiceOccurrenceSkipped = async (
+  id: string,
+  userId: string,
+  date: Date,
+  skipped: boolean
+): Promise<IRecurringInvoice | null> => {
+  const occurrence = new Date(toDateKey(date));
+  const template = await RecurringInvoice.findOneAndUpdate(
+    { _id: id, userId },
+    skipped
+      ? { $addToSet: { skippedDates: occurrence } }
+      : { $pull: { skippedDates: occurrence } },
+    { new: true }
+  ).lean<IRecurringInvoice>();
+  return template;
+};
+
+/**
+ * Delete a recurring invoice of a user
+ * The invoices issued from it are kept as one-off invoices
+ */
+export const deleteRecurringInvoiceForUser = async (
+  id: string,
+  userId: string
+): Promise<IRecurringInvoice | null> => {
+  const template = await RecurringInvoice.findOneAndDelete({
+    _id: id,
+    userId,
+  }).lean<IRecurringInvoice>();
+
+  if (template) {
+    await Invoice.updateMany(
+      { userId, recurringInvoiceId: id },
+      { $set: { recurringInvoiceId: null } }
+    );
+  }
+
+  return template;
+};
@@ -0,0 +1,757 @@
+import {
+  ICost,
+  IInvoice,
+  ReportDocument,
+  ReportMetric,
+  ReportOptions,
+  ReportPeriod,
+  ReportSection,
+  ReportSectionKey,
+  ReportType,
+} from "@/types";
+import { calculateDeductibleAmount } from "./costCalculations";
+import {
+  calculateVatAmount,
+  filterRevenueInvoices,
+  getSignedAmount,
+  isCreditNote,
+} from "./invoiceCalculations";
+
+/**
+ * Pure functions for report content calculations
+ * Follows functional programming principles
+ *
+ * Builds a format-independent report document that the
+ * PDF, CSV and XLSX renderers turn into files
+ */
+
+export type ReportInvoice = Pick<
+  IInvoice,
+  | "number"
+  | "issueDate"
+  | "clientName"
+  | "title"
+  | "amount"
+  | "pensionCharge"
+  | "documentType"
+  | "status"
+  | "paymentDate"
+  | "vat"
+  | "fiscalYear"
+>;
+
+export type ReportCost = Pick<
+  ICost,
+  "description" | "date" | "amount" | "deductible" | "deductionPercentage"
+>;
+
+export interface ReportDateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+export const REPORT_SECTION_KEYS: ReportSectionKey[] = [
+  "financial",
+  "tax",
+  "cashflow",
+  "kpi",
+];
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  financial: "Report Finanziario",
+  tax: "Report Fiscale",
+  cashflow: "Cash Flow",
+  kpi: "KPI Analytics",
+  custom: "Report Personalizzato",
+};
+
+const MONTH_LABELS = [
+  "Gen",
+  "Feb",
+  "Mar",
+  "Apr",
+  "Mag",
+  "Giu",
+  "Lug",
+  "Ago",
+  "Set",
+  "Ott",
+  "Nov",
+  "Dic",
+];
+
+const PERIOD_MONTHS: Record<Exclude<ReportPeriod, "custom">, number> = {
+  month: 1,
+  quarter: 3,
+  year: 12,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Round a value to cents
+ */
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Sum a list of numbers
+ */
+const sum = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Format a date as dd/mm/yyyy
+ */
+export const formatReportDate = (date: Date): string => {
+  const d = new Date(date);
+  const day = String(d.getDate()).padStart(2, "0");
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  return `${day}/${month}/${d.getFullYear()}`;
+};
+
+/**
+ * Format a metric value for display
+ */
+export const formatReportMetric = (metric: ReportMetric): string => {
+  if (typeof metric.value === "string") return metric.value;
+
+  switch (metric.format) {
+    case "currency":
+      return `€ ${metric.value.toLocaleString("it-IT", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
+    case "percent":
+      return `${metric.value.toLocaleString("it-IT", {
+        maximumFractionDigits: 1,
+      })}%`;
+    default:
+      return metric.value.toLocaleString("it-IT");
+  }
+};
+
+/**
+ * Resolve the date range covered by a report
+ * Preset periods end now and go back one, three or twelve months
+ */
+export const resolveReportPeriod = (
+  period: ReportPeriod,
+  startDate?: Date,
+  endDate?: Date,
+  now: Date = new Date()
+): ReportDateRange => {
+  if (period === "custom") {
+    if (!startDate || !endDate) {
+      throw new Error("Custom period requires start and end dates");
+    }
+    if (startDate > endDate) {
+      throw new Error("Start date must be before end date");
+    }
+    const end = new Date(endDate);
+    end.setHours(23, 59, 59, 999);
+    const start = new Date(startDate);
+    start.setHours(0, 0, 0, 0);
+    return { startDate: start, endDate: end };
+  }
+
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - PERIOD_MONTHS[period]);
+  start.setHours(0, 0, 0, 0);
+  return { startDate: start, endDate: new Date(now) };
+};
+
+/**
+ * Resolve which sections a report contains
+ * Custom reports use the requested sections, or all of them if none is valid
+ */
+export const resolveReportSections = (
+  type: ReportType,
+  customSections: string[] = []
+): ReportSectionKey[] => {
+  if (type !== "custom") return [type];
+
+  const requested = REPORT_SECTION_KEYS.filter((key) =>
+    customSections.includes(key)
+  );
+  return requested.length > 0 ? requested : REPORT_SECTION_KEYS;
+};
+
+/**
+ * Build the name of a report from its type and range
+ */
+export const buildReportName = (
+  type: ReportType,
+  range: ReportDateRange
+): string =>
+  `${REPORT_TYPE_LABELS[type]} ${formatReportDate(
+    range.startDate
+  )} - ${formatReportDate(range.endDate)}`;
+
+/**
+ * Check whether a date falls within a range
+ */
+const isInRange = (date: Date | undefined, range: ReportDateRange): boolean => {
+  if (!date) return false;
+  const d = new Date(date);
+  return d >= range.startDate && d <= range.endDate;
+};
+
+/**
+ * List the months of a range as keys (yyyy-m) and labels
+ */
+const listMonths = (range: ReportDateRange): { key: string; label: string }[] => {
+  const months: { key: string; label: string }[] = [];
+  const cursor = new Date(
+    range.startDate.getFullYear(),
+    range.startDate.getMonth(),
+    1
+  );
+
+  while (cursor <= range.endDate) {
+    months.push({
+      key: `${cursor.getFullYear()}-${cursor.getMonth()}`,
+      label: `${MONTH_LABELS[cursor.getMonth()]} ${cursor.getFullYear()}`,
+    });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return months;
+};
+
+/**
+ * Total a list of dated amounts by month of the range
+ */
+const totalByMonth = (
+  items: { date: Date; amount: number }[],
+  months: { key: string }[]
+): number[] => {
+  const totals = new Map<string, number>(months.map(({ key }) => [key, 0]));
+  items.forEach(({ date, amount }) => {
+    const d = new Date(date);
+    const key = `${d.getFullYear()}-${d.getMonth()}`;
+    if (totals.has(key)) {
+      totals.set(key, (totals.get(key) || 0) + amount);
+    }
+  });
+  return months.map(({ key }) => roundToCents(totals.get(key) || 0));
+};
+
+/**
+ * VAT of an invoice, negative for credit notes
+ */
+const invoiceVatAmount = (invoice: ReportInvoice): number =>
+  isCreditNote(invoice)
+    ? -calculateVatAmount(invoice)
+    : calculateVatAmount(invoice);
+
+/**
+ * Invoice total including VAT, negative for credit notes
+ */
+const invoiceGrossAmount = (invoice: ReportInvoice): number =>
+  getSignedAmount(invoice) + invoiceVatAmount(invoice);
+
+/**
+ * Revenue totals by client, largest first
+ */
+const revenueByClient = (
+  invoices: ReportInvoice[]
+): { client: string; count: number; amount: number }[] => {
+  const totals = new Map<string, { count: number; amount: number }>();
+  invoices.forEach((invoice) => {
+    const current = totals.get(invoice.clientName) || { count: 0, amount: 0 };
+    totals.set(invoice.clientName, {
+      count: current.count + (isCreditNote(invoice) ? 0 : 1),
+      amount: current.amount + getSignedAmount(invoice),
+    });
+  });
+  return Array.from(totals.entries())
+    .map(([client, { count, amount }]) => ({
+      client,
+      count,
+      amount: roundToCents(amount),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+/**
+ * Revenue and costs of the range (by issue date and cost date)
+ */
+const buildFinancialSection = (
+  invoices: ReportInvoice[],
+  costs: ReportCost[],
+  months: { key: string; label: string }[]
+): ReportSection => {
+  const revenue = roundToCents(sum(invoices.map(getSignedAmount)));
+  const totalCosts = roundToCents(sum(costs.map((c) => c.amount)));
+  const profit = roundToCents(revenue - totalCosts);
+
+  return {
+    key: "financial",
+    title: "Andamento Finanziario",
+    metrics: [
+      { label: "Ricavi", value: revenue, format: "currency" },
+      { label: "Costi", value: totalCosts, format: "currency" },
+      { label: "Utile", value: profit, format: "currency" },
+      {
+        label: "Margine",
+        value: revenue > 0 ? roundToCents((profit / revenue) * 100) : 0,
+        format: "percent",
+      },
+    ],
+    charts: [
+      {
+        title: "Ricavi e costi mensili",
+        labels: months.map((m) => m.label),
+        series: [
+          {
+            name: "Ricavi",
+            values: totalByMonth(
+              invoices.map((i) => ({
+                date: i.issueDate,
+                amount: getSignedAmount(i),
+              })),
+              months
+            ),
+          },
+          {
+            name: "Costi",
+            values: totalByMonth(
+              costs.map((c) => ({ date: c.date, amount: c.amount })),
+              months
+            ),
+          },
+        ],
+      },
+    ],
+    tables: [
+      {
+        title: "Fatture",
+        columns: ["Numero", "Data", "Cliente", "Descrizione", "Imponibile", "IVA", "Totale"],
+        rows: invoices.map((invoice) => [
+          invoice.number ?? "",
+          formatReportDate(invoice.issueDate),
+          invoice.clientName,
+          invoice.title,
+          roundToCents(getSignedAmount(invoice)),
+          roundToCents(invoiceVatAmount(invoice)),
+          roundToCents(invoiceGrossAmount(invoice)),
+        ]),
+      },
+      {
+        title: "Costi",
+        columns: ["Data", "Descrizione", "Importo"],
+        rows: costs.map((cost) => [
+          formatReportDate(cost.date),
+          cost.description,
+          cost.amount,
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * VAT and deductible costs of the range
+ */
+const buildTaxSection = (
+  invoices: ReportInvoice[],
+  costs: ReportCost[],
+  months: { key: string; label: string }[]
+): ReportSection => {
+  const taxableRevenue = roundToCents(sum(invoices.map(getSignedAmount)));
+  const vat = roundToCents(sum(invoices.map(invoiceVatAmount)));
+  const deductibleCosts = roundToCents(
+    sum(costs.map(calculateDeductibleAmount))
+  );
+
+  return {
+    key: "tax",
+    title: "Situazione Fiscale",
+    metrics: [
+      { label: "Imponibile fatturato", value: taxableRevenue, format: "currency" },
+      { label: "IVA a debito", value: vat, format: "currency" },
+      { label: "Costi deducibili", value: deductibleCosts, format: "currency" },
+      {
+        label: "Base imponibile stimata",
+        value: roundToCents(Math.max(0, taxableRevenue - deductibleCosts)),
+        format: "currency",
+      },
+    ],
+    charts: [
+      {
+        title: "IVA mensile",
+        labels: months.map((m) => m.label),
+        series: [
+          {
+            name: "IVA",
+            values: totalByMonth(
+              invoices.map((i) => ({
+                date: i.issueDate,
+                amount: invoiceVatAmount(i),
+              })),
+              months
+            ),
+          },
+        ],
+      },
+    ],
+    tables: [
+      {
+        title: "IVA per fattura",
+        columns: ["Numero", "Data", "Imponibile", "Aliquota %", "IVA"],
+        rows: invoices.map((invoice) => [
+          invoice.number ?? "",
+          formatReportDate(invoice.issueDate),
+          roundToCents(getSignedAmount(invoice)),
+          invoice.vat?.vatRate ?? 0,
+          roundToCents(invoiceVatAmount(invoice)),
+        ]),
+      },
+      {
+        title: "Costi deducibili",
+        columns: ["Data", "Descrizione", "Importo", "Deducibile %", "Importo deducibile"],
+        rows: costs.map((cost) => [
+          formatReportDate(cost.date),
+          cost.description,
+          cost.amount,
+          cost.deductible === false ? 0 : cost.deductionPercentage ?? 100,
+          calculateDeductibleAmount(cost),
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * Cash in (by payment date) and out of the range
+ */
+const buildCashflowSection = (
+  allInvoices: ReportInvoice[],
+  costs: ReportCost[],
+  months: { key: string; label: string }[],
+  range: ReportDateRange
+): ReportSection => {
+  const collected = allInvoices.filter((i) => isInRange(i.paymentDate, range));
+  const outstanding = allInvoices.filter(
+    (i) =>
+      !isCreditNote(i) &&
+      !i.paymentDate &&
+      new Date(i.issueDate) <= range.endDate
+  );
+
+  const cashIn = totalByMonth(
+    collected.map((i) => ({
+      date: i.paymentDate as Date,
+      amount: invoiceGrossAmount(i),
+    })),
+    months
+  );
+  const cashOut = totalByMonth(
+    costs.map((c) => ({ date: c.date, amount: c.amount })),
+    months
+  );
+  const balance = cashIn.map((value, index) =>
+    roundToCents(value - cashOut[index])
+  );
+
+  const totalIn = roundToCents(sum(cashIn));
+  const totalOut = roundToCents(sum(cashOut));
+
+  return {
+    key: "cashflow",
+    title: "Flussi di Cassa",
+    metrics: [
+      { label: "Entrate", value: totalIn, format: "currency" },
+      { label: "Uscite", value: totalOut, format: "currency" },
+      { label: "Saldo", value: roundToCents(totalIn - totalOut), format: "currency" },
+      {
+        label: "Da incassare",
+        value: roundToCents(sum(outstanding.map(invoiceGrossAmount))),
+        format: "currency",
+      },
+    ],
+    charts: [
+      {
+        title: "Flussi di cassa mensili",
+        labels: months.map((m) => m.label),
+        series: [
+          { name: "Entrate", values: cashIn },
+          { name: "Uscite", values: cashOut },
+        ],
+      },
+    ],
+    tables: [
+      {
+        title: "Flussi mensili",
+        columns: ["Mese", "Entrate", "Uscite", "Saldo"],
+        rows: months.map((month, index) => [
+          month.label,
+          cashIn[index],
+          cashOut[index],
+          balance[index],
+        ]),
+      },
+      {
+        title: "Fatture da incassare",
+        columns: ["Numero", "Data", "Cliente", "Totale", "Giorni"],
+        rows: outstanding.map((invoice) => [
+          invoice.number ?? "",
+          formatReportDate(invoice.issueDate),
+          invoice.clientName,
+          roundToCents(invoiceGrossAmount(invoice)),
+          Math.max(
+            0,
+            Math.floor(
+              (range.endDate.getTime() - new Date(invoice.issueDate).getTime()) /
+                MS_PER_DAY
+            )
+          ),
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * Key performance indicators of the range
+ */
+const buildKpiSection = (
+  invoices: ReportInvoice[],
+  allInvoices: ReportInvoice[],
+  costs: ReportCost[],
+  range: ReportDateRange
+): ReportSection => {
+  const revenue = sum(invoices.map(getSignedAmount));
+  const totalCosts = sum(costs.map((c) => c.amount));
+  const clients = revenueByClient(invoices);
+
+  const issued = invoices.filter((i) => !isCreditNote(i));
+  const paidInRange = allInvoices.filter(
+    (i) => !isCreditNote(i) && isInRange(i.paymentDate, range)
+  );
+  const collectionDays = paidInRange.map(
+    (i) =>
+      (new Date(i.paymentDate as Date).getTime() -
+        new Date(i.issueDate).getTime()) /
+      MS_PER_DAY
+  );
+
+  return {
+    key: "kpi",
+    title: "Indicatori di Performance",
+    metrics: [
+      { label: "Fatture emesse", value: issued.length, format: "number" },
+      {
+        label: "Fattura media",
+        value: issued.length > 0 ? roundToCents(revenue / issued.length) : 0,
+        format: "currency",
+      },
+      { label: "Clienti attivi", value: clients.length, format: "number" },
+      {
+        label: "Quota primo cliente",
+        value:
+          revenue > 0 && clients.length > 0
+            ? roundToCents((clients[0].amount / revenue) * 100)
+            : 0,
+        format: "percent",
+      },
+      {
+        label: "Incidenza costi",
+        value: revenue > 0 ? roundToCents((totalCosts / revenue) * 100) : 0,
+        format: "percent",
+      },
+      {
+        label: "Giorni medi di incasso",
+        value:
+          collectionDays.length > 0
+            ? Math.round(sum(collectionDays) / collectionDays.length)
+            : 0,
+        format: "number",
+      },
+    ],
+    charts: [
+      {
+        title: "Ricavi per cliente",
+        labels: clients.map((c) => c.client),
+        series: [{ name: "Ricavi", values: clients.map((c) => c.amount) }],
+      },
+    ],
+    tables: [
+      {
+        title: "Ricavi per cliente",
+        columns: ["Cliente", "Fatture", "Ricavi", "Quota %"],
+        rows: clients.map((c) => [
+          c.client,
+          c.count,
+          c.amount,
+          revenue > 0 ? roundToCents((c.amount / revenue) * 100) : 0,
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * Period-level analytics: monthly averages, best month and last-month growth
+ */
+const buildAnalytics = (
+  revenueByMonth: number[],
+  costsByMonth: number[],
+  months: { label: string }[]
+): ReportMetric[] => {
+  const monthCount = Math.max(1, months.length);
+  const bestIndex = revenueByMonth.reduce(
+    (best, value, index) => (value > revenueByMonth[best] ? index : best),
+    0
+  );
+  const last = revenueByMonth[revenueByMonth.length - 1] ?? 0;
+  const previous = revenueByMonth[revenueByMonth.length - 2] ?? 0;
+
+  return [
+    {
+      label: "Ricavo medio mensile",
+      value: roundToCents(sum(revenueByMonth) / monthCount),
+      format: "currency",
+    },
+    {
+      label: "Costo medio mensile",
+      value: roundToCents(sum(costsByMonth) / monthCount),
+      format: "currency",
+    },
+    {
+      label: "Mese migliore",
+      value: months.length > 0 ? months[bestIndex].label : "N/A",
+      format: "text",
+    },
+    {
+      label: "Crescita ultimo mese",
+      value: previous > 0 ? roundToCents(((last - previous) / previous) * 100) : 0,
+      format: "percent",
+    },
+  ];
+};
+
+/**
+ * Rule-based insights on the period
+ */
+const buildInsights = (
+  invoices: ReportInvoice[],
+  allInvoices: ReportInvoice[],
+  costs: ReportCost[],
+  range: ReportDateRange
+): string[] => {
+  const insights: string[] = [];
+  const revenue = sum(invoices.map(getSignedAmount));
+  const totalCosts = sum(costs.map((c) => c.amount));
+
+  if (invoices.length === 0) {
+    insights.push("Nessuna fattura emessa nel periodo selezionato.");
+  } else {
+    const margin = ((revenue - totalCosts) / revenue) * 100;
+    if (margin < 20) {
+      insights.push(
+        `Il margine del periodo è del ${margin.toFixed(1)}%: valuta una revisione dei costi o dei prezzi.`
+      );
+    } else {
+      insights.push(`Il margine del periodo è solido (${margin.toFixed(1)}%).`);
+    }
+
+    const clients = revenueByClient(invoices);
+    const topShare = (clients[0].amount / revenue) * 100;
+    if (topShare > 50) {
+      insights.push(
+        `${clients[0].client} genera il ${topShare.toFixed(1)}% dei ricavi: il fatturato dipende molto da un solo cliente.`
+      );
+    }
+  }
+
+  const outstanding = allInvoices.filter(
+    (i) =>
+      !isCreditNote(i) &&
+      !i.paymentDate &&
+      new Date(i.issueDate) <= range.endDate
+  );
+  const overdue = outstanding.filter(
+    (i) =>
+      (range.endDate.getTime() - new Date(i.issueDate).getTime()) / MS_PER_DAY >
+      60
+  );
+  if (overdue.length > 0) {
+    insights.push(
+      `${overdue.length} fatture risultano non incassate da oltre 60 giorni.`
+    );
+  }
+
+  const nonDeductible = costs.filter((c) => c.deductible === false);
+  if (nonDeductible.length > 0) {
+    insights.push(
+      `${nonDeductible.length} costi del periodo non sono deducibili.`
+    );
+  }
+
+  return insights;
+};
+
+/**
+ * Build the report document for a configuration
+ * Charts, raw data tables, analytics and insights are included
+ * only when the matching option is enabled
+ */
+export const buildReportDocument = (
+  config: ReportOptions & { type: ReportType },
+  data: { invoices: ReportInvoice[]; costs: ReportCost[] },
+  range: ReportDateRange,
+  generatedAt: Date = new Date()
+): ReportDocument => {
+  const months = listMonths(range);
+  // Drafts and cancelled invoices are not revenue
+  const allInvoices = filterRevenueInvoices(data.invoices);
+  const invoices = allInvoices.filter((i) => isInRange(i.issueDate, range));
+  const costs = data.costs.filter((c) => isInRange(c.date, range));
+
+  const builders: Record<ReportSectionKey, () => ReportSection> = {
+    financial: () => buildFinancialSection(invoices, costs, months),
+    tax: () => buildTaxSection(invoices, costs, months),
+    cashflow: () => buildCashflowSection(allInvoices, costs, months, range),
+    kpi: () => buildKpiSection(invoices, allInvoices, costs, range),
+  };
+
+  const sections = resolveReportSections(config.type, config.customSections).map(
+    (key) => {
+      const section = builders[key]();
+      return {
+        ...section,
+        charts: config.includeCharts ? section.charts : [],
+        tables: config.includeRawData ? section.tables : [],
+      };
+    }
+  );
+
+  return {
+    title: REPORT_TYPE_LABELS[config.type],
+    periodLabel: `${formatReportDate(range.startDate)} - ${formatReportDate(
+      range.endDate
+    )}`,
+    generatedAt,
+    sections,
+    analytics: config.includeAnalytics
+      ? buildAnalytics(
+          totalByMonth(
+            invoices.map((i) => ({
+              date: i.issueDate,
+              amount: getSignedAmount(i),
+            })),
+            months
+          ),
+          totalByMonth(
+            costs.map((c) => ({ date: c.date, amount: c.amount })),
+            months
+          ),
+          months
+        )
+      : [],
+    insights: config.includeInsights
+      ? buildInsights(invoices, allInvoices, costs, range)
+      : [],
+  };
+};
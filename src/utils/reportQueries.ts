@@ -0,0 +1,80 @@
+import { Report } from "@/models/Report";
+import { IReport, ReportDocument, ReportOptions, ReportType } from "@/types";
+import { findCostsByUserAndDateRange } from "./costQueries";
+import { findInvoicesByUserAndDateRange } from "./invoiceQueries";
+import { ReportDateRange, buildReportDocument } from "./reportCalculations";
+
+/**
+ * Pure functions for report database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Maximum number of reports listed for a user
+ */
+const REPORT_LIST_LIMIT = 50;
+
+/**
+ * Find the most recent reports of a user, without their content
+ */
+export const findReportsByUserId = async (
+  userId: string
+): Promise<Omit<IReport, "document">[]> => {
+  const reports = await Report.find({ userId })
+    .select("-document")
+    .sort({ createdAt: -1 })
+    .limit(REPORT_LIST_LIMIT)
+    .lean<Omit<IReport, "document">[]>();
+  return reports;
+};
+
+/**
+ * Find a report of a user
+ */
+export const findReportForUser = async (
+  reportId: string,
+  userId: string
+): Promise<IReport | null> => {
+  const report = await Report.findOne({ _id: reportId, userId }).lean<IReport>();
+  return report;
+};
+
+/**
+ * Build the content of a report from the invoices and costs of its range
+ */
+export const buildReportForUser = async (
+  userId: string,
+  config: ReportOptions & { type: ReportType },
+  range: ReportDateRange
+): Promise<ReportDocument> => {
+  const [invoices, costs] = await Promise.all([
+    findInvoicesByUserAndDateRange(userId, range.startDate, range.endDate),
+    findCostsByUserAndDateRange(userId, range.startDate, range.endDate),
+  ]);
+
+  return buildReportDocument(config, { invoices, costs }, range);
+};
+
+/**
+ * Persist the configuration and content of a generated report
+ */
+export const createReport = async (
+  data: Omit<IReport, "_id" | "createdAt" | "updatedAt">
+): Promise<IReport> => {
+  const report = await Report.create(data);
+  return report.toObject();
+};
+
+/**
+ * Delete a report of a user
+ */
+export const deleteReportForUser = async (
+  reportId: string,
+  userId: string
+): Promise<IReport | null> => {
+  const report = await Report.findOneAndDelete({
+    _id: reportId,
+    userId,
+  }).lean<IReport>();
+  return report;
+};
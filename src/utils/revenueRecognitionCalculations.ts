@@ -0,0 +1,227 @@
+import {
+  BolloInfo,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoiceStatus,
+  PensionChargeInfo,
+  RevenueRecognition,
+  VatInfo,
+  WithholdingInfo,
+} from "@/types";
+import {
+  allocateToPayments,
+  calculateNetToReceive,
+  getSignedAmount,
+  isRevenueInvoice,
+} from "./invoiceCalculations";
+
+/**
+ * Pure functions for revenue recognition
+ * Follows functional programming principles
+ *
+ * Forfettari are taxed on the income received in the year (principio di
+ * cassa), so their invoices count when paid and unpaid invoices do not
+ * count yet. Invoices paid in instalments count on each receipt date for
+ * the share of the invoice it settles. The ordinario regime counts invoices when issued (competenza)
+ */
+
+// Generic invoice shape for revenue recognition (IInvoice, PlainInvoice or API invoices)
+export type InvoiceForRecognition = {
+  id?: string;
+  _id?: string;
+  amount: number;
+  issueDate: Date | string;
+  paymentDate?: Date | string | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  pensionCharge?: PensionChargeInfo | null;
+  status?: InvoiceStatus;
+  title?: string;
+  items?: InvoiceLineItem[];
+  vat?: VatInfo | null;
+  bollo?: BolloInfo | null;
+  withholding?: WithholdingInfo | null;
+  payments?: { date: Date | string; amount: number }[];
+};
+
+const getInvoiceId = (invoice: InvoiceForRecognition): string =>
+  (invoice.id ?? invoice._id ?? "").toString();
+
+/**
+ * Revenue recognition of a tax regime
+ */
+export const getRevenueRecognition = (
+  taxRegime?: string | null
+): RevenueRecognition => (taxRegime === "forfettario" ? "cash" : "accrual");
+
+/**
+ * Date of the last receipt of an invoice, null while nothing was received
+ * Invoices paid in instalments only record their payments until settled
+ */
+const getLastReceiptDate = (invoice: InvoiceForRecognition): Date | null => {
+  if (invoice.paymentDate) {
+    return new Date(invoice.paymentDate);
+  }
+  const times = (invoice.payments ?? []).map((payment) =>
+    new Date(payment.date).getTime()
+  );
+  return times.length ? new Date(Math.max(...times)) : null;
+};
+
+/**
+ * Date an invoice counts as revenue, null while it does not count
+ * Under the cash basis credit notes count when refunded, otherwise with
+ * the last receipt of their original invoice, never before they are issued,
+ * so credit notes of unpaid invoices do not reduce the revenue.
+ * Drafts and cancelled invoices never count
+ */
+export const getRecognitionDate = <T extends InvoiceForRecognition>(
+  invoice: T,
+  recognition: RevenueRecognition,
+  invoices: T[] = []
+): Date | null => {
+  if (!isRevenueInvoice(invoice)) {
+    return null;
+  }
+  if (recognition === "accrual") {
+    return new Date(invoice.issueDate);
+  }
+  if (invoice.paymentDate) {
+    return new Date(invoice.paymentDate);
+  }
+  if (invoice.documentType !== "credit_note" || !invoice.originalInvoiceId) {
+    return null;
+  }
+
+  const originalInvoiceId = invoice.originalInvoiceId.toString();
+  const original = invoices.find(
+    (candidate) => getInvoiceId(candidate) === originalInvoiceId
+  );
+  const paymentDate = original ? getLastReceiptDate(original) : null;
+  if (!paymentDate) {
+    return null;
+  }
+
+  const issueDate = new Date(invoice.issueDate);
+  return issueDate > paymentDate ? issueDate : paymentDate;
+};
+
+/**
+ * Invoices as received under the cash basis: an invoice with payments
+ * becomes one copy per payment, dated on the receipt and carrying the
+ * share of the amount and of the pension charge the payment settles
+ */
+export const splitInvoicesByReceipt = <T extends InvoiceForRecognition>(
+  invoices: T[]
+): T[] =>
+  invoices.flatMap((invoice) => {
+    if (invoice.documentType === "credit_note" || !invoice.payments?.length) {
+      return [invoice];
+    }
+
+    const payments = [...invoice.payments].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    const amountDue = calculateNetToReceive(invoice);
+    const amounts = allocateToPayments(invoice.amount, payments, amountDue);
+    const pensionCharges = invoice.pensionCharge
+      ? allocateToPayments(invoice.pensionCharge.amount, payments, amountDue)
+      : [];
+
+    return payments.map(
+      (payment, index) =>
+        ({
+          ...invoice,
+          amount: amounts[index],
+          pensionCharge: invoice.pensionCharge
+            ? { ...invoice.pensionCharge, amount: pensionCharges[index] }
+            : invoice.pensionCharge,
+          paymentDate: payment.date,
+        } as T)
+    );
+  });
+
+/**
+ * Invoices recognized as revenue between two dates, both included
+ * Under the cash basis invoices paid in instalments are split by receipt
+ */
+export const filterInvoicesRecognizedBetween = <
+  T extends InvoiceForRecognition
+>(
+  invoices: T[],
+  startDate: Date,
+  endDate: Date,
+  recognition: RevenueRecognition
+): T[] =>
+  (recognition === "cash" ? splitInvoicesByReceipt(invoices) : invoices).filter(
+    (invoice) => {
+      const date = getRecognitionDate(invoice, recognition, invoices);
+      return !!date && date >= startDate && date <= endDate;
+    }
+  );
+
+/**
+ * Invoices recognized as revenue in a year
+ */
+export const filterInvoicesRecognizedInYear = <
+  T extends InvoiceForRecognition
+>(
+  invoices: T[],
+  year: number,
+  recognition: RevenueRecognition
+): T[] =>
+  filterInvoicesRecognizedBetween(
+    invoices,
+    new Date(year, 0, 1),
+    new Date(year, 11, 31, 23, 59, 59, 999),
+    recognition
+  );
+
+/**
+ * Invoices recognized as revenue in a month (1-12) of a year
+ */
+export const filterInvoicesRecognizedInMonth = <
+  T extends InvoiceForRecognition
+>(
+  invoices: T[],
+  month: number,
+  year: number,
+  recognition: RevenueRecognition
+): T[] =>
+  filterInvoicesRecognizedBetween(
+    invoices,
+    new Date(year, month - 1, 1),
+    new Date(year, month, 0, 23, 59, 59, 999),
+    recognition
+  );
+
+/**
+ * Revenue of recognized invoices, credit notes reducing it
+ */
+const sumRecognizedRevenue = (invoices: InvoiceForRecognition[]): number =>
+  invoices.reduce((total, invoice) => total + getSignedAmount(invoice), 0);
+
+/**
+ * Revenue recognized in a year, net of credit notes
+ */
+export const calculateRecognizedRevenue = (
+  invoices: InvoiceForRecognition[],
+  year: number,
+  recognition: RevenueRecognition
+): number =>
+  sumRecognizedRevenue(
+    filterInvoicesRecognizedInYear(invoices, year, recognition)
+  );
+
+/**
+ * Revenue recognized in a month (1-12) of a year, net of credit notes
+ */
+export const calculateRecognizedRevenueInMonth = (
+  invoices: InvoiceForRecognition[],
+  month: number,
+  year: number,
+  recognition: RevenueRecognition
+): number =>
+  sumRecognizedRevenue(
+    filterInvoicesRecognizedInMonth(invoices, month, year, recognition)
+  );
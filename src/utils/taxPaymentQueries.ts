@@ -0,0 +1,50 @@
+import { TaxPayment } from "@/models/TaxPayment";
+import { ITaxPayment } from "@/types";
+
+/**
+ * Pure functions for tax payment database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Find the payments of a user marked as paid in a fiscal year's schedule
+ */
+export const findTaxPaymentsByUserAndYear = async (
+  userId: string,
+  fiscalYear: number
+): Promise<ITaxPayment[]> => {
+  const payments = await TaxPayment.find({ userId, fiscalYear })
+    .sort({ paidAt: 1 })
+    .lean<ITaxPayment[]>();
+  return payments;
+};
+
+/**
+ * Mark a scheduled payment as paid, replacing any previous record
+ */
+export const upsertTaxPayment = async (
+  userId: string,
+  fiscalYear: number,
+  paymentId: string,
+  amount: number,
+  paidAt: Date
+): Promise<ITaxPayment> => {
+  const payment = await TaxPayment.findOneAndUpdate(
+    { userId, fiscalYear, paymentId },
+    { $set: { amount, paidAt } },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  ).lean<ITaxPayment>();
+  return payment as ITaxPayment;
+};
+
+/**
+ * Mark a scheduled payment as unpaid
+ */
+export const deleteTaxPayment = async (
+  userId: string,
+  fiscalYear: number,
+  paymentId: string
+): Promise<boolean> => {
+  const result = await TaxPayment.deleteOne({ userId, fiscalYear, paymentId });
+  return result.deletedCount > 0;
+};
@@ -5,6 +5,71 @@ import { IUserSettings, TaxRegime, PensionSystem } from "@/types";
  * Follows functional programming principles
  */
 
+/**
+ * Reduced substitute rate for new activities (art. 1, comma 65, L. 190/2014)
+ */
+export const STARTUP_SUBSTITUTE_RATE = 5;
+
+/**
+ * Ordinary substitute rate of the forfettario regime
+ */
+export const STANDARD_SUBSTITUTE_RATE = 15;
+
+/**
+ * Substitute rates accepted for the forfettario regime
+ */
+export const FORFETTARIO_SUBSTITUTE_RATES = [
+  STARTUP_SUBSTITUTE_RATE,
+  STANDARD_SUBSTITUTE_RATE,
+];
+
+/**
+ * Number of fiscal years covered by the startup rate:
+ * the year the activity started and the following four
+ */
+export const STARTUP_RATE_YEARS = 5;
+
+/**
+ * Last fiscal year in which the startup rate applies
+ */
+export const getStartupRateLastYear = (activityStartDate: Date | string): number =>
+  new Date(activityStartDate).getFullYear() + STARTUP_RATE_YEARS - 1;
+
+/**
+ * Check whether the startup rate applies in a fiscal year
+ */
+export const isStartupRateEligible = (
+  activityStartDate: Date | string,
+  fiscalYear: number
+): boolean => {
+  const startYear = new Date(activityStartDate).getFullYear();
+  return (
+    fiscalYear >= startYear &&
+    fiscalYear <= getStartupRateLastYear(activityStartDate)
+  );
+};
+
+/**
+ * Resolve the substitute rate for a fiscal year
+ * With an activity start date the rate follows the startup window,
+ * otherwise the manually selected rate is used
+ */
+export const resolveSubstituteRate = (
+  settings: {
+    substituteRate?: number;
+    activityStartDate?: Date | string | null;
+  },
+  fiscalYear: number
+): number => {
+  if (settings.activityStartDate) {
+    return isStartupRateEligible(settings.activityStartDate, fiscalYear)
+      ? STARTUP_SUBSTITUTE_RATE
+      : STANDARD_SUBSTITUTE_RATE;
+  }
+
+  return settings.substituteRate ?? STANDARD_SUBSTITUTE_RATE;
+};
+
 /**
  * Check if user settings are complete
  */
@@ -43,9 +108,9 @@ export const validateTaxRegimeSettings = (
   if (settings.taxRegime === "forfettario") {
     if (!settings.substituteRate) {
       errors.push("Substitute rate is required for forfettario regime");
-    } else if (![5, 25].includes(settings.substituteRate)) {
+    } else if (!FORFETTARIO_SUBSTITUTE_RATES.includes(settings.substituteRate)) {
       errors.push(
-        "Substitute rate must be either 5 or 25 for forfettario regime"
+        "Substitute rate must be either 5 or 15 for forfettario regime"
       );
     }
 
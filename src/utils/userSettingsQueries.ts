@@ -1,6 +1,9 @@
 import { UserSettings } from "@/models/UserSettings";
 import { IUserSettings } from "@/types";
-import { getDefaultSettings } from "./userSettingsCalculations";
+import {
+  STANDARD_SUBSTITUTE_RATE,
+  getDefaultSettings,
+} from "./userSettingsCalculations";
 
 /**
  * Pure functions for user settings database queries
@@ -200,3 +203,16 @@ export const findIncompleteSettings = async (): Promise<IUserSettings[]> => {
 
   return settings;
 };
+
+/**
+ * Move settings holding the 25% substitute rate, which the forfettario
+ * regime does not have, to the ordinary 15% rate
+ * Returns the number of settings updated
+ */
+export const migrateLegacySubstituteRate = async (): Promise<number> => {
+  const result = await UserSettings.updateMany(
+    { substituteRate: 25 },
+    { $set: { substituteRate: STANDARD_SUBSTITUTE_RATE } }
+  );
+  return result.modifiedCount;
+};
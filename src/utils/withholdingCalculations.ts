@@ -0,0 +1,200 @@
+import {
+  InvoiceDocumentType,
+  PensionChargeInfo,
+  WithholdingCertificateResponse,
+  WithholdingClientReconciliation,
+  WithholdingClientTotal,
+  WithholdingInfo,
+} from "@/types";
+import { calculateCompensation } from "./invoiceCalculations";
+
+/**
+ * Pure functions for withholding tax (ritenuta d'acconto) calculations
+ * Follows functional programming principles
+ *
+ * Clients withhold the tax when they pay an invoice, so withholdings count
+ * in the year of payment, which is also the year of the certificate
+ * (Certificazione Unica) the client issues for them
+ */
+
+// Generic invoice shape for withholding calculations (IInvoice or PlainInvoice)
+type InvoiceForWithholding = {
+  id?: string;
+  _id?: string;
+  amount: number;
+  clientName: string;
+  clientId?: string | null;
+  paymentDate?: Date | string | null;
+  withholding?: WithholdingInfo | null;
+  pensionCharge?: PensionChargeInfo | null;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+};
+
+/**
+ * Differences below a cent are rounding, not discrepancies
+ */
+const RECONCILIATION_TOLERANCE = 0.01;
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+const getInvoiceId = (invoice: InvoiceForWithholding): string =>
+  (invoice.id ?? invoice._id ?? "").toString();
+
+/**
+ * Name used to match invoices and certificates of the same client
+ */
+const normalizeClientName = (name: string): string =>
+  name.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Invoices whose withholding tax was retained in a year, with their credit notes
+ * Invoices count when paid in the year, credit notes reduce the withholding
+ * of their original invoice, so they count together with it
+ */
+export const getWithheldInvoices = <T extends InvoiceForWithholding>(
+  invoices: T[],
+  year: number
+): T[] => {
+  const paidIds = new Set(
+    invoices
+      .filter(
+        (invoice) =>
+          invoice.documentType !== "credit_note" &&
+          invoice.withholding &&
+          invoice.paymentDate &&
+          new Date(invoice.paymentDate).getFullYear() === year
+      )
+      .map(getInvoiceId)
+  );
+
+  return invoices.filter((invoice) =>
+    invoice.documentType === "credit_note"
+      ? !!invoice.withholding &&
+        !!invoice.originalInvoiceId &&
+        paidIds.has(invoice.originalInvoiceId.toString())
+      : paidIds.has(getInvoiceId(invoice))
+  );
+};
+
+/**
+ * Sign of an invoice in the withholding totals, negative for credit notes
+ */
+const getSign = (invoice: InvoiceForWithholding): number =>
+  invoice.documentType === "credit_note" ? -1 : 1;
+
+/**
+ * Withholding tax retained by clients in a year
+ * Credited against the IRPEF of that year
+ */
+export const calculateWithheldTotal = (
+  invoices: InvoiceForWithholding[],
+  year: number
+): number =>
+  roundToCents(
+    getWithheldInvoices(invoices, year).reduce(
+      (total, invoice) =>
+        total + getSign(invoice) * (invoice.withholding?.amount ?? 0),
+      0
+    )
+  );
+
+/**
+ * Compensation and withholding tax of each client in a year, sorted by name
+ * The compensation includes the rivalsa INPS, VAT, stamp duty and the
+ * contributo integrativo are excluded
+ */
+export const calculateClientWithholdingTotals = (
+  invoices: InvoiceForWithholding[],
+  year: number
+): WithholdingClientTotal[] => {
+  const totals = new Map<string, WithholdingClientTotal>();
+
+  getWithheldInvoices(invoices, year).forEach((invoice) => {
+    const key = normalizeClientName(invoice.clientName);
+    const total = totals.get(key) ?? {
+      clientName: invoice.clientName.trim(),
+      clientId: null,
+      grossAmount: 0,
+      withheldAmount: 0,
+    };
+    const sign = getSign(invoice);
+
+    totals.set(key, {
+      ...total,
+      clientId: total.clientId ?? invoice.clientId?.toString() ?? null,
+      grossAmount: roundToCents(
+        total.grossAmount + sign * calculateCompensation(invoice)
+      ),
+      withheldAmount: roundToCents(
+        total.withheldAmount + sign * (invoice.withholding?.amount ?? 0)
+      ),
+    });
+  });
+
+  return [...totals.values()].sort((a, b) =>
+    a.clientName.localeCompare(b.clientName)
+  );
+};
+
+/**
+ * Check if a certificate was issued by the client of the invoice totals
+ * Registry clients match by ID, the others by name
+ */
+const isSameClient = (
+  expected: WithholdingClientTotal,
+  certificate: WithholdingCertificateResponse
+): boolean =>
+  expected.clientId && certificate.clientId
+    ? expected.clientId === certificate.clientId
+    : normalizeClientName(expected.clientName) ===
+      normalizeClientName(certificate.clientName);
+
+/**
+ * Compare the certificates received in a year with the invoice totals
+ * of each client, sorted by client name
+ */
+export const reconcileWithholdingCertificates = (
+  expectedTotals: WithholdingClientTotal[],
+  certificates: WithholdingCertificateResponse[]
+): WithholdingClientReconciliation[] => {
+  const unmatched = [...certificates];
+
+  const reconciled = expectedTotals.map(
+    (expected): WithholdingClientReconciliation => {
+      const index = unmatched.findIndex((certificate) =>
+        isSameClient(expected, certificate)
+      );
+      const [certificate] = index >= 0 ? unmatched.splice(index, 1) : [null];
+
+      const matches =
+        !!certificate &&
+        Math.abs(certificate.grossAmount - expected.grossAmount) <
+          RECONCILIATION_TOLERANCE &&
+        Math.abs(certificate.withheldAmount - expected.withheldAmount) <
+          RECONCILIATION_TOLERANCE;
+
+      return {
+        clientName: expected.clientName,
+        clientId: expected.clientId,
+        expected,
+        certificate,
+        status: !certificate ? "missing" : matches ? "matched" : "mismatch",
+      };
+    }
+  );
+
+  const unexpected = unmatched.map(
+    (certificate): WithholdingClientReconciliation => ({
+      clientName: certificate.clientName,
+      clientId: certificate.clientId,
+      expected: null,
+      certificate,
+      status: "unexpected",
+    })
+  );
+
+  return [...reconciled, ...unexpected].sort((a, b) =>
+    a.clientName.localeCompare(b.clientName)
+  );
+};
@@ -0,0 +1,136 @@
+import { Invoice } from "@/models/Invoice";
+import { WithholdingCertificate } from "@/models/WithholdingCertificate";
+import {
+  IInvoice,
+  IWithholdingCertificate,
+  WithholdingCertificateRequest,
+  WithholdingCertificateResponse,
+  WithholdingSummary,
+} from "@/types";
+import {
+  calculateClientWithholdingTotals,
+  calculateWithheldTotal,
+  reconcileWithholdingCertificates,
+} from "./withholdingCalculations";
+
+/**
+ * Pure functions for withholding tax database queries
+ * Replaces static methods with functional approach
+ */
+
+/**
+ * Format a certificate for API responses
+ */
+export const formatWithholdingCertificate = (
+  certificate: IWithholdingCertificate
+): WithholdingCertificateResponse => ({
+  id: certificate._id.toString(),
+  year: certificate.year,
+  clientName: certificate.clientName,
+  clientId: certificate.clientId?.toString() ?? null,
+  grossAmount: certificate.grossAmount,
+  withheldAmount: certificate.withheldAmount,
+});
+
+/**
+ * Find the certificates received by a user for a year, sorted by client
+ */
+export const findWithholdingCertificatesByYear = async (
+  userId: string,
+  year: number
+): Promise<IWithholdingCertificate[]> => {
+  const certificates = await WithholdingCertificate.find({ userId, year })
+    .sort({ clientName: 1 })
+    .lean<IWithholdingCertificate[]>();
+  return certificates;
+};
+
+/**
+ * Record the certificate of a client for a year, replacing any previous one
+ */
+export const upsertWithholdingCertificate = async (
+  userId: string,
+  {
+    year,
+    clientName,
+    clientId,
+    grossAmount,
+    withheldAmount,
+  }: WithholdingCertificateRequest
+): Promise<IWithholdingCertificate> => {
+  const certificate = await WithholdingCertificate.findOneAndUpdate(
+    { userId, year, clientName: clientName.trim() },
+    { $set: { clientId: clientId ?? null, grossAmount, withheldAmount } },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  ).lean<IWithholdingCertificate>();
+  return certificate as IWithholdingCertificate;
+};
+
+/**
+ * Delete a certificate of a user
+ */
+export const deleteWithholdingCertificate = async (
+  userId: string,
+  year: number,
+  id: string
+): Promise<boolean> => {
+  const result = await WithholdingCertificate.deleteOne({
+    _id: id,
+    userId,
+    year,
+  });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Find the invoices with withholding tax paid by clients in a year,
+ * with the credit notes that reverse them
+ */
+export const findWithheldInvoicesByYear = async (
+  userId: string,
+  year: number
+): Promise<IInvoice[]> => {
+  const invoices = await Invoice.find({
+    userId,
+    documentType: { $ne: "credit_note" },
+    "withholding.amount": { $gt: 0 },
+    paymentDate: { $gte: new Date(year, 0, 1), $lt: new Date(year + 1, 0, 1) },
+  }).lean();
+
+  const creditNotes = await Invoice.find({
+    userId,
+    documentType: "credit_note",
+    "withholding.amount": { $gt: 0 },
+    originalInvoiceId: {
+      $in: invoices.map((invoice) => invoice._id.toString()),
+    },
+  }).lean();
+
+  return [...invoices, ...creditNotes].map((invoice) => ({
+    ...invoice,
+    _id: invoice._id.toString(),
+  }));
+};
+
+/**
+ * Withholding tax of a year: total retained by clients and the comparison
+ * of their certificates with the invoices
+ */
+export const getWithholdingSummary = async (
+  userId: string,
+  year: number
+): Promise<WithholdingSummary> => {
+  const [invoices, certificates] = await Promise.all([
+    findWithheldInvoicesByYear(userId, year),
+    findWithholdingCertificatesByYear(userId, year),
+  ]);
+
+  return {
+    year,
+    withheldTotal: calculateWithheldTotal(invoices, year),
+    clients: reconcileWithholdingCertificates(
+      calculateClientWithholdingTotals(invoices, year),
+      certificates.map(formatWithholdingCertificate)
+    ),
+  };
+};